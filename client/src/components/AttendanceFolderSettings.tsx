@@ -0,0 +1,137 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Button } from '@/components/ui/button.js';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.js';
+import { getCsrfToken, queryClient } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+import { ClipboardList } from 'lucide-react';
+
+interface AttendanceFolder {
+  folderId: string | null;
+  folderName: string | null;
+}
+
+interface DriveFolder {
+  id: string;
+  name: string;
+}
+
+const ATTENDANCE_FOLDER_KEY = '/api/documents/attendance-folder';
+
+async function saveAttendanceFolder(folder: DriveFolder | null): Promise<AttendanceFolder> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(ATTENDANCE_FOLDER_KEY, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: JSON.stringify({ folder }),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as AttendanceFolder;
+}
+
+/**
+ * Choose the Google Drive folder that is checked for class attendance sheets. New CSV files
+ * and Google Sheets in it become timeline suggestions for the clients listed.
+ */
+export default function AttendanceFolderSettings() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<AttendanceFolder>({
+    queryKey: [ATTENDANCE_FOLDER_KEY],
+  });
+  const { data: folders, isError: foldersUnavailable } = useQuery<DriveFolder[]>({
+    queryKey: ['/api/documents/drive-folders'],
+  });
+
+  const folderMutation = useMutation({
+    mutationFn: saveAttendanceFolder,
+    onSuccess: (updated) => {
+      queryClient.setQueryData([ATTENDANCE_FOLDER_KEY], updated);
+      toast({
+        title: updated.folderId ? 'Attendance folder saved' : 'Attendance folder cleared',
+        description: updated.folderId
+          ? `New sheets in "${updated.folderName}" will be checked every hour.`
+          : 'Attendance sheets will no longer be imported from Drive.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update the attendance folder. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Keep the saved folder selectable even if it is not among the recent folders listed
+  const options = [...(folders ?? [])];
+  if (settings?.folderId && !options.some((folder) => folder.id === settings.folderId)) {
+    options.unshift({ id: settings.folderId, name: settings.folderName ?? settings.folderId });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <ClipboardList className='h-5 w-5' />
+          Attendance Sheets
+        </CardTitle>
+        <CardDescription>
+          Pick a Google Drive folder for your class sign-in sheets. New CSV files and Google Sheets
+          added there are read once and suggested as timeline updates for the clients who attended.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {isLoading ? (
+          <p className='text-sm text-muted-foreground'>Loading settings...</p>
+        ) : (
+          <div className='flex flex-col gap-2 sm:flex-row sm:items-center'>
+            <Select
+              value={settings?.folderId ?? ''}
+              onValueChange={(folderId) => {
+                const folder = options.find((option) => option.id === folderId);
+                if (folder) folderMutation.mutate(folder);
+              }}
+              disabled={folderMutation.isPending}
+            >
+              <SelectTrigger className='sm:w-72'>
+                <SelectValue placeholder='Choose a Drive folder' />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((folder) => (
+                  <SelectItem key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {settings?.folderId && (
+              <Button
+                variant='ghost'
+                size='sm'
+                disabled={folderMutation.isPending}
+                onClick={() => folderMutation.mutate(null)}
+              >
+                Stop watching
+              </Button>
+            )}
+          </div>
+        )}
+        {foldersUnavailable && (
+          <p className='text-sm text-muted-foreground'>
+            Could not load your Drive folders. Check that Google Drive is connected.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Checkbox } from '@/components/ui/checkbox.js';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.js';
+import { getCsrfToken, queryClient } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+import { FileSpreadsheet } from 'lucide-react';
+
+type AttendanceField =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'date'
+  | 'className'
+  | 'status'
+  | 'paid';
+
+type ColumnMapping = Partial<Record<AttendanceField, string>>;
+
+interface ImportProfile {
+  id: string;
+  name: string;
+  columnMapping: ColumnMapping;
+  attendedStatuses: string[] | null;
+  dateFormat: string | null;
+  isDefault: boolean;
+}
+
+interface Attendee {
+  name: string;
+  email?: string;
+  status?: string;
+}
+
+interface AttendancePreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  sessions: Array<{
+    className: string;
+    date: string;
+    matched: Array<{ attendee: Attendee; contactId: string; contactName: string }>;
+    unmatched: Attendee[];
+  }>;
+  excluded: Attendee[];
+}
+
+interface Layout {
+  columnMapping: ColumnMapping;
+  dateFormat: string | null;
+}
+
+const PROFILES_KEY = '/api/attendance/profiles';
+const DETECT_COLUMNS = 'detect';
+const UNMAPPED = 'none';
+
+const FIELD_LABELS: Record<AttendanceField, string> = {
+  name: 'Full name',
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  date: 'Date',
+  className: 'Class',
+  status: 'Status',
+  paid: 'Paid',
+};
+
+async function sendSheet<T>(url: string, file: File, profileId: string | null, layout: Layout | null): Promise<T> {
+  const csrfToken = await getCsrfToken();
+  const form = new FormData();
+  form.append('file', file);
+  if (profileId) form.append('profileId', profileId);
+  if (layout) form.append('layout', JSON.stringify(layout));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'X-CSRF-Token': csrfToken },
+    body: form,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function saveProfile(body: Layout & { name: string; isDefault: boolean }): Promise<ImportProfile> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(PROFILES_KEY, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as ImportProfile;
+}
+
+/**
+ * Upload an attendance export from a booking system, check which attendees match clients,
+ * and save the column layout as a profile for the next export.
+ */
+export default function AttendanceImportCard() {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  // Set once the user edits the mapping; otherwise the profile or detected columns are used
+  const [layout, setLayout] = useState<Layout | null>(null);
+  const [preview, setPreview] = useState<AttendancePreview | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [makeDefault, setMakeDefault] = useState(false);
+
+  const { data: profiles } = useQuery<ImportProfile[]>({ queryKey: [PROFILES_KEY] });
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (options: { file: File; profileId: string | null; layout: Layout | null }) =>
+      sendSheet<AttendancePreview>('/api/attendance/preview', options.file, options.profileId, options.layout),
+    onSuccess: setPreview,
+    onError: () => {
+      setPreview(null);
+      showError('Could not read that sheet. Check the file and column mapping.');
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      sendSheet<{ suggestionsCreated: number }>('/api/attendance/import', file!, profileId, layout),
+    onSuccess: ({ suggestionsCreated }) => {
+      void queryClient.invalidateQueries({ queryKey: ['/api/ai-suggestions'] });
+      toast({
+        title: 'Attendance imported',
+        description: `${suggestionsCreated} timeline suggestions are waiting for your approval.`,
+      });
+      setFile(null);
+      setPreview(null);
+      setLayout(null);
+    },
+    onError: () => showError('Failed to import the attendance sheet. Please try again.'),
+  });
+
+  const profileMutation = useMutation({
+    mutationFn: saveProfile,
+    onSuccess: (profile) => {
+      void queryClient.invalidateQueries({ queryKey: [PROFILES_KEY] });
+      setProfileId(profile.id);
+      setLayout(null);
+      setProfileName('');
+      toast({ title: 'Profile saved', description: `"${profile.name}" can be used for future imports.` });
+    },
+    onError: () => showError('Failed to save the import profile.'),
+  });
+
+  const runPreview = (next: { file?: File | null; profileId?: string | null; layout?: Layout | null }) => {
+    const nextFile = next.file !== undefined ? next.file : file;
+    if (!nextFile) return;
+    previewMutation.mutate({
+      file: nextFile,
+      profileId: next.profileId !== undefined ? next.profileId : profileId,
+      layout: next.layout !== undefined ? next.layout : layout,
+    });
+  };
+
+  const selectedProfile = profiles?.find((profile) => profile.id === profileId);
+  const currentLayout: Layout = layout ?? {
+    columnMapping: preview?.mapping ?? {},
+    dateFormat: selectedProfile?.dateFormat ?? null,
+  };
+
+  const updateMapping = (field: AttendanceField, header: string) => {
+    const columnMapping = { ...currentLayout.columnMapping };
+    if (header === UNMAPPED) {
+      delete columnMapping[field];
+    } else {
+      columnMapping[field] = header;
+    }
+    const nextLayout = { ...currentLayout, columnMapping };
+    setLayout(nextLayout);
+    runPreview({ layout: nextLayout });
+  };
+
+  const matchedCount = preview?.sessions.reduce((total, session) => total + session.matched.length, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <FileSpreadsheet className='h-5 w-5' />
+          Import Attendance
+        </CardTitle>
+        <CardDescription>
+          Upload a CSV or XLSX export from your booking system (Mindbody, Momence, Acuity...). Check
+          which attendees match your clients before any timeline suggestions are created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='grid gap-3 sm:grid-cols-2'>
+          <div className='space-y-1'>
+            <Label htmlFor='attendance-file'>Sheet</Label>
+            <Input
+              id='attendance-file'
+              type='file'
+              accept='.csv,.xlsx'
+              onChange={(event) => {
+                const nextFile = event.target.files?.[0] ?? null;
+                setFile(nextFile);
+                setPreview(null);
+                runPreview({ file: nextFile });
+              }}
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label>Import profile</Label>
+            <Select
+              value={profileId ?? DETECT_COLUMNS}
+              onValueChange={(value) => {
+                const nextProfileId = value === DETECT_COLUMNS ? null : value;
+                setProfileId(nextProfileId);
+                setLayout(null);
+                runPreview({ profileId: nextProfileId, layout: null });
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DETECT_COLUMNS}>Detect columns automatically</SelectItem>
+                {(profiles ?? []).map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                    {profile.isDefault ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {previewMutation.isPending && <p className='text-sm text-muted-foreground'>Reading sheet...</p>}
+
+        {preview && (
+          <>
+            <div className='grid gap-3 sm:grid-cols-4'>
+              {(Object.keys(FIELD_LABELS) as AttendanceField[]).map((field) => (
+                <div key={field} className='space-y-1'>
+                  <Label className='text-xs'>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={currentLayout.columnMapping[field] ?? UNMAPPED}
+                    onValueChange={(header) => updateMapping(field, header)}
+                  >
+                    <SelectTrigger className='h-8'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in sheet</SelectItem>
+                      {preview.headers
+                        .filter((header) => header !== '')
+                        .map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className='space-y-3'>
+              {preview.sessions.length === 0 && (
+                <p className='text-sm text-muted-foreground'>No attendees found in this sheet.</p>
+              )}
+              {preview.sessions.map((session) => (
+                <div key={`${session.className}-${session.date}`} className='rounded-lg border p-3'>
+                  <p className='text-sm font-medium'>
+                    {session.className} · {session.date}
+                  </p>
+                  <div className='mt-2 flex flex-wrap gap-1'>
+                    {session.matched.map(({ attendee, contactId, contactName }) => (
+                      <Badge key={`${contactId}-${attendee.name}`} variant='secondary'>
+                        {contactName}
+                      </Badge>
+                    ))}
+                    {session.unmatched.map((attendee, index) => (
+                      <Badge key={`${attendee.name}-${index}`} variant='outline' className='text-muted-foreground'>
+                        {attendee.name} (no match)
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {preview.excluded.length > 0 && (
+                <p className='text-xs text-muted-foreground'>
+                  {preview.excluded.length} rows skipped because their status shows the client did not attend.
+                </p>
+              )}
+            </div>
+
+            <div className='flex flex-col gap-2 sm:flex-row sm:items-center'>
+              <Input
+                className='sm:w-56'
+                placeholder='Profile name, e.g. Mindbody roster'
+                value={profileName}
+                onChange={(event) => setProfileName(event.target.value)}
+              />
+              <div className='flex items-center gap-2'>
+                <Checkbox
+                  id='attendance-default-profile'
+                  checked={makeDefault}
+                  onCheckedChange={(checked) => setMakeDefault(checked === true)}
+                />
+                <Label htmlFor='attendance-default-profile' className='text-sm'>
+                  Use for Drive folder imports
+                </Label>
+              </div>
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={!profileName.trim() || profileMutation.isPending}
+                onClick={() =>
+                  profileMutation.mutate({
+                    ...currentLayout,
+                    name: profileName.trim(),
+                    isDefault: makeDefault,
+                  })
+                }
+              >
+                Save profile
+              </Button>
+              <Button
+                size='sm'
+                className='sm:ml-auto'
+                disabled={matchedCount === 0 || importMutation.isPending || previewMutation.isPending}
+                onClick={() => importMutation.mutate()}
+              >
+                Create suggestions for {matchedCount} clients
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -30,7 +30,7 @@ import {
   SelectValue,
 } from '@/components/ui/select.js';
 import { useToast } from '@/hooks/use-toast.js';
-import { apiRequest } from '@/lib/queryClient.js';
+import { apiRequest, getCsrfToken } from '@/lib/queryClient.js';
 
 const contactSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -49,6 +49,9 @@ const contactSchema = z.object({
   website: z.string().optional(),
   linkedinUrl: z.string().optional(),
   address: z.string().optional(),
+  // Recorded as a referral once the contact exists
+  referredById: z.string().optional(),
+  referralSource: z.enum(['word_of_mouth', 'social_media', 'event', 'other']).optional(),
 });
 
 type ContactFormData = z.infer<typeof contactSchema>;
@@ -62,10 +65,30 @@ interface ExtractedFields {
   address?: string;
 }
 
-interface ContactApiData extends Omit<ContactFormData, 'company' | 'jobTitle' | 'website' | 'linkedinUrl' | 'address'> {
+interface ContactApiData
+  extends Omit<
+    ContactFormData,
+    'company' | 'jobTitle' | 'website' | 'linkedinUrl' | 'address' | 'referredById' | 'referralSource'
+  > {
   extractedFields?: ExtractedFields;
 }
 
+interface ReferralApiData {
+  referrerId: string;
+  source?: ContactFormData['referralSource'];
+}
+
+async function recordReferral(referredId: string, referral: ReferralApiData): Promise<boolean> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch('/api/referrals', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: JSON.stringify({ ...referral, referredId }),
+  });
+  return response.ok;
+}
+
 interface AddContactDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -75,6 +98,11 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: contacts = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ['/api/contacts'],
+    enabled: open,
+  });
+
   const form = useForm<ContactFormData>({
     resolver: zodResolver(contactSchema),
     defaultValues: {
@@ -93,18 +121,28 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
       website: '',
       linkedinUrl: '',
       address: '',
+      referredById: undefined,
+      referralSource: undefined,
     },
   });
 
   const createContact = useMutation({
-    mutationFn: (data: ContactApiData) =>
-      apiRequest('POST', '/api/contacts', data),
-    onSuccess: () => {
+    mutationFn: async ({ contact, referral }: { contact: ContactApiData; referral?: ReferralApiData }) => {
+      const response = await apiRequest('POST', '/api/contacts', contact);
+      if (!referral) return { referralRecorded: true };
+      const created = (await response.json()) as { id: string };
+      return { referralRecorded: await recordReferral(created.id, referral) };
+    },
+    onSuccess: ({ referralRecorded }) => {
       void queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
       void queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      void queryClient.invalidateQueries({ queryKey: ['/api/dashboard/referrals'] });
       toast({
         title: 'Contact added',
-        description: 'The contact has been successfully added to your list.',
+        description: referralRecorded
+          ? 'The contact has been successfully added to your list.'
+          : 'The contact was added, but the referral could not be recorded.',
+        variant: referralRecorded ? 'default' : 'destructive',
       });
       form.reset();
       onOpenChange(false);
@@ -120,7 +158,8 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
 
   const onSubmit = (data: ContactFormData) => {
     // Separate standard fields from extracted fields
-    const { company, jobTitle, website, linkedinUrl, address, ...standardFields } = data;
+    const { company, jobTitle, website, linkedinUrl, address, referredById, referralSource, ...standardFields } =
+      data;
     
     // Build extracted fields object
     const extractedFields: ExtractedFields = {};
@@ -133,7 +172,7 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
     // Clean up empty strings from standard fields
     const cleanData = Object.fromEntries(
       Object.entries(standardFields).filter(([, value]) => value !== '' && value !== null && value !== undefined)
-    ) as Omit<ContactFormData, 'company' | 'jobTitle' | 'website' | 'linkedinUrl' | 'address'>;
+    ) as Omit<ContactApiData, 'extractedFields'>;
     
     // Create final API data object
     const apiData: ContactApiData = { ...cleanData };
@@ -143,7 +182,10 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
       apiData.extractedFields = extractedFields;
     }
     
-    createContact.mutate(apiData);
+    createContact.mutate({
+      contact: apiData,
+      referral: referredById ? { referrerId: referredById, source: referralSource } : undefined,
+    });
   };
 
   return (
@@ -306,6 +348,57 @@ export default function AddContactDialog({ open, onOpenChange }: AddContactDialo
               )}
             />
 
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+              <FormField
+                control={form.control}
+                name='referredById'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referred By</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder='Select the contact who referred them' />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={contact.id}>
+                            {contact.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name='referralSource'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Referral Source</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!form.watch('referredById')}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder='How did the referral happen?' />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value='word_of_mouth'>Word of Mouth</SelectItem>
+                        <SelectItem value='social_media'>Social Media</SelectItem>
+                        <SelectItem value='event'>Event</SelectItem>
+                        <SelectItem value='other'>Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* Professional Information */}
             <div className='space-y-4'>
               <h4 className='text-sm font-medium text-muted-foreground'>Professional Information</h4>
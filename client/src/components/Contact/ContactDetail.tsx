@@ -1,12 +1,16 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.js";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs.js";
-import { Progress } from "@/components/ui/progress.js";
 import { Badge } from "@/components/ui/badge.js";
 import { Button } from "@/components/ui/button.js";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar.js";
 import { Edit } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { VoiceNotesPanel } from "@/components/Contact/VoiceNotesPanel.js";
+import { GoalsPanel } from "@/components/Contact/GoalsPanel.js";
+import { EmailThreadsPanel } from "@/components/Contact/EmailThreadsPanel.js";
+import { ContactTimeline } from "@/components/Contact/ContactTimeline.js";
+import { ReferralsPanel } from "@/components/Contact/ReferralsPanel.js";
 import type { Contact, Interaction, Goal, Document } from "@shared/schema.js";
 
 interface ContactWithDetails extends Contact {
@@ -111,10 +115,12 @@ export default function ContactDetail({ contactId, onEditContact }: ContactDetai
       <Card>
         <CardContent className="p-6">
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="emails">Emails</TabsTrigger>
               <TabsTrigger value="goals">Goals</TabsTrigger>
+              <TabsTrigger value="referrals">Referrals</TabsTrigger>
               <TabsTrigger value="documents">Documents</TabsTrigger>
             </TabsList>
 
@@ -159,62 +165,20 @@ export default function ContactDetail({ contactId, onEditContact }: ContactDetai
             </TabsContent>
 
             <TabsContent value="timeline" className="space-y-4 mt-6">
-              {contact.interactions && contact.interactions.length > 0 ? (
-                contact.interactions.map((interaction: Interaction) => (
-                  <div key={interaction.id} className="border-l-2 border-primary pl-4 pb-4">
-                    <div className="flex items-center justify-between">
-                      <h5 className="font-medium">{interaction.subject ?? interaction.type}</h5>
-                      <span className="text-xs text-muted-foreground">
-                        {formatDistanceToNow(new Date(interaction.timestamp), { addSuffix: true })}
-                      </span>
-                    </div>
-                    <p className="text-sm text-muted-foreground mt-1">
-                      {interaction.content ?? 'No content'}
-                    </p>
-                    <div className="flex items-center space-x-2 mt-2">
-                      <Badge variant="outline" className="text-xs">
-                        {interaction.type}
-                      </Badge>
-                      {interaction.source && (
-                        <Badge variant="outline" className="text-xs">
-                          {interaction.source}
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                ))
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  No interactions found
-                </div>
-              )}
+              <VoiceNotesPanel contactId={contact.id} />
+              <ContactTimeline contactId={contact.id} />
+            </TabsContent>
+
+            <TabsContent value="emails" className="space-y-4 mt-6">
+              <EmailThreadsPanel contactId={contact.id} />
             </TabsContent>
 
             <TabsContent value="goals" className="space-y-4 mt-6">
-              {contact.goals && contact.goals.length > 0 ? (
-                contact.goals.map((goal: Goal) => (
-                  <div key={goal.id} className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <h5 className="font-medium">{goal.title}</h5>
-                      <Badge variant={goal.status === "completed" ? "default" : "secondary"}>
-                        {goal.status ?? 'Unknown'}
-                      </Badge>
-                    </div>
-                    {goal.description && (
-                      <p className="text-sm text-muted-foreground">{goal.description}</p>
-                    )}
-                    <div className="flex items-center justify-between text-sm">
-                      <span>Progress: {goal.currentValue ?? 0}/{goal.targetValue ?? 0} {goal.unit ?? ''}</span>
-                      <span>{goal.targetValue ? Math.round(((goal.currentValue ?? 0) / goal.targetValue) * 100) : 0}%</span>
-                    </div>
-                    <Progress value={goal.targetValue ? ((goal.currentValue ?? 0) / goal.targetValue) * 100 : 0} className="h-2" />
-                  </div>
-                ))
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  No goals set
-                </div>
-              )}
+              <GoalsPanel contactId={contact.id} />
+            </TabsContent>
+
+            <TabsContent value="referrals" className="space-y-4 mt-6">
+              <ReferralsPanel contactId={contact.id} />
             </TabsContent>
 
             <TabsContent value="documents" className="space-y-4 mt-6">
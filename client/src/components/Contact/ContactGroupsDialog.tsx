@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { ScrollArea } from '@/components/ui/scroll-area.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { getCsrfToken } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+import { RuleConditionsEditor } from '@/components/Contact/RuleConditionsEditor.js';
+import { GROUP_FIELDS, NEW_CONDITION, rulesComplete, toRules, type RuleCondition } from '@/lib/contactRules.js';
+
+export interface ContactGroupSummary {
+  id: string;
+  name: string;
+  description?: string | null;
+  groupType: 'static' | 'rule';
+  color?: string | null;
+  memberCount: number;
+}
+
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T | undefined> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.status === 204 ? undefined : ((await response.json()) as T);
+}
+
+interface ContactGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog adds these contacts to a static group
+  contactIds?: string[];
+}
+
+/**
+ * Create and delete contact groups. Static groups hold the contacts added to them; rule-based
+ * groups contain whoever matches their rules, e.g. core clients not contacted for 30 days.
+ */
+export function ContactGroupsDialog({ open, onOpenChange, contactIds }: ContactGroupsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [groupType, setGroupType] = useState<'static' | 'rule'>('static');
+  const [match, setMatch] = useState<'all' | 'any'>('all');
+  const [conditions, setConditions] = useState<RuleCondition[]>([NEW_CONDITION]);
+  const [previewCount, setPreviewCount] = useState<number | null>(null);
+  const addingContacts = (contactIds?.length ?? 0) > 0;
+
+  const { data: groups = [] } = useQuery<ContactGroupSummary[]>({
+    queryKey: ['/api/contact-groups'],
+    enabled: open,
+  });
+
+  const refreshGroups = () => queryClient.invalidateQueries({ queryKey: ['/api/contact-groups'] });
+
+  const resetForm = () => {
+    setName('');
+    setGroupType('static');
+    setMatch('all');
+    setConditions([NEW_CONDITION]);
+    setPreviewCount(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendJson('POST', '/api/contact-groups', {
+        name: name.trim(),
+        groupType,
+        ...(groupType === 'rule' ? { rules: toRules(match, conditions) } : { contactIds }),
+      }),
+    onSuccess: () => {
+      toast({ title: 'Group created', description: `"${name.trim()}" is ready to use.` });
+      resetForm();
+      void refreshGroups();
+      if (addingContacts) onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      const description = error.message.startsWith('409')
+        ? 'A group with this name already exists.'
+        : 'Failed to create the group.';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    },
+  });
+
+  const addMembersMutation = useMutation({
+    mutationFn: (groupId: string) => sendJson('POST', `/api/contact-groups/${groupId}/members`, { contactIds }),
+    onSuccess: () => {
+      toast({ title: 'Contacts added', description: `Added ${contactIds?.length ?? 0} contact(s) to the group.` });
+      void refreshGroups();
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to add contacts to the group.', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (groupId: string) => sendJson('DELETE', `/api/contact-groups/${groupId}`),
+    onSuccess: () => void refreshGroups(),
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete the group.', variant: 'destructive' });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () =>
+      sendJson<{ count: number }>('POST', '/api/contact-groups/preview', toRules(match, conditions)),
+    onSuccess: (preview) => setPreviewCount(preview?.count ?? 0),
+  });
+
+  const canCreate = name.trim() !== '' && (groupType === 'static' || rulesComplete(conditions));
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className='max-w-2xl'>
+        <DialogHeader>
+          <DialogTitle>{addingContacts ? 'Add to Group' : 'Contact Groups'}</DialogTitle>
+          <DialogDescription>
+            {addingContacts
+              ? `Add ${contactIds?.length ?? 0} selected contact(s) to a group, or start a new group with them.`
+              : 'Groups can be used to filter contacts and as targets for bulk actions and AI tasks.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className='max-h-56'>
+          <div className='space-y-2 pr-3'>
+            {groups.length === 0 && <p className='text-sm text-muted-foreground'>No groups yet.</p>}
+            {groups.map((group) => (
+              <div key={group.id} className='flex items-center justify-between gap-2 rounded-md border p-2'>
+                <div className='flex items-center gap-2'>
+                  <span
+                    className='h-3 w-3 rounded-full'
+                    style={{ backgroundColor: group.color ?? '#6b7280' }}
+                  />
+                  <span className='font-medium'>{group.name}</span>
+                  <Badge variant='outline' className='text-xs'>
+                    {group.groupType === 'rule' ? 'Rule-based' : 'Static'}
+                  </Badge>
+                  <span className='text-xs text-muted-foreground'>{group.memberCount} contacts</span>
+                </div>
+                {addingContacts ? (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    disabled={group.groupType === 'rule' || addMembersMutation.isPending}
+                    title={group.groupType === 'rule' ? 'Members of rule-based groups follow from their rules' : undefined}
+                    onClick={() => addMembersMutation.mutate(group.id)}
+                  >
+                    Add
+                  </Button>
+                ) : (
+                  <Button
+                    variant='ghost'
+                    size='sm'
+                    className='h-7 w-7 p-0'
+                    title='Delete group'
+                    onClick={() => deleteMutation.mutate(group.id)}
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className='space-y-3 border-t pt-4'>
+          <h5 className='font-medium'>New group</h5>
+          <div className='flex gap-2'>
+            <div className='flex-1 space-y-1'>
+              <Label htmlFor='group-name'>Name</Label>
+              <Input
+                id='group-name'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder='e.g. Core clients to reconnect with'
+              />
+            </div>
+            {!addingContacts && (
+              <div className='space-y-1'>
+                <Label>Type</Label>
+                <Select value={groupType} onValueChange={(value) => setGroupType(value as 'static' | 'rule')}>
+                  <SelectTrigger className='w-[150px]'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='static'>Static</SelectItem>
+                    <SelectItem value='rule'>Rule-based</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {groupType === 'rule' && !addingContacts && (
+            <RuleConditionsEditor
+              fields={GROUP_FIELDS}
+              match={match}
+              onMatchChange={(value) => {
+                setMatch(value);
+                setPreviewCount(null);
+              }}
+              conditions={conditions}
+              onConditionsChange={(updated) => {
+                setConditions(updated);
+                setPreviewCount(null);
+              }}
+            >
+              <Button
+                variant='ghost'
+                size='sm'
+                disabled={!rulesComplete(conditions) || previewMutation.isPending}
+                onClick={() => previewMutation.mutate()}
+              >
+                Preview
+              </Button>
+              {previewCount !== null && (
+                <span className='text-sm text-muted-foreground'>{previewCount} contacts match</span>
+              )}
+            </RuleConditionsEditor>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button disabled={!canCreate || createMutation.isPending} onClick={() => createMutation.mutate()}>
+            {addingContacts ? 'Create group with selected' : 'Create group'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,521 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Checkbox } from '@/components/ui/checkbox.js';
+import { Progress } from '@/components/ui/progress.js';
+import { ScrollArea } from '@/components/ui/scroll-area.js';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.js';
+import { getCsrfToken } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+
+type ContactField = 'name' | 'firstName' | 'lastName' | 'email' | 'phone' | 'notes';
+type ColumnMapping = Partial<Record<ContactField, string>>;
+type RowAction = 'skip' | 'merge' | 'create';
+type Step = 'upload' | 'review' | 'options' | 'progress';
+
+interface ImportedContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+interface ImportRow {
+  row: number;
+  contact: ImportedContact;
+  errors: string[];
+  duplicates: Array<{ contactId: string; contactName: string; email: string; reason: string; score: number }>;
+  duplicateOfRow?: number;
+  suggestedAction: RowAction;
+}
+
+interface ImportPreview {
+  format: 'csv' | 'xlsx' | 'vcard';
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+}
+
+interface RowDecision {
+  action: RowAction;
+  mergeIntoId?: string;
+}
+
+interface ImportJob {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  errorMessage?: string | null;
+  progress: {
+    total: number;
+    processed: number;
+    created: number;
+    merged: number;
+    skipped: number;
+    failed: number;
+    errors: Array<{ row: number; message: string }>;
+  };
+}
+
+interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ContactImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNMAPPED = 'none';
+const KEEP_STAGE = 'none';
+
+const FIELD_LABELS: Record<ContactField, string> = {
+  name: 'Full name',
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone',
+  notes: 'Notes',
+};
+
+const LIFECYCLE_STAGES = [
+  { value: 'discovery', label: 'Discovery' },
+  { value: 'curious', label: 'Curious' },
+  { value: 'new_client', label: 'New Client' },
+  { value: 'core_client', label: 'Core Client' },
+  { value: 'ambassador', label: 'Ambassador' },
+  { value: 'needs_reconnecting', label: 'Needs Reconnecting' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'collaborator', label: 'Collaborator' },
+];
+
+async function previewImport(file: File, mapping: ColumnMapping | null): Promise<ImportPreview> {
+  const csrfToken = await getCsrfToken();
+  const form = new FormData();
+  form.append('file', file);
+  if (mapping) form.append('mapping', JSON.stringify(mapping));
+
+  const response = await fetch('/api/contacts/import/preview', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'X-CSRF-Token': csrfToken },
+    body: form,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as ImportPreview;
+}
+
+async function startImport(body: unknown): Promise<{ jobId: string }> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch('/api/contacts/import', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as { jobId: string };
+}
+
+const suggestedDecisions = (rows: ImportRow[]): Record<number, RowDecision> =>
+  Object.fromEntries(
+    rows.map((row) => [
+      row.row,
+      {
+        action: row.suggestedAction,
+        mergeIntoId: row.duplicates[0]?.contactId,
+      },
+    ])
+  );
+
+/**
+ * Import contacts from a CSV, XLSX or vCard file: map the columns, decide per row whether to
+ * skip, merge into a likely duplicate or create a new contact, then follow the import job.
+ */
+export function ContactImportWizard({ open, onOpenChange }: ContactImportWizardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [decisions, setDecisions] = useState<Record<number, RowDecision>>({});
+  const [lifecycleStage, setLifecycleStage] = useState(KEEP_STAGE);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [newTags, setNewTags] = useState('');
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  const { data: tags = [] } = useQuery<Tag[]>({ queryKey: ['/api/tags'], enabled: open });
+
+  const { data: job } = useQuery<ImportJob>({
+    queryKey: [`/api/contacts/import/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : 1000;
+    },
+  });
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setPreview(null);
+    setDecisions({});
+    setLifecycleStage(KEEP_STAGE);
+    setTagIds([]);
+    setNewTags('');
+    setJobId(null);
+  };
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      if (job?.status === 'completed' || job?.status === 'failed') {
+        void queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+      }
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (options: { file: File; mapping: ColumnMapping | null }) =>
+      previewImport(options.file, options.mapping),
+    onSuccess: (result) => {
+      setPreview(result);
+      setDecisions(suggestedDecisions(result.rows));
+      setStep('review');
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Could not read that file. Check it is a CSV, XLSX or vCard export.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: startImport,
+    onSuccess: ({ jobId: startedJobId }) => {
+      setJobId(startedJobId);
+      setStep('progress');
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to start the import.', variant: 'destructive' });
+    },
+  });
+
+  const updateMapping = (field: ContactField, header: string) => {
+    if (!file || !preview) return;
+    const mapping = { ...preview.mapping };
+    if (header === UNMAPPED) {
+      delete mapping[field];
+    } else {
+      mapping[field] = header;
+    }
+    previewMutation.mutate({ file, mapping });
+  };
+
+  const setDecision = (row: number, decision: Partial<RowDecision>) => {
+    setDecisions((current) => ({ ...current, [row]: { ...current[row], ...decision } }));
+  };
+
+  const runImport = () => {
+    if (!file || !preview) return;
+    const rows = preview.rows.map((row) => {
+      const decision = decisions[row.row];
+      if (decision.action === 'merge' && decision.mergeIntoId) {
+        return { action: 'merge', mergeIntoId: decision.mergeIntoId, contact: row.contact };
+      }
+      if (decision.action === 'create') {
+        return { action: 'create', contact: row.contact };
+      }
+      return { action: 'skip' };
+    });
+    const tagNames = newTags
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    importMutation.mutate({
+      fileName: file.name,
+      rows,
+      lifecycleStage: lifecycleStage === KEEP_STAGE ? undefined : lifecycleStage,
+      tagIds: tagIds.length > 0 ? tagIds : undefined,
+      newTags: tagNames.length > 0 ? tagNames : undefined,
+    });
+  };
+
+  const counts = Object.values(decisions).reduce<Record<RowAction, number>>(
+    (total, decision) => ({ ...total, [decision.action]: total[decision.action] + 1 }),
+    { skip: 0, merge: 0, create: 0 }
+  );
+  const progress = job?.progress;
+  const finished = job?.status === 'completed' || job?.status === 'failed';
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className='max-w-4xl'>
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or XLSX export, or a vCard (.vcf) file from your address book.'}
+            {step === 'review' && 'Check the column mapping and choose what happens to each row.'}
+            {step === 'options' && 'Set a lifecycle stage and tags for every imported contact.'}
+            {step === 'progress' && 'Your contacts are being imported.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className='space-y-2'>
+            <Label htmlFor='contact-import-file'>File</Label>
+            <Input
+              id='contact-import-file'
+              type='file'
+              accept='.csv,.xlsx,.vcf,.vcard'
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            />
+          </div>
+        )}
+
+        {step === 'review' && preview && (
+          <div className='space-y-4'>
+            {preview.format !== 'vcard' && (
+              <div className='grid gap-3 sm:grid-cols-3'>
+                {(Object.keys(FIELD_LABELS) as ContactField[]).map((field) => (
+                  <div key={field} className='space-y-1'>
+                    <Label className='text-xs'>{FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={preview.mapping[field] ?? UNMAPPED}
+                      onValueChange={(header) => updateMapping(field, header)}
+                      disabled={previewMutation.isPending}
+                    >
+                      <SelectTrigger className='h-8'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                        {preview.headers
+                          .filter((header) => header !== '')
+                          .map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ScrollArea className='h-80 rounded-md border'>
+              <div className='divide-y'>
+                {preview.rows.length === 0 && (
+                  <p className='p-4 text-sm text-muted-foreground'>No contacts found in this file.</p>
+                )}
+                {preview.rows.map((row) => {
+                  const decision = decisions[row.row];
+                  return (
+                    <div key={row.row} className='flex flex-col gap-2 p-3 sm:flex-row sm:items-center'>
+                      <div className='min-w-0 flex-1 space-y-1'>
+                        <p className='truncate text-sm font-medium'>
+                          {row.contact.name ?? 'No name'}{' '}
+                          <span className='font-normal text-muted-foreground'>{row.contact.email}</span>
+                        </p>
+                        {row.duplicates.slice(0, 1).map((duplicate) => (
+                          <Badge key={duplicate.contactId} variant='secondary' className='text-xs'>
+                            Matches {duplicate.contactName} by {duplicate.reason}
+                          </Badge>
+                        ))}
+                        {row.duplicateOfRow !== undefined && (
+                          <p className='text-xs text-muted-foreground'>
+                            Same email as row {row.duplicateOfRow}
+                          </p>
+                        )}
+                        {row.errors.map((error) => (
+                          <p key={error} className='text-xs text-destructive'>
+                            {error}
+                          </p>
+                        ))}
+                      </div>
+                      <Select
+                        value={decision.action}
+                        onValueChange={(action) => setDecision(row.row, { action: action as RowAction })}
+                      >
+                        <SelectTrigger className='h-8 sm:w-32'>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value='skip'>Skip</SelectItem>
+                          <SelectItem value='merge' disabled={row.duplicates.length === 0}>
+                            Merge
+                          </SelectItem>
+                          <SelectItem value='create' disabled={row.errors.length > 0}>
+                            Create
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {decision.action === 'merge' && row.duplicates.length > 1 && (
+                        <Select
+                          value={decision.mergeIntoId}
+                          onValueChange={(mergeIntoId) => setDecision(row.row, { mergeIntoId })}
+                        >
+                          <SelectTrigger className='h-8 sm:w-44'>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {row.duplicates.map((duplicate) => (
+                              <SelectItem key={duplicate.contactId} value={duplicate.contactId}>
+                                {duplicate.contactName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <p className='text-sm text-muted-foreground'>
+              {counts.create} to create · {counts.merge} to merge · {counts.skip} to skip
+            </p>
+          </div>
+        )}
+
+        {step === 'options' && (
+          <div className='space-y-4'>
+            <div className='space-y-1'>
+              <Label>Lifecycle stage</Label>
+              <Select value={lifecycleStage} onValueChange={setLifecycleStage}>
+                <SelectTrigger className='sm:w-64'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_STAGE}>Leave unset</SelectItem>
+                  {LIFECYCLE_STAGES.map((stage) => (
+                    <SelectItem key={stage.value} value={stage.value}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className='text-xs text-muted-foreground'>
+                Merged contacts keep the stage they already have.
+              </p>
+            </div>
+            <div className='space-y-2'>
+              <Label>Tags</Label>
+              <div className='flex flex-wrap gap-3'>
+                {tags.map((tag) => (
+                  <div key={tag.id} className='flex items-center gap-2'>
+                    <Checkbox
+                      id={`import-tag-${tag.id}`}
+                      checked={tagIds.includes(tag.id)}
+                      onCheckedChange={(checked) =>
+                        setTagIds((current) =>
+                          checked === true ? [...current, tag.id] : current.filter((id) => id !== tag.id)
+                        )
+                      }
+                    />
+                    <Label htmlFor={`import-tag-${tag.id}`} className='text-sm'>
+                      {tag.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <Input
+                placeholder='New tags, separated by commas'
+                value={newTags}
+                onChange={(event) => setNewTags(event.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'progress' && (
+          <div className='space-y-3'>
+            <Progress value={progress?.total ? (progress.processed / progress.total) * 100 : 0} />
+            {progress && (
+              <p className='text-sm text-muted-foreground'>
+                {progress.processed} of {progress.total} rows · {progress.created} created ·{' '}
+                {progress.merged} merged · {progress.skipped} skipped · {progress.failed} failed
+              </p>
+            )}
+            {job?.status === 'failed' && (
+              <p className='text-sm text-destructive'>{job.errorMessage ?? 'The import failed.'}</p>
+            )}
+            {progress?.errors.map((error) => (
+              <p key={error.row} className='text-xs text-destructive'>
+                Row {error.row}: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button
+              disabled={!file || previewMutation.isPending}
+              onClick={() => file && previewMutation.mutate({ file, mapping: null })}
+            >
+              <Upload className='mr-2 h-4 w-4' />
+              {previewMutation.isPending ? 'Reading file...' : 'Preview'}
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant='outline' onClick={reset}>
+                Back
+              </Button>
+              <Button
+                disabled={counts.create + counts.merge === 0 || previewMutation.isPending}
+                onClick={() => setStep('options')}
+              >
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'options' && (
+            <>
+              <Button variant='outline' onClick={() => setStep('review')}>
+                Back
+              </Button>
+              <Button disabled={importMutation.isPending} onClick={runImport}>
+                Import {counts.create + counts.merge} contacts
+              </Button>
+            </>
+          )}
+          {step === 'progress' && (
+            <Button disabled={!finished} onClick={() => close(false)}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { formatDistanceToNow } from "date-fns";
+import { Calendar, CheckSquare, Mail, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge.js";
+import { Input } from "@/components/ui/input.js";
+
+type TimelineItemType = "interaction" | "email" | "calendar_event" | "task";
+
+interface TimelineItem {
+  id: string;
+  type: TimelineItemType;
+  timestamp: string;
+  title: string;
+  summary: string | null;
+  detail: string | null;
+  keyTopics?: string[];
+  actionItems?: string[];
+}
+
+interface TimelinePage {
+  items: TimelineItem[];
+  nextCursor: string | null;
+}
+
+interface ContactTimelineProps {
+  contactId: string;
+}
+
+const TYPES: Array<{ type: TimelineItemType; label: string; icon: typeof Mail }> = [
+  { type: "interaction", label: "Notes & calls", icon: MessageSquare },
+  { type: "email", label: "Emails", icon: Mail },
+  { type: "calendar_event", label: "Sessions", icon: Calendar },
+  { type: "task", label: "Tasks", icon: CheckSquare },
+];
+
+const PAGE_SIZE = 25;
+
+function TimelineEntry({ item }: { item: TimelineItem }) {
+  const Icon = TYPES.find((entry) => entry.type === item.type)?.icon ?? MessageSquare;
+  return (
+    <div className="border-l-2 border-primary pl-4 pb-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <h5 className="font-medium truncate">{item.title}</h5>
+        </div>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+        </span>
+      </div>
+      {item.detail && <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>}
+      {item.summary && <p className="text-sm text-muted-foreground mt-1">{item.summary}</p>}
+      {(item.keyTopics?.length ?? 0) > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {item.keyTopics?.map((topic) => (
+            <Badge key={topic} variant="outline" className="text-xs">
+              {topic}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {(item.actionItems?.length ?? 0) > 0 && (
+        <ul className="list-disc pl-5 mt-2 text-sm">
+          {item.actionItems?.map((action) => <li key={action}>{action}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Everything that happened with a contact, newest first. Pages are loaded as the list is
+ * scrolled and only the visible entries are rendered.
+ */
+export function ContactTimeline({ contactId }: ContactTimelineProps) {
+  const [types, setTypes] = useState<TimelineItemType[]>(TYPES.map((entry) => entry.type));
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ["/api/contacts", contactId, "timeline", { types, from, to }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), types: types.join(",") });
+      if (pageParam) params.set("cursor", pageParam);
+      if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+      const response = await fetch(`/api/contacts/${contactId}/timeline?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return (await response.json()) as TimelinePage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: types.length > 0,
+  });
+
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const virtualizer = useVirtualizer({
+    count: hasNextPage ? items.length + 1 : items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 96,
+    overscan: 5,
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  // Load the next page once the loading row scrolls into view
+  useEffect(() => {
+    if (lastIndex >= items.length && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  }, [lastIndex, items.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const toggleType = (type: TimelineItemType) => {
+    setTypes((current) =>
+      current.includes(type) ? current.filter((entry) => entry !== type) : [...current, type]
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {TYPES.map(({ type, label }) => (
+          <Badge
+            key={type}
+            variant={types.includes(type) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleType(type)}
+          >
+            {label}
+          </Badge>
+        ))}
+        <div className="flex items-center gap-2 ml-auto">
+          <Input type="date" className="h-8 w-[150px]" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input type="date" className="h-8 w-[150px]" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {!isLoading && items.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Nothing on the timeline yet
+        </div>
+      ) : (
+        <div ref={scrollRef} className="h-[600px] overflow-auto">
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualItems.map((virtualItem) => {
+              const item = items[virtualItem.index];
+              return (
+                <div
+                  key={virtualItem.key}
+                  data-index={virtualItem.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute left-0 top-0 w-full"
+                  style={{ transform: `translateY(${virtualItem.start}px)` }}
+                >
+                  {item ? (
+                    <TimelineEntry item={item} />
+                  ) : (
+                    <div className="py-4 text-center text-sm text-muted-foreground">Loading more...</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useMemo, useEffect } from "react"
+import { useQuery } from "@tanstack/react-query"
 import type { ColumnDef, PaginationState, SortingState, ColumnFiltersState, VisibilityState } from "@tanstack/react-table"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar.js"
 import { Badge } from "@/components/ui/badge.js"
@@ -43,7 +44,8 @@ import {
   RefreshCw,
   Camera,
   Sparkles,
-  Plus
+  Plus,
+  Users
 } from "lucide-react"
 import {
   useReactTable,
@@ -53,11 +55,13 @@ import {
   getSortedRowModel,
   flexRender,
 } from "@tanstack/react-table"
+import type { ContactGroupSummary } from "./ContactGroupsDialog.js"
 
 export type Contact = {
   id: string
   name: string
   email?: string
+  emailAliases?: string[]
   phone?: string
   avatarUrl?: string
   lifecycleStage?: 'discovery' | 'curious' | 'new_client' | 'core_client' | 'ambassador' | 'needs_reconnecting' | 'inactive' | 'collaborator'
@@ -194,9 +198,20 @@ export function ContactsTable({
     pageSize: preferences.pageSize || 25,
   })
   const [lifecycleFilter, setLifecycleFilter] = useState('all')
+  const [groupFilter, setGroupFilter] = useState('all')
 
   const debouncedGlobalFilter = useDebounce(globalFilter, 300)
 
+  const { data: groups = [] } = useQuery<ContactGroupSummary[]>({
+    queryKey: ['/api/contact-groups'],
+  })
+
+  // Rule-based groups are evaluated on the server, so members are fetched for the chosen group
+  const { data: selectedGroup } = useQuery<{ contactIds: string[] }>({
+    queryKey: ['/api/contact-groups', groupFilter],
+    enabled: groupFilter !== 'all',
+  })
+
   // Save preferences when they change
   useEffect(() => {
     const newPreferences = {
@@ -561,10 +576,13 @@ export function ContactsTable({
       
       // Lifecycle filter
       const lifecycleMatch = lifecycleFilter === 'all' || contact.lifecycleStage === lifecycleFilter
+
+      // Group filter
+      const groupMatch = groupFilter === 'all' || (selectedGroup?.contactIds.includes(contact.id) ?? false)
       
-      return searchMatch && lifecycleMatch
+      return searchMatch && lifecycleMatch && groupMatch
     })
-  }, [contacts, debouncedGlobalFilter, lifecycleFilter])
+  }, [contacts, debouncedGlobalFilter, lifecycleFilter, groupFilter, selectedGroup])
 
   const table = useReactTable({
     data: filteredData,
@@ -638,6 +656,24 @@ export function ContactsTable({
             </SelectContent>
           </Select>
 
+          {/* Group Filter */}
+          {groups.length > 0 && (
+            <Select value={groupFilter} onValueChange={setGroupFilter}>
+              <SelectTrigger className="w-[180px]">
+                <Users className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Group" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Groups</SelectItem>
+                {groups.map((group) => (
+                  <SelectItem key={group.id} value={group.id}>
+                    {group.name} ({group.memberCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
         </div>
 
         <div className="flex items-center space-x-2">
@@ -666,6 +702,10 @@ export function ContactsTable({
                 <DropdownMenuItem onClick={() => onBulkAction('remove_tag', selectedContactIds)}>
                   Remove Tag
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onBulkAction('add_to_group', selectedContactIds)}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Add to Group
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={() => onBulkAction('delete', selectedContactIds)}>
                   <Trash2 className="mr-2 h-4 w-4" />
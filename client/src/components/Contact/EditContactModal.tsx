@@ -45,6 +45,7 @@ interface EditContactModalProps {
 interface ContactUpdateData {
   name: string
   email?: string
+  emailAliases?: string[]
   phone?: string
   notes?: string
   lifecycleStage?: Contact['lifecycleStage']
@@ -140,6 +141,7 @@ export function EditContactModal({ contact, open, onOpenChange }: EditContactMod
   const [imagePreview, setImagePreview] = useState<string>('')
   const [uploadingImage, setUploadingImage] = useState(false)
   const [newTagName, setNewTagName] = useState('')
+  const [aliasesText, setAliasesText] = useState('')
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
   const queryClient = useQueryClient()
@@ -155,6 +157,7 @@ export function EditContactModal({ contact, open, onOpenChange }: EditContactMod
         lifecycleStage: contact.lifecycleStage ?? 'discovery',
         tags: contact.tags ?? []
       })
+      setAliasesText((contact.emailAliases ?? []).join(', '))
       setImagePreview(contact.avatarUrl ?? '')
       setImageFile(null)
     }
@@ -238,6 +241,7 @@ export function EditContactModal({ contact, open, onOpenChange }: EditContactMod
     setImageFile(null)
     setImagePreview('')
     setNewTagName('')
+    setAliasesText('')
   }
 
   const handleImageSelect = useCallback(async (file: File) => {
@@ -336,6 +340,7 @@ export function EditContactModal({ contact, open, onOpenChange }: EditContactMod
     
     updateContactMutation.mutate({
       ...formData,
+      emailAliases: aliasesText.split(/[\s,;]+/).filter(Boolean),
                   imageFile: imageFile ?? undefined
     })
   }
@@ -435,6 +440,19 @@ export function EditContactModal({ contact, open, onOpenChange }: EditContactMod
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="emailAliases">Other email addresses</Label>
+            <Input
+              id="emailAliases"
+              value={aliasesText}
+              onChange={(e) => setAliasesText(e.target.value)}
+              placeholder="work@example.com, personal@example.com"
+            />
+            <p className="text-xs text-muted-foreground">
+              Emails from these addresses are linked to this contact too
+            </p>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="phone">Phone</Label>
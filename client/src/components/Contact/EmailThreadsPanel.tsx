@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Mail, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button.js";
+import { Badge } from "@/components/ui/badge.js";
+import { Input } from "@/components/ui/input.js";
+import { Label } from "@/components/ui/label.js";
+import { Textarea } from "@/components/ui/textarea.js";
+import { getCsrfToken } from "@/lib/queryClient.js";
+import { useToast } from "@/hooks/use-toast.js";
+
+interface EmailThreadSummary {
+  threadId: string;
+  subject: string | null;
+  snippet: string | null;
+  messageCount: number;
+  lastMessageAt: string;
+  participants: string[];
+  unread: boolean;
+}
+
+interface EmailThreadMessage {
+  id: string;
+  subject: string | null;
+  fromEmail: string;
+  fromName: string | null;
+  toEmails: string[] | null;
+  bodyText: string | null;
+  snippet: string | null;
+  timestamp: string;
+}
+
+interface EmailThreadDetail {
+  threadId: string;
+  subject: string | null;
+  messages: EmailThreadMessage[];
+  insights: {
+    threadSummary?: string;
+    requests?: string[];
+    commitments?: string[];
+    actionItems?: string[];
+  } | null;
+}
+
+interface EmailReplyDraft {
+  draftId: string;
+  threadId: string;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+interface EmailThreadsPanelProps {
+  contactId: string;
+}
+
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: "include",
+    headers: { "Content-Type": "application/json", "X-CSRF-Token": csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+function ThreadView({ contactId, threadId, onBack }: EmailThreadsPanelProps & { threadId: string; onBack: () => void }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<EmailReplyDraft | null>(null);
+  const threadUrl = `/api/contacts/${contactId}/email-threads/${threadId}`;
+
+  const { data: thread, isLoading } = useQuery<EmailThreadDetail>({
+    queryKey: [threadUrl],
+  });
+
+  const draftMutation = useMutation({
+    mutationFn: () => sendJson<EmailReplyDraft>("POST", `${threadUrl}/draft-reply`),
+    onSuccess: (saved) => {
+      setDraft(saved);
+      toast({ title: "Draft saved", description: "The reply was saved to your Gmail drafts." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to draft a reply.", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (edited: EmailReplyDraft) =>
+      sendJson<EmailReplyDraft>("PUT", `${threadUrl}/drafts/${edited.draftId}`, {
+        to: edited.to,
+        subject: edited.subject,
+        body: edited.body,
+      }),
+    onSuccess: (saved) => {
+      setDraft(saved);
+      toast({ title: "Draft updated", description: "Your changes were saved to Gmail." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save the draft.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !thread) {
+    return <div className="text-center py-8 text-muted-foreground">Loading thread...</div>;
+  }
+
+  const insightLines = [
+    ...(thread.insights?.requests ?? []).map((text) => ({ label: "Request", text })),
+    ...(thread.insights?.commitments ?? []).map((text) => ({ label: "Commitment", text })),
+    ...(thread.insights?.actionItems ?? []).map((text) => ({ label: "Action", text })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All threads
+        </Button>
+        <Button size="sm" disabled={draftMutation.isPending} onClick={() => draftMutation.mutate()}>
+          <Sparkles className="mr-2 h-4 w-4" />
+          {draftMutation.isPending ? "Drafting..." : "Draft reply"}
+        </Button>
+      </div>
+
+      <h4 className="font-medium">{thread.subject ?? "(no subject)"}</h4>
+
+      {thread.insights?.threadSummary && (
+        <p className="text-sm text-muted-foreground">{thread.insights.threadSummary}</p>
+      )}
+      {insightLines.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {insightLines.map((line, index) => (
+            <Badge key={index} variant="secondary" className="font-normal">
+              {line.label}: {line.text}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {thread.messages.map((message) => (
+          <div key={message.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{message.fromName ?? message.fromEmail}</span>
+              <span className="text-muted-foreground">{format(new Date(message.timestamp), "MMM d, yyyy h:mm a")}</span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{message.bodyText ?? message.snippet ?? ""}</p>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="draft-to">To</Label>
+            <Input id="draft-to" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-subject">Subject</Label>
+            <Input
+              id="draft-subject"
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-body">Message</Label>
+            <Textarea
+              id="draft-body"
+              rows={10}
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              disabled={saveMutation.isPending || draft.body.trim() === ""}
+              onClick={() => saveMutation.mutate(draft)}
+            >
+              Save draft
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Email conversations with a contact, grouped by Gmail thread. Replies are drafted with AI and
+ * saved to the user's Gmail drafts; nothing is sent from here.
+ */
+export function EmailThreadsPanel({ contactId }: EmailThreadsPanelProps) {
+  const queryClient = useQueryClient();
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const threadsKey = `/api/contacts/${contactId}/email-threads`;
+
+  const { data: threads = [], isLoading } = useQuery<EmailThreadSummary[]>({
+    queryKey: [threadsKey],
+  });
+
+  if (selectedThreadId) {
+    return (
+      <ThreadView
+        contactId={contactId}
+        threadId={selectedThreadId}
+        onBack={() => {
+          setSelectedThreadId(null);
+          void queryClient.invalidateQueries({ queryKey: [threadsKey] });
+        }}
+      />
+    );
+  }
+
+  if (!isLoading && threads.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No email conversations yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {threads.map((thread) => (
+        <button
+          key={thread.threadId}
+          type="button"
+          className="w-full rounded-lg border p-3 text-left hover:bg-muted/50"
+          onClick={() => setSelectedThreadId(thread.threadId)}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Mail className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className={`truncate ${thread.unread ? "font-semibold" : "font-medium"}`}>
+                {thread.subject ?? "(no subject)"}
+              </span>
+              {thread.messageCount > 1 && <Badge variant="outline">{thread.messageCount}</Badge>}
+            </div>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(thread.lastMessageAt), { addSuffix: true })}
+            </span>
+          </div>
+          {thread.snippet && <p className="mt-1 truncate text-sm text-muted-foreground">{thread.snippet}</p>}
+          <p className="mt-1 text-xs text-muted-foreground">{thread.participants.join(", ")}</p>
+        </button>
+      ))}
+    </div>
+  );
+}
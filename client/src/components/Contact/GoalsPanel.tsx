@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button.js";
+import { Badge } from "@/components/ui/badge.js";
+import { Input } from "@/components/ui/input.js";
+import { Label } from "@/components/ui/label.js";
+import { Progress } from "@/components/ui/progress.js";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart.js";
+import { getCsrfToken } from "@/lib/queryClient.js";
+import { useToast } from "@/hooks/use-toast.js";
+import type { Goal, GoalProgressEntry } from "@shared/schema.js";
+
+type GoalWithProgress = Goal & { progress: GoalProgressEntry[] };
+
+interface GoalsPanelProps {
+  contactId: string;
+}
+
+async function sendJson(method: string, url: string, body?: unknown): Promise<void> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: "include",
+    headers: { "Content-Type": "application/json", "X-CSRF-Token": csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+}
+
+function GoalProgressChart({ goal }: { goal: GoalWithProgress }) {
+  const chartConfig: ChartConfig = {
+    value: { label: goal.unit, color: "hsl(var(--primary))" },
+  };
+  const data = goal.progress.map((entry) => ({
+    date: format(new Date(entry.recordedAt), "MMM d"),
+    value: entry.value,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ReferenceLine y={goal.targetValue} strokeDasharray="4 4" stroke="hsl(var(--muted-foreground))" />
+        <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+/**
+ * Goals of a contact with their progress over time. Goals complete automatically once the
+ * current value reaches the target.
+ */
+export function GoalsPanel({ contactId }: GoalsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const goalsKey = `/api/interactions/goals?contactId=${contactId}`;
+  const [showForm, setShowForm] = useState(false);
+  const [newGoal, setNewGoal] = useState({ title: "", targetValue: "", unit: "" });
+  const [progressValues, setProgressValues] = useState<Record<string, string>>({});
+
+  const { data: goals = [], isLoading } = useQuery<GoalWithProgress[]>({
+    queryKey: [goalsKey],
+  });
+
+  const refreshGoals = () => {
+    void queryClient.invalidateQueries({ queryKey: [goalsKey] });
+    void queryClient.invalidateQueries({ queryKey: ["/api/contacts", contactId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendJson("POST", "/api/interactions/goals", {
+        contactId,
+        title: newGoal.title.trim(),
+        targetValue: Number(newGoal.targetValue),
+        unit: newGoal.unit.trim(),
+      }),
+    onSuccess: () => {
+      setNewGoal({ title: "", targetValue: "", unit: "" });
+      setShowForm(false);
+      refreshGoals();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create the goal.", variant: "destructive" });
+    },
+  });
+
+  const progressMutation = useMutation({
+    mutationFn: ({ goalId, value }: { goalId: string; value: number }) =>
+      sendJson("POST", `/api/interactions/goals/${goalId}/progress`, { value }),
+    onSuccess: (_data, { goalId }) => {
+      setProgressValues((current) => ({ ...current, [goalId]: "" }));
+      refreshGoals();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record progress.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (goalId: string) => sendJson("DELETE", `/api/interactions/goals/${goalId}`),
+    onSuccess: refreshGoals,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete the goal.", variant: "destructive" });
+    },
+  });
+
+  const canCreate =
+    newGoal.title.trim() !== "" && Number(newGoal.targetValue) > 0 && newGoal.unit.trim() !== "";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setShowForm((shown) => !shown)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Goal
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="grid grid-cols-1 gap-3 rounded-lg border p-4 md:grid-cols-4">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="goal-title">Goal</Label>
+            <Input
+              id="goal-title"
+              value={newGoal.title}
+              onChange={(e) => setNewGoal({ ...newGoal, title: e.target.value })}
+              placeholder="e.g. Attend weekly yoga"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goal-target">Target</Label>
+            <Input
+              id="goal-target"
+              type="number"
+              min={1}
+              value={newGoal.targetValue}
+              onChange={(e) => setNewGoal({ ...newGoal, targetValue: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goal-unit">Unit</Label>
+            <Input
+              id="goal-unit"
+              value={newGoal.unit}
+              onChange={(e) => setNewGoal({ ...newGoal, unit: e.target.value })}
+              placeholder="sessions"
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end">
+            <Button size="sm" disabled={!canCreate || createMutation.isPending} onClick={() => createMutation.mutate()}>
+              Create Goal
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!isLoading && goals.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No goals set
+        </div>
+      )}
+
+      {goals.map((goal) => {
+        const percent = goal.targetValue ? Math.min(100, (goal.currentValue / goal.targetValue) * 100) : 0;
+        const progressValue = progressValues[goal.id] ?? "";
+        return (
+          <div key={goal.id} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h5 className="font-medium">{goal.title}</h5>
+              <div className="flex items-center gap-2">
+                <Badge variant={goal.status === "completed" ? "default" : "secondary"}>
+                  {goal.status ?? 'Unknown'}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Delete goal"
+                  onClick={() => deleteMutation.mutate(goal.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {goal.description && (
+              <p className="text-sm text-muted-foreground">{goal.description}</p>
+            )}
+            <div className="flex items-center justify-between text-sm">
+              <span>Progress: {goal.currentValue}/{goal.targetValue} {goal.unit}</span>
+              <span>{Math.round(percent)}%</span>
+            </div>
+            <Progress value={percent} className="h-2" />
+
+            {goal.progress.length > 1 && <GoalProgressChart goal={goal} />}
+
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                className="h-8 w-32"
+                placeholder={`New value (${goal.unit})`}
+                value={progressValue}
+                onChange={(e) => setProgressValues((current) => ({ ...current, [goal.id]: e.target.value }))}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={progressValue === "" || progressMutation.isPending}
+                onClick={() => progressMutation.mutate({ goalId: goal.id, value: Number(progressValue) })}
+              >
+                Log progress
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CornerDownRight, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button.js";
+import { Badge } from "@/components/ui/badge.js";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.js";
+import { getCsrfToken } from "@/lib/queryClient.js";
+import { useToast } from "@/hooks/use-toast.js";
+
+type RewardStatus = "none" | "pending" | "given";
+
+interface ReferralSummary {
+  id: string;
+  referredAt: string;
+  source: string | null;
+  rewardStatus: RewardStatus;
+}
+
+interface ReferralContact {
+  id: string;
+  name: string;
+  lifecycleStage: string | null;
+}
+
+interface ReferralTreeNode {
+  referral: ReferralSummary;
+  contact: ReferralContact;
+  referrals: ReferralTreeNode[];
+}
+
+interface ReferralTree {
+  referredBy: (ReferralSummary & { contact: ReferralContact }) | null;
+  referrals: ReferralTreeNode[];
+}
+
+interface ReferralsPanelProps {
+  contactId: string;
+}
+
+const REWARD_LABELS: Record<RewardStatus, string> = {
+  none: "No reward",
+  pending: "Reward pending",
+  given: "Reward given",
+};
+
+async function sendJson(method: string, url: string, body?: unknown): Promise<void> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: "include",
+    headers: { "Content-Type": "application/json", "X-CSRF-Token": csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(error ?? `Request failed with status ${response.status}`);
+  }
+}
+
+const describeReferral = (referral: ReferralSummary) =>
+  [format(new Date(referral.referredAt), "MMM d, yyyy"), referral.source?.replace(/_/g, " ")]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Who referred a contact and the people they referred, including the people those referred in
+ * turn, with the reward status of each referral.
+ */
+export function ReferralsPanel({ contactId }: ReferralsPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [referredId, setReferredId] = useState<string>("");
+
+  const treeKey = ["/api/contacts", contactId, "referrals"];
+  const { data: tree, isLoading } = useQuery<ReferralTree>({ queryKey: treeKey });
+  const { data: contacts = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["/api/contacts"],
+  });
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+    void queryClient.invalidateQueries({ queryKey: ["/api/dashboard/referrals"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const addReferral = useMutation({
+    mutationFn: (id: string) => sendJson("POST", "/api/referrals", { referrerId: contactId, referredId: id }),
+    onSuccess: () => {
+      setReferredId("");
+      refresh();
+    },
+    onError,
+  });
+
+  const updateReward = useMutation({
+    mutationFn: ({ id, rewardStatus }: { id: string; rewardStatus: RewardStatus }) =>
+      sendJson("PATCH", `/api/referrals/${id}`, { rewardStatus }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeReferral = useMutation({
+    mutationFn: (id: string) => sendJson("DELETE", `/api/referrals/${id}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading referrals...</p>;
+  }
+
+  const renderNode = (node: ReferralTreeNode, depth: number) => (
+    <div key={node.referral.id} style={{ marginLeft: depth * 20 }} className="space-y-2">
+      <div className="flex items-center justify-between gap-2 rounded-md border p-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <CornerDownRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="font-medium truncate">{node.contact.name}</span>
+          {node.referrals.length > 0 && <Badge variant="secondary">{node.referrals.length} referred</Badge>}
+          <span className="text-xs text-muted-foreground">{describeReferral(node.referral)}</span>
+        </div>
+        {depth === 0 && (
+          <div className="flex items-center gap-1">
+            <Select
+              value={node.referral.rewardStatus}
+              onValueChange={(value) => updateReward.mutate({ id: node.referral.id, rewardStatus: value as RewardStatus })}
+            >
+              <SelectTrigger className="h-8 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REWARD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title="Remove referral"
+              onClick={() => removeReferral.mutate(node.referral.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {node.referrals.map((child) => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  // Contacts that can still be recorded as referred by this one
+  const referable = contacts.filter((contact) => contact.id !== contactId && contact.id !== tree?.referredBy?.contact.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm">
+        {tree?.referredBy ? (
+          <p>
+            Referred by <span className="font-medium">{tree.referredBy.contact.name}</span>{" "}
+            <span className="text-muted-foreground">({describeReferral(tree.referredBy)})</span>
+          </p>
+        ) : (
+          <p className="text-muted-foreground">Not referred by another contact.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Referrals made</h4>
+        {tree?.referrals.length ? (
+          tree.referrals.map((node) => renderNode(node, 0))
+        ) : (
+          <p className="text-sm text-muted-foreground">No referrals yet.</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={referredId} onValueChange={setReferredId}>
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue placeholder="Contact they referred" />
+          </SelectTrigger>
+          <SelectContent>
+            {referable.map((contact) => (
+              <SelectItem key={contact.id} value={contact.id}>
+                {contact.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!referredId || addReferral.isPending}
+          onClick={() => addReferral.mutate(referredId)}
+        >
+          <UserPlus className="mr-1 h-4 w-4" />
+          Add referral
+        </Button>
+      </div>
+    </div>
+  );
+}
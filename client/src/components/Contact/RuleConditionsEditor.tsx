@@ -0,0 +1,151 @@
+import type { ReactNode } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button.js';
+import { Input } from '@/components/ui/input.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { NEW_CONDITION, type FieldConfig, type RuleCondition, type RuleField } from '@/lib/contactRules.js';
+
+interface RuleConditionsEditorProps {
+  fields: Partial<Record<RuleField, FieldConfig>>;
+  match: 'all' | 'any';
+  onMatchChange: (match: 'all' | 'any') => void;
+  conditions: RuleCondition[];
+  onConditionsChange: (conditions: RuleCondition[]) => void;
+  // Extra controls shown next to "Add rule", e.g. a preview button
+  children?: ReactNode;
+}
+
+/**
+ * Edits a list of contact conditions combined with "all" or "any", as used by rule-based
+ * groups and lifecycle rules.
+ */
+export function RuleConditionsEditor({
+  fields,
+  match,
+  onMatchChange,
+  conditions,
+  onConditionsChange,
+  children,
+}: RuleConditionsEditorProps) {
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    onConditionsChange(
+      conditions.map((condition, i) => {
+        if (i !== index) return condition;
+        const config = changes.field && changes.field !== condition.field ? fields[changes.field] : undefined;
+        if (changes.field && config) {
+          // Start a new field with its first operator and option
+          return {
+            field: changes.field,
+            operator: config.operators[0].value,
+            value: config.options?.[0].value ?? (config.numeric ? '30' : ''),
+          };
+        }
+        return { ...condition, ...changes };
+      })
+    );
+  };
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center gap-2 text-sm'>
+        <span>Contacts matching</span>
+        <Select value={match} onValueChange={(value) => onMatchChange(value as 'all' | 'any')}>
+          <SelectTrigger className='h-8 w-[80px]'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value='all'>all</SelectItem>
+            <SelectItem value='any'>any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these rules</span>
+      </div>
+
+      {conditions.map((condition, index) => {
+        const config = fields[condition.field];
+        if (!config) return null;
+        return (
+          <div key={index} className='flex items-center gap-2'>
+            <Select
+              value={condition.field}
+              onValueChange={(value) => updateCondition(index, { field: value as RuleField })}
+            >
+              <SelectTrigger className='h-8 w-[150px]'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(fields).map(([field, fieldConfig]) => (
+                  <SelectItem key={field} value={field}>
+                    {fieldConfig.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              onValueChange={(value) => updateCondition(index, { operator: value })}
+            >
+              <SelectTrigger className='h-8 w-[200px]'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {config.operators.map((operator) => (
+                  <SelectItem key={operator.value} value={operator.value}>
+                    {operator.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {config.options ? (
+              <Select
+                value={condition.value}
+                onValueChange={(value) => updateCondition(index, { value })}
+              >
+                <SelectTrigger className='h-8 flex-1'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {config.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className='h-8 flex-1'
+                type={config.numeric ? 'number' : 'text'}
+                min={0}
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+              />
+            )}
+            <Button
+              variant='ghost'
+              size='sm'
+              className='h-8 w-8 p-0'
+              disabled={conditions.length === 1}
+              onClick={() => onConditionsChange(conditions.filter((_, i) => i !== index))}
+            >
+              <X className='h-4 w-4' />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className='flex items-center gap-2'>
+        <Button
+          variant='outline'
+          size='sm'
+          disabled={conditions.length >= 20}
+          onClick={() => onConditionsChange([...conditions, NEW_CONDITION])}
+        >
+          <Plus className='mr-1 h-4 w-4' />
+          Add rule
+        </Button>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Check, X } from 'lucide-react';
+import { Plus, Check, X, Pencil, Trash2, Merge } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -13,12 +13,16 @@ import { Button } from '@/components/ui/button.js';
 import { Input } from '@/components/ui/input.js';
 import { Label } from '@/components/ui/label.js';
 import { Badge } from '@/components/ui/badge.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { getCsrfToken } from '@/lib/queryClient.js';
 import { useToast } from '@/hooks/use-toast.js';
 
 interface Tag {
   id: string;
   name: string;
   color: string;
+  contactCount?: number;
+  taskCount?: number;
 }
 
 interface TagErrorResponse {
@@ -29,7 +33,9 @@ interface TagErrorResponse {
 interface TagSelectionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onTagSelected: (tag: { name: string; color: string }) => void;
+  // 'manage' renames, recolors, merges and deletes tags instead of picking one
+  mode?: 'select' | 'manage';
+  onTagSelected?: (tag: Tag) => void;
   title: string;
   description: string;
 }
@@ -47,9 +53,217 @@ const DEFAULT_COLORS = [
   '#6b7280', // gray
 ];
 
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T | undefined> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({ error: response.statusText }))) as TagErrorResponse;
+    throw new Error(errorData.message ?? errorData.error);
+  }
+  return response.status === 204 ? undefined : ((await response.json()) as T);
+}
+
+const usageLabel = (tag: Tag) => {
+  const contacts = tag.contactCount ?? 0;
+  const tasks = tag.taskCount ?? 0;
+  return `${contacts} contact${contacts === 1 ? '' : 's'} · ${tasks} task${tasks === 1 ? '' : 's'}`;
+};
+
+function ColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {DEFAULT_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={`w-8 h-8 rounded-full border-2 transition-all ${
+            value === color
+              ? 'border-foreground scale-110'
+              : 'border-muted hover:scale-105'
+          }`}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Rename, recolor, merge and delete the user's tags. Changes apply to every contact and task
+ * carrying the tag.
+ */
+function TagManagementList({ tags }: { tags: Tag[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<{ id: string; name: string; color: string } | null>(null);
+  const [merging, setMerging] = useState<{ sourceTagId: string; targetTagId: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    await queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+    await queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, name, color }: { id: string; name: string; color: string }) =>
+      sendJson<Tag>('PATCH', `/api/tags/${id}`, { name: name.trim(), color }),
+    onSuccess: async () => {
+      setEditing(null);
+      await refresh();
+      toast({ title: 'Tag updated' });
+    },
+    onError: onError('Error updating tag'),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (body: { sourceTagId: string; targetTagId: string }) =>
+      sendJson<Tag>('POST', '/api/tags/merge', body),
+    onSuccess: async (target) => {
+      setMerging(null);
+      await refresh();
+      toast({ title: 'Tags merged', description: target ? `Everything is now tagged "${target.name}".` : undefined });
+    },
+    onError: onError('Error merging tags'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendJson<void>('DELETE', `/api/tags/${id}`),
+    onSuccess: async () => {
+      setConfirmDeleteId(null);
+      await refresh();
+      toast({ title: 'Tag deleted' });
+    },
+    onError: onError('Error deleting tag'),
+  });
+
+  if (tags.length === 0) {
+    return <p className="text-sm text-muted-foreground">No tags yet.</p>;
+  }
+
+  return (
+    <div className="max-h-80 overflow-y-auto space-y-2">
+      {tags.map((tag) => (
+        <div key={tag.id} className="p-2 rounded-md border space-y-2">
+          {editing?.id === tag.id ? (
+            <div className="space-y-2">
+              <Input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                autoFocus
+              />
+              <ColorPicker value={editing.color} onChange={(color) => setEditing({ ...editing, color })} />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => updateMutation.mutate(editing)}
+                  disabled={updateMutation.isPending || !editing.name.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <Badge
+                  variant="secondary"
+                  style={{ backgroundColor: tag.color + '20', color: tag.color, borderColor: tag.color }}
+                >
+                  {tag.name}
+                </Badge>
+                <p className="text-xs text-muted-foreground mt-1">{usageLabel(tag)}</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Rename or recolor"
+                  onClick={() => setEditing({ id: tag.id, name: tag.name, color: tag.color })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Merge into another tag"
+                  disabled={tags.length < 2}
+                  onClick={() => setMerging({ sourceTagId: tag.id, targetTagId: '' })}
+                >
+                  <Merge className="h-4 w-4" />
+                </Button>
+                {confirmDeleteId === tag.id ? (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(tag.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete?
+                  </Button>
+                ) : (
+                  <Button size="icon" variant="ghost" title="Delete" onClick={() => setConfirmDeleteId(tag.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {merging?.sourceTagId === tag.id && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={merging.targetTagId}
+                onValueChange={(targetTagId) => setMerging({ ...merging, targetTagId })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Merge into..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {tags
+                    .filter((other) => other.id !== tag.id)
+                    .map((other) => (
+                      <SelectItem key={other.id} value={other.id}>
+                        {other.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => setMerging(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => mergeMutation.mutate(merging)}
+                disabled={mergeMutation.isPending || !merging.targetTagId}
+              >
+                Merge
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function TagSelectionDialog({
   open,
   onOpenChange,
+  mode = 'select',
   onTagSelected,
   title,
   description,
@@ -96,7 +310,7 @@ export function TagSelectionDialog({
     },
     onSuccess: async (newTag: Tag) => {
       await queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
-      onTagSelected(newTag);
+      onTagSelected?.(newTag);
       setIsCreatingNew(false);
       setNewTagName('');
       setSelectedColor(DEFAULT_COLORS[0]);
@@ -116,7 +330,7 @@ export function TagSelectionDialog({
   });
 
   const handleExistingTagSelect = (tag: Tag) => {
-    onTagSelected(tag);
+    onTagSelected?.(tag);
     onOpenChange(false);
   };
 
@@ -172,7 +386,9 @@ export function TagSelectionDialog({
         </DialogHeader>
 
         <div className="space-y-4">
-          {!isCreatingNew ? (
+          {mode === 'manage' ? (
+            <TagManagementList tags={tags} />
+          ) : !isCreatingNew ? (
             <>
               {/* Existing Tags */}
               <div className="space-y-3">
@@ -230,20 +446,7 @@ export function TagSelectionDialog({
 
               <div className="space-y-3">
                 <Label>Tag Color</Label>
-                <div className="flex flex-wrap gap-2">
-                  {DEFAULT_COLORS.map((color) => (
-                    <button
-                      key={color}
-                      onClick={() => setSelectedColor(color)}
-                      className={`w-8 h-8 rounded-full border-2 transition-all ${
-                        selectedColor === color
-                          ? 'border-foreground scale-110'
-                          : 'border-muted hover:scale-105'
-                      }`}
-                      style={{ backgroundColor: color }}
-                    />
-                  ))}
-                </div>
+                <ColorPicker value={selectedColor} onChange={setSelectedColor} />
                 
                 {/* Preview */}
                 {newTagName && (
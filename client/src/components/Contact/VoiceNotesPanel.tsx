@@ -0,0 +1,171 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Mic, Square, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button.js";
+import { Badge } from "@/components/ui/badge.js";
+import { getCsrfToken } from "@/lib/queryClient.js";
+import { useToast } from "@/hooks/use-toast.js";
+import { useAudioRecorder, type AudioRecording } from "@/hooks/useAudioRecorder.js";
+import type { VoiceNote } from "@shared/schema.js";
+
+interface VoiceNotesPanelProps {
+  contactId: string;
+}
+
+const IN_PROGRESS = ["pending", "transcribing", "analyzing"];
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Queued",
+  transcribing: "Transcribing...",
+  analyzing: "Adding to timeline...",
+  processed: "On timeline",
+  failed: "Failed",
+};
+
+async function sendRequest(url: string, init: RequestInit): Promise<Response> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    ...init,
+    credentials: "include",
+    headers: { ...init.headers, "X-CSRF-Token": csrfToken },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response;
+}
+
+/**
+ * Record a voice note about a contact. The server transcribes it, adds a summary to the
+ * timeline and suggests any follow-up tasks for approval.
+ */
+export function VoiceNotesPanel({ contactId }: VoiceNotesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isRecording, error, startRecording, stopRecording } = useAudioRecorder();
+  const notesKey = `/api/voice-notes?contactId=${contactId}`;
+
+  const { data: notes = [] } = useQuery<VoiceNote[]>({
+    queryKey: [notesKey],
+    refetchInterval: (query) =>
+      query.state.data?.some((note) => IN_PROGRESS.includes(note.status ?? "")) ? 2000 : false,
+  });
+
+  // Refresh the timeline and suggestions once a note finishes processing
+  const inProgressCount = notes.filter((note) => IN_PROGRESS.includes(note.status ?? "")).length;
+  const previousInProgress = useRef(inProgressCount);
+  useEffect(() => {
+    if (inProgressCount < previousInProgress.current) {
+      void queryClient.invalidateQueries({ queryKey: ["/api/contacts", contactId] });
+      void queryClient.invalidateQueries({ queryKey: ["/api/ai-suggestions"] });
+    }
+    previousInProgress.current = inProgressCount;
+  }, [inProgressCount, contactId, queryClient]);
+
+  const refreshNotes = () => queryClient.invalidateQueries({ queryKey: [notesKey] });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (recording: AudioRecording) => {
+      const form = new FormData();
+      const extension = recording.blob.type.includes("mp4") ? "m4a" : "webm";
+      form.append("audio", recording.blob, `voice-note.${extension}`);
+      form.append("contactId", contactId);
+      form.append("durationSeconds", String(recording.durationSeconds));
+      await sendRequest("/api/voice-notes", { method: "POST", body: form });
+    },
+    onSuccess: () => void refreshNotes(),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to upload the voice note.", variant: "destructive" });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (noteId: string) => sendRequest(`/api/voice-notes/${noteId}/retry`, { method: "POST" }),
+    onSuccess: () => void refreshNotes(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (noteId: string) => sendRequest(`/api/voice-notes/${noteId}`, { method: "DELETE" }),
+    onSuccess: () => void refreshNotes(),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete the voice note.", variant: "destructive" });
+    },
+  });
+
+  const toggleRecording = async () => {
+    if (!isRecording) {
+      await startRecording();
+      return;
+    }
+    const recording = await stopRecording();
+    if (recording) uploadMutation.mutate(recording);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h5 className="font-medium">Voice notes</h5>
+          <p className="text-xs text-muted-foreground">
+            Dictate what happened; a summary is added to the timeline and follow-ups are suggested.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant={isRecording ? "destructive" : "outline"}
+          disabled={uploadMutation.isPending}
+          onClick={() => void toggleRecording()}
+        >
+          {isRecording ? <Square className="mr-2 h-4 w-4" /> : <Mic className="mr-2 h-4 w-4" />}
+          {isRecording ? "Stop" : uploadMutation.isPending ? "Uploading..." : "Record"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {notes.map((note) => (
+        <div key={note.id} className="space-y-2 border-t pt-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Badge variant={note.status === "failed" ? "destructive" : "outline"} className="text-xs">
+                {STATUS_LABELS[note.status ?? "pending"] ?? note.status}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(note.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            <div className="flex items-center gap-1">
+              {note.status === "failed" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Try again"
+                  onClick={() => retryMutation.mutate(note.id)}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title="Delete voice note"
+                onClick={() => deleteMutation.mutate(note.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <audio controls preload="none" src={note.noteUrl} className="h-8 w-full" />
+          {note.transcription && (
+            <p className="text-sm text-muted-foreground">{note.transcription}</p>
+          )}
+          {note.status === "failed" && note.errorMessage && (
+            <p className="text-xs text-destructive">{note.errorMessage}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
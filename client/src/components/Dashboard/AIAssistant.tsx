@@ -6,7 +6,8 @@ import { Input } from "@/components/ui/input.js";
 import { useVoiceInput } from "@/hooks/useVoiceInput.js";
 import { useAuth } from "@/contexts/AuthContext.js";
 import { apiRequest } from "@/lib/queryClient.js";
-import { Mic, MicOff, Send, Bot, Calendar, BarChart3, RefreshCw, Clock, MapPin, Users } from "lucide-react";
+import { streamChat, type ChatStreamResult } from "@/lib/chatStream.js";
+import { Mic, MicOff, Send, Square, Bot, Calendar, BarChart3, RefreshCw, Clock, MapPin, Users } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 interface Message {
@@ -16,11 +17,6 @@ interface Message {
   timestamp: Date;
 }
 
-interface AIChatResponse {
-  response: string;
-  context?: unknown;
-}
-
 interface CalendarAttendee {
   email: string;
   displayName?: string;
@@ -38,6 +34,16 @@ interface CalendarEvent {
   calendarColor?: string;
 }
 
+// Add the streamed assistant message on its first token, then keep updating it in place
+const upsertAssistantMessage = (
+  messages: Message[],
+  id: string,
+  update: (content: string) => string
+): Message[] =>
+  messages.some((message) => message.id === id)
+    ? messages.map((message) => (message.id === id ? { ...message, content: update(message.content) } : message))
+    : [...messages, { id, content: update(""), isUser: false, timestamp: new Date() }];
+
 export default function AIAssistant() {
   const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([
@@ -49,6 +55,7 @@ export default function AIAssistant() {
     },
   ]);
   const [inputMessage, setInputMessage] = useState("");
+  const [sessionId, setSessionId] = useState<string | undefined>();
   
   // Fetch upcoming calendar events
   const { data: upcomingEvents, isLoading: eventsLoading, refetch: refetchEvents } = useQuery<CalendarEvent[]>({
@@ -57,30 +64,41 @@ export default function AIAssistant() {
   
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const { isListening, startListening, stopListening, transcript } = useVoiceInput();
 
   const chatMutation = useMutation({
-    mutationFn: async (message: string) => {
-      const response = await apiRequest("POST", "/api/ai/chat", { 
-        message,
-        context: { userId: user?.id }
-      });
-      return response.json() as Promise<AIChatResponse>;
+    mutationFn: async (message: string): Promise<ChatStreamResult> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const assistantId = Date.now().toString() + "_assistant";
+
+      try {
+        const data = await streamChat({
+          message,
+          sessionId,
+          context: { userId: user?.id },
+          signal: controller.signal,
+          onToken: (text) =>
+            setMessages(prev => upsertAssistantMessage(prev, assistantId, (content) => content + text)),
+        });
+        setMessages(prev => upsertAssistantMessage(prev, assistantId, () => data.response));
+        return data;
+      } finally {
+        abortControllerRef.current = null;
+      }
     },
-    onSuccess: (data: AIChatResponse) => {
-      const aiMessage: Message = {
-        id: Date.now().toString(),
-        content: data.response,
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, aiMessage]);
+    onSuccess: (data: ChatStreamResult) => {
+      setSessionId(data.sessionId);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      if (error.name === "AbortError") return;
       const errorMessage: Message = {
         id: Date.now().toString(),
-        content: "I'm sorry, I encountered an error. Please try again or check your OpenAI API configuration.",
+        content: error.message.includes("BUDGET_EXCEEDED")
+          ? "Your AI spending limit has been reached. You can raise it in Settings."
+          : "I'm sorry, I encountered an error. Please try again or check your OpenAI API configuration.",
         isUser: false,
         timestamp: new Date(),
       };
@@ -209,7 +227,7 @@ export default function AIAssistant() {
               </div>
             ))}
             
-            {chatMutation.isPending && (
+            {chatMutation.isPending && messages[messages.length - 1]?.isUser && (
               <div className="flex items-start space-x-3">
                 <div className="w-8 h-8 bg-teal-100 dark:bg-teal-800 rounded-full flex items-center justify-center shrink-0">
                   <Bot className="h-4 w-4 text-teal-600 dark:text-teal-300" />
@@ -244,13 +262,24 @@ export default function AIAssistant() {
             >
               {isListening ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
             </Button>
-            <Button
-              onClick={sendMessage}
-              disabled={!inputMessage.trim() || chatMutation.isPending}
-              size="icon"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {chatMutation.isPending ? (
+              <Button
+                onClick={() => abortControllerRef.current?.abort()}
+                variant="outline"
+                size="icon"
+                aria-label="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={sendMessage}
+                disabled={!inputMessage.trim()}
+                size="icon"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar.js';
+import { Award } from 'lucide-react';
+
+interface Ambassador {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  referralCount: number;
+  attributedRevenue: number;
+}
+
+interface AmbassadorStats {
+  totalReferrals: number;
+  attributedRevenue: number;
+  topAmbassadors: Ambassador[];
+}
+
+const formatRevenue = (amount: number) =>
+  new Intl.NumberFormat(undefined, { maximumFractionDigits: 0 }).format(amount);
+
+export default function TopAmbassadors() {
+  const { data: stats, isLoading } = useQuery<AmbassadorStats>({
+    queryKey: ['/api/dashboard/referrals'],
+    refetchInterval: 300000, // Refetch every 5 minutes
+  });
+
+  if (isLoading) {
+    return (
+      <Card className='animate-pulse'>
+        <CardContent className='p-6'>
+          <div className='h-32 bg-muted rounded' />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className='shadow-sm'>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <Award className='h-5 w-5' />
+          Top Ambassadors
+        </CardTitle>
+        <p className='text-sm text-muted-foreground'>
+          {stats?.totalReferrals ?? 0} referrals · {formatRevenue(stats?.attributedRevenue ?? 0)} revenue
+          attributed
+        </p>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {stats?.topAmbassadors.length ? (
+          stats.topAmbassadors.map((ambassador) => (
+            <div key={ambassador.id} className='flex items-center justify-between gap-3'>
+              <div className='flex items-center gap-3 min-w-0'>
+                <Avatar className='h-8 w-8'>
+                  <AvatarImage src={ambassador.avatarUrl} alt={ambassador.name} />
+                  <AvatarFallback>{ambassador.name.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className='text-sm font-medium truncate'>{ambassador.name}</span>
+              </div>
+              <div className='text-right text-sm'>
+                <p className='font-medium'>
+                  {ambassador.referralCount} referral{ambassador.referralCount === 1 ? '' : 's'}
+                </p>
+                <p className='text-muted-foreground'>{formatRevenue(ambassador.attributedRevenue)}</p>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className='text-sm text-muted-foreground'>No referrals recorded yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.js';
+import { getCsrfToken, queryClient } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+import { ExternalLink, FileText, FolderSearch } from 'lucide-react';
+
+interface ReviewDocument {
+  id: string;
+  name: string;
+  type: string;
+  url: string | null;
+  createdAt: string;
+}
+
+interface ContactOption {
+  id: string;
+  name: string;
+}
+
+const REVIEW_QUEUE_KEY = '/api/documents/review';
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
+  'text/plain': 'TXT',
+};
+
+async function postDocumentAction(url: string, body?: unknown): Promise<void> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+}
+
+/**
+ * Drive documents the sync could not match to a single contact, with controls to
+ * assign each one to a contact or dismiss it.
+ */
+export default function DocumentReviewQueue() {
+  const { toast } = useToast();
+  const [selectedContacts, setSelectedContacts] = useState<Record<string, string>>({});
+
+  const { data: documents, isLoading } = useQuery<ReviewDocument[]>({
+    queryKey: [REVIEW_QUEUE_KEY],
+  });
+  const { data: contacts } = useQuery<ContactOption[]>({
+    queryKey: ['/api/contacts'],
+  });
+
+  const onSettled = () => {
+    void queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_KEY] });
+  };
+  const onError = () => {
+    toast({
+      title: 'Error',
+      description: 'Failed to update the document. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: ({ documentId, contactId }: { documentId: string; contactId: string }) =>
+      postDocumentAction(`/api/documents/${documentId}/assign`, { contactId }),
+    onSuccess: () => {
+      // The contact's Documents tab now includes the file
+      void queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+    },
+    onError,
+    onSettled,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (documentId: string) => postDocumentAction(`/api/documents/${documentId}/dismiss`),
+    onError,
+    onSettled,
+  });
+
+  const isUpdating = assignMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <FolderSearch className='h-5 w-5' />
+          Drive Documents to Review
+          {documents && documents.length > 0 && <Badge variant='secondary'>{documents.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          These files were synced from Google Drive but could not be matched to a single client by
+          filename, sharing or email addresses in the document.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {isLoading ? (
+          <p className='text-sm text-muted-foreground'>Loading documents...</p>
+        ) : !documents || documents.length === 0 ? (
+          <p className='text-sm text-muted-foreground'>All synced documents are matched to clients.</p>
+        ) : (
+          documents.map((document) => (
+            <div key={document.id} className='flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center'>
+              <div className='flex min-w-0 flex-1 items-center gap-2'>
+                <FileText className='h-4 w-4 shrink-0 text-muted-foreground' />
+                <span className='truncate text-sm font-medium'>{document.name}</span>
+                <Badge variant='outline' className='text-xs'>
+                  {FILE_TYPE_LABELS[document.type] ?? document.type}
+                </Badge>
+                {document.url && (
+                  <a
+                    href={document.url}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className='text-muted-foreground hover:text-foreground'
+                    aria-label='Open in Google Drive'
+                  >
+                    <ExternalLink className='h-3.5 w-3.5' />
+                  </a>
+                )}
+              </div>
+              <div className='flex items-center gap-2'>
+                <Select
+                  value={selectedContacts[document.id] ?? ''}
+                  onValueChange={(contactId) =>
+                    setSelectedContacts((prev) => ({ ...prev, [document.id]: contactId }))
+                  }
+                >
+                  <SelectTrigger className='w-48'>
+                    <SelectValue placeholder='Choose a client' />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(contacts ?? []).map((contact) => (
+                      <SelectItem key={contact.id} value={contact.id}>
+                        {contact.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size='sm'
+                  disabled={!selectedContacts[document.id] || isUpdating}
+                  onClick={() =>
+                    assignMutation.mutate({
+                      documentId: document.id,
+                      contactId: selectedContacts[document.id],
+                    })
+                  }
+                >
+                  Assign
+                </Button>
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  disabled={isUpdating}
+                  onClick={() => dismissMutation.mutate(document.id)}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,391 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Switch } from '@/components/ui/switch.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { getCsrfToken, queryClient } from '@/lib/queryClient.js';
+import { useToast } from '@/hooks/use-toast.js';
+import { GitBranch, Pencil, Play, Trash2 } from 'lucide-react';
+import { RuleConditionsEditor } from '@/components/Contact/RuleConditionsEditor.js';
+import {
+  LIFECYCLE_FIELDS,
+  LIFECYCLE_STAGES,
+  NEW_CONDITION,
+  fromRules,
+  rulesComplete,
+  toRules,
+  type RuleCondition,
+} from '@/lib/contactRules.js';
+
+interface LifecycleRule {
+  id: string;
+  name: string;
+  rules: { match?: string; conditions?: Array<{ field: string; operator: string; value: unknown }> };
+  targetStage: string;
+  mode: 'suggest' | 'auto';
+  isActive: boolean;
+  priority: number;
+  affectedCount: number;
+}
+
+interface LifecycleRulePreview {
+  count: number;
+  contacts: Array<{ id: string; name: string; lifecycleStage: string | null }>;
+}
+
+interface RuleForm {
+  name: string;
+  targetStage: string;
+  mode: 'suggest' | 'auto';
+  priority: string;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+const LIFECYCLE_RULES_KEY = '/api/lifecycle-rules';
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  targetStage: 'needs_reconnecting',
+  mode: 'suggest',
+  priority: '0',
+  match: 'all',
+  conditions: [NEW_CONDITION],
+};
+
+// Starting points for common transitions
+const EXAMPLE_RULES: RuleForm[] = [
+  {
+    name: 'No session in 45 days',
+    targetStage: 'needs_reconnecting',
+    mode: 'suggest',
+    priority: '10',
+    match: 'all',
+    conditions: [
+      { field: 'lifecycleStage', operator: 'equals', value: 'core_client' },
+      { field: 'lastSession', operator: 'olderThanDays', value: '45' },
+    ],
+  },
+  {
+    name: 'Two or more referrals',
+    targetStage: 'ambassador',
+    mode: 'auto',
+    priority: '0',
+    match: 'all',
+    conditions: [
+      { field: 'referralCount', operator: 'greaterThan', value: '1' },
+      { field: 'lifecycleStage', operator: 'notEquals', value: 'collaborator' },
+    ],
+  },
+];
+
+const stageLabel = (stage: string | null) =>
+  LIFECYCLE_STAGES.find((option) => option.value === stage)?.label ?? stage ?? 'No stage';
+
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T | undefined> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.status === 204 ? undefined : ((await response.json()) as T);
+}
+
+function toPayload(form: RuleForm) {
+  return {
+    name: form.name.trim(),
+    targetStage: form.targetStage,
+    mode: form.mode,
+    priority: Number(form.priority) || 0,
+    rules: toRules(form.match, form.conditions),
+  };
+}
+
+/**
+ * Rules that move contacts between lifecycle stages every night, e.g. core clients without a
+ * session for 45 days to "needs reconnecting". Each rule either suggests the change for review
+ * or applies it directly; both are kept in the AI suggestions history.
+ */
+export default function LifecycleRulesSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<LifecycleRulePreview | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<LifecycleRule[]>({
+    queryKey: [LIFECYCLE_RULES_KEY],
+  });
+
+  const refreshRules = () => void queryClient.invalidateQueries({ queryKey: [LIFECYCLE_RULES_KEY] });
+
+  const openForm = (initial: RuleForm, ruleId: string | null = null) => {
+    setForm(initial);
+    setEditingId(ruleId);
+    setPreview(null);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+    setPreview(null);
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+    setPreview(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (current: RuleForm) =>
+      editingId
+        ? sendJson('PATCH', `${LIFECYCLE_RULES_KEY}/${editingId}`, toPayload(current))
+        : sendJson('POST', LIFECYCLE_RULES_KEY, toPayload(current)),
+    onSuccess: () => {
+      toast({ title: editingId ? 'Rule updated' : 'Rule created' });
+      closeForm();
+      refreshRules();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to save the rule.', variant: 'destructive' });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: LifecycleRule) =>
+      sendJson('PATCH', `${LIFECYCLE_RULES_KEY}/${rule.id}`, { isActive: !rule.isActive }),
+    onSuccess: refreshRules,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update the rule.', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => sendJson('DELETE', `${LIFECYCLE_RULES_KEY}/${ruleId}`),
+    onSuccess: refreshRules,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete the rule.', variant: 'destructive' });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (current: RuleForm) =>
+      sendJson<LifecycleRulePreview>('POST', `${LIFECYCLE_RULES_KEY}/preview`, {
+        rules: toRules(current.match, current.conditions),
+        targetStage: current.targetStage,
+      }),
+    onSuccess: (result) => setPreview(result ?? null),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => sendJson<{ suggested: number; applied: number }>('POST', `${LIFECYCLE_RULES_KEY}/run`),
+    onSuccess: (summary) => {
+      toast({
+        title: 'Lifecycle rules ran',
+        description: `${summary?.applied ?? 0} stage changes applied, ${summary?.suggested ?? 0} suggested for review.`,
+      });
+      refreshRules();
+      void queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to run the rules.', variant: 'destructive' });
+    },
+  });
+
+  const canSave = form !== null && form.name.trim() !== '' && rulesComplete(form.conditions);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <GitBranch className='h-5 w-5' />
+          Lifecycle Rules
+        </CardTitle>
+        <CardDescription>
+          Move contacts along the client journey automatically. Rules run every night in order; the
+          first rule that matches a contact decides its stage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {isLoading && <p className='text-sm text-muted-foreground'>Loading rules...</p>}
+        {!isLoading && rules.length === 0 && (
+          <p className='text-sm text-muted-foreground'>No lifecycle rules yet.</p>
+        )}
+
+        {rules.map((rule) => (
+          <div key={rule.id} className='flex items-center justify-between gap-2 rounded-md border p-3'>
+            <div className='space-y-1'>
+              <div className='flex flex-wrap items-center gap-2'>
+                <span className='font-medium'>{rule.name}</span>
+                <Badge variant='outline'>→ {stageLabel(rule.targetStage)}</Badge>
+                <Badge variant={rule.mode === 'auto' ? 'default' : 'secondary'}>
+                  {rule.mode === 'auto' ? 'Automatic' : 'Suggest'}
+                </Badge>
+              </div>
+              <p className='text-sm text-muted-foreground'>
+                {rule.isActive ? 'Would move' : 'Would move, if enabled,'} {rule.affectedCount} contact
+                {rule.affectedCount === 1 ? '' : 's'} now
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <Switch
+                checked={rule.isActive}
+                disabled={toggleMutation.isPending}
+                onCheckedChange={() => toggleMutation.mutate(rule)}
+                aria-label='Rule active'
+              />
+              <Button
+                variant='ghost'
+                size='sm'
+                className='h-7 w-7 p-0'
+                title='Edit rule'
+                onClick={() =>
+                  openForm(
+                    {
+                      name: rule.name,
+                      targetStage: rule.targetStage,
+                      mode: rule.mode,
+                      priority: String(rule.priority),
+                      ...fromRules(rule.rules),
+                    },
+                    rule.id
+                  )
+                }
+              >
+                <Pencil className='h-4 w-4' />
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                className='h-7 w-7 p-0'
+                title='Delete rule'
+                onClick={() => deleteMutation.mutate(rule.id)}
+              >
+                <Trash2 className='h-4 w-4' />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {form ? (
+          <div className='space-y-3 rounded-md border p-4'>
+            <div className='grid gap-3 sm:grid-cols-4'>
+              <div className='space-y-1 sm:col-span-2'>
+                <Label htmlFor='lifecycle-rule-name'>Name</Label>
+                <Input
+                  id='lifecycle-rule-name'
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder='e.g. No session in 45 days'
+                />
+              </div>
+              <div className='space-y-1'>
+                <Label>Move to</Label>
+                <Select value={form.targetStage} onValueChange={(targetStage) => updateForm({ targetStage })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIFECYCLE_STAGES.map((stage) => (
+                      <SelectItem key={stage.value} value={stage.value}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className='space-y-1'>
+                <Label>When matched</Label>
+                <Select value={form.mode} onValueChange={(mode) => updateForm({ mode: mode as 'suggest' | 'auto' })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='suggest'>Suggest for review</SelectItem>
+                    <SelectItem value='auto'>Apply automatically</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className='space-y-1 sm:w-40'>
+              <Label htmlFor='lifecycle-rule-priority'>Order (lower runs first)</Label>
+              <Input
+                id='lifecycle-rule-priority'
+                type='number'
+                min={0}
+                value={form.priority}
+                onChange={(e) => updateForm({ priority: e.target.value })}
+              />
+            </div>
+
+            <RuleConditionsEditor
+              fields={LIFECYCLE_FIELDS}
+              match={form.match}
+              onMatchChange={(match) => updateForm({ match })}
+              conditions={form.conditions}
+              onConditionsChange={(conditions) => updateForm({ conditions })}
+            >
+              <Button
+                variant='ghost'
+                size='sm'
+                disabled={!rulesComplete(form.conditions) || previewMutation.isPending}
+                onClick={() => previewMutation.mutate(form)}
+              >
+                Preview
+              </Button>
+              {preview && (
+                <span className='text-sm text-muted-foreground'>
+                  {preview.count} contact{preview.count === 1 ? '' : 's'} would move to {stageLabel(form.targetStage)}
+                </span>
+              )}
+            </RuleConditionsEditor>
+            {preview && preview.contacts.length > 0 && (
+              <p className='text-sm text-muted-foreground'>
+                {preview.contacts.map((contact) => `${contact.name} (${stageLabel(contact.lifecycleStage)})`).join(', ')}
+                {preview.count > preview.contacts.length ? ', ...' : ''}
+              </p>
+            )}
+
+            <div className='flex justify-end gap-2'>
+              <Button variant='outline' size='sm' onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button size='sm' disabled={!canSave || saveMutation.isPending} onClick={() => saveMutation.mutate(form)}>
+                {editingId ? 'Save rule' : 'Create rule'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className='flex flex-wrap items-center gap-2'>
+            <Button variant='outline' size='sm' onClick={() => openForm(EMPTY_FORM)}>
+              New rule
+            </Button>
+            {EXAMPLE_RULES.map((example) => (
+              <Button key={example.name} variant='ghost' size='sm' onClick={() => openForm(example)}>
+                + {example.name}
+              </Button>
+            ))}
+            <Button
+              variant='ghost'
+              size='sm'
+              className='ml-auto'
+              disabled={rules.length === 0 || runMutation.isPending}
+              onClick={() => runMutation.mutate()}
+            >
+              <Play className='mr-2 h-4 w-4' />
+              Run now
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,403 @@
+import { useMemo, useState, type DragEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient.js';
+import type { Project, Task } from '@shared/schema.js';
+import { Card, CardContent } from '@/components/ui/card.js';
+import { Badge } from '@/components/ui/badge.js';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.js';
+import { toast } from '@/hooks/use-toast.js';
+import {
+  Bot,
+  Calendar as CalendarIcon,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Circle,
+  Repeat,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { describeRecurrence } from '@/lib/recurrence.js';
+
+type GroupBy = 'status' | 'project' | 'priority';
+type TaskStatus = NonNullable<Task['status']>;
+type TaskPriority = NonNullable<Task['priority']>;
+
+// What POST /api/tasks/reorder takes for each card
+interface TaskPlacement {
+  id: string;
+  orderIndex: number;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  projectId?: string | null;
+}
+
+interface BoardColumn {
+  key: string;
+  title: string;
+  // The fields a card takes on when it is dropped in this column
+  placement: Pick<TaskPlacement, 'status' | 'priority' | 'projectId'>;
+}
+
+interface TaskBoardProps {
+  tasks: Task[];
+  projects: Project[];
+  isLoading: boolean;
+  getPriorityColor: (priority: string | null | undefined) => string;
+  onSelectTask: (task: Task) => void;
+}
+
+const NO_PROJECT = 'none';
+
+const STATUS_COLUMNS: [TaskStatus, string][] = [
+  ['pending', 'Pending'],
+  ['in_progress', 'In Progress'],
+  ['waiting_approval', 'Waiting Approval'],
+  ['completed', 'Completed'],
+  ['cancelled', 'Cancelled'],
+];
+
+const PRIORITY_COLUMNS: [TaskPriority, string][] = [
+  ['urgent', 'Urgent'],
+  ['high', 'High'],
+  ['medium', 'Medium'],
+  ['low', 'Low'],
+];
+
+const byBoardOrder = (a: Task, b: Task) =>
+  (a.orderIndex ?? 0) - (b.orderIndex ?? 0) ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// Subtasks stay with their parent card, as a collapsible tree
+function SubtaskTree({
+  parentId,
+  childrenByParent,
+  expanded,
+  onToggle,
+}: {
+  parentId: string;
+  childrenByParent: Map<string, Task[]>;
+  expanded: Set<string>;
+  onToggle: (taskId: string) => void;
+}) {
+  const subtasks = childrenByParent.get(parentId) ?? [];
+  return (
+    <ul className='ml-3 mt-1 space-y-1 border-l pl-2'>
+      {subtasks.map((subtask) => {
+        const childCount = childrenByParent.get(subtask.id)?.length ?? 0;
+        return (
+          <li key={subtask.id} className='text-xs'>
+            <div className='flex items-center gap-1'>
+              {childCount > 0 ? (
+                <button
+                  type='button'
+                  onClick={() => onToggle(subtask.id)}
+                  className='text-gray-500 focus:outline-none'
+                  aria-label={expanded.has(subtask.id) ? 'Hide subtasks' : 'Show subtasks'}
+                >
+                  {expanded.has(subtask.id) ? (
+                    <ChevronDown className='h-3 w-3' />
+                  ) : (
+                    <ChevronRight className='h-3 w-3' />
+                  )}
+                </button>
+              ) : (
+                <span className='w-3' />
+              )}
+              {subtask.status === 'completed' ? (
+                <CheckCircle className='h-3 w-3 text-green-500' />
+              ) : (
+                <Circle className='h-3 w-3 text-gray-400' />
+              )}
+              <span className={subtask.status === 'completed' ? 'line-through text-gray-500' : ''}>
+                {subtask.title}
+              </span>
+            </div>
+            {childCount > 0 && expanded.has(subtask.id) && (
+              <SubtaskTree
+                parentId={subtask.id}
+                childrenByParent={childrenByParent}
+                expanded={expanded}
+                onToggle={onToggle}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Kanban view of the user's tasks, grouped by status, project or priority. Dragging a card
+ * saves the new order of its column, and its new status, project or priority, in one request.
+ */
+export function TaskBoard({
+  tasks,
+  projects,
+  isLoading,
+  getPriorityColor,
+  onSelectTask,
+}: TaskBoardProps) {
+  const queryClient = useQueryClient();
+  const [groupBy, setGroupBy] = useState<GroupBy>('status');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ column: string; index: number } | null>(null);
+
+  const columns = useMemo<BoardColumn[]>(() => {
+    if (groupBy === 'priority') {
+      return PRIORITY_COLUMNS.map(([priority, title]) => ({ key: priority, title, placement: { priority } }));
+    }
+    if (groupBy === 'project') {
+      return [
+        { key: NO_PROJECT, title: 'No project', placement: { projectId: null } },
+        ...projects.map((project) => ({
+          key: project.id,
+          title: project.name,
+          placement: { projectId: project.id },
+        })),
+      ];
+    }
+    return STATUS_COLUMNS.map(([status, title]) => ({ key: status, title, placement: { status } }));
+  }, [groupBy, projects]);
+
+  const { cardsByColumn, childrenByParent } = useMemo(() => {
+    const taskIds = new Set(tasks.map((task) => task.id));
+    const projectIds = new Set(projects.map((project) => project.id));
+    const columnOf = (task: Task) => {
+      if (groupBy === 'priority') return task.priority ?? 'medium';
+      if (groupBy === 'project') {
+        return task.projectId && projectIds.has(task.projectId) ? task.projectId : NO_PROJECT;
+      }
+      return task.status ?? 'pending';
+    };
+
+    const cards = new Map<string, Task[]>();
+    const children = new Map<string, Task[]>();
+    for (const task of [...tasks].sort(byBoardOrder)) {
+      // Subtasks whose parent is not loaded are shown as cards of their own
+      const [map, key] =
+        task.parentTaskId && taskIds.has(task.parentTaskId)
+          ? [children, task.parentTaskId]
+          : [cards, columnOf(task)];
+      map.set(key, [...(map.get(key) ?? []), task]);
+    }
+    return { cardsByColumn: cards, childrenByParent: children };
+  }, [tasks, projects, groupBy]);
+
+  const reorderMutation = useMutation({
+    mutationFn: (placements: TaskPlacement[]) =>
+      apiRequest('POST', '/api/tasks/reorder', { tasks: placements }),
+    onMutate: async (placements) => {
+      await queryClient.cancelQueries({ queryKey: ['/api/tasks'] });
+      const previous = queryClient.getQueryData<Task[]>(['/api/tasks']);
+      const moved = new Map(placements.map((placement) => [placement.id, placement]));
+      queryClient.setQueryData<Task[]>(['/api/tasks'], (current) =>
+        current?.map((task) => {
+          const placement = moved.get(task.id);
+          return placement ? { ...task, ...placement } : task;
+        })
+      );
+      return { previous };
+    },
+    onError: (error: Error, _placements, context) => {
+      queryClient.setQueryData(['/api/tasks'], context?.previous);
+      toast({ title: 'Failed to move task', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks/analytics'] });
+    },
+  });
+
+  const toggleExpanded = (taskId: string) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+
+  const handleDragOver = (event: DragEvent, column: string, index: number) => {
+    if (!draggedId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (dropTarget?.column !== column || dropTarget.index !== index) {
+      setDropTarget({ column, index });
+    }
+  };
+
+  // Over a card, drop before it in its top half and after it in its bottom half
+  const handleCardDragOver = (event: DragEvent<HTMLElement>, column: string, index: number) => {
+    const { top, height } = event.currentTarget.getBoundingClientRect();
+    handleDragOver(event, column, event.clientY < top + height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (event: DragEvent, column: BoardColumn) => {
+    event.preventDefault();
+    const task = tasks.find((candidate) => candidate.id === draggedId);
+    const index = dropTarget?.column === column.key ? dropTarget.index : undefined;
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    const cards = cardsByColumn.get(column.key) ?? [];
+    const before = cards.slice(0, index ?? cards.length).filter((card) => card.id !== task.id);
+    const after = cards.slice(index ?? cards.length).filter((card) => card.id !== task.id);
+    const ordered = [...before, task, ...after];
+
+    // Only send the cards that actually move
+    const placements = ordered.flatMap((card, orderIndex): TaskPlacement[] => {
+      if (card.id === task.id) return [{ id: card.id, orderIndex, ...column.placement }];
+      return card.orderIndex === orderIndex ? [] : [{ id: card.id, orderIndex }];
+    });
+    const unchanged =
+      placements.length === 1 &&
+      (task.orderIndex ?? 0) === placements[0].orderIndex &&
+      cards.some((card) => card.id === task.id);
+    if (!unchanged) {
+      reorderMutation.mutate(placements);
+    }
+  };
+
+  if (isLoading) {
+    return <div className='text-center py-8'>Loading tasks...</div>;
+  }
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex items-center gap-2'>
+        <span className='text-sm text-gray-600 dark:text-gray-400'>Group by</span>
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+          <SelectTrigger className='w-40'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value='status'>Status</SelectItem>
+            <SelectItem value='project'>Project</SelectItem>
+            <SelectItem value='priority'>Priority</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className='flex gap-4 overflow-x-auto pb-4'>
+        {columns.map((column) => {
+          const cards = cardsByColumn.get(column.key) ?? [];
+          const isTarget = dropTarget?.column === column.key;
+          return (
+            <div
+              key={column.key}
+              className={`flex w-72 shrink-0 flex-col rounded-lg bg-gray-50 p-3 dark:bg-gray-900 ${
+                isTarget ? 'ring-2 ring-blue-300' : ''
+              }`}
+              onDragOver={(event) => handleDragOver(event, column.key, cards.length)}
+              onDrop={(event) => handleDrop(event, column)}
+            >
+              <div className='mb-3 flex items-center justify-between'>
+                <h3 className='text-sm font-medium text-gray-900 dark:text-white'>{column.title}</h3>
+                <Badge variant='secondary'>{cards.length}</Badge>
+              </div>
+
+              <div className='min-h-16 space-y-2'>
+                {cards.map((task, index) => {
+                  const subtaskCount = childrenByParent.get(task.id)?.length ?? 0;
+                  return (
+                    <div key={task.id}>
+                      {isTarget && dropTarget.index === index && (
+                        <div className='mb-2 h-0.5 rounded bg-blue-500' />
+                      )}
+                      <Card
+                        draggable
+                        onDragStart={(event) => {
+                          event.dataTransfer.effectAllowed = 'move';
+                          event.dataTransfer.setData('text/plain', task.id);
+                          setDraggedId(task.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggedId(null);
+                          setDropTarget(null);
+                        }}
+                        onDragOver={(event) => handleCardDragOver(event, column.key, index)}
+                        className={`cursor-grab ${draggedId === task.id ? 'opacity-50' : ''}`}
+                      >
+                        <CardContent className='p-3'>
+                          <div className='flex items-start gap-2'>
+                            <div
+                              className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${getPriorityColor(task.priority)}`}
+                            />
+                            <button
+                              type='button'
+                              onClick={() => onSelectTask(task)}
+                              className={`flex-1 text-left text-sm font-medium hover:underline focus:outline-none ${
+                                task.status === 'completed'
+                                  ? 'line-through text-gray-500'
+                                  : 'text-gray-900 dark:text-white'
+                              }`}
+                            >
+                              {task.title}
+                            </button>
+                            {task.owner === 'ai_assistant' && <Bot className='h-4 w-4 text-blue-500' />}
+                          </div>
+
+                          <div className='mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500'>
+                            {task.dueDate && (
+                              <span className='flex items-center gap-1'>
+                                <CalendarIcon className='h-3 w-3' />
+                                {format(new Date(task.dueDate), 'MMM d')}
+                              </span>
+                            )}
+                            {task.recurrenceRule && (
+                              <span className='flex items-center gap-1'>
+                                <Repeat className='h-3 w-3' />
+                                {describeRecurrence(task.recurrenceRule)}
+                              </span>
+                            )}
+                            {subtaskCount > 0 && (
+                              <button
+                                type='button'
+                                onClick={() => toggleExpanded(task.id)}
+                                className='flex items-center gap-1 focus:outline-none'
+                              >
+                                {expanded.has(task.id) ? (
+                                  <ChevronDown className='h-3 w-3' />
+                                ) : (
+                                  <ChevronRight className='h-3 w-3' />
+                                )}
+                                {subtaskCount} {subtaskCount === 1 ? 'subtask' : 'subtasks'}
+                              </button>
+                            )}
+                          </div>
+
+                          {subtaskCount > 0 && expanded.has(task.id) && (
+                            <SubtaskTree
+                              parentId={task.id}
+                              childrenByParent={childrenByParent}
+                              expanded={expanded}
+                              onToggle={toggleExpanded}
+                            />
+                          )}
+                        </CardContent>
+                      </Card>
+                    </div>
+                  );
+                })}
+                {isTarget && dropTarget.index === cards.length && (
+                  <div className='h-0.5 rounded bg-blue-500' />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
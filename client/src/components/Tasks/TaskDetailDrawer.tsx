@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient.js';
+import type { Task, TaskActivity } from '@shared/schema.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Button } from '@/components/ui/button.js';
+import { Textarea } from '@/components/ui/textarea.js';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet.js';
+import { toast } from '@/hooks/use-toast.js';
+import { Bot, Calendar as CalendarIcon, Clock, Repeat, Settings, User } from 'lucide-react';
+import { format, formatDistanceToNow, isValid, parseISO } from 'date-fns';
+import { describeRecurrence } from '@/lib/recurrence.js';
+import { TaskTimeTracker } from '@/components/Tasks/TaskTimeTracker.js';
+
+interface TaskDetailDrawerProps {
+  task: Task | undefined;
+  onOpenChange: (open: boolean) => void;
+  getStatusColor: (status: string | null | undefined) => string;
+}
+
+// Activity metadata written by the server: { changes: { field: { from, to } } }
+type ActivityChanges = Record<string, { from: unknown; to: unknown }>;
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  owner: 'Owner',
+  projectId: 'Project',
+  parentTaskId: 'Parent task',
+  dueDate: 'Due date',
+  completedAt: 'Completed',
+  estimatedMinutes: 'Estimate',
+  actualMinutes: 'Time spent',
+  assignedContactIds: 'Contacts',
+  recurrenceRule: 'Repeat',
+  requiresApproval: 'Needs approval',
+  approvedAt: 'Approved',
+  rejectedAt: 'Rejected',
+  rejectionReason: 'Rejection reason',
+  tagIds: 'Tags',
+};
+
+const getChanges = (activity: TaskActivity): ActivityChanges => {
+  const metadata = activity.metadata as { changes?: ActivityChanges } | null;
+  return metadata?.changes ?? {};
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined) return 'none';
+  if (Array.isArray(value)) {
+    const noun = field === 'tagIds' ? 'tag' : 'contact';
+    return `${value.length} ${noun}${value.length === 1 ? '' : 's'}`;
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'number') return field.endsWith('Minutes') ? `${value}m` : String(value);
+  if (field === 'recurrenceRule') return describeRecurrence(String(value));
+  if (typeof value === 'string') {
+    const date = parseISO(value);
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value) && isValid(date)) return format(date, 'MMM d, yyyy');
+    return field === 'status' || field === 'owner' ? value.replace('_', ' ') : value;
+  }
+  return JSON.stringify(value);
+};
+
+// Long text fields show that they changed rather than both versions
+const SUMMARIZED_FIELDS = new Set(['description', 'projectId', 'parentTaskId']);
+
+function ActorIcon({ actorType }: { actorType: string }) {
+  if (actorType === 'ai_assistant') return <Bot className='h-4 w-4 text-blue-500' />;
+  if (actorType === 'system') return <Settings className='h-4 w-4 text-gray-500' />;
+  return <User className='h-4 w-4 text-gray-700 dark:text-gray-300' />;
+}
+
+const actorName = (actorType: string) =>
+  actorType === 'ai_assistant' ? 'AI assistant' : actorType === 'system' ? 'System' : 'You';
+
+/**
+ * Side drawer with a task's details and its activity feed: who (you, the AI assistant or a
+ * scheduled job) changed what, and when. Tasks waiting for approval can be approved or rejected.
+ */
+export function TaskDetailDrawer({ task, onOpenChange, getStatusColor }: TaskDetailDrawerProps) {
+  const queryClient = useQueryClient();
+  const [rejecting, setRejecting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const { data: activities = [], isLoading } = useQuery<TaskActivity[]>({
+    queryKey: ['/api/tasks', task?.id, 'activity'],
+    enabled: !!task,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ approved, reason }: { approved: boolean; reason?: string }) =>
+      apiRequest(
+        'POST',
+        `/api/tasks/${task?.id}/${approved ? 'approve' : 'reject'}`,
+        approved ? undefined : { reason: reason?.trim() ? reason : undefined }
+      ),
+    onSuccess: (_response, { approved }) => {
+      setRejecting(false);
+      setRejectionReason('');
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks/analytics'] });
+      toast({ title: approved ? 'Task approved' : 'Task rejected' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to review task', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const awaitingApproval = task?.status === 'waiting_approval' || task?.requiresApproval;
+
+  return (
+    <Sheet open={!!task} onOpenChange={onOpenChange}>
+      <SheetContent className='w-full sm:max-w-lg overflow-y-auto'>
+        {task && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{task.title}</SheetTitle>
+              <SheetDescription>{task.description ?? 'No description'}</SheetDescription>
+            </SheetHeader>
+
+            <div className='mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-500'>
+              <Badge className={getStatusColor(task.status)}>
+                {task.status?.replace('_', ' ') ?? 'Unknown'}
+              </Badge>
+              {task.owner === 'ai_assistant' && (
+                <span className='flex items-center gap-1'>
+                  <Bot className='h-3 w-3' />
+                  AI assistant
+                </span>
+              )}
+              {task.dueDate && (
+                <span className='flex items-center gap-1'>
+                  <CalendarIcon className='h-3 w-3' />
+                  {format(new Date(task.dueDate), 'MMM d, yyyy')}
+                </span>
+              )}
+              {task.recurrenceRule && (
+                <span className='flex items-center gap-1'>
+                  <Repeat className='h-3 w-3' />
+                  {describeRecurrence(task.recurrenceRule)}
+                </span>
+              )}
+              {task.estimatedMinutes && (
+                <span className='flex items-center gap-1'>
+                  <Clock className='h-3 w-3' />
+                  {task.estimatedMinutes}m
+                </span>
+              )}
+            </div>
+
+            {awaitingApproval && (
+              <div className='mt-4 space-y-2 rounded-lg border border-purple-200 p-3'>
+                <p className='text-sm font-medium'>This task is waiting for your approval</p>
+                {rejecting && (
+                  <Textarea
+                    placeholder='Why is it rejected? (optional)'
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                  />
+                )}
+                <div className='flex gap-2'>
+                  {rejecting ? (
+                    <>
+                      <Button
+                        size='sm'
+                        variant='destructive'
+                        disabled={reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ approved: false, reason: rejectionReason })}
+                      >
+                        Reject task
+                      </Button>
+                      <Button size='sm' variant='ghost' onClick={() => setRejecting(false)}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        size='sm'
+                        disabled={reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ approved: true })}
+                      >
+                        Approve
+                      </Button>
+                      <Button size='sm' variant='outline' onClick={() => setRejecting(true)}>
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className='mt-6'>
+              <h3 className='mb-3 text-sm font-medium text-gray-900 dark:text-white'>Time</h3>
+              <TaskTimeTracker task={task} />
+            </div>
+
+            <div className='mt-6'>
+              <h3 className='mb-3 text-sm font-medium text-gray-900 dark:text-white'>Activity</h3>
+              {isLoading ? (
+                <p className='text-sm text-gray-500'>Loading activity...</p>
+              ) : activities.length === 0 ? (
+                <p className='text-sm text-gray-500'>No activity recorded yet.</p>
+              ) : (
+                <ol className='space-y-4'>
+                  {activities.map((activity) => {
+                    const changes = Object.entries(getChanges(activity));
+                    return (
+                      <li key={activity.id} className='flex gap-3'>
+                        <div className='mt-0.5'>
+                          <ActorIcon actorType={activity.actorType} />
+                        </div>
+                        <div className='flex-1 text-sm'>
+                          <p>
+                            <span className='font-medium'>{actorName(activity.actorType)}</span>{' '}
+                            <span className='text-gray-700 dark:text-gray-300'>
+                              {activity.description ?? activity.actionType.replace(/_/g, ' ')}
+                            </span>
+                          </p>
+                          {changes.length > 0 && (
+                            <ul className='mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400'>
+                              {changes.map(([field, { from, to }]) => (
+                                <li key={field}>
+                                  <span className='font-medium'>{FIELD_LABELS[field] ?? field}</span>
+                                  {SUMMARIZED_FIELDS.has(field)
+                                    ? to === null
+                                      ? ' removed'
+                                      : ' changed'
+                                    : `: ${formatValue(field, from)} → ${formatValue(field, to)}`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <p
+                            className='mt-1 text-xs text-gray-500'
+                            title={format(new Date(activity.createdAt), 'PPpp')}
+                          >
+                            {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
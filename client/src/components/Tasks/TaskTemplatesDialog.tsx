@@ -0,0 +1,561 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronLeft, Copy, ListTree, Pencil, Plus, Repeat, Trash2 } from 'lucide-react';
+import type { Project, TaskTemplate } from '@shared/schema.js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Textarea } from '@/components/ui/textarea.js';
+import { ScrollArea } from '@/components/ui/scroll-area.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { getCsrfToken } from '@/lib/queryClient.js';
+import { describeRecurrence, NO_RECURRENCE, recurrencePresets } from '@/lib/recurrence.js';
+import { useToast } from '@/hooks/use-toast.js';
+
+const TEMPLATES_KEY = '/api/task-templates';
+const NONE = 'none';
+// Matches the nesting the server accepts below the template's task
+const MAX_SUBTASK_DEPTH = 3;
+
+interface TemplateSubtask {
+  title: string;
+  description?: string;
+  estimatedMinutes?: number;
+  dueInDays?: number;
+  subtasks?: TemplateSubtask[];
+}
+
+interface SubtaskDraft {
+  key: string;
+  title: string;
+  dueInDays: string;
+  subtasks: SubtaskDraft[];
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  priority: string;
+  estimatedMinutes: string;
+  dueInDays: string;
+  recurrenceRule: string;
+  subtasks: SubtaskDraft[];
+}
+
+interface UseForm {
+  contactId: string;
+  projectId: string;
+  title: string;
+  dueDate: string;
+}
+
+interface ContactOption {
+  id: string;
+  name: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  priority: 'medium',
+  estimatedMinutes: '',
+  dueInDays: '',
+  recurrenceRule: NO_RECURRENCE,
+  subtasks: [],
+};
+
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T | undefined> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.status === 204 ? undefined : ((await response.json()) as T);
+}
+
+const newDraft = (): SubtaskDraft => ({ key: crypto.randomUUID(), title: '', dueInDays: '', subtasks: [] });
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const toDrafts = (subtasks: TemplateSubtask[] = []): SubtaskDraft[] =>
+  subtasks.map((subtask) => ({
+    key: crypto.randomUUID(),
+    title: subtask.title,
+    dueInDays: subtask.dueInDays?.toString() ?? '',
+    subtasks: toDrafts(subtask.subtasks),
+  }));
+
+// Untitled steps are dropped along with anything nested under them
+const fromDrafts = (drafts: SubtaskDraft[]): TemplateSubtask[] =>
+  drafts
+    .filter((draft) => draft.title.trim())
+    .map((draft) => ({
+      title: draft.title.trim(),
+      dueInDays: optionalNumber(draft.dueInDays),
+      subtasks: fromDrafts(draft.subtasks),
+    }));
+
+const countSubtasks = (subtasks: TemplateSubtask[] = []): number =>
+  subtasks.reduce((total, subtask) => total + 1 + countSubtasks(subtask.subtasks), 0);
+
+function toForm(template: TaskTemplate): TemplateForm {
+  return {
+    name: template.name,
+    description: template.description ?? '',
+    priority: template.priority ?? 'medium',
+    estimatedMinutes: template.estimatedMinutes?.toString() ?? '',
+    dueInDays: template.dueInDays?.toString() ?? '',
+    recurrenceRule: template.recurrenceRule ?? NO_RECURRENCE,
+    subtasks: toDrafts(template.subtasks as TemplateSubtask[]),
+  };
+}
+
+function toPayload(form: TemplateForm, editing: boolean) {
+  const recurrenceRule = form.recurrenceRule === NO_RECURRENCE ? undefined : form.recurrenceRule;
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || (editing ? null : undefined),
+    priority: form.priority,
+    estimatedMinutes: optionalNumber(form.estimatedMinutes) ?? (editing ? null : undefined),
+    dueInDays: optionalNumber(form.dueInDays) ?? (editing ? null : undefined),
+    recurrenceRule: recurrenceRule ?? (editing ? null : undefined),
+    subtasks: fromDrafts(form.subtasks),
+  };
+}
+
+function SubtaskTreeEditor({
+  subtasks,
+  onChange,
+  depth = 1,
+}: {
+  subtasks: SubtaskDraft[];
+  onChange: (subtasks: SubtaskDraft[]) => void;
+  depth?: number;
+}) {
+  const update = (index: number, changes: Partial<SubtaskDraft>) =>
+    onChange(subtasks.map((subtask, i) => (i === index ? { ...subtask, ...changes } : subtask)));
+
+  return (
+    <div className={depth > 1 ? 'ml-6 space-y-2 border-l pl-3' : 'space-y-2'}>
+      {subtasks.map((subtask, index) => (
+        <div key={subtask.key} className='space-y-2'>
+          <div className='flex items-center gap-2'>
+            <Input
+              value={subtask.title}
+              onChange={(e) => update(index, { title: e.target.value })}
+              placeholder='Step title...'
+              className='h-8'
+            />
+            <Input
+              type='number'
+              min={0}
+              value={subtask.dueInDays}
+              onChange={(e) => update(index, { dueInDays: e.target.value })}
+              placeholder='Due +days'
+              className='h-8 w-28'
+            />
+            {depth < MAX_SUBTASK_DEPTH && (
+              <Button
+                type='button'
+                size='icon'
+                variant='ghost'
+                title='Add a sub-step'
+                onClick={() => update(index, { subtasks: [...subtask.subtasks, newDraft()] })}
+              >
+                <ListTree className='h-4 w-4' />
+              </Button>
+            )}
+            <Button
+              type='button'
+              size='icon'
+              variant='ghost'
+              title='Remove step'
+              onClick={() => onChange(subtasks.filter((_, i) => i !== index))}
+            >
+              <Trash2 className='h-4 w-4' />
+            </Button>
+          </div>
+          {subtask.subtasks.length > 0 && (
+            <SubtaskTreeEditor
+              subtasks={subtask.subtasks}
+              onChange={(children) => update(index, { subtasks: children })}
+              depth={depth + 1}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TaskTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: Project[];
+}
+
+/**
+ * Reusable tasks with their subtask trees, e.g. a weekly client check-in or monthly invoicing.
+ * Using a template creates the task for a contact and/or project, with due dates counted from
+ * today; templates with a recurrence rule create recurring tasks.
+ */
+export function TaskTemplatesDialog({ open, onOpenChange, projects }: TaskTemplatesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [using, setUsing] = useState<{ template: TaskTemplate; form: UseForm } | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<TaskTemplate[]>({
+    queryKey: [TEMPLATES_KEY],
+    enabled: open,
+  });
+
+  const { data: contacts = [] } = useQuery<ContactOption[]>({
+    queryKey: ['/api/contacts'],
+    enabled: open && !!using,
+  });
+
+  const refreshTemplates = () => void queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+
+  const closeViews = () => {
+    setForm(null);
+    setEditingId(null);
+    setUsing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (current: TemplateForm) =>
+      editingId
+        ? sendJson('PATCH', `${TEMPLATES_KEY}/${editingId}`, toPayload(current, true))
+        : sendJson('POST', TEMPLATES_KEY, toPayload(current, false)),
+    onSuccess: () => {
+      toast({ title: editingId ? 'Template updated' : 'Template created' });
+      closeViews();
+      refreshTemplates();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to save the template.', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => sendJson('DELETE', `${TEMPLATES_KEY}/${templateId}`),
+    onSuccess: refreshTemplates,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete the template.', variant: 'destructive' });
+    },
+  });
+
+  const instantiateMutation = useMutation({
+    mutationFn: ({ template, form: current }: { template: TaskTemplate; form: UseForm }) =>
+      sendJson('POST', `${TEMPLATES_KEY}/${template.id}/instantiate`, {
+        contactId: current.contactId === NONE ? undefined : current.contactId,
+        projectId: current.projectId === NONE ? undefined : current.projectId,
+        title: current.title.trim() || undefined,
+        dueDate: current.dueDate ? new Date(`${current.dueDate}T09:00:00`).toISOString() : undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: 'Task created from template' });
+      closeViews();
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      void queryClient.invalidateQueries({ queryKey: ['/api/tasks/analytics'] });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to create the task.', variant: 'destructive' });
+    },
+  });
+
+  const updateForm = (changes: Partial<TemplateForm>) =>
+    setForm((current) => (current ? { ...current, ...changes } : current));
+
+  const updateUseForm = (changes: Partial<UseForm>) =>
+    setUsing((current) => (current ? { ...current, form: { ...current.form, ...changes } } : current));
+
+  const presets = recurrencePresets();
+  const recurrenceOptions =
+    form && form.recurrenceRule !== NO_RECURRENCE && !presets.some((p) => p.value === form.recurrenceRule)
+      ? [...presets, { value: form.recurrenceRule, label: describeRecurrence(form.recurrenceRule) }]
+      : presets;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) closeViews();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className='max-w-2xl'>
+        <DialogHeader>
+          <DialogTitle>Task Templates</DialogTitle>
+          <DialogDescription>
+            Save workflows you repeat, then create them for a client or project in one step.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className='space-y-4'>
+            <div className='grid grid-cols-2 gap-4'>
+              <div className='col-span-2'>
+                <Label htmlFor='template-name'>Name *</Label>
+                <Input
+                  id='template-name'
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder='e.g. Weekly client check-in'
+                />
+              </div>
+              <div className='col-span-2'>
+                <Label htmlFor='template-description'>Description</Label>
+                <Textarea
+                  id='template-description'
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div>
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={(priority) => updateForm({ priority })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='low'>Low</SelectItem>
+                    <SelectItem value='medium'>Medium</SelectItem>
+                    <SelectItem value='high'>High</SelectItem>
+                    <SelectItem value='urgent'>Urgent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Repeat</Label>
+                <Select value={form.recurrenceRule} onValueChange={(recurrenceRule) => updateForm({ recurrenceRule })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_RECURRENCE}>Doesn&apos;t repeat</SelectItem>
+                    {recurrenceOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor='template-due'>Due after (days)</Label>
+                <Input
+                  id='template-due'
+                  type='number'
+                  min={0}
+                  value={form.dueInDays}
+                  onChange={(e) => updateForm({ dueInDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor='template-estimate'>Estimate (minutes)</Label>
+                <Input
+                  id='template-estimate'
+                  type='number'
+                  min={1}
+                  value={form.estimatedMinutes}
+                  onChange={(e) => updateForm({ estimatedMinutes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className='space-y-2'>
+              <div className='flex items-center justify-between'>
+                <Label>Steps</Label>
+                <Button
+                  type='button'
+                  size='sm'
+                  variant='outline'
+                  onClick={() => updateForm({ subtasks: [...form.subtasks, newDraft()] })}
+                >
+                  <Plus className='h-4 w-4 mr-1' />
+                  Add step
+                </Button>
+              </div>
+              <ScrollArea className='max-h-60'>
+                <SubtaskTreeEditor subtasks={form.subtasks} onChange={(subtasks) => updateForm({ subtasks })} />
+              </ScrollArea>
+            </div>
+
+            <DialogFooter>
+              <Button variant='outline' onClick={closeViews}>
+                <ChevronLeft className='h-4 w-4 mr-1' />
+                Back
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={saveMutation.isPending || !form.name.trim()}
+              >
+                {editingId ? 'Save Template' : 'Create Template'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : using ? (
+          <div className='space-y-4'>
+            <p className='text-sm'>
+              Create <span className='font-medium'>{using.template.name}</span>
+              {countSubtasks(using.template.subtasks as TemplateSubtask[]) > 0 &&
+                ` with ${countSubtasks(using.template.subtasks as TemplateSubtask[])} steps`}
+            </p>
+            <div className='grid grid-cols-2 gap-4'>
+              <div>
+                <Label>Contact</Label>
+                <Select value={using.form.contactId} onValueChange={(contactId) => updateUseForm({ contactId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No contact</SelectItem>
+                    {contacts.map((contact) => (
+                      <SelectItem key={contact.id} value={contact.id}>
+                        {contact.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Project</Label>
+                <Select value={using.form.projectId} onValueChange={(projectId) => updateUseForm({ projectId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor='use-title'>Title</Label>
+                <Input
+                  id='use-title'
+                  value={using.form.title}
+                  onChange={(e) => updateUseForm({ title: e.target.value })}
+                  placeholder={using.template.name}
+                />
+              </div>
+              <div>
+                <Label htmlFor='use-due'>Due date</Label>
+                <Input
+                  id='use-due'
+                  type='date'
+                  value={using.form.dueDate}
+                  onChange={(e) => updateUseForm({ dueDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant='outline' onClick={closeViews}>
+                <ChevronLeft className='h-4 w-4 mr-1' />
+                Back
+              </Button>
+              <Button onClick={() => instantiateMutation.mutate(using)} disabled={instantiateMutation.isPending}>
+                Create Task
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className='space-y-3'>
+            <ScrollArea className='max-h-96'>
+              {isLoading ? (
+                <p className='text-sm text-muted-foreground'>Loading templates...</p>
+              ) : templates.length === 0 ? (
+                <p className='text-sm text-muted-foreground'>
+                  No templates yet. Create one for a workflow you repeat, like class prep or invoicing.
+                </p>
+              ) : (
+                <div className='space-y-2'>
+                  {templates.map((template) => (
+                    <div key={template.id} className='flex items-start justify-between gap-2 rounded-md border p-3'>
+                      <div className='min-w-0'>
+                        <p className='font-medium'>{template.name}</p>
+                        {template.description && (
+                          <p className='text-sm text-muted-foreground'>{template.description}</p>
+                        )}
+                        <div className='mt-1 flex flex-wrap gap-2'>
+                          <Badge variant='secondary'>
+                            {countSubtasks(template.subtasks as TemplateSubtask[])} steps
+                          </Badge>
+                          {template.recurrenceRule && (
+                            <Badge variant='outline' className='flex items-center gap-1'>
+                              <Repeat className='h-3 w-3' />
+                              {describeRecurrence(template.recurrenceRule)}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className='flex shrink-0 items-center gap-1'>
+                        <Button
+                          size='sm'
+                          onClick={() =>
+                            setUsing({ template, form: { contactId: NONE, projectId: NONE, title: '', dueDate: '' } })
+                          }
+                        >
+                          <Copy className='h-4 w-4 mr-1' />
+                          Use
+                        </Button>
+                        <Button
+                          size='icon'
+                          variant='ghost'
+                          title='Edit template'
+                          onClick={() => {
+                            setForm(toForm(template));
+                            setEditingId(template.id);
+                          }}
+                        >
+                          <Pencil className='h-4 w-4' />
+                        </Button>
+                        <Button
+                          size='icon'
+                          variant='ghost'
+                          title='Delete template'
+                          onClick={() => deleteMutation.mutate(template.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <DialogFooter>
+              <Button onClick={() => setForm({ ...EMPTY_FORM })}>
+                <Plus className='h-4 w-4 mr-1' />
+                New Template
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
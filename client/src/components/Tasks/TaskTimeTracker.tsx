@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getCsrfToken } from '@/lib/queryClient.js';
+import type { Task, TaskTimeEntry } from '@shared/schema.js';
+import { Button } from '@/components/ui/button.js';
+import { Input } from '@/components/ui/input.js';
+import { toast } from '@/hooks/use-toast.js';
+import { Play, Plus, Square, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+const TIME_ENTRIES_KEY = '/api/time-entries';
+const TIMER_KEY = '/api/time-entries/timer';
+
+async function sendJson<T>(method: string, url: string, body?: unknown): Promise<T | undefined> {
+  const csrfToken = await getCsrfToken();
+  const response = await fetch(url, {
+    method,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.status === 204 ? undefined : ((await response.json()) as T);
+}
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+/**
+ * Start/stop timer and time entered by hand for one task. Finished entries add up to the task's
+ * actual time, shown against its estimate.
+ */
+export function TaskTimeTracker({ task }: { task: Task }) {
+  const queryClient = useQueryClient();
+  const [manualMinutes, setManualMinutes] = useState('');
+  const [manualNote, setManualNote] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: entries = [] } = useQuery<TaskTimeEntry[]>({
+    queryKey: [TIME_ENTRIES_KEY, task.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `${TIME_ENTRIES_KEY}?taskId=${task.id}`);
+      return response.json() as Promise<TaskTimeEntry[]>;
+    },
+  });
+
+  const { data: runningTimer } = useQuery<TaskTimeEntry | null>({ queryKey: [TIMER_KEY] });
+  const isRunningHere = runningTimer?.taskId === task.id;
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  // Entries change the task's actual time and activity, and the running timer
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: [TIME_ENTRIES_KEY] });
+    void queryClient.invalidateQueries({ queryKey: [TIMER_KEY] });
+    void queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Failed to update time', description: error.message, variant: 'destructive' });
+  };
+
+  const timerMutation = useMutation({
+    mutationFn: (action: 'start' | 'stop') =>
+      sendJson<TaskTimeEntry>('POST', `${TIME_ENTRIES_KEY}/timer/${action}`, { taskId: task.id }),
+    onSuccess: () => {
+      setNow(Date.now());
+      refresh();
+    },
+    onError,
+  });
+
+  const addEntryMutation = useMutation({
+    mutationFn: () =>
+      sendJson<TaskTimeEntry>('POST', TIME_ENTRIES_KEY, {
+        taskId: task.id,
+        minutes: Number(manualMinutes),
+        note: manualNote.trim() ? manualNote : undefined,
+      }),
+    onSuccess: () => {
+      setManualMinutes('');
+      setManualNote('');
+      toast({ title: 'Time added' });
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (entryId: string) => sendJson('DELETE', `${TIME_ENTRIES_KEY}/${entryId}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const minutes = Number(manualMinutes);
+  const canAddManual = Number.isInteger(minutes) && minutes >= 1 && minutes <= 1440;
+  const actualMinutes = task.actualMinutes ?? 0;
+
+  return (
+    <div className='space-y-3'>
+      <div className='flex items-center justify-between'>
+        <p className='text-sm text-gray-600 dark:text-gray-400'>
+          {formatMinutes(actualMinutes)} tracked
+          {task.estimatedMinutes ? ` of ${formatMinutes(task.estimatedMinutes)} estimated` : ''}
+        </p>
+        {isRunningHere ? (
+          <Button
+            size='sm'
+            variant='destructive'
+            disabled={timerMutation.isPending}
+            onClick={() => timerMutation.mutate('stop')}
+          >
+            <Square className='h-3 w-3 mr-2' />
+            {formatElapsed(now - new Date(runningTimer.startedAt).getTime())}
+          </Button>
+        ) : (
+          <Button
+            size='sm'
+            disabled={timerMutation.isPending}
+            onClick={() => timerMutation.mutate('start')}
+          >
+            <Play className='h-3 w-3 mr-2' />
+            {runningTimer ? 'Switch timer here' : 'Start timer'}
+          </Button>
+        )}
+      </div>
+
+      <form
+        className='flex gap-2'
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (canAddManual) addEntryMutation.mutate();
+        }}
+      >
+        <Input
+          type='number'
+          min={1}
+          max={1440}
+          placeholder='Minutes'
+          value={manualMinutes}
+          onChange={(e) => setManualMinutes(e.target.value)}
+          className='w-24'
+        />
+        <Input
+          placeholder='Note (optional)'
+          value={manualNote}
+          onChange={(e) => setManualNote(e.target.value)}
+          maxLength={500}
+        />
+        <Button
+          type='submit'
+          size='sm'
+          variant='outline'
+          disabled={!canAddManual || addEntryMutation.isPending}
+        >
+          <Plus className='h-3 w-3 mr-1' />
+          Add
+        </Button>
+      </form>
+
+      {entries.length > 0 && (
+        <ul className='space-y-1 text-xs text-gray-600 dark:text-gray-400'>
+          {entries.map((entry) => (
+            <li key={entry.id} className='flex items-center gap-2'>
+              <span className='w-28'>{format(new Date(entry.startedAt), 'MMM d, HH:mm')}</span>
+              <span className='w-14 font-medium'>
+                {entry.minutes !== null ? formatMinutes(entry.minutes) : 'running'}
+              </span>
+              <span className='flex-1 truncate'>
+                {entry.note ?? (entry.source === 'manual' ? 'Entered by hand' : 'Timer')}
+              </span>
+              {entry.endedAt && (
+                <button
+                  type='button'
+                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                  className='text-gray-400 hover:text-red-600 focus:outline-none'
+                  aria-label='Delete time entry'
+                >
+                  <Trash2 className='h-3 w-3' />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+
+export interface AudioRecording {
+  blob: Blob;
+  durationSeconds: number;
+}
+
+interface UseAudioRecorderReturn {
+  isRecording: boolean;
+  error: string | null;
+  startRecording: () => Promise<void>;
+  // Resolves with the finished recording, or null if nothing was recorded
+  stopRecording: () => Promise<AudioRecording | null>;
+}
+
+/**
+ * Record audio from the microphone with MediaRecorder, for voice notes that are
+ * transcribed on the server. Unlike useVoiceInput, the audio itself is kept.
+ */
+export function useAudioRecorder(): UseAudioRecorderReturn {
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+
+  const releaseMicrophone = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+  }, []);
+
+  useEffect(() => releaseMicrophone, [releaseMicrophone]);
+
+  const startRecording = useCallback(async () => {
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices) {
+      setError("Audio recording is not supported in this browser");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setError(null);
+      setIsRecording(true);
+    } catch {
+      setError("Microphone access was denied");
+    }
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") {
+      return Promise.resolve(null);
+    }
+
+    return new Promise<AudioRecording | null>((resolve) => {
+      recorder.onstop = () => {
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || "audio/webm" });
+        releaseMicrophone();
+        setIsRecording(false);
+        resolve(
+          blob.size > 0
+            ? { blob, durationSeconds: Math.round((Date.now() - startedAtRef.current) / 1000) }
+            : null
+        );
+      };
+      recorder.stop();
+    });
+  }, [releaseMicrophone]);
+
+  return {
+    isRecording,
+    error,
+    startRecording,
+    stopRecording,
+  };
+}
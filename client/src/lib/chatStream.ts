@@ -0,0 +1,74 @@
+import { getCsrfToken } from "@/lib/queryClient.js";
+
+export interface ChatStreamResult {
+  response: string;
+  sessionId: string;
+}
+
+interface ChatStreamOptions {
+  message: string;
+  sessionId?: string | null;
+  context?: Record<string, unknown>;
+  signal?: AbortSignal;
+  onToken: (text: string) => void;
+}
+
+/**
+ * Send a chat message and read the reply as Server-Sent Events.
+ * Errors use the same "<status>: <body>" message as apiRequest, so callers can keep
+ * checking for codes such as BUDGET_EXCEEDED. Aborting the signal cancels the request.
+ */
+export async function streamChat({
+  message,
+  sessionId,
+  context,
+  signal,
+  onToken,
+}: ChatStreamOptions): Promise<ChatStreamResult> {
+  const csrfToken = await getCsrfToken(signal);
+
+  const res = await fetch("/api/ai/ai/chat/stream", {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      "X-CSRF-Token": csrfToken,
+    },
+    body: JSON.stringify({ message, ...(sessionId ? { sessionId } : {}), ...(context ? { context } : {}) }),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) ?? res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; keep any incomplete tail for the next read
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const raw of events) {
+      const event = /^event: (.*)$/m.exec(raw)?.[1];
+      const data = /^data: (.*)$/m.exec(raw)?.[1];
+      if (!event || data === undefined) continue;
+
+      if (event === "token") {
+        onToken((JSON.parse(data) as { text: string }).text);
+      } else if (event === "done") {
+        return JSON.parse(data) as ChatStreamResult;
+      } else if (event === "error") {
+        throw new Error(`${res.status}: ${data}`);
+      }
+    }
+  }
+
+  throw new Error("Chat stream ended unexpectedly");
+}
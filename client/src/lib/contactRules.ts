@@ -0,0 +1,109 @@
+/**
+ * Contact rule conditions shared by rule-based groups and lifecycle rules
+ */
+
+export type RuleField =
+  | 'lifecycleStage'
+  | 'engagementTrend'
+  | 'status'
+  | 'lastContact'
+  | 'lastSession'
+  | 'createdAt'
+  | 'sentiment'
+  | 'referralCount';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: string;
+  value: string;
+}
+
+export interface FieldConfig {
+  label: string;
+  operators: Array<{ value: string; label: string }>;
+  options?: Array<{ value: string; label: string }>;
+  numeric?: boolean;
+}
+
+const EQUALITY = [
+  { value: 'equals', label: 'is' },
+  { value: 'notEquals', label: 'is not' },
+];
+const COMPARISON = [
+  { value: 'equals', label: '=' },
+  { value: 'greaterThan', label: '>' },
+  { value: 'lessThan', label: '<' },
+];
+const DAYS = [
+  { value: 'olderThanDays', label: 'more than ... days ago' },
+  { value: 'withinDays', label: 'within the last ... days' },
+];
+
+export const LIFECYCLE_STAGES = [
+  { value: 'discovery', label: 'Discovery' },
+  { value: 'curious', label: 'Curious' },
+  { value: 'new_client', label: 'New Client' },
+  { value: 'core_client', label: 'Core Client' },
+  { value: 'ambassador', label: 'Ambassador' },
+  { value: 'needs_reconnecting', label: 'Needs Reconnecting' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'collaborator', label: 'Collaborator' },
+];
+
+// Conditions available to rule-based contact groups
+export const GROUP_FIELDS: Partial<Record<RuleField, FieldConfig>> = {
+  lifecycleStage: { label: 'Client journey', operators: EQUALITY, options: LIFECYCLE_STAGES },
+  engagementTrend: {
+    label: 'Engagement',
+    operators: EQUALITY,
+    options: [
+      { value: 'improving', label: 'Improving' },
+      { value: 'stable', label: 'Stable' },
+      { value: 'declining', label: 'Declining' },
+    ],
+  },
+  status: { label: 'Status', operators: EQUALITY },
+  lastContact: { label: 'Last contact', operators: DAYS, numeric: true },
+  createdAt: { label: 'Added', operators: DAYS, numeric: true },
+  sentiment: { label: 'Sentiment', operators: COMPARISON, numeric: true },
+  referralCount: { label: 'Referrals', operators: COMPARISON, numeric: true },
+};
+
+// Lifecycle rules can also look at the last session (meeting or attended class)
+export const LIFECYCLE_FIELDS: Partial<Record<RuleField, FieldConfig>> = {
+  ...GROUP_FIELDS,
+  lastSession: { label: 'Last session', operators: DAYS, numeric: true },
+};
+
+export const NEW_CONDITION: RuleCondition = { field: 'lifecycleStage', operator: 'equals', value: 'core_client' };
+
+export function toRules(match: 'all' | 'any', conditions: RuleCondition[]) {
+  return {
+    match,
+    conditions: conditions.map((condition) => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: LIFECYCLE_FIELDS[condition.field]?.numeric ? Number(condition.value) : condition.value,
+    })),
+  };
+}
+
+/**
+ * Stored rules back into editable conditions.
+ */
+export function fromRules(rules: { match?: string; conditions?: Array<{ field: string; operator: string; value: unknown }> }): {
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+} {
+  return {
+    match: rules.match === 'any' ? 'any' : 'all',
+    conditions: (rules.conditions ?? []).map((condition) => ({
+      field: condition.field as RuleField,
+      operator: condition.operator,
+      value: String(condition.value),
+    })),
+  };
+}
+
+export const rulesComplete = (conditions: RuleCondition[]) =>
+  conditions.every((condition) => condition.value.trim() !== '');
@@ -23,6 +23,14 @@ export async function apiRequest(
   return res;
 }
 
+// State-changing routes behind csrfProtection need this sent as the X-CSRF-Token header
+export async function getCsrfToken(signal?: AbortSignal): Promise<string> {
+  const res = await fetch("/auth/csrf-token", { credentials: "include", signal });
+  await throwIfResNotOk(res);
+  const { csrfToken } = (await res.json()) as { csrfToken: string };
+  return csrfToken;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn = <T>(opts: { on401: UnauthorizedBehavior }): QueryFunction<T | null> =>
   async (context: QueryFunctionContext): Promise<T | null> => {
@@ -0,0 +1,66 @@
+import { format } from 'date-fns';
+
+// Recurrence rules use a subset of RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"; the server validates them
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNITS: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const WORKDAYS = 'MO,TU,WE,TH,FR';
+
+export const NO_RECURRENCE = 'none';
+
+/**
+ * Common rules, phrased around the date the task is due (or today).
+ */
+export function recurrencePresets(date = new Date()): { value: string; label: string }[] {
+  const weekday = WEEKDAYS[date.getDay()];
+  const dayName = format(date, 'EEEE');
+  const dayOfMonth = date.getDate();
+  return [
+    { value: 'FREQ=DAILY', label: 'Every day' },
+    { value: `FREQ=WEEKLY;BYDAY=${WORKDAYS}`, label: 'Every weekday' },
+    { value: `FREQ=WEEKLY;BYDAY=${weekday}`, label: `Every week on ${dayName}` },
+    { value: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`, label: `Every 2 weeks on ${dayName}` },
+    { value: `FREQ=MONTHLY;BYMONTHDAY=${dayOfMonth}`, label: `Every month on day ${dayOfMonth}` },
+    { value: 'FREQ=MONTHLY;BYMONTHDAY=-1', label: 'Every month on the last day' },
+  ];
+}
+
+/**
+ * A short description such as "Every 2 weeks on Mon, Thu"; falls back to the rule itself.
+ */
+export function describeRecurrence(rule: string | null | undefined): string {
+  if (!rule) return '';
+  const parts = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.toUpperCase().split('=') as [string, string | undefined])
+  );
+  const unit = UNITS[parts.get('FREQ') ?? ''];
+  if (!unit) return rule;
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const byDay = parts.get('BYDAY');
+  const byMonthDay = parts.get('BYMONTHDAY');
+  let description = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+
+  if (byDay === WORKDAYS && interval === 1) {
+    description = 'Every weekday';
+  } else if (byDay) {
+    description += ` on ${byDay
+      .split(',')
+      .map((day) => WEEKDAY_NAMES[WEEKDAYS.indexOf(day)] ?? day)
+      .join(', ')}`;
+  } else if (byMonthDay) {
+    description += byMonthDay === '-1' ? ' on the last day' : ` on day ${byMonthDay}`;
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if (count) description += `, ${count} times`;
+  if (until && /^\d{8}/.test(until)) {
+    description += `, until ${format(new Date(+until.slice(0, 4), +until.slice(4, 6) - 1, +until.slice(6, 8)), 'MMM d, yyyy')}`;
+  }
+  return description;
+}
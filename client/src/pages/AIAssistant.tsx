@@ -6,7 +6,8 @@ import { ScrollArea } from "@/components/ui/scroll-area.js";
 import { Badge } from "@/components/ui/badge.js";
 
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient.js";
+import { apiRequest, queryClient } from "@/lib/queryClient.js";
+import { streamChat, type ChatStreamResult } from "@/lib/chatStream.js";
 import { useToast } from "@/hooks/use-toast.js";
 import {
   Bot,
@@ -19,6 +20,10 @@ import {
   Calendar,
   Mail,
   FileText,
+  MessageSquare,
+  Plus,
+  Trash2,
+  Square,
 } from "lucide-react";
 
 // Speech Recognition types
@@ -39,6 +44,32 @@ interface Message {
   timestamp: Date;
 }
 
+interface ChatSessionSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+}
+
+interface StoredChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+const ACTIVE_SESSION_KEY = "aiAssistant.activeSessionId";
+const CHAT_SESSIONS_KEY = "/api/ai/ai/chat/sessions";
+
+// Add the streamed assistant message on its first token, then keep updating it in place
+const upsertAssistantMessage = (
+  messages: Message[],
+  id: string,
+  update: (content: string) => string
+): Message[] =>
+  messages.some((message) => message.id === id)
+    ? messages.map((message) => (message.id === id ? { ...message, content: update(message.content) } : message))
+    : [...messages, { id, content: update(""), role: "assistant", timestamp: new Date() }];
+
 interface Insight {
   id: string;
   title: string;
@@ -72,9 +103,13 @@ interface UpcomingEvent {
 
 export default function AIAssistant() {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(() =>
+    localStorage.getItem(ACTIVE_SESSION_KEY)
+  );
   const [inputMessage, setInputMessage] = useState("");
   const [isListening, setIsListening] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   // Fetch AI insights
@@ -97,28 +132,110 @@ export default function AIAssistant() {
     refetchInterval: 600000, // Refetch every 10 minutes
   });
 
-  interface ChatResponse {
-    message: string;
-  }
+  // Saved conversations, most recently active first
+  const { data: chatSessions } = useQuery<ChatSessionSummary[]>({
+    queryKey: [CHAT_SESSIONS_KEY],
+    queryFn: async () => {
+      const response = await apiRequest("GET", CHAT_SESSIONS_KEY);
+      return response.json() as Promise<ChatSessionSummary[]>;
+    },
+  });
 
-  const chatMutation = useMutation({
-    mutationFn: async (message: string): Promise<ChatResponse> => {
-      const response = await apiRequest("POST", "/api/ai/chat", { message });
-      return response.json() as Promise<ChatResponse>;
+  const selectSession = (id: string | null) => {
+    setSessionId(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+      setMessages([]);
+    }
+  };
+
+  // Restore the transcript of the active conversation, including after a reload
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const loadSession = async () => {
+      try {
+        const response = await apiRequest("GET", `${CHAT_SESSIONS_KEY}/${sessionId}`);
+        const session = (await response.json()) as { messages: StoredChatMessage[] };
+        if (cancelled) return;
+        setMessages(
+          session.messages.map((message) => ({
+            id: message.id,
+            content: message.content,
+            role: message.role,
+            timestamp: new Date(message.createdAt),
+          }))
+        );
+      } catch {
+        // The session was deleted elsewhere or is not ours; start fresh
+        if (!cancelled) selectSession(null);
+      }
+    };
+
+    void loadSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `${CHAT_SESSIONS_KEY}/${id}`);
+      return id;
     },
-    onSuccess: (response: ChatResponse) => {
-      const assistantMessage: Message = {
-        id: Date.now().toString() + "_assistant",
-        content: response.message,
-        role: "assistant",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
+    onSuccess: (id: string) => {
+      if (id === sessionId) selectSession(null);
+      void queryClient.invalidateQueries({ queryKey: [CHAT_SESSIONS_KEY] });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to get AI response. Please try again.",
+        description: "Failed to delete conversation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chatMutation = useMutation({
+    mutationFn: async (message: string): Promise<ChatStreamResult> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const assistantId = Date.now().toString() + "_assistant";
+
+      try {
+        const response = await streamChat({
+          message,
+          sessionId,
+          signal: controller.signal,
+          onToken: (text) =>
+            setMessages((prev) => upsertAssistantMessage(prev, assistantId, (content) => content + text)),
+        });
+        // The final event carries the reply as saved, which replaces the raw streamed text
+        setMessages((prev) => upsertAssistantMessage(prev, assistantId, () => response.response));
+        return response;
+      } finally {
+        abortControllerRef.current = null;
+      }
+    },
+    onSuccess: (response: ChatStreamResult) => {
+      if (response.sessionId !== sessionId) {
+        setSessionId(response.sessionId);
+        localStorage.setItem(ACTIVE_SESSION_KEY, response.sessionId);
+      }
+      void queryClient.invalidateQueries({ queryKey: [CHAT_SESSIONS_KEY] });
+    },
+    onError: (error: Error) => {
+      // Stopped by the user; whatever was streamed stays on screen but is not saved
+      if (error.name === "AbortError") return;
+      const budgetExceeded = error.message.includes("BUDGET_EXCEEDED");
+      toast({
+        title: budgetExceeded ? "AI budget reached" : "Error",
+        description: budgetExceeded
+          ? "Your AI spending limit has been reached. Adjust it in Settings or try again later."
+          : "Failed to get AI response. Please try again.",
         variant: "destructive",
       });
     },
@@ -135,6 +252,10 @@ export default function AIAssistant() {
     }
   }, [messages]);
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSendMessage = () => {
     if (!inputMessage.trim()) return;
 
@@ -260,8 +381,17 @@ export default function AIAssistant() {
         </div>
 
         <Card className="flex-1 flex flex-col min-h-0">
-          <CardHeader className="pb-3">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
             <CardTitle className="text-lg">Chat with AI</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectSession(null)}
+              disabled={chatMutation.isPending || (!sessionId && messages.length === 0)}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New chat
+            </Button>
           </CardHeader>
           <CardContent className="flex-1 flex flex-col p-0 min-h-0">
             <ScrollArea className="flex-1 px-4 lg:px-6">
@@ -309,7 +439,7 @@ export default function AIAssistant() {
                   </div>
                 ))}
 
-                {chatMutation.isPending && (
+                {chatMutation.isPending && messages[messages.length - 1]?.role !== "assistant" && (
                   <div className="flex justify-start">
                     <div className="bg-muted rounded-lg px-4 py-2">
                       <div className="flex items-center space-x-2">
@@ -346,12 +476,15 @@ export default function AIAssistant() {
                     <Mic className="h-4 w-4" />
                   )}
                 </Button>
-                <Button
-                  onClick={handleSendMessage}
-                  disabled={!inputMessage.trim() || chatMutation.isPending}
-                >
-                  <Send className="h-4 w-4" />
-                </Button>
+                {chatMutation.isPending ? (
+                  <Button onClick={stopGenerating} variant="outline" aria-label="Stop generating">
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button onClick={handleSendMessage} disabled={!inputMessage.trim()}>
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </CardContent>
@@ -360,6 +493,58 @@ export default function AIAssistant() {
 
       {/* Insights & Events Sidebar */}
       <div className="w-full lg:w-80 lg:shrink-0 lg:max-h-full space-y-4">
+        {/* Saved Conversations */}
+        <Card className="lg:h-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5 text-teal-600" />
+              Conversations
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-40">
+              <div className="space-y-1">
+                {chatSessions && chatSessions.length > 0 ? (
+                  chatSessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className={`group flex items-center gap-2 rounded-md px-2 py-1.5 ${
+                        session.id === sessionId ? "bg-teal-50 dark:bg-teal-950" : "hover:bg-muted"
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => selectSession(session.id)}
+                        disabled={chatMutation.isPending}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-sm truncate">{session.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(session.updatedAt).toLocaleDateString()}
+                        </p>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                        onClick={() => deleteSessionMutation.mutate(session.id)}
+                        disabled={deleteSessionMutation.isPending}
+                        aria-label="Delete conversation"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    Your conversations will appear here
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
         {/* Upcoming Events */}
         <Card className="lg:h-auto">
           <CardHeader>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { Plus, Mail, Phone, MessageSquare, Edit } from 'lucide-react';
+import { Plus, Mail, Phone, MessageSquare, Edit, Upload, Users, Tags } from 'lucide-react';
 
 import { Button } from '@/components/ui/button.js';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
@@ -15,6 +15,8 @@ import { AIPhotoReview } from '@/components/Contact/AIPhotoReview.js';
 import { DeleteContactDialog } from '@/components/Contact/DeleteContactDialog.js';
 import { EditContactModal } from '@/components/Contact/EditContactModal.js';
 import { TagSelectionDialog } from '@/components/Contact/TagSelectionDialog.js';
+import { ContactImportWizard } from '@/components/Contact/ContactImportWizard.js';
+import { ContactGroupsDialog } from '@/components/Contact/ContactGroupsDialog.js';
 import { useToast } from '@/hooks/use-toast.js';
 import type { Contact } from '@/components/Contact/ContactsTable.js';
 
@@ -28,10 +30,13 @@ interface TagData {
 export default function Contacts() {
   const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [groupsDialog, setGroupsDialog] = useState<{ contactIds?: string[] } | null>(null);
   
   const [deleteContact, setDeleteContact] = useState<Contact | null>(null);
   const [editContact, setEditContact] = useState<Contact | null>(null);
   const [tagAction, setTagAction] = useState<{ type: 'add' | 'remove'; contactIds: string[] } | null>(null);
+  const [showTagManager, setShowTagManager] = useState(false);
   const [photoUploadContact, setPhotoUploadContact] = useState<Contact | null>(null);
   const [aiPhotoReviewContact, setAiPhotoReviewContact] = useState<Contact | null>(null);
   const { toast } = useToast();
@@ -191,6 +196,9 @@ export default function Contacts() {
       case 'remove_tag':
         setTagAction({ type: 'remove', contactIds });
         break;
+      case 'add_to_group':
+        setGroupsDialog({ contactIds });
+        break;
       case 'delete':
         // TODO: Implement bulk delete with confirmation
         toast({
@@ -333,6 +341,7 @@ export default function Contacts() {
             // Convert all null values to undefined per DATA_DOCTRINE
             const editableContact = {
               ...baseContact,
+              emailAliases: Array.isArray(baseContact.emailAliases) ? baseContact.emailAliases as string[] : undefined,
               phone: baseContact.phone ?? undefined,
               avatarUrl: baseContact.avatarUrl ?? undefined,
               lastContact: baseContact.lastContact ? baseContact.lastContact.toISOString() : undefined,
@@ -372,6 +381,20 @@ export default function Contacts() {
             Manage your client relationships and interactions
           </p>
         </div>
+        <div className='flex items-center gap-2'>
+          <Button variant='outline' onClick={() => setGroupsDialog({})} className='flex items-center gap-2'>
+            <Users className='h-4 w-4' />
+            Groups
+          </Button>
+          <Button variant='outline' onClick={() => setShowTagManager(true)} className='flex items-center gap-2'>
+            <Tags className='h-4 w-4' />
+            Tags
+          </Button>
+          <Button variant='outline' onClick={() => setShowImportWizard(true)} className='flex items-center gap-2'>
+            <Upload className='h-4 w-4' />
+            Import Contacts
+          </Button>
+        </div>
       </div>
 
 
@@ -492,6 +515,12 @@ _onExportData={handleExportData}
       )}
 
       <AddContactDialog open={showAddDialog} onOpenChange={setShowAddDialog} />
+      <ContactImportWizard open={showImportWizard} onOpenChange={setShowImportWizard} />
+      <ContactGroupsDialog
+        open={!!groupsDialog}
+        onOpenChange={(open) => !open && setGroupsDialog(null)}
+        contactIds={groupsDialog?.contactIds}
+      />
       
       {/* Photo Upload Dialog */}
       {photoUploadContact && (
@@ -531,11 +560,11 @@ _onExportData={handleExportData}
       <TagSelectionDialog
         open={!!tagAction}
         onOpenChange={(open) => !open && setTagAction(null)}
-onTagSelected={(tag) => {
+        onTagSelected={(tag) => {
           if (tagAction) {
             // Create a TagData object with the proper interface
             const tagData: TagData = {
-              id: 'temp-id',
+              id: tag.id,
               name: tag.name,
               color: tag.color,
             };
@@ -554,6 +583,15 @@ onTagSelected={(tag) => {
             : `Select a tag to remove from ${tagAction?.contactIds.length ?? 0} selected contact(s).`
         }
       />
+
+      {/* Tag Management Dialog */}
+      <TagSelectionDialog
+        open={showTagManager}
+        onOpenChange={setShowTagManager}
+        mode='manage'
+        title='Manage Tags'
+        description='Rename, recolor, merge or delete tags. Changes apply to every contact and task using them.'
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import StatsCards from "@/components/Dashboard/StatsCards.js";
 import ContactCards from "@/components/Dashboard/ContactCards.js";
 import AIAssistant from "@/components/Dashboard/AIAssistant.js";
 import PhotoEnrichment from "@/components/Dashboard/PhotoEnrichment.js";
+import TopAmbassadors from "@/components/Dashboard/TopAmbassadors.js";
 
 export default function Dashboard() {
   return (
@@ -20,6 +21,7 @@ export default function Dashboard() {
           <ContactCards />
         </div>
         <div className="space-y-6">
+          <TopAmbassadors />
           <PhotoEnrichment />
           <AIAssistant />
         </div>
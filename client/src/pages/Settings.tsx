@@ -26,11 +26,17 @@ import {
   Eye,
   ExternalLink,
   Clock,
+  Wallet,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { apiRequest } from '@/lib/queryClient.js';
 import { Checkbox } from '@/components/ui/checkbox.js';
 import { Label } from '@/components/ui/label.js';
+import { Input } from '@/components/ui/input.js';
+import DocumentReviewQueue from '@/components/DocumentReviewQueue.js';
+import AttendanceFolderSettings from '@/components/AttendanceFolderSettings.js';
+import AttendanceImportCard from '@/components/AttendanceImportCard.js';
+import LifecycleRulesSettings from '@/components/LifecycleRulesSettings.js';
 import {
   Select,
   SelectContent,
@@ -67,6 +73,15 @@ const handleExportData = async () => {
   }
 };
 
+type BudgetPolicy = 'block' | 'downgrade' | 'queue';
+
+interface LlmBudget {
+  dailyLimit: number;
+  monthlyLimit: number;
+  alertThreshold: number;
+  policy: BudgetPolicy;
+}
+
 const handleDeleteAccount = () => {
   // TODO: Implement account deletion
   // Account deletion functionality to be implemented
@@ -82,6 +97,11 @@ export default function Settings() {
   const [syncMonths, setSyncMonths] = useState(12);
   const [usePremiumModel, setUsePremiumModel] = useState(false);
 
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [budgetPolicy, setBudgetPolicy] = useState<BudgetPolicy>('block');
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+
   const [syncStats, setSyncStats] = useState<{
     totalEvents: number;
     processedEvents: number;
@@ -164,6 +184,53 @@ export default function Settings() {
     }
   };
 
+  const fetchBudget = async () => {
+    try {
+      const response = await apiRequest('GET', '/api/ai/llm/budget');
+      const data = (await response.json()) as { budget: LlmBudget | null };
+      if (data.budget) {
+        setDailyLimit(String(data.budget.dailyLimit));
+        setMonthlyLimit(String(data.budget.monthlyLimit));
+        setBudgetPolicy(data.budget.policy);
+      }
+    } catch {
+      // Error logging removed per DATA_DOCTRINE - no console statements in production
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    const daily = Number(dailyLimit || 0);
+    const monthly = Number(monthlyLimit || 0);
+    if (Number.isNaN(daily) || Number.isNaN(monthly) || daily < 0 || monthly < 0) {
+      alert('Spending caps must be positive amounts.');
+      return;
+    }
+
+    setIsSavingBudget(true);
+    try {
+      const csrfResponse = await fetch('/auth/csrf-token', { credentials: 'include' });
+      const { csrfToken } = (await csrfResponse.json()) as { csrfToken: string };
+
+      const response = await fetch('/api/ai/llm/set-budget', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        body: JSON.stringify({ dailyLimit: daily, monthlyLimit: monthly, policy: budgetPolicy }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save budget');
+      }
+      alert('AI spending limits saved.');
+    } catch {
+      alert('Failed to save AI spending limits. Please try again.');
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
   const handleGdprConsentChange = async (checked: boolean) => {
     setIsUpdatingConsent(true);
     try {
@@ -206,6 +273,7 @@ export default function Settings() {
     void fetchUnprocessedCount();
     void fetchUserProfile();
     void fetchSyncStats();
+    void fetchBudget();
   }, []);
 
   return (
@@ -281,6 +349,18 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Drive Document Review */}
+        <DocumentReviewQueue />
+
+        {/* Drive Attendance Sheets */}
+        <AttendanceFolderSettings />
+
+        {/* Attendance Sheet Import */}
+        <AttendanceImportCard />
+
+        {/* Lifecycle Stage Rules */}
+        <LifecycleRulesSettings />
+
         {/* Calendar Data Management */}
         <Card>
           <CardHeader>
@@ -432,6 +512,71 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* AI Spending Limits */}
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center gap-2'>
+              <Wallet className='h-5 w-5' />
+              AI Spending Limits
+            </CardTitle>
+            <CardDescription>
+              Cap what AI features can spend each day and month. Leave a cap at 0 for no limit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            <div className='grid gap-4 md:grid-cols-2'>
+              <div className='space-y-2'>
+                <Label htmlFor='daily-limit'>Daily cap (USD)</Label>
+                <Input
+                  id='daily-limit'
+                  type='number'
+                  min='0'
+                  step='0.01'
+                  value={dailyLimit}
+                  onChange={(e) => setDailyLimit(e.target.value)}
+                  placeholder='0.00'
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='monthly-limit'>Monthly cap (USD)</Label>
+                <Input
+                  id='monthly-limit'
+                  type='number'
+                  min='0'
+                  step='0.01'
+                  value={monthlyLimit}
+                  onChange={(e) => setMonthlyLimit(e.target.value)}
+                  placeholder='0.00'
+                />
+              </div>
+            </div>
+            <div className='space-y-2'>
+              <Label>When a cap is reached</Label>
+              <Select
+                value={budgetPolicy}
+                onValueChange={(value) => setBudgetPolicy(value as BudgetPolicy)}
+              >
+                <SelectTrigger className='md:w-80'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='block'>Block AI requests</SelectItem>
+                  <SelectItem value='downgrade'>Switch to the free model</SelectItem>
+                  <SelectItem value='queue'>Hold background work until the next period</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSaveBudget} disabled={isSavingBudget} size='sm'>
+              {isSavingBudget ? (
+                <RefreshCw className='h-4 w-4 mr-2 animate-spin' />
+              ) : (
+                <Brain className='h-4 w-4 mr-2' />
+              )}
+              {isSavingBudget ? 'Saving...' : 'Save Limits'}
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Privacy & GDPR Settings */}
         <Card>
           <CardHeader>
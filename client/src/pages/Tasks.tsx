@@ -35,6 +35,10 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu.js';
 import { toast } from '@/hooks/use-toast.js';
+import { TaskTemplatesDialog } from '@/components/Tasks/TaskTemplatesDialog.js';
+import { TaskBoard } from '@/components/Tasks/TaskBoard.js';
+import { TaskDetailDrawer } from '@/components/Tasks/TaskDetailDrawer.js';
+import { describeRecurrence, NO_RECURRENCE, recurrencePresets } from '@/lib/recurrence.js';
 import {
   Plus,
   Calendar as CalendarIcon,
@@ -49,6 +53,9 @@ import {
   TrendingUp,
   AlertCircle,
   Search,
+  Repeat,
+  LayoutTemplate,
+  Kanban,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -65,6 +72,7 @@ interface TasksTabProps {
   setSelectedProjectFilter: (filter: string) => void;
   getPriorityColor: (priority: string | null | undefined) => string;
   getStatusColor: (status: string | null | undefined) => string;
+  onViewDetails: (task: Task) => void;
 }
 
 interface TaskUpdateData {
@@ -84,7 +92,9 @@ export default function Tasks() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateTask, setShowCreateTask] = useState(false);
   const [showCreateProject, setShowCreateProject] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [selectedProjectFilter, setSelectedProjectFilter] = useState('all');
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
 
   // Fetch data
   const { data: tasks = [], isLoading: tasksLoading } = useQuery<Task[]>({
@@ -185,6 +195,12 @@ export default function Tasks() {
           </p>
         </div>
         <div className='flex gap-2'>
+          <Button variant='outline' onClick={() => setShowTemplates(true)}>
+            <LayoutTemplate className='h-4 w-4 mr-2' />
+            Templates
+          </Button>
+          <TaskTemplatesDialog open={showTemplates} onOpenChange={setShowTemplates} projects={projects} />
+
           <Dialog open={showCreateProject} onOpenChange={setShowCreateProject}>
             <DialogTrigger asChild>
               <Button variant='outline'>
@@ -261,11 +277,15 @@ export default function Tasks() {
       )}
 
       <Tabs value={selectedTab} onValueChange={setSelectedTab} className='w-full'>
-        <TabsList className='grid w-full grid-cols-3'>
+        <TabsList className='grid w-full grid-cols-4'>
           <TabsTrigger value='tasks' className='flex items-center gap-2'>
             <CheckCircle className='h-4 w-4' />
             Tasks
           </TabsTrigger>
+          <TabsTrigger value='board' className='flex items-center gap-2'>
+            <Kanban className='h-4 w-4' />
+            Board
+          </TabsTrigger>
           <TabsTrigger value='suggestions' className='flex items-center gap-2'>
             <Lightbulb className='h-4 w-4' />
             AI Suggestions (
@@ -290,6 +310,17 @@ export default function Tasks() {
             setSelectedProjectFilter={setSelectedProjectFilter}
             getPriorityColor={getPriorityColor}
             getStatusColor={getStatusColor}
+            onViewDetails={(task) => setSelectedTaskId(task.id)}
+          />
+        </TabsContent>
+
+        <TabsContent value='board' className='mt-6'>
+          <TaskBoard
+            tasks={tasks}
+            projects={projects}
+            isLoading={tasksLoading}
+            getPriorityColor={getPriorityColor}
+            onSelectTask={(task) => setSelectedTaskId(task.id)}
           />
         </TabsContent>
 
@@ -301,6 +332,12 @@ export default function Tasks() {
           <ProjectsTab projects={projects} />
         </TabsContent>
       </Tabs>
+
+      <TaskDetailDrawer
+        task={tasks.find((task) => task.id === selectedTaskId)}
+        onOpenChange={(open) => !open && setSelectedTaskId(null)}
+        getStatusColor={getStatusColor}
+      />
     </div>
   );
 }
@@ -318,6 +355,7 @@ function TasksTab({
   setSelectedProjectFilter,
   getPriorityColor,
   getStatusColor,
+  onViewDetails,
 }: TasksTabProps) {
   const queryClient = useQueryClient();
 
@@ -461,6 +499,13 @@ function TasksTab({
                           </div>
                         )}
 
+                        {task.recurrenceRule && (
+                          <div className='flex items-center gap-1'>
+                            <Repeat className='h-3 w-3' />
+                            {describeRecurrence(task.recurrenceRule)}
+                          </div>
+                        )}
+
                         {task.assignedContactIds && 
                          Array.isArray(task.assignedContactIds) && 
                          task.assignedContactIds.length > 0 ? (
@@ -488,7 +533,7 @@ function TasksTab({
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align='end'>
                       <DropdownMenuItem onClick={() => {}}>Edit Task</DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => {}}>View Details</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onViewDetails(task)}>View Details</DropdownMenuItem>
                       <DropdownMenuItem className='text-red-600'>Delete Task</DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
@@ -622,6 +667,7 @@ function CreateTaskDialog({ projects, onClose }: { projects: Project[]; onClose:
   const [priority, setPriority] = useState('medium');
   const [projectId, setProjectId] = useState('');
   const [dueDate, setDueDate] = useState<Date>();
+  const [recurrenceRule, setRecurrenceRule] = useState(NO_RECURRENCE);
   const [delegateToAI, setDelegateToAI] = useState(false);
 
   const queryClient = useQueryClient();
@@ -652,6 +698,7 @@ function CreateTaskDialog({ projects, onClose }: { projects: Project[]; onClose:
       owner: (delegateToAI ? 'ai_assistant' : 'user') as 'user' | 'ai_assistant',
       projectId: projectId || undefined,
       dueDate: dueDate ?? undefined,
+      recurrenceRule: recurrenceRule === NO_RECURRENCE ? undefined : recurrenceRule,
       status: 'pending' as const,
     };
 
@@ -737,6 +784,23 @@ function CreateTaskDialog({ projects, onClose }: { projects: Project[]; onClose:
           </Popover>
         </div>
 
+        <div>
+          <Label>Repeat</Label>
+          <Select value={recurrenceRule} onValueChange={setRecurrenceRule}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_RECURRENCE}>Doesn&apos;t repeat</SelectItem>
+              {recurrencePresets(dueDate).map((preset) => (
+                <SelectItem key={preset.value} value={preset.value}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className='flex items-center space-x-2'>
           <Switch id='delegate' checked={delegateToAI} onCheckedChange={setDelegateToAI} />
           <Label htmlFor='delegate' className='flex items-center gap-2'>
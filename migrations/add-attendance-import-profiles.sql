@@ -0,0 +1,20 @@
+-- Migration: Saved column mappings for attendance imports
+-- Booking systems export attendance with different headers; a profile records which
+-- column holds each field so a studio's exports can be imported without editing them
+
+CREATE TABLE IF NOT EXISTS "attendance_import_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"column_mapping" jsonb NOT NULL,
+	"attended_statuses" jsonb,
+	"date_format" text,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "attendance_import_profiles" ADD CONSTRAINT "attendance_import_profiles_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "attendance_import_profiles_user_id_idx" ON "attendance_import_profiles" ("user_id");
@@ -0,0 +1,24 @@
+-- Migration: Watch a Drive folder for class attendance sheets
+-- The chosen folder is stored on the user; each sheet revision gets one data processing
+-- job, so the unique index is what keeps a revision from being processed twice
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "attendance_folder_id" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "attendance_folder_name" text;
+
+-- Keep the oldest job for any sheet revision that was already processed more than once
+DELETE FROM "data_processing_jobs" AS "duplicate"
+USING "data_processing_jobs" AS "original"
+WHERE "duplicate"."job_type" = 'attendance_csv'
+  AND "duplicate"."source_type" IN ('google_drive', 'local_folder')
+  AND "original"."user_id" = "duplicate"."user_id"
+  AND "original"."job_type" = "duplicate"."job_type"
+  AND "original"."source_type" IN ('google_drive', 'local_folder')
+  AND "original"."source_reference" = "duplicate"."source_reference"
+  AND ("original"."created_at", "original"."id") < ("duplicate"."created_at", "duplicate"."id");
+
+-- Only watched attendance sheets are keyed by revision; manual uploads, photo batches and
+-- other jobs may legitimately repeat a source reference
+DROP INDEX IF EXISTS "data_processing_jobs_source_idx";
+CREATE UNIQUE INDEX IF NOT EXISTS "data_processing_jobs_source_idx"
+ON "data_processing_jobs" ("user_id", "job_type", "source_reference")
+WHERE "job_type" = 'attendance_csv' AND "source_type" IN ('google_drive', 'local_folder');
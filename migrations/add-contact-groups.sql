@@ -0,0 +1,35 @@
+-- Migration: Contact groups as per-user segments
+-- contact_groups existed without an owner or members; groups are now either static, with
+-- hand-picked members, or rule-based, with members matched from the group's rules when read
+
+-- Groups created before they had an owner cannot be attributed to anyone
+DELETE FROM "contact_groups";
+
+ALTER TABLE "contact_groups" DROP CONSTRAINT IF EXISTS "contact_groups_name_unique";
+ALTER TABLE "contact_groups" ADD COLUMN IF NOT EXISTS "user_id" uuid NOT NULL;
+ALTER TABLE "contact_groups" ADD COLUMN IF NOT EXISTS "group_type" text DEFAULT 'static' NOT NULL;
+ALTER TABLE "contact_groups" ADD COLUMN IF NOT EXISTS "rules" jsonb;
+ALTER TABLE "contact_groups" ADD COLUMN IF NOT EXISTS "color" text;
+ALTER TABLE "contact_groups" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+
+ALTER TABLE "contact_groups" ADD CONSTRAINT "contact_groups_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "contact_groups_user_id_idx" ON "contact_groups" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "contact_groups_user_name_idx" ON "contact_groups" ("user_id", "name");
+
+CREATE TABLE IF NOT EXISTS "contact_group_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"group_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "contact_group_members" ADD CONSTRAINT "contact_group_members_group_id_contact_groups_id_fk"
+FOREIGN KEY ("group_id") REFERENCES "contact_groups"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "contact_group_members" ADD CONSTRAINT "contact_group_members_contact_id_contacts_id_fk"
+FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "contact_group_members_group_contact_idx" ON "contact_group_members" ("group_id", "contact_id");
+CREATE INDEX IF NOT EXISTS "contact_group_members_contact_id_idx" ON "contact_group_members" ("contact_id");
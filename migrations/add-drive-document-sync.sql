@@ -0,0 +1,23 @@
+-- Migration: Contact matching and incremental sync for Drive documents
+-- Documents are now owned by a user so files that match no contact can wait in a
+-- review queue; the Drive changes page token is kept on sync_status
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "user_id" uuid;
+UPDATE "documents" SET "user_id" = "contacts"."user_id"
+FROM "contacts" WHERE "documents"."contact_id" = "contacts"."id" AND "documents"."user_id" IS NULL;
+ALTER TABLE "documents" ALTER COLUMN "user_id" SET NOT NULL;
+ALTER TABLE "documents" ALTER COLUMN "contact_id" DROP NOT NULL;
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "drive_modified_time" timestamp;
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "match_method" text;
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "review_status" text DEFAULT 'matched' NOT NULL;
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+
+ALTER TABLE "documents" ADD CONSTRAINT "documents_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "sync_status" ADD COLUMN IF NOT EXISTS "sync_token" text;
+
+-- A Drive file maps to at most one document per user; the second index serves the review queue
+CREATE UNIQUE INDEX IF NOT EXISTS "documents_user_id_drive_id_idx" ON "documents" ("user_id", "drive_id");
+CREATE INDEX IF NOT EXISTS "documents_review_status_idx" ON "documents" ("user_id", "review_status");
@@ -0,0 +1,25 @@
+-- Migration: Link synced emails to every contact in the thread
+-- Contacts can list the other addresses they write from, and each email records which known
+-- contacts sent or received it
+
+ALTER TABLE "contacts" ADD COLUMN IF NOT EXISTS "email_aliases" jsonb;
+
+CREATE TABLE IF NOT EXISTS "email_contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "email_contacts" ADD CONSTRAINT "email_contacts_email_id_emails_id_fk"
+FOREIGN KEY ("email_id") REFERENCES "emails"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "email_contacts" ADD CONSTRAINT "email_contacts_contact_id_contacts_id_fk"
+FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "email_contacts_email_contact_idx" ON "email_contacts" ("email_id", "contact_id");
+CREATE INDEX IF NOT EXISTS "email_contacts_contact_id_idx" ON "email_contacts" ("contact_id");
+
+-- Gmail interactions are kept once per contact and thread
+CREATE INDEX IF NOT EXISTS "interactions_contact_source_idx" ON "interactions" ("contact_id", "source", "source_id");
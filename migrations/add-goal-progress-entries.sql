@@ -0,0 +1,24 @@
+-- Migration: Keep a history of goal progress
+-- Updating a goal's current value used to overwrite it in place; each recorded value is now kept
+-- so progress can be charted over time. Existing goals start their history with their current value.
+
+CREATE TABLE IF NOT EXISTS "goal_progress_entries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "goal_id" uuid NOT NULL,
+  "value" integer NOT NULL,
+  "note" text,
+  "recorded_at" timestamp DEFAULT now() NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "goal_progress_entries" ADD CONSTRAINT "goal_progress_entries_goal_id_goals_id_fk"
+FOREIGN KEY ("goal_id") REFERENCES "goals"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "goal_progress_entries_goal_id_recorded_at_idx"
+ON "goal_progress_entries" ("goal_id", "recorded_at");
+
+INSERT INTO "goal_progress_entries" ("goal_id", "value", "recorded_at")
+SELECT "id", "current_value", "updated_at" FROM "goals"
+WHERE NOT EXISTS (
+  SELECT 1 FROM "goal_progress_entries" WHERE "goal_progress_entries"."goal_id" = "goals"."id"
+);
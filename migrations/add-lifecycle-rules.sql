@@ -0,0 +1,25 @@
+-- Migration: Rules for automatic lifecycle-stage transitions
+-- Each rule matches contacts with the same conditions as rule-based contact groups (plus the
+-- date of their last session) and either suggests or applies a move to its target stage.
+
+CREATE TABLE IF NOT EXISTS "lifecycle_rules" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "name" text NOT NULL,
+  "rules" jsonb NOT NULL,
+  "target_stage" "lifecycle_stage" NOT NULL,
+  "mode" text DEFAULT 'suggest' NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "priority" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "lifecycle_rules" ADD CONSTRAINT "lifecycle_rules_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "lifecycle_rules_user_id_idx" ON "lifecycle_rules" ("user_id");
+
+-- Sessions are found from meeting and class attendance interactions
+CREATE INDEX IF NOT EXISTS "interactions_contact_type_timestamp_idx"
+ON "interactions" ("contact_id", "type", "timestamp");
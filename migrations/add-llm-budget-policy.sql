@@ -0,0 +1,6 @@
+-- Migration: Add enforcement policy to LLM budgets
+-- Decides what happens to a request once a daily or monthly cap is reached:
+-- block it, downgrade it to the free model, or queue it until the next period
+
+ALTER TABLE "llm_budgets"
+ADD COLUMN IF NOT EXISTS "policy" text DEFAULT 'block' NOT NULL;
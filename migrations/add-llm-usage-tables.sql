@@ -0,0 +1,52 @@
+-- Migration: Persist LLM usage, budgets and cost alerts
+-- Previously held in process memory by LLMCostTracker, so every deploy
+-- wiped spend history and reset the cost-analysis numbers
+
+CREATE TABLE IF NOT EXISTS "llm_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"model" text NOT NULL,
+	"operation" text NOT NULL,
+	"input_tokens" integer NOT NULL,
+	"output_tokens" integer NOT NULL,
+	"cost" double precision NOT NULL,
+	"request_id" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "llm_budgets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"daily_limit" double precision NOT NULL,
+	"monthly_limit" double precision NOT NULL,
+	"alert_threshold" integer DEFAULT 80 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "llm_budgets_user_id_unique" UNIQUE("user_id")
+);
+
+CREATE TABLE IF NOT EXISTS "llm_cost_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"alert_type" text NOT NULL,
+	"threshold" double precision NOT NULL,
+	"current_value" double precision NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+ALTER TABLE "llm_budgets" ADD CONSTRAINT "llm_budgets_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+ALTER TABLE "llm_cost_alerts" ADD CONSTRAINT "llm_cost_alerts_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Indexes for per-user spend rollups
+CREATE INDEX IF NOT EXISTS "llm_usage_user_id_idx" ON "llm_usage" ("user_id");
+CREATE INDEX IF NOT EXISTS "llm_usage_timestamp_idx" ON "llm_usage" ("timestamp");
+CREATE INDEX IF NOT EXISTS "llm_cost_alerts_user_id_idx" ON "llm_cost_alerts" ("user_id");
+
+-- One alert per limit per day or month
+CREATE UNIQUE INDEX IF NOT EXISTS "llm_cost_alerts_period_idx"
+ON "llm_cost_alerts" ("user_id", "alert_type", "period_start");
@@ -0,0 +1,24 @@
+-- Migration: Add processed email threads table for deduplication
+-- Tracks which Gmail threads have been analyzed by the LLM, so a thread is only analyzed
+-- again once a new message changes its hash
+
+CREATE TABLE IF NOT EXISTS "processed_email_threads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"gmail_thread_id" text NOT NULL,
+	"thread_hash" text NOT NULL,
+	"processed_at" timestamp DEFAULT now() NOT NULL,
+	"is_relevant" boolean DEFAULT false NOT NULL,
+	"analysis" jsonb,
+	"llm_model" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "processed_email_threads" ADD CONSTRAINT "processed_email_threads_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "processed_email_threads_user_thread_idx" ON "processed_email_threads" ("user_id", "gmail_thread_id");
+
+-- Messages of a thread are read together when it is analyzed
+CREATE INDEX IF NOT EXISTS "emails_user_thread_idx" ON "emails" ("user_id", "gmail_thread_id");
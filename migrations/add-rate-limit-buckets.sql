@@ -0,0 +1,12 @@
+-- Migration: Add rate_limit_buckets table for persistent rate limiting
+-- Backs the Postgres rate limit store so limits survive restarts and are
+-- shared between server instances (RATE_LIMIT_STORE=postgres)
+
+CREATE TABLE IF NOT EXISTS "rate_limit_buckets" (
+	"key" text PRIMARY KEY NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+
+-- Idle buckets are swept periodically by last use
+CREATE INDEX IF NOT EXISTS "rate_limit_buckets_updated_at_idx" ON "rate_limit_buckets" ("updated_at");
@@ -0,0 +1,29 @@
+-- Migration: Recurring tasks and task templates
+-- A recurring task carries an RRULE-style rule; when it is completed, or its date passes, the next
+-- instance of the series is created. Templates hold a task and its subtask tree so repeated
+-- workflows (client check-ins, class prep, invoicing) can be started for a contact or project.
+
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "recurrence_rule" text;
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "recurrence_series_id" uuid;
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "next_occurrence_created_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "tasks_recurrence_series_id_idx" ON "tasks" ("recurrence_series_id");
+
+CREATE TABLE IF NOT EXISTS "task_templates" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "name" text NOT NULL,
+  "description" text,
+  "priority" "task_priority" DEFAULT 'medium',
+  "estimated_minutes" integer,
+  "due_in_days" integer,
+  "recurrence_rule" text,
+  "subtasks" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "task_templates" ADD CONSTRAINT "task_templates_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "task_templates_user_id_idx" ON "task_templates" ("user_id");
@@ -0,0 +1,29 @@
+-- Migration: Referrals between contacts
+-- Records who referred whom, when, through which channel and whether the referrer was rewarded.
+-- contacts.referral_count stays as the number of referrals each contact made.
+
+CREATE TABLE IF NOT EXISTS "referrals" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "referrer_id" uuid NOT NULL,
+  "referred_id" uuid NOT NULL,
+  "referred_at" timestamp DEFAULT now() NOT NULL,
+  "source" text,
+  "reward_status" text DEFAULT 'none' NOT NULL,
+  "notes" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referrer_id_contacts_id_fk"
+FOREIGN KEY ("referrer_id") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referred_id_contacts_id_fk"
+FOREIGN KEY ("referred_id") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "referrals_referred_id_idx" ON "referrals" ("referred_id");
+CREATE INDEX IF NOT EXISTS "referrals_referrer_id_idx" ON "referrals" ("referrer_id");
+CREATE INDEX IF NOT EXISTS "referrals_user_id_idx" ON "referrals" ("user_id");
@@ -0,0 +1,28 @@
+-- Migration: Sentiment history per contact
+-- Each scored interaction or email gets a rating row, so a contact's sentiment can be followed over
+-- time and their engagement trend derived from it. Interactions already rated are backfilled.
+
+CREATE TABLE IF NOT EXISTS "sentiment_scores" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "contact_id" uuid NOT NULL,
+  "source" text NOT NULL,
+  "source_id" uuid NOT NULL,
+  "rating" integer NOT NULL,
+  "confidence" double precision,
+  "recorded_at" timestamp NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "sentiment_scores" ADD CONSTRAINT "sentiment_scores_contact_id_contacts_id_fk"
+FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "sentiment_scores_contact_source_idx"
+ON "sentiment_scores" ("contact_id", "source", "source_id");
+
+CREATE INDEX IF NOT EXISTS "sentiment_scores_contact_id_recorded_at_idx"
+ON "sentiment_scores" ("contact_id", "recorded_at");
+
+INSERT INTO "sentiment_scores" ("contact_id", "source", "source_id", "rating", "recorded_at")
+SELECT "contact_id", 'interaction', "id", "sentiment", "timestamp" FROM "interactions"
+WHERE "sentiment" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,28 @@
+-- Migration: Time tracking on tasks
+-- Each row is time spent on a task, from a start/stop timer or entered by hand. The minutes of a
+-- task's finished entries are summed into tasks.actual_minutes whenever its entries change.
+
+CREATE TABLE IF NOT EXISTS "task_time_entries" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "task_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "source" text DEFAULT 'timer' NOT NULL,
+  "started_at" timestamp NOT NULL,
+  "ended_at" timestamp,
+  "minutes" integer,
+  "note" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "task_time_entries" ADD CONSTRAINT "task_time_entries_task_id_tasks_id_fk"
+FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "task_time_entries" ADD CONSTRAINT "task_time_entries_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "task_time_entries_task_id_idx" ON "task_time_entries" ("task_id");
+CREATE INDEX IF NOT EXISTS "task_time_entries_user_id_started_at_idx" ON "task_time_entries" ("user_id", "started_at");
+
+-- One running timer per user
+CREATE UNIQUE INDEX IF NOT EXISTS "task_time_entries_running_timer_idx" ON "task_time_entries" ("user_id")
+WHERE "ended_at" IS NULL;
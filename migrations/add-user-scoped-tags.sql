@@ -0,0 +1,91 @@
+-- Migration: User-scoped tags shared by contacts and tasks
+-- Tag names were unique across all users. Each tag now belongs to one user: a tag used by several
+-- users' contacts is copied for each of them, and unused tags are copied to every user so nobody
+-- loses their vocabulary. The string array in tasks.tags is replaced by task_tags rows pointing at
+-- the same tags table.
+
+ALTER TABLE "tags" ADD COLUMN IF NOT EXISTS "user_id" uuid;
+ALTER TABLE "tags" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+ALTER TABLE "tags" DROP CONSTRAINT IF EXISTS "tags_name_unique";
+
+-- The first user (by id) using a tag keeps the original row
+UPDATE "tags" SET "user_id" = (
+  SELECT min(c."user_id"::text)::uuid
+  FROM "contact_tags" ct JOIN "contacts" c ON c."id" = ct."contact_id"
+  WHERE ct."tag_id" = "tags"."id"
+)
+WHERE "user_id" IS NULL;
+
+-- Other users of the tag get their own copy, and their contacts are moved onto it
+INSERT INTO "tags" ("user_id", "name", "color", "created_at")
+SELECT DISTINCT c."user_id", t."name", t."color", t."created_at"
+FROM "contact_tags" ct
+JOIN "contacts" c ON c."id" = ct."contact_id"
+JOIN "tags" t ON t."id" = ct."tag_id"
+WHERE t."user_id" <> c."user_id";
+
+UPDATE "contact_tags" ct SET "tag_id" = own."id"
+FROM "contacts" c, "tags" t, "tags" own
+WHERE c."id" = ct."contact_id"
+  AND t."id" = ct."tag_id"
+  AND t."user_id" <> c."user_id"
+  AND own."user_id" = c."user_id"
+  AND own."name" = t."name";
+
+-- Unused tags were visible to everyone, so every user gets a copy
+INSERT INTO "tags" ("user_id", "name", "color", "created_at")
+SELECT u."id", t."name", t."color", t."created_at"
+FROM "tags" t CROSS JOIN "users" u
+WHERE t."user_id" IS NULL
+  AND NOT EXISTS (SELECT 1 FROM "tags" own WHERE own."user_id" = u."id" AND own."name" = t."name");
+
+DELETE FROM "tags" WHERE "user_id" IS NULL;
+
+ALTER TABLE "tags" ALTER COLUMN "user_id" SET NOT NULL;
+
+ALTER TABLE "tags" ADD CONSTRAINT "tags_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "tags_user_id_name_idx" ON "tags" ("user_id", "name");
+
+-- Task tags
+CREATE TABLE IF NOT EXISTS "task_tags" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "task_id" uuid NOT NULL,
+  "tag_id" uuid NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "task_tags" ADD CONSTRAINT "task_tags_task_id_tasks_id_fk"
+FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+ALTER TABLE "task_tags" ADD CONSTRAINT "task_tags_tag_id_tags_id_fk"
+FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "task_tags_task_id_tag_id_idx" ON "task_tags" ("task_id", "tag_id");
+CREATE INDEX IF NOT EXISTS "task_tags_tag_id_idx" ON "task_tags" ("tag_id");
+
+-- Move task tag strings into the tags table, reusing a user's tag with the same name in any case
+INSERT INTO "tags" ("user_id", "name")
+SELECT DISTINCT ON (t."user_id", lower(trim(name.value))) t."user_id", trim(name.value)
+FROM "tasks" t,
+  jsonb_array_elements_text(CASE WHEN jsonb_typeof(t."tags") = 'array' THEN t."tags" ELSE '[]'::jsonb END) AS name(value)
+WHERE trim(name.value) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM "tags" own
+    WHERE own."user_id" = t."user_id" AND lower(own."name") = lower(trim(name.value))
+  );
+
+INSERT INTO "task_tags" ("task_id", "tag_id")
+SELECT DISTINCT t."id", (
+  SELECT own."id" FROM "tags" own
+  WHERE own."user_id" = t."user_id" AND lower(own."name") = lower(trim(name.value))
+  ORDER BY own."created_at"
+  LIMIT 1
+)
+FROM "tasks" t,
+  jsonb_array_elements_text(CASE WHEN jsonb_typeof(t."tags") = 'array' THEN t."tags" ELSE '[]'::jsonb END) AS name(value)
+WHERE trim(name.value) <> ''
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE "tasks" DROP COLUMN IF EXISTS "tags";
@@ -0,0 +1,15 @@
+-- Migration: Transcribe uploaded voice notes and link them to the timeline
+-- Audio files are stored under VOICE_NOTES_DIR; the status columns track transcription
+-- and the AI pass that turns the transcript into an interaction and suggested tasks
+
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "file_name" text;
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "mime_type" text;
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "duration_seconds" integer;
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'pending';
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "error_message" text;
+ALTER TABLE "voice_notes" ADD COLUMN IF NOT EXISTS "interaction_id" uuid;
+
+ALTER TABLE "voice_notes" ADD CONSTRAINT "voice_notes_interaction_id_interactions_id_fk"
+FOREIGN KEY ("interaction_id") REFERENCES "interactions"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+CREATE INDEX IF NOT EXISTS "voice_notes_contact_id_idx" ON "voice_notes" ("contact_id");
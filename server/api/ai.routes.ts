@@ -1,5 +1,6 @@
 import { Router, type Request, type Response } from 'express';
 import { aiService } from '../services/ai.service.js';
+import { chatService } from '../services/chat.service.js';
 import { contactService } from '../services/contact.service.js';
 import { enhancedLLMService } from '../services/llm-enhanced.service.js';
 import { llmConcurrencyController } from '../utils/llm-concurrency-controller.js';
@@ -9,13 +10,24 @@ import {
   aiRateLimit,
   csrfProtection,
   validateContactId,
+  validateChatSessionId,
   handleValidationErrors,
 } from '../utils/security.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
 import { sanitizeResponse } from '../utils/sanitizers.js';
 import { nullsToUndefined } from '../utils/api-helpers.js';
-import { createErrorResponse, logError } from '../utils/error-handling.js';
-import { enrichPhotoSchema } from '../schemas/ai.schemas.js';
+import {
+  BudgetExceededError,
+  createBudgetExceededResponse,
+  createErrorResponse,
+  logError,
+} from '../utils/error-handling.js';
+import {
+  chatMessageSchema,
+  enrichPhotoSchema,
+  setBudgetSchema,
+  usageExportQuerySchema,
+} from '../schemas/ai.schemas.js';
 
 const aiRouter = Router();
 
@@ -28,19 +40,174 @@ aiRouter.post(
   csrfProtection,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { message, context } = req.body as {
-        message: string;
-        context?: Record<string, unknown>;
-      };
-      const response = await aiService.generateChatResponse(message, context);
-      res.json(sanitizeResponse({ response }));
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = chatMessageSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid chat message', details: result.error.errors });
+        return;
+      }
+
+      const { message, sessionId, context } = result.data;
+      const chat = await chatService.sendMessage(req.user.id, message, { sessionId, context });
+      if (!chat) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+      }
+      res.json(sanitizeResponse({ response: chat.reply.content, sessionId: chat.session.id }));
     } catch (error: unknown) {
+      if (error instanceof BudgetExceededError) {
+        res.status(429).json(createBudgetExceededResponse(error));
+        return;
+      }
       logError('AI chat error', error);
       res.status(500).json(createErrorResponse('Failed to generate AI response', error, true));
     }
   }
 );
 
+// Streams the reply as Server-Sent Events: `token` events carry text deltas, then a single
+// `done` (with the session id and full reply) or `error` event. Closing the connection
+// cancels the upstream LLM request.
+aiRouter.post(
+  '/ai/chat/stream',
+  aiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abortController.abort();
+    });
+
+    // Headers are only sent with the first event, so errors raised before any
+    // output can still use a normal status code
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.headersSent) {
+        res.status(200).set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = chatMessageSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid chat message', details: result.error.errors });
+        return;
+      }
+
+      const { message, sessionId, context } = result.data;
+      const chat = await chatService.sendMessage(req.user.id, message, {
+        sessionId,
+        context,
+        signal: abortController.signal,
+        onToken: (text) => sendEvent('token', { text }),
+      });
+      if (!chat) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+      }
+      sendEvent(
+        'done',
+        sanitizeResponse({ response: chat.reply.content, sessionId: chat.session.id })
+      );
+      res.end();
+    } catch (error: unknown) {
+      // The client went away; there is nobody left to answer
+      if (abortController.signal.aborted) return;
+
+      if (error instanceof BudgetExceededError) {
+        if (res.headersSent) {
+          sendEvent('error', createBudgetExceededResponse(error));
+          res.end();
+        } else {
+          res.status(429).json(createBudgetExceededResponse(error));
+        }
+        return;
+      }
+      logError('AI chat stream error', error);
+      if (res.headersSent) {
+        sendEvent('error', { error: 'Failed to generate AI response' });
+        res.end();
+      } else {
+        res.status(500).json(createErrorResponse('Failed to generate AI response', error, true));
+      }
+    }
+  }
+);
+
+aiRouter.get('/ai/chat/sessions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const sessions = await chatService.listSessions(req.user.id);
+    res.json(sessions);
+  } catch (error: unknown) {
+    logError('List chat sessions error', error);
+    res.status(500).json(createErrorResponse('Failed to list chat sessions', error, true));
+  }
+});
+
+aiRouter.get(
+  '/ai/chat/sessions/:id',
+  validateChatSessionId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const session = await chatService.getSession(req.user.id, req.params.id);
+      if (!session) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+      }
+      res.json(session);
+    } catch (error: unknown) {
+      logError('Get chat session error', error);
+      res.status(500).json(createErrorResponse('Failed to get chat session', error, true));
+    }
+  }
+);
+
+aiRouter.delete(
+  '/ai/chat/sessions/:id',
+  csrfProtection,
+  validateChatSessionId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await chatService.deleteSession(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Chat session not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: unknown) {
+      logError('Delete chat session error', error);
+      res.status(500).json(createErrorResponse('Failed to delete chat session', error, true));
+    }
+  }
+);
+
 // --- Insights ---
 aiRouter.post(
   '/ai/insights/:contactId',
@@ -292,7 +459,7 @@ aiRouter.post('/rate-limit/recommend', async (req: Request, res: Response): Prom
 // --- Enhanced LLM Performance & Cost Management ---
 aiRouter.get('/llm/performance-metrics', async (req: Request, res: Response): Promise<void> => {
   try {
-    const metrics = enhancedLLMService.getMetrics();
+    const metrics = await enhancedLLMService.getMetrics();
     res.json(sanitizeResponse(metrics));
   } catch (error: unknown) {
     logError('Performance metrics error', error);
@@ -306,7 +473,7 @@ aiRouter.get('/llm/cost-analysis', async (req: Request, res: Response): Promise<
       res.status(401).json({ error: 'User not authenticated' });
       return;
     }
-    const analysis = enhancedLLMService.getUserCostAnalysis(req.user.id);
+    const analysis = await enhancedLLMService.getUserCostAnalysis(req.user.id);
     res.json(sanitizeResponse(analysis));
   } catch (error: unknown) {
     logError('Cost analysis error', error);
@@ -314,6 +481,55 @@ aiRouter.get('/llm/cost-analysis', async (req: Request, res: Response): Promise<
   }
 });
 
+aiRouter.get('/llm/spend-rollups', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const rollups = await llmCostTracker.getSpendRollups(req.user.id);
+    res.json(sanitizeResponse(rollups));
+  } catch (error: unknown) {
+    logError('Spend rollups error', error);
+    res.status(500).json(createErrorResponse('Failed to get spend rollups', error, true));
+  }
+});
+
+aiRouter.get('/llm/usage-export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const result = usageExportQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({ error: 'Invalid query parameters', details: result.error.errors });
+      return;
+    }
+
+    const { startDate, endDate } = result.data;
+    const records = await llmCostTracker.exportUsageData(req.user.id, startDate, endDate);
+    res.json(sanitizeResponse(records));
+  } catch (error: unknown) {
+    logError('Usage export error', error);
+    res.status(500).json(createErrorResponse('Failed to export usage data', error, true));
+  }
+});
+
+aiRouter.get('/llm/budget', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const budget = await llmCostTracker.getBudgetLimits(req.user.id);
+    res.json(sanitizeResponse({ budget: budget ?? null }));
+  } catch (error: unknown) {
+    logError('Get budget error', error);
+    res.status(500).json(createErrorResponse('Failed to get budget limits', error, true));
+  }
+});
+
 aiRouter.post(
   '/llm/set-budget',
   csrfProtection,
@@ -324,22 +540,13 @@ aiRouter.post(
         return;
       }
 
-      const { dailyLimit, monthlyLimit, alertThreshold } = req.body as {
-        dailyLimit?: number;
-        monthlyLimit?: number;
-        alertThreshold?: number;
-      };
-
-      if (typeof dailyLimit !== 'number' || typeof monthlyLimit !== 'number') {
-        res.status(400).json({ error: 'dailyLimit and monthlyLimit must be numbers' });
+      const result = setBudgetSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid budget limits', details: result.error.errors });
         return;
       }
 
-      enhancedLLMService.setUserBudget(req.user.id, {
-        dailyLimit,
-        monthlyLimit,
-        alertThreshold: alertThreshold ?? 80,
-      });
+      await enhancedLLMService.setUserBudget(req.user.id, result.data);
 
       res.json({ success: true, message: 'Budget limits set successfully' });
     } catch (error: unknown) {
@@ -384,7 +591,7 @@ aiRouter.post(
 
 aiRouter.get('/llm/system-stats', async (req: Request, res: Response): Promise<void> => {
   try {
-    const systemStats = llmCostTracker.getSystemStats();
+    const systemStats = await llmCostTracker.getSystemStats();
     res.json(sanitizeResponse(systemStats));
   } catch (error: unknown) {
     logError('System stats error', error);
@@ -0,0 +1,220 @@
+import { Router, type Request, type Response } from 'express';
+import multer from 'multer';
+import { attendanceImportService } from '../services/attendance-import.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  uploadRateLimit,
+  csrfProtection,
+  validateAttendanceProfileId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  attendanceImportSchema,
+  createAttendanceProfileSchema,
+  updateAttendanceProfileSchema,
+} from '../schemas/attendance.schemas.js';
+
+const attendanceRouter = Router();
+
+attendanceRouter.use(requireAuth);
+
+const SHEET_MIME_TYPES = [
+  'text/csv',
+  'application/vnd.ms-excel', // Some browsers report CSV files this way
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Sheets are parsed in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: (_req, file, cb) => {
+    if (SHEET_MIME_TYPES.includes(file.mimetype) || /\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV and XLSX files are allowed'));
+    }
+  },
+});
+
+// GET the user's saved import profiles
+attendanceRouter.get('/profiles', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const profiles = await attendanceImportService.getProfiles(req.user.id);
+    res.json(profiles);
+  } catch (error: unknown) {
+    logError('Failed to fetch attendance import profiles', error);
+    res.status(500).json(createErrorResponse('Failed to fetch import profiles', error, true));
+  }
+});
+
+// POST create an import profile
+attendanceRouter.post(
+  '/profiles',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createAttendanceProfileSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid import profile', details: result.error.errors });
+        return;
+      }
+
+      const profile = await attendanceImportService.createProfile(req.user.id, result.data);
+      res.status(201).json(profile);
+    } catch (error: unknown) {
+      logError('Failed to create attendance import profile', error);
+      res.status(500).json(createErrorResponse('Failed to create import profile', error, true));
+    }
+  }
+);
+
+// PATCH update an import profile
+attendanceRouter.patch(
+  '/profiles/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateAttendanceProfileId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = updateAttendanceProfileSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid import profile', details: result.error.errors });
+        return;
+      }
+
+      const profile = await attendanceImportService.updateProfile(
+        req.user.id,
+        req.params.id,
+        result.data
+      );
+      if (!profile) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+      res.json(profile);
+    } catch (error: unknown) {
+      logError('Failed to update attendance import profile', error);
+      res.status(500).json(createErrorResponse('Failed to update import profile', error, true));
+    }
+  }
+);
+
+// DELETE an import profile
+attendanceRouter.delete(
+  '/profiles/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateAttendanceProfileId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await attendanceImportService.deleteProfile(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: unknown) {
+      logError('Failed to delete attendance import profile', error);
+      res.status(500).json(createErrorResponse('Failed to delete import profile', error, true));
+    }
+  }
+);
+
+// POST preview an uploaded sheet: matched and unmatched attendees per class session
+attendanceRouter.post(
+  '/preview',
+  uploadRateLimit,
+  csrfProtection,
+  upload.single('file'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return;
+      }
+      const result = attendanceImportSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid import options', details: result.error.errors });
+        return;
+      }
+
+      const preview = await attendanceImportService.previewUpload(req.user.id, req.file, result.data);
+      if (!preview) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+      res.json(preview);
+    } catch (error: unknown) {
+      logError('Failed to preview attendance sheet', error);
+      res.status(500).json(createErrorResponse('Failed to preview attendance sheet', error, true));
+    }
+  }
+);
+
+// POST import an uploaded sheet as timeline suggestions
+attendanceRouter.post(
+  '/import',
+  uploadRateLimit,
+  csrfProtection,
+  upload.single('file'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return;
+      }
+      const result = attendanceImportSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid import options', details: result.error.errors });
+        return;
+      }
+
+      const suggestions = await attendanceImportService.importUpload(
+        req.user.id,
+        req.file,
+        result.data
+      );
+      if (!suggestions) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+      res.json({ success: true, suggestionsCreated: suggestions.length, suggestions });
+    } catch (error: unknown) {
+      logError('Failed to import attendance sheet', error);
+      res.status(500).json(createErrorResponse('Failed to import attendance sheet', error, true));
+    }
+  }
+);
+
+export default attendanceRouter;
@@ -2,6 +2,7 @@ import { Router, type Request, type Response } from 'express';
 import passport from '../utils/passport-config.js';
 import { requireAuth, setAuthCookie, clearAuthCookie } from '../utils/jwt-auth.js';
 import {
+  authRateLimit,
   csrfProtection,
   generateCSRFToken,
 } from '../utils/security.js';
@@ -19,10 +20,11 @@ authRouter.get('/csrf-token', generateCSRFToken);
 // --- Google OAuth ---
 // Note: These routes will be mounted at /auth/google and /auth/google/callback
 // when the router is mounted at root level in index.ts
-authRouter.get('/google', passport.authenticate('google', { scope: ['profile', 'email'] }));
+authRouter.get('/google', authRateLimit, passport.authenticate('google', { scope: ['profile', 'email'] }));
 
 authRouter.get(
   '/google/callback',
+  authRateLimit,
   (req: Request, res: Response, _next: (error?: Error) => void) => {
     const authenticate = passport.authenticate('google', { 
       failureRedirect: '/login?error=auth_failed', 
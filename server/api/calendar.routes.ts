@@ -2,7 +2,12 @@ import { Router } from 'express';
 import { calendarService } from '../services/calendar.service.js';
 import { requireAuth } from '../utils/jwt-auth.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
-import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  BudgetExceededError,
+  createBudgetExceededResponse,
+  createErrorResponse,
+  logError,
+} from '../utils/error-handling.js';
 import { calendarEventQuerySchema, calendarSyncRequestSchema } from '../schemas/calendar.schemas.js';
 
 const calendarRouter = Router();
@@ -74,6 +79,9 @@ calendarRouter.post('/sync-initial', async (req, res) => {
       ...result,
     });
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return res.status(429).json(createBudgetExceededResponse(error));
+    }
     logError('Historical calendar sync error:', error);
     res
       .status(500)
@@ -94,6 +102,9 @@ calendarRouter.post('/sync', async (req, res) => {
       ...result,
     });
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return res.status(429).json(createBudgetExceededResponse(error));
+    }
     logError('Calendar sync error:', error);
     res.status(500).json(createErrorResponse('Failed to sync calendar', error, true));
   }
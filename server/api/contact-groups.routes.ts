@@ -0,0 +1,265 @@
+import { Router, type Request, type Response } from 'express';
+import { contactGroupService } from '../services/contact-group.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateContactGroupId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  createContactGroupSchema,
+  updateContactGroupSchema,
+  groupRulesSchema,
+  groupMembersSchema,
+} from '../schemas/contact-group.schemas.js';
+import type { ContactGroupResult } from '../services/contact-group.service.js';
+
+const contactGroupsRouter = Router();
+
+contactGroupsRouter.use(requireAuth);
+
+function sendGroupResult(res: Response, result: ContactGroupResult, successStatus = 200): void {
+  if (!result.success) {
+    const { error, status, unauthorizedContacts } = result;
+    res.status(status).json(unauthorizedContacts ? { error, unauthorizedContacts } : { error });
+    return;
+  }
+  res.status(successStatus).json(result.group);
+}
+
+// GET all of the user's groups with their current member counts
+contactGroupsRouter.get('/', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const groups = await contactGroupService.getGroups(req.user.id);
+    res.json(groups);
+  } catch (error: unknown) {
+    logError('Failed to fetch contact groups', error);
+    res.status(500).json(createErrorResponse('Failed to fetch contact groups', error, true));
+  }
+});
+
+// POST create a static group (optionally with members) or a rule-based group
+contactGroupsRouter.post(
+  '/',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createContactGroupSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid group data', details: result.error.errors });
+        return;
+      }
+
+      sendGroupResult(res, await contactGroupService.createGroup(req.user.id, result.data), 201);
+    } catch (error: unknown) {
+      logError('Failed to create contact group', error);
+      res.status(500).json(createErrorResponse('Failed to create contact group', error, true));
+    }
+  }
+);
+
+// POST preview which contacts a set of rules matches before saving the group
+contactGroupsRouter.post(
+  '/preview',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = groupRulesSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid group rules', details: result.error.errors });
+        return;
+      }
+
+      const preview = await contactGroupService.previewRules(req.user.id, result.data);
+      res.json(preview);
+    } catch (error: unknown) {
+      logError('Failed to preview group rules', error);
+      res.status(500).json(createErrorResponse('Failed to preview group rules', error, true));
+    }
+  }
+);
+
+// GET a group with the IDs of its current members
+contactGroupsRouter.get(
+  '/:id',
+  apiRateLimit,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const group = await contactGroupService.getGroup(req.user.id, req.params.id);
+      if (!group) {
+        res.status(404).json({ error: 'Group not found' });
+        return;
+      }
+      res.json(group);
+    } catch (error: unknown) {
+      logError('Failed to fetch contact group', error);
+      res.status(500).json(createErrorResponse('Failed to fetch contact group', error, true));
+    }
+  }
+);
+
+// GET the member contacts of a group
+contactGroupsRouter.get(
+  '/:id/contacts',
+  apiRateLimit,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const contacts = await contactGroupService.getGroupContacts(req.user.id, req.params.id);
+      if (!contacts) {
+        res.status(404).json({ error: 'Group not found' });
+        return;
+      }
+      res.json(contacts);
+    } catch (error: unknown) {
+      logError('Failed to fetch group contacts', error);
+      res.status(500).json(createErrorResponse('Failed to fetch group contacts', error, true));
+    }
+  }
+);
+
+// PATCH rename, describe or recolor a group, or change the rules of a rule-based group
+contactGroupsRouter.patch(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = updateContactGroupSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid group data', details: result.error.errors });
+        return;
+      }
+
+      sendGroupResult(
+        res,
+        await contactGroupService.updateGroup(req.user.id, req.params.id, result.data)
+      );
+    } catch (error: unknown) {
+      logError('Failed to update contact group', error);
+      res.status(500).json(createErrorResponse('Failed to update contact group', error, true));
+    }
+  }
+);
+
+// DELETE a group; its contacts are kept
+contactGroupsRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await contactGroupService.deleteGroup(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Group not found' });
+        return;
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Failed to delete contact group', error);
+      res.status(500).json(createErrorResponse('Failed to delete contact group', error, true));
+    }
+  }
+);
+
+// POST add contacts to a static group
+contactGroupsRouter.post(
+  '/:id/members',
+  apiRateLimit,
+  csrfProtection,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = groupMembersSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid group members', details: result.error.errors });
+        return;
+      }
+
+      sendGroupResult(
+        res,
+        await contactGroupService.addMembers(req.user.id, req.params.id, result.data.contactIds)
+      );
+    } catch (error: unknown) {
+      logError('Failed to add group members', error);
+      res.status(500).json(createErrorResponse('Failed to add group members', error, true));
+    }
+  }
+);
+
+// DELETE remove contacts from a static group
+contactGroupsRouter.delete(
+  '/:id/members',
+  apiRateLimit,
+  csrfProtection,
+  validateContactGroupId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = groupMembersSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid group members', details: result.error.errors });
+        return;
+      }
+
+      sendGroupResult(
+        res,
+        await contactGroupService.removeMembers(req.user.id, req.params.id, result.data.contactIds)
+      );
+    } catch (error: unknown) {
+      logError('Failed to remove group members', error);
+      res.status(500).json(createErrorResponse('Failed to remove group members', error, true));
+    }
+  }
+);
+
+export default contactGroupsRouter;
@@ -13,13 +13,34 @@ import {
   validateContactId,
   handleValidationErrors,
   validateFileUpload,
+  validateImportJobId,
+  validateEmailThreadId,
+  validateGmailDraftId,
+  validateEmailSend,
   uploadRateLimit,
 } from '../utils/security.js';
-import { createContactSchema, updateContactSchema } from '../schemas/contact.schemas.js';
+import {
+  contactImportPreviewSchema,
+  contactImportSchema,
+  contactTimelineQuerySchema,
+  createContactSchema,
+  updateContactSchema,
+} from '../schemas/contact.schemas.js';
+import { contactImportService } from '../services/contact-import.service.js';
+import { timelineService } from '../services/timeline.service.js';
+import { emailLinkingService } from '../services/email-linking.service.js';
+import { emailThreadService } from '../services/email-thread.service.js';
+import { sentimentTrendService } from '../services/sentiment-trend.service.js';
+import { referralService } from '../services/referral.service.js';
 import { nullsToUndefined } from '../utils/api-helpers.js';
 import { sanitizeResponse } from '../utils/sanitizers.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
-import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  BudgetExceededError,
+  createBudgetExceededResponse,
+  createErrorResponse,
+  logError,
+} from '../utils/error-handling.js';
 import type { Tag } from '../../shared/schema.js';
 
 // Type definitions for request bodies
@@ -67,6 +88,27 @@ const upload = multer({
   },
 });
 
+const IMPORT_MIME_TYPES = [
+  'text/csv',
+  'application/vnd.ms-excel', // Some browsers report CSV files this way
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/vcard',
+  'text/x-vcard',
+];
+
+// Import files are parsed in memory and never written to disk
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: (_req, file, cb) => {
+    if (IMPORT_MIME_TYPES.includes(file.mimetype) || /\.(csv|xlsx|vcf|vcard)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV, XLSX and vCard files are allowed'));
+    }
+  },
+});
+
 // GET all contacts for the logged-in user
 contactsRouter.get('/', apiRateLimit, requireAuth, async (req: Request, res: Response) => {
   try {
@@ -114,6 +156,196 @@ contactsRouter.get(
   }
 );
 
+// GET a page of the contact's timeline: interactions, emails, calendar events and tasks, newest first
+contactsRouter.get(
+  '/:id/timeline',
+  apiRateLimit,
+  requireAuth,
+  validateContactId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const queryResult = contactTimelineQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({ error: 'Invalid timeline query', details: queryResult.error.errors });
+      }
+
+      const page = await timelineService.getContactTimeline(req.user.id, req.params.id, queryResult.data);
+      if (!page) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(page);
+    } catch (error: unknown) {
+      logError('Failed to fetch contact timeline', error);
+      res.status(500).json(createErrorResponse('Failed to fetch contact timeline', error, true));
+    }
+  }
+);
+
+// GET the contact's sentiment ratings over the last 90 days with the derived trend
+contactsRouter.get(
+  '/:id/sentiment',
+  apiRateLimit,
+  requireAuth,
+  validateContactId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const history = await sentimentTrendService.getSentimentHistory(req.user.id, req.params.id);
+      if (!history) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(history);
+    } catch (error: unknown) {
+      logError('Failed to fetch sentiment history', error);
+      res.status(500).json(createErrorResponse('Failed to fetch sentiment history', error, true));
+    }
+  }
+);
+
+// GET who referred the contact and the tree of people they referred
+contactsRouter.get(
+  '/:id/referrals',
+  apiRateLimit,
+  requireAuth,
+  validateContactId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const tree = await referralService.getReferralTree(req.user.id, req.params.id);
+      if (!tree) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(tree);
+    } catch (error: unknown) {
+      logError('Failed to fetch referrals', error);
+      res.status(500).json(createErrorResponse('Failed to fetch referrals', error, true));
+    }
+  }
+);
+
+// GET the contact's email threads, most recent activity first
+contactsRouter.get(
+  '/:id/email-threads',
+  apiRateLimit,
+  requireAuth,
+  validateContactId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const threads = await emailThreadService.getThreads(req.user.id, req.params.id);
+      if (!threads) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(threads);
+    } catch (error: unknown) {
+      logError('Failed to fetch email threads', error);
+      res.status(500).json(createErrorResponse('Failed to fetch email threads', error, true));
+    }
+  }
+);
+
+// GET every message of one of the contact's email threads
+contactsRouter.get(
+  '/:id/email-threads/:threadId',
+  apiRateLimit,
+  requireAuth,
+  validateContactId,
+  validateEmailThreadId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const thread = await emailThreadService.getThread(req.user.id, req.params.id, req.params.threadId);
+      if (!thread) {
+        return res.status(404).json({ error: 'Thread not found' });
+      }
+      res.json(thread);
+    } catch (error: unknown) {
+      logError('Failed to fetch email thread', error);
+      res.status(500).json(createErrorResponse('Failed to fetch email thread', error, true));
+    }
+  }
+);
+
+// POST to draft an AI reply to the thread and save it as a Gmail draft
+contactsRouter.post(
+  '/:id/email-threads/:threadId/draft-reply',
+  apiRateLimit,
+  csrfProtection,
+  requireAuth,
+  validateContactId,
+  validateEmailThreadId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const result = await emailThreadService.draftReply(req.user, req.params.id, req.params.threadId);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.status(201).json(result.draft);
+    } catch (error: unknown) {
+      if (error instanceof BudgetExceededError) {
+        return res.status(429).json(createBudgetExceededResponse(error));
+      }
+      logError('Failed to draft email reply', error);
+      res.status(500).json(createErrorResponse('Failed to draft email reply', error, true));
+    }
+  }
+);
+
+// PUT the user's edits into a saved Gmail draft
+contactsRouter.put(
+  '/:id/email-threads/:threadId/drafts/:draftId',
+  apiRateLimit,
+  csrfProtection,
+  requireAuth,
+  validateContactId,
+  validateEmailThreadId,
+  validateGmailDraftId,
+  validateEmailSend,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const { to, subject, body } = req.body as { to: string; subject: string; body: string };
+      const result = await emailThreadService.updateDraft(
+        req.user,
+        req.params.id,
+        req.params.threadId,
+        req.params.draftId,
+        { to, subject, body }
+      );
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.draft);
+    } catch (error: unknown) {
+      logError('Failed to save email draft', error);
+      res.status(500).json(createErrorResponse('Failed to save email draft', error, true));
+    }
+  }
+);
+
 // POST a new contact
 contactsRouter.post(
   '/',
@@ -172,7 +404,20 @@ contactsRouter.patch(
         color: tag.color ?? undefined
       }));
 
-      const updatedContact = await contactService.updateContact(req.params.id, contactData, transformedTags);
+      const updatedContact = await contactService.updateContact(
+        req.user.id,
+        req.params.id,
+        contactData,
+        transformedTags
+      );
+
+      // Emails from a new address are linked without waiting for the next Gmail sync
+      if (contactData.email !== undefined || contactData.emailAliases !== undefined) {
+        emailLinkingService
+          .relinkRecentEmails(req.user.id)
+          .catch((error: unknown) => logError('Email relinking error', error));
+      }
+
       const sanitizedContact = sanitizeResponse(updatedContact);
       res.json(nullsToUndefined(sanitizedContact));
     } catch (error: unknown) {
@@ -305,11 +550,15 @@ contactsRouter.post(
       }
 
       const result = await contactService.addTagToContacts(
+        req.user.id,
         contactIds,
         tagId ?? '',
         tagName,
         tagColor
       );
+      if (!result) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
       res.json(result);
     } catch (error: unknown) {
       logError('Bulk add tag error', error);
@@ -356,4 +605,91 @@ contactsRouter.post(
   }
 );
 
+// POST preview a CSV, XLSX or vCard import: mapped rows and the duplicates found for each
+contactsRouter.post(
+  '/import/preview',
+  uploadRateLimit,
+  csrfProtection,
+  requireAuth,
+  importUpload.single('file'),
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+      const result = contactImportPreviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: 'Invalid column mapping', details: result.error.errors });
+      }
+
+      const preview = await contactImportService.previewFile(req.user.id, req.file, result.data.mapping);
+      res.json(preview);
+    } catch (error: unknown) {
+      logError('Contact import preview error', error);
+      res.status(500).json(createErrorResponse('Failed to read import file', error, true));
+    }
+  }
+);
+
+// POST start importing the reviewed rows; progress is reported by the job
+contactsRouter.post(
+  '/import',
+  apiRateLimit,
+  csrfProtection,
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const result = contactImportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: 'Validation failed', details: result.error.errors });
+      }
+
+      const job = await contactImportService.startImport(req.user.id, result.data);
+      if (!job) {
+        return res.status(403).json({ error: 'Access denied: You can only merge into your own contacts' });
+      }
+      res.status(202).json({ jobId: job.id });
+    } catch (error: unknown) {
+      logError('Contact import error', error);
+      res.status(500).json(createErrorResponse('Failed to start contact import', error, true));
+    }
+  }
+);
+
+// GET the status and progress of a contact import
+contactsRouter.get(
+  '/import/:jobId',
+  apiRateLimit,
+  requireAuth,
+  validateImportJobId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const job = await contactImportService.getImportJob(req.user.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      res.json({
+        id: job.id,
+        status: job.status,
+        errorMessage: job.errorMessage,
+        progress: job.outputData,
+      });
+    } catch (error: unknown) {
+      logError('Failed to fetch contact import', error);
+      res.status(500).json(createErrorResponse('Failed to fetch contact import', error, true));
+    }
+  }
+);
+
 export default contactsRouter;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { dashboardService } from '../services/dashboard.service.js';
+import { referralService } from '../services/referral.service.js';
 import { requireAuth } from '../utils/jwt-auth.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
 import { nullsToUndefined } from '../utils/api-helpers.js';
@@ -23,4 +24,18 @@ dashboardRouter.get('/stats', async (req, res) => {
   }
 });
 
+// GET top ambassadors and the revenue attributed to their referrals
+dashboardRouter.get('/referrals', async (req, res) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const stats = await referralService.getAmbassadorStats(req.user.id);
+    res.json(nullsToUndefined(stats));
+  } catch (error: unknown) {
+    logError('Dashboard referrals error', error);
+    res.status(500).json(createErrorResponse('Failed to fetch referral stats', error, true));
+  }
+});
+
 export default dashboardRouter;
@@ -0,0 +1,165 @@
+import { Router, type Request, type Response } from 'express';
+import { documentService } from '../services/document.service.js';
+import { attendanceSheetService } from '../services/attendance-sheet.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateDocumentId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import { assignDocumentSchema, attendanceFolderSchema } from '../schemas/document.schemas.js';
+
+const documentsRouter = Router();
+
+documentsRouter.use(requireAuth);
+
+// GET synced Drive documents that could not be matched to a contact
+documentsRouter.get('/review', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    // Extracted text is not needed to triage the queue and can be large
+    const documents = await documentService.getReviewQueue(req.user.id);
+    res.json(documents.map(({ content: _content, ...document }) => document));
+  } catch (error: unknown) {
+    logError('Failed to fetch document review queue', error);
+    res.status(500).json(createErrorResponse('Failed to fetch document review queue', error, true));
+  }
+});
+
+// POST assign a document to a contact
+documentsRouter.post(
+  '/:id/assign',
+  apiRateLimit,
+  csrfProtection,
+  validateDocumentId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = assignDocumentSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid document assignment', details: result.error.errors });
+        return;
+      }
+
+      const document = await documentService.assignDocument(
+        req.user.id,
+        req.params.id,
+        result.data.contactId
+      );
+      if (!document) {
+        res.status(404).json({ error: 'Document or contact not found' });
+        return;
+      }
+      res.json({ success: true, id: document.id, contactId: document.contactId });
+    } catch (error: unknown) {
+      logError('Failed to assign document', error);
+      res.status(500).json(createErrorResponse('Failed to assign document', error, true));
+    }
+  }
+);
+
+// POST dismiss a document from the review queue
+documentsRouter.post(
+  '/:id/dismiss',
+  apiRateLimit,
+  csrfProtection,
+  validateDocumentId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const document = await documentService.dismissDocument(req.user.id, req.params.id);
+      if (!document) {
+        res.status(404).json({ error: 'Document not found' });
+        return;
+      }
+      res.json({ success: true, id: document.id });
+    } catch (error: unknown) {
+      logError('Failed to dismiss document', error);
+      res.status(500).json(createErrorResponse('Failed to dismiss document', error, true));
+    }
+  }
+);
+
+// GET the Drive folder watched for attendance sheets
+documentsRouter.get(
+  '/attendance-folder',
+  apiRateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const settings = await attendanceSheetService.getFolder(req.user.id);
+      if (!settings) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      res.json(settings);
+    } catch (error: unknown) {
+      logError('Failed to fetch attendance folder', error);
+      res.status(500).json(createErrorResponse('Failed to fetch attendance folder', error, true));
+    }
+  }
+);
+
+// PUT choose (or clear) the Drive folder watched for attendance sheets
+documentsRouter.put(
+  '/attendance-folder',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = attendanceFolderSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid attendance folder', details: result.error.errors });
+        return;
+      }
+
+      const settings = await attendanceSheetService.setFolder(req.user.id, result.data.folder);
+      res.json(settings);
+    } catch (error: unknown) {
+      logError('Failed to update attendance folder', error);
+      res.status(500).json(createErrorResponse('Failed to update attendance folder', error, true));
+    }
+  }
+);
+
+// GET Drive folders the user can choose from
+documentsRouter.get('/drive-folders', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const folders = await attendanceSheetService.listDriveFolders(req.user.id);
+    if (!folders) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    res.json(folders);
+  } catch (error: unknown) {
+    logError('Failed to list Drive folders', error);
+    res.status(500).json(createErrorResponse('Failed to list Drive folders', error, true));
+  }
+});
+
+export default documentsRouter;
@@ -2,11 +2,19 @@ import { Router } from 'express';
 import contactsRouter from './contacts.routes.js';
 import projectsRouter from './projects.routes.js';
 import tasksRouter from './tasks.routes.js';
+import taskTemplatesRouter from './task-templates.routes.js';
+import timeEntriesRouter from './time-entries.routes.js';
 import calendarRouter from './calendar.routes.js';
 import aiRouter from './ai.routes.js';
 import dashboardRouter from './dashboard.routes.js';
 import interactionsRouter from './interactions.routes.js';
 import tagsRouter from './tags.routes.js';
+import documentsRouter from './documents.routes.js';
+import attendanceRouter from './attendance.routes.js';
+import voiceNotesRouter from './voice-notes.routes.js';
+import contactGroupsRouter from './contact-groups.routes.js';
+import lifecycleRulesRouter from './lifecycle-rules.routes.js';
+import referralsRouter from './referrals.routes.js';
 import miscRouter from './misc.routes.js';
 
 const apiRouter = Router();
@@ -18,9 +26,17 @@ apiRouter.use('/dashboard', dashboardRouter);
 apiRouter.use('/contacts', contactsRouter);
 apiRouter.use('/projects', projectsRouter);
 apiRouter.use('/tasks', tasksRouter);
+apiRouter.use('/task-templates', taskTemplatesRouter); // Reusable tasks with subtask trees
+apiRouter.use('/time-entries', timeEntriesRouter); // Task timers, manual time and estimate vs actual report
 apiRouter.use('/calendar', calendarRouter);
 apiRouter.use('/interactions', interactionsRouter); // For /interactions/*, /goals/*
 apiRouter.use('/tags', tagsRouter);
+apiRouter.use('/documents', documentsRouter); // Drive document review queue
+apiRouter.use('/attendance', attendanceRouter); // Attendance sheet import profiles and previews
+apiRouter.use('/voice-notes', voiceNotesRouter); // Recorded notes about contacts, transcribed into the timeline
+apiRouter.use('/contact-groups', contactGroupsRouter); // Static and rule-based contact segments
+apiRouter.use('/lifecycle-rules', lifecycleRulesRouter); // Automatic lifecycle-stage transitions
+apiRouter.use('/referrals', referralsRouter); // Who referred whom; keeps contacts' referral counts in sync
 apiRouter.use('/ai', aiRouter); // Must be last to catch all /ai/* routes
 
 export default apiRouter;
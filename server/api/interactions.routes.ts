@@ -5,12 +5,19 @@ import {
   apiRateLimit,
   csrfProtection,
   validateInteractionCreation,
+  validateGoalId,
   handleValidationErrors,
 } from '../utils/security.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
 import { sanitizeResponse } from '../utils/sanitizers.js';
 import { createErrorResponse, logError } from '../utils/error-handling.js';
 import { createInteractionSchema } from '../schemas/interaction.schemas.js';
+import {
+  createGoalSchema,
+  updateGoalSchema,
+  goalProgressSchema,
+  goalQuerySchema,
+} from '../schemas/goal.schemas.js';
 
 const interactionsRouter = Router();
 
@@ -68,10 +75,66 @@ interactionsRouter.post(
 
 // --- Goals ---
 
+// GET goals with their progress history, optionally for a single contact
+interactionsRouter.get('/goals', apiRateLimit, async (req, res) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const queryResult = goalQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({ error: 'Invalid query', details: queryResult.error.errors });
+    }
+
+    const goals = await interactionService.getGoals(req.user.id, queryResult.data);
+    if (!goals) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    res.json(goals);
+  } catch (error) {
+    logError('Failed to fetch goals', error);
+    res.status(500).json(createErrorResponse('Failed to fetch goals', error, true));
+  }
+});
+
+// GET a goal with its progress history
+interactionsRouter.get(
+  '/goals/:id',
+  apiRateLimit,
+  validateGoalId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const goal = await interactionService.getGoal(req.user.id, req.params.id);
+      if (!goal) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      res.json(goal);
+    } catch (error) {
+      logError('Failed to fetch goal', error);
+      res.status(500).json(createErrorResponse('Failed to fetch goal', error, true));
+    }
+  }
+);
+
 // POST a new goal
-interactionsRouter.post('/goals', async (req, res) => {
+interactionsRouter.post('/goals', apiRateLimit, csrfProtection, async (req, res) => {
   try {
-    const goal = await interactionService.createGoal(req.body);
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const bodyResult = createGoalSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({ error: 'Invalid goal data', details: bodyResult.error.errors });
+    }
+
+    const goal = await interactionService.createGoal(req.user.id, bodyResult.data);
+    if (!goal) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
     res.status(201).json(goal);
   } catch (error) {
     logError('Failed to create goal', error);
@@ -80,14 +143,85 @@ interactionsRouter.post('/goals', async (req, res) => {
 });
 
 // PATCH an existing goal
-interactionsRouter.patch('/goals/:id', async (req, res) => {
-  try {
-    const goal = await interactionService.updateGoal(req.params.id, req.body);
-    res.json(goal);
-  } catch (error) {
-    logError('Failed to update goal', error);
-    res.status(500).json(createErrorResponse('Failed to update goal', error, true));
+interactionsRouter.patch(
+  '/goals/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateGoalId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const bodyResult = updateGoalSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return res.status(400).json({ error: 'Invalid goal data', details: bodyResult.error.errors });
+      }
+
+      const goal = await interactionService.updateGoal(req.user.id, req.params.id, bodyResult.data);
+      if (!goal) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      res.json(goal);
+    } catch (error) {
+      logError('Failed to update goal', error);
+      res.status(500).json(createErrorResponse('Failed to update goal', error, true));
+    }
   }
-});
+);
+
+// POST a new progress value for a goal
+interactionsRouter.post(
+  '/goals/:id/progress',
+  apiRateLimit,
+  csrfProtection,
+  validateGoalId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const bodyResult = goalProgressSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return res.status(400).json({ error: 'Invalid goal progress', details: bodyResult.error.errors });
+      }
+
+      const goal = await interactionService.recordGoalProgress(req.user.id, req.params.id, bodyResult.data);
+      if (!goal) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      res.status(201).json(goal);
+    } catch (error) {
+      logError('Failed to record goal progress', error);
+      res.status(500).json(createErrorResponse('Failed to record goal progress', error, true));
+    }
+  }
+);
+
+// DELETE a goal and its progress history
+interactionsRouter.delete(
+  '/goals/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateGoalId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const deleted = await interactionService.deleteGoal(req.user.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      logError('Failed to delete goal', error);
+      res.status(500).json(createErrorResponse('Failed to delete goal', error, true));
+    }
+  }
+);
 
 export default interactionsRouter;
@@ -0,0 +1,167 @@
+import { Router, type Request, type Response } from 'express';
+import { lifecycleRuleService } from '../services/lifecycle-rule.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateLifecycleRuleId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  createLifecycleRuleSchema,
+  updateLifecycleRuleSchema,
+  previewLifecycleRuleSchema,
+} from '../schemas/lifecycle-rule.schemas.js';
+
+const lifecycleRulesRouter = Router();
+
+lifecycleRulesRouter.use(requireAuth);
+
+// GET the user's rules in evaluation order with the number of contacts each would move
+lifecycleRulesRouter.get('/', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const rules = await lifecycleRuleService.getRules(req.user.id);
+    res.json(rules);
+  } catch (error: unknown) {
+    logError('Failed to fetch lifecycle rules', error);
+    res.status(500).json(createErrorResponse('Failed to fetch lifecycle rules', error, true));
+  }
+});
+
+// POST create a rule
+lifecycleRulesRouter.post(
+  '/',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createLifecycleRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid lifecycle rule', details: result.error.errors });
+        return;
+      }
+
+      const rule = await lifecycleRuleService.createRule(req.user.id, result.data);
+      res.status(201).json(rule);
+    } catch (error: unknown) {
+      logError('Failed to create lifecycle rule', error);
+      res.status(500).json(createErrorResponse('Failed to create lifecycle rule', error, true));
+    }
+  }
+);
+
+// POST preview which contacts a rule would move before saving it
+lifecycleRulesRouter.post(
+  '/preview',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = previewLifecycleRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid lifecycle rule', details: result.error.errors });
+        return;
+      }
+
+      const preview = await lifecycleRuleService.previewRule(req.user.id, result.data);
+      res.json(preview);
+    } catch (error: unknown) {
+      logError('Failed to preview lifecycle rule', error);
+      res.status(500).json(createErrorResponse('Failed to preview lifecycle rule', error, true));
+    }
+  }
+);
+
+// POST run the active rules now instead of waiting for the nightly run
+lifecycleRulesRouter.post(
+  '/run',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const summary = await lifecycleRuleService.applyRules(req.user.id);
+      res.json(summary);
+    } catch (error: unknown) {
+      logError('Failed to run lifecycle rules', error);
+      res.status(500).json(createErrorResponse('Failed to run lifecycle rules', error, true));
+    }
+  }
+);
+
+// PATCH change a rule's conditions, target stage, mode, order or whether it is active
+lifecycleRulesRouter.patch(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateLifecycleRuleId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = updateLifecycleRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid lifecycle rule', details: result.error.errors });
+        return;
+      }
+
+      const rule = await lifecycleRuleService.updateRule(req.user.id, req.params.id, result.data);
+      if (!rule) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+      res.json(rule);
+    } catch (error: unknown) {
+      logError('Failed to update lifecycle rule', error);
+      res.status(500).json(createErrorResponse('Failed to update lifecycle rule', error, true));
+    }
+  }
+);
+
+// DELETE a rule; stage changes it already made are kept
+lifecycleRulesRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateLifecycleRuleId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await lifecycleRuleService.deleteRule(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Failed to delete lifecycle rule', error);
+      res.status(500).json(createErrorResponse('Failed to delete lifecycle rule', error, true));
+    }
+  }
+);
+
+export default lifecycleRulesRouter;
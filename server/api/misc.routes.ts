@@ -1,9 +1,16 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import { requireAuth } from '../utils/jwt-auth.js';
 import { storage } from '../data/index.js';
 import { syncService } from '../services/sync.js';
+import { emailProcessingService } from '../services/email-processing.service.js';
 import { isAuthenticatedUser } from '../utils/type-guards.js';
-import { apiRateLimit, csrfProtection } from '../utils/security.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  handleValidationErrors,
+  validateEmailProcessingJobId,
+} from '../utils/security.js';
+import { emailSyncSchema } from '../schemas/misc.schemas.js';
 import { sanitizeResponse } from '../utils/sanitizers.js';
 import { createErrorResponse, logError } from '../utils/error-handling.js';
 
@@ -95,12 +102,56 @@ miscRouter.post('/emails/sync', apiRateLimit, csrfProtection, async (req, res) =
     if (!isAuthenticatedUser(req.user)) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
+    const result = emailSyncSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: 'Validation failed', details: result.error.errors });
+    }
+
     await syncService.syncEmails(req.user.id);
-    res.json({ success: true, message: 'Email sync initiated successfully.' });
+    if (!result.data.process) {
+      return res.json({ success: true, message: 'Email sync initiated successfully.' });
+    }
+
+    // Analyzing up to 50 threads takes minutes, so it runs as a job; poll it for the summary
+    const job = await emailProcessingService.startProcessing(req.user, result.data.useFreeModel);
+    res.status(202).json({
+      success: true,
+      message: 'Email sync completed. Thread analysis is running in the background.',
+      jobId: job.id,
+    });
   } catch (error: unknown) {
     logError('Email sync failed', error);
     res.status(500).json(createErrorResponse('Email sync failed', error, true));
   }
 });
 
+// GET the status and summary of an email analysis started by /emails/sync
+miscRouter.get(
+  '/emails/process/:jobId',
+  apiRateLimit,
+  validateEmailProcessingJobId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const job = await emailProcessingService.getProcessingJob(req.user.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Email processing job not found' });
+      }
+      res.json({
+        id: job.id,
+        status: job.status,
+        errorMessage: job.errorMessage,
+        processing: job.outputData,
+      });
+    } catch (error: unknown) {
+      logError('Failed to fetch email processing job', error);
+      res.status(500).json(createErrorResponse('Failed to fetch email processing job', error, true));
+    }
+  }
+);
+
 export default miscRouter;
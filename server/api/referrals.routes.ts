@@ -0,0 +1,106 @@
+import { Router, type Request, type Response } from 'express';
+import { referralService } from '../services/referral.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateReferralId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import { createReferralSchema, updateReferralSchema } from '../schemas/referral.schemas.js';
+
+const referralsRouter = Router();
+
+referralsRouter.use(requireAuth);
+
+// POST record that one contact referred another
+referralsRouter.post(
+  '/',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createReferralSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid referral', details: result.error.errors });
+        return;
+      }
+
+      const outcome = await referralService.recordReferral(req.user.id, result.data);
+      if (!outcome.success) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+      res.status(201).json(outcome.referral);
+    } catch (error: unknown) {
+      logError('Failed to record referral', error);
+      res.status(500).json(createErrorResponse('Failed to record referral', error, true));
+    }
+  }
+);
+
+// PATCH change a referral's date, source, notes or reward status
+referralsRouter.patch(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateReferralId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = updateReferralSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid referral', details: result.error.errors });
+        return;
+      }
+
+      const referral = await referralService.updateReferral(req.user.id, req.params.id, result.data);
+      if (!referral) {
+        res.status(404).json({ error: 'Referral not found' });
+        return;
+      }
+      res.json(referral);
+    } catch (error: unknown) {
+      logError('Failed to update referral', error);
+      res.status(500).json(createErrorResponse('Failed to update referral', error, true));
+    }
+  }
+);
+
+// DELETE a referral; the referrer's referral count goes down with it
+referralsRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateReferralId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await referralService.deleteReferral(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Referral not found' });
+        return;
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Failed to delete referral', error);
+      res.status(500).json(createErrorResponse('Failed to delete referral', error, true));
+    }
+  }
+);
+
+export default referralsRouter;
@@ -1,17 +1,27 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import { tagService } from '../services/tag.service.js';
 import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateTagId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
 import { createErrorResponse, logError } from '../utils/error-handling.js';
-import { createTagSchema } from '../schemas/tag.schemas.js';
+import { createTagSchema, mergeTagsSchema, updateTagSchema } from '../schemas/tag.schemas.js';
 
 const tagsRouter = Router();
 
 tagsRouter.use(requireAuth);
 
-// GET all tags
-tagsRouter.get('/', async (req, res) => {
+// GET the user's tags with how many contacts and tasks use each
+tagsRouter.get('/', async (req: Request, res: Response) => {
   try {
-    const tags = await tagService.getAllTags();
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const tags = await tagService.getTags(req.user.id);
     res.json(tags);
   } catch (error) {
     logError('Failed to fetch tags', error);
@@ -20,25 +30,105 @@ tagsRouter.get('/', async (req, res) => {
 });
 
 // POST a new tag
-tagsRouter.post('/', async (req, res) => {
+tagsRouter.post('/', async (req: Request, res: Response) => {
   try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
     // Validate request body
     const bodyResult = createTagSchema.safeParse(req.body);
     if (!bodyResult.success) {
-      return res.status(400).json({ 
-        error: 'Invalid tag data', 
-        details: bodyResult.error.errors 
+      return res.status(400).json({
+        error: 'Invalid tag data',
+        details: bodyResult.error.errors
       });
     }
-    
-    const tag = await tagService.createTag(bodyResult.data);
-    res.status(201).json(tag);
+
+    const result = await tagService.createTag(req.user.id, bodyResult.data);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error, message: result.error });
+    }
+    res.status(201).json(result.tag);
   } catch (error: unknown) {
     logError('Tag creation error', error);
-    const message = error instanceof Error ? error.message : 'Failed to create tag';
-    const statusCode = message.includes('already exists') ? 409 : 500;
-    res.status(statusCode).json(createErrorResponse(message, error, true));
+    res.status(500).json(createErrorResponse('Failed to create tag', error, true));
   }
 });
 
+// POST merge one tag into another; the source tag is deleted
+tagsRouter.post('/merge', apiRateLimit, csrfProtection, async (req: Request, res: Response) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const bodyResult = mergeTagsSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({ error: 'Invalid merge request', details: bodyResult.error.errors });
+    }
+
+    const { sourceTagId, targetTagId } = bodyResult.data;
+    const result = await tagService.mergeTags(req.user.id, sourceTagId, targetTagId);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json(result.tag);
+  } catch (error: unknown) {
+    logError('Tag merge error', error);
+    res.status(500).json(createErrorResponse('Failed to merge tags', error, true));
+  }
+});
+
+// PATCH rename or recolor a tag
+tagsRouter.patch(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateTagId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const bodyResult = updateTagSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return res.status(400).json({ error: 'Invalid tag data', details: bodyResult.error.errors });
+      }
+
+      const result = await tagService.updateTag(req.user.id, req.params.id, bodyResult.data);
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.tag);
+    } catch (error: unknown) {
+      logError('Tag update error', error);
+      res.status(500).json(createErrorResponse('Failed to update tag', error, true));
+    }
+  }
+);
+
+// DELETE a tag and remove it from every contact and task
+tagsRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateTagId,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const deleted = await tagService.deleteTag(req.user.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Tag deletion error', error);
+      res.status(500).json(createErrorResponse('Failed to delete tag', error, true));
+    }
+  }
+);
+
 export default tagsRouter;
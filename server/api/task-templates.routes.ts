@@ -0,0 +1,153 @@
+import { Router, type Request, type Response } from 'express';
+import { taskTemplateService } from '../services/task-template.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateTaskTemplateId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  createTaskTemplateSchema,
+  updateTaskTemplateSchema,
+  instantiateTaskTemplateSchema,
+} from '../schemas/task-template.schemas.js';
+
+const taskTemplatesRouter = Router();
+
+taskTemplatesRouter.use(requireAuth);
+
+// GET the user's task templates
+taskTemplatesRouter.get('/', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const templates = await taskTemplateService.getTemplates(req.user.id);
+    res.json(templates);
+  } catch (error: unknown) {
+    logError('Failed to fetch task templates', error);
+    res.status(500).json(createErrorResponse('Failed to fetch task templates', error, true));
+  }
+});
+
+// POST create a template
+taskTemplatesRouter.post(
+  '/',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createTaskTemplateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid task template', details: result.error.errors });
+        return;
+      }
+
+      const template = await taskTemplateService.createTemplate(req.user.id, result.data);
+      res.status(201).json(template);
+    } catch (error: unknown) {
+      logError('Failed to create task template', error);
+      res.status(500).json(createErrorResponse('Failed to create task template', error, true));
+    }
+  }
+);
+
+// POST create a task and its subtasks from a template, for a contact and/or project
+taskTemplatesRouter.post(
+  '/:id/instantiate',
+  apiRateLimit,
+  csrfProtection,
+  validateTaskTemplateId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = instantiateTaskTemplateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid template options', details: result.error.errors });
+        return;
+      }
+
+      const outcome = await taskTemplateService.instantiateTemplate(req.user.id, req.params.id, result.data);
+      if (!outcome.success) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+      res.status(201).json(outcome.task);
+    } catch (error: unknown) {
+      logError('Failed to create task from template', error);
+      res.status(500).json(createErrorResponse('Failed to create task from template', error, true));
+    }
+  }
+);
+
+// PATCH a template; tasks already created from it are not changed
+taskTemplatesRouter.patch(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateTaskTemplateId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = updateTaskTemplateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid task template', details: result.error.errors });
+        return;
+      }
+
+      const template = await taskTemplateService.updateTemplate(req.user.id, req.params.id, result.data);
+      if (!template) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+      res.json(template);
+    } catch (error: unknown) {
+      logError('Failed to update task template', error);
+      res.status(500).json(createErrorResponse('Failed to update task template', error, true));
+    }
+  }
+);
+
+// DELETE a template
+taskTemplatesRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateTaskTemplateId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await taskTemplateService.deleteTemplate(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Failed to delete task template', error);
+      res.status(500).json(createErrorResponse('Failed to delete task template', error, true));
+    }
+  }
+);
+
+export default taskTemplatesRouter;
@@ -9,7 +9,9 @@ import {
   updateTaskSchema,
   taskQuerySchema,
   delegateTaskSchema,
-  bulkCreateTaskSchema
+  bulkCreateTaskSchema,
+  reorderTasksSchema,
+  rejectTaskSchema
 } from '../schemas/task.schemas.js';
 
 const tasksRouter = Router();
@@ -61,6 +63,23 @@ tasksRouter.get('/analytics', async (req: Request, res: Response) => {
   }
 });
 
+// GET the activity history of a task: who (user, AI assistant or system) changed what, and when
+tasksRouter.get('/:id/activity', async (req: Request, res: Response) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const activities = await taskService.getTaskActivity(req.user.id, req.params.id);
+    if (!activities) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    res.json(activities);
+  } catch (error: unknown) {
+    logError('Get task activity error', error);
+    res.status(500).json(createErrorResponse('Failed to fetch task activity', error, true));
+  }
+});
+
 // GET a single task with details
 tasksRouter.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -91,13 +110,13 @@ tasksRouter.post('/', async (req, res) => {
       });
     }
     
-    const { dueDate, ...taskData } = bodyResult.data;
+    const { dueDate, tagIds, ...taskData } = bodyResult.data;
     const processedTaskData = {
       ...taskData,
       dueDate: dueDate ? new Date(dueDate) : undefined
     };
     
-    const task = await taskService.createTask(req.user.id, processedTaskData);
+    const task = await taskService.createTask(req.user.id, processedTaskData, tagIds);
     res.status(201).json(task);
   } catch (error: unknown) {
     logError('Create task error', error);
@@ -121,11 +140,12 @@ tasksRouter.post('/delegate-to-ai', async (req, res) => {
       });
     }
     
-    const { title, description, contactIds, priority, dueDate } = bodyResult.data;
+    const { title, description, contactIds, groupIds, priority, dueDate } = bodyResult.data;
     const task = await taskService.delegateTaskToAI(req.user.id, {
       title,
       description,
       contactIds,
+      groupIds,
       priority,
       dueDate: dueDate ? new Date(dueDate) : undefined,
     });
@@ -173,6 +193,78 @@ tasksRouter.post('/bulk-create', async (req, res) => {
   }
 });
 
+// POST new board positions for tasks; all moves are saved together or not at all
+tasksRouter.post('/reorder', async (req: Request, res: Response) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const bodyResult = reorderTasksSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({
+        error: 'Invalid task order',
+        details: bodyResult.error.errors
+      });
+    }
+
+    const result = await taskService.reorderTasks(req.user.id, bodyResult.data.tasks);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json(result.tasks);
+  } catch (error: unknown) {
+    logError('Reorder tasks error', error);
+    res.status(500).json(createErrorResponse('Failed to reorder tasks', error, true));
+  }
+});
+
+// POST approval of a task that waits for it
+tasksRouter.post('/:id/approve', async (req: Request, res: Response) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    const task = await taskService.reviewTask(req.user.id, req.params.id, { approved: true });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    res.json(task);
+  } catch (error: unknown) {
+    logError('Approve task error', error);
+    res.status(500).json(createErrorResponse('Failed to approve task', error, true));
+  }
+});
+
+// POST rejection of a task, with an optional reason; the task is cancelled
+tasksRouter.post('/:id/reject', async (req: Request, res: Response) => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const bodyResult = rejectTaskSchema.safeParse(req.body ?? {});
+    if (!bodyResult.success) {
+      return res.status(400).json({
+        error: 'Invalid rejection',
+        details: bodyResult.error.errors
+      });
+    }
+
+    const task = await taskService.reviewTask(req.user.id, req.params.id, {
+      approved: false,
+      reason: bodyResult.data.reason,
+    });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    res.json(task);
+  } catch (error: unknown) {
+    logError('Reject task error', error);
+    res.status(500).json(createErrorResponse('Failed to reject task', error, true));
+  }
+});
+
 // PATCH an existing task
 tasksRouter.patch('/:id', async (req, res) => {
   try {
@@ -189,13 +281,16 @@ tasksRouter.patch('/:id', async (req, res) => {
       });
     }
     
-    const { dueDate, ...updates } = bodyResult.data;
+    const { dueDate, tagIds, ...updates } = bodyResult.data;
     const processedUpdates = {
       ...updates,
       dueDate: dueDate ? new Date(dueDate) : undefined,
     };
     
-    const task = await taskService.updateTask(req.user.id, req.params.id, processedUpdates);
+    const task = await taskService.updateTask(req.user.id, req.params.id, processedUpdates, tagIds);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
     res.json(task);
   } catch (error: unknown) {
     logError('Update task error', error);
@@ -0,0 +1,202 @@
+import { Router, type Request, type Response } from 'express';
+import { taskTimeService } from '../services/task-time.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  csrfProtection,
+  validateTimeEntryId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import {
+  timeEntryQuerySchema,
+  startTimerSchema,
+  createTimeEntrySchema,
+  timeReportQuerySchema,
+} from '../schemas/task-time.schemas.js';
+
+const timeEntriesRouter = Router();
+
+timeEntriesRouter.use(requireAuth);
+
+// GET the time entries of a task, newest first
+timeEntriesRouter.get('/', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const result = timeEntryQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({ error: 'Invalid query parameters', details: result.error.errors });
+      return;
+    }
+
+    const entries = await taskTimeService.getEntries(req.user.id, result.data.taskId);
+    if (!entries) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    res.json(entries);
+  } catch (error: unknown) {
+    logError('Failed to fetch time entries', error);
+    res.status(500).json(createErrorResponse('Failed to fetch time entries', error, true));
+  }
+});
+
+// GET estimated vs tracked time per project and per contact
+timeEntriesRouter.get(
+  '/report',
+  apiRateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = timeReportQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid query parameters', details: result.error.errors });
+        return;
+      }
+
+      const report = await taskTimeService.getEstimateReport(req.user.id, result.data);
+      res.json(report);
+    } catch (error: unknown) {
+      logError('Failed to build time report', error);
+      res.status(500).json(createErrorResponse('Failed to build time report', error, true));
+    }
+  }
+);
+
+// GET the user's running timer, or null
+timeEntriesRouter.get(
+  '/timer',
+  apiRateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const entry = await taskTimeService.getRunningTimer(req.user.id);
+      res.json(entry ?? null);
+    } catch (error: unknown) {
+      logError('Failed to fetch running timer', error);
+      res.status(500).json(createErrorResponse('Failed to fetch running timer', error, true));
+    }
+  }
+);
+
+// POST start a timer on a task
+timeEntriesRouter.post(
+  '/timer/start',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = startTimerSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid timer', details: result.error.errors });
+        return;
+      }
+
+      const outcome = await taskTimeService.startTimer(req.user.id, result.data.taskId);
+      if (!outcome.success) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+      res.status(201).json(outcome.entry);
+    } catch (error: unknown) {
+      logError('Failed to start timer', error);
+      res.status(500).json(createErrorResponse('Failed to start timer', error, true));
+    }
+  }
+);
+
+// POST stop the running timer; its minutes are added to the task's actual time
+timeEntriesRouter.post(
+  '/timer/stop',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const outcome = await taskTimeService.stopTimer(req.user.id);
+      if (!outcome.success) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+      res.json(outcome.entry);
+    } catch (error: unknown) {
+      logError('Failed to stop timer', error);
+      res.status(500).json(createErrorResponse('Failed to stop timer', error, true));
+    }
+  }
+);
+
+// POST time entered by hand
+timeEntriesRouter.post(
+  '/',
+  apiRateLimit,
+  csrfProtection,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const result = createTimeEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid time entry', details: result.error.errors });
+        return;
+      }
+
+      const outcome = await taskTimeService.addManualEntry(req.user.id, result.data);
+      if (!outcome.success) {
+        res.status(outcome.status).json({ error: outcome.error });
+        return;
+      }
+      res.status(201).json(outcome.entry);
+    } catch (error: unknown) {
+      logError('Failed to add time entry', error);
+      res.status(500).json(createErrorResponse('Failed to add time entry', error, true));
+    }
+  }
+);
+
+// DELETE a time entry; its minutes are taken off the task's actual time
+timeEntriesRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateTimeEntryId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await taskTimeService.deleteEntry(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Time entry not found' });
+        return;
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      logError('Failed to delete time entry', error);
+      res.status(500).json(createErrorResponse('Failed to delete time entry', error, true));
+    }
+  }
+);
+
+export default timeEntriesRouter;
@@ -0,0 +1,200 @@
+import { Router, type Request, type Response } from 'express';
+import multer from 'multer';
+import { voiceNoteService, VOICE_NOTE_MIME_TYPES } from '../services/voice-note.service.js';
+import { requireAuth } from '../utils/jwt-auth.js';
+import {
+  apiRateLimit,
+  uploadRateLimit,
+  csrfProtection,
+  validateVoiceNoteId,
+  handleValidationErrors,
+} from '../utils/security.js';
+import { isAuthenticatedUser } from '../utils/type-guards.js';
+import { createErrorResponse, logError } from '../utils/error-handling.js';
+import { voiceNoteQuerySchema, voiceNoteUploadSchema } from '../schemas/voice-note.schemas.js';
+
+const voiceNotesRouter = Router();
+
+voiceNotesRouter.use(requireAuth);
+
+// Recordings are written to private storage by the service once the contact is checked
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 }, // 25MB, the Whisper API limit
+  fileFilter: (_req, file, cb) => {
+    if (VOICE_NOTE_MIME_TYPES.includes(file.mimetype.split(';')[0].trim().toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only audio recordings are allowed'));
+    }
+  },
+});
+
+// GET the voice notes recorded for a contact
+voiceNotesRouter.get('/', apiRateLimit, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!isAuthenticatedUser(req.user)) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+    const result = voiceNoteQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({ error: 'Invalid query', details: result.error.errors });
+      return;
+    }
+
+    const notes = await voiceNoteService.getVoiceNotes(req.user.id, result.data.contactId);
+    if (!notes) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+    res.json(notes);
+  } catch (error: unknown) {
+    logError('Failed to fetch voice notes', error);
+    res.status(500).json(createErrorResponse('Failed to fetch voice notes', error, true));
+  }
+});
+
+// POST upload a recording; transcription and the timeline entry follow in the background
+voiceNotesRouter.post(
+  '/',
+  uploadRateLimit,
+  csrfProtection,
+  upload.single('audio'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'No audio uploaded' });
+        return;
+      }
+      const result = voiceNoteUploadSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid voice note', details: result.error.errors });
+        return;
+      }
+
+      const note = await voiceNoteService.upload(
+        req.user.id,
+        result.data.contactId,
+        req.file,
+        result.data.durationSeconds
+      );
+      if (!note) {
+        res.status(404).json({ error: 'Contact not found' });
+        return;
+      }
+      res.status(201).json(note);
+    } catch (error: unknown) {
+      logError('Failed to upload voice note', error);
+      res.status(500).json(createErrorResponse('Failed to upload voice note', error, true));
+    }
+  }
+);
+
+// GET a voice note, e.g. to follow its processing status
+voiceNotesRouter.get(
+  '/:id',
+  apiRateLimit,
+  validateVoiceNoteId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const note = await voiceNoteService.getVoiceNote(req.user.id, req.params.id);
+      if (!note) {
+        res.status(404).json({ error: 'Voice note not found' });
+        return;
+      }
+      res.json(note);
+    } catch (error: unknown) {
+      logError('Failed to fetch voice note', error);
+      res.status(500).json(createErrorResponse('Failed to fetch voice note', error, true));
+    }
+  }
+);
+
+// GET the recording itself
+voiceNotesRouter.get(
+  '/:id/audio',
+  apiRateLimit,
+  validateVoiceNoteId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const audioPath = await voiceNoteService.getAudioPath(req.user.id, req.params.id);
+      if (!audioPath) {
+        res.status(404).json({ error: 'Voice note not found' });
+        return;
+      }
+      res.sendFile(audioPath);
+    } catch (error: unknown) {
+      logError('Failed to stream voice note', error);
+      res.status(500).json(createErrorResponse('Failed to stream voice note', error, true));
+    }
+  }
+);
+
+// POST process a failed voice note again
+voiceNotesRouter.post(
+  '/:id/retry',
+  apiRateLimit,
+  csrfProtection,
+  validateVoiceNoteId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const note = await voiceNoteService.retry(req.user.id, req.params.id);
+      if (!note) {
+        res.status(404).json({ error: 'No failed voice note found' });
+        return;
+      }
+      res.json(note);
+    } catch (error: unknown) {
+      logError('Failed to retry voice note', error);
+      res.status(500).json(createErrorResponse('Failed to retry voice note', error, true));
+    }
+  }
+);
+
+// DELETE a voice note and its recording
+voiceNotesRouter.delete(
+  '/:id',
+  apiRateLimit,
+  csrfProtection,
+  validateVoiceNoteId,
+  handleValidationErrors,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!isAuthenticatedUser(req.user)) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+      const deleted = await voiceNoteService.deleteVoiceNote(req.user.id, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Voice note not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: unknown) {
+      logError('Failed to delete voice note', error);
+      res.status(500).json(createErrorResponse('Failed to delete voice note', error, true));
+    }
+  }
+);
+
+export default voiceNotesRouter;
@@ -36,6 +36,7 @@ interface ProcessingResult {
 interface UserProcessingResult {
   processed: number;
   errors: number;
+  budgetSkipped: number;
 }
 
 class BatchProcessCalendarEventsBrain {
@@ -65,28 +66,39 @@ class BatchProcessCalendarEventsBrain {
 
       let totalProcessed = 0;
       let totalErrors = 0;
+      let totalBudgetSkipped = 0;
 
-      // Process each user sequentially to respect rate limits
+      // Start users one at a time to respect rate limits, without waiting for each to finish:
+      // a user held back by the 'queue' budget policy would otherwise hold up everyone after them
+      const userRuns: Promise<UserProcessingResult>[] = [];
       for (const user of users) {
-        try {
-          const result = await this.processUserEvents(user.id);
-          totalProcessed += result.processed;
-          totalErrors += result.errors;
-
-          // Add delay between users to respect API rate limits
-          if (users.indexOf(user) < users.length - 1) {
-            await this.sleep(this.DEFAULT_DELAY_BETWEEN_USERS);
-          }
-        } catch (error) {
-          console.error(`❌ Error processing user ${user.id}:`, error);
-          totalErrors++;
+        userRuns.push(this.processUserEvents(user.id));
+
+        // Add delay between users to respect API rate limits
+        if (users.indexOf(user) < users.length - 1) {
+          await this.sleep(this.DEFAULT_DELAY_BETWEEN_USERS);
         }
       }
 
+      const settled = await Promise.allSettled(userRuns);
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          totalProcessed += outcome.value.processed;
+          totalErrors += outcome.value.errors;
+          totalBudgetSkipped += outcome.value.budgetSkipped;
+        } else {
+          console.error(`❌ Error processing user ${users[index].id}:`, outcome.reason);
+          totalErrors++;
+        }
+      });
+
       // Log final results and cost summary
       console.log(`✅ Batch processing complete!`);
       console.log(`📊 Events processed: ${totalProcessed}`);
       console.log(`❌ Events failed: ${totalErrors}`);
+      if (totalBudgetSkipped > 0) {
+        console.log(`💸 Events deferred by budget limits: ${totalBudgetSkipped}`);
+      }
 
       // Get daily usage summary from cost service (aggregated across all users)
       // Note: Using first user's ID as a representative for daily usage summary
@@ -117,14 +129,14 @@ class BatchProcessCalendarEventsBrain {
 
       if (unprocessedEvents.length === 0) {
         console.log(`ℹ️ No unprocessed events for user ${userId}`);
-        return { processed: 0, errors: 0 };
+        return { processed: 0, errors: 0, budgetSkipped: 0 };
       }
 
       console.log(`📅 Processing ${unprocessedEvents.length} events for user ${userId}`);
 
       // Create batch operations for concurrency controller
       const operations = unprocessedEvents.map((event) => ({
-        operation: () => this.processCalendarEvent(event, userContacts, userId),
+        operation: (model: string) => this.processCalendarEvent(event, userContacts, userId, model),
         userId,
         model: this.MODEL_NAME,
         priority: 'normal' as LLMRequestPriority,
@@ -135,17 +147,22 @@ class BatchProcessCalendarEventsBrain {
         batchSize: this.DEFAULT_BATCH_SIZE,
         delayBetweenBatches: this.DEFAULT_DELAY_BETWEEN_BATCHES,
         timeout: 60000, // 60 second timeout per operation
+        deferOverBudget: true, // Hold events until the budget resets under the 'queue' policy
       };
 
       // Execute batch processing with concurrency control
       const results = await llmConcurrencyController.executeBatch(operations, batchOptions);
 
-      // Count successes and failures
+      // Count successes and failures; budget-skipped events stay unprocessed for the next run
       const processed = results.filter((r) => r.success).length;
-      const errors = results.filter((r) => !r.success).length;
+      const budgetSkipped = results.filter((r) => r.budgetError).length;
+      const errors = results.filter((r) => !r.success && !r.budgetError).length;
 
+      if (budgetSkipped > 0) {
+        console.warn(`💸 User ${userId}: ${budgetSkipped} events skipped - ${results.find((r) => r.budgetError)?.error}`);
+      }
       console.log(`✅ User ${userId}: ${processed} processed, ${errors} errors`);
-      return { processed, errors };
+      return { processed, errors, budgetSkipped };
     } catch (error) {
       console.error(`❌ Error processing user ${userId}:`, error);
       throw error;
@@ -159,18 +176,19 @@ class BatchProcessCalendarEventsBrain {
   private async processCalendarEvent(
     event: CalendarEvent,
     contacts: Contact[],
-    userId: string
+    userId: string,
+    model: string = this.MODEL_NAME
   ): Promise<ProcessingResult> {
     try {
       // Analyze calendar event using OpenRouter with proper types
       const extractedData = await openRouterService.analyzeCalendarEvent(
         event,
         contacts,
-        this.MODEL_NAME
+        model
       );
 
       // Track LLM usage for cost monitoring
-      await llmCostService.trackUsage(userId, this.ESTIMATED_TOKENS_PER_EVENT, this.MODEL_NAME);
+      await llmCostService.trackUsage(userId, this.ESTIMATED_TOKENS_PER_EVENT, model);
 
       // Mark event as processed in storage
       const eventHash = storage.calendar.getEventHash(event);
@@ -179,7 +197,7 @@ class BatchProcessCalendarEventsBrain {
         eventHash,
         true,
         extractedData,
-        this.MODEL_NAME
+        model
       );
 
       console.log(`✅ Processed calendar event: ${event.id}`);
@@ -196,7 +214,7 @@ class BatchProcessCalendarEventsBrain {
           eventHash,
           false,
           undefined,
-          this.MODEL_NAME
+          model
         );
       } catch (markError) {
         console.error(`❌ Failed to mark event ${event.id} as processed:`, markError);
@@ -3,6 +3,7 @@ import type { ContactData } from '../types/external-apis.js';
 import type { CalendarEventAnalysis, StorageInterface } from '../types/service-contracts.js';
 import { llmConcurrencyController } from '../utils/llm-concurrency-controller.js';
 import { llmCostTracker } from '../utils/llm-cost-tracker.js';
+import type { BudgetExceededError } from '../utils/error-handling.js';
 import { CalendarFilterBrain } from './calendar-filter.brain.js';
 import { CalendarExtractBrain } from './calendar-extract.brain.js';
 
@@ -27,6 +28,9 @@ export type BatchOrchestrationOutput = {
   failedEvents: string[];
   totalProcessed: number;
   totalCost: number;
+  /** Set when the user's LLM budget stopped the batch; those events are left unprocessed */
+  budgetError?: BudgetExceededError;
+  budgetSkippedEvents: string[];
 };
 
 // Default analysis for failed/irrelevant events
@@ -68,7 +72,7 @@ export class CalendarBatchOrchestrationBrain {
     const { events, contacts, userId, useFreeModel = false } = input;
 
     // Get cost-optimized model recommendation
-    const costRecommendation = llmCostTracker.getModelRecommendation(
+    const costRecommendation = await llmCostTracker.getModelRecommendation(
       userId,
       'calendar_analysis',
       events.length * 500 // Estimate 500 tokens per event
@@ -85,7 +89,8 @@ export class CalendarBatchOrchestrationBrain {
 
     // Process events using controlled concurrency
     const operations = events.map((event) => ({
-      operation: () => this.processSingleEvent(event, contacts, modelToUse, userId, provider),
+      // The controller may swap in the free model when the user's budget policy is 'downgrade'
+      operation: (model: string) => this.processSingleEvent(event, contacts, model, userId, provider),
       userId,
       model: modelToUse,
       priority: 'medium' as const,
@@ -99,6 +104,8 @@ export class CalendarBatchOrchestrationBrain {
     // Extract successful results and handle failures
     const successfulResults: CalendarEventAnalysis[] = [];
     const failedEvents: string[] = [];
+    const budgetSkippedEvents: string[] = [];
+    let budgetError: BudgetExceededError | undefined;
     const _totalCost = 0;
 
     for (let i = 0; i < results.length; i++) {
@@ -107,6 +114,10 @@ export class CalendarBatchOrchestrationBrain {
 
       if (result.success && result.result) {
         successfulResults.push(result.result);
+      } else if (result.budgetError) {
+        // Leave unprocessed so the event is picked up once the budget resets
+        budgetError = result.budgetError;
+        budgetSkippedEvents.push(event.id);
       } else {
         failedEvents.push(event.id);
         console.error(`Failed to process event ${event.id}: ${result.error}`);
@@ -123,12 +134,17 @@ export class CalendarBatchOrchestrationBrain {
     if (failedEvents.length > 0) {
       console.warn(`Failed to process ${failedEvents.length} out of ${events.length} events`);
     }
+    if (budgetError) {
+      console.warn(`Skipped ${budgetSkippedEvents.length} events: ${budgetError.message}`);
+    }
 
     return {
       successfulResults,
       failedEvents,
       totalProcessed: successfulResults.length,
       totalCost: costRecommendation.estimatedCost,
+      budgetError,
+      budgetSkippedEvents,
     };
   }
 
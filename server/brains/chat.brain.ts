@@ -1,4 +1,5 @@
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { z } from 'zod';
 import { sanitizeForLLM } from '../utils/sanitizers.js';
 
 // A generic interface for the LLM provider.
@@ -10,24 +11,122 @@ interface LLMProvider {
   ): Promise<string>;
 }
 
+// A provider that can also stream completions as text deltas.
+interface StreamingLLMProvider extends LLMProvider {
+  streamCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    signal?: AbortSignal
+  ): AsyncIterable<string>;
+}
+
+// A prior turn of the conversation, oldest first.
+export type ChatTurn = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+// Earlier conversation carried into the prompt: a summary of turns that fell out of
+// the history window, followed by the recent turns verbatim.
+export type ChatConversation = {
+  summary?: string | null;
+  history: ChatTurn[];
+};
+
+// A function the assistant may call while answering. Tools that change data must only
+// draft an AI suggestion for the practitioner to approve, never write directly.
+export type ChatTool = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments, shown to the model
+  execute(args: unknown): Promise<unknown>;
+};
+
+export type ChatToolCall = {
+  tool: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: string;
+};
+
+export type ChatBrainResult = {
+  content: string;
+  toolCalls: ChatToolCall[];
+  usage: { promptCharacters: number; completionCharacters: number };
+};
+
+// Tool calls are plain JSON so the loop works with any provider, including ones without native
+// tool calling. Final answers are prose so they can be streamed as they are generated.
+const toolReplySchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('tool_call'),
+    tool: z.string(),
+    arguments: z.record(z.unknown()).default({}),
+  }),
+  z.object({
+    type: z.literal('final'),
+    content: z.string(),
+  }),
+]);
+
+type ToolReply = z.infer<typeof toolReplySchema>;
+
+const FALLBACK_REPLY = "I'm sorry, I couldn't generate a response at this time.";
+const DEFAULT_MAX_TOOL_CALLS = 5;
+const TOOL_LIMIT_PROMPT = 'Tool limit reached. Answer now in plain text using the results you have.';
+
+const countCharacters = (messages: ChatCompletionMessageParam[]): number =>
+  messages.reduce((sum, msg) => sum + (typeof msg.content === 'string' ? msg.content.length : 0), 0);
+
 export class ChatBrain {
+  private buildToolInstructions(tools: ChatTool[]): string {
+    const toolList = tools
+      .map((tool) => `- ${tool.name}: ${tool.description}\n  Arguments: ${JSON.stringify(tool.parameters)}`)
+      .join('\n');
+
+    return `
+      You can use tools to look up or act on the practitioner's CRM data. Today is ${new Date().toISOString().split('T')[0]}.
+      To call a tool, reply with only this JSON: {"type":"tool_call","tool":"<name>","arguments":{...}}
+      Tool results are returned to you as a TOOL_RESULT message. Call one tool at a time.
+      When you can answer, reply in plain text without any JSON.
+      Tools that create or change data only draft a suggestion; tell the practitioner it is waiting for
+      their approval in AI Suggestions. Never claim a change has been made.
+
+      Available tools:
+${toolList}
+`;
+  }
+
   private buildMessages(
     rawMessage: string,
-    rawContext?: Record<string, unknown>
+    rawContext?: Record<string, unknown>,
+    conversation?: ChatConversation,
+    tools: ChatTool[] = []
   ): ChatCompletionMessageParam[] {
     const sanitizedMessage = sanitizeForLLM(rawMessage);
     const sanitizedContext = rawContext
       ? sanitizeForLLM(JSON.stringify(rawContext, null, 2))
       : 'No specific context provided';
+    const summarySection = conversation?.summary
+      ? `\n      Summary of the earlier conversation: ${sanitizeForLLM(conversation.summary)}\n`
+      : '';
+
+    const toolSection = tools.length > 0 ? this.buildToolInstructions(tools) : '';
 
-    const systemPrompt = `You are an AI assistant for a wellness solopreneur's client relationship management system. 
-      You help analyze client data, provide insights, and suggest next steps for client care. 
+    const systemPrompt = `You are an AI assistant for a wellness solopreneur's client relationship management system.
+      You help analyze client data, provide insights, and suggest next steps for client care.
       Be professional, empathetic, and focused on wellness outcomes.
-      
+      ${summarySection}${toolSection}
       Current context: ${sanitizedContext}`;
 
+    const history: ChatCompletionMessageParam[] = (conversation?.history ?? []).map((turn) => ({
+      role: turn.role,
+      content: sanitizeForLLM(turn.content),
+    }));
+
     return [
       { role: 'system', content: systemPrompt },
+      ...history,
       { role: 'user', content: sanitizedMessage },
     ];
   }
@@ -36,15 +135,229 @@ export class ChatBrain {
     provider: LLMProvider,
     model: string,
     message: string,
-    context?: Record<string, unknown>
+    context?: Record<string, unknown>,
+    conversation?: ChatConversation
   ): Promise<string> {
-    const messages = this.buildMessages(message, context);
+    const messages = this.buildMessages(message, context, conversation);
 
     try {
       return await provider.generateCompletion(model, messages, false);
     } catch (error) {
       console.error('Chat brain execution failed:', error);
-      return "I'm sorry, I couldn't generate a response at this time.";
+      return FALLBACK_REPLY;
+    }
+  }
+
+  /**
+   * Answer a message, letting the model call tools until it produces a final reply.
+   * Stops after maxToolCalls and asks the model to answer with what it has.
+   */
+  async executeWithTools(
+    provider: LLMProvider,
+    model: string,
+    message: string,
+    tools: ChatTool[],
+    options: {
+      context?: Record<string, unknown>;
+      conversation?: ChatConversation;
+      maxToolCalls?: number;
+    } = {}
+  ): Promise<ChatBrainResult> {
+    const { context, conversation, maxToolCalls = DEFAULT_MAX_TOOL_CALLS } = options;
+    const messages = this.buildMessages(message, context, conversation, tools);
+    const toolCalls: ChatToolCall[] = [];
+    const usage = { promptCharacters: 0, completionCharacters: 0 };
+
+    const complete = async (
+      turns: ChatCompletionMessageParam[]
+    ): Promise<{ raw: string; reply: ToolReply }> => {
+      usage.promptCharacters += countCharacters(turns);
+      const raw = await provider.generateCompletion(model, turns, false);
+      usage.completionCharacters += raw.length;
+      return { raw, reply: this.parseReply(raw) };
+    };
+
+    try {
+      const content = await this.runToolLoop(messages, tools, toolCalls, maxToolCalls, complete);
+      return { content, toolCalls, usage };
+    } catch (error) {
+      console.error('Chat brain tool execution failed:', error);
+      return { content: FALLBACK_REPLY, toolCalls, usage };
+    }
+  }
+
+  /**
+   * Same as executeWithTools, but passes the final answer to onToken as it is generated.
+   * Turns that start with JSON are buffered, since they are tool calls rather than answers.
+   * Aborting the signal stops generation and returns whatever was streamed so far.
+   */
+  async streamWithTools(
+    provider: StreamingLLMProvider,
+    model: string,
+    message: string,
+    tools: ChatTool[],
+    options: {
+      onToken: (text: string) => void;
+      signal?: AbortSignal;
+      context?: Record<string, unknown>;
+      conversation?: ChatConversation;
+      maxToolCalls?: number;
+    }
+  ): Promise<ChatBrainResult> {
+    const { onToken, signal, context, conversation, maxToolCalls = DEFAULT_MAX_TOOL_CALLS } = options;
+    const messages = this.buildMessages(message, context, conversation, tools);
+    const toolCalls: ChatToolCall[] = [];
+    const usage = { promptCharacters: 0, completionCharacters: 0 };
+
+    let streamed = '';
+    const emit = (text: string) => {
+      streamed += text;
+      onToken(text);
+    };
+
+    const complete = async (
+      turns: ChatCompletionMessageParam[]
+    ): Promise<{ raw: string; reply: ToolReply }> => {
+      usage.promptCharacters += countCharacters(turns);
+      let raw = '';
+      let isProse = false;
+      try {
+        for await (const delta of provider.streamCompletion(model, turns, signal)) {
+          raw += delta;
+          if (isProse) {
+            emit(delta);
+            continue;
+          }
+          const start = raw.trimStart();
+          if (start.length > 0 && !start.startsWith('{') && !start.startsWith('`')) {
+            isProse = true;
+            emit(start);
+          }
+        }
+      } finally {
+        usage.completionCharacters += raw.length;
+      }
+
+      if (isProse) {
+        return { raw, reply: { type: 'final', content: raw.trim() } };
+      }
+      const reply = this.parseReply(raw);
+      if (reply.type === 'final') emit(reply.content);
+      return { raw, reply };
+    };
+
+    try {
+      const content = await this.runToolLoop(messages, tools, toolCalls, maxToolCalls, complete);
+      if (!streamed) emit(content);
+      return { content, toolCalls, usage };
+    } catch (error) {
+      if (signal?.aborted) {
+        return { content: streamed.trim(), toolCalls, usage };
+      }
+      console.error('Chat brain streaming failed:', error);
+      if (!streamed) emit(FALLBACK_REPLY);
+      return { content: streamed.trim(), toolCalls, usage };
+    }
+  }
+
+  private async runToolLoop(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatTool[],
+    toolCalls: ChatToolCall[],
+    maxToolCalls: number,
+    complete: (turns: ChatCompletionMessageParam[]) => Promise<{ raw: string; reply: ToolReply }>
+  ): Promise<string> {
+    // Each call gets its own copy, so later tool results do not leak into earlier calls' history
+    for (let call = 0; call <= maxToolCalls; call++) {
+      const { raw, reply } = await complete([...messages]);
+      if (reply.type === 'final') return reply.content;
+      if (call === maxToolCalls) break;
+
+      const toolCall = await this.runTool(tools, reply.tool, reply.arguments);
+      toolCalls.push(toolCall);
+      messages.push(
+        { role: 'assistant', content: raw },
+        { role: 'user', content: this.formatToolResult(toolCall) }
+      );
+    }
+
+    messages.push({ role: 'user', content: TOOL_LIMIT_PROMPT });
+    const { reply } = await complete([...messages]);
+    return reply.type === 'final' ? reply.content : FALLBACK_REPLY;
+  }
+
+  private parseReply(raw: string): ToolReply {
+    const trimmed = raw
+      .trim()
+      .replace(/^```(?:json)?\s*/i, '')
+      .replace(/\s*```$/, '');
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+
+    if (start !== -1 && end > start) {
+      try {
+        const parsed = toolReplySchema.safeParse(JSON.parse(trimmed.slice(start, end + 1)));
+        if (parsed.success) return parsed.data;
+      } catch {
+        // Not JSON - treat the whole reply as the answer
+      }
+    }
+
+    // Models sometimes ignore the protocol and answer in prose
+    return { type: 'final', content: raw.trim() };
+  }
+
+  private async runTool(tools: ChatTool[], name: string, args: unknown): Promise<ChatToolCall> {
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) {
+      return { tool: name, arguments: args, error: `Unknown tool: ${name}` };
+    }
+
+    try {
+      const result = await tool.execute(args);
+      return { tool: name, arguments: args, result };
+    } catch (error) {
+      return {
+        tool: name,
+        arguments: args,
+        error: error instanceof Error ? error.message : 'Tool execution failed',
+      };
+    }
+  }
+
+  private formatToolResult(toolCall: ChatToolCall): string {
+    const payload = toolCall.error ? { error: toolCall.error } : { result: toolCall.result };
+    return `TOOL_RESULT ${toolCall.tool}: ${sanitizeForLLM(JSON.stringify(payload))}`;
+  }
+
+  /**
+   * Fold older turns into the running summary so the history window stays within budget.
+   * Returns null if no summary could be produced, so the caller keeps the turns verbatim.
+   */
+  async summarize(
+    provider: LLMProvider,
+    model: string,
+    previousSummary: string | null,
+    turns: ChatTurn[]
+  ): Promise<string | null> {
+    const transcript = turns
+      .map((turn) => `${turn.role === 'user' ? 'Practitioner' : 'Assistant'}: ${sanitizeForLLM(turn.content)}`)
+      .join('\n');
+
+    const prompt = `Summarize this conversation between a wellness practitioner and their CRM assistant.
+      Keep client names, decisions, open questions and anything the practitioner asked to be remembered.
+      Write at most 200 words of plain prose.
+
+      ${previousSummary ? `Summary so far: ${sanitizeForLLM(previousSummary)}\n` : ''}
+      New turns:
+      ${transcript}`;
+
+    try {
+      const summary = await provider.generateCompletion(model, [{ role: 'user', content: prompt }], false);
+      return summary.trim() || null;
+    } catch (error) {
+      console.error('Chat summary generation failed:', error);
+      return null;
     }
   }
 }
@@ -0,0 +1,212 @@
+import { storage } from '../data/index.js';
+import type { Contact, Email, User } from '../../shared/schema.js';
+import type { EmailThreadAnalysis } from '../types/service-contracts.js';
+import { llmConcurrencyController } from '../utils/llm-concurrency-controller.js';
+import { llmCostTracker } from '../utils/llm-cost-tracker.js';
+import type { BudgetExceededError } from '../utils/error-handling.js';
+import { estimateTokens } from '../utils/extraction-helpers.js';
+import {
+  buildContactAddressIndex,
+  isAutomatedAddress,
+  matchEmailContacts,
+} from '../utils/email-contact-matcher.js';
+import { EmailExtractBrain } from './email-extract.brain.js';
+
+// Generic interface for LLM provider
+interface LLMProvider {
+  generateCompletion(model: string, messages: unknown[], isJson: boolean): Promise<string>;
+}
+
+export type EmailBatchInput = {
+  // Each entry holds every stored message of one thread, oldest first
+  threads: Email[][];
+  contacts: Contact[];
+  user: Pick<User, 'id' | 'email'>;
+  useFreeModel?: boolean;
+  // Background runs may wait for the budget to reset under the 'queue' policy
+  deferOverBudget?: boolean;
+};
+
+export type EmailBatchOutput = {
+  successfulResults: EmailThreadAnalysis[];
+  failedThreads: string[];
+  // Threads whose messages had not changed since they were last analyzed
+  unchangedThreads: number;
+  totalProcessed: number;
+  totalCost: number;
+  /** Set when the user's LLM budget stopped the batch; those threads are left unprocessed */
+  budgetError?: BudgetExceededError;
+  budgetSkippedThreads: string[];
+};
+
+// Gmail categories that never carry client conversations
+const SKIPPED_LABELS = ['CATEGORY_PROMOTIONS', 'CATEGORY_SOCIAL', 'CATEGORY_FORUMS', 'SPAM'];
+
+function irrelevantAnalysis(gmailThreadId: string, reason: string, model: string): EmailThreadAnalysis {
+  return {
+    isRelevant: false,
+    relevanceReason: reason,
+    threadSummary: '',
+    sentiment: 3,
+    requests: [],
+    commitments: [],
+    importantDates: [],
+    actionItems: [],
+    confidence: 0.9,
+    processedAt: new Date().toISOString(),
+    llmModel: model,
+    gmailThreadId,
+  };
+}
+
+/**
+ * Why a thread can be set aside without asking the LLM, if it can
+ */
+function preFilterReason(thread: Email[]): string | undefined {
+  const labels = thread.flatMap((email) => (Array.isArray(email.labels) ? (email.labels as unknown[]) : []));
+  if (labels.some((label) => typeof label === 'string' && SKIPPED_LABELS.includes(label))) {
+    return 'Filtered by pre-check: promotional or social category';
+  }
+  if (thread.every((email) => isAutomatedAddress(email.fromEmail))) {
+    return 'Filtered by pre-check: automated sender';
+  }
+  return undefined;
+}
+
+export class EmailBatchOrchestrationBrain {
+  private extractBrain = new EmailExtractBrain();
+
+  async execute(provider: LLMProvider, input: EmailBatchInput): Promise<EmailBatchOutput> {
+    const { threads, contacts, user, useFreeModel = false, deferOverBudget = false } = input;
+    const addressIndex = buildContactAddressIndex(contacts);
+    const contactNames = new Map(contacts.map((contact) => [contact.id, contact.name]));
+
+    const costRecommendation = await llmCostTracker.getModelRecommendation(
+      user.id,
+      'email_analysis',
+      threads.length * 1500 // Estimate 1500 tokens per thread
+    );
+
+    const modelToUse = useFreeModel
+      ? 'meta-llama/llama-3.1-8b-instruct:free'
+      : costRecommendation.recommendedModel;
+
+    console.log(
+      `Processing ${threads.length} email threads with model: ${modelToUse} (${costRecommendation.reason})`
+    );
+
+    let unchangedThreads = 0;
+    const operations = threads.map((thread) => ({
+      // The controller may swap in the free model when the user's budget policy is 'downgrade'
+      operation: async (model: string) => {
+        const names = [
+          ...new Set(
+            thread.flatMap((email) =>
+              matchEmailContacts(email, addressIndex, [user.email]).links.map(
+                (link) => contactNames.get(link.contactId) ?? ''
+              )
+            )
+          ),
+        ].filter(Boolean);
+        const result = await this.processThread(thread, names, model, user, provider);
+        if (result.unchanged) unchangedThreads++;
+        return result.analysis;
+      },
+      userId: user.id,
+      model: modelToUse,
+      priority: 'low' as const,
+    }));
+
+    const results = await llmConcurrencyController.executeBatch(operations, {
+      batchSize: useFreeModel ? 5 : 10,
+      delayBetweenBatches: useFreeModel ? 500 : 200,
+      deferOverBudget,
+    });
+
+    const successfulResults: EmailThreadAnalysis[] = [];
+    const failedThreads: string[] = [];
+    const budgetSkippedThreads: string[] = [];
+    let budgetError: BudgetExceededError | undefined;
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const threadId = threads[i][0]?.gmailThreadId ?? '';
+
+      if (result.success && result.result) {
+        successfulResults.push(result.result);
+      } else if (result.budgetError) {
+        // Leave unprocessed so the thread is picked up once the budget resets
+        budgetError = result.budgetError;
+        budgetSkippedThreads.push(threadId);
+      } else {
+        failedThreads.push(threadId);
+        console.error(`Failed to process email thread ${threadId}: ${result.error}`);
+      }
+    }
+
+    if (failedThreads.length > 0) {
+      console.warn(`Failed to process ${failedThreads.length} out of ${threads.length} email threads`);
+    }
+    if (budgetError) {
+      console.warn(`Skipped ${budgetSkippedThreads.length} email threads: ${budgetError.message}`);
+    }
+
+    return {
+      successfulResults,
+      failedThreads,
+      unchangedThreads,
+      totalProcessed: successfulResults.length,
+      totalCost: costRecommendation.estimatedCost,
+      budgetError,
+      budgetSkippedThreads,
+    };
+  }
+
+  /**
+   * Analyze one thread unless its hash shows it is unchanged, in which case the stored analysis
+   * is returned without calling the LLM
+   */
+  private async processThread(
+    thread: Email[],
+    contactNames: string[],
+    model: string,
+    user: Pick<User, 'id' | 'email'>,
+    provider: LLMProvider
+  ): Promise<{ analysis: EmailThreadAnalysis; unchanged: boolean }> {
+    const gmailThreadId = thread[0].gmailThreadId;
+    const threadHash = storage.emails.getThreadHash(thread);
+
+    if (!(await storage.emails.shouldProcessThread(user.id, gmailThreadId, threadHash))) {
+      const processed = await storage.emails.findProcessedThread(user.id, gmailThreadId);
+      if (processed?.analysis) {
+        console.log(`Email thread ${gmailThreadId} already processed and unchanged, skipping...`);
+        return { analysis: processed.analysis as EmailThreadAnalysis, unchanged: true };
+      }
+    }
+
+    const skipReason = preFilterReason(thread);
+    const analysis = skipReason
+      ? irrelevantAnalysis(gmailThreadId, skipReason, 'none')
+      : await this.extractBrain.execute(provider, model, { thread, userEmail: user.email, contactNames });
+
+    if (!skipReason) {
+      const { cost, alerts } = await llmCostTracker.trackUsage(
+        user.id,
+        model,
+        estimateTokens(thread.map((email) => email.bodyText ?? email.snippet)),
+        estimateTokens(analysis),
+        'email_analysis',
+        `thread_${gmailThreadId}`
+      );
+      if (cost > 0) {
+        console.log(`Email thread ${gmailThreadId} processing cost: $${cost.toFixed(4)}`);
+      }
+      if (alerts.length > 0) {
+        console.warn(`Budget alerts for user ${user.id}:`, alerts);
+      }
+    }
+
+    await storage.emails.markThreadProcessed(user.id, gmailThreadId, threadHash, analysis);
+    return { analysis, unchanged: false };
+  }
+}
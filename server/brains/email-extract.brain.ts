@@ -0,0 +1,143 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { Email } from '../../shared/schema.js';
+import type { EmailThreadAnalysis } from '../types/service-contracts.js';
+import { sanitizeForLLM } from '../utils/sanitizers.js';
+import {
+  extractJSON,
+  validateString,
+  validateBoolean,
+  validateStringArray,
+  validateNumber,
+} from '../utils/extraction-helpers.js';
+
+// Generic interface for LLM provider
+interface LLMProvider {
+  generateCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    isJson: boolean
+  ): Promise<string>;
+}
+
+export type EmailExtractInput = {
+  thread: Email[];
+  // The practitioner's address, so their own messages can be told apart from the client's
+  userEmail: string;
+  contactNames: string[];
+};
+
+export type EmailExtractOutput = EmailThreadAnalysis;
+
+// Long threads are cut from the oldest messages so the latest exchange is always included
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_THREAD_CHARS = 8000;
+
+function validateDates(data: unknown): EmailThreadAnalysis['importantDates'] {
+  if (!Array.isArray(data)) return [];
+  return data.flatMap((entry: unknown) => {
+    const item = entry as { date?: unknown; description?: unknown } | null;
+    if (typeof item?.date !== 'string' || typeof item.description !== 'string') return [];
+    return [{ date: item.date, description: item.description }];
+  });
+}
+
+export class EmailExtractBrain {
+  private formatThread({ thread, userEmail }: EmailExtractInput): string {
+    const messages = thread.map((email) => {
+      const author =
+        email.fromEmail.toLowerCase() === userEmail.toLowerCase()
+          ? 'PRACTITIONER'
+          : sanitizeForLLM(email.fromName ?? 'CLIENT');
+      const body = sanitizeForLLM(email.bodyText ?? email.snippet ?? '').slice(0, MAX_MESSAGE_CHARS);
+      return `--- ${author}, ${email.timestamp.toISOString()} ---\n${body}`;
+    });
+
+    let text = messages.join('\n\n');
+    while (text.length > MAX_THREAD_CHARS && messages.length > 1) {
+      messages.shift();
+      text = `[earlier messages omitted]\n\n${messages.join('\n\n')}`;
+    }
+    return text;
+  }
+
+  private buildMessages(input: EmailExtractInput): ChatCompletionMessageParam[] {
+    const subject = sanitizeForLLM(input.thread[0]?.subject ?? 'No subject');
+    const contacts = input.contactNames.map(sanitizeForLLM).join(', ') || 'None';
+
+    const prompt = `
+Extract structured data from this email thread for a wellness/coaching CRM.
+
+THREAD DETAILS:
+- Subject: ${subject}
+- Known Clients In Thread: ${contacts}
+- Messages: ${input.thread.length}
+
+MESSAGES (oldest first):
+${this.formatThread(input)}
+
+EXTRACTION REQUIREMENTS:
+1. Decide whether the thread matters for the practice (client care, bookings, payments, partners)
+   rather than newsletters, receipts or personal mail.
+2. Rate the client's sentiment in the thread.
+3. List what the client asked for and what the practitioner promised to do.
+4. List dates that were mentioned (sessions, deadlines, events) as ISO dates where possible.
+5. List the follow-ups the practitioner still needs to do.
+
+Return JSON:
+{
+  "isRelevant": boolean,
+  "relevanceReason": "Why the thread does or does not matter for the practice",
+  "threadSummary": "2-3 sentence professional summary of the thread",
+  "sentiment": 1-5 (1 = very negative, 3 = neutral, 5 = very positive),
+  "requests": ["what", "the", "client", "asked", "for"],
+  "commitments": ["what", "the", "practitioner", "promised"],
+  "importantDates": [{ "date": "YYYY-MM-DD", "description": "what happens then" }],
+  "actionItems": ["open", "follow", "ups", "for", "the", "practitioner"],
+  "confidence": 0.0-1.0
+}
+
+IMPORTANT:
+- Only include information that is actually in the thread
+- Leave arrays empty if nothing relevant is found`;
+
+    return [
+      {
+        role: 'system',
+        content:
+          'You are a professional data extraction specialist for wellness and coaching practices. Extract structured, actionable information from client email threads. Be thorough but only extract information that is clearly present in the messages.',
+      },
+      { role: 'user', content: prompt },
+    ];
+  }
+
+  async execute(
+    provider: LLMProvider,
+    model: string,
+    input: EmailExtractInput
+  ): Promise<EmailExtractOutput> {
+    const gmailThreadId = input.thread[0]?.gmailThreadId ?? '';
+    try {
+      const messages = this.buildMessages(input);
+      const rawResponse = await provider.generateCompletion(model, messages, true);
+      const result = JSON.parse(extractJSON(rawResponse)) as Partial<Record<keyof EmailThreadAnalysis, unknown>>;
+
+      return {
+        isRelevant: validateBoolean(result.isRelevant, true),
+        relevanceReason: validateString(result.relevanceReason, ''),
+        threadSummary: validateString(result.threadSummary, ''),
+        sentiment: Math.round(validateNumber(result.sentiment, 3, 1, 5)),
+        requests: validateStringArray(result.requests),
+        commitments: validateStringArray(result.commitments),
+        importantDates: validateDates(result.importantDates),
+        actionItems: validateStringArray(result.actionItems),
+        confidence: validateNumber(result.confidence, 0.5, 0, 1),
+        processedAt: new Date().toISOString(),
+        llmModel: model,
+        gmailThreadId,
+      };
+    } catch (error) {
+      console.error(`Email extract brain failed for thread ${gmailThreadId}:`, error);
+      throw new Error('Failed to analyze the email thread due to an LLM processing error.');
+    }
+  }
+}
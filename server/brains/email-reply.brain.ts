@@ -0,0 +1,113 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { Contact, Email, Goal } from '../../shared/schema.js';
+import type { EmailThreadAnalysis } from '../types/service-contracts.js';
+import { sanitizeForLLM } from '../utils/sanitizers.js';
+import { extractJSON, validateString } from '../utils/extraction-helpers.js';
+
+// A generic interface for the LLM provider.
+interface LLMProvider {
+  generateCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    isJson: boolean
+  ): Promise<string>;
+}
+
+export type EmailReplyBrainInput = {
+  practitionerName: string;
+  userEmail: string;
+  contact: Pick<Contact, 'name' | 'lifecycleStage' | 'sentiment' | 'engagementTrend' | 'notes'>;
+  goals: Goal[];
+  // Oldest first; the reply answers the last message
+  thread: Email[];
+  // What the email brain extracted from the thread, when it has been analyzed
+  threadInsights?: Partial<EmailThreadAnalysis>;
+};
+
+export type EmailReplyBrainOutput = {
+  body: string;
+};
+
+const MAX_MESSAGE_CHARS = 1500;
+const MAX_MESSAGES = 6;
+
+export class EmailReplyBrain {
+  private buildMessages(input: EmailReplyBrainInput): ChatCompletionMessageParam[] {
+    const { contact, goals, thread, threadInsights } = input;
+
+    const conversation = thread
+      .slice(-MAX_MESSAGES)
+      .map((email) => {
+        const author =
+          email.fromEmail.toLowerCase() === input.userEmail.toLowerCase() ? 'ME' : sanitizeForLLM(contact.name);
+        const body = sanitizeForLLM(email.bodyText ?? email.snippet ?? '').slice(0, MAX_MESSAGE_CHARS);
+        return `--- ${author}, ${email.timestamp.toISOString()} ---\n${body}`;
+      })
+      .join('\n\n');
+
+    const goalLines = goals
+      .filter((goal) => goal.status === 'active')
+      .map((goal) => `- ${sanitizeForLLM(goal.title)}: ${goal.currentValue ?? 0}/${goal.targetValue ?? '?'} ${goal.unit ?? ''}`)
+      .join('\n');
+
+    const insights = threadInsights
+      ? [
+          threadInsights.requests?.length ? `Open requests: ${threadInsights.requests.join('; ')}` : '',
+          threadInsights.commitments?.length ? `Your commitments: ${threadInsights.commitments.join('; ')}` : '',
+          threadInsights.actionItems?.length ? `Action items: ${threadInsights.actionItems.join('; ')}` : '',
+        ]
+          .filter(Boolean)
+          .map(sanitizeForLLM)
+          .join('\n')
+      : '';
+
+    const systemPrompt = `You draft email replies for ${sanitizeForLLM(input.practitionerName)}, a wellness practitioner, to their client ${sanitizeForLLM(contact.name)}.
+
+      CLIENT CONTEXT:
+      - Lifecycle stage: ${contact.lifecycleStage ?? 'unknown'}
+      - Recent sentiment (1-5): ${contact.sentiment ?? 'unknown'}
+      - Engagement trend: ${contact.engagementTrend ?? 'unknown'}
+      - Notes: ${sanitizeForLLM(contact.notes ?? 'None')}
+
+      ACTIVE GOALS:
+      ${goalLines || 'None'}
+
+      THREAD INSIGHTS:
+      ${insights || 'None'}
+
+      Write a warm, concise reply in the practitioner's voice that answers the client's last message.
+      Refer to goals or earlier commitments only where they fit naturally. Do not invent dates,
+      prices or promises that are not in the thread. Do not include a subject line.
+
+      Your response MUST be ONLY a valid JSON object in this exact format:
+      { "body": "The reply text, with a greeting and sign-off, using \\n for line breaks" }`;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: conversation },
+    ];
+  }
+
+  async execute(
+    provider: LLMProvider,
+    model: string,
+    input: EmailReplyBrainInput
+  ): Promise<EmailReplyBrainOutput> {
+    const messages = this.buildMessages(input);
+    let body = '';
+
+    try {
+      const rawResponse = await provider.generateCompletion(model, messages, true);
+      const result = JSON.parse(extractJSON(rawResponse)) as { body?: unknown };
+      body = validateString(result.body).trim();
+    } catch (error) {
+      console.error('Email reply brain execution failed:', error);
+      throw new Error('Failed to draft the reply due to an LLM processing error.');
+    }
+
+    if (!body) {
+      throw new Error('Failed to draft the reply: the model returned an empty draft.');
+    }
+    return { body };
+  }
+}
@@ -13,6 +13,8 @@ interface LLMProvider {
 export type SentimentAnalysisOutput = {
   rating: number;
   confidence: number;
+  // Set when the model could not be reached or its reply was unreadable; the rating is a placeholder
+  failed?: boolean;
 };
 
 export class SentimentAnalysisBrain {
@@ -74,7 +76,7 @@ export class SentimentAnalysisBrain {
       // Return default values with neutral sentiment and low confidence if any error occurs.
     } catch (error) {
       console.error('Sentiment analysis execution failed:', error);
-      return { rating: 3, confidence: 0.1 };
+      return { rating: 3, confidence: 0.1, failed: true };
     }
   }
 }
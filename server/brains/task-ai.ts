@@ -1,12 +1,24 @@
 import { storage } from '../data/index.js';
 import { aiService } from '../services/ai.service.js';
+import { contactGroupService } from '../services/contact-group.service.js';
+import { emailLinkingService } from '../services/email-linking.service.js';
 import type { Task, AiSuggestion, Contact, Tag } from '../../shared/schema.js';
-import type { AttendanceRecord } from '../types/external-apis.js';
+import type { AttendeeData } from '../types/external-apis.js';
 import type {
   AttendanceAnalysis,
+  AttendancePreview,
+  AttendanceSessionPreview,
   BulkAction,
   TaskAnalysis,
 } from '../types/service-contracts.js';
+import {
+  matchAttendeesToContacts,
+  parseAttendanceRows,
+  type AttendanceSheetLayout,
+} from '../utils/attendance-sheet-parser.js';
+import { parseCsv } from '../utils/spreadsheet-reader.js';
+import { buildContactAddressIndex, normalizeEmailAddress } from '../utils/email-contact-matcher.js';
+import { diffTaskFields } from '../utils/task-changes.js';
 import { format } from 'date-fns';
 
 // Type guard function for BulkAction
@@ -22,86 +34,178 @@ function isBulkAction(action: unknown): action is BulkAction {
     'contactIds' in actionObj &&
     typeof actionObj.type === 'string' &&
     Array.isArray(actionObj.contactIds) &&
-    ['bulk_timeline_update', 'bulk_photo_update', 'bulk_contact_update'].includes(actionObj.type)
+    [
+      'bulk_timeline_update',
+      'bulk_photo_update',
+      'bulk_contact_update',
+      'bulk_task_create',
+      'bulk_contact_create',
+    ].includes(actionObj.type)
   );
 }
 
+export interface AttendanceImportOptions {
+  jobId?: string;
+  profileId?: string;
+  layout?: AttendanceSheetLayout;
+}
+
 export class TaskAIService {
   constructor() {}
 
   /**
    * Process CSV attendance data and generate AI suggestions
+   * @param options.jobId An already claimed job to run under, e.g. for a watched Drive file
    */
   async processAttendanceCSV(
     userId: string,
     csvData: string,
-    fileName: string
+    fileName: string,
+    options: AttendanceImportOptions = {}
+  ): Promise<AiSuggestion[]> {
+    return this.processAttendanceSheet(userId, parseCsv(csvData), fileName, options);
+  }
+
+  /**
+   * Process attendance sheet rows (CSV or XLSX) into one timeline suggestion per class session
+   * @param options.layout Column mapping from an import profile; columns are detected without one
+   */
+  async processAttendanceSheet(
+    userId: string,
+    rows: string[][],
+    fileName: string,
+    options: AttendanceImportOptions = {}
   ): Promise<AiSuggestion[]> {
-    console.log(`Processing attendance CSV: ${fileName} for user ${userId}`);
+    console.log(`Processing attendance sheet: ${fileName} for user ${userId}`);
 
+    const inputData = { fileName, rowCount: rows.length, profileId: options.profileId ?? null };
+    let jobId = options.jobId;
     try {
-      // Create data processing job
-      const job = await storage.createDataProcessingJob({
-        userId,
-        jobType: 'attendance_csv' as const,
-        sourceType: 'manual_upload' as const,
-        sourceReference: fileName,
-        status: 'processing' as const,
-        startedAt: new Date(),
-        inputData: { csvData, fileName },
-      });
+      if (jobId) {
+        await storage.updateDataProcessingJob(jobId, {
+          status: 'processing' as const,
+          startedAt: new Date(),
+          inputData,
+        });
+      } else {
+        // Create data processing job
+        const job = await storage.createDataProcessingJob({
+          userId,
+          jobType: 'attendance_csv' as const,
+          sourceType: 'manual_upload' as const,
+          sourceReference: fileName,
+          status: 'processing' as const,
+          startedAt: new Date(),
+          inputData,
+        });
 
-      if (!job) {
-        throw new Error('Failed to create data processing job');
+        if (!job) {
+          throw new Error('Failed to create data processing job');
+        }
+        jobId = job.id;
       }
 
-      // Parse CSV data
-      const attendanceData = this.parseCSVAttendance(csvData);
-      const affectedContacts = await this.matchContactsFromAttendance(userId, attendanceData);
+      const preview = await this.previewAttendanceSheet(userId, rows, fileName, options.layout);
+      const suggestions: AiSuggestion[] = [];
 
-      // Generate AI analysis
-      const aiAnalysis = await this.generateAttendanceAnalysis(attendanceData, affectedContacts);
+      // Sessions nobody could be matched for have nothing to add to a timeline
+      for (const session of preview.sessions.filter((s) => s.matched.length > 0)) {
+        const aiAnalysis = await this.generateAttendanceAnalysis(session);
+        const contactIds = [...new Set(session.matched.map((match) => match.contactId))];
 
-      // Create AI suggestion
-      const suggestion = await storage.createAiSuggestion({
-        userId,
-        type: 'contact_update' as const,
-        title: `Add ${fileName} to ${affectedContacts.length} client timelines?`,
-        description: `A new attendance sheet was uploaded. Should I add this class attendance to the timelines of the ${affectedContacts.length} clients listed?`,
-        suggestedAction: {
-          type: 'bulk_timeline_update',
-          contactIds: affectedContacts.map((c) => c.id),
-          eventType: 'class_attendance',
-          eventData: {
-            className: this.extractClassNameFromFilename(fileName),
-            date: this.extractDateFromFilename(fileName),
-            attendees: attendanceData.attendees,
+        // Create AI suggestion
+        const suggestion = await storage.createAiSuggestion({
+          userId,
+          type: 'contact_update' as const,
+          title: `Add ${session.className} on ${session.date} to ${contactIds.length} client timelines?`,
+          description: `A new attendance sheet (${fileName}) was uploaded. Should I add this class attendance to the timelines of the ${contactIds.length} clients listed?`,
+          suggestedAction: {
+            type: 'bulk_timeline_update',
+            contactIds,
+            eventType: 'class_attendance',
+            eventData: {
+              className: session.className,
+              date: session.date,
+              attendees: [...session.matched.map((match) => match.attendee), ...session.unmatched],
+            },
           },
-        },
-        sourceData: { csvData, fileName, attendanceData },
-        aiAnalysis,
-        priority: 'medium' as const,
-      });
+          sourceData: { fileName, session, excluded: preview.excluded },
+          aiAnalysis,
+          priority: 'medium' as const,
+        });
 
-      if (!suggestion) {
-        throw new Error('Failed to create AI suggestion');
+        if (!suggestion) {
+          throw new Error('Failed to create AI suggestion');
+        }
+        suggestions.push(suggestion);
       }
 
       // Update job status
-      await storage.updateDataProcessingJob(job.id, {
+      await storage.updateDataProcessingJob(jobId, {
         status: 'completed' as const,
         completedAt: new Date(),
-        outputData: { suggestionId: suggestion.id },
-        suggestionsGenerated: 1,
+        outputData: { suggestionIds: suggestions.map((suggestion) => suggestion.id) },
+        suggestionsGenerated: suggestions.length,
       });
 
-      return [suggestion];
+      return suggestions;
     } catch (error) {
-      console.error('Error processing attendance CSV:', error);
+      console.error('Error processing attendance sheet:', error);
+      if (jobId) {
+        await storage.updateDataProcessingJob(jobId, {
+          status: 'failed' as const,
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
       throw error;
     }
   }
 
+  /**
+   * Parse an attendance sheet and match its attendees without creating anything.
+   * Rows without a class or date column take them from the file name.
+   */
+  async previewAttendanceSheet(
+    userId: string,
+    rows: string[][],
+    fileName: string,
+    layout?: AttendanceSheetLayout
+  ): Promise<AttendancePreview> {
+    const sheet = parseAttendanceRows(rows, layout);
+    const contacts = await storage.getContactsByUserId(userId);
+    const defaultClassName = this.extractClassNameFromFilename(fileName);
+    const defaultDate = this.extractDateFromFilename(fileName);
+
+    const sessions = new Map<string, AttendanceSessionPreview>();
+    const { matched, unmatched } = matchAttendeesToContacts(sheet.attendees, contacts);
+    const sessionFor = (attendee: AttendeeData): AttendanceSessionPreview => {
+      const className = attendee.className ?? defaultClassName;
+      const date = attendee.date ?? defaultDate;
+      const key = `${className}|${date}`;
+      let session = sessions.get(key);
+      if (!session) {
+        session = { className, date, matched: [], unmatched: [] };
+        sessions.set(key, session);
+      }
+      return session;
+    };
+
+    for (const { attendee, contact } of matched) {
+      sessionFor(attendee).matched.push({ attendee, contactId: contact.id, contactName: contact.name });
+    }
+    for (const attendee of unmatched) {
+      sessionFor(attendee).unmatched.push(attendee);
+    }
+
+    return {
+      headers: sheet.headers,
+      mapping: sheet.mapping,
+      sessions: [...sessions.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      excluded: sheet.excluded,
+    };
+  }
+
   /**
    * Process new photos with GDPR consent and generate suggestions
    */
@@ -189,6 +293,7 @@ export class TaskAIService {
       title: string;
       description?: string;
       contactIds: string[];
+      groupIds?: string[];
       dueDate?: Date;
       projectId?: string;
       priority?: 'low' | 'medium' | 'high' | 'urgent';
@@ -196,6 +301,13 @@ export class TaskAIService {
   ): Promise<Task> {
     console.log(`Delegating task to AI: ${taskData.title}`);
 
+    // Groups are expanded to their members now so the task records who it was for
+    const groupContactIds = await contactGroupService.resolveContactIds(
+      userId,
+      taskData.groupIds ?? []
+    );
+    const contactIds = [...new Set([...taskData.contactIds, ...groupContactIds])];
+
     // Create the main task assigned to AI
     const task = await storage.createTask({
       userId,
@@ -206,7 +318,7 @@ export class TaskAIService {
       priority: taskData.priority ?? 'medium',
       dueDate: taskData.dueDate,
       projectId: taskData.projectId,
-      assignedContactIds: taskData.contactIds,
+      assignedContactIds: contactIds,
       isAiGenerated: false,
     });
 
@@ -221,7 +333,7 @@ export class TaskAIService {
       actorId: userId,
       actionType: 'delegated_to_ai' as const,
       description: `Task delegated to AI assistant: ${taskData.title}`,
-      metadata: { originalTaskData: taskData },
+      metadata: { originalTaskData: taskData, changes: diffTaskFields(undefined, task) },
     });
 
     // Start AI processing in background
@@ -275,6 +387,7 @@ export class TaskAIService {
           aiAnalysis,
           subtasksCreated: subtasks.length,
           contactsAnalyzed: validContacts.length,
+          changes: diffTaskFields(task, { status: newStatus as 'in_progress' | 'completed' }),
         },
       });
 
@@ -299,7 +412,7 @@ export class TaskAIService {
         actorType: 'ai_assistant',
         actionType: 'failed',
         description: `AI processing failed: ${errorMessage}`,
-        metadata: { error: errorMessage },
+        metadata: { error: errorMessage, changes: diffTaskFields(task, { status: 'cancelled' }) },
       });
     }
   }
@@ -321,6 +434,15 @@ export class TaskAIService {
         throw new Error('Invalid suggestion action - not a valid BulkAction');
       }
 
+      // Group targets resolve to their members at the time of execution
+      if (action.groupIds && action.groupIds.length > 0) {
+        const groupContactIds = await contactGroupService.resolveContactIds(
+          suggestion.userId,
+          action.groupIds
+        );
+        action.contactIds = [...new Set([...action.contactIds, ...groupContactIds])];
+      }
+
       switch (action.type) {
         case 'bulk_timeline_update':
           await this.executeBulkTimelineUpdate(action);
@@ -329,8 +451,14 @@ export class TaskAIService {
           await this.executeBulkPhotoUpdate(action);
           break;
         case 'bulk_contact_update':
-          // Add implementation for contact updates if needed
-          throw new Error('Contact update not yet implemented');
+          await this.executeBulkContactUpdate(suggestion.userId, action);
+          break;
+        case 'bulk_task_create':
+          await this.executeBulkTaskCreate(suggestion.userId, action);
+          break;
+        case 'bulk_contact_create':
+          await this.executeBulkContactCreate(suggestion.userId, action);
+          break;
         default:
           throw new Error(`Unknown action type: ${action.type}`);
       }
@@ -353,37 +481,9 @@ export class TaskAIService {
   }
 
   // Helper methods
-  private parseCSVAttendance(csvData: string): AttendanceRecord {
-    const lines = csvData.trim().split('\n');
-    const attendeeNames = lines
-      .slice(1) // Skip header
-      .map((line) => line.split(',')[0]?.trim())
-      .filter(Boolean);
-
-    // Convert string names to AttendeeData objects
-    const attendees = attendeeNames.map((name) => ({ name }));
-
-    return { attendees };
-  }
-
-  private async matchContactsFromAttendance(
-    userId: string,
-    attendanceData: AttendanceRecord
-  ): Promise<Contact[]> {
-    const allContacts = await storage.getContactsByUserId(userId);
-
-    return allContacts.filter((contact) =>
-      attendanceData.attendees.some(
-        (attendee) =>
-          contact.name.toLowerCase().includes(attendee.name.toLowerCase()) ||
-          attendee.name.toLowerCase().includes(contact.name.toLowerCase())
-      )
-    );
-  }
-
   private extractClassNameFromFilename(fileName: string): string {
     // Extract class name from filename like "tuesday_yoga_attendance_2025-08-26.csv"
-    const parts = fileName.replace('.csv', '').split('_');
+    const parts = fileName.replace(/\.(csv|xlsx)$/i, '').split('_');
     if (parts.length >= 2) {
       return `${parts[0]} ${parts[1]}`.replace(/^\w/, (c) => c.toUpperCase());
     }
@@ -397,21 +497,14 @@ export class TaskAIService {
   }
 
   private async generateAttendanceAnalysis(
-    attendanceData: AttendanceRecord,
-    contacts: Contact[]
+    session: AttendanceSessionPreview
   ): Promise<AttendanceAnalysis> {
+    const attendeeCount = session.matched.length + session.unmatched.length;
     return {
-      attendeeCount: attendanceData.attendees.length,
-      matchedContacts: contacts.length,
-      unmatchedAttendees: attendanceData.attendees
-        .filter(
-          (attendee) =>
-            !contacts.some((contact) =>
-              contact.name.toLowerCase().includes(attendee.name.toLowerCase())
-            )
-        )
-        .map((attendee) => attendee.name),
-      analysis: `Processed attendance data with ${attendanceData.attendees.length} attendees, successfully matched ${contacts.length} to existing contacts.`,
+      attendeeCount,
+      matchedContacts: session.matched.length,
+      unmatchedAttendees: session.unmatched.map((attendee) => attendee.name),
+      analysis: `Processed attendance data with ${attendeeCount} attendees, successfully matched ${session.matched.length} to existing contacts.`,
     };
   }
 
@@ -584,6 +677,66 @@ This email was personalized based on your relationship stage: ${
       });
     }
   }
+
+  private async executeBulkTaskCreate(userId: string, action: BulkAction): Promise<void> {
+    if (!action.tasks || action.tasks.length === 0) {
+      throw new Error('Tasks array is required for task creation');
+    }
+
+    for (const draft of action.tasks) {
+      const task = await storage.createTask({
+        userId,
+        title: draft.title,
+        description: draft.description,
+        priority: draft.priority ?? 'medium',
+        dueDate: draft.dueDate ? new Date(draft.dueDate) : undefined,
+        assignedContactIds: draft.contactIds ?? action.contactIds,
+        isAiGenerated: true,
+      });
+
+      await storage.createTaskActivity({
+        taskId: task.id,
+        actorType: 'ai_assistant',
+        actionType: 'created',
+        description: 'Created from an approved AI suggestion',
+        metadata: {
+          source: action.metadata?.source ?? 'ai_suggestion',
+          changes: diffTaskFields(undefined, task),
+        },
+      });
+    }
+  }
+
+  private async executeBulkContactUpdate(userId: string, action: BulkAction): Promise<void> {
+    if (!action.contactUpdates || Object.keys(action.contactUpdates).length === 0) {
+      throw new Error('Contact updates are required for contact updates');
+    }
+
+    for (const contactId of action.contactIds) {
+      const contact = await storage.contacts.getById(contactId);
+      // Contacts deleted since the suggestion was made are skipped
+      if (contact?.userId !== userId) continue;
+      await storage.contacts.update(contactId, action.contactUpdates);
+    }
+  }
+
+  private async executeBulkContactCreate(userId: string, action: BulkAction): Promise<void> {
+    if (!action.newContacts || action.newContacts.length === 0) {
+      throw new Error('New contacts are required for contact creation');
+    }
+
+    const contacts = await storage.contacts.getByUserId(userId);
+    const known = buildContactAddressIndex(contacts);
+
+    for (const draft of action.newContacts) {
+      // The sender may have been added by hand since the suggestion was made
+      if (known.has(normalizeEmailAddress(draft.email))) continue;
+      await storage.contacts.create({ userId, name: draft.name, email: draft.email });
+    }
+
+    // Their earlier emails are linked now that they are contacts
+    await emailLinkingService.relinkRecentEmails(userId);
+  }
 }
 
 export const taskAI = new TaskAIService();
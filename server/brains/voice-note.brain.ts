@@ -0,0 +1,121 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { sanitizeForLLM } from '../utils/sanitizers.js';
+
+// A generic interface for the LLM provider.
+interface LLMProvider {
+  generateCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    isJson: boolean
+  ): Promise<string>;
+}
+
+export type VoiceNoteBrainInput = {
+  contactName: string;
+  transcript: string;
+};
+
+export type VoiceNoteTaskDraft = {
+  title: string;
+  description?: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  // Days from the recording, when the note mentions a deadline
+  dueInDays?: number;
+};
+
+// Define the exact output structure this Brain guarantees.
+export type VoiceNoteBrainOutput = {
+  subject: string;
+  summary: string;
+  sentiment: number;
+  tasks: VoiceNoteTaskDraft[];
+};
+
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+const MAX_TASKS = 5;
+
+function toTaskDraft(value: unknown): VoiceNoteTaskDraft | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const task = value as Record<string, unknown>;
+  if (typeof task.title !== 'string' || !task.title.trim()) return null;
+
+  const priority = PRIORITIES.find((candidate) => candidate === task.priority) ?? 'medium';
+  const dueInDays =
+    typeof task.dueInDays === 'number' && task.dueInDays >= 0
+      ? Math.min(365, Math.round(task.dueInDays))
+      : undefined;
+  return {
+    title: task.title.trim().slice(0, 200),
+    description: typeof task.description === 'string' ? task.description.trim() : undefined,
+    priority,
+    dueInDays,
+  };
+}
+
+export class VoiceNoteBrain {
+  private buildMessages({ contactName, transcript }: VoiceNoteBrainInput): ChatCompletionMessageParam[] {
+    const systemPrompt = `You turn a wellness practitioner's dictated voice note about a client into a CRM timeline entry.
+
+      The practitioner recorded the note about ${sanitizeForLLM(contactName)}. Transcription may contain
+      small errors; do not invent details that were not said.
+
+      Your response MUST be ONLY a valid JSON object in this exact format:
+      {
+        "subject": "A short title for the timeline, at most 8 words",
+        "summary": "2-4 sentences in the practitioner's voice covering what happened and anything to remember",
+        "sentiment": 1-5 rating of how the client is doing (1 = very negative, 3 = neutral, 5 = very positive),
+        "tasks": [
+          {
+            "title": "A concrete follow-up the practitioner said they would do or should do",
+            "description": "Optional detail",
+            "priority": "low" | "medium" | "high" | "urgent",
+            "dueInDays": optional number of days from today if a timeframe was mentioned
+          }
+        ]
+      }
+
+      Only include tasks that follow from the note; return an empty array when there are none.`;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: sanitizeForLLM(transcript) },
+    ];
+  }
+
+  async execute(
+    provider: LLMProvider,
+    model: string,
+    input: VoiceNoteBrainInput
+  ): Promise<VoiceNoteBrainOutput> {
+    const messages = this.buildMessages(input);
+
+    try {
+      const rawResponse = await provider.generateCompletion(model, messages, true);
+      const result = JSON.parse(rawResponse) as Partial<Record<keyof VoiceNoteBrainOutput, unknown>>;
+
+      return {
+        subject:
+          typeof result.subject === 'string' && result.subject.trim()
+            ? result.subject.trim().slice(0, 200)
+            : `Voice note about ${input.contactName}`,
+        summary:
+          typeof result.summary === 'string' && result.summary.trim()
+            ? result.summary.trim()
+            : input.transcript,
+        sentiment: Math.max(
+          1,
+          Math.min(5, Math.round(typeof result.sentiment === 'number' ? result.sentiment : 3))
+        ),
+        tasks: Array.isArray(result.tasks)
+          ? result.tasks
+              .map(toTaskDraft)
+              .filter((task): task is VoiceNoteTaskDraft => task !== null)
+              .slice(0, MAX_TASKS)
+          : [],
+      };
+    } catch (error) {
+      console.error('Voice note brain execution failed:', error);
+      throw new Error('Failed to analyze the voice note due to an LLM processing error.');
+    }
+  }
+}
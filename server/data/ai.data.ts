@@ -7,7 +7,7 @@ import {
   type DataProcessingJob,
   type InsertDataProcessingJob,
 } from '../../shared/schema.js';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, sql } from 'drizzle-orm';
 
 export class AiData {
   // --- AI Suggestions ---
@@ -51,11 +51,33 @@ export class AiData {
       .orderBy(desc(dataProcessingJobs.createdAt));
   }
 
+  async getJobById(id: string): Promise<DataProcessingJob | undefined> {
+    const [job] = await db.select().from(dataProcessingJobs).where(eq(dataProcessingJobs.id, id));
+    return job;
+  }
+
   async createJob(job: InsertDataProcessingJob): Promise<DataProcessingJob> {
     const [newJob] = await db.insert(dataProcessingJobs).values(job).returning();
     return newJob;
   }
 
+  /**
+   * Create a job for a watched attendance sheet unless one already exists for the same
+   * reference. Returns undefined when the sheet revision has already been claimed.
+   */
+  async claimJob(job: InsertDataProcessingJob): Promise<DataProcessingJob | undefined> {
+    const [newJob] = await db
+      .insert(dataProcessingJobs)
+      .values(job)
+      .onConflictDoNothing({
+        target: [dataProcessingJobs.userId, dataProcessingJobs.jobType, dataProcessingJobs.sourceReference],
+        // Must match the partial index's predicate for Postgres to use it as the conflict target
+        where: sql`job_type = 'attendance_csv' AND source_type IN ('google_drive', 'local_folder')`,
+      })
+      .returning();
+    return newJob;
+  }
+
   async updateJob(
     id: string,
     updates: Partial<InsertDataProcessingJob>
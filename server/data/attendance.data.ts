@@ -0,0 +1,80 @@
+import { db } from '../db.js';
+import {
+  attendanceImportProfiles,
+  type AttendanceImportProfile,
+  type InsertAttendanceImportProfile,
+} from '../../shared/schema.js';
+import { eq, and, asc } from 'drizzle-orm';
+
+export class AttendanceData {
+  // --- Import Profiles ---
+  async getProfilesByUserId(userId: string): Promise<AttendanceImportProfile[]> {
+    return db
+      .select()
+      .from(attendanceImportProfiles)
+      .where(eq(attendanceImportProfiles.userId, userId))
+      .orderBy(asc(attendanceImportProfiles.name));
+  }
+
+  async getProfileById(id: string): Promise<AttendanceImportProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(attendanceImportProfiles)
+      .where(eq(attendanceImportProfiles.id, id));
+    return profile;
+  }
+
+  async getDefaultProfile(userId: string): Promise<AttendanceImportProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(attendanceImportProfiles)
+      .where(
+        and(eq(attendanceImportProfiles.userId, userId), eq(attendanceImportProfiles.isDefault, true))
+      );
+    return profile;
+  }
+
+  /**
+   * Create a profile. A new default profile replaces the user's previous default.
+   */
+  async createProfile(profile: InsertAttendanceImportProfile): Promise<AttendanceImportProfile> {
+    return db.transaction(async (tx) => {
+      if (profile.isDefault) {
+        await tx
+          .update(attendanceImportProfiles)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(attendanceImportProfiles.userId, profile.userId));
+      }
+      const [newProfile] = await tx.insert(attendanceImportProfiles).values(profile).returning();
+      return newProfile;
+    });
+  }
+
+  async updateProfile(
+    id: string,
+    userId: string,
+    updates: Partial<InsertAttendanceImportProfile>
+  ): Promise<AttendanceImportProfile> {
+    return db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        await tx
+          .update(attendanceImportProfiles)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(attendanceImportProfiles.userId, userId));
+      }
+      const [profile] = await tx
+        .update(attendanceImportProfiles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(attendanceImportProfiles.id, id))
+        .returning();
+      return profile;
+    });
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    const result = await db
+      .delete(attendanceImportProfiles)
+      .where(eq(attendanceImportProfiles.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,78 @@
+import { db } from '../db.js';
+import {
+  chatSessions,
+  chatMessages,
+  type ChatSession,
+  type InsertChatSession,
+  type ChatMessage,
+  type InsertChatMessage,
+} from '../../shared/schema.js';
+import { eq, desc, asc, and } from 'drizzle-orm';
+
+export class ChatData {
+  // --- Sessions ---
+  async getSessionsByUserId(userId: string): Promise<ChatSession[]> {
+    return db
+      .select()
+      .from(chatSessions)
+      .where(eq(chatSessions.userId, userId))
+      .orderBy(desc(chatSessions.updatedAt));
+  }
+
+  async getSessionById(id: string): Promise<ChatSession | undefined> {
+    const [session] = await db.select().from(chatSessions).where(eq(chatSessions.id, id));
+    return session;
+  }
+
+  async createSession(session: InsertChatSession): Promise<ChatSession> {
+    const [newSession] = await db.insert(chatSessions).values(session).returning();
+    return newSession;
+  }
+
+  async updateSession(id: string, updates: Partial<InsertChatSession>): Promise<ChatSession> {
+    const [session] = await db
+      .update(chatSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  /**
+   * Save a new summary only if no other request has summarized the session since it read
+   * `fromCount`, so concurrent sends cannot fold the same turns in twice.
+   */
+  async updateSummary(
+    id: string,
+    fromCount: number,
+    update: Pick<ChatSession, 'summary' | 'summarizedMessageCount'>
+  ): Promise<boolean> {
+    const result = await db
+      .update(chatSessions)
+      .set(update)
+      .where(and(eq(chatSessions.id, id), eq(chatSessions.summarizedMessageCount, fromCount)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(chatMessages).where(eq(chatMessages.sessionId, id));
+      const result = await tx.delete(chatSessions).where(eq(chatSessions.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // --- Messages ---
+  async getMessagesBySessionId(sessionId: string): Promise<ChatMessage[]> {
+    return db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async createMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [newMessage] = await db.insert(chatMessages).values(message).returning();
+    return newMessage;
+  }
+}
@@ -0,0 +1,92 @@
+import { db } from '../db.js';
+import {
+  contactGroups,
+  contactGroupMembers,
+  type ContactGroup,
+  type InsertContactGroup,
+  type ContactGroupMember,
+} from '../../shared/schema.js';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+
+export class ContactGroupData {
+  // --- Groups ---
+  async getByUserId(userId: string): Promise<ContactGroup[]> {
+    return db
+      .select()
+      .from(contactGroups)
+      .where(eq(contactGroups.userId, userId))
+      .orderBy(asc(contactGroups.name));
+  }
+
+  async getById(id: string): Promise<ContactGroup | undefined> {
+    const [group] = await db.select().from(contactGroups).where(eq(contactGroups.id, id));
+    return group;
+  }
+
+  async getByName(userId: string, name: string): Promise<ContactGroup | undefined> {
+    const [group] = await db
+      .select()
+      .from(contactGroups)
+      .where(and(eq(contactGroups.userId, userId), eq(contactGroups.name, name)));
+    return group;
+  }
+
+  /**
+   * Create a group together with its initial members.
+   */
+  async create(group: InsertContactGroup, contactIds: string[] = []): Promise<ContactGroup> {
+    return db.transaction(async (tx) => {
+      const [newGroup] = await tx.insert(contactGroups).values(group).returning();
+      if (contactIds.length > 0) {
+        await tx
+          .insert(contactGroupMembers)
+          .values(contactIds.map((contactId) => ({ groupId: newGroup.id, contactId })))
+          .onConflictDoNothing();
+      }
+      return newGroup;
+    });
+  }
+
+  async update(id: string, updates: Partial<InsertContactGroup>): Promise<ContactGroup> {
+    const [group] = await db
+      .update(contactGroups)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contactGroups.id, id))
+      .returning();
+    return group;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(contactGroupMembers).where(eq(contactGroupMembers.groupId, id));
+      const result = await tx.delete(contactGroups).where(eq(contactGroups.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // --- Members ---
+  async getMembers(groupIds: string[]): Promise<ContactGroupMember[]> {
+    if (groupIds.length === 0) return [];
+    return db.select().from(contactGroupMembers).where(inArray(contactGroupMembers.groupId, groupIds));
+  }
+
+  /**
+   * Add contacts to a group, ignoring ones that are already members.
+   */
+  async addMembers(groupId: string, contactIds: string[]): Promise<ContactGroupMember[]> {
+    return db
+      .insert(contactGroupMembers)
+      .values(contactIds.map((contactId) => ({ groupId, contactId })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async removeMembers(groupId: string, contactIds: string[]): Promise<number> {
+    const result = await db
+      .delete(contactGroupMembers)
+      .where(
+        and(eq(contactGroupMembers.groupId, groupId), inArray(contactGroupMembers.contactId, contactIds))
+      );
+    return result.rowCount ?? 0;
+  }
+}
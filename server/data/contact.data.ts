@@ -4,13 +4,15 @@ import {
   contactPhotos,
   tags,
   contactTags,
+  voiceNotes,
   type Contact,
   type InsertContact,
   type ContactPhoto,
   type InsertContactPhoto,
   type Tag,
-  type InsertTag,
   type ContactTag,
+  type VoiceNote,
+  type InsertVoiceNote,
 } from '../../shared/schema.js';
 import { eq, desc, and, sql } from 'drizzle-orm';
 
@@ -108,18 +110,43 @@ export class ContactData {
     return (result.rowCount ?? 0) > 0;
   }
 
-  // --- Tags ---
-  // PERFORMANCE NOTE: getTagsForContact method removed - now using optimized JOINs
+  // --- Voice Notes ---
+  async createVoiceNote(note: InsertVoiceNote & { id?: string }): Promise<VoiceNote> {
+    const [newNote] = await db.insert(voiceNotes).values(note).returning();
+    return newNote;
+  }
 
-  async getAllTags(): Promise<Tag[]> {
-    return db.select().from(tags).orderBy(tags.name);
+  async getVoiceNoteById(id: string): Promise<VoiceNote | undefined> {
+    const [note] = await db.select().from(voiceNotes).where(eq(voiceNotes.id, id));
+    return note;
   }
 
-  async createTag(tag: InsertTag): Promise<Tag> {
-    const [newTag] = await db.insert(tags).values(tag).returning();
-    return newTag;
+  async getVoiceNotes(contactId: string): Promise<VoiceNote[]> {
+    return db
+      .select()
+      .from(voiceNotes)
+      .where(eq(voiceNotes.contactId, contactId))
+      .orderBy(desc(voiceNotes.createdAt));
   }
 
+  async updateVoiceNote(id: string, updates: Partial<InsertVoiceNote>): Promise<VoiceNote> {
+    const [note] = await db
+      .update(voiceNotes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(voiceNotes.id, id))
+      .returning();
+    return note;
+  }
+
+  async deleteVoiceNote(id: string): Promise<boolean> {
+    const result = await db.delete(voiceNotes).where(eq(voiceNotes.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // --- Tags ---
+  // PERFORMANCE NOTE: getTagsForContact method removed - now using optimized JOINs
+  // The tags themselves are managed by TagData; these methods assign them to contacts
+
   async addTag(contactId: string, tagId: string): Promise<ContactTag> {
     const [contactTag] = await db.insert(contactTags).values({ contactId, tagId }).returning();
     return contactTag;
@@ -1,6 +1,24 @@
 import { db } from '../db.js';
-import { emails, type Email, type InsertEmail } from '../../shared/schema.js';
-import { eq, desc, and, gte } from 'drizzle-orm';
+import {
+  emails,
+  emailContacts,
+  processedEmailThreads,
+  type Email,
+  type InsertEmail,
+  type InsertEmailContact,
+  type ProcessedEmailThread,
+} from '../../shared/schema.js';
+import type { EmailThreadAnalysis } from '../types/service-contracts.js';
+import { eq, desc, asc, and, gte, or, sql, type SQL } from 'drizzle-orm';
+import crypto from 'crypto';
+
+// Emails the contact sent or received, including those they were only copied on
+function hasParticipant(contactId: string): SQL | undefined {
+  return or(
+    eq(emails.contactId, contactId),
+    sql`exists (select 1 from ${emailContacts} where ${emailContacts.emailId} = ${emails.id} and ${emailContacts.contactId} = ${contactId})`
+  );
+}
 
 export class EmailData {
   async getByUserId(userId: string, limit: number = 100): Promise<Email[]> {
@@ -72,4 +90,101 @@ export class EmailData {
       .where(and(eq(emails.userId, userId), gte(emails.timestamp, cutoffDate)))
       .orderBy(desc(emails.timestamp));
   }
+
+  /**
+   * Records contacts taking part in an email; contacts already linked to it are left as they are.
+   */
+  async linkContacts(links: InsertEmailContact[]): Promise<void> {
+    if (links.length === 0) return;
+    await db.insert(emailContacts).values(links).onConflictDoNothing();
+  }
+
+  async getByParticipant(userId: string, contactId: string): Promise<Email[]> {
+    return db
+      .select()
+      .from(emails)
+      .where(and(eq(emails.userId, userId), hasParticipant(contactId)))
+      .orderBy(desc(emails.timestamp));
+  }
+
+  async isThreadParticipant(userId: string, contactId: string, gmailThreadId: string): Promise<boolean> {
+    const [email] = await db
+      .select({ id: emails.id })
+      .from(emails)
+      .where(
+        and(eq(emails.userId, userId), eq(emails.gmailThreadId, gmailThreadId), hasParticipant(contactId))
+      )
+      .limit(1);
+    return !!email;
+  }
+
+  async getThread(userId: string, gmailThreadId: string): Promise<Email[]> {
+    return db
+      .select()
+      .from(emails)
+      .where(and(eq(emails.userId, userId), eq(emails.gmailThreadId, gmailThreadId)))
+      .orderBy(asc(emails.timestamp));
+  }
+
+  // --- Processed Threads for Deduplication ---
+
+  getThreadHash(thread: Email[]): string {
+    const hashData = thread.map((email) => ({
+      id: email.gmailMessageId,
+      subject: email.subject,
+      from: email.fromEmail,
+      body: email.bodyText ?? email.snippet,
+    }));
+    return crypto.createHash('sha256').update(JSON.stringify(hashData)).digest('hex');
+  }
+
+  async findProcessedThread(
+    userId: string,
+    gmailThreadId: string
+  ): Promise<ProcessedEmailThread | undefined> {
+    const [processedThread] = await db
+      .select()
+      .from(processedEmailThreads)
+      .where(
+        and(
+          eq(processedEmailThreads.userId, userId),
+          eq(processedEmailThreads.gmailThreadId, gmailThreadId)
+        )
+      );
+    return processedThread;
+  }
+
+  async markThreadProcessed(
+    userId: string,
+    gmailThreadId: string,
+    threadHash: string,
+    analysis: EmailThreadAnalysis
+  ): Promise<ProcessedEmailThread> {
+    const values = {
+      threadHash,
+      processedAt: new Date(),
+      isRelevant: analysis.isRelevant,
+      analysis,
+      llmModel: analysis.llmModel,
+    };
+
+    const [processedThread] = await db
+      .insert(processedEmailThreads)
+      .values({ userId, gmailThreadId, ...values })
+      .onConflictDoUpdate({
+        target: [processedEmailThreads.userId, processedEmailThreads.gmailThreadId],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return processedThread;
+  }
+
+  /**
+   * Threads are analyzed again only when their messages changed since the last analysis.
+   */
+  async shouldProcessThread(userId: string, gmailThreadId: string, threadHash: string): Promise<boolean> {
+    const processedThread = await this.findProcessedThread(userId, gmailThreadId);
+    return processedThread?.threadHash !== threadHash;
+  }
 }
@@ -6,6 +6,18 @@ import { EmailData } from './email.data.js';
 import { TaskData } from './task.data.js';
 import { AiData } from './ai.data.js';
 import { MiscData } from './misc.data.js';
+import { RateLimitData } from './rate-limit.data.js';
+import { LlmUsageData } from './llm-usage.data.js';
+import { ChatData } from './chat.data.js';
+import { AttendanceData } from './attendance.data.js';
+import { ContactGroupData } from './contact-group.data.js';
+import { TimelineData } from './timeline.data.js';
+import { SentimentData } from './sentiment.data.js';
+import { LifecycleRuleData } from './lifecycle-rule.data.js';
+import { ReferralData } from './referral.data.js';
+import { TagData } from './tag.data.js';
+import { TaskTemplateData } from './task-template.data.js';
+import { TaskTimeData } from './task-time.data.js';
 import type { CalendarEvent } from '../../shared/schema.js';
 
 class Storage {
@@ -17,6 +29,18 @@ class Storage {
   public tasks = new TaskData();
   public ai = new AiData();
   public misc = new MiscData();
+  public rateLimits = new RateLimitData();
+  public llmUsage = new LlmUsageData();
+  public chat = new ChatData();
+  public attendance = new AttendanceData();
+  public contactGroups = new ContactGroupData();
+  public timeline = new TimelineData();
+  public sentiment = new SentimentData();
+  public lifecycleRules = new LifecycleRuleData();
+  public referrals = new ReferralData();
+  public tags = new TagData();
+  public taskTemplates = new TaskTemplateData();
+  public taskTime = new TaskTimeData();
 
   // AI Data Methods
   createDataProcessingJob = this.ai.createJob;
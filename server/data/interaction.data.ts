@@ -2,14 +2,16 @@ import { db } from '../db.js';
 import {
   interactions,
   goals,
+  goalProgressEntries,
   contacts,
   type Interaction,
   type InsertInteraction,
   type Goal,
   type InsertGoal,
+  type GoalProgressEntry,
   type Contact,
 } from '../../shared/schema.js';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, asc, and, inArray } from 'drizzle-orm';
 
 export class InteractionData {
   async getByContactId(contactId: string): Promise<Interaction[]> {
@@ -27,6 +29,33 @@ export class InteractionData {
     return interaction;
   }
 
+  async findBySource(
+    contactId: string,
+    source: string,
+    sourceId: string
+  ): Promise<Interaction | undefined> {
+    const [interaction] = await db
+      .select()
+      .from(interactions)
+      .where(
+        and(
+          eq(interactions.contactId, contactId),
+          eq(interactions.source, source),
+          eq(interactions.sourceId, sourceId)
+        )
+      );
+    return interaction;
+  }
+
+  async update(id: string, updates: Partial<InsertInteraction>): Promise<Interaction> {
+    const [interaction] = await db
+      .update(interactions)
+      .set(updates)
+      .where(eq(interactions.id, id))
+      .returning();
+    return interaction;
+  }
+
   async getRecentForUser(
     userId: string,
     limit: number
@@ -53,17 +82,72 @@ export class InteractionData {
       .orderBy(desc(goals.createdAt));
   }
 
-  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
-    const [goal] = await db.insert(goals).values(insertGoal).returning();
-    return goal;
+  async getGoalsForUser(userId: string, contactId?: string): Promise<Goal[]> {
+    const conditions = [eq(contacts.userId, userId)];
+    if (contactId) {
+      conditions.push(eq(goals.contactId, contactId));
+    }
+
+    const result = await db
+      .select({ goal: goals })
+      .from(goals)
+      .innerJoin(contacts, eq(goals.contactId, contacts.id))
+      .where(and(...conditions))
+      .orderBy(desc(goals.createdAt));
+    return result.map((row) => row.goal);
   }
 
-  async updateGoal(id: string, updates: Partial<InsertGoal>): Promise<Goal> {
-    const [goal] = await db
-      .update(goals)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(goals.id, id))
-      .returning();
+  async getGoalById(id: string): Promise<Goal | undefined> {
+    const [goal] = await db.select().from(goals).where(eq(goals.id, id));
     return goal;
   }
+
+  /**
+   * Create a goal and start its progress history with its current value.
+   */
+  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+    return db.transaction(async (tx) => {
+      const [goal] = await tx.insert(goals).values(insertGoal).returning();
+      await tx.insert(goalProgressEntries).values({ goalId: goal.id, value: goal.currentValue });
+      return goal;
+    });
+  }
+
+  /**
+   * Update a goal; when progress is given it is added to the goal's history in the same transaction.
+   */
+  async updateGoal(
+    id: string,
+    updates: Partial<InsertGoal>,
+    progress?: { value: number; note?: string; recordedAt?: Date }
+  ): Promise<Goal> {
+    return db.transaction(async (tx) => {
+      const [goal] = await tx
+        .update(goals)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(goals.id, id))
+        .returning();
+      if (progress) {
+        await tx.insert(goalProgressEntries).values({ goalId: id, ...progress });
+      }
+      return goal;
+    });
+  }
+
+  async deleteGoal(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(goalProgressEntries).where(eq(goalProgressEntries.goalId, id));
+      const result = await tx.delete(goals).where(eq(goals.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  async getGoalProgressEntries(goalIds: string[]): Promise<GoalProgressEntry[]> {
+    if (goalIds.length === 0) return [];
+    return db
+      .select()
+      .from(goalProgressEntries)
+      .where(inArray(goalProgressEntries.goalId, goalIds))
+      .orderBy(asc(goalProgressEntries.recordedAt));
+  }
 }
@@ -0,0 +1,63 @@
+import { db } from '../db.js';
+import {
+  lifecycleRules,
+  interactions,
+  contacts,
+  type LifecycleRule,
+  type InsertLifecycleRule,
+} from '../../shared/schema.js';
+import { and, asc, eq, inArray, max } from 'drizzle-orm';
+
+export class LifecycleRuleData {
+  /**
+   * The user's rules in the order they are evaluated.
+   */
+  async getByUserId(userId: string): Promise<LifecycleRule[]> {
+    return db
+      .select()
+      .from(lifecycleRules)
+      .where(eq(lifecycleRules.userId, userId))
+      .orderBy(asc(lifecycleRules.priority), asc(lifecycleRules.createdAt));
+  }
+
+  async getById(id: string): Promise<LifecycleRule | undefined> {
+    const [rule] = await db.select().from(lifecycleRules).where(eq(lifecycleRules.id, id));
+    return rule;
+  }
+
+  async create(rule: InsertLifecycleRule): Promise<LifecycleRule> {
+    const [newRule] = await db.insert(lifecycleRules).values(rule).returning();
+    return newRule;
+  }
+
+  async update(id: string, updates: Partial<InsertLifecycleRule>): Promise<LifecycleRule> {
+    const [rule] = await db
+      .update(lifecycleRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(lifecycleRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await db.delete(lifecycleRules).where(eq(lifecycleRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * When each of the user's contacts last had an interaction of one of the given types.
+   * Contacts without one are left out.
+   */
+  async getLastInteractionDates(userId: string, types: string[]): Promise<Map<string, Date>> {
+    const rows = await db
+      .select({ contactId: interactions.contactId, lastAt: max(interactions.timestamp) })
+      .from(interactions)
+      .innerJoin(contacts, eq(contacts.id, interactions.contactId))
+      .where(and(eq(contacts.userId, userId), inArray(interactions.type, types)))
+      .groupBy(interactions.contactId);
+
+    return new Map(
+      rows.flatMap((row) => (row.lastAt ? [[row.contactId, row.lastAt] as [string, Date]] : []))
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { db } from '../db.js';
+import {
+  llmUsage,
+  llmBudgets,
+  llmCostAlerts,
+  type LlmUsage,
+  type InsertLlmUsage,
+  type LlmBudget,
+  type InsertLlmBudget,
+  type LlmCostAlert,
+  type InsertLlmCostAlert,
+} from '../../shared/schema.js';
+import { eq, desc, and, gte, lte, sql } from 'drizzle-orm';
+
+export interface LlmSpendRollup {
+  period: string;
+  model: string;
+  operation: string;
+  cost: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmSpendTotal {
+  key: string;
+  cost: number;
+  requests: number;
+}
+
+export class LlmUsageData {
+  // --- Usage ---
+  async createUsage(usage: InsertLlmUsage): Promise<LlmUsage> {
+    const [record] = await db.insert(llmUsage).values(usage).returning();
+    return record;
+  }
+
+  async getUsageByUserId(userId: string, startDate?: Date, endDate?: Date): Promise<LlmUsage[]> {
+    const conditions = [eq(llmUsage.userId, userId)];
+    if (startDate) {
+      conditions.push(gte(llmUsage.timestamp, startDate));
+    }
+    if (endDate) {
+      conditions.push(lte(llmUsage.timestamp, endDate));
+    }
+    return db
+      .select()
+      .from(llmUsage)
+      .where(and(...conditions))
+      .orderBy(desc(llmUsage.timestamp));
+  }
+
+  async getCostBetween(userId: string, startDate: Date, endDate: Date): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${llmUsage.cost}), 0)` })
+      .from(llmUsage)
+      .where(
+        and(
+          eq(llmUsage.userId, userId),
+          gte(llmUsage.timestamp, startDate),
+          lte(llmUsage.timestamp, endDate)
+        )
+      );
+    return Number(result?.total ?? 0);
+  }
+
+  async getSpendRollups(
+    userId: string,
+    granularity: 'day' | 'month',
+    startDate: Date
+  ): Promise<LlmSpendRollup[]> {
+    // Inlined rather than parameterised so the SELECT and GROUP BY expressions match
+    const format = granularity === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM';
+    const period = sql<string>`to_char(date_trunc(${sql.raw(`'${granularity}'`)}, ${
+      llmUsage.timestamp
+    }), ${sql.raw(`'${format}'`)})`;
+    const rows = await db
+      .select({
+        period,
+        model: llmUsage.model,
+        operation: llmUsage.operation,
+        cost: sql<number>`sum(${llmUsage.cost})`,
+        requests: sql<number>`count(*)`,
+        inputTokens: sql<number>`sum(${llmUsage.inputTokens})`,
+        outputTokens: sql<number>`sum(${llmUsage.outputTokens})`,
+      })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.userId, userId), gte(llmUsage.timestamp, startDate)))
+      .groupBy(period, llmUsage.model, llmUsage.operation)
+      .orderBy(desc(period));
+
+    // node-postgres returns aggregates as strings
+    return rows.map((row) => ({
+      period: row.period,
+      model: row.model,
+      operation: row.operation,
+      cost: Number(row.cost),
+      requests: Number(row.requests),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+    }));
+  }
+
+  async getSpendTotalsByUser(): Promise<LlmSpendTotal[]> {
+    const rows = await db
+      .select({
+        key: llmUsage.userId,
+        cost: sql<number>`sum(${llmUsage.cost})`,
+        requests: sql<number>`count(*)`,
+      })
+      .from(llmUsage)
+      .groupBy(llmUsage.userId);
+    return rows.map((row) => ({ key: row.key, cost: Number(row.cost), requests: Number(row.requests) }));
+  }
+
+  async getSpendTotalsByModel(): Promise<LlmSpendTotal[]> {
+    const rows = await db
+      .select({
+        key: llmUsage.model,
+        cost: sql<number>`sum(${llmUsage.cost})`,
+        requests: sql<number>`count(*)`,
+      })
+      .from(llmUsage)
+      .groupBy(llmUsage.model);
+    return rows.map((row) => ({ key: row.key, cost: Number(row.cost), requests: Number(row.requests) }));
+  }
+
+  // --- Budgets ---
+  async getBudget(userId: string): Promise<LlmBudget | undefined> {
+    const [budget] = await db.select().from(llmBudgets).where(eq(llmBudgets.userId, userId));
+    return budget;
+  }
+
+  async upsertBudget(budget: InsertLlmBudget): Promise<LlmBudget> {
+    const [saved] = await db
+      .insert(llmBudgets)
+      .values(budget)
+      .onConflictDoUpdate({
+        target: llmBudgets.userId,
+        set: { ...budget, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // --- Cost Alerts ---
+  /**
+   * Store alerts, skipping any limit already alerted on in the same period.
+   * Returns only the alerts that were new.
+   */
+  async createAlerts(alerts: InsertLlmCostAlert[]): Promise<LlmCostAlert[]> {
+    if (alerts.length === 0) return [];
+    return db
+      .insert(llmCostAlerts)
+      .values(alerts)
+      .onConflictDoNothing({
+        target: [llmCostAlerts.userId, llmCostAlerts.alertType, llmCostAlerts.periodStart],
+      })
+      .returning();
+  }
+
+  async getAlertsByUserId(userId: string, limit: number = 50): Promise<LlmCostAlert[]> {
+    return db
+      .select()
+      .from(llmCostAlerts)
+      .where(eq(llmCostAlerts.userId, userId))
+      .orderBy(desc(llmCostAlerts.timestamp))
+      .limit(limit);
+  }
+}
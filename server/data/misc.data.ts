@@ -27,6 +27,55 @@ export class MiscData {
     return newDocument;
   }
 
+  async getDocumentById(id: string): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentByDriveId(userId: string, driveId: string): Promise<Document | undefined> {
+    const [document] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.userId, userId), eq(documents.driveId, driveId)));
+    return document;
+  }
+
+  async getDocumentsByReviewStatus(userId: string, reviewStatus: string): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.userId, userId), eq(documents.reviewStatus, reviewStatus)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  async upsertDriveDocument(document: InsertDocument & { driveId: string }): Promise<Document> {
+    const [saved] = await db
+      .insert(documents)
+      .values(document)
+      .onConflictDoUpdate({
+        target: [documents.userId, documents.driveId],
+        set: { ...document, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document> {
+    const [updated] = await db
+      .update(documents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDocumentByDriveId(userId: string, driveId: string): Promise<boolean> {
+    const result = await db
+      .delete(documents)
+      .where(and(eq(documents.userId, userId), eq(documents.driveId, driveId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // --- Sync Status ---
   async getSyncStatus(userId: string): Promise<SyncStatus[]> {
     return db.select().from(syncStatus).where(eq(syncStatus.userId, userId));
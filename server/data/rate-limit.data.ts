@@ -0,0 +1,46 @@
+import { db } from '../db.js';
+import { rateLimitBuckets, type RateLimitBucket } from '../../shared/schema.js';
+import { eq, lt } from 'drizzle-orm';
+
+type BucketState = Omit<RateLimitBucket, 'key'>;
+
+export class RateLimitData {
+  async getBucket(key: string): Promise<RateLimitBucket | undefined> {
+    const [bucket] = await db.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key));
+    return bucket;
+  }
+
+  /**
+   * Replace a bucket while holding its row lock, so concurrent instances take tokens one at a
+   * time. `update` receives the stored bucket (undefined the first time) and returns the new
+   * state together with a result passed back to the caller.
+   */
+  async updateBucket<T>(
+    key: string,
+    update: (bucket: RateLimitBucket | undefined) => { state: BucketState; result: T }
+  ): Promise<T> {
+    return db.transaction(async (tx) => {
+      const [bucket] = await tx
+        .select()
+        .from(rateLimitBuckets)
+        .where(eq(rateLimitBuckets.key, key))
+        .for('update');
+      const { state, result } = update(bucket);
+
+      await tx
+        .insert(rateLimitBuckets)
+        .values({ key, ...state })
+        .onConflictDoUpdate({ target: rateLimitBuckets.key, set: state });
+      return result;
+    });
+  }
+
+  async deleteBucket(key: string): Promise<void> {
+    await db.delete(rateLimitBuckets).where(eq(rateLimitBuckets.key, key));
+  }
+
+  async deleteIdleBuckets(idleSince: Date): Promise<number> {
+    const result = await db.delete(rateLimitBuckets).where(lt(rateLimitBuckets.updatedAt, idleSince));
+    return result.rowCount ?? 0;
+  }
+}
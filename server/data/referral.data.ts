@@ -0,0 +1,87 @@
+import { db } from '../db.js';
+import { referrals, contacts, type Referral, type InsertReferral } from '../../shared/schema.js';
+import { asc, eq, inArray, or, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Set contacts.referralCount to the number of referrals each of the given contacts has made.
+ */
+async function syncReferralCounts(tx: Transaction, referrerIds: string[]): Promise<void> {
+  if (referrerIds.length === 0) return;
+  await tx
+    .update(contacts)
+    .set({
+      referralCount: sql`(select count(*)::int from ${referrals} where ${referrals.referrerId} = ${contacts.id})`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(contacts.id, referrerIds));
+}
+
+export class ReferralData {
+  async getByUserId(userId: string): Promise<Referral[]> {
+    return db
+      .select()
+      .from(referrals)
+      .where(eq(referrals.userId, userId))
+      .orderBy(asc(referrals.referredAt));
+  }
+
+  async getById(id: string): Promise<Referral | undefined> {
+    const [referral] = await db.select().from(referrals).where(eq(referrals.id, id));
+    return referral;
+  }
+
+  /**
+   * Record a referral and update the referrer's referralCount in the same transaction.
+   */
+  async create(referral: InsertReferral): Promise<Referral> {
+    return db.transaction(async (tx) => {
+      const [newReferral] = await tx.insert(referrals).values(referral).returning();
+      await syncReferralCounts(tx, [newReferral.referrerId]);
+      return newReferral;
+    });
+  }
+
+  async update(id: string, updates: Partial<InsertReferral>): Promise<Referral> {
+    return db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(referrals).where(eq(referrals.id, id));
+      const [referral] = await tx
+        .update(referrals)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(referrals.id, id))
+        .returning();
+      if (previous && previous.referrerId !== referral.referrerId) {
+        await syncReferralCounts(tx, [previous.referrerId, referral.referrerId]);
+      }
+      return referral;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx.delete(referrals).where(eq(referrals.id, id)).returning();
+      await syncReferralCounts(
+        tx,
+        deleted.map((referral) => referral.referrerId)
+      );
+      return deleted.length > 0;
+    });
+  }
+
+  /**
+   * Remove every referral a contact made or received, e.g. before the contact is deleted, so the
+   * counts of the contacts who referred them stay correct.
+   */
+  async deleteByContactId(contactId: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(referrals)
+        .where(or(eq(referrals.referrerId, contactId), eq(referrals.referredId, contactId)))
+        .returning();
+      const referrerIds = [...new Set(deleted.map((referral) => referral.referrerId))];
+      await syncReferralCounts(tx, referrerIds);
+      return deleted.length;
+    });
+  }
+}
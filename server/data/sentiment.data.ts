@@ -0,0 +1,103 @@
+import { db } from '../db.js';
+import {
+  sentimentScores,
+  interactions,
+  contacts,
+  emails,
+  emailContacts,
+  type SentimentScore,
+  type InsertSentimentScore,
+} from '../../shared/schema.js';
+import { and, asc, eq, gte, sql } from 'drizzle-orm';
+
+export interface UnscoredInteraction {
+  id: string;
+  contactId: string;
+  content: string;
+  sentiment: number | null;
+  timestamp: Date;
+}
+
+export interface UnscoredEmail {
+  id: string;
+  contactId: string;
+  subject: string | null;
+  bodyText: string | null;
+  snippet: string | null;
+  timestamp: Date;
+}
+
+export class SentimentData {
+  /**
+   * Interactions with the user's contacts that have no rating in the history yet, oldest first.
+   * Gmail interactions stand for whole threads whose emails are rated one by one, so they are left out.
+   */
+  async getUnscoredInteractions(userId: string, since: Date, limit: number): Promise<UnscoredInteraction[]> {
+    return db
+      .select({
+        id: interactions.id,
+        contactId: interactions.contactId,
+        content: interactions.content,
+        sentiment: interactions.sentiment,
+        timestamp: interactions.timestamp,
+      })
+      .from(interactions)
+      .innerJoin(contacts, eq(contacts.id, interactions.contactId))
+      .where(
+        and(
+          eq(contacts.userId, userId),
+          gte(interactions.timestamp, since),
+          sql`${interactions.source} is distinct from 'gmail'`,
+          sql`not exists (select 1 from ${sentimentScores} where ${sentimentScores.contactId} = ${interactions.contactId} and ${sentimentScores.source} = 'interaction' and ${sentimentScores.sourceId} = ${interactions.id})`
+        )
+      )
+      .orderBy(asc(interactions.timestamp))
+      .limit(limit);
+  }
+
+  /**
+   * Emails sent by the user's contacts that have no rating in the history yet, oldest first.
+   */
+  async getUnscoredEmails(userId: string, since: Date, limit: number): Promise<UnscoredEmail[]> {
+    return db
+      .select({
+        id: emails.id,
+        contactId: emailContacts.contactId,
+        subject: emails.subject,
+        bodyText: emails.bodyText,
+        snippet: emails.snippet,
+        timestamp: emails.timestamp,
+      })
+      .from(emails)
+      .innerJoin(emailContacts, and(eq(emailContacts.emailId, emails.id), eq(emailContacts.role, 'from')))
+      .where(
+        and(
+          eq(emails.userId, userId),
+          gte(emails.timestamp, since),
+          sql`not exists (select 1 from ${sentimentScores} where ${sentimentScores.contactId} = ${emailContacts.contactId} and ${sentimentScores.source} = 'email' and ${sentimentScores.sourceId} = ${emails.id})`
+        )
+      )
+      .orderBy(asc(emails.timestamp))
+      .limit(limit);
+  }
+
+  async createScores(scores: InsertSentimentScore[]): Promise<void> {
+    if (scores.length === 0) return;
+    await db.insert(sentimentScores).values(scores).onConflictDoNothing();
+  }
+
+  /**
+   * A contact's ratings, oldest first.
+   */
+  async getByContactId(contactId: string, since?: Date): Promise<SentimentScore[]> {
+    return db
+      .select()
+      .from(sentimentScores)
+      .where(
+        since
+          ? and(eq(sentimentScores.contactId, contactId), gte(sentimentScores.recordedAt, since))
+          : eq(sentimentScores.contactId, contactId)
+      )
+      .orderBy(asc(sentimentScores.recordedAt));
+  }
+}
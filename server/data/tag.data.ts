@@ -0,0 +1,130 @@
+import { db } from '../db.js';
+import {
+  tags,
+  contactTags,
+  taskTags,
+  type Tag,
+  type InsertTag,
+} from '../../shared/schema.js';
+import { asc, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+
+export type TagWithUsage = Tag & { contactCount: number; taskCount: number };
+
+export class TagData {
+  async getByUserId(userId: string): Promise<Tag[]> {
+    return db.select().from(tags).where(eq(tags.userId, userId)).orderBy(asc(tags.name));
+  }
+
+  /**
+   * The user's tags with how many contacts and tasks carry each of them.
+   */
+  async getWithUsage(userId: string): Promise<TagWithUsage[]> {
+    return db
+      .select({
+        ...getTableColumns(tags),
+        contactCount: sql<number>`(select count(*)::int from ${contactTags} where ${contactTags.tagId} = ${tags.id})`,
+        taskCount: sql<number>`(select count(*)::int from ${taskTags} where ${taskTags.tagId} = ${tags.id})`,
+      })
+      .from(tags)
+      .where(eq(tags.userId, userId))
+      .orderBy(asc(tags.name));
+  }
+
+  async getById(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async create(tag: InsertTag): Promise<Tag> {
+    const [newTag] = await db.insert(tags).values(tag).returning();
+    return newTag;
+  }
+
+  async update(id: string, updates: Partial<Pick<InsertTag, 'name' | 'color'>>): Promise<Tag> {
+    const [tag] = await db
+      .update(tags)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+    return tag;
+  }
+
+  /**
+   * Delete a tag and remove it from every contact and task that has it.
+   */
+  async delete(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(contactTags).where(eq(contactTags.tagId, id));
+      await tx.delete(taskTags).where(eq(taskTags.tagId, id));
+      const result = await tx.delete(tags).where(eq(tags.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  /**
+   * Move every contact and task from the source tag to the target tag, then delete the source.
+   * Contacts and tasks that already have the target tag are not given it twice.
+   */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [sourceContacts, targetContacts] = await Promise.all([
+        tx.select({ contactId: contactTags.contactId }).from(contactTags).where(eq(contactTags.tagId, sourceId)),
+        tx.select({ contactId: contactTags.contactId }).from(contactTags).where(eq(contactTags.tagId, targetId)),
+      ]);
+      const tagged = new Set(targetContacts.map((row) => row.contactId));
+      const contactIds = [...new Set(sourceContacts.map((row) => row.contactId))].filter((id) => !tagged.has(id));
+      if (contactIds.length > 0) {
+        await tx.insert(contactTags).values(contactIds.map((contactId) => ({ contactId, tagId: targetId })));
+      }
+
+      const sourceTasks = await tx
+        .select({ taskId: taskTags.taskId })
+        .from(taskTags)
+        .where(eq(taskTags.tagId, sourceId));
+      if (sourceTasks.length > 0) {
+        await tx
+          .insert(taskTags)
+          .values(sourceTasks.map(({ taskId }) => ({ taskId, tagId: targetId })))
+          .onConflictDoNothing();
+      }
+
+      await tx.delete(contactTags).where(eq(contactTags.tagId, sourceId));
+      await tx.delete(taskTags).where(eq(taskTags.tagId, sourceId));
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+    });
+  }
+
+  // --- Task Tags ---
+  async getForTasks(taskIds: string[]): Promise<Map<string, Tag[]>> {
+    const byTask = new Map<string, Tag[]>();
+    if (taskIds.length === 0) return byTask;
+
+    const rows = await db
+      .select({ taskId: taskTags.taskId, tag: tags })
+      .from(taskTags)
+      .innerJoin(tags, eq(taskTags.tagId, tags.id))
+      .where(inArray(taskTags.taskId, taskIds))
+      .orderBy(asc(tags.name));
+    for (const row of rows) {
+      const taskTagList = byTask.get(row.taskId) ?? [];
+      taskTagList.push(row.tag);
+      byTask.set(row.taskId, taskTagList);
+    }
+    return byTask;
+  }
+
+  /**
+   * Replace the tags of a task.
+   */
+  async setTaskTags(taskId: string, tagIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(taskTags).where(eq(taskTags.taskId, taskId));
+      if (tagIds.length > 0) {
+        await tx
+          .insert(taskTags)
+          .values(tagIds.map((tagId) => ({ taskId, tagId })))
+          .onConflictDoNothing();
+      }
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { db } from '../db.js';
+import { taskTemplates, type TaskTemplate, type InsertTaskTemplate } from '../../shared/schema.js';
+import { asc, eq } from 'drizzle-orm';
+
+export class TaskTemplateData {
+  async getByUserId(userId: string): Promise<TaskTemplate[]> {
+    return db
+      .select()
+      .from(taskTemplates)
+      .where(eq(taskTemplates.userId, userId))
+      .orderBy(asc(taskTemplates.name));
+  }
+
+  async getById(id: string): Promise<TaskTemplate | undefined> {
+    const [template] = await db.select().from(taskTemplates).where(eq(taskTemplates.id, id));
+    return template;
+  }
+
+  async create(template: InsertTaskTemplate): Promise<TaskTemplate> {
+    const [newTemplate] = await db.insert(taskTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async update(id: string, updates: Partial<InsertTaskTemplate>): Promise<TaskTemplate> {
+    const [template] = await db
+      .update(taskTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(taskTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await db.delete(taskTemplates).where(eq(taskTemplates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,141 @@
+import { db } from '../db.js';
+import {
+  tasks,
+  taskTimeEntries,
+  type Task,
+  type TaskTimeEntry,
+  type InsertTaskTimeEntry,
+} from '../../shared/schema.js';
+import { and, desc, eq, gte, isNotNull, isNull, lt, sql, type SQL } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Time logged on one task, with what the report groups it by
+export interface TrackedTaskTime {
+  taskId: string;
+  projectId: string | null;
+  assignedContactIds: unknown;
+  estimatedMinutes: number | null;
+  trackedMinutes: number;
+}
+
+// Keep tasks.actual_minutes equal to the minutes of the task's finished entries
+async function rollUpActualMinutes(tx: Transaction, taskId: string): Promise<Task> {
+  const [task] = await tx
+    .update(tasks)
+    .set({
+      actualMinutes: sql`(
+        select coalesce(sum(${taskTimeEntries.minutes}), 0)::integer
+        from ${taskTimeEntries}
+        where ${taskTimeEntries.taskId} = ${taskId}
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(eq(tasks.id, taskId))
+    .returning();
+  return task;
+}
+
+// Postgres unique_violation on the one-running-timer-per-user index
+function isRunningTimerConflict(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { code, constraint } = error as { code?: unknown; constraint?: unknown };
+  return code === '23505' && constraint === 'task_time_entries_running_timer_idx';
+}
+
+export class TaskTimeData {
+  async getByTaskId(taskId: string): Promise<TaskTimeEntry[]> {
+    return db
+      .select()
+      .from(taskTimeEntries)
+      .where(eq(taskTimeEntries.taskId, taskId))
+      .orderBy(desc(taskTimeEntries.startedAt));
+  }
+
+  async getById(id: string): Promise<TaskTimeEntry | undefined> {
+    const [entry] = await db.select().from(taskTimeEntries).where(eq(taskTimeEntries.id, id));
+    return entry;
+  }
+
+  async getRunning(userId: string): Promise<TaskTimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(taskTimeEntries)
+      .where(and(eq(taskTimeEntries.userId, userId), isNull(taskTimeEntries.endedAt)));
+    return entry;
+  }
+
+  /**
+   * Start a running entry. Returns undefined when the user already has a timer running, e.g. one
+   * started by a concurrent request after the caller checked.
+   */
+  async startTimer(entry: InsertTaskTimeEntry): Promise<TaskTimeEntry | undefined> {
+    try {
+      const [newEntry] = await db.insert(taskTimeEntries).values(entry).returning();
+      return newEntry;
+    } catch (error: unknown) {
+      if (isRunningTimerConflict(error)) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a running timer and roll its minutes up into the task. Returns undefined when the
+   * timer was already stopped.
+   */
+  async stopTimer(
+    id: string,
+    endedAt: Date,
+    minutes: number
+  ): Promise<{ entry: TaskTimeEntry; task: Task } | undefined> {
+    return db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(taskTimeEntries)
+        .set({ endedAt, minutes })
+        .where(and(eq(taskTimeEntries.id, id), isNull(taskTimeEntries.endedAt)))
+        .returning();
+      if (!entry) return undefined;
+      return { entry, task: await rollUpActualMinutes(tx, entry.taskId) };
+    });
+  }
+
+  /**
+   * Add a finished entry, e.g. time entered by hand, and roll it up into the task.
+   */
+  async create(entry: InsertTaskTimeEntry): Promise<{ entry: TaskTimeEntry; task: Task }> {
+    return db.transaction(async (tx) => {
+      const [newEntry] = await tx.insert(taskTimeEntries).values(entry).returning();
+      return { entry: newEntry, task: await rollUpActualMinutes(tx, newEntry.taskId) };
+    });
+  }
+
+  async delete(id: string): Promise<{ entry: TaskTimeEntry; task: Task } | undefined> {
+    return db.transaction(async (tx) => {
+      const [entry] = await tx.delete(taskTimeEntries).where(eq(taskTimeEntries.id, id)).returning();
+      if (!entry) return undefined;
+      return { entry, task: await rollUpActualMinutes(tx, entry.taskId) };
+    });
+  }
+
+  /**
+   * Finished time per task for the user, optionally only entries started within [from, to).
+   */
+  async getTrackedTimeByTask(userId: string, from?: Date, to?: Date): Promise<TrackedTaskTime[]> {
+    const conditions: SQL[] = [eq(taskTimeEntries.userId, userId), isNotNull(taskTimeEntries.minutes)];
+    if (from) conditions.push(gte(taskTimeEntries.startedAt, from));
+    if (to) conditions.push(lt(taskTimeEntries.startedAt, to));
+
+    return db
+      .select({
+        taskId: tasks.id,
+        projectId: tasks.projectId,
+        assignedContactIds: tasks.assignedContactIds,
+        estimatedMinutes: tasks.estimatedMinutes,
+        trackedMinutes: sql<number>`sum(${taskTimeEntries.minutes})::integer`,
+      })
+      .from(taskTimeEntries)
+      .innerJoin(tasks, eq(taskTimeEntries.taskId, tasks.id))
+      .where(and(...conditions))
+      .groupBy(tasks.id);
+  }
+}
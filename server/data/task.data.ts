@@ -10,7 +10,45 @@ import {
   type TaskActivity,
   type InsertTaskActivity,
 } from '../../shared/schema.js';
-import { eq, desc, and, sql } from 'drizzle-orm';
+import { eq, desc, and, or, ne, inArray, isNull, isNotNull, lt, count, sql } from 'drizzle-orm';
+
+// A task to create together with its subtasks; they all belong to the root task's user
+export type TaskTreeNode = Omit<InsertTask, 'userId' | 'parentTaskId'> & { subtasks?: TaskTreeNode[] };
+
+export type NewTaskTree = TaskTreeNode & Pick<InsertTask, 'userId' | 'parentTaskId'>;
+
+// A task's new position on the board, and the column fields that change with it
+export type TaskPlacement = { id: string; orderIndex: number } & Partial<
+  Pick<InsertTask, 'status' | 'priority' | 'projectId' | 'completedAt'>
+>;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function insertSubtasks(
+  tx: Transaction,
+  userId: string,
+  parentTaskId: string,
+  subtasks: TaskTreeNode[]
+): Promise<void> {
+  for (const [orderIndex, { subtasks: children, ...subtask }] of subtasks.entries()) {
+    const [created] = await tx
+      .insert(tasks)
+      .values({ orderIndex, ...subtask, userId, parentTaskId })
+      .returning();
+    if (children?.length) {
+      await insertSubtasks(tx, userId, created.id, children);
+    }
+  }
+}
+
+async function insertTaskTree(
+  tx: Transaction,
+  { subtasks = [], ...task }: NewTaskTree
+): Promise<Task> {
+  const [root] = await tx.insert(tasks).values(task).returning();
+  await insertSubtasks(tx, root.userId, root.id, subtasks);
+  return root;
+}
 
 export class TaskData {
   // --- Projects ---
@@ -59,6 +97,14 @@ export class TaskData {
       .orderBy(desc(tasks.createdAt));
   }
 
+  async getTasksByIds(userId: string, ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.userId, userId), inArray(tasks.id, ids)));
+  }
+
   async getTasksByProjectId(projectId: string): Promise<Task[]> {
     return db
       .select()
@@ -86,6 +132,89 @@ export class TaskData {
     return (result.rowCount ?? 0) > 0;
   }
 
+  /**
+   * Create a task with its subtask tree in one transaction.
+   */
+  async createTaskTree(tree: NewTaskTree): Promise<Task> {
+    return db.transaction((tx) => insertTaskTree(tx, tree));
+  }
+
+  /**
+   * Move the user's tasks to new positions, and columns, in one transaction together with the
+   * activities that record the moves.
+   */
+  async reorderTasks(
+    userId: string,
+    placements: TaskPlacement[],
+    activities: InsertTaskActivity[]
+  ): Promise<Task[]> {
+    return db.transaction(async (tx) => {
+      const updated: Task[] = [];
+      for (const { id, ...placement } of placements) {
+        const [task] = await tx
+          .update(tasks)
+          .set({ ...placement, updatedAt: new Date() })
+          .where(and(eq(tasks.id, id), eq(tasks.userId, userId)))
+          .returning();
+        if (task) updated.push(task);
+      }
+      if (activities.length > 0) {
+        await tx.insert(taskActivities).values(activities);
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Create the next instance of a recurring series after the given task. Only one instance is
+   * ever created per task: returns undefined when it already exists.
+   */
+  async createNextOccurrence(
+    previousTaskId: string,
+    tree: NewTaskTree
+  ): Promise<Task | undefined> {
+    return db.transaction(async (tx) => {
+      const claimed = await tx
+        .update(tasks)
+        .set({ nextOccurrenceCreatedAt: new Date() })
+        .where(and(eq(tasks.id, previousTaskId), isNull(tasks.nextOccurrenceCreatedAt)))
+        .returning({ id: tasks.id });
+      if (claimed.length === 0) return undefined;
+
+      return insertTaskTree(tx, tree);
+    });
+  }
+
+  /**
+   * How many tasks the recurring series has produced so far, counting the first one.
+   */
+  async countRecurrenceSeries(seriesId: string): Promise<number> {
+    const [row] = await db
+      .select({ total: count() })
+      .from(tasks)
+      .where(or(eq(tasks.id, seriesId), eq(tasks.recurrenceSeriesId, seriesId)));
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Recurring tasks whose date (due date, or creation date without one) is before the given
+   * time and whose next instance does not exist yet. Cancelled tasks end their series.
+   */
+  async getRecurringTasksDue(userId: string, before: Date): Promise<Task[]> {
+    return db
+      .select()
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.userId, userId),
+          isNotNull(tasks.recurrenceRule),
+          isNull(tasks.nextOccurrenceCreatedAt),
+          ne(tasks.status, 'cancelled'),
+          lt(sql`coalesce(${tasks.dueDate}, ${tasks.createdAt})`, before)
+        )
+      );
+  }
+
   async getSubtasks(parentTaskId: string): Promise<Task[]> {
     return db
       .select()
@@ -0,0 +1,153 @@
+import { db } from '../db.js';
+import {
+  interactions,
+  emails,
+  emailContacts,
+  calendarEvents,
+  tasks,
+  type Interaction,
+  type Email,
+  type CalendarEvent,
+  type Task,
+} from '../../shared/schema.js';
+import { and, desc, eq, or, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { TIMELINE_TYPES, type TimelineCursor } from '../utils/timeline-cursor.js';
+import type { TimelineItemType } from '../types/service-contracts.js';
+
+export interface TimelineRange {
+  cursor?: TimelineCursor;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export type TimelineRow<T> = T & { timelineAt: Date };
+
+/**
+ * Conditions that keep the rows of one source that come after the cursor and inside the date
+ * range. Timestamps are compared at millisecond precision, the precision cursors carry.
+ */
+function rangeConditions(
+  at: SQL,
+  id: PgColumn,
+  type: TimelineItemType,
+  { cursor, from, to }: TimelineRange
+): SQL[] {
+  const conditions: SQL[] = [];
+  if (from) conditions.push(sql`${at} >= ${from.toISOString()}`);
+  if (to) conditions.push(sql`${at} <= ${to.toISOString()}`);
+
+  if (cursor) {
+    const cursorAt = cursor.timestamp.toISOString();
+    const rank = TIMELINE_TYPES.indexOf(type);
+    const cursorRank = TIMELINE_TYPES.indexOf(cursor.type);
+    if (rank > cursorRank) {
+      conditions.push(sql`${at} <= ${cursorAt}`);
+    } else if (rank < cursorRank) {
+      conditions.push(sql`${at} < ${cursorAt}`);
+    } else {
+      conditions.push(sql`(${at} < ${cursorAt} OR (${at} = ${cursorAt} AND ${id} < ${cursor.id}))`);
+    }
+  }
+  return conditions;
+}
+
+function millis(column: PgColumn | SQL): SQL {
+  return sql`date_trunc('milliseconds', ${column})`;
+}
+
+export class TimelineData {
+  /**
+   * Gmail interactions stand for a whole thread; they are left out when the thread's emails are
+   * already on the contact's timeline.
+   */
+  async getInteractions(contactId: string, range: TimelineRange): Promise<TimelineRow<Interaction>[]> {
+    const at = millis(interactions.timestamp);
+    const rows = await db
+      .select({ interaction: interactions, timelineAt: at.mapWith(interactions.timestamp) })
+      .from(interactions)
+      .where(
+        and(
+          eq(interactions.contactId, contactId),
+          sql`(${interactions.source} is distinct from 'gmail' or not exists (
+            select 1 from ${emailContacts}
+            inner join ${emails} on ${emails.id} = ${emailContacts.emailId}
+            where ${emailContacts.contactId} = ${interactions.contactId}
+              and ${emails.gmailThreadId} = ${interactions.sourceId}
+          ))`,
+          ...rangeConditions(at, interactions.id, 'interaction', range)
+        )
+      )
+      .orderBy(desc(at), desc(interactions.id))
+      .limit(range.limit + 1);
+    return rows.map((row) => ({ ...row.interaction, timelineAt: row.timelineAt }));
+  }
+
+  /**
+   * Emails the contact sent or received, including those they were only copied on.
+   */
+  async getEmails(userId: string, contactId: string, range: TimelineRange): Promise<TimelineRow<Email>[]> {
+    const at = millis(emails.timestamp);
+    const rows = await db
+      .select({ email: emails, timelineAt: at.mapWith(emails.timestamp) })
+      .from(emails)
+      .where(
+        and(
+          eq(emails.userId, userId),
+          or(
+            eq(emails.contactId, contactId),
+            sql`exists (select 1 from ${emailContacts} where ${emailContacts.emailId} = ${emails.id} and ${emailContacts.contactId} = ${contactId})`
+          ),
+          ...rangeConditions(at, emails.id, 'email', range)
+        )
+      )
+      .orderBy(desc(at), desc(emails.id))
+      .limit(range.limit + 1);
+    return rows.map((row) => ({ ...row.email, timelineAt: row.timelineAt }));
+  }
+
+  /**
+   * Events are placed at their start time, or when they were synced if they have none.
+   */
+  async getCalendarEvents(
+    userId: string,
+    contactId: string,
+    range: TimelineRange
+  ): Promise<TimelineRow<CalendarEvent>[]> {
+    const at = millis(sql`coalesce(${calendarEvents.startTime}, ${calendarEvents.createdAt})`);
+    const rows = await db
+      .select({ event: calendarEvents, timelineAt: at.mapWith(calendarEvents.createdAt) })
+      .from(calendarEvents)
+      .where(
+        and(
+          eq(calendarEvents.userId, userId),
+          eq(calendarEvents.contactId, contactId),
+          ...rangeConditions(at, calendarEvents.id, 'calendar_event', range)
+        )
+      )
+      .orderBy(desc(at), desc(calendarEvents.id))
+      .limit(range.limit + 1);
+    return rows.map((row) => ({ ...row.event, timelineAt: row.timelineAt }));
+  }
+
+  /**
+   * Tasks assigned to the contact, placed when they were completed or otherwise created.
+   */
+  async getTasks(userId: string, contactId: string, range: TimelineRange): Promise<TimelineRow<Task>[]> {
+    const at = millis(sql`coalesce(${tasks.completedAt}, ${tasks.createdAt})`);
+    const rows = await db
+      .select({ task: tasks, timelineAt: at.mapWith(tasks.createdAt) })
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.userId, userId),
+          sql`${tasks.assignedContactIds} @> ${JSON.stringify([contactId])}::jsonb`,
+          ...rangeConditions(at, tasks.id, 'task', range)
+        )
+      )
+      .orderBy(desc(at), desc(tasks.id))
+      .limit(range.limit + 1);
+    return rows.map((row) => ({ ...row.task, timelineAt: row.timelineAt }));
+  }
+}
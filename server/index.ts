@@ -11,13 +11,20 @@ import passport from './utils/passport-config.js';
 import { pool } from './db.js';
 import { syncService as _syncService } from './services/sync.js';
 import { taskScheduler as _taskScheduler } from './services/task-scheduler.js';
-import { securityHeaders, generalRateLimit } from './utils/security.js';
+import { securityHeaders, generalRateLimit, parseTrustProxy } from './utils/security.js';
 import apiRouter from './api/index.routes.js';
 import { setupVite, serveStatic, log } from './vite.js';
 import { logError, createErrorResponse } from './utils/error-handling.js';
 
 const app = express();
 
+// X-Forwarded-For is only trusted behind a known reverse proxy; otherwise any client could pick
+// its own req.ip and get a fresh per-IP rate limit bucket on every request
+const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+if (trustProxy !== false) {
+  app.set('trust proxy', trustProxy);
+}
+
 // --- Core Middleware ---
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -53,7 +60,6 @@ app.use((req, res, next) => {
 
 // --- Security, Session, and Auth Middleware (moved from old routes.ts) ---
 app.use(securityHeaders);
-app.use(generalRateLimit); // Re-enabled with higher limit for testing
 app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 app.use(cookieParser());
 
@@ -93,7 +99,7 @@ app.use('/auth', authRouter);
 
 // --- Main API Router ---
 // This replaces the old call to registerRoutes(app)
-app.use('/api', apiRouter);
+app.use('/api', generalRateLimit, apiRouter);
 
 void (async () => {
   try {
@@ -24,24 +24,75 @@ class GeminiService {
     }
 
     try {
-      const geminiModel = genAI.getGenerativeModel({
-        model,
-        // Define default safety settings for responsible AI usage
-        safetySettings: [
-          {
-            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-            threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-            threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-          },
-        ],
+      const geminiModel = this.getModel(model);
+
+      // Note: Gemini doesn't support JSON mode like OpenAI, so we ignore the isJson parameter
+      if (isJson) {
+        console.warn('Gemini provider does not support JSON mode. Ignoring isJson parameter.');
+      }
+
+      const result = await geminiModel.generateContent(this.toPromptParts(messages));
+
+      return result.response.text();
+    } catch (error) {
+      console.error(`Gemini API error for model ${model}:`, error);
+      throw new Error(`Failed to generate response from Gemini model: ${model}.`);
+    }
+  }
+
+  /**
+   * Stream a completion as text deltas.
+   * @param model The specific Gemini model to use.
+   * @param messages The array of messages for the completion.
+   * @param signal Stops reading the stream; Gemini still bills for the full generation.
+   */
+  async *streamCompletion(
+    model: SupportedGeminiModel,
+    messages: ChatCompletionMessageParam[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    if (!process.env.GOOGLE_API_KEY) {
+      throw new Error('Google API key (GOOGLE_API_KEY) is not set.');
+    }
+
+    try {
+      const result = await this.getModel(model).generateContentStream(this.toPromptParts(messages), {
+        signal,
       });
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      // Let cancellations through untouched so callers can tell them apart from failures
+      if (signal?.aborted) throw error;
+      console.error(`Gemini streaming error for model ${model}:`, error);
+      throw new Error(`Failed to stream response from Gemini model: ${model}.`);
+    }
+  }
 
-      // The Gemini SDK's `generateContent` takes a simple array of strings/parts.
-      // We will combine our structured messages into the format it expects.
-      const promptParts = messages.map((msg) => {
+  private getModel(model: SupportedGeminiModel) {
+    return genAI.getGenerativeModel({
+      model,
+      // Define default safety settings for responsible AI usage
+      safetySettings: [
+        {
+          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+        },
+      ],
+    });
+  }
+
+  // The Gemini SDK's `generateContent` takes a simple array of strings/parts.
+  // We combine our structured messages into the format it expects.
+  private toPromptParts(messages: ChatCompletionMessageParam[]): string[] {
+    return messages
+      .map((msg) => {
         // Handle different content types from ChatCompletionMessageParam
         if (typeof msg.content === 'string') {
           return msg.content;
@@ -54,20 +105,8 @@ class GeminiService {
         } else {
           return ''; // Handle null/undefined content
         }
-      }).filter(part => part.length > 0); // Remove empty parts
-      
-      // Note: Gemini doesn't support JSON mode like OpenAI, so we ignore the isJson parameter
-      if (isJson) {
-        console.warn('Gemini provider does not support JSON mode. Ignoring isJson parameter.');
-      }
-
-      const result = await geminiModel.generateContent(promptParts);
-
-      return result.response.text();
-    } catch (error) {
-      console.error(`Gemini API error for model ${model}:`, error);
-      throw new Error(`Failed to generate response from Gemini model: ${model}.`);
-    }
+      })
+      .filter((part) => part.length > 0); // Remove empty parts
   }
 }
 
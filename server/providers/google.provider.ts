@@ -1,7 +1,16 @@
 import { google } from 'googleapis';
-import type { calendar_v3 } from 'googleapis';
+import type { calendar_v3, drive_v3, gmail_v1 } from 'googleapis';
 import { storage } from '../data/index.js'; // <-- CORRECTED IMPORT
-import type { User } from '../../shared/schema.js';
+import type { Contact, User } from '../../shared/schema.js';
+import {
+  DOCUMENT_MIME_TYPES,
+  extractDocumentText,
+  isSupportedDocumentType,
+} from '../utils/document-text-extractor.js';
+import { matchDriveFileToContact } from '../utils/drive-contact-matcher.js';
+import { parseAddressList } from '../utils/email-contact-matcher.js';
+import { buildRawEmail, type OutgoingEmail } from '../utils/gmail-message.js';
+import { emailLinkingService } from '../services/email-linking.service.js';
 
 // Extended event type that properly extends Google's Schema$Event
 type ExtendedCalendarEvent = calendar_v3.Schema$Event & {
@@ -10,6 +19,51 @@ type ExtendedCalendarEvent = calendar_v3.Schema$Event & {
   calendarColor?: string | null;
 };
 
+const DRIVE_FILE_FIELDS = 'id, name, mimeType, modifiedTime, size, webViewLink, permissions(emailAddress)';
+// The first sync only imports the most recently modified files; later changes arrive incrementally
+const MAX_INITIAL_DRIVE_FILES = 500;
+const MAX_DRIVE_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+const GOOGLE_SHEETS_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+const ATTENDANCE_SHEET_MIME_TYPES = [
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  GOOGLE_SHEETS_MIME_TYPE,
+];
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+}
+
+export interface AttendanceSheetFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Uploaded CSVs carry a head revision; native Sheets do not, so their modified time stands in
+  revision: string;
+}
+
+// Drive rejects page tokens that are malformed or too old to replay
+function isInvalidPageTokenError(error: unknown): boolean {
+  const status = (error as { code?: unknown; status?: unknown } | null)?.code ??
+    (error as { status?: unknown } | null)?.status;
+  return [400, 404, 410].includes(Number(status));
+}
+
+// First text/plain part of a message, searched depth first
+function plainTextBody(part: gmail_v1.Schema$MessagePart | undefined): string | null {
+  if (!part) return null;
+  if (part.mimeType === 'text/plain' && part.body?.data) {
+    return Buffer.from(part.body.data, 'base64url').toString('utf8');
+  }
+  for (const child of part.parts ?? []) {
+    const text = plainTextBody(child);
+    if (text) return text;
+  }
+  return null;
+}
+
 export class GoogleService {
   private getOAuth2Client(user: User) {
     const oauth2Client = new google.auth.OAuth2(
@@ -41,50 +95,50 @@ export class GoogleService {
 
       for (const message of messages) {
         if (!message.id) continue;
+        if (await storage.emails.findByGmailId(user.id, message.id)) continue;
 
         const messageDetail = await gmail.users.messages.get({
           userId: 'me',
           id: message.id,
         });
 
-        const headers = messageDetail.data.payload?.headers ?? [];
-        const from = headers.find((h) => h.name === 'From')?.value ?? '';
-        const subject = headers.find((h) => h.name === 'Subject')?.value ?? '';
-        const date = headers.find((h) => h.name === 'Date')?.value;
-
-        const emailMatch = from.match(/<(.+?)>/) ?? from.match(/(\S+@\S+)/);
-        const email = emailMatch ? emailMatch[1] ?? emailMatch[0] : '';
+        const payload = messageDetail.data.payload;
+        const headers = payload?.headers ?? [];
+        const header = (name: string) =>
+          headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value ?? '';
 
-        if (!email) continue;
+        const [sender] = parseAddressList(header('From'));
+        if (!sender) continue;
 
-        const contacts = await storage.contacts.getByUserId(user.id); // <-- CORRECTED CALL
-        let contact = contacts.find((c) => c.email === email);
+        const date = header('Date');
+        const sentAt = messageDetail.data.internalDate
+          ? new Date(Number(messageDetail.data.internalDate))
+          : new Date(date);
+        const labels = messageDetail.data.labelIds ?? [];
 
-        if (!contact) {
-          const name = from.replace(/<.*?>/, '').trim() ?? email;
-          const createdContact = await storage.contacts.create({
-            // <- CORRECTED CALL
-            userId: user.id,
-            name,
-            email,
-            lastContact: new Date(),
-          });
-          // Add empty tags array to match expected type
-          contact = { ...createdContact, tags: [] };
-        }
-
-        await storage.interactions.create({
-          // <- CORRECTED CALL
-          contactId: contact!.id,
-          type: 'email',
-          subject,
-          content: subject ?? 'Email interaction',
-          timestamp: date ? new Date(date) : new Date(),
-          source: 'gmail',
-          sourceId: message.id,
+        await storage.emails.create({
+          userId: user.id,
+          gmailMessageId: message.id,
+          gmailThreadId: messageDetail.data.threadId ?? message.id,
+          rawData: messageDetail.data,
+          subject: header('Subject') || null,
+          fromEmail: sender.email,
+          fromName: sender.name,
+          toEmails: parseAddressList(header('To')),
+          ccEmails: parseAddressList(header('Cc')),
+          bodyText: plainTextBody(payload),
+          snippet: messageDetail.data.snippet ?? null,
+          timestamp: Number.isNaN(sentAt.getTime()) ? new Date() : sentAt,
+          isRead: !labels.includes('UNREAD'),
+          labels,
         });
       }
 
+      // Everything in the sync window is linked again, so contacts added since the last sync
+      // pick up their emails too
+      const recentEmails = await storage.emails.getRecent(user.id, 7);
+      await emailLinkingService.linkEmails(user, recentEmails);
+
       await storage.misc.updateSyncStatus(user.id, 'gmail', {
         // <-- CORRECTED CALL
         lastSync: new Date(),
@@ -101,6 +155,28 @@ export class GoogleService {
     }
   }
 
+  /**
+   * Saves a reply as a draft in the thread, replacing the draft's content when draftId is given.
+   */
+  async saveGmailDraft(
+    user: User,
+    threadId: string,
+    email: OutgoingEmail,
+    draftId?: string
+  ): Promise<{ id: string }> {
+    const gmail = google.gmail({ version: 'v1', auth: this.getOAuth2Client(user) });
+    const requestBody = { message: { raw: buildRawEmail(email), threadId } };
+
+    const response = draftId
+      ? await gmail.users.drafts.update({ userId: 'me', id: draftId, requestBody })
+      : await gmail.users.drafts.create({ userId: 'me', requestBody });
+
+    if (!response.data.id) {
+      throw new Error('Gmail did not return a draft ID');
+    }
+    return { id: response.data.id };
+  }
+
   async syncCalendar(
     user: User,
     options?: {
@@ -305,47 +381,35 @@ export class GoogleService {
     }
   }
 
+  /**
+   * Incremental Drive sync. The first run lists recent documents and stores a changes page
+   * token; later runs only fetch what changed since that token.
+   */
   async syncDrive(user: User): Promise<void> {
     try {
       const oauth2Client = this.getOAuth2Client(user);
       const drive = google.drive({ version: 'v3', auth: oauth2Client });
 
-      const response = await drive.files.list({
-        q: "mimeType='application/pdf' or mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document' or mimeType='text/plain'",
-        fields: 'files(id, name, mimeType, modifiedTime)',
-        orderBy: 'modifiedTime desc',
-        pageSize: 50,
-      });
-
-      const files = response.data.files ?? [];
-
-      for (const file of files) {
-        if (!file.id || !file.name) continue;
-
-        const contacts = await storage.contacts.getByUserId(user.id); // <-- CORRECTED CALL
-        if (contacts.length === 0) continue;
-
-        const contact = contacts[0];
+      const status = (await storage.misc.getSyncStatus(user.id)).find((s) => s.service === 'drive');
+      const contacts = await storage.contacts.getByUserId(user.id);
 
-        const existingDocs = await storage.misc.getDocumentsByContactId(contact.id); // <-- CORRECTED CALL
-        const exists = existingDocs.some((doc) => doc.driveId === file.id);
-
-        if (!exists) {
-          await storage.misc.createDocument({
-            // <-- CORRECTED CALL
-            contactId: contact.id,
-            name: file.name,
-            type: file.mimeType ?? 'unknown',
-            driveId: file.id,
-            url: `https://drive.google.com/file/d/${file.id}/view`,
-          });
+      let syncToken: string;
+      if (status?.syncToken) {
+        try {
+          syncToken = await this.syncDriveChanges(drive, user, contacts, status.syncToken);
+        } catch (error) {
+          if (!isInvalidPageTokenError(error)) throw error;
+          console.warn(`Drive page token rejected for ${user.email}, running a full sync`);
+          syncToken = await this.syncDriveFull(drive, user, contacts);
         }
+      } else {
+        syncToken = await this.syncDriveFull(drive, user, contacts);
       }
 
       await storage.misc.updateSyncStatus(user.id, 'drive', {
-        // <-- CORRECTED CALL
         lastSync: new Date(),
         status: 'success',
+        syncToken,
       });
     } catch (error) {
       console.error('Drive sync error:', error);
@@ -357,6 +421,200 @@ export class GoogleService {
       });
     }
   }
+
+  private async syncDriveFull(drive: drive_v3.Drive, user: User, contacts: Contact[]): Promise<string> {
+    // Taken before listing so changes made while we list are picked up next time
+    const { data: tokenData } = await drive.changes.getStartPageToken({});
+    if (!tokenData.startPageToken) {
+      throw new Error('Drive did not return a start page token');
+    }
+
+    const mimeQuery = Object.values(DOCUMENT_MIME_TYPES)
+      .map((type) => `mimeType='${type}'`)
+      .join(' or ');
+    let pageToken: string | undefined;
+    let synced = 0;
+
+    do {
+      const { data } = await drive.files.list({
+        q: `(${mimeQuery}) and trashed = false`,
+        fields: `nextPageToken, files(${DRIVE_FILE_FIELDS})`,
+        orderBy: 'modifiedTime desc',
+        pageSize: 100,
+        pageToken,
+      });
+
+      for (const file of data.files ?? []) {
+        if (synced >= MAX_INITIAL_DRIVE_FILES) break;
+        await this.syncDriveFile(drive, user, contacts, file);
+        synced++;
+      }
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken && synced < MAX_INITIAL_DRIVE_FILES);
+
+    return tokenData.startPageToken;
+  }
+
+  private async syncDriveChanges(
+    drive: drive_v3.Drive,
+    user: User,
+    contacts: Contact[],
+    startToken: string
+  ): Promise<string> {
+    let pageToken = startToken;
+
+    for (;;) {
+      const { data } = await drive.changes.list({
+        pageToken,
+        fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${DRIVE_FILE_FIELDS}, trashed))`,
+        pageSize: 100,
+        spaces: 'drive',
+      });
+
+      for (const change of data.changes ?? []) {
+        if (!change.fileId) continue;
+        if (change.removed || change.file?.trashed) {
+          await storage.misc.deleteDocumentByDriveId(user.id, change.fileId);
+        } else if (change.file) {
+          await this.syncDriveFile(drive, user, contacts, change.file);
+        }
+      }
+
+      if (data.newStartPageToken) return data.newStartPageToken;
+      if (!data.nextPageToken) throw new Error('Drive changes response had no page token');
+      pageToken = data.nextPageToken;
+    }
+  }
+
+  private async syncDriveFile(
+    drive: drive_v3.Drive,
+    user: User,
+    contacts: Contact[],
+    file: drive_v3.Schema$File
+  ): Promise<void> {
+    if (!file.id || !file.name || !file.mimeType || !isSupportedDocumentType(file.mimeType)) return;
+
+    const driveModifiedTime = file.modifiedTime ? new Date(file.modifiedTime) : null;
+    const existing = await storage.misc.getDocumentByDriveId(user.id, file.id);
+    if (
+      existing?.driveModifiedTime &&
+      driveModifiedTime &&
+      existing.driveModifiedTime.getTime() === driveModifiedTime.getTime()
+    ) {
+      return;
+    }
+
+    const content = await this.downloadDriveText(drive, file.id, file.mimeType, file.size);
+
+    // Manual assignments and dismissals are the practitioner's call; only refresh the file itself
+    if (existing && (existing.matchMethod === 'manual' || existing.reviewStatus === 'dismissed')) {
+      await storage.misc.updateDocument(existing.id, { name: file.name, content, driveModifiedTime });
+      return;
+    }
+
+    const permissionEmails = (file.permissions ?? [])
+      .map((permission) => permission.emailAddress)
+      .filter((email): email is string => Boolean(email));
+    const match = matchDriveFileToContact(
+      { name: file.name, permissionEmails, content },
+      contacts,
+      user.email
+    );
+
+    await storage.misc.upsertDriveDocument({
+      userId: user.id,
+      contactId: match?.contactId ?? null,
+      name: file.name,
+      type: file.mimeType,
+      content,
+      driveId: file.id,
+      driveModifiedTime,
+      url: file.webViewLink ?? `https://drive.google.com/file/d/${file.id}/view`,
+      matchMethod: match?.method ?? null,
+      reviewStatus: match ? 'matched' : 'pending_review',
+    });
+  }
+
+  /**
+   * Folders the user can pick as the attendance sheet folder, most recently used first.
+   */
+  async listDriveFolders(user: User): Promise<DriveFolder[]> {
+    const drive = google.drive({ version: 'v3', auth: this.getOAuth2Client(user) });
+    const { data } = await drive.files.list({
+      q: "mimeType='application/vnd.google-apps.folder' and trashed = false",
+      fields: 'files(id, name)',
+      orderBy: 'modifiedByMeTime desc',
+      pageSize: 100,
+    });
+
+    return (data.files ?? [])
+      .filter((file): file is drive_v3.Schema$File & DriveFolder => Boolean(file.id && file.name))
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * CSV and XLSX files and Google Sheets directly inside a folder, with the revision to key processing on.
+   */
+  async listAttendanceSheets(user: User, folderId: string): Promise<AttendanceSheetFile[]> {
+    const drive = google.drive({ version: 'v3', auth: this.getOAuth2Client(user) });
+    const mimeQuery = ATTENDANCE_SHEET_MIME_TYPES.map((type) => `mimeType='${type}'`).join(' or ');
+    const sheets: AttendanceSheetFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const { data } = await drive.files.list({
+        q: `'${folderId.replace(/'/g, "\\'")}' in parents and (${mimeQuery}) and trashed = false`,
+        fields: 'nextPageToken, files(id, name, mimeType, headRevisionId, modifiedTime)',
+        pageSize: 100,
+        pageToken,
+      });
+
+      for (const file of data.files ?? []) {
+        const revision = file.headRevisionId ?? file.modifiedTime;
+        if (!file.id || !file.name || !file.mimeType || !revision) continue;
+        sheets.push({ id: file.id, name: file.name, mimeType: file.mimeType, revision });
+      }
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    return sheets;
+  }
+
+  /**
+   * Download an attendance sheet. Google Sheets are exported as CSV, which yields the first
+   * worksheet only; CSV and XLSX files are returned as stored.
+   */
+  async downloadAttendanceSheet(user: User, file: AttendanceSheetFile): Promise<Buffer> {
+    const drive = google.drive({ version: 'v3', auth: this.getOAuth2Client(user) });
+    const response =
+      file.mimeType === GOOGLE_SHEETS_MIME_TYPE
+        ? await drive.files.export(
+            { fileId: file.id, mimeType: 'text/csv' },
+            { responseType: 'arraybuffer' }
+          )
+        : await drive.files.get({ fileId: file.id, alt: 'media' }, { responseType: 'arraybuffer' });
+    return Buffer.from(response.data as ArrayBuffer);
+  }
+
+  private async downloadDriveText(
+    drive: drive_v3.Drive,
+    fileId: string,
+    mimeType: string,
+    size?: string | null
+  ): Promise<string | null> {
+    if (size && Number(size) > MAX_DRIVE_DOWNLOAD_BYTES) return null;
+
+    try {
+      const response = await drive.files.get(
+        { fileId, alt: 'media' },
+        { responseType: 'arraybuffer' }
+      );
+      return await extractDocumentText(Buffer.from(response.data as ArrayBuffer), mimeType);
+    } catch (error) {
+      console.warn(`Failed to download Drive file ${fileId}:`, error);
+      return null;
+    }
+  }
 }
 
 export const googleService = new GoogleService();
@@ -34,6 +34,34 @@ class OpenAIService {
       throw new Error(`Failed to generate response from OpenAI model: ${model}.`);
     }
   }
+
+  /**
+   * Stream a chat completion as text deltas.
+   * @param model The specific OpenAI model to use.
+   * @param messages The array of messages for the chat completion.
+   * @param signal Aborts the upstream request, e.g. when the client disconnects.
+   */
+  async *streamCompletion(
+    model: SupportedOpenAIModel,
+    messages: ChatCompletionMessageParam[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    try {
+      const stream = await openai.chat.completions.create(
+        { model, messages, stream: true },
+        { signal }
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      // Let cancellations through untouched so callers can tell them apart from failures
+      if (signal?.aborted) throw error;
+      console.error(`OpenAI streaming error for model ${model}:`, error);
+      throw new Error(`Failed to stream response from OpenAI model: ${model}.`);
+    }
+  }
 }
 
 export const openaiService = new OpenAIService();
@@ -2,6 +2,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { sanitizeContactInfo } from '../utils/sanitizers.js';
 import type { CalendarEventAnalysis } from '../types/service-contracts.js';
 import type { ContactData } from '../types/external-apis.js';
@@ -88,6 +89,46 @@ export class OpenRouterService {
     const extractedData = JSON.parse(extractJSON(content)) as CalendarEventAnalysis;
     return { ...extractedData, eventId: event.id, llmModel: model };
   }
+
+  /**
+   * Get a chat completion from any OpenRouter model; used by the brains as their LLM provider.
+   */
+  async generateCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    isJson: boolean = false
+  ): Promise<string> {
+    const response = await openrouter.chat.completions.create({
+      model,
+      messages,
+      ...(isJson ? { response_format: { type: 'json_object' } } : {}),
+    });
+    return response.choices[0]?.message?.content ?? '';
+  }
+
+  /**
+   * Stream a chat completion as text deltas. Aborting the signal cancels the upstream request.
+   */
+  async *streamCompletion(
+    model: string,
+    messages: ChatCompletionMessageParam[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    try {
+      const stream = await openrouter.chat.completions.create(
+        { model, messages, stream: true },
+        { signal }
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`OpenRouter streaming error for model ${model}:`, error);
+      throw new Error(`Failed to stream response from OpenRouter model: ${model}.`);
+    }
+  }
 }
 
 // Export a simple, dependency-free singleton, just like the other AI clients.
@@ -0,0 +1,74 @@
+/**
+ * Pluggable speech-to-text for voice notes.
+ * OpenAI Whisper is used unless the local provider is chosen explicitly; it returns a fixed
+ * transcript so uploads can be processed in development and tests without an API key.
+ */
+
+import OpenAI, { toFile } from 'openai';
+
+export interface TranscriptionInput {
+  audio: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /** Return the spoken text of the recording */
+  transcribe(input: TranscriptionInput): Promise<string>;
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  private client?: OpenAI;
+
+  constructor(private model = 'whisper-1') {}
+
+  async transcribe({ audio, fileName, mimeType }: TranscriptionInput): Promise<string> {
+    // Checked per recording so a missing key fails the note rather than server startup
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error(
+        'Voice notes cannot be transcribed: OPENAI_API_KEY is not set. Set it, or set TRANSCRIPTION_PROVIDER=local in development.'
+      );
+    }
+    this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    try {
+      const file = await toFile(audio, fileName, { type: mimeType });
+      const result = await this.client.audio.transcriptions.create({ file, model: this.model });
+      return result.text.trim();
+    } catch (error) {
+      console.error(`OpenAI transcription error for model ${this.model}:`, error);
+      throw new Error(`Failed to transcribe audio with OpenAI model: ${this.model}.`);
+    }
+  }
+}
+
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+
+  constructor(
+    private transcript = 'Voice note recorded. Follow up with the client about their next session.'
+  ) {}
+
+  async transcribe(): Promise<string> {
+    return this.transcript;
+  }
+}
+
+/**
+ * Select the provider from TRANSCRIPTION_PROVIDER ("openai", the default, or "local").
+ * The local provider invents its transcript, so it is never chosen as a fallback.
+ */
+export function createTranscriptionProvider(
+  type = process.env.TRANSCRIPTION_PROVIDER ?? 'openai'
+): TranscriptionProvider {
+  switch (type) {
+    case 'openai':
+      return new OpenAITranscriptionProvider();
+    case 'local':
+      return new LocalTranscriptionProvider();
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${type}"; expected "openai" or "local"`);
+  }
+}
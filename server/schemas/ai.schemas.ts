@@ -27,4 +27,44 @@ export const enrichPhotoSchema = z.object({
   }).optional()
 });
 
-export type EnrichPhotoRequest = z.infer<typeof enrichPhotoSchema>;
\ No newline at end of file
+export type EnrichPhotoRequest = z.infer<typeof enrichPhotoSchema>;
+
+/**
+ * Schema for sending a chat message
+ * Omitting sessionId starts a new conversation
+ */
+export const chatMessageSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(4000, 'Message is too long'),
+  sessionId: z.string().uuid('Invalid chat session ID').optional(),
+  context: z.record(z.unknown()).optional(),
+});
+
+export type ChatMessageRequest = z.infer<typeof chatMessageSchema>;
+
+/**
+ * Schema for setting a user's LLM spending caps
+ * A limit of 0 leaves that period uncapped
+ */
+export const setBudgetSchema = z.object({
+  dailyLimit: z.number().min(0, 'Daily limit cannot be negative'),
+  monthlyLimit: z.number().min(0, 'Monthly limit cannot be negative'),
+  alertThreshold: z.number().int().min(1).max(100).default(80),
+  policy: z.enum(['block', 'downgrade', 'queue']).default('block'),
+});
+
+export type SetBudgetRequest = z.infer<typeof setBudgetSchema>;
+/**
+ * Schema for the LLM usage export query
+ * Both dates are optional; records are returned for [startDate, endDate]
+ */
+export const usageExportQuerySchema = z
+  .object({
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['startDate'],
+  });
+
+export type UsageExportQuery = z.infer<typeof usageExportQuerySchema>;
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+
+const header = z.string().trim().min(1).max(200);
+
+/**
+ * Which sheet header holds each attendance field
+ * A name can come from one column or from separate first/last name columns
+ */
+export const columnMappingSchema = z
+  .object({
+    name: header.optional(),
+    firstName: header.optional(),
+    lastName: header.optional(),
+    email: header.optional(),
+    date: header.optional(),
+    className: header.optional(),
+    status: header.optional(),
+    paid: header.optional(),
+  })
+  .strict()
+  .refine((mapping) => Boolean(mapping.name ?? mapping.firstName ?? mapping.email), {
+    message: 'Map a name, first name or email column',
+  });
+
+// date-fns throws on patterns with unknown tokens, so reject them up front
+const dateFormatSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .refine(
+    (pattern) => {
+      try {
+        format(new Date(), pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid date format pattern' }
+  );
+
+export const attendanceLayoutSchema = z.object({
+  columnMapping: columnMappingSchema,
+  attendedStatuses: z.array(z.string().trim().min(1).max(100)).max(50).nullable().optional(),
+  dateFormat: dateFormatSchema.nullable().optional(),
+});
+
+/**
+ * Schema for creating an attendance import profile
+ */
+export const createAttendanceProfileSchema = attendanceLayoutSchema.extend({
+  name: z.string().trim().min(1, 'Profile name is required').max(100),
+  isDefault: z.boolean().optional(),
+});
+
+export const updateAttendanceProfileSchema = createAttendanceProfileSchema.partial();
+
+// Multipart form fields arrive as strings, so the layout is sent as JSON
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }, schema);
+
+/**
+ * Schema for previewing or importing an uploaded attendance sheet
+ * Use a saved profile, an ad-hoc layout, or neither to detect columns from the headers
+ */
+export const attendanceImportSchema = z.object({
+  profileId: z.string().uuid('Invalid import profile ID').optional(),
+  layout: jsonField(attendanceLayoutSchema).optional(),
+});
+
+// Inferred TypeScript types
+export type AttendanceLayoutDto = z.infer<typeof attendanceLayoutSchema>;
+export type CreateAttendanceProfileDto = z.infer<typeof createAttendanceProfileSchema>;
+export type UpdateAttendanceProfileDto = z.infer<typeof updateAttendanceProfileSchema>;
+export type AttendanceImportDto = z.infer<typeof attendanceImportSchema>;
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+export const lifecycleStageSchema = z.enum([
+  'discovery',
+  'curious',
+  'new_client',
+  'core_client',
+  'ambassador',
+  'needs_reconnecting',
+  'inactive',
+  'collaborator',
+]);
+
+/**
+ * One condition of a rule-based group. Date conditions count days back from now;
+ * a contact that was never contacted counts as contacted longer ago than any limit.
+ */
+export const groupRuleConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('lifecycleStage'),
+    operator: z.enum(['equals', 'notEquals']),
+    value: lifecycleStageSchema,
+  }),
+  z.object({
+    field: z.literal('status'),
+    operator: z.enum(['equals', 'notEquals']),
+    value: z.string().trim().min(1).max(50),
+  }),
+  z.object({
+    field: z.literal('engagementTrend'),
+    operator: z.enum(['equals', 'notEquals']),
+    value: z.enum(['improving', 'stable', 'declining']),
+  }),
+  z.object({
+    field: z.enum(['sentiment', 'referralCount']),
+    operator: z.enum(['equals', 'greaterThan', 'lessThan']),
+    value: z.number().int().min(0).max(10000),
+  }),
+  z.object({
+    field: z.enum(['lastContact', 'createdAt']),
+    operator: z.enum(['olderThanDays', 'withinDays']),
+    value: z.number().int().min(0).max(3650),
+  }),
+  z.object({
+    field: z.literal('tag'),
+    operator: z.enum(['has', 'hasNot']),
+    value: z.string().uuid({ message: 'Valid tag ID is required' }),
+  }),
+]);
+
+export const groupRulesSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(groupRuleConditionSchema).min(1).max(20),
+});
+
+const groupFieldsSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Group name is required' }).max(100),
+  description: z.string().trim().max(500).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { message: 'Color must be a hex value such as #3b82f6' })
+    .optional(),
+});
+
+// Schema for creating groups; rule-based groups need rules, static groups may start with members
+export const createContactGroupSchema = z.discriminatedUnion('groupType', [
+  groupFieldsSchema.extend({
+    groupType: z.literal('static'),
+    contactIds: z.array(z.string().uuid()).max(5000).optional(),
+  }),
+  groupFieldsSchema.extend({
+    groupType: z.literal('rule'),
+    rules: groupRulesSchema,
+  }),
+]);
+
+// The group type is fixed once created; rules only apply to rule-based groups
+export const updateContactGroupSchema = groupFieldsSchema.partial().extend({
+  rules: groupRulesSchema.optional(),
+});
+
+export const groupMembersSchema = z.object({
+  contactIds: z.array(z.string().uuid()).min(1).max(5000),
+});
+
+export type GroupRuleCondition = z.infer<typeof groupRuleConditionSchema>;
+export type GroupRules = z.infer<typeof groupRulesSchema>;
+export type CreateContactGroupDto = z.infer<typeof createContactGroupSchema>;
+export type UpdateContactGroupDto = z.infer<typeof updateContactGroupSchema>;
@@ -1,9 +1,11 @@
 import { z } from 'zod';
+import { decodeTimelineCursor } from '../utils/timeline-cursor.js';
 
 // Zod schema for creating contacts
 export const createContactSchema = z.object({
   name: z.string().min(1, { message: "Name is required" }),
   email: z.string().email({ message: "Valid email is required" }),
+  emailAliases: z.array(z.string().email()).max(10).optional(),
   phone: z.string().optional(),
   avatarUrl: z.string().url().optional(),
   lastContact: z.date().optional(),
@@ -66,3 +68,92 @@ export const contactQuerySchema = z.object({
 });
 
 export type ContactQueryDto = z.infer<typeof contactQuerySchema>;
+
+// --- Contact import ---
+
+// Maximum rows accepted by one import
+export const MAX_CONTACT_IMPORT_ROWS = 5000;
+
+const importHeader = z.string().trim().min(1).max(200);
+
+// Which CSV header holds each contact field; vCards do not need a mapping
+export const contactImportMappingSchema = z
+  .object({
+    name: importHeader.optional(),
+    firstName: importHeader.optional(),
+    lastName: importHeader.optional(),
+    email: importHeader.optional(),
+    phone: importHeader.optional(),
+    notes: importHeader.optional(),
+  })
+  .strict();
+
+// Multipart form fields arrive as strings, so the mapping is sent as JSON
+export const contactImportPreviewSchema = z.object({
+  mapping: z
+    .preprocess((value) => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value;
+      }
+    }, contactImportMappingSchema)
+    .optional(),
+});
+
+// The fields an imported row can set, validated like a new contact
+export const importedContactSchema = createContactSchema.pick({
+  name: true,
+  email: true,
+  phone: true,
+  notes: true,
+});
+
+const contactImportRowSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('skip') }),
+  z.object({ action: z.literal('create'), contact: importedContactSchema }),
+  z.object({
+    action: z.literal('merge'),
+    mergeIntoId: z.string().uuid({ message: 'Valid contact ID is required to merge' }),
+    // Merging only fills missing fields, so a row without an email can still be merged
+    contact: importedContactSchema.partial(),
+  }),
+]);
+
+// Schema for running an import after the user has reviewed each row
+export const contactImportSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  rows: z.array(contactImportRowSchema).min(1).max(MAX_CONTACT_IMPORT_ROWS),
+  lifecycleStage: createContactSchema.shape.lifecycleStage,
+  tagIds: z.array(z.string().uuid()).max(20).optional(),
+  newTags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+export type ContactImportMappingDto = z.infer<typeof contactImportMappingSchema>;
+export type ImportedContactDto = z.infer<typeof importedContactSchema>;
+export type ContactImportDto = z.infer<typeof contactImportSchema>;
+
+// Schema for paging through a contact's timeline; types is a comma-separated list
+export const contactTimelineQuerySchema = z
+  .object({
+    cursor: z
+      .string()
+      .max(500)
+      .refine((cursor) => decodeTimelineCursor(cursor) !== undefined, { message: 'Invalid cursor' })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    types: z
+      .string()
+      .transform((types) => types.split(',').map((type) => type.trim()).filter(Boolean))
+      .pipe(z.array(z.enum(['interaction', 'email', 'calendar_event', 'task'])).min(1))
+      .optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type ContactTimelineQueryDto = z.infer<typeof contactTimelineQuerySchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Schema for assigning a reviewed Drive document to a contact
+export const assignDocumentSchema = z.object({
+  contactId: z.string().uuid({ message: 'Valid contact ID is required' }),
+});
+
+// Schema for choosing the Drive folder watched for attendance sheets; null stops watching
+export const attendanceFolderSchema = z.object({
+  folder: z
+    .object({
+      id: z.string().min(1, 'Folder ID is required').max(200),
+      name: z.string().min(1, 'Folder name is required').max(255),
+    })
+    .nullable(),
+});
+
+// Inferred TypeScript types
+export type AssignDocumentDto = z.infer<typeof assignDocumentSchema>;
+export type AttendanceFolderDto = z.infer<typeof attendanceFolderSchema>;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+const goalStatusSchema = z.enum(['active', 'completed', 'paused']);
+
+// Zod schema for creating goals
+export const createGoalSchema = z.object({
+  contactId: z.string().uuid({ message: 'Valid contact ID is required' }),
+  title: z.string().trim().min(1, { message: 'Title is required' }).max(200),
+  description: z.string().max(2000).optional(),
+  targetValue: z.number().int().positive({ message: 'Target must be greater than zero' }),
+  currentValue: z.number().int().min(0).default(0),
+  unit: z.string().trim().min(1, { message: 'Unit is required' }).max(50), // lbs, sessions, weeks, etc.
+  status: goalStatusSchema.default('active'),
+  deadline: z.coerce.date().optional(),
+});
+
+// Zod schema for updating goals; the contact a goal belongs to cannot change
+export const updateGoalSchema = createGoalSchema
+  .omit({ contactId: true })
+  .partial()
+  .extend({
+    deadline: z.coerce.date().nullable().optional(),
+    note: z.string().max(500).optional(), // Kept with the progress entry when currentValue changes
+  });
+
+// Schema for recording progress towards a goal
+export const goalProgressSchema = z.object({
+  value: z.number().int().min(0),
+  note: z.string().max(500).optional(),
+  recordedAt: z.coerce.date().optional(),
+});
+
+export const goalQuerySchema = z.object({
+  contactId: z.string().uuid().optional(),
+  status: goalStatusSchema.optional(),
+});
+
+// Inferred TypeScript types
+export type CreateGoalDto = z.infer<typeof createGoalSchema>;
+export type UpdateGoalDto = z.infer<typeof updateGoalSchema>;
+export type GoalProgressDto = z.infer<typeof goalProgressSchema>;
+export type GoalQueryDto = z.infer<typeof goalQuerySchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { groupRuleConditionSchema, lifecycleStageSchema } from './contact-group.schemas.js';
+
+/**
+ * Lifecycle rules use the conditions of rule-based groups, plus the days since the contact's
+ * last session (a meeting or attended class). A contact who never had a session counts as
+ * having had one longer ago than any limit.
+ */
+export const lifecycleRuleConditionSchema = z.discriminatedUnion('field', [
+  ...groupRuleConditionSchema.options,
+  z.object({
+    field: z.literal('lastSession'),
+    operator: z.enum(['olderThanDays', 'withinDays']),
+    value: z.number().int().min(0).max(3650),
+  }),
+]);
+
+export const lifecycleRuleMatchSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(lifecycleRuleConditionSchema).min(1).max(20),
+});
+
+export const createLifecycleRuleSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Rule name is required' }).max(100),
+  rules: lifecycleRuleMatchSchema,
+  targetStage: lifecycleStageSchema,
+  mode: z.enum(['suggest', 'auto']).default('suggest'),
+  isActive: z.boolean().default(true),
+  priority: z.number().int().min(0).max(1000).default(0),
+});
+
+export const updateLifecycleRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  rules: lifecycleRuleMatchSchema.optional(),
+  targetStage: lifecycleStageSchema.optional(),
+  mode: z.enum(['suggest', 'auto']).optional(),
+  isActive: z.boolean().optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+});
+
+export const previewLifecycleRuleSchema = z.object({
+  rules: lifecycleRuleMatchSchema,
+  targetStage: lifecycleStageSchema,
+});
+
+export type LifecycleRuleCondition = z.infer<typeof lifecycleRuleConditionSchema>;
+export type LifecycleRuleMatch = z.infer<typeof lifecycleRuleMatchSchema>;
+export type CreateLifecycleRuleDto = z.infer<typeof createLifecycleRuleSchema>;
+export type UpdateLifecycleRuleDto = z.infer<typeof updateLifecycleRuleSchema>;
+export type PreviewLifecycleRuleDto = z.infer<typeof previewLifecycleRuleSchema>;
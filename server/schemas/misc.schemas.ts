@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Analysis costs LLM credits, so it only runs when asked for
+export const emailSyncSchema = z.object({
+  process: z.boolean().default(false),
+  useFreeModel: z.boolean().default(false),
+});
+
+export type EmailSyncDto = z.infer<typeof emailSyncSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const referralSourceSchema = z.enum(['word_of_mouth', 'social_media', 'event', 'other']);
+export const referralRewardStatusSchema = z.enum(['none', 'pending', 'given']);
+
+export const createReferralSchema = z.object({
+  referrerId: z.string().uuid(),
+  referredId: z.string().uuid(),
+  referredAt: z.coerce.date().optional(),
+  source: referralSourceSchema.optional(),
+  rewardStatus: referralRewardStatusSchema.default('none'),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const updateReferralSchema = z.object({
+  referredAt: z.coerce.date().optional(),
+  source: referralSourceSchema.nullable().optional(),
+  rewardStatus: referralRewardStatusSchema.optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type CreateReferralDto = z.infer<typeof createReferralSchema>;
+export type UpdateReferralDto = z.infer<typeof updateReferralSchema>;
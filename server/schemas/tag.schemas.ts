@@ -10,6 +10,12 @@ export const createTagSchema = z.object({
 // Schema for updating tags (all fields optional for PATCH)
 export const updateTagSchema = createTagSchema.partial();
 
+// Schema for merging one tag into another
+export const mergeTagsSchema = z.object({
+  sourceTagId: z.string().uuid({ message: "Valid source tag ID is required" }),
+  targetTagId: z.string().uuid({ message: "Valid target tag ID is required" }),
+});
+
 // Schema for tag assignment to contacts
 export const assignTagSchema = z.object({
   contactId: z.string().uuid({ message: "Valid contact ID is required" }),
@@ -34,6 +40,7 @@ export const tagQuerySchema = z.object({
 // Inferred TypeScript types
 export type CreateTagDto = z.infer<typeof createTagSchema>;
 export type UpdateTagDto = z.infer<typeof updateTagSchema>;
+export type MergeTagsDto = z.infer<typeof mergeTagsSchema>;
 export type AssignTagDto = z.infer<typeof assignTagSchema>;
 export type BulkTagOperationDto = z.infer<typeof bulkTagOperationSchema>;
 export type TagQueryDto = z.infer<typeof tagQuerySchema>;
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { recurrenceRuleSchema } from './task.schemas.js';
+
+// Subtasks nest at most this deep below the template's task
+const MAX_SUBTASK_DEPTH = 3;
+
+export interface TemplateSubtask {
+  title: string;
+  description?: string;
+  estimatedMinutes?: number;
+  dueInDays?: number; // Relative to when the template is used
+  subtasks?: TemplateSubtask[];
+}
+
+const dueInDaysSchema = z.number().int().min(0).max(365);
+
+export const templateSubtaskSchema: z.ZodType<TemplateSubtask> = z.lazy(() =>
+  z.object({
+    title: z.string().trim().min(1, { message: 'Subtask title is required' }).max(200),
+    description: z.string().max(2000).optional(),
+    estimatedMinutes: z.number().int().min(1).max(10000).optional(),
+    dueInDays: dueInDaysSchema.optional(),
+    subtasks: z.array(templateSubtaskSchema).max(50).optional(),
+  })
+);
+
+const subtaskDepth = (subtasks: TemplateSubtask[] = []): number =>
+  subtasks.length === 0 ? 0 : 1 + Math.max(...subtasks.map((subtask) => subtaskDepth(subtask.subtasks)));
+
+const subtasksSchema = z
+  .array(templateSubtaskSchema)
+  .max(50)
+  .refine((subtasks) => subtaskDepth(subtasks) <= MAX_SUBTASK_DEPTH, {
+    message: `Subtasks can be nested at most ${MAX_SUBTASK_DEPTH} levels deep`,
+  });
+
+export const createTaskTemplateSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Template name is required' }).max(200),
+  description: z.string().max(2000).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+  estimatedMinutes: z.number().int().min(1).max(10000).optional(),
+  dueInDays: dueInDaysSchema.optional(),
+  recurrenceRule: recurrenceRuleSchema.optional(),
+  subtasks: subtasksSchema.default([]),
+});
+
+export const updateTaskTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  estimatedMinutes: z.number().int().min(1).max(10000).nullable().optional(),
+  dueInDays: dueInDaysSchema.nullable().optional(),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+  subtasks: subtasksSchema.optional(),
+});
+
+// Use a template for a contact and/or a project
+export const instantiateTaskTemplateSchema = z.object({
+  contactId: z.string().uuid().optional(),
+  projectId: z.string().uuid().optional(),
+  title: z.string().trim().min(1).max(200).optional(), // Defaults to the template name
+  dueDate: z.string().datetime().optional(), // Defaults to dueInDays from now
+});
+
+export type CreateTaskTemplateDto = z.infer<typeof createTaskTemplateSchema>;
+export type UpdateTaskTemplateDto = z.infer<typeof updateTaskTemplateSchema>;
+export type InstantiateTaskTemplateDto = z.infer<typeof instantiateTaskTemplateSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Time entries of one task
+export const timeEntryQuerySchema = z.object({
+  taskId: z.string().uuid(),
+});
+
+// Start a timer; a timer running on another task is stopped first
+export const startTimerSchema = z.object({
+  taskId: z.string().uuid(),
+});
+
+// Time entered by hand; startedAt defaults to now
+export const createTimeEntrySchema = z.object({
+  taskId: z.string().uuid(),
+  minutes: z.number().int().min(1).max(1440),
+  startedAt: z.string().datetime().optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+// Estimate vs actual report, for entries started within [from, to)
+export const timeReportQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type TimeEntryQueryDto = z.infer<typeof timeEntryQuerySchema>;
+export type StartTimerDto = z.infer<typeof startTimerSchema>;
+export type CreateTimeEntryDto = z.infer<typeof createTimeEntrySchema>;
+export type TimeReportQueryDto = z.infer<typeof timeReportQuerySchema>;
@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import { parseRecurrenceRule } from '../utils/recurrence.js';
+
+// RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO"; null stops a task from repeating
+export const recurrenceRuleSchema = z
+  .string()
+  .trim()
+  .max(200)
+  .refine((rule) => parseRecurrenceRule(rule) !== undefined, { message: 'Invalid recurrence rule' });
 
 // Schema for creating tasks
 export const createTaskSchema = z.object({
@@ -10,12 +18,39 @@ export const createTaskSchema = z.object({
   owner: z.enum(['user', 'ai_assistant']).default('user'),
   projectId: z.string().uuid().optional(),
   contactIds: z.array(z.string().uuid()).optional(),
+  tagIds: z.array(z.string().uuid()).max(20).optional(), // The user's tags, shared with contacts
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
 // Schema for updating tasks (all fields optional for PATCH)
 export const updateTaskSchema = createTaskSchema.partial();
 
+// Schema for moving cards on the task board; each task's new position within its column, and
+// the status, priority or project of the column it was dropped in
+export const reorderTasksSchema = z.object({
+  tasks: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        orderIndex: z.number().int().min(0).max(100000),
+        status: z.enum(['pending', 'in_progress', 'completed', 'cancelled', 'waiting_approval']).optional(),
+        priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+        projectId: z.string().uuid().nullable().optional(),
+      })
+    )
+    .min(1)
+    .max(500)
+    .refine((tasks) => new Set(tasks.map((task) => task.id)).size === tasks.length, {
+      message: 'Each task can only be placed once',
+    }),
+});
+
+// Schema for rejecting a task that waits for approval
+export const rejectTaskSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
 // Schema for task query parameters
 export const taskQuerySchema = z.object({
   status: z.string().optional(), // Can be comma-separated list
@@ -31,6 +66,7 @@ export const delegateTaskSchema = z.object({
   title: z.string().min(1, { message: "Title is required" }),
   description: z.string().optional(),
   contactIds: z.array(z.string().uuid()).default([]),
+  groupIds: z.array(z.string().uuid()).max(50).optional(), // Contact groups whose members the task is for
   priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
   dueDate: z.string().datetime().optional().or(z.date().optional()),
   metadata: z.record(z.unknown()).optional(),
@@ -52,6 +88,8 @@ export const completeTaskSchema = z.object({
 // Inferred TypeScript types
 export type CreateTaskDto = z.infer<typeof createTaskSchema>;
 export type UpdateTaskDto = z.infer<typeof updateTaskSchema>;
+export type ReorderTasksDto = z.infer<typeof reorderTasksSchema>;
+export type RejectTaskDto = z.infer<typeof rejectTaskSchema>;
 export type TaskQueryDto = z.infer<typeof taskQuerySchema>;
 export type DelegateTaskDto = z.infer<typeof delegateTaskSchema>;
 export type BulkCreateTaskDto = z.infer<typeof bulkCreateTaskSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Multipart form fields arrive as strings
+export const voiceNoteUploadSchema = z.object({
+  contactId: z.string().uuid({ message: 'Valid contact ID is required' }),
+  durationSeconds: z.coerce.number().int().min(0).max(60 * 60).optional(),
+});
+
+export const voiceNoteQuerySchema = z.object({
+  contactId: z.string().uuid({ message: 'Valid contact ID is required' }),
+});
+
+export type VoiceNoteUploadDto = z.infer<typeof voiceNoteUploadSchema>;
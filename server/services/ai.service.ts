@@ -1,8 +1,12 @@
 import { storage } from '../data/index.js';
 import { geminiService } from '../providers/gemini.provider.js';
-import { ChatBrain } from '../brains/chat.brain.js';
+import {
+  ChatBrain,
+  type ChatConversation,
+  type ChatTool,
+  type ChatTurn,
+} from '../brains/chat.brain.js';
 import { type ContactInsights } from '../types/brain-types.js';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import {
   PhotoEnrichmentService,
   type PhotoSuggestion,
@@ -12,15 +16,28 @@ import {
 import { taskAI } from '../brains/task-ai.js';
 import { taskScheduler } from './task-scheduler.js';
 import { rateLimiter, type UsageStats, type ModelRecommendation } from '../utils/rate-limiter.js';
+import { llmConcurrencyController } from '../utils/llm-concurrency-controller.js';
+import { llmCostTracker } from '../utils/llm-cost-tracker.js';
 import { type AiSuggestion, type Contact } from '../../shared/schema.js';
 import OpenAI from 'openai';
 
 // Initialize services by injecting only the specific data modules they need.
 // This follows the principle of least privilege and improves modularity.
 import { GenerateInsightsBrain } from '../brains/generate-insights.brain.js';
-// import { openRouterService } from '../providers/openrouter.provider.js'; // TODO: Use this provider instead of direct OpenAI client
+import { VoiceNoteBrain, type VoiceNoteBrainOutput } from '../brains/voice-note.brain.js';
+import {
+  EmailReplyBrain,
+  type EmailReplyBrainInput,
+  type EmailReplyBrainOutput,
+} from '../brains/email-reply.brain.js';
+import { openRouterService } from '../providers/openrouter.provider.js';
+
+const CHAT_MODEL = 'gemini-2.0-flash-exp';
 
 const generateInsightsBrain = new GenerateInsightsBrain();
+const chatBrain = new ChatBrain();
+const voiceNoteBrain = new VoiceNoteBrain();
+const emailReplyBrain = new EmailReplyBrain();
 const photoEnrichmentService = new PhotoEnrichmentService();
 
 // Initialize OpenRouter client for direct LLM processing
@@ -31,9 +48,148 @@ const openrouter = new OpenAI({
 
 export class AiService {
   // --- Chat ---
-  async generateChatResponse(message: string, context?: Record<string, unknown>): Promise<string> {
-    const chatBrain = new ChatBrain();
-    return chatBrain.execute(geminiService, 'gemini-2.0-flash-exp', message, context);
+  async generateChatResponse(
+    userId: string,
+    message: string,
+    context?: Record<string, unknown>,
+    conversation?: ChatConversation,
+    tools: ChatTool[] = []
+  ): Promise<string> {
+    // Dispatched through the controller so the user's budget policy is applied first;
+    // a downgraded request runs on the free OpenRouter model instead of Gemini
+    return llmConcurrencyController.execute(
+      async (model) => {
+        const provider = model === CHAT_MODEL ? geminiService : openRouterService;
+
+        if (tools.length > 0) {
+          const result = await chatBrain.executeWithTools(provider, model, message, tools, {
+            context,
+            conversation,
+          });
+          // Every loop iteration resends the whole prompt, so bill the accumulated characters
+          await llmCostTracker.trackUsage(
+            userId,
+            model,
+            Math.ceil(result.usage.promptCharacters / 4),
+            Math.ceil(result.usage.completionCharacters / 4),
+            'chat'
+          );
+          return result.content;
+        }
+
+        const response = await chatBrain.execute(provider, model, message, context, conversation);
+
+        const promptLength =
+          message.length +
+          JSON.stringify(context ?? {}).length +
+          (conversation?.summary?.length ?? 0) +
+          (conversation?.history.reduce((sum, turn) => sum + turn.content.length, 0) ?? 0);
+        const inputTokens = Math.ceil(promptLength / 4);
+        const outputTokens = Math.ceil(response.length / 4);
+        await llmCostTracker.trackUsage(userId, model, inputTokens, outputTokens, 'chat');
+
+        return response;
+      },
+      { userId, model: CHAT_MODEL, priority: 'high' }
+    );
+  }
+
+  /**
+   * Streaming variant of generateChatResponse. The answer is passed to onToken as it is
+   * generated; the resolved value is the full answer, or the partial one if the signal aborted.
+   */
+  async streamChatResponse(
+    userId: string,
+    message: string,
+    onToken: (text: string) => void,
+    options: {
+      signal?: AbortSignal;
+      context?: Record<string, unknown>;
+      conversation?: ChatConversation;
+      tools?: ChatTool[];
+    } = {}
+  ): Promise<string> {
+    const { signal, context, conversation, tools = [] } = options;
+
+    return llmConcurrencyController.execute(
+      async (model) => {
+        const provider = model === CHAT_MODEL ? geminiService : openRouterService;
+        const result = await chatBrain.streamWithTools(provider, model, message, tools, {
+          onToken,
+          signal,
+          context,
+          conversation,
+        });
+        // Cancelled streams are still billed for what was generated
+        await llmCostTracker.trackUsage(
+          userId,
+          model,
+          Math.ceil(result.usage.promptCharacters / 4),
+          Math.ceil(result.usage.completionCharacters / 4),
+          'chat'
+        );
+        return result.content;
+      },
+      { userId, model: CHAT_MODEL, priority: 'high' }
+    );
+  }
+
+  async summarizeChatHistory(
+    userId: string,
+    previousSummary: string | null,
+    turns: ChatTurn[]
+  ): Promise<string | null> {
+    return llmConcurrencyController.execute(
+      async (model) => {
+        const provider = model === CHAT_MODEL ? geminiService : openRouterService;
+        const summary = await chatBrain.summarize(provider, model, previousSummary, turns);
+
+        const inputTokens = Math.ceil(turns.reduce((sum, turn) => sum + turn.content.length, 0) / 4);
+        const outputTokens = Math.ceil((summary?.length ?? 0) / 4);
+        await llmCostTracker.trackUsage(userId, model, inputTokens, outputTokens, 'chat_summary');
+
+        return summary;
+      },
+      { userId, model: CHAT_MODEL, priority: 'medium' }
+    );
+  }
+
+  // --- Voice Notes ---
+  async analyzeVoiceNote(
+    userId: string,
+    contactName: string,
+    transcript: string
+  ): Promise<VoiceNoteBrainOutput> {
+    return llmConcurrencyController.execute(
+      async (model) => {
+        const provider = model === CHAT_MODEL ? geminiService : openRouterService;
+        const analysis = await voiceNoteBrain.execute(provider, model, { contactName, transcript });
+
+        const inputTokens = Math.ceil(transcript.length / 4);
+        const outputTokens = Math.ceil(JSON.stringify(analysis).length / 4);
+        await llmCostTracker.trackUsage(userId, model, inputTokens, outputTokens, 'voice_note');
+
+        return analysis;
+      },
+      { userId, model: CHAT_MODEL, priority: 'medium' }
+    );
+  }
+
+  // --- Email Replies ---
+  async draftEmailReply(userId: string, input: EmailReplyBrainInput): Promise<EmailReplyBrainOutput> {
+    return llmConcurrencyController.execute(
+      async (model) => {
+        const provider = model === CHAT_MODEL ? geminiService : openRouterService;
+        const draft = await emailReplyBrain.execute(provider, model, input);
+
+        const inputTokens = Math.ceil(JSON.stringify(input).length / 4);
+        const outputTokens = Math.ceil(draft.body.length / 4);
+        await llmCostTracker.trackUsage(userId, model, inputTokens, outputTokens, 'email_reply');
+
+        return draft;
+      },
+      { userId, model: CHAT_MODEL, priority: 'medium' }
+    );
   }
 
   // --- Insights ---
@@ -58,19 +214,7 @@ export class AiService {
       goals,
     };
 
-    // Create a provider interface that the brain can use
-    const provider = {
-      generateCompletion: async (model: string, messages: ChatCompletionMessageParam[], isJson: boolean) => {
-        const response = await openrouter.chat.completions.create({
-          model,
-          messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-          ...(isJson ? { response_format: { type: 'json_object' } } : {}),
-        });
-        return response.choices[0]?.message?.content ?? '';
-      }
-    };
-
-    return generateInsightsBrain.execute(provider, 'moonshotai/kimi-k2', contactDataForInsights);
+    return generateInsightsBrain.execute(openRouterService, 'moonshotai/kimi-k2', contactDataForInsights);
   }
 
   // --- Photo Enrichment ---
@@ -0,0 +1,147 @@
+import { storage } from '../data/index.js';
+import { taskAI } from '../brains/task-ai.js';
+import {
+  attendanceLayoutSchema,
+  type AttendanceImportDto,
+  type CreateAttendanceProfileDto,
+  type UpdateAttendanceProfileDto,
+} from '../schemas/attendance.schemas.js';
+import type { AttendanceSheetLayout } from '../utils/attendance-sheet-parser.js';
+import { readSheetRows } from '../utils/spreadsheet-reader.js';
+import type { AttendanceImportProfile, AiSuggestion } from '../../shared/schema.js';
+import type { AttendancePreview } from '../types/service-contracts.js';
+
+export interface AttendanceUpload {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+interface ResolvedLayout {
+  profileId?: string;
+  layout?: AttendanceSheetLayout;
+}
+
+/**
+ * Profiles store their layout as JSON; one that no longer validates is ignored so columns
+ * are detected instead of failing the import.
+ */
+export function toSheetLayout(profile: AttendanceImportProfile): AttendanceSheetLayout | undefined {
+  const result = attendanceLayoutSchema.safeParse({
+    columnMapping: profile.columnMapping,
+    attendedStatuses: profile.attendedStatuses,
+    dateFormat: profile.dateFormat,
+  });
+  if (!result.success) return undefined;
+
+  return {
+    mapping: result.data.columnMapping,
+    attendedStatuses: result.data.attendedStatuses,
+    dateFormat: result.data.dateFormat,
+  };
+}
+
+export class AttendanceImportService {
+  async getProfiles(userId: string): Promise<AttendanceImportProfile[]> {
+    return storage.attendance.getProfilesByUserId(userId);
+  }
+
+  async createProfile(
+    userId: string,
+    data: CreateAttendanceProfileDto
+  ): Promise<AttendanceImportProfile> {
+    return storage.attendance.createProfile({ userId, ...data });
+  }
+
+  /**
+   * Returns undefined if the profile does not belong to the user.
+   */
+  async updateProfile(
+    userId: string,
+    profileId: string,
+    data: UpdateAttendanceProfileDto
+  ): Promise<AttendanceImportProfile | undefined> {
+    const profile = await this.findOwnedProfile(userId, profileId);
+    if (!profile) return undefined;
+    return storage.attendance.updateProfile(profile.id, userId, data);
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<boolean> {
+    const profile = await this.findOwnedProfile(userId, profileId);
+    if (!profile) return false;
+    return storage.attendance.deleteProfile(profile.id);
+  }
+
+  /**
+   * Layout of the user's default profile, used for sheets from the watched Drive folder.
+   */
+  async getDefaultLayout(userId: string): Promise<ResolvedLayout> {
+    const profile = await storage.attendance.getDefaultProfile(userId);
+    return profile ? { profileId: profile.id, layout: toSheetLayout(profile) } : {};
+  }
+
+  /**
+   * Parse an uploaded sheet and show which attendees match contacts. Returns undefined if
+   * the requested profile does not belong to the user.
+   */
+  async previewUpload(
+    userId: string,
+    file: AttendanceUpload,
+    request: AttendanceImportDto
+  ): Promise<AttendancePreview | undefined> {
+    const resolved = await this.resolveLayout(userId, request);
+    if (!resolved) return undefined;
+
+    const rows = await readSheetRows(file.buffer, file.originalname, file.mimetype);
+    return taskAI.previewAttendanceSheet(userId, rows, file.originalname, resolved.layout);
+  }
+
+  /**
+   * Create timeline suggestions from an uploaded sheet. Returns undefined if the requested
+   * profile does not belong to the user.
+   */
+  async importUpload(
+    userId: string,
+    file: AttendanceUpload,
+    request: AttendanceImportDto
+  ): Promise<AiSuggestion[] | undefined> {
+    const resolved = await this.resolveLayout(userId, request);
+    if (!resolved) return undefined;
+
+    const rows = await readSheetRows(file.buffer, file.originalname, file.mimetype);
+    return taskAI.processAttendanceSheet(userId, rows, file.originalname, resolved);
+  }
+
+  private async resolveLayout(
+    userId: string,
+    request: AttendanceImportDto
+  ): Promise<ResolvedLayout | undefined> {
+    const profile = request.profileId
+      ? await this.findOwnedProfile(userId, request.profileId)
+      : undefined;
+    if (request.profileId && !profile) return undefined;
+
+    // An explicit layout wins, so a profile can be adjusted in the preview before it is saved
+    if (request.layout) {
+      return {
+        profileId: profile?.id,
+        layout: {
+          mapping: request.layout.columnMapping,
+          attendedStatuses: request.layout.attendedStatuses,
+          dateFormat: request.layout.dateFormat,
+        },
+      };
+    }
+    return profile ? { profileId: profile.id, layout: toSheetLayout(profile) } : {};
+  }
+
+  private async findOwnedProfile(
+    userId: string,
+    profileId: string
+  ): Promise<AttendanceImportProfile | undefined> {
+    const profile = await storage.attendance.getProfileById(profileId);
+    return profile?.userId === userId ? profile : undefined;
+  }
+}
+
+export const attendanceImportService = new AttendanceImportService();
@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { storage } from '../data/index.js';
+import { taskAI } from '../brains/task-ai.js';
+import { attendanceImportService } from './attendance-import.service.js';
+import { googleService, type DriveFolder } from '../providers/google.provider.js';
+import { readSheetRows } from '../utils/spreadsheet-reader.js';
+import type { User } from '../../shared/schema.js';
+
+// In development, sheets can be dropped into <dir>/<userId> instead of a Drive folder; kept out of
+// uploads/, which is served publicly, since sheets hold client names and attendance
+const LOCAL_ATTENDANCE_DIR = process.env.ATTENDANCE_SHEETS_DIR ?? 'storage/attendance';
+
+const ATTENDANCE_JOB_TYPE = 'attendance_csv';
+
+interface WatchedSheet {
+  sourceType: 'google_drive' | 'local_folder';
+  fileId: string;
+  name: string;
+  mimeType?: string;
+  revision: string;
+  read: () => Promise<Buffer>;
+}
+
+export interface AttendanceFolderSettings {
+  folderId: string | null;
+  folderName: string | null;
+}
+
+export class AttendanceSheetService {
+  async getFolder(userId: string): Promise<AttendanceFolderSettings | undefined> {
+    const user = await storage.users.findById(userId);
+    if (!user) return undefined;
+    return { folderId: user.attendanceFolderId, folderName: user.attendanceFolderName };
+  }
+
+  /**
+   * Choose the Drive folder to watch, or pass null to stop watching.
+   */
+  async setFolder(userId: string, folder: DriveFolder | null): Promise<AttendanceFolderSettings> {
+    const user = await storage.users.update(userId, {
+      attendanceFolderId: folder?.id ?? null,
+      attendanceFolderName: folder?.name ?? null,
+    });
+    return { folderId: user.attendanceFolderId, folderName: user.attendanceFolderName };
+  }
+
+  async listDriveFolders(userId: string): Promise<DriveFolder[] | undefined> {
+    const user = await storage.users.findById(userId);
+    if (!user) return undefined;
+    return googleService.listDriveFolders(user);
+  }
+
+  /**
+   * Process sheets in the watched folder that have not been seen at their current revision.
+   * Each revision is claimed through a data processing job before it is read, so a sheet is
+   * processed once even if two checks overlap. Returns the number of sheets processed.
+   */
+  async checkForNewSheets(userId: string): Promise<number> {
+    const user = await storage.users.findById(userId);
+    if (!user) return 0;
+
+    const sheets = await this.listWatchedSheets(user);
+    if (sheets.length === 0) return 0;
+
+    // Watched sheets are read with the default import profile, or detected columns without one
+    const { profileId, layout } = await attendanceImportService.getDefaultLayout(userId);
+    let processed = 0;
+
+    for (const sheet of sheets) {
+      const job = await storage.ai.claimJob({
+        userId,
+        jobType: ATTENDANCE_JOB_TYPE,
+        sourceType: sheet.sourceType,
+        sourceReference: `${sheet.fileId}@${sheet.revision}`,
+        status: 'pending',
+      });
+      if (!job) continue;
+
+      console.log(`Processing new attendance sheet: ${sheet.name}`);
+      try {
+        const rows = await readSheetRows(await sheet.read(), sheet.name, sheet.mimeType);
+        await taskAI.processAttendanceSheet(userId, rows, sheet.name, {
+          jobId: job.id,
+          profileId,
+          layout,
+        });
+        processed++;
+      } catch (error) {
+        // Failed jobs are not retried automatically; quickDataCheck reports them
+        console.error(`Failed to process attendance sheet ${sheet.name}:`, error);
+        await storage.ai.updateJob(job.id, {
+          status: 'failed',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return processed;
+  }
+
+  private async listWatchedSheets(user: User): Promise<WatchedSheet[]> {
+    if (user.attendanceFolderId) {
+      const files = await googleService.listAttendanceSheets(user, user.attendanceFolderId);
+      return files.map((file) => ({
+        sourceType: 'google_drive' as const,
+        fileId: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        revision: file.revision,
+        read: () => googleService.downloadAttendanceSheet(user, file),
+      }));
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      return this.listLocalSheets(user.id);
+    }
+    return [];
+  }
+
+  private async listLocalSheets(userId: string): Promise<WatchedSheet[]> {
+    const folder = path.resolve(LOCAL_ATTENDANCE_DIR, userId);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(folder);
+    } catch {
+      // Folder doesn't exist, which is fine
+      return [];
+    }
+
+    const sheets: WatchedSheet[] = [];
+    for (const file of files.filter((name) => /\.(csv|xlsx)$/i.test(name))) {
+      const filePath = path.join(folder, file);
+      const stats = await fs.stat(filePath);
+      sheets.push({
+        sourceType: 'local_folder',
+        fileId: file,
+        name: file,
+        revision: String(Math.floor(stats.mtimeMs)),
+        read: () => fs.readFile(filePath),
+      });
+    }
+    return sheets;
+  }
+}
+
+export const attendanceSheetService = new AttendanceSheetService();
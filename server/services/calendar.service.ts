@@ -102,9 +102,15 @@ export class CalendarService {
       processedCount += results.length;
 
       for (const event of batch) {
+        if (batchResult.budgetSkippedEvents.includes(event.id)) continue;
         const extractedData = safeAnalysisData(results.find((r) => r.eventId === event.id));
         await storage.calendar.update(event.id, { processed: true, extractedData });
       }
+
+      // Stop before the next batch; skipped events stay unprocessed for a later sync
+      if (batchResult.budgetError) {
+        throw batchResult.budgetError;
+      }
     }
 
     return {
@@ -147,9 +153,13 @@ export class CalendarService {
       });
       results = batchResult.successfulResults;
       for (const event of unprocessedEvents) {
+        if (batchResult.budgetSkippedEvents.includes(event.id)) continue;
         const extractedData = results.find((r) => r.eventId === event.id) ?? {};
         await storage.calendar.update(event.id, { processed: true, extractedData });
       }
+      if (batchResult.budgetError) {
+        throw batchResult.budgetError;
+      }
     }
 
     const usageStats = await rateLimiter.getUsageStats(user.id);
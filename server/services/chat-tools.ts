@@ -0,0 +1,240 @@
+import { z } from 'zod';
+import { storage } from '../data/index.js';
+import { contactService } from './contact.service.js';
+import { taskService } from './task.service.js';
+import { interactionService } from './interaction.service.js';
+import { calendarService } from './calendar.service.js';
+import type { ChatTool } from '../brains/chat.brain.js';
+import type { BulkAction } from '../types/service-contracts.js';
+
+const MAX_RESULTS = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const searchContactsArgs = z.object({
+  query: z.string().trim().optional(),
+  lifecycleStage: z.string().optional(),
+  notContactedInDays: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(MAX_RESULTS).default(10),
+});
+
+const listTasksArgs = z.object({
+  status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).optional(),
+  contactId: z.string().uuid().optional(),
+  limit: z.number().int().positive().max(MAX_RESULTS).default(10),
+});
+
+const recentInteractionsArgs = z.object({
+  contactId: z.string().uuid().optional(),
+  limit: z.number().int().positive().max(MAX_RESULTS).default(10),
+});
+
+const upcomingEventsArgs = z.object({
+  limit: z.number().int().positive().max(MAX_RESULTS).default(10),
+});
+
+const proposeFollowUpTaskArgs = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).optional(),
+  contactId: z.string().uuid().optional(),
+  dueDate: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+});
+
+function parseArgs<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, args: unknown): T {
+  const result = schema.safeParse(args ?? {});
+  if (!result.success) {
+    const issues = result.error.errors.map((e) => `${e.path.join('.') || 'arguments'}: ${e.message}`);
+    throw new Error(`Invalid arguments - ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Tools the AI assistant can call on behalf of a user. Every tool is scoped to that user;
+ * the only write tool drafts an AI suggestion that must be approved before anything changes.
+ */
+export function createChatTools(userId: string): ChatTool[] {
+  return [
+    {
+      name: 'search_contacts',
+      description:
+        'Find clients by name or email, lifecycle stage, or how long since they were last contacted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to match against name or email' },
+          lifecycleStage: {
+            type: 'string',
+            description: 'e.g. discovery, curious, new_client, core_client, ambassador, needs_reconnecting',
+          },
+          notContactedInDays: { type: 'integer', description: 'Only clients not contacted in this many days' },
+          limit: { type: 'integer', maximum: MAX_RESULTS },
+        },
+      },
+      execute: async (args) => {
+        const { query, lifecycleStage, notContactedInDays, limit } = parseArgs(searchContactsArgs, args);
+        const needle = query?.toLowerCase();
+        const cutoff = notContactedInDays ? Date.now() - notContactedInDays * DAY_MS : undefined;
+
+        const contacts = (await contactService.getContacts(userId)).filter((contact) => {
+          if (
+            needle &&
+            !contact.name.toLowerCase().includes(needle) &&
+            !contact.email?.toLowerCase().includes(needle)
+          ) {
+            return false;
+          }
+          if (lifecycleStage && contact.lifecycleStage !== lifecycleStage) return false;
+          if (cutoff && contact.lastContact && new Date(contact.lastContact).getTime() > cutoff) {
+            return false;
+          }
+          return true;
+        });
+
+        return {
+          total: contacts.length,
+          contacts: contacts.slice(0, limit).map((contact) => ({
+            id: contact.id,
+            name: contact.name,
+            email: contact.email,
+            lifecycleStage: contact.lifecycleStage,
+            lastContact: contact.lastContact,
+          })),
+        };
+      },
+    },
+    {
+      name: 'list_tasks',
+      description: 'List the practitioner’s tasks, optionally filtered by status or by client.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'in_progress', 'completed', 'cancelled'] },
+          contactId: { type: 'string', description: 'Only tasks assigned to this client' },
+          limit: { type: 'integer', maximum: MAX_RESULTS },
+        },
+      },
+      execute: async (args) => {
+        const { status, contactId, limit } = parseArgs(listTasksArgs, args);
+        const tasks = (await taskService.getTasks(userId, status ? [status] : undefined)).filter(
+          (task) =>
+            !contactId ||
+            (Array.isArray(task.assignedContactIds) && task.assignedContactIds.includes(contactId))
+        );
+
+        return {
+          total: tasks.length,
+          tasks: tasks.slice(0, limit).map((task) => ({
+            id: task.id,
+            title: task.title,
+            status: task.status,
+            priority: task.priority,
+            dueDate: task.dueDate,
+            assignedContactIds: task.assignedContactIds,
+          })),
+        };
+      },
+    },
+    {
+      name: 'get_recent_interactions',
+      description: 'Get the most recent interactions (sessions, emails, notes), optionally for one client.',
+      parameters: {
+        type: 'object',
+        properties: {
+          contactId: { type: 'string', description: 'Only interactions with this client' },
+          limit: { type: 'integer', maximum: MAX_RESULTS },
+        },
+      },
+      execute: async (args) => {
+        const { contactId, limit } = parseArgs(recentInteractionsArgs, args);
+        // Fetch a wider window when filtering so a single client still gets a full page
+        const interactions = await interactionService.getRecentInteractions(
+          userId,
+          contactId ? 200 : limit
+        );
+
+        return interactions
+          .filter((interaction) => !contactId || interaction.contactId === contactId)
+          .slice(0, limit)
+          .map((interaction) => ({
+            id: interaction.id,
+            contact: { id: interaction.contact.id, name: interaction.contact.name },
+            type: interaction.type,
+            subject: interaction.subject,
+            content: interaction.content.slice(0, 500),
+            sentiment: interaction.sentiment,
+            timestamp: interaction.timestamp,
+          }));
+      },
+    },
+    {
+      name: 'get_upcoming_events',
+      description: 'Get upcoming calendar events such as sessions and classes.',
+      parameters: {
+        type: 'object',
+        properties: { limit: { type: 'integer', maximum: MAX_RESULTS } },
+      },
+      execute: async (args) => {
+        const { limit } = parseArgs(upcomingEventsArgs, args);
+        const events = await calendarService.getUpcomingEvents(userId, limit);
+
+        return events.map((event) => ({
+          id: event.id,
+          summary: event.summary,
+          startTime: event.startTime,
+          endTime: event.endTime,
+          location: event.location,
+          attendees: event.attendees,
+        }));
+      },
+    },
+    {
+      name: 'propose_follow_up_task',
+      description:
+        'Draft a follow-up task, optionally for one client. The task is only created once the practitioner approves it.',
+      parameters: {
+        type: 'object',
+        required: ['title'],
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          contactId: { type: 'string', description: 'Client the task is about' },
+          dueDate: { type: 'string', description: 'ISO date, e.g. 2025-03-14' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] },
+        },
+      },
+      execute: async (args) => {
+        const { title, description, contactId, dueDate, priority } = parseArgs(
+          proposeFollowUpTaskArgs,
+          args
+        );
+
+        const contact = contactId ? await storage.getContact(contactId) : undefined;
+        if (contactId && contact?.userId !== userId) {
+          throw new Error('Contact not found');
+        }
+
+        const contactIds = contact ? [contact.id] : [];
+        const suggestedAction: BulkAction = {
+          type: 'bulk_task_create',
+          contactIds,
+          tasks: [{ title, description, priority, dueDate, contactIds }],
+          metadata: { source: 'ai_chat' },
+        };
+
+        const suggestion = await storage.createAiSuggestion({
+          userId,
+          type: 'task_creation',
+          title: contact ? `Follow up with ${contact.name}: ${title}` : title,
+          description: description ?? `The AI assistant suggested creating the task "${title}".`,
+          suggestedAction,
+          sourceData: { source: 'ai_chat' },
+          aiAnalysis: { reasoning: 'Proposed by the AI assistant during a chat conversation' },
+          priority,
+        });
+
+        return { suggestionId: suggestion.id, status: 'pending_approval' };
+      },
+    },
+  ];
+}
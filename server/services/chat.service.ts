@@ -0,0 +1,154 @@
+import { storage } from '../data/index.js';
+import { aiService } from './ai.service.js';
+import { createChatTools } from './chat-tools.js';
+import type { ChatConversation } from '../brains/chat.brain.js';
+import { type ChatSession, type ChatMessage } from '../../shared/schema.js';
+
+// Recent turns sent verbatim; anything older is folded into the session summary
+const HISTORY_TOKEN_BUDGET = 3000;
+const TITLE_MAX_LENGTH = 60;
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export class ChatService {
+  async listSessions(userId: string): Promise<ChatSession[]> {
+    return storage.chat.getSessionsByUserId(userId);
+  }
+
+  async getSession(
+    userId: string,
+    sessionId: string
+  ): Promise<(ChatSession & { messages: ChatMessage[] }) | undefined> {
+    const session = await this.findOwnedSession(userId, sessionId);
+    if (!session) return undefined;
+
+    const messages = await storage.chat.getMessagesBySessionId(session.id);
+    return { ...session, messages };
+  }
+
+  async deleteSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.findOwnedSession(userId, sessionId);
+    if (!session) return false;
+    return storage.chat.deleteSession(session.id);
+  }
+
+  /**
+   * Send a message in an existing session, or start a new one when no sessionId is given.
+   * With onToken the reply is streamed as it is generated; a cancelled stream is not saved.
+   * Returns undefined if the session does not exist or belongs to another user.
+   */
+  async sendMessage(
+    userId: string,
+    message: string,
+    options: {
+      sessionId?: string;
+      context?: Record<string, unknown>;
+      onToken?: (text: string) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<{ session: ChatSession; reply: ChatMessage } | undefined> {
+    const existing = options.sessionId
+      ? await this.findOwnedSession(userId, options.sessionId)
+      : undefined;
+    if (options.sessionId && !existing) return undefined;
+
+    const { conversation, summaryUpdate } = existing
+      ? await this.windowHistory(userId, existing, await storage.chat.getMessagesBySessionId(existing.id))
+      : { conversation: { history: [] } };
+
+    const tools = createChatTools(userId);
+    const response = options.onToken
+      ? await aiService.streamChatResponse(userId, message, options.onToken, {
+          signal: options.signal,
+          context: options.context,
+          conversation,
+          tools,
+        })
+      : await aiService.generateChatResponse(userId, message, options.context, conversation, tools);
+
+    if (options.signal?.aborted) {
+      throw new Error('Chat request was cancelled');
+    }
+
+    // Sessions and turns are stored only once the assistant has replied, so a failed
+    // or budget-blocked request leaves nothing dangling behind
+    let session =
+      existing ?? (await storage.chat.createSession({ userId, title: this.buildTitle(message) }));
+    await storage.chat.createMessage({
+      sessionId: session.id,
+      role: 'user',
+      content: message,
+      tokenCount: estimateTokens(message),
+    });
+    const reply = await storage.chat.createMessage({
+      sessionId: session.id,
+      role: 'assistant',
+      content: response,
+      tokenCount: estimateTokens(response),
+    });
+    if (summaryUpdate) {
+      await storage.chat.updateSummary(session.id, session.summarizedMessageCount, summaryUpdate);
+    }
+    session = await storage.chat.updateSession(session.id, {});
+
+    return { session, reply };
+  }
+
+  /**
+   * Keep the newest turns that fit the token budget and summarize the rest.
+   * If summarizing fails the older turns are simply left out and retried next time.
+   */
+  private async windowHistory(
+    userId: string,
+    session: ChatSession,
+    messages: ChatMessage[]
+  ): Promise<{
+    conversation: ChatConversation;
+    summaryUpdate?: Pick<ChatSession, 'summary' | 'summarizedMessageCount'>;
+  }> {
+    const unsummarized = messages.slice(session.summarizedMessageCount);
+
+    let keepFrom = unsummarized.length;
+    let tokens = 0;
+    while (keepFrom > 0 && tokens + unsummarized[keepFrom - 1].tokenCount <= HISTORY_TOKEN_BUDGET) {
+      tokens += unsummarized[keepFrom - 1].tokenCount;
+      keepFrom--;
+    }
+
+    const toTurn = (message: ChatMessage) => ({
+      role: message.role === 'assistant' ? ('assistant' as const) : ('user' as const),
+      content: message.content,
+    });
+    const history = unsummarized.slice(keepFrom).map(toTurn);
+    const overflow = unsummarized.slice(0, keepFrom).map(toTurn);
+
+    if (overflow.length === 0) {
+      return { conversation: { summary: session.summary, history } };
+    }
+
+    const summary = await aiService.summarizeChatHistory(userId, session.summary, overflow);
+    if (!summary) {
+      return { conversation: { summary: session.summary, history } };
+    }
+
+    return {
+      conversation: { summary, history },
+      summaryUpdate: {
+        summary,
+        summarizedMessageCount: session.summarizedMessageCount + overflow.length,
+      },
+    };
+  }
+
+  private async findOwnedSession(userId: string, sessionId: string): Promise<ChatSession | undefined> {
+    const session = await storage.chat.getSessionById(sessionId);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  private buildTitle(message: string): string {
+    const title = message.trim().replace(/\s+/g, ' ');
+    return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 3)}...` : title;
+  }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,234 @@
+import { storage } from '../data/index.js';
+import {
+  groupRulesSchema,
+  type CreateContactGroupDto,
+  type GroupRules,
+  type UpdateContactGroupDto,
+} from '../schemas/contact-group.schemas.js';
+import { filterContactsByRules } from '../utils/contact-group-rules.js';
+import type { Contact, ContactGroup, Tag } from '../../shared/schema.js';
+
+export type ContactGroupSummary = ContactGroup & { memberCount: number };
+export type ContactGroupWithMembers = ContactGroup & { contactIds: string[] };
+
+type ContactWithTags = Contact & { tags: Tag[] };
+
+export type ContactGroupResult =
+  | { success: true; group: ContactGroupWithMembers }
+  | { success: false; error: string; status: number; unauthorizedContacts?: string[] };
+
+/**
+ * Stored rules are JSON; rules that no longer validate match nobody rather than everybody.
+ */
+function parseRules(group: ContactGroup): GroupRules | undefined {
+  const result = groupRulesSchema.safeParse(group.rules);
+  return result.success ? result.data : undefined;
+}
+
+export class ContactGroupService {
+  async getGroups(userId: string): Promise<ContactGroupSummary[]> {
+    const [groups, contacts] = await Promise.all([
+      storage.contactGroups.getByUserId(userId),
+      storage.contacts.getByUserId(userId),
+    ]);
+    const members = await this.membersByGroup(groups, contacts);
+    return groups.map((group) => ({ ...group, memberCount: members.get(group.id)?.length ?? 0 }));
+  }
+
+  /**
+   * Returns undefined if the group does not belong to the user.
+   */
+  async getGroup(userId: string, groupId: string): Promise<ContactGroupWithMembers | undefined> {
+    const group = await this.findOwnedGroup(userId, groupId);
+    if (!group) return undefined;
+
+    const contacts = await storage.contacts.getByUserId(userId);
+    const members = await this.membersByGroup([group], contacts);
+    return { ...group, contactIds: members.get(group.id) ?? [] };
+  }
+
+  async getGroupContacts(userId: string, groupId: string): Promise<ContactWithTags[] | undefined> {
+    const group = await this.findOwnedGroup(userId, groupId);
+    if (!group) return undefined;
+
+    const contacts = await storage.contacts.getByUserId(userId);
+    const memberIds = new Set((await this.membersByGroup([group], contacts)).get(group.id));
+    return contacts.filter((contact) => memberIds.has(contact.id));
+  }
+
+  async createGroup(userId: string, data: CreateContactGroupDto): Promise<ContactGroupResult> {
+    if (await storage.contactGroups.getByName(userId, data.name)) {
+      return { success: false, error: 'A group with this name already exists', status: 409 };
+    }
+
+    const { groupType, name, description, color } = data;
+    if (groupType === 'rule') {
+      const group = await storage.contactGroups.create({
+        userId,
+        name,
+        description,
+        color,
+        groupType,
+        rules: data.rules,
+      });
+      return this.withMembers(userId, group);
+    }
+
+    const contactIds = [...new Set(data.contactIds ?? [])];
+    const unauthorizedContacts = await this.findUnownedContacts(userId, contactIds);
+    if (unauthorizedContacts.length > 0) {
+      return {
+        success: false,
+        error: 'Access denied: You can only group your own contacts',
+        status: 403,
+        unauthorizedContacts,
+      };
+    }
+
+    const group = await storage.contactGroups.create(
+      { userId, name, description, color, groupType },
+      contactIds
+    );
+    return { success: true, group: { ...group, contactIds } };
+  }
+
+  async updateGroup(
+    userId: string,
+    groupId: string,
+    data: UpdateContactGroupDto
+  ): Promise<ContactGroupResult> {
+    const group = await this.findOwnedGroup(userId, groupId);
+    if (!group) {
+      return { success: false, error: 'Group not found', status: 404 };
+    }
+    if (data.rules && group.groupType !== 'rule') {
+      return { success: false, error: 'Only rule-based groups have rules', status: 400 };
+    }
+    if (data.name && data.name !== group.name && (await storage.contactGroups.getByName(userId, data.name))) {
+      return { success: false, error: 'A group with this name already exists', status: 409 };
+    }
+
+    const updated = await storage.contactGroups.update(group.id, data);
+    return this.withMembers(userId, updated);
+  }
+
+  async deleteGroup(userId: string, groupId: string): Promise<boolean> {
+    const group = await this.findOwnedGroup(userId, groupId);
+    if (!group) return false;
+    return storage.contactGroups.delete(group.id);
+  }
+
+  async addMembers(userId: string, groupId: string, contactIds: string[]): Promise<ContactGroupResult> {
+    return this.changeMembers(userId, groupId, contactIds, async (group, ids) => {
+      await storage.contactGroups.addMembers(group.id, ids);
+    });
+  }
+
+  async removeMembers(userId: string, groupId: string, contactIds: string[]): Promise<ContactGroupResult> {
+    return this.changeMembers(userId, groupId, contactIds, async (group, ids) => {
+      await storage.contactGroups.removeMembers(group.id, ids);
+    });
+  }
+
+  /**
+   * The contacts that rules would match right now, to preview a group before saving it.
+   */
+  async previewRules(userId: string, rules: GroupRules): Promise<{ count: number; contactIds: string[] }> {
+    const contacts = await storage.contacts.getByUserId(userId);
+    const contactIds = filterContactsByRules(contacts, rules).map((contact) => contact.id);
+    return { count: contactIds.length, contactIds };
+  }
+
+  /**
+   * Current members of the user's groups, e.g. to expand a BulkAction or AI task that targets
+   * groups. Groups that do not belong to the user are ignored.
+   */
+  async resolveContactIds(userId: string, groupIds: string[]): Promise<string[]> {
+    if (groupIds.length === 0) return [];
+
+    const [groups, contacts] = await Promise.all([
+      storage.contactGroups.getByUserId(userId),
+      storage.contacts.getByUserId(userId),
+    ]);
+    const requested = groups.filter((group) => groupIds.includes(group.id));
+    const members = await this.membersByGroup(requested, contacts);
+    return [...new Set([...members.values()].flat())];
+  }
+
+  private async changeMembers(
+    userId: string,
+    groupId: string,
+    contactIds: string[],
+    change: (group: ContactGroup, contactIds: string[]) => Promise<void>
+  ): Promise<ContactGroupResult> {
+    const group = await this.findOwnedGroup(userId, groupId);
+    if (!group) {
+      return { success: false, error: 'Group not found', status: 404 };
+    }
+    if (group.groupType === 'rule') {
+      return { success: false, error: 'Members of rule-based groups follow from their rules', status: 400 };
+    }
+
+    const unauthorizedContacts = await this.findUnownedContacts(userId, contactIds);
+    if (unauthorizedContacts.length > 0) {
+      return {
+        success: false,
+        error: 'Access denied: You can only group your own contacts',
+        status: 403,
+        unauthorizedContacts,
+      };
+    }
+
+    await change(group, [...new Set(contactIds)]);
+    return this.withMembers(userId, group);
+  }
+
+  private async withMembers(userId: string, group: ContactGroup): Promise<ContactGroupResult> {
+    const contacts = await storage.contacts.getByUserId(userId);
+    const members = await this.membersByGroup([group], contacts);
+    return { success: true, group: { ...group, contactIds: members.get(group.id) ?? [] } };
+  }
+
+  /**
+   * Member contact IDs per group: stored members for static groups, rule matches otherwise.
+   * Only the user's own contacts are ever returned.
+   */
+  private async membersByGroup(
+    groups: ContactGroup[],
+    contacts: ContactWithTags[]
+  ): Promise<Map<string, string[]>> {
+    const ownedIds = new Set(contacts.map((contact) => contact.id));
+    const staticIds = groups.filter((group) => group.groupType !== 'rule').map((group) => group.id);
+    const storedMembers = await storage.contactGroups.getMembers(staticIds);
+
+    const members = new Map<string, string[]>();
+    for (const group of groups) {
+      if (group.groupType === 'rule') {
+        const rules = parseRules(group);
+        members.set(group.id, rules ? filterContactsByRules(contacts, rules).map((contact) => contact.id) : []);
+      } else {
+        members.set(
+          group.id,
+          storedMembers
+            .filter((member) => member.groupId === group.id && ownedIds.has(member.contactId))
+            .map((member) => member.contactId)
+        );
+      }
+    }
+    return members;
+  }
+
+  private async findUnownedContacts(userId: string, contactIds: string[]): Promise<string[]> {
+    if (contactIds.length === 0) return [];
+    const contacts = await storage.contacts.getByUserId(userId);
+    const ownedIds = new Set(contacts.map((contact) => contact.id));
+    return contactIds.filter((id) => !ownedIds.has(id));
+  }
+
+  private async findOwnedGroup(userId: string, groupId: string): Promise<ContactGroup | undefined> {
+    const group = await storage.contactGroups.getById(groupId);
+    return group?.userId === userId ? group : undefined;
+  }
+}
+
+export const contactGroupService = new ContactGroupService();
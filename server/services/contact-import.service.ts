@@ -0,0 +1,318 @@
+import { storage } from '../data/index.js';
+import {
+  importedContactSchema,
+  MAX_CONTACT_IMPORT_ROWS,
+  type ContactImportDto,
+  type ContactImportMappingDto,
+  type ImportedContactDto,
+} from '../schemas/contact.schemas.js';
+import { findDuplicateContacts, normalizeEmail } from '../utils/contact-dedupe.js';
+import { detectColumns, isXlsxFile, readSheetRows } from '../utils/spreadsheet-reader.js';
+import { isVCardFile, parseVCards, type VCardContact } from '../utils/vcard-parser.js';
+import { getErrorMessage, logError } from '../utils/error-handling.js';
+import type { Contact, DataProcessingJob, InsertContact, Tag } from '../../shared/schema.js';
+import type {
+  ContactImportPreview,
+  ContactImportProgress,
+  ContactImportRowPreview,
+} from '../types/service-contracts.js';
+
+export interface ContactImportUpload {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+export const CONTACT_IMPORT_JOB_TYPE = 'contact_import';
+
+const CONTACT_FIELDS = ['name', 'firstName', 'lastName', 'email', 'phone', 'notes'] as const;
+
+type ContactField = (typeof CONTACT_FIELDS)[number];
+
+const CONTACT_SYNONYMS: Record<ContactField, string[]> = {
+  name: ['name', 'full name', 'contact name', 'client name', 'display name'],
+  firstName: ['first name', 'firstname', 'given name', 'forename'],
+  lastName: ['last name', 'lastname', 'surname', 'family name'],
+  email: ['email', 'e mail', 'email address', 'e mail address', 'primary email'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'cell', 'telephone', 'tel'],
+  notes: ['notes', 'note', 'comments', 'comment', 'description'],
+};
+
+// Job progress is written after this many rows rather than after every row
+const PROGRESS_INTERVAL = 10;
+// Keep the stored job output small when a whole file fails validation
+const MAX_REPORTED_ERRORS = 100;
+
+type ImportedContact = Partial<Record<Exclude<ContactField, 'firstName' | 'lastName'>, string>>;
+
+function toImportedContact(fields: VCardContact): ImportedContact {
+  const fullName =
+    fields.name ?? ([fields.firstName, fields.lastName].filter(Boolean).join(' ') || undefined);
+  return {
+    name: fullName,
+    email: fields.email?.toLowerCase(),
+    phone: fields.phone,
+    notes: fields.notes,
+  };
+}
+
+function rowsFromSheet(
+  rows: string[][],
+  mapping: ContactImportMappingDto
+): ImportedContact[] {
+  const [headers = [], ...dataRows] = rows;
+  const column = (field: ContactField) => {
+    const header = mapping[field];
+    return header ? headers.indexOf(header) : -1;
+  };
+  const indexes = Object.fromEntries(CONTACT_FIELDS.map((field) => [field, column(field)])) as Record<
+    ContactField,
+    number
+  >;
+
+  return dataRows.map((cells) => {
+    const value = (field: ContactField) => {
+      const index = indexes[field];
+      return index >= 0 ? cells[index] || undefined : undefined;
+    };
+    return toImportedContact({
+      name: value('name'),
+      firstName: value('firstName'),
+      lastName: value('lastName'),
+      email: value('email'),
+      phone: value('phone'),
+      notes: value('notes'),
+    });
+  });
+}
+
+/**
+ * Fill the fields the existing contact is missing; notes from the file are appended.
+ */
+function mergeFields(
+  existing: Contact,
+  incoming: Partial<ImportedContactDto>
+): Partial<InsertContact> {
+  const updates: Partial<InsertContact> = {};
+  if (!existing.name.trim() && incoming.name) updates.name = incoming.name;
+  if (!existing.email.trim() && incoming.email) updates.email = incoming.email;
+  if (!existing.phone && incoming.phone) updates.phone = incoming.phone;
+  if (incoming.notes && !(existing.notes ?? '').includes(incoming.notes)) {
+    updates.notes = existing.notes ? `${existing.notes}\n\n${incoming.notes}` : incoming.notes;
+  }
+  return updates;
+}
+
+export class ContactImportService {
+  /**
+   * Read an uploaded CSV, XLSX or vCard file and check each row against the user's contacts.
+   * Nothing is saved; the user picks skip, merge or create per row before importing.
+   */
+  async previewFile(
+    userId: string,
+    file: ContactImportUpload,
+    requestedMapping?: ContactImportMappingDto
+  ): Promise<ContactImportPreview> {
+    let format: ContactImportPreview['format'];
+    let headers: string[] = [];
+    let mapping: ContactImportMappingDto = {};
+    let imported: ImportedContact[];
+
+    if (isVCardFile(file.originalname, file.mimetype)) {
+      format = 'vcard';
+      imported = parseVCards(file.buffer.toString('utf-8')).map(toImportedContact);
+    } else {
+      format = isXlsxFile(file.originalname, file.mimetype) ? 'xlsx' : 'csv';
+      const rows = await readSheetRows(file.buffer, file.originalname, file.mimetype);
+      headers = rows[0] ?? [];
+      mapping = requestedMapping ?? detectColumns(headers, CONTACT_FIELDS, CONTACT_SYNONYMS);
+      imported = rowsFromSheet(rows, mapping);
+    }
+
+    if (imported.length > MAX_CONTACT_IMPORT_ROWS) {
+      throw new Error(`Files can contain at most ${MAX_CONTACT_IMPORT_ROWS} contacts`);
+    }
+
+    const contacts = await storage.contacts.getByUserId(userId);
+    const contactsById = new Map(contacts.map((contact) => [contact.id, contact]));
+    const rowsByEmail = new Map<string, number>();
+
+    const rows = imported.map((contact, index): ContactImportRowPreview => {
+      const row = index + 1;
+      const result = importedContactSchema.safeParse(contact);
+      const errors = result.success
+        ? []
+        : result.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+
+      const duplicates = findDuplicateContacts(contact, contacts).map((duplicate) => {
+        const existing = contactsById.get(duplicate.contactId)!;
+        return { ...duplicate, contactName: existing.name, email: existing.email };
+      });
+
+      const email = normalizeEmail(contact.email);
+      const duplicateOfRow = email ? rowsByEmail.get(email) : undefined;
+      if (email && duplicateOfRow === undefined) rowsByEmail.set(email, row);
+
+      // Email and phone matches are the same person; a similar name alone is only a hint.
+      // Merging only fills gaps, so it is offered even when the row could not be created.
+      let suggestedAction: ContactImportRowPreview['suggestedAction'] = 'create';
+      if (duplicateOfRow !== undefined) {
+        suggestedAction = 'skip';
+      } else if (duplicates[0] && duplicates[0].reason !== 'name') {
+        suggestedAction = 'merge';
+      } else if (errors.length > 0) {
+        suggestedAction = 'skip';
+      }
+
+      return { row, contact, errors, duplicates, duplicateOfRow, suggestedAction };
+    });
+
+    return { format, headers, mapping, rows };
+  }
+
+  /**
+   * Start importing the reviewed rows as a background job and return it straight away.
+   * Returns undefined if a row would merge into a contact the user does not own.
+   */
+  async startImport(userId: string, request: ContactImportDto): Promise<DataProcessingJob | undefined> {
+    const contacts = await storage.contacts.getByUserId(userId);
+    const ownedContacts = new Map(contacts.map((contact) => [contact.id, contact]));
+    const ownsMergeTargets = request.rows.every(
+      (row) => row.action !== 'merge' || ownedContacts.has(row.mergeIntoId)
+    );
+    if (!ownsMergeTargets) return undefined;
+
+    const progress: ContactImportProgress = {
+      total: request.rows.length,
+      processed: 0,
+      created: 0,
+      merged: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    };
+
+    const job = await storage.createDataProcessingJob({
+      userId,
+      jobType: CONTACT_IMPORT_JOB_TYPE,
+      sourceType: 'manual_upload',
+      sourceReference: request.fileName,
+      status: 'processing',
+      startedAt: new Date(),
+      inputData: {
+        fileName: request.fileName,
+        rows: request.rows.length,
+        lifecycleStage: request.lifecycleStage,
+        tagIds: request.tagIds,
+        newTags: request.newTags,
+      },
+      outputData: progress,
+    });
+
+    void this.runImport(job.id, userId, request, ownedContacts, progress);
+    return job;
+  }
+
+  /**
+   * Returns undefined if the job does not exist, belongs to another user or is not an import.
+   */
+  async getImportJob(userId: string, jobId: string): Promise<DataProcessingJob | undefined> {
+    const job = await storage.ai.getJobById(jobId);
+    if (job?.userId !== userId || job.jobType !== CONTACT_IMPORT_JOB_TYPE) return undefined;
+    return job;
+  }
+
+  private async runImport(
+    jobId: string,
+    userId: string,
+    request: ContactImportDto,
+    ownedContacts: Map<string, Contact & { tags: Tag[] }>,
+    progress: ContactImportProgress
+  ): Promise<void> {
+    try {
+      const tagIds = await this.resolveTags(userId, request);
+
+      for (const [index, row] of request.rows.entries()) {
+        try {
+          if (row.action === 'skip') {
+            progress.skipped++;
+          } else if (row.action === 'create') {
+            const contact = await storage.contacts.create({
+              ...row.contact,
+              userId,
+              lifecycleStage: request.lifecycleStage,
+            });
+            await this.addMissingTags(contact.id, [], tagIds);
+            progress.created++;
+          } else {
+            const existing = ownedContacts.get(row.mergeIntoId)!;
+            const updates = mergeFields(existing, row.contact);
+            if (!existing.lifecycleStage && request.lifecycleStage) {
+              updates.lifecycleStage = request.lifecycleStage;
+            }
+            if (Object.keys(updates).length > 0) {
+              const updated = await storage.contacts.update(existing.id, updates);
+              // Later rows merging into the same contact build on this one
+              ownedContacts.set(existing.id, { ...updated, tags: existing.tags });
+            }
+            await this.addMissingTags(existing.id, existing.tags, tagIds);
+            progress.merged++;
+          }
+        } catch (error: unknown) {
+          progress.failed++;
+          if (progress.errors.length < MAX_REPORTED_ERRORS) {
+            progress.errors.push({ row: index + 1, message: getErrorMessage(error) });
+          }
+        }
+
+        progress.processed++;
+        if (progress.processed % PROGRESS_INTERVAL === 0) {
+          await storage.updateDataProcessingJob(jobId, { outputData: progress });
+        }
+      }
+
+      await storage.updateDataProcessingJob(jobId, {
+        status: 'completed',
+        completedAt: new Date(),
+        outputData: progress,
+      });
+    } catch (error: unknown) {
+      logError('Contact import failed', error);
+      await storage.updateDataProcessingJob(jobId, {
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: getErrorMessage(error),
+        outputData: progress,
+      });
+    }
+  }
+
+  /**
+   * IDs of the selected tags plus the new tag names, reusing tags that already exist by name.
+   */
+  private async resolveTags(userId: string, request: ContactImportDto): Promise<string[]> {
+    const allTags = await storage.tags.getByUserId(userId);
+    const tagIds = new Set(
+      (request.tagIds ?? []).filter((tagId) => allTags.some((tag) => tag.id === tagId))
+    );
+
+    for (const name of request.newTags ?? []) {
+      const existing = allTags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+      const tag = existing ?? (await storage.tags.create({ userId, name }));
+      if (!existing) allTags.push(tag);
+      tagIds.add(tag.id);
+    }
+    return [...tagIds];
+  }
+
+  // contact_tags has no unique constraint, so tags the contact already has are skipped
+  private async addMissingTags(contactId: string, currentTags: Tag[], tagIds: string[]): Promise<void> {
+    for (const tagId of tagIds) {
+      if (!currentTags.some((tag) => tag.id === tagId)) {
+        await storage.contacts.addTag(contactId, tagId);
+      }
+    }
+  }
+}
+
+export const contactImportService = new ContactImportService();
@@ -60,6 +60,7 @@ export class ContactService {
   }
 
   async updateContact(
+    userId: string,
     contactId: string,
     contactData: Partial<InsertContact>,
     tags: { id: string; name: string; color?: string }[] | undefined
@@ -79,7 +80,7 @@ export class ContactService {
         }
       }
 
-      const existingTags = await storage.contacts.getAllTags();
+      const existingTags = await storage.tags.getByUserId(userId);
       for (const newTag of tags) {
         if (oldTagIds.has(newTag.id)) continue;
 
@@ -91,12 +92,17 @@ export class ContactService {
           if (existingTag) {
             tagId = existingTag.id;
           } else {
-            const created = await storage.contacts.createTag({
+            const created = await storage.tags.create({
+              userId,
               name: newTag.name,
               color: newTag.color ?? '#3b82f6',
             });
+            existingTags.push(created);
             tagId = created.id;
           }
+        } else if (!existingTags.some((t) => t.id === newTag.id)) {
+          // Another user's tag
+          continue;
         }
         await storage.contacts.addTag(contactId, tagId);
       }
@@ -108,6 +114,8 @@ export class ContactService {
   }
 
   async deleteContact(contactId: string): Promise<boolean> {
+    // Through the referrals so the referralCount of whoever referred this contact is updated
+    await storage.referrals.deleteByContactId(contactId);
     return storage.contacts.delete(contactId);
   }
 
@@ -171,20 +179,35 @@ export class ContactService {
     };
   }
 
+  /**
+   * Returns undefined if the tag does not belong to the user.
+   */
   async addTagToContacts(
+    userId: string,
     contactIds: string[],
     tagId: string,
     tagName?: string,
     tagColor?: string
-  ): Promise<{ success: boolean; tagId: string; contactTags: ContactTag[] }> {
+  ): Promise<{ success: boolean; tagId: string; contactTags: ContactTag[] } | undefined> {
+    const userTags = await storage.tags.getByUserId(userId);
     let finalTagId = tagId;
 
+    if (tagId && !userTags.some((tag) => tag.id === tagId)) {
+      return undefined;
+    }
+
     if (!tagId && tagName) {
-      const newTag = await storage.contacts.createTag({
-        name: tagName,
-        color: tagColor ?? '#3b82f6',
-      });
-      finalTagId = newTag.id;
+      // Reuse the user's tag with this name rather than failing on the unique name
+      const existing = userTags.find((tag) => tag.name.toLowerCase() === tagName.trim().toLowerCase());
+      finalTagId =
+        existing?.id ??
+        (
+          await storage.tags.create({
+            userId,
+            name: tagName.trim(),
+            color: tagColor ?? '#3b82f6',
+          })
+        ).id;
     }
 
     if (!finalTagId) {
@@ -0,0 +1,48 @@
+import { storage } from '../data/index.js';
+import { type Document } from '../../shared/schema.js';
+
+export class DocumentService {
+  /**
+   * Drive documents that matched no contact, or matched more than one, and need a decision.
+   */
+  async getReviewQueue(userId: string): Promise<Document[]> {
+    return storage.misc.getDocumentsByReviewStatus(userId, 'pending_review');
+  }
+
+  /**
+   * Attach a document to a contact. Manual assignments are kept by later syncs.
+   * Returns undefined if the document or contact does not belong to the user.
+   */
+  async assignDocument(
+    userId: string,
+    documentId: string,
+    contactId: string
+  ): Promise<Document | undefined> {
+    const document = await this.findOwnedDocument(userId, documentId);
+    const contact = await storage.contacts.getById(contactId);
+    if (!document || contact?.userId !== userId) return undefined;
+
+    return storage.misc.updateDocument(document.id, {
+      contactId: contact.id,
+      matchMethod: 'manual',
+      reviewStatus: 'matched',
+    });
+  }
+
+  /**
+   * Remove a document from the review queue without attaching it to anyone.
+   */
+  async dismissDocument(userId: string, documentId: string): Promise<Document | undefined> {
+    const document = await this.findOwnedDocument(userId, documentId);
+    if (!document) return undefined;
+
+    return storage.misc.updateDocument(document.id, { contactId: null, reviewStatus: 'dismissed' });
+  }
+
+  private async findOwnedDocument(userId: string, documentId: string): Promise<Document | undefined> {
+    const document = await storage.misc.getDocumentById(documentId);
+    return document?.userId === userId ? document : undefined;
+  }
+}
+
+export const documentService = new DocumentService();
@@ -0,0 +1,177 @@
+import { storage } from '../data/index.js';
+import {
+  buildContactAddressIndex,
+  matchEmailContacts,
+  normalizeEmailAddress,
+  type EmailAddress,
+} from '../utils/email-contact-matcher.js';
+import type { BulkAction } from '../types/service-contracts.js';
+import type { Email, User } from '../../shared/schema.js';
+
+export interface EmailLinkingSummary {
+  linkedEmails: number;
+  interactionsCreated: number;
+  contactSuggestions: number;
+}
+
+interface UnknownSender extends EmailAddress {
+  emailIds: string[];
+  latestSubject: string | null;
+}
+
+// Emails re-read when a contact is added, so their earlier messages land on the timeline
+const RELINK_DAYS = 90;
+// Keeps a first sync of a busy inbox from flooding the suggestion queue
+const MAX_CONTACT_SUGGESTIONS_PER_RUN = 10;
+
+export const CONTACT_CREATION_SUGGESTION = 'contact_creation';
+
+function displayName(sender: EmailAddress): string {
+  return sender.name ?? sender.email.split('@')[0];
+}
+
+export class EmailLinkingService {
+  /**
+   * Links each email to every known contact in it, keeps one gmail interaction per contact and
+   * thread, moves lastContact forward and suggests contacts for unknown senders. Safe to run
+   * again over emails that were already linked.
+   */
+  async linkEmails(user: Pick<User, 'id' | 'email'>, emails: Email[]): Promise<EmailLinkingSummary> {
+    const summary: EmailLinkingSummary = { linkedEmails: 0, interactionsCreated: 0, contactSuggestions: 0 };
+    if (emails.length === 0) return summary;
+
+    const contacts = await storage.contacts.getByUserId(user.id);
+    const index = buildContactAddressIndex(contacts);
+    const latestByContact = new Map<string, Date>();
+    const unknownSenders = new Map<string, UnknownSender>();
+
+    const ordered = [...emails].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (const email of ordered) {
+      const match = matchEmailContacts(email, index, [user.email]);
+
+      if (match.links.length > 0) {
+        await storage.emails.linkContacts(
+          match.links.map((link) => ({ emailId: email.id, contactId: link.contactId, role: link.role }))
+        );
+        summary.linkedEmails++;
+
+        if (!email.contactId) {
+          await storage.emails.update(email.id, {
+            contactId: match.senderContactId ?? match.links[0].contactId,
+          });
+        }
+      }
+
+      for (const link of match.links) {
+        if (await this.recordThreadInteraction(link.contactId, email)) {
+          summary.interactionsCreated++;
+        }
+        const latest = latestByContact.get(link.contactId);
+        if (!latest || latest < email.timestamp) latestByContact.set(link.contactId, email.timestamp);
+      }
+
+      if (match.unknownSender) {
+        const key = normalizeEmailAddress(match.unknownSender.email);
+        const sender = unknownSenders.get(key) ?? { ...match.unknownSender, emailIds: [], latestSubject: null };
+        sender.emailIds.push(email.id);
+        sender.latestSubject = email.subject ?? sender.latestSubject;
+        unknownSenders.set(key, sender);
+      }
+    }
+
+    for (const contact of contacts) {
+      const latest = latestByContact.get(contact.id);
+      if (latest && (!contact.lastContact || contact.lastContact < latest)) {
+        await storage.contacts.update(contact.id, { lastContact: latest });
+      }
+    }
+
+    summary.contactSuggestions = await this.suggestContacts(user.id, [...unknownSenders.values()]);
+    return summary;
+  }
+
+  /**
+   * Links the user's recent emails again, for example after contacts were added.
+   */
+  async relinkRecentEmails(userId: string): Promise<EmailLinkingSummary | undefined> {
+    const user = await storage.users.findById(userId);
+    if (!user) return undefined;
+    const emails = await storage.emails.getRecent(userId, RELINK_DAYS);
+    return this.linkEmails(user, emails);
+  }
+
+  /**
+   * Creates the contact's interaction for the email's thread, or moves an existing one forward to
+   * the newest message. Returns true when a new interaction was created.
+   */
+  private async recordThreadInteraction(contactId: string, email: Email): Promise<boolean> {
+    const content = email.snippet ?? email.subject ?? 'Email interaction';
+    const existing = await storage.interactions.findBySource(contactId, 'gmail', email.gmailThreadId);
+
+    if (!existing) {
+      await storage.interactions.create({
+        contactId,
+        type: 'email',
+        subject: email.subject,
+        content,
+        timestamp: email.timestamp,
+        source: 'gmail',
+        sourceId: email.gmailThreadId,
+      });
+      return true;
+    }
+
+    if (existing.timestamp < email.timestamp) {
+      await storage.interactions.update(existing.id, { content, timestamp: email.timestamp });
+    }
+    return false;
+  }
+
+  /**
+   * One suggestion per sender. Senders that were already suggested are skipped whatever
+   * happened to the suggestion, so a rejected sender is not suggested again.
+   */
+  private async suggestContacts(userId: string, senders: UnknownSender[]): Promise<number> {
+    if (senders.length === 0) return 0;
+
+    const existing = await storage.ai.getSuggestionsByUserId(userId);
+    const suggested = new Set(
+      existing
+        .filter((suggestion) => suggestion.type === CONTACT_CREATION_SUGGESTION)
+        .map((suggestion) => (suggestion.sourceData as { email?: unknown } | null)?.email)
+        .filter((email): email is string => typeof email === 'string')
+        .map(normalizeEmailAddress)
+    );
+
+    const fresh = senders
+      .filter((sender) => !suggested.has(normalizeEmailAddress(sender.email)))
+      .slice(0, MAX_CONTACT_SUGGESTIONS_PER_RUN);
+
+    for (const sender of fresh) {
+      const name = displayName(sender);
+      const action: BulkAction = {
+        type: 'bulk_contact_create',
+        contactIds: [],
+        newContacts: [{ name, email: sender.email }],
+        metadata: { source: 'gmail' },
+      };
+      const count = sender.emailIds.length;
+
+      await storage.ai.createSuggestion({
+        userId,
+        type: CONTACT_CREATION_SUGGESTION,
+        title: `Add ${name} as a contact?`,
+        description: sender.latestSubject
+          ? `${name} <${sender.email}> sent you ${count} email${count === 1 ? '' : 's'}, most recently "${sender.latestSubject}", but is not one of your contacts yet.`
+          : `${name} <${sender.email}> sent you ${count} email${count === 1 ? '' : 's'} but is not one of your contacts yet.`,
+        suggestedAction: action,
+        sourceData: { email: sender.email, name: sender.name, emailIds: sender.emailIds },
+        priority: 'low',
+        status: 'pending',
+      });
+    }
+    return fresh.length;
+  }
+}
+
+export const emailLinkingService = new EmailLinkingService();
@@ -0,0 +1,139 @@
+import { storage } from '../data/index.js';
+import { EmailBatchOrchestrationBrain } from '../brains/email-batch-orchestration.brain.js';
+import { openRouterService } from '../providers/openrouter.provider.js';
+import { getErrorMessage, logError } from '../utils/error-handling.js';
+import type { DataProcessingJob, User } from '../../shared/schema.js';
+
+export interface EmailProcessingSummary {
+  threads: number;
+  analyzed: number;
+  relevant: number;
+  unchanged: number;
+  failed: number;
+  budgetSkipped: number;
+}
+
+export const EMAIL_ANALYSIS_JOB_TYPE = 'email_analysis';
+
+// One run covers the newest threads; older ones are picked up by the next run
+const MAX_THREADS_PER_RUN = 50;
+
+const emailBatchBrain = new EmailBatchOrchestrationBrain();
+
+export class EmailProcessingService {
+  /**
+   * Starts analyzing the user's unprocessed emails in the background; the summary is reported by
+   * the job. Returns the job already running for the user instead of starting a second one.
+   */
+  async startProcessing(user: User, useFreeModel = false): Promise<DataProcessingJob> {
+    const jobs = await storage.ai.getJobsByUserId(user.id);
+    const running = jobs.find(
+      (job) => job.jobType === EMAIL_ANALYSIS_JOB_TYPE && job.status === 'processing'
+    );
+    if (running) return running;
+
+    const job = await storage.createDataProcessingJob({
+      userId: user.id,
+      jobType: EMAIL_ANALYSIS_JOB_TYPE,
+      sourceType: 'gmail',
+      status: 'processing',
+      startedAt: new Date(),
+      inputData: { useFreeModel },
+    });
+
+    void this.runProcessing(job.id, user, useFreeModel);
+    return job;
+  }
+
+  /**
+   * Returns undefined if the job does not exist, belongs to another user or is not an email analysis.
+   */
+  async getProcessingJob(userId: string, jobId: string): Promise<DataProcessingJob | undefined> {
+    const job = await storage.ai.getJobById(jobId);
+    if (job?.userId !== userId || job.jobType !== EMAIL_ANALYSIS_JOB_TYPE) return undefined;
+    return job;
+  }
+
+  /**
+   * Analyzes every thread with unprocessed emails and stores the thread's analysis on each of its
+   * emails. Throws BudgetExceededError after saving what was analyzed before the budget ran out,
+   * unless deferOverBudget lets a 'queue' budget policy hold the work until the budget resets.
+   */
+  async processUnprocessedEmails(
+    user: User,
+    useFreeModel = false,
+    deferOverBudget = false
+  ): Promise<EmailProcessingSummary> {
+    const unprocessed = await storage.emails.getUnprocessed(user.id);
+    const threadIds = [...new Set(unprocessed.map((email) => email.gmailThreadId))].slice(
+      0,
+      MAX_THREADS_PER_RUN
+    );
+
+    const summary: EmailProcessingSummary = {
+      threads: threadIds.length,
+      analyzed: 0,
+      relevant: 0,
+      unchanged: 0,
+      failed: 0,
+      budgetSkipped: 0,
+    };
+    if (threadIds.length === 0) return summary;
+
+    const [threads, contacts] = await Promise.all([
+      Promise.all(threadIds.map((threadId) => storage.emails.getThread(user.id, threadId))),
+      storage.contacts.getByUserId(user.id),
+    ]);
+
+    const batchResult = await emailBatchBrain.execute(openRouterService, {
+      threads: threads.filter((thread) => thread.length > 0),
+      contacts,
+      user,
+      useFreeModel,
+      deferOverBudget,
+    });
+
+    const analyses = new Map(batchResult.successfulResults.map((analysis) => [analysis.gmailThreadId, analysis]));
+    for (const thread of threads) {
+      // Failed and budget-skipped threads stay unprocessed so the next run retries them
+      const analysis = analyses.get(thread[0]?.gmailThreadId);
+      if (!analysis) continue;
+
+      for (const email of thread) {
+        await storage.emails.markProcessed(email.id, analysis);
+      }
+    }
+
+    summary.analyzed = batchResult.totalProcessed - batchResult.unchangedThreads;
+    summary.unchanged = batchResult.unchangedThreads;
+    summary.relevant = batchResult.successfulResults.filter((analysis) => analysis.isRelevant).length;
+    summary.failed = batchResult.failedThreads.length;
+    summary.budgetSkipped = batchResult.budgetSkippedThreads.length;
+
+    if (batchResult.budgetError) {
+      throw batchResult.budgetError;
+    }
+    return summary;
+  }
+
+  private async runProcessing(jobId: string, user: User, useFreeModel: boolean): Promise<void> {
+    try {
+      // Nobody is waiting on the request, so over-budget work can wait for the budget to reset
+      const summary = await this.processUnprocessedEmails(user, useFreeModel, true);
+      await storage.updateDataProcessingJob(jobId, {
+        status: 'completed',
+        completedAt: new Date(),
+        outputData: summary,
+      });
+    } catch (error: unknown) {
+      logError('Email processing failed', error);
+      await storage.updateDataProcessingJob(jobId, {
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: getErrorMessage(error),
+      });
+    }
+  }
+}
+
+export const emailProcessingService = new EmailProcessingService();
@@ -0,0 +1,183 @@
+import { storage } from '../data/index.js';
+import { googleService } from '../providers/google.provider.js';
+import { aiService } from './ai.service.js';
+import { normalizeEmailAddress } from '../utils/email-contact-matcher.js';
+import { rawHeader, replySubject, type OutgoingEmail } from '../utils/gmail-message.js';
+import type { EmailThreadAnalysis } from '../types/service-contracts.js';
+import type { Email, User } from '../../shared/schema.js';
+
+export interface EmailThreadSummary {
+  threadId: string;
+  subject: string | null;
+  snippet: string | null;
+  messageCount: number;
+  lastMessageAt: Date;
+  participants: string[];
+  unread: boolean;
+}
+
+export type EmailThreadMessage = Pick<
+  Email,
+  'id' | 'subject' | 'fromEmail' | 'fromName' | 'toEmails' | 'ccEmails' | 'bodyText' | 'snippet' | 'timestamp' | 'isRead'
+>;
+
+export interface EmailThreadDetail {
+  threadId: string;
+  subject: string | null;
+  messages: EmailThreadMessage[];
+  insights: EmailThreadAnalysis | null;
+}
+
+export interface EmailReplyDraft {
+  draftId: string;
+  threadId: string;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export type EmailDraftResult =
+  | { success: true; draft: EmailReplyDraft }
+  | { success: false; error: string; status: number };
+
+/**
+ * Where drafts are saved. GoogleService in the app; tests pass a stand-in.
+ */
+export interface GmailDraftClient {
+  saveGmailDraft(user: User, threadId: string, email: OutgoingEmail, draftId?: string): Promise<{ id: string }>;
+}
+
+const THREAD_NOT_FOUND: EmailDraftResult = { success: false, error: 'Thread not found', status: 404 };
+
+function toMessage(email: Email): EmailThreadMessage {
+  const { id, subject, fromEmail, fromName, toEmails, ccEmails, bodyText, snippet, timestamp, isRead } = email;
+  return { id, subject, fromEmail, fromName, toEmails, ccEmails, bodyText, snippet, timestamp, isRead };
+}
+
+export class EmailThreadService {
+  constructor(private readonly gmail: GmailDraftClient = googleService) {}
+
+  /**
+   * The contact's email threads, most recent activity first. Only the messages the contact took
+   * part in are counted. Returns undefined if the contact does not belong to the user.
+   */
+  async getThreads(userId: string, contactId: string): Promise<EmailThreadSummary[] | undefined> {
+    if (!(await this.isOwnedContact(userId, contactId))) return undefined;
+
+    const emails = await storage.emails.getByParticipant(userId, contactId);
+    const threads = new Map<string, Email[]>();
+    for (const email of emails) {
+      threads.set(email.gmailThreadId, [...(threads.get(email.gmailThreadId) ?? []), email]);
+    }
+
+    // Emails arrive newest first, so the first message of each group is the latest
+    return [...threads].map(([threadId, messages]) => ({
+      threadId,
+      subject: messages[messages.length - 1].subject,
+      snippet: messages[0].snippet,
+      messageCount: messages.length,
+      lastMessageAt: messages[0].timestamp,
+      participants: [...new Set(messages.map((message) => message.fromName ?? message.fromEmail))],
+      unread: messages.some((message) => !message.isRead),
+    }));
+  }
+
+  /**
+   * Every stored message of a thread the contact is part of, oldest first.
+   */
+  async getThread(userId: string, contactId: string, threadId: string): Promise<EmailThreadDetail | undefined> {
+    const thread = await this.findThread(userId, contactId, threadId);
+    if (!thread) return undefined;
+
+    const processed = await storage.emails.findProcessedThread(userId, threadId);
+    return {
+      threadId,
+      subject: thread[0].subject,
+      messages: thread.map(toMessage),
+      insights: (processed?.analysis as EmailThreadAnalysis | null | undefined) ?? null,
+    };
+  }
+
+  /**
+   * Drafts a reply to the thread's last message from the contact, using the contact's profile,
+   * goals and the thread's extracted insights, and saves it as a Gmail draft.
+   */
+  async draftReply(user: User, contactId: string, threadId: string): Promise<EmailDraftResult> {
+    const contact = await storage.contacts.getById(contactId);
+    if (contact?.userId !== user.id) return { success: false, error: 'Contact not found', status: 404 };
+
+    const thread = await this.findThread(user.id, contactId, threadId);
+    if (!thread) return THREAD_NOT_FOUND;
+
+    const [goals, processed] = await Promise.all([
+      storage.interactions.getGoalsByContactId(contactId),
+      storage.emails.findProcessedThread(user.id, threadId),
+    ]);
+
+    const { body } = await aiService.draftEmailReply(user.id, {
+      practitionerName: user.name,
+      userEmail: user.email,
+      contact,
+      goals,
+      thread,
+      threadInsights: (processed?.analysis as Partial<EmailThreadAnalysis> | null | undefined) ?? undefined,
+    });
+
+    const email = this.replyTo(user, thread, contact.email, body);
+    const saved = await this.gmail.saveGmailDraft(user, threadId, email);
+    return { success: true, draft: { draftId: saved.id, threadId, to: email.to, subject: email.subject, body } };
+  }
+
+  /**
+   * Replaces a saved draft with the user's edited version.
+   */
+  async updateDraft(
+    user: User,
+    contactId: string,
+    threadId: string,
+    draftId: string,
+    edited: { to: string; subject: string; body: string }
+  ): Promise<EmailDraftResult> {
+    const thread = await this.findThread(user.id, contactId, threadId);
+    if (!thread) return THREAD_NOT_FOUND;
+
+    const email: OutgoingEmail = {
+      ...edited,
+      inReplyTo: rawHeader(thread[thread.length - 1].rawData, 'Message-ID'),
+    };
+    const saved = await this.gmail.saveGmailDraft(user, threadId, email, draftId);
+    return { success: true, draft: { draftId: saved.id, threadId, ...edited } };
+  }
+
+  /**
+   * Answers the last message someone else sent; if the user wrote last, the reply goes to the
+   * contact.
+   */
+  private replyTo(user: User, thread: Email[], contactEmail: string, body: string): OutgoingEmail {
+    const own = normalizeEmailAddress(user.email);
+    const incoming = [...thread].reverse().find((email) => normalizeEmailAddress(email.fromEmail) !== own);
+    const last = thread[thread.length - 1];
+
+    return {
+      to: incoming?.fromEmail ?? contactEmail,
+      subject: replySubject(thread[0].subject),
+      body,
+      inReplyTo: rawHeader(last.rawData, 'Message-ID'),
+    };
+  }
+
+  private async findThread(userId: string, contactId: string, threadId: string): Promise<Email[] | undefined> {
+    if (!(await this.isOwnedContact(userId, contactId))) return undefined;
+    if (!(await storage.emails.isThreadParticipant(userId, contactId, threadId))) return undefined;
+
+    const thread = await storage.emails.getThread(userId, threadId);
+    return thread.length > 0 ? thread : undefined;
+  }
+
+  private async isOwnedContact(userId: string, contactId: string): Promise<boolean> {
+    const contact = await storage.contacts.getById(contactId);
+    return contact?.userId === userId;
+  }
+}
+
+export const emailThreadService = new EmailThreadService();
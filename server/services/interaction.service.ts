@@ -6,8 +6,28 @@ import type {
   InsertInteraction,
   Goal,
   InsertGoal,
+  GoalProgressEntry,
   Contact,
 } from '../../shared/schema.js';
+import type {
+  CreateGoalDto,
+  UpdateGoalDto,
+  GoalProgressDto,
+  GoalQueryDto,
+} from '../schemas/goal.schemas.js';
+
+export type GoalWithProgress = Goal & { progress: GoalProgressEntry[] };
+
+/**
+ * Active goals are completed automatically once their current value reaches the target.
+ */
+export function resolveGoalStatus(
+  status: string | null,
+  currentValue: number,
+  targetValue: number
+): string | null {
+  return status === 'active' && currentValue >= targetValue ? 'completed' : status;
+}
 
 export class InteractionService {
   async getRecentInteractions(
@@ -40,12 +60,96 @@ export class InteractionService {
     return storage.interactions.create(dataToInsert);
   }
 
-  async createGoal(goalData: InsertGoal): Promise<Goal> {
-    return storage.interactions.createGoal(goalData);
+  // --- Goals ---
+
+  /**
+   * Goals of the user's contacts with their progress history, optionally for a single contact.
+   * Returns undefined if the contact does not belong to the user.
+   */
+  async getGoals(userId: string, query: GoalQueryDto = {}): Promise<GoalWithProgress[] | undefined> {
+    if (query.contactId && !(await this.findOwnedContact(userId, query.contactId))) {
+      return undefined;
+    }
+
+    const goals = (await storage.interactions.getGoalsForUser(userId, query.contactId)).filter(
+      (goal) => !query.status || goal.status === query.status
+    );
+    const entries = await storage.interactions.getGoalProgressEntries(goals.map((goal) => goal.id));
+    return goals.map((goal) => ({
+      ...goal,
+      progress: entries.filter((entry) => entry.goalId === goal.id),
+    }));
+  }
+
+  async getGoal(userId: string, goalId: string): Promise<GoalWithProgress | undefined> {
+    const goal = await this.findOwnedGoal(userId, goalId);
+    if (!goal) return undefined;
+
+    const progress = await storage.interactions.getGoalProgressEntries([goal.id]);
+    return { ...goal, progress };
+  }
+
+  /**
+   * Returns undefined if the contact does not belong to the user.
+   */
+  async createGoal(userId: string, goalData: CreateGoalDto): Promise<Goal | undefined> {
+    if (!(await this.findOwnedContact(userId, goalData.contactId))) {
+      return undefined;
+    }
+
+    const insertGoal: InsertGoal = {
+      ...goalData,
+      status: resolveGoalStatus(goalData.status, goalData.currentValue, goalData.targetValue),
+    };
+    return storage.interactions.createGoal(insertGoal);
+  }
+
+  /**
+   * Changes to currentValue are added to the goal's progress history rather than overwriting it.
+   */
+  async updateGoal(userId: string, goalId: string, updates: UpdateGoalDto): Promise<Goal | undefined> {
+    const goal = await this.findOwnedGoal(userId, goalId);
+    if (!goal) return undefined;
+
+    const { note, ...goalUpdates } = updates;
+    const currentValue = goalUpdates.currentValue ?? goal.currentValue;
+    const targetValue = goalUpdates.targetValue ?? goal.targetValue;
+    const status = resolveGoalStatus(goalUpdates.status ?? goal.status, currentValue, targetValue);
+    const progress =
+      goalUpdates.currentValue !== undefined && goalUpdates.currentValue !== goal.currentValue
+        ? { value: goalUpdates.currentValue, note }
+        : undefined;
+
+    return storage.interactions.updateGoal(goal.id, { ...goalUpdates, status }, progress);
+  }
+
+  async recordGoalProgress(
+    userId: string,
+    goalId: string,
+    progress: GoalProgressDto
+  ): Promise<Goal | undefined> {
+    const goal = await this.findOwnedGoal(userId, goalId);
+    if (!goal) return undefined;
+
+    const status = resolveGoalStatus(goal.status, progress.value, goal.targetValue);
+    return storage.interactions.updateGoal(goal.id, { currentValue: progress.value, status }, progress);
+  }
+
+  async deleteGoal(userId: string, goalId: string): Promise<boolean> {
+    const goal = await this.findOwnedGoal(userId, goalId);
+    if (!goal) return false;
+    return storage.interactions.deleteGoal(goal.id);
+  }
+
+  private async findOwnedGoal(userId: string, goalId: string): Promise<Goal | undefined> {
+    const goal = await storage.interactions.getGoalById(goalId);
+    if (!goal) return undefined;
+    return (await this.findOwnedContact(userId, goal.contactId)) ? goal : undefined;
   }
 
-  async updateGoal(goalId: string, updates: Partial<InsertGoal>): Promise<Goal> {
-    return storage.interactions.updateGoal(goalId, updates);
+  private async findOwnedContact(userId: string, contactId: string): Promise<Contact | undefined> {
+    const contact = await storage.contacts.getById(contactId);
+    return contact?.userId === userId ? contact : undefined;
   }
 }
 
@@ -0,0 +1,184 @@
+import { storage } from '../data/index.js';
+import {
+  findStageChange,
+  matchesLifecycleRules,
+  parseLifecycleRules,
+  SESSION_INTERACTION_TYPES,
+  type LifecycleContact,
+} from '../utils/lifecycle-rules.js';
+import type {
+  CreateLifecycleRuleDto,
+  PreviewLifecycleRuleDto,
+  UpdateLifecycleRuleDto,
+} from '../schemas/lifecycle-rule.schemas.js';
+import type { BulkAction } from '../types/service-contracts.js';
+import type { AiSuggestion, LifecycleRule } from '../../shared/schema.js';
+
+export type LifecycleRuleSummary = LifecycleRule & { affectedCount: number };
+
+export interface LifecycleRulePreview {
+  count: number;
+  contacts: Array<{ id: string; name: string; lifecycleStage: string | null }>;
+}
+
+export interface LifecycleRunSummary {
+  suggested: number;
+  applied: number;
+}
+
+export const LIFECYCLE_CHANGE_SUGGESTION = 'lifecycle_change';
+
+const PREVIEW_SAMPLE_SIZE = 10;
+// A rejected change is not suggested again for this long, unless the contact's stage changes
+const REJECTED_SUGGESTION_DAYS = 30;
+
+type LifecycleChangeSource = { contactId?: unknown; fromStage?: unknown; toStage?: unknown };
+
+function isSameChange(suggestion: AiSuggestion, contactId: string, fromStage: string | null, toStage: string): boolean {
+  const source = (suggestion.sourceData ?? {}) as LifecycleChangeSource;
+  return (
+    suggestion.type === LIFECYCLE_CHANGE_SUGGESTION &&
+    source.contactId === contactId &&
+    (source.fromStage ?? null) === fromStage &&
+    source.toStage === toStage
+  );
+}
+
+export class LifecycleRuleService {
+  /**
+   * The user's rules in evaluation order, each with the number of contacts it would move if the
+   * rules ran now. Active rules are counted together, in order; inactive rules on their own.
+   */
+  async getRules(userId: string, now = new Date()): Promise<LifecycleRuleSummary[]> {
+    const [rules, contacts] = await Promise.all([
+      storage.lifecycleRules.getByUserId(userId),
+      this.getLifecycleContacts(userId),
+    ]);
+
+    const counts = new Map<string, number>();
+    const activeRules = rules.filter((rule) => rule.isActive);
+    for (const contact of contacts) {
+      const rule = findStageChange(contact, activeRules, now);
+      if (rule) counts.set(rule.id, (counts.get(rule.id) ?? 0) + 1);
+    }
+
+    return rules.map((rule) => ({
+      ...rule,
+      affectedCount: rule.isActive
+        ? counts.get(rule.id) ?? 0
+        : contacts.filter((contact) => findStageChange(contact, [rule], now)).length,
+    }));
+  }
+
+  async createRule(userId: string, data: CreateLifecycleRuleDto): Promise<LifecycleRule> {
+    return storage.lifecycleRules.create({ userId, ...data });
+  }
+
+  /**
+   * Returns undefined if the rule does not belong to the user.
+   */
+  async updateRule(
+    userId: string,
+    ruleId: string,
+    updates: UpdateLifecycleRuleDto
+  ): Promise<LifecycleRule | undefined> {
+    if (!(await this.findOwnedRule(userId, ruleId))) return undefined;
+    return storage.lifecycleRules.update(ruleId, updates);
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+    if (!(await this.findOwnedRule(userId, ruleId))) return false;
+    return storage.lifecycleRules.delete(ruleId);
+  }
+
+  /**
+   * The contacts a rule would move to its target stage, evaluated on its own before it is saved.
+   */
+  async previewRule(userId: string, preview: PreviewLifecycleRuleDto, now = new Date()): Promise<LifecycleRulePreview> {
+    const contacts = await this.getLifecycleContacts(userId);
+    const affected = contacts.filter(
+      (contact) => contact.lifecycleStage !== preview.targetStage && matchesLifecycleRules(contact, preview.rules, now)
+    );
+    return {
+      count: affected.length,
+      contacts: affected.slice(0, PREVIEW_SAMPLE_SIZE).map(({ id, name, lifecycleStage }) => ({ id, name, lifecycleStage })),
+    };
+  }
+
+  /**
+   * Runs the user's active rules over their contacts. Changes from "auto" rules are applied and
+   * recorded as executed suggestions; the others become pending suggestions to review. Changes
+   * that are already pending, or were rejected recently, are not suggested again.
+   */
+  async applyRules(userId: string, now = new Date()): Promise<LifecycleRunSummary> {
+    const summary: LifecycleRunSummary = { suggested: 0, applied: 0 };
+    const rules = (await storage.lifecycleRules.getByUserId(userId)).filter(
+      (rule) => rule.isActive && parseLifecycleRules(rule)
+    );
+    if (rules.length === 0) return summary;
+
+    const [contacts, suggestions] = await Promise.all([
+      this.getLifecycleContacts(userId),
+      storage.ai.getSuggestionsByUserId(userId),
+    ]);
+    const rejectedSince = new Date(now.getTime() - REJECTED_SUGGESTION_DAYS * 24 * 60 * 60 * 1000);
+    const openSuggestions = suggestions.filter(
+      (suggestion) =>
+        suggestion.status === 'pending' ||
+        (suggestion.status === 'rejected' && new Date(suggestion.updatedAt) >= rejectedSince)
+    );
+
+    for (const contact of contacts) {
+      const rule = findStageChange(contact, rules, now);
+      if (!rule) continue;
+
+      const fromStage = contact.lifecycleStage;
+      if (rule.mode !== 'auto' && openSuggestions.some((s) => isSameChange(s, contact.id, fromStage, rule.targetStage))) {
+        continue;
+      }
+
+      const action: BulkAction = {
+        type: 'bulk_contact_update',
+        contactIds: [contact.id],
+        contactUpdates: { lifecycleStage: rule.targetStage },
+        metadata: { source: 'lifecycle_rule', ruleId: rule.id },
+      };
+      const auto = rule.mode === 'auto';
+      if (auto) {
+        await storage.contacts.update(contact.id, { lifecycleStage: rule.targetStage });
+      }
+
+      await storage.ai.createSuggestion({
+        userId,
+        type: LIFECYCLE_CHANGE_SUGGESTION,
+        title: `Move ${contact.name} to ${rule.targetStage.replace(/_/g, ' ')}`,
+        description: `Rule "${rule.name}" matched ${contact.name}${fromStage ? `, currently ${fromStage.replace(/_/g, ' ')}` : ''}.`,
+        suggestedAction: action,
+        sourceData: { contactId: contact.id, ruleId: rule.id, ruleName: rule.name, fromStage, toStage: rule.targetStage },
+        aiAnalysis: { reasoning: 'Lifecycle rule', rules: rule.rules },
+        priority: 'low',
+        status: auto ? 'executed' : 'pending',
+        ...(auto ? { reviewedAt: now, executedAt: now } : {}),
+      });
+
+      if (auto) summary.applied++;
+      else summary.suggested++;
+    }
+    return summary;
+  }
+
+  private async getLifecycleContacts(userId: string): Promise<LifecycleContact[]> {
+    const [contacts, lastSessions] = await Promise.all([
+      storage.contacts.getByUserId(userId),
+      storage.lifecycleRules.getLastInteractionDates(userId, SESSION_INTERACTION_TYPES),
+    ]);
+    return contacts.map((contact) => ({ ...contact, lastSessionAt: lastSessions.get(contact.id) ?? null }));
+  }
+
+  private async findOwnedRule(userId: string, ruleId: string): Promise<LifecycleRule | undefined> {
+    const rule = await storage.lifecycleRules.getById(ruleId);
+    return rule?.userId === userId ? rule : undefined;
+  }
+}
+
+export const lifecycleRuleService = new LifecycleRuleService();
@@ -133,7 +133,7 @@ export class EnhancedLLMService {
     try {
       // Get cost-optimized model recommendation
       const totalEstimatedTokens = events.length * estimatedTokensPerEvent;
-      const costRecommendation = llmCostTracker.getModelRecommendation(
+      const costRecommendation = await llmCostTracker.getModelRecommendation(
         userId,
         'calendar_analysis',
         totalEstimatedTokens
@@ -150,7 +150,7 @@ export class EnhancedLLMService {
       console.log(`- Batch size: ${batchSize}, Priority: ${priority}`);
 
       // Check if user has sufficient budget
-      const userStats = llmCostTracker.getCostStats(userId, 'day');
+      const userStats = await llmCostTracker.getCostStats(userId, 'day');
       const budgetAlerts: Array<{ type: string; message: string }> = [];
 
       if (userStats.budgetUtilization) {
@@ -188,7 +188,7 @@ export class EnhancedLLMService {
 
       // Create operations for batch processing
       const operations = eventsToProcess.map((event, index) => ({
-        operation: () => this.processSingleEventEnhanced(event, contacts, modelToUse, userId),
+        operation: (model: string) => this.processSingleEventEnhanced(event, contacts, model, userId),
         userId,
         model: modelToUse,
         priority,
@@ -217,6 +217,12 @@ export class EnhancedLLMService {
         if (result.success && result.result) {
           successfulResults.push(result.result);
           successful++;
+        } else if (result.budgetError) {
+          // No placeholder analysis, so the event is retried once the budget resets
+          failed++;
+          if (!budgetAlerts.some((alert) => alert.type === 'budget_exceeded')) {
+            budgetAlerts.push({ type: 'budget_exceeded', message: result.budgetError.message });
+          }
         } else {
           failed++;
           console.error(`Failed to process event ${event.id}: ${result.error}`);
@@ -245,7 +251,7 @@ export class EnhancedLLMService {
       }
 
       // Get updated cost statistics
-      const updatedStats = llmCostTracker.getCostStats(userId, 'day');
+      const updatedStats = await llmCostTracker.getCostStats(userId, 'day');
       totalCost = updatedStats.totalCost - userStats.totalCost;
 
       const processingTime = Date.now() - startTime;
@@ -491,13 +497,13 @@ if (storage.shouldProcessEvent && typeof storage.shouldProcessEvent === 'functio
   /**
    * Get service performance metrics
    */
-  getMetrics(): ProcessingMetrics & {
-    systemStats: ReturnType<typeof llmCostTracker.getSystemStats>;
+  async getMetrics(): Promise<ProcessingMetrics & {
+    systemStats: Awaited<ReturnType<typeof llmCostTracker.getSystemStats>>;
     concurrencyStats: ReturnType<typeof llmConcurrencyController.getStats>;
-  } {
+  }> {
     return {
       ...this.metrics,
-      systemStats: llmCostTracker.getSystemStats(),
+      systemStats: await llmCostTracker.getSystemStats(),
       concurrencyStats: llmConcurrencyController.getStats(),
     };
   }
@@ -505,24 +511,29 @@ if (storage.shouldProcessEvent && typeof storage.shouldProcessEvent === 'functio
   /**
    * Set budget limits for a user
    */
-  setUserBudget(userId: string, limits: Omit<BudgetLimits, 'userId'>): void {
-    llmCostTracker.setBudgetLimits(userId, limits);
+  async setUserBudget(
+    userId: string,
+    limits: Omit<BudgetLimits, 'userId' | 'policy'> & Partial<Pick<BudgetLimits, 'policy'>>
+  ): Promise<void> {
+    await llmCostTracker.setBudgetLimits(userId, limits);
   }
 
   /**
    * Get user cost statistics with optimization recommendations
    */
-  getUserCostAnalysis(userId: string): {
-    stats: ReturnType<typeof llmCostTracker.getCostStats>;
-    optimization: ReturnType<typeof llmCostTracker.generateOptimizationReport>;
+  async getUserCostAnalysis(userId: string): Promise<{
+    stats: Awaited<ReturnType<typeof llmCostTracker.getCostStats>>;
+    optimization: Awaited<ReturnType<typeof llmCostTracker.generateOptimizationReport>>;
     recommendations: Array<{
       action: string;
       expectedSaving: number;
       priority: 'high' | 'medium' | 'low';
     }>;
-  } {
-    const stats = llmCostTracker.getCostStats(userId, 'month');
-    const optimization = llmCostTracker.generateOptimizationReport(userId);
+  }> {
+    const [stats, optimization] = await Promise.all([
+      llmCostTracker.getCostStats(userId, 'month'),
+      llmCostTracker.generateOptimizationReport(userId),
+    ]);
 
     // Generate specific recommendations based on usage patterns
     const recommendations: Array<{
@@ -597,7 +608,7 @@ if (storage.shouldProcessEvent && typeof storage.shouldProcessEvent === 'functio
 
     // Periodic performance reporting
     setInterval(() => {
-      const stats = this.getMetrics();
+      const stats = { ...this.metrics, concurrencyStats: llmConcurrencyController.getStats() };
       if (stats.totalRequests > 0 && stats.totalRequests % 100 === 0) {
         console.log(`LLM Service Performance Report:
           - Total requests: ${stats.totalRequests}
@@ -0,0 +1,206 @@
+import { storage } from '../data/index.js';
+import type { CreateReferralDto, UpdateReferralDto } from '../schemas/referral.schemas.js';
+import type { Contact, Referral } from '../../shared/schema.js';
+
+export interface ReferralContact {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  lifecycleStage: string | null;
+}
+
+export interface ReferralTreeNode {
+  referral: Pick<Referral, 'id' | 'referredAt' | 'source' | 'rewardStatus'>;
+  contact: ReferralContact;
+  referrals: ReferralTreeNode[];
+}
+
+export interface ReferralTree {
+  referredBy: (ReferralTreeNode['referral'] & { contact: ReferralContact }) | null;
+  referrals: ReferralTreeNode[];
+}
+
+export interface Ambassador extends ReferralContact {
+  referralCount: number;
+  attributedRevenue: number;
+}
+
+export interface AmbassadorStats {
+  totalReferrals: number;
+  attributedRevenue: number;
+  topAmbassadors: Ambassador[];
+}
+
+export type ReferralResult =
+  | { success: true; referral: Referral }
+  | { success: false; error: string; status: number };
+
+// Deep enough for any real referral chain, and a guard against malformed data
+const MAX_TREE_DEPTH = 10;
+
+/**
+ * Revenue recorded for a contact, read from revenueData.totalRevenue.
+ */
+export function contactRevenue(contact: Pick<Contact, 'revenueData'>): number {
+  const data = contact.revenueData as { totalRevenue?: unknown } | null;
+  const total = Number(data?.totalRevenue);
+  return Number.isFinite(total) && total > 0 ? total : 0;
+}
+
+function toReferralContact(contact: Contact): ReferralContact {
+  return {
+    id: contact.id,
+    name: contact.name,
+    avatarUrl: contact.avatarUrl,
+    lifecycleStage: contact.lifecycleStage,
+  };
+}
+
+function toReferralSummary(referral: Referral): ReferralTreeNode['referral'] {
+  return {
+    id: referral.id,
+    referredAt: referral.referredAt,
+    source: referral.source,
+    rewardStatus: referral.rewardStatus,
+  };
+}
+
+export class ReferralService {
+  /**
+   * Record that one of the user's contacts referred another. Each contact can be referred only
+   * once, and a referral may not make a contact their own (indirect) referrer.
+   */
+  async recordReferral(userId: string, data: CreateReferralDto): Promise<ReferralResult> {
+    if (data.referrerId === data.referredId) {
+      return { success: false, error: 'A contact cannot refer themselves', status: 400 };
+    }
+
+    const [referrer, referred] = await Promise.all([
+      storage.contacts.getById(data.referrerId),
+      storage.contacts.getById(data.referredId),
+    ]);
+    if (referrer?.userId !== userId || referred?.userId !== userId) {
+      return { success: false, error: 'Contact not found', status: 404 };
+    }
+
+    const referrals = await storage.referrals.getByUserId(userId);
+    if (referrals.some((referral) => referral.referredId === data.referredId)) {
+      return { success: false, error: 'This contact already has a referrer', status: 409 };
+    }
+
+    // Walk up from the referrer; reaching the referred contact would close a loop
+    const referrerOf = new Map(referrals.map((referral) => [referral.referredId, referral.referrerId]));
+    for (let current = referrerOf.get(data.referrerId); current; current = referrerOf.get(current)) {
+      if (current === data.referredId) {
+        return { success: false, error: `${referred.name} already referred ${referrer.name}`, status: 400 };
+      }
+    }
+
+    const referral = await storage.referrals.create({ userId, ...data });
+    return { success: true, referral };
+  }
+
+  /**
+   * Returns undefined if the referral does not belong to the user.
+   */
+  async updateReferral(
+    userId: string,
+    referralId: string,
+    updates: UpdateReferralDto
+  ): Promise<Referral | undefined> {
+    if (!(await this.findOwnedReferral(userId, referralId))) return undefined;
+    return storage.referrals.update(referralId, updates);
+  }
+
+  async deleteReferral(userId: string, referralId: string): Promise<boolean> {
+    if (!(await this.findOwnedReferral(userId, referralId))) return false;
+    return storage.referrals.delete(referralId);
+  }
+
+  /**
+   * Who referred the contact, and everyone they referred directly or through the people they
+   * referred. Returns undefined if the contact does not belong to the user.
+   */
+  async getReferralTree(userId: string, contactId: string): Promise<ReferralTree | undefined> {
+    const [contacts, referrals] = await Promise.all([
+      storage.contacts.getByUserId(userId),
+      storage.referrals.getByUserId(userId),
+    ]);
+    const contactsById = new Map<string, Contact>(contacts.map((contact) => [contact.id, contact]));
+    if (!contactsById.has(contactId)) return undefined;
+
+    const referralsByReferrer = new Map<string, Referral[]>();
+    for (const referral of referrals) {
+      const made = referralsByReferrer.get(referral.referrerId) ?? [];
+      made.push(referral);
+      referralsByReferrer.set(referral.referrerId, made);
+    }
+
+    const buildBranch = (referrerId: string, depth: number, seen: Set<string>): ReferralTreeNode[] => {
+      if (depth >= MAX_TREE_DEPTH) return [];
+      return (referralsByReferrer.get(referrerId) ?? []).flatMap((referral) => {
+        const contact = contactsById.get(referral.referredId);
+        if (!contact || seen.has(contact.id)) return [];
+        return [
+          {
+            referral: toReferralSummary(referral),
+            contact: toReferralContact(contact),
+            referrals: buildBranch(contact.id, depth + 1, new Set(seen).add(contact.id)),
+          },
+        ];
+      });
+    };
+
+    const received = referrals.find((referral) => referral.referredId === contactId);
+    const referrer = received ? contactsById.get(received.referrerId) : undefined;
+
+    return {
+      referredBy:
+        received && referrer ? { ...toReferralSummary(received), contact: toReferralContact(referrer) } : null,
+      referrals: buildBranch(contactId, 0, new Set([contactId])),
+    };
+  }
+
+  /**
+   * The contacts who referred the most people, with the revenue of the contacts they referred.
+   */
+  async getAmbassadorStats(userId: string, limit = 5): Promise<AmbassadorStats> {
+    const [contacts, referrals] = await Promise.all([
+      storage.contacts.getByUserId(userId),
+      storage.referrals.getByUserId(userId),
+    ]);
+    const contactsById = new Map<string, Contact>(contacts.map((contact) => [contact.id, contact]));
+
+    const ambassadors = new Map<string, Ambassador>();
+    let attributedRevenue = 0;
+    for (const referral of referrals) {
+      const referrer = contactsById.get(referral.referrerId);
+      const referred = contactsById.get(referral.referredId);
+      if (!referrer || !referred) continue;
+
+      const revenue = contactRevenue(referred);
+      const ambassador = ambassadors.get(referrer.id) ?? {
+        ...toReferralContact(referrer),
+        referralCount: 0,
+        attributedRevenue: 0,
+      };
+      ambassador.referralCount++;
+      ambassador.attributedRevenue += revenue;
+      ambassadors.set(referrer.id, ambassador);
+      attributedRevenue += revenue;
+    }
+
+    const topAmbassadors = [...ambassadors.values()]
+      .sort((a, b) => b.referralCount - a.referralCount || b.attributedRevenue - a.attributedRevenue)
+      .slice(0, limit);
+
+    return { totalReferrals: referrals.length, attributedRevenue, topAmbassadors };
+  }
+
+  private async findOwnedReferral(userId: string, referralId: string): Promise<Referral | undefined> {
+    const referral = await storage.referrals.getById(referralId);
+    return referral?.userId === userId ? referral : undefined;
+  }
+}
+
+export const referralService = new ReferralService();
@@ -0,0 +1,314 @@
+import { storage } from '../data/index.js';
+import {
+  SentimentAnalysisBrain,
+  type SentimentAnalysisOutput,
+} from '../brains/sentiment-analysis.brain.js';
+import { mistralService } from '../providers/mistral.provider.js';
+import { openRouterService } from '../providers/openrouter.provider.js';
+import { llmConcurrencyController } from '../utils/llm-concurrency-controller.js';
+import { llmCostTracker } from '../utils/llm-cost-tracker.js';
+import type { BudgetExceededError } from '../utils/error-handling.js';
+import type { BulkAction } from '../types/service-contracts.js';
+import type { Contact, InsertSentimentScore, SentimentScore } from '../../shared/schema.js';
+
+export type EngagementTrend = 'improving' | 'stable' | 'declining';
+
+export interface SentimentTrend {
+  // Rounded average of the latest ratings, 1-5
+  sentiment: number;
+  engagementTrend: EngagementTrend;
+  // Change in rating per 30 days across the trend window
+  slope: number;
+  // Messages in the last 30 days against the monthly average of the 60 days before
+  frequencyRatio: number;
+}
+
+export interface SentimentRunSummary {
+  scored: number;
+  contactsUpdated: number;
+  dropSuggestions: number;
+}
+
+type RatedPoint = Pick<SentimentScore, 'rating' | 'confidence' | 'recordedAt'>;
+type UnratedScore = Omit<InsertSentimentScore, 'rating' | 'confidence'>;
+
+export const SENTIMENT_DROP_SUGGESTION = 'sentiment_drop';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_WINDOW_DAYS = 90;
+const RECENT_DAYS = 30;
+const MIN_SCORES_FOR_TREND = 3;
+const SLOPE_THRESHOLD = 0.3;
+const RECENT_RATINGS = 5;
+// A drop is sharp when the latest ratings average this far below the ones before them
+const SHARP_DROP_POINTS = 1.5;
+const DROP_SAMPLE = 3;
+// Each run scores at most this many messages per source; the rest wait for the next run
+const MAX_SCORES_PER_RUN = 100;
+const SENTIMENT_MODEL = 'mistral-small-latest';
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// The brain rates messages that are not client communication 3 with zero confidence; they stay
+// in the history so they are not rated again, but say nothing about the client
+const isClientRating = (score: RatedPoint) => score.confidence !== 0;
+
+/**
+ * Derives a contact's sentiment and engagement trend from their ratings in the last 90 days.
+ * The trend follows the least-squares slope of the ratings, and a contact who writes half as
+ * often as before counts as declining unless their ratings are rising. Returns null when there
+ * are too few ratings to tell.
+ */
+export function computeSentimentTrend(scores: RatedPoint[], now = new Date()): SentimentTrend | null {
+  const windowStart = now.getTime() - TREND_WINDOW_DAYS * DAY_MS;
+  const points = scores
+    .filter(isClientRating)
+    .filter((score) => score.recordedAt.getTime() >= windowStart && score.recordedAt.getTime() <= now.getTime())
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  if (points.length < MIN_SCORES_FOR_TREND) return null;
+
+  const xs = points.map((point) => (point.recordedAt.getTime() - windowStart) / (RECENT_DAYS * DAY_MS));
+  const ys = points.map((point) => point.rating);
+  const meanX = average(xs);
+  const meanY = average(ys);
+  const spread = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = spread === 0 ? 0 : xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / spread;
+
+  const recentStart = now.getTime() - RECENT_DAYS * DAY_MS;
+  const recentCount = points.filter((point) => point.recordedAt.getTime() >= recentStart).length;
+  const earlierMonthly = (points.length - recentCount) / ((TREND_WINDOW_DAYS - RECENT_DAYS) / RECENT_DAYS);
+  const frequencyRatio = earlierMonthly > 0 ? recentCount / earlierMonthly : 1;
+
+  let engagementTrend: EngagementTrend = 'stable';
+  if (slope <= -SLOPE_THRESHOLD || (frequencyRatio <= 0.5 && slope <= 0)) {
+    engagementTrend = 'declining';
+  } else if (slope >= SLOPE_THRESHOLD || (frequencyRatio >= 1.5 && slope >= 0)) {
+    engagementTrend = 'improving';
+  }
+
+  return {
+    sentiment: Math.round(average(ys.slice(-RECENT_RATINGS))),
+    engagementTrend,
+    slope: Math.round(slope * 100) / 100,
+    frequencyRatio: Math.round(frequencyRatio * 100) / 100,
+  };
+}
+
+/**
+ * Whether the latest ratings average well below the ones before them, or null if there are not
+ * enough ratings on either side to compare. Ratings must be oldest first.
+ */
+export function sentimentDrop(scores: RatedPoint[]): { before: number; after: number } | null {
+  const ratings = scores.filter(isClientRating).map((score) => score.rating);
+  if (ratings.length < DROP_SAMPLE + 2) return null;
+
+  const before = average(ratings.slice(0, -DROP_SAMPLE));
+  const after = average(ratings.slice(-DROP_SAMPLE));
+  return before - after >= SHARP_DROP_POINTS ? { before, after } : null;
+}
+
+export class SentimentTrendService {
+  private sentimentBrain = new SentimentAnalysisBrain();
+
+  /**
+   * Rates the user's new interactions and the emails their contacts sent, then refreshes the
+   * sentiment and engagement trend of every contact that got a new rating. Throws
+   * BudgetExceededError after saving what was rated before the budget ran out, unless
+   * deferOverBudget lets a 'queue' budget policy hold the ratings until the budget resets.
+   */
+  async updateSentimentTrends(
+    userId: string,
+    now = new Date(),
+    deferOverBudget = false
+  ): Promise<SentimentRunSummary> {
+    const since = new Date(now.getTime() - TREND_WINDOW_DAYS * DAY_MS);
+    const [interactions, emails] = await Promise.all([
+      storage.sentiment.getUnscoredInteractions(userId, since, MAX_SCORES_PER_RUN),
+      storage.sentiment.getUnscoredEmails(userId, since, MAX_SCORES_PER_RUN),
+    ]);
+
+    const scores: InsertSentimentScore[] = [];
+    const unrated: { score: UnratedScore; text: string }[] = [];
+    for (const interaction of interactions) {
+      const score: UnratedScore = {
+        contactId: interaction.contactId,
+        source: 'interaction',
+        sourceId: interaction.id,
+        recordedAt: interaction.timestamp,
+      };
+      // Interactions rated when they were created keep that rating
+      if (interaction.sentiment) {
+        scores.push({ ...score, rating: interaction.sentiment, confidence: null });
+      } else {
+        unrated.push({ score, text: interaction.content });
+      }
+    }
+
+    for (const email of emails) {
+      const score: UnratedScore = {
+        contactId: email.contactId,
+        source: 'email',
+        sourceId: email.id,
+        recordedAt: email.timestamp,
+      };
+      const text = [email.subject, email.bodyText ?? email.snippet].filter(Boolean).join('\n\n');
+      if (text) {
+        unrated.push({ score, text });
+      } else {
+        // Nothing to rate; recorded like a non-client message so it is not picked up again
+        scores.push({ ...score, rating: 3, confidence: 0 });
+      }
+    }
+
+    const results = await llmConcurrencyController.executeBatch(
+      unrated.map(({ text }) => ({
+        operation: (model: string) => this.rate(userId, model, text),
+        userId,
+        model: SENTIMENT_MODEL,
+        priority: 'low' as const,
+      })),
+      { batchSize: 5, delayBetweenBatches: 200, deferOverBudget }
+    );
+
+    let budgetError: BudgetExceededError | undefined;
+    for (const [index, result] of results.entries()) {
+      // Messages that could not be rated stay unscored so the next run tries them again
+      if (!result.success || !result.result) {
+        budgetError ??= result.budgetError;
+        continue;
+      }
+      const { score } = unrated[index];
+      const { rating, confidence } = result.result;
+      scores.push({ ...score, rating, confidence });
+      if (score.source === 'interaction' && confidence !== 0) {
+        await storage.interactions.update(score.sourceId, { sentiment: rating });
+      }
+    }
+
+    await storage.sentiment.createScores(scores);
+
+    const summary: SentimentRunSummary = { scored: scores.length, contactsUpdated: 0, dropSuggestions: 0 };
+    for (const contactId of new Set(scores.map((score) => score.contactId))) {
+      const result = await this.updateContactTrend(userId, contactId, now);
+      if (result.updated) summary.contactsUpdated++;
+      if (result.dropSuggested) summary.dropSuggestions++;
+    }
+
+    if (budgetError) {
+      throw budgetError;
+    }
+    return summary;
+  }
+
+  /**
+   * The contact's ratings over the last 90 days with the trend derived from them.
+   * Returns undefined if the contact does not belong to the user.
+   */
+  async getSentimentHistory(
+    userId: string,
+    contactId: string,
+    now = new Date()
+  ): Promise<{ scores: SentimentScore[]; trend: SentimentTrend | null } | undefined> {
+    const contact = await storage.contacts.getById(contactId);
+    if (contact?.userId !== userId) return undefined;
+
+    const scores = await storage.sentiment.getByContactId(
+      contactId,
+      new Date(now.getTime() - TREND_WINDOW_DAYS * DAY_MS)
+    );
+    return { scores, trend: computeSentimentTrend(scores, now) };
+  }
+
+  /**
+   * Rate one message with the model the budget allows and record what it cost.
+   * Throws rather than returning the brain's placeholder rating when the model call fails.
+   */
+  private async rate(userId: string, model: string, text: string): Promise<SentimentAnalysisOutput> {
+    // Any other model is the free fallback swapped in by the 'downgrade' policy, served by OpenRouter
+    const provider = model === SENTIMENT_MODEL ? mistralService : openRouterService;
+    const rated = await this.sentimentBrain.execute(provider, model, text);
+    if (rated.failed) {
+      throw new Error('Sentiment analysis failed');
+    }
+
+    const inputTokens = Math.ceil(text.length / 4);
+    const outputTokens = Math.ceil(JSON.stringify(rated).length / 4);
+    await llmCostTracker.trackUsage(userId, model, inputTokens, outputTokens, 'sentiment');
+    return rated;
+  }
+
+  private async updateContactTrend(
+    userId: string,
+    contactId: string,
+    now: Date
+  ): Promise<{ updated: boolean; dropSuggested: boolean }> {
+    const contact = await storage.contacts.getById(contactId);
+    if (contact?.userId !== userId) return { updated: false, dropSuggested: false };
+
+    const scores = await storage.sentiment.getByContactId(
+      contactId,
+      new Date(now.getTime() - TREND_WINDOW_DAYS * DAY_MS)
+    );
+    const trend = computeSentimentTrend(scores, now);
+    if (trend) {
+      await storage.contacts.update(contactId, {
+        sentiment: trend.sentiment,
+        engagementTrend: trend.engagementTrend,
+      });
+    }
+
+    const drop = contact.lifecycleStage === 'core_client' ? sentimentDrop(scores) : null;
+    const dropSuggested = drop ? await this.suggestCheckIn(userId, contact, drop) : false;
+    return { updated: trend !== null, dropSuggested };
+  }
+
+  /**
+   * Suggests a check-in task for a core client whose sentiment dropped. Skipped while an earlier
+   * suggestion for the contact is still pending.
+   */
+  private async suggestCheckIn(
+    userId: string,
+    contact: Contact,
+    drop: { before: number; after: number }
+  ): Promise<boolean> {
+    const pending = await storage.ai.getSuggestionsByUserId(userId, 'pending');
+    const alreadySuggested = pending.some(
+      (suggestion) =>
+        suggestion.type === SENTIMENT_DROP_SUGGESTION &&
+        (suggestion.sourceData as { contactId?: unknown } | null)?.contactId === contact.id
+    );
+    if (alreadySuggested) return false;
+
+    const before = drop.before.toFixed(1);
+    const after = drop.after.toFixed(1);
+    const action: BulkAction = {
+      type: 'bulk_task_create',
+      contactIds: [contact.id],
+      tasks: [
+        {
+          title: `Check in with ${contact.name}`,
+          description: `Their recent messages average ${after}/5, down from ${before}/5.`,
+          priority: 'high',
+          dueDate: new Date(Date.now() + DAY_MS).toISOString(),
+          contactIds: [contact.id],
+        },
+      ],
+      metadata: { source: 'sentiment_trend' },
+    };
+
+    await storage.ai.createSuggestion({
+      userId,
+      type: SENTIMENT_DROP_SUGGESTION,
+      title: `${contact.name}'s sentiment dropped`,
+      description: `The last ${DROP_SAMPLE} messages from ${contact.name} average ${after}/5, down from ${before}/5. A personal check-in may help.`,
+      suggestedAction: action,
+      sourceData: { contactId: contact.id, before: drop.before, after: drop.after },
+      aiAnalysis: { reasoning: 'Sharp drop in the sentiment of a core client' },
+      priority: 'high',
+      status: 'pending',
+    });
+    return true;
+  }
+}
+
+export const sentimentTrendService = new SentimentTrendService();
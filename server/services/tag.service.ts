@@ -1,32 +1,99 @@
 import { storage } from '../data/index.js';
-import { type Tag, type InsertTag } from '../../shared/schema.js';
+import type { TagWithUsage } from '../data/tag.data.js';
+import type { CreateTagDto, UpdateTagDto } from '../schemas/tag.schemas.js';
+import { type Tag } from '../../shared/schema.js';
+
+export type TagResult =
+  | { success: true; tag: Tag }
+  | { success: false; error: string; status: number };
+
+const DEFAULT_TAG_COLOR = '#3b82f6';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
 
 export class TagService {
-  async getAllTags(): Promise<Tag[]> {
-    // Tag data methods are part of the contacts data module
-    return storage.contacts.getAllTags();
+  /**
+   * The user's tags with how many contacts and tasks use each of them.
+   */
+  async getTags(userId: string): Promise<TagWithUsage[]> {
+    return storage.tags.getWithUsage(userId);
   }
 
-  async createTag(tagData: InsertTag): Promise<Tag> {
+  async createTag(userId: string, tagData: CreateTagDto): Promise<TagResult> {
     // Business Rule: Ensure tag name is not empty
-    if (!tagData.name?.trim()) {
-      throw new Error('Tag name is required');
+    const name = tagData.name.trim();
+    if (!name) {
+      return { success: false, error: 'Tag name is required', status: 400 };
     }
 
-    try {
-      // Data Access: Call the namespaced data module
-      return await storage.contacts.createTag({
-        name: tagData.name.trim(),
-        color: tagData.color ?? '#3b82f6',
-      });
-    } catch (error: unknown) {
-      // Business Rule: Provide a user-friendly error for a known database constraint
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('duplicate') || errorMessage.includes('unique')) {
-        throw new Error('A tag with this name already exists');
-      }
-      throw error; // Re-throw other unexpected errors
+    // Business Rule: Tag names are unique per user, ignoring case
+    const existing = await storage.tags.getByUserId(userId);
+    if (existing.some((tag) => sameName(tag.name, name))) {
+      return { success: false, error: 'A tag with this name already exists', status: 409 };
     }
+
+    const tag = await storage.tags.create({ userId, name, color: tagData.color ?? DEFAULT_TAG_COLOR });
+    return { success: true, tag };
+  }
+
+  /**
+   * Rename or recolor a tag.
+   */
+  async updateTag(userId: string, tagId: string, updates: UpdateTagDto): Promise<TagResult> {
+    const tags = await storage.tags.getByUserId(userId);
+    if (!tags.some((tag) => tag.id === tagId)) {
+      return { success: false, error: 'Tag not found', status: 404 };
+    }
+
+    const name = updates.name?.trim();
+    if (name !== undefined && !name) {
+      return { success: false, error: 'Tag name is required', status: 400 };
+    }
+    if (name && tags.some((tag) => tag.id !== tagId && sameName(tag.name, name))) {
+      return { success: false, error: 'A tag with this name already exists', status: 409 };
+    }
+
+    const tag = await storage.tags.update(tagId, {
+      ...(name ? { name } : {}),
+      ...(updates.color ? { color: updates.color } : {}),
+    });
+    return { success: true, tag };
+  }
+
+  /**
+   * Delete a tag; it is removed from every contact and task that has it.
+   */
+  async deleteTag(userId: string, tagId: string): Promise<boolean> {
+    const tag = await storage.tags.getById(tagId);
+    if (tag?.userId !== userId) return false;
+    return storage.tags.delete(tagId);
+  }
+
+  /**
+   * Merge the source tag into the target: contacts and tasks tagged with the source get the
+   * target instead, and the source tag is deleted.
+   */
+  async mergeTags(userId: string, sourceId: string, targetId: string): Promise<TagResult> {
+    if (sourceId === targetId) {
+      return { success: false, error: 'A tag cannot be merged into itself', status: 400 };
+    }
+
+    const [source, target] = await Promise.all([storage.tags.getById(sourceId), storage.tags.getById(targetId)]);
+    if (source?.userId !== userId || target?.userId !== userId) {
+      return { success: false, error: 'Tag not found', status: 404 };
+    }
+
+    await storage.tags.merge(sourceId, targetId);
+    return { success: true, tag: target };
+  }
+
+  /**
+   * The user's tags with the given IDs; IDs of other users' tags are dropped.
+   */
+  async getOwnedTagIds(userId: string, tagIds: string[]): Promise<string[]> {
+    if (tagIds.length === 0) return [];
+    const owned = new Set((await storage.tags.getByUserId(userId)).map((tag) => tag.id));
+    return [...new Set(tagIds)].filter((tagId) => owned.has(tagId));
   }
 }
 
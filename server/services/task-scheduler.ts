@@ -1,12 +1,14 @@
 import cron from 'node-cron';
 import { storage } from '../data/index.js';
-import { taskAI } from '../brains/task-ai.js';
-
-import fs from 'fs/promises';
-import path from 'path';
+import { attendanceSheetService } from './attendance-sheet.service.js';
+import { sentimentTrendService } from './sentiment-trend.service.js';
+import { lifecycleRuleService } from './lifecycle-rule.service.js';
+import { taskService } from './task.service.js';
 
 export class TaskScheduler {
   private isRunning = false;
+  // Sentiment runs still held back by a 'queue' budget policy, so a later run does not repeat them
+  private pendingSentimentRuns = new Map<string, Promise<void>>();
 
   start(): void {
     if (this.isRunning) return;
@@ -60,8 +62,15 @@ export class TaskScheduler {
           // Analyze recent email patterns for task suggestions
           await this.analyzeEmailPatternsForTasks(user.id);
 
+          // Create the next instance of recurring tasks whose date has passed
+          await this.generateRecurringTasks(user.id);
+
           // Review incomplete tasks and suggest next steps
           await this.reviewIncompleteTasks(user.id);
+
+          // Rate new messages, then move contacts between lifecycle stages using the new trends.
+          // Not awaited: an over-budget user may be held until their budget resets
+          void this.refreshSentimentAndLifecycle(user.id);
         } catch (error) {
           console.error(`Daily analysis failed for user ${user.email}:`, error);
         }
@@ -81,6 +90,9 @@ export class TaskScheduler {
       const users = await this.getAllActiveUsers();
 
       for (const user of users) {
+        // Poll the watched attendance folder; sheets already processed are skipped
+        await this.checkForNewAttendanceSheets(user.id);
+
         // Quick check for new files or data that need processing
         await this.quickDataCheck(user.id);
       }
@@ -123,40 +135,80 @@ export class TaskScheduler {
   }
 
   /**
-   * Check for new attendance sheets in Google Drive
+   * Check the user's watched attendance folder for new sheets
    */
   private async checkForNewAttendanceSheets(userId: string): Promise<void> {
     try {
-      // This would integrate with Google Drive API to check for new CSV files
-      // For now, we'll simulate checking a monitored folder
-
-      const monitoredFolder = `/uploads/attendance/${userId}`;
+      const processed = await attendanceSheetService.checkForNewSheets(userId);
+      if (processed > 0) {
+        console.log(`Processed ${processed} new attendance sheets for user ${userId}`);
+      }
+    } catch (error) {
+      console.error(`Error checking attendance sheets for user ${userId}:`, error);
+    }
+  }
 
-      try {
-        const files = await fs.readdir(monitoredFolder);
-        const csvFiles = files.filter(
-          (file) => file.endsWith('.csv') && file.includes('attendance')
-        );
+  /**
+   * Keep recurring series going when an instance was not completed before its date
+   */
+  private async generateRecurringTasks(userId: string): Promise<void> {
+    try {
+      const created = await taskService.generateDueOccurrences(userId);
+      if (created > 0) {
+        console.log(`Created ${created} recurring task instances for user ${userId}`);
+      }
+    } catch (error) {
+      console.error(`Error generating recurring tasks for user ${userId}:`, error);
+    }
+  }
 
-        for (const csvFile of csvFiles) {
-          const filePath = path.join(monitoredFolder, csvFile);
-          const stats = await fs.stat(filePath);
+  /**
+   * Update sentiment trends, deferring over-budget ratings, then apply lifecycle rules
+   */
+  private refreshSentimentAndLifecycle(userId: string): Promise<void> {
+    const pending = this.pendingSentimentRuns.get(userId);
+    if (pending) return pending;
+
+    const run = this.updateSentimentTrends(userId, true)
+      .then(() => this.applyLifecycleRules(userId))
+      .finally(() => this.pendingSentimentRuns.delete(userId));
+    this.pendingSentimentRuns.set(userId, run);
+    return run;
+  }
 
-          // Check if file is new (created in last 24 hours)
-          const isNewFile = Date.now() - stats.mtime.getTime() < 24 * 60 * 60 * 1000;
+  /**
+   * Rate new interactions and emails and recompute the engagement trend of the contacts involved
+   */
+  private async updateSentimentTrends(userId: string, deferOverBudget = false): Promise<void> {
+    try {
+      const summary = await sentimentTrendService.updateSentimentTrends(
+        userId,
+        new Date(),
+        deferOverBudget
+      );
+      if (summary.scored > 0) {
+        console.log(
+          `Rated ${summary.scored} messages and updated ${summary.contactsUpdated} contact trends for user ${userId}`
+        );
+      }
+    } catch (error) {
+      console.error(`Error updating sentiment trends for user ${userId}:`, error);
+    }
+  }
 
-          if (isNewFile) {
-            console.log(`Processing new attendance file: ${csvFile}`);
-            const csvData = await fs.readFile(filePath, 'utf-8');
-            await taskAI.processAttendanceCSV(userId, csvData, csvFile);
-          }
-        }
-      } catch {
-        // Folder doesn't exist or no files, which is fine
-        console.log(`No attendance folder found for user ${userId}`);
+  /**
+   * Apply the user's lifecycle rules, suggesting or making stage changes
+   */
+  private async applyLifecycleRules(userId: string): Promise<void> {
+    try {
+      const summary = await lifecycleRuleService.applyRules(userId);
+      if (summary.suggested + summary.applied > 0) {
+        console.log(
+          `Lifecycle rules suggested ${summary.suggested} and applied ${summary.applied} stage changes for user ${userId}`
+        );
       }
     } catch (error) {
-      console.error(`Error checking attendance sheets for user ${userId}:`, error);
+      console.error(`Error applying lifecycle rules for user ${userId}:`, error);
     }
   }
 
@@ -353,7 +405,10 @@ export class TaskScheduler {
       await this.checkForNewAttendanceSheets(userId);
       await this.checkForPhotoEnrichmentOpportunities(userId);
       await this.analyzeEmailPatternsForTasks(userId);
+      await this.generateRecurringTasks(userId);
       await this.reviewIncompleteTasks(userId);
+      await this.updateSentimentTrends(userId);
+      await this.applyLifecycleRules(userId);
 
       console.log(`Immediate analysis completed for user ${userId}`);
     } catch (error) {
@@ -0,0 +1,127 @@
+import { addDays } from 'date-fns';
+import { z } from 'zod';
+import { storage } from '../data/index.js';
+import type { TaskTreeNode } from '../data/task.data.js';
+import {
+  templateSubtaskSchema,
+  type CreateTaskTemplateDto,
+  type InstantiateTaskTemplateDto,
+  type TemplateSubtask,
+  type UpdateTaskTemplateDto,
+} from '../schemas/task-template.schemas.js';
+import { type Task, type TaskTemplate } from '../../shared/schema.js';
+
+export type InstantiateTemplateResult =
+  | { success: true; task: Task }
+  | { success: false; error: string; status: number };
+
+/**
+ * Stored subtasks are JSON; a template whose subtasks no longer validate creates the task alone.
+ */
+export function parseTemplateSubtasks(template: Pick<TaskTemplate, 'subtasks'>): TemplateSubtask[] {
+  const result = z.array(templateSubtaskSchema).safeParse(template.subtasks);
+  return result.success ? result.data : [];
+}
+
+const toTaskTree = (
+  subtasks: TemplateSubtask[],
+  shared: Pick<TaskTreeNode, 'projectId' | 'assignedContactIds'>,
+  now: Date
+): TaskTreeNode[] =>
+  subtasks.map((subtask) => ({
+    ...shared,
+    title: subtask.title,
+    description: subtask.description,
+    estimatedMinutes: subtask.estimatedMinutes,
+    dueDate: subtask.dueInDays !== undefined ? addDays(now, subtask.dueInDays) : undefined,
+    subtasks: toTaskTree(subtask.subtasks ?? [], shared, now),
+  }));
+
+export class TaskTemplateService {
+  async getTemplates(userId: string): Promise<TaskTemplate[]> {
+    return storage.taskTemplates.getByUserId(userId);
+  }
+
+  async createTemplate(userId: string, data: CreateTaskTemplateDto): Promise<TaskTemplate> {
+    return storage.taskTemplates.create({ ...data, userId });
+  }
+
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    updates: UpdateTaskTemplateDto
+  ): Promise<TaskTemplate | undefined> {
+    const template = await storage.taskTemplates.getById(templateId);
+    if (template?.userId !== userId) return undefined;
+    return storage.taskTemplates.update(templateId, updates);
+  }
+
+  async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    const template = await storage.taskTemplates.getById(templateId);
+    if (template?.userId !== userId) return false;
+    return storage.taskTemplates.delete(templateId);
+  }
+
+  /**
+   * Create a task and its subtask tree from a template, optionally for one of the user's
+   * contacts and in one of their projects. Due dates count from today unless one is given.
+   */
+  async instantiateTemplate(
+    userId: string,
+    templateId: string,
+    options: InstantiateTaskTemplateDto,
+    now = new Date()
+  ): Promise<InstantiateTemplateResult> {
+    const template = await storage.taskTemplates.getById(templateId);
+    if (template?.userId !== userId) {
+      return { success: false, error: 'Template not found', status: 404 };
+    }
+
+    const contact = options.contactId ? await storage.contacts.getById(options.contactId) : undefined;
+    if (options.contactId && contact?.userId !== userId) {
+      return { success: false, error: 'Contact not found', status: 404 };
+    }
+
+    if (options.projectId) {
+      const projects = await storage.tasks.getProjectsByUserId(userId);
+      if (!projects.some((project) => project.id === options.projectId)) {
+        return { success: false, error: 'Project not found', status: 404 };
+      }
+    }
+
+    const shared = {
+      projectId: options.projectId,
+      assignedContactIds: contact ? [contact.id] : [],
+    };
+    const dueDate = options.dueDate
+      ? new Date(options.dueDate)
+      : template.dueInDays !== null
+        ? addDays(now, template.dueInDays)
+        : undefined;
+
+    const task = await storage.tasks.createTaskTree({
+      ...shared,
+      userId,
+      title: options.title ?? (contact ? `${template.name}: ${contact.name}` : template.name),
+      description: template.description,
+      priority: template.priority,
+      estimatedMinutes: template.estimatedMinutes,
+      recurrenceRule: template.recurrenceRule,
+      dueDate,
+      subtasks: toTaskTree(parseTemplateSubtasks(template), shared, now),
+    });
+
+    await storage.tasks.createTaskActivity({
+      taskId: task.id,
+      actorType: 'user',
+      actorId: userId,
+      actionType: 'created',
+      description: `Task created from template "${template.name}"`,
+      metadata: { templateId: template.id, contactId: contact?.id },
+    });
+
+    return { success: true, task };
+  }
+}
+
+export const taskTemplateService = new TaskTemplateService();
@@ -0,0 +1,235 @@
+import { storage } from '../data/index.js';
+import type { TrackedTaskTime } from '../data/task-time.data.js';
+import { diffTaskFields } from '../utils/task-changes.js';
+import type { CreateTimeEntryDto, TimeReportQueryDto } from '../schemas/task-time.schemas.js';
+import type { Task, TaskTimeEntry } from '../../shared/schema.js';
+
+export type TimeEntryResult =
+  | { success: true; entry: TaskTimeEntry }
+  | { success: false; error: string; status: number };
+
+// Time on a project or contact; estimates are compared only with tasks that have one
+export interface TimeReportRow {
+  id: string | null; // null for tasks without a project
+  name: string;
+  taskCount: number;
+  trackedMinutes: number;
+  estimatedMinutes: number;
+  actualMinutes: number; // Tracked time of the tasks that have an estimate
+  estimateRatio: number | null; // actual / estimated, e.g. 1.25 when tasks take a quarter longer
+}
+
+export interface TimeReport {
+  totals: Omit<TimeReportRow, 'id' | 'name'>;
+  byProject: TimeReportRow[];
+  byContact: TimeReportRow[];
+}
+
+type Totals = TimeReport['totals'];
+
+const emptyTotals = (): Totals => ({
+  taskCount: 0,
+  trackedMinutes: 0,
+  estimatedMinutes: 0,
+  actualMinutes: 0,
+  estimateRatio: null,
+});
+
+// Add a task's time, or its share of it, to a row
+const addTime = (totals: Totals, task: TrackedTaskTime, share = 1): void => {
+  totals.taskCount++;
+  totals.trackedMinutes += task.trackedMinutes * share;
+  if (task.estimatedMinutes) {
+    totals.estimatedMinutes += task.estimatedMinutes * share;
+    totals.actualMinutes += task.trackedMinutes * share;
+  }
+};
+
+const finish = <T extends Totals>(totals: T): T => ({
+  ...totals,
+  trackedMinutes: Math.round(totals.trackedMinutes),
+  estimatedMinutes: Math.round(totals.estimatedMinutes),
+  actualMinutes: Math.round(totals.actualMinutes),
+  estimateRatio:
+    totals.estimatedMinutes > 0
+      ? Math.round((totals.actualMinutes / totals.estimatedMinutes) * 100) / 100
+      : null,
+});
+
+// A stopped timer counts at least one minute
+const timerMinutes = (entry: TaskTimeEntry, endedAt: Date) =>
+  Math.max(1, Math.round((endedAt.getTime() - entry.startedAt.getTime()) / 60000));
+
+export class TaskTimeService {
+  async getEntries(userId: string, taskId: string): Promise<TaskTimeEntry[] | undefined> {
+    const task = await storage.tasks.findTaskById(taskId);
+    if (task?.userId !== userId) return undefined;
+    return storage.taskTime.getByTaskId(taskId);
+  }
+
+  async getRunningTimer(userId: string): Promise<TaskTimeEntry | undefined> {
+    return storage.taskTime.getRunning(userId);
+  }
+
+  /**
+   * Start a timer on one of the user's tasks. Only one timer runs at a time, so a timer running
+   * on another task is stopped and its time logged first.
+   */
+  async startTimer(userId: string, taskId: string, now = new Date()): Promise<TimeEntryResult> {
+    const task = await storage.tasks.findTaskById(taskId);
+    if (task?.userId !== userId) {
+      return { success: false, error: 'Task not found', status: 404 };
+    }
+
+    const running = await storage.taskTime.getRunning(userId);
+    if (running?.taskId === taskId) {
+      return { success: false, error: 'A timer is already running for this task', status: 409 };
+    }
+    if (running) {
+      await this.finishTimer(userId, running, now);
+    }
+
+    const entry = await storage.taskTime.startTimer({
+      taskId,
+      userId,
+      source: 'timer',
+      startedAt: now,
+    });
+    if (!entry) {
+      return { success: false, error: 'A timer is already running', status: 409 };
+    }
+    return { success: true, entry };
+  }
+
+  /**
+   * Stop the user's running timer and add its minutes to the task's actual time.
+   */
+  async stopTimer(userId: string, now = new Date()): Promise<TimeEntryResult> {
+    const running = await storage.taskTime.getRunning(userId);
+    const entry = running ? await this.finishTimer(userId, running, now) : undefined;
+    if (!entry) {
+      return { success: false, error: 'No timer is running', status: 404 };
+    }
+    return { success: true, entry };
+  }
+
+  async addManualEntry(
+    userId: string,
+    data: CreateTimeEntryDto,
+    now = new Date()
+  ): Promise<TimeEntryResult> {
+    const task = await storage.tasks.findTaskById(data.taskId);
+    if (task?.userId !== userId) {
+      return { success: false, error: 'Task not found', status: 404 };
+    }
+
+    const startedAt = data.startedAt ? new Date(data.startedAt) : now;
+    const result = await storage.taskTime.create({
+      taskId: data.taskId,
+      userId,
+      source: 'manual',
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + data.minutes * 60000),
+      minutes: data.minutes,
+      note: data.note,
+    });
+    await this.logTime(userId, result.task, data.minutes, `Logged ${data.minutes}m by hand`);
+    return { success: true, entry: result.entry };
+  }
+
+  async deleteEntry(userId: string, entryId: string): Promise<boolean> {
+    const entry = await storage.taskTime.getById(entryId);
+    if (entry?.userId !== userId) return false;
+
+    const result = await storage.taskTime.delete(entryId);
+    if (!result) return false;
+    if (result.entry.minutes) {
+      const { minutes } = result.entry;
+      await this.logTime(userId, result.task, -minutes, `Removed ${minutes}m of logged time`);
+    }
+    return true;
+  }
+
+  /**
+   * Estimated vs tracked time per project and per contact. A task's time is split evenly between
+   * its contacts, so each client's share of admin time adds up to the total.
+   */
+  async getEstimateReport(userId: string, range: TimeReportQueryDto = {}): Promise<TimeReport> {
+    const [tracked, projects, contacts] = await Promise.all([
+      storage.taskTime.getTrackedTimeByTask(userId, range.from, range.to),
+      storage.tasks.getProjectsByUserId(userId),
+      storage.contacts.getByUserId(userId),
+    ]);
+    const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+    const contactNames = new Map(contacts.map((contact) => [contact.id, contact.name]));
+
+    const totals = emptyTotals();
+    const byProject = new Map<string | null, TimeReportRow>();
+    const byContact = new Map<string, TimeReportRow>();
+    const rowFor = <K extends string | null>(rows: Map<K, TimeReportRow>, id: K, name: string) => {
+      const row = rows.get(id) ?? { id, name, ...emptyTotals() };
+      rows.set(id, row);
+      return row;
+    };
+
+    for (const task of tracked) {
+      addTime(totals, task);
+
+      const projectName = task.projectId
+        ? (projectNames.get(task.projectId) ?? 'Archived project')
+        : 'No project';
+      addTime(rowFor(byProject, task.projectId, projectName), task);
+
+      const contactIds = Array.isArray(task.assignedContactIds)
+        ? (task.assignedContactIds as string[]).filter((id) => contactNames.has(id))
+        : [];
+      for (const contactId of contactIds) {
+        const row = rowFor(byContact, contactId, contactNames.get(contactId) ?? '');
+        addTime(row, task, 1 / contactIds.length);
+      }
+    }
+
+    const sorted = (rows: Iterable<TimeReportRow>) =>
+      [...rows].map(finish).sort((a, b) => b.trackedMinutes - a.trackedMinutes);
+
+    return {
+      totals: finish(totals),
+      byProject: sorted(byProject.values()),
+      byContact: sorted(byContact.values()),
+    };
+  }
+
+  private async finishTimer(
+    userId: string,
+    running: TaskTimeEntry,
+    now: Date
+  ): Promise<TaskTimeEntry | undefined> {
+    const minutes = timerMinutes(running, now);
+    const result = await storage.taskTime.stopTimer(running.id, now, minutes);
+    if (!result) return undefined;
+    await this.logTime(userId, result.task, minutes, `Logged ${minutes}m with the timer`);
+    return result.entry;
+  }
+
+  // Record the change to the task's actual time in its activity history
+  private async logTime(
+    userId: string,
+    task: Task,
+    addedMinutes: number,
+    description: string
+  ): Promise<void> {
+    const actualMinutes = task.actualMinutes ?? 0;
+    await storage.tasks.createTaskActivity({
+      taskId: task.id,
+      actorType: 'user',
+      actorId: userId,
+      actionType: addedMinutes >= 0 ? 'time_logged' : 'time_removed',
+      description,
+      metadata: {
+        changes: diffTaskFields({ actualMinutes: actualMinutes - addedMinutes }, { actualMinutes }),
+      },
+    });
+  }
+}
+
+export const taskTimeService = new TaskTimeService();
@@ -1,17 +1,53 @@
+import { startOfDay } from 'date-fns';
 import { storage } from '../data/index.js';
+import type { TaskPlacement, TaskTreeNode } from '../data/task.data.js';
 import { taskAI } from '../brains/task-ai.js';
-import { type Task, type InsertTask, type TaskActivity } from '../../shared/schema.js';
+import { tagService } from './tag.service.js';
+import { nextOccurrence, parseRecurrenceRule } from '../utils/recurrence.js';
+import { diffTagIds, diffTaskFields, type TaskChanges } from '../utils/task-changes.js';
+import type { ReorderTasksDto } from '../schemas/task.schemas.js';
+import {
+  type Task,
+  type InsertTask,
+  type InsertTaskActivity,
+  type TaskActivity,
+  type Tag,
+} from '../../shared/schema.js';
 
 type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'waiting_approval';
 type TaskOwner = 'user' | 'ai_assistant';
 
+export type TaskWithTags = Task & { tags: Tag[] };
+
+export type ReorderTasksResult =
+  | { success: true; tasks: Task[] }
+  | { success: false; error: string; status: number };
+
+// Subtasks copied into the next instance of a recurring task
+const MAX_COPIED_SUBTASK_DEPTH = 5;
+
+const shiftDate = (date: Date | null, ms: number) => (date ? new Date(date.getTime() + ms) : undefined);
+
+// The parts of a task that carry over to the next instance of its series
+const copyTaskFields = (task: Task, shiftMs: number): TaskTreeNode => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  owner: task.owner,
+  projectId: task.projectId,
+  estimatedMinutes: task.estimatedMinutes,
+  assignedContactIds: Array.isArray(task.assignedContactIds) ? (task.assignedContactIds as string[]) : [],
+  orderIndex: task.orderIndex,
+  dueDate: shiftDate(task.dueDate, shiftMs),
+});
+
 export class TaskService {
-  async getTasks(userId: string, statuses?: string[]): Promise<Task[]> {
-    return storage.tasks.getTasksByUserId(userId, statuses);
+  async getTasks(userId: string, statuses?: string[]): Promise<TaskWithTags[]> {
+    return this.withTags(await storage.tasks.getTasksByUserId(userId, statuses));
   }
 
-  async getTasksByProjectId(projectId: string): Promise<Task[]> {
-    return storage.tasks.getTasksByProjectId(projectId);
+  async getTasksByProjectId(projectId: string): Promise<TaskWithTags[]> {
+    return this.withTags(await storage.tasks.getTasksByProjectId(projectId));
   }
 
   // NOTE: This now requires a new method in `task.data.ts` to filter by status AND owner.
@@ -28,20 +64,36 @@ export class TaskService {
 
   async getTaskDetails(
     taskId: string
-  ): Promise<(Task & { subtasks: Task[]; activities: TaskActivity[] }) | undefined> {
+  ): Promise<(TaskWithTags & { subtasks: Task[]; activities: TaskActivity[] }) | undefined> {
     const task = await storage.tasks.findTaskById(taskId);
     if (!task) return undefined;
 
-    const [subtasks, activities] = await Promise.all([
+    const [subtasks, activities, tagsByTask] = await Promise.all([
       storage.tasks.getSubtasks(taskId),
       storage.tasks.getTaskActivities(taskId),
+      storage.tags.getForTasks([taskId]),
     ]);
 
-    return { ...task, subtasks, activities };
+    return { ...task, tags: tagsByTask.get(taskId) ?? [], subtasks, activities };
   }
 
-  async createTask(userId: string, taskData: Omit<InsertTask, 'userId'>): Promise<Task> {
+  /**
+   * The history of one of the user's tasks, newest first; undefined when the task is not theirs.
+   */
+  async getTaskActivity(userId: string, taskId: string): Promise<TaskActivity[] | undefined> {
+    const task = await storage.tasks.findTaskById(taskId);
+    if (task?.userId !== userId) return undefined;
+    return storage.tasks.getTaskActivities(taskId);
+  }
+
+  /**
+   * Create a task; tagIds are the user's tags, shared with contacts.
+   */
+  async createTask(userId: string, taskData: Omit<InsertTask, 'userId'>, tagIds?: string[]): Promise<Task> {
     const task = await storage.tasks.createTask({ ...taskData, userId });
+    if (tagIds?.length) {
+      await storage.tags.setTaskTags(task.id, await tagService.getOwnedTagIds(userId, tagIds));
+    }
 
     await storage.tasks.createTaskActivity({
       taskId: task.id,
@@ -49,37 +101,232 @@ export class TaskService {
       actorId: userId,
       actionType: 'created',
       description: `Task created: ${task.title}`,
-      metadata: { priority: task.priority, owner: task.owner },
+      metadata: { changes: { ...diffTaskFields(undefined, task), ...diffTagIds([], tagIds ?? []) } },
     });
 
     return task;
   }
 
-  async updateTask(userId: string, taskId: string, updates: Partial<InsertTask>): Promise<Task> {
+  /**
+   * Update one of the user's tasks; when tagIds is given it replaces the task's tags. Returns
+   * undefined when the task is not theirs. A status change is logged apart from other edits,
+   * each activity with the fields it changed.
+   */
+  async updateTask(
+    userId: string,
+    taskId: string,
+    updates: Partial<InsertTask>,
+    tagIds?: string[]
+  ): Promise<Task | undefined> {
+    const before = await storage.tasks.findTaskById(taskId);
+    if (before?.userId !== userId) return undefined;
+
     const task = await storage.tasks.updateTask(taskId, updates);
+    let changes: TaskChanges = diffTaskFields(before, updates);
+    if (tagIds) {
+      const previousTags = (await storage.tags.getForTasks([taskId])).get(taskId) ?? [];
+      const ownedTagIds = await tagService.getOwnedTagIds(userId, tagIds);
+      await storage.tags.setTaskTags(taskId, ownedTagIds);
+      changes = { ...changes, ...diffTagIds(previousTags.map((tag) => tag.id), ownedTagIds) };
+    }
 
-    const activityDescription = Object.keys(updates)
-      .map((key) => {
-        const value = updates[key as keyof typeof updates];
-        if (key === 'status') return `Status changed to ${String(value)}`;
-        if (key === 'priority') return `Priority changed to ${String(value)}`;
-        if (key === 'completedAt' && value) return 'Task completed';
-        return `${key} updated`;
-      })
-      .join(', ');
+    if (changes.status) {
+      const { status, completedAt, ...otherChanges } = changes;
+      await storage.tasks.createTaskActivity({
+        taskId,
+        actorType: 'user',
+        actorId: userId,
+        actionType: 'status_changed',
+        description: `Status changed from ${String(status.from)} to ${String(status.to)}`,
+        metadata: { changes: { status, ...(completedAt && { completedAt }) } },
+      });
+      changes = otherChanges;
+
+      if (status.to === 'completed' && task.recurrenceRule) {
+        await this.createNextOccurrence(task, { type: 'user', id: userId });
+      }
+    }
+
+    const changedFields = Object.keys(changes);
+    if (changedFields.length > 0) {
+      await storage.tasks.createTaskActivity({
+        taskId,
+        actorType: 'user',
+        actorId: userId,
+        actionType: 'updated',
+        description: `Updated ${changedFields.join(', ')}`,
+        metadata: { changes },
+      });
+    }
+
+    return task;
+  }
+
+  /**
+   * Approve or reject one of the user's tasks. Approving a task that waits for approval makes it
+   * pending; rejecting cancels it. Returns undefined when the task is not theirs.
+   */
+  async reviewTask(
+    userId: string,
+    taskId: string,
+    review: { approved: boolean; reason?: string },
+    now = new Date()
+  ): Promise<Task | undefined> {
+    const before = await storage.tasks.findTaskById(taskId);
+    if (before?.userId !== userId) return undefined;
+
+    const updates: Partial<InsertTask> = review.approved
+      ? {
+          requiresApproval: false,
+          approvedAt: now,
+          rejectedAt: null,
+          rejectionReason: null,
+          status: before.status === 'waiting_approval' ? 'pending' : undefined,
+        }
+      : {
+          requiresApproval: false,
+          approvedAt: null,
+          rejectedAt: now,
+          rejectionReason: review.reason ?? null,
+          status: 'cancelled',
+        };
+    const task = await storage.tasks.updateTask(taskId, updates);
 
     await storage.tasks.createTaskActivity({
-      taskId: task.id,
+      taskId,
       actorType: 'user',
       actorId: userId,
-      actionType: 'updated',
-      description: activityDescription,
-      metadata: updates,
+      actionType: review.approved ? 'approved' : 'rejected',
+      description: review.approved
+        ? 'Task approved'
+        : `Task rejected${review.reason ? `: ${review.reason}` : ''}`,
+      metadata: { changes: diffTaskFields(before, updates) },
     });
 
     return task;
   }
 
+  /**
+   * Persist cards moved on the task board. Every status change is logged as an activity, and
+   * completing a recurring task creates its next instance as it does from the task list.
+   */
+  async reorderTasks(
+    userId: string,
+    placements: ReorderTasksDto['tasks'],
+    now = new Date()
+  ): Promise<ReorderTasksResult> {
+    const current = new Map(
+      (await storage.tasks.getTasksByIds(userId, placements.map((placement) => placement.id))).map(
+        (task) => [task.id, task]
+      )
+    );
+    if (current.size !== placements.length) {
+      return { success: false, error: 'Task not found', status: 404 };
+    }
+
+    const projectIds = placements.flatMap((placement) => (placement.projectId ? [placement.projectId] : []));
+    if (projectIds.length > 0) {
+      const owned = new Set((await storage.tasks.getProjectsByUserId(userId)).map((project) => project.id));
+      if (!projectIds.every((projectId) => owned.has(projectId))) {
+        return { success: false, error: 'Project not found', status: 404 };
+      }
+    }
+
+    const activities: InsertTaskActivity[] = [];
+    const updates: TaskPlacement[] = placements.map((placement) => {
+      const task = current.get(placement.id) as Task;
+      if (!placement.status || placement.status === task.status) {
+        return { ...placement, status: undefined };
+      }
+
+      const completedAt =
+        placement.status === 'completed' ? now : task.status === 'completed' ? null : undefined;
+      activities.push({
+        taskId: task.id,
+        actorType: 'user',
+        actorId: userId,
+        actionType: 'status_changed',
+        description: `Status changed from ${task.status ?? 'pending'} to ${placement.status} on the board`,
+        metadata: { changes: diffTaskFields(task, { status: placement.status, completedAt }), source: 'board' },
+      });
+      return { ...placement, completedAt };
+    });
+
+    const tasks = await storage.tasks.reorderTasks(userId, updates, activities);
+
+    for (const task of tasks) {
+      if (task.recurrenceRule && task.status === 'completed' && current.get(task.id)?.status !== 'completed') {
+        await this.createNextOccurrence(task, { type: 'user', id: userId }, now);
+      }
+    }
+
+    return { success: true, tasks };
+  }
+
+  /**
+   * Create the next instance of a recurring task, with copies of its subtasks and tags, due on
+   * the rule's next date that is not already past. Returns undefined when the series has ended
+   * or the next instance already exists; a series that has ended is marked on its last task.
+   */
+  async createNextOccurrence(
+    task: Task,
+    actor: { type: 'user' | 'system'; id?: string },
+    now = new Date()
+  ): Promise<Task | undefined> {
+    const rule = parseRecurrenceRule(task.recurrenceRule);
+    if (!rule || task.nextOccurrenceCreatedAt) return undefined;
+
+    const seriesId = task.recurrenceSeriesId ?? task.id;
+    if (rule.count && (await storage.tasks.countRecurrenceSeries(seriesId)) >= rule.count) {
+      return this.endRecurrenceSeries(task, now);
+    }
+
+    const anchor = task.dueDate ?? task.createdAt;
+    const dueDate = nextOccurrence(rule, anchor, startOfDay(now));
+    if (!dueDate) return this.endRecurrenceSeries(task, now);
+
+    const shiftMs = dueDate.getTime() - anchor.getTime();
+    const next = await storage.tasks.createNextOccurrence(task.id, {
+      ...copyTaskFields(task, shiftMs),
+      userId: task.userId,
+      parentTaskId: task.parentTaskId,
+      dueDate,
+      recurrenceRule: task.recurrenceRule,
+      recurrenceSeriesId: seriesId,
+      subtasks: await this.copySubtasks(task.id, shiftMs),
+    });
+    if (!next) return undefined;
+
+    const tags = (await storage.tags.getForTasks([task.id])).get(task.id) ?? [];
+    if (tags.length > 0) {
+      await storage.tags.setTaskTags(next.id, tags.map((tag) => tag.id));
+    }
+
+    await storage.tasks.createTaskActivity({
+      taskId: next.id,
+      actorType: actor.type,
+      actorId: actor.id,
+      actionType: 'created',
+      description: `Next occurrence of recurring task: ${next.title}`,
+      metadata: { previousTaskId: task.id, recurrenceRule: task.recurrenceRule },
+    });
+
+    return next;
+  }
+
+  /**
+   * Create the next instance of every recurring task whose date has passed without one, so the
+   * series keeps going even when an instance is never completed. Run by the task scheduler.
+   */
+  async generateDueOccurrences(userId: string, now = new Date()): Promise<number> {
+    const dueTasks = await storage.tasks.getRecurringTasksDue(userId, startOfDay(now));
+    let created = 0;
+    for (const task of dueTasks) {
+      if (await this.createNextOccurrence(task, { type: 'system' }, now)) created++;
+    }
+    return created;
+  }
+
   async deleteTask(taskId: string): Promise<boolean> {
     return storage.tasks.deleteTask(taskId);
   }
@@ -90,6 +337,7 @@ export class TaskService {
       title: string;
       description?: string;
       contactIds: string[];
+      groupIds?: string[];
       dueDate?: Date;
       projectId?: string;
       priority?: 'low' | 'medium' | 'high' | 'urgent';
@@ -176,6 +424,30 @@ export class TaskService {
         allTasks.length > 0 ? ((completedTasks.length / allTasks.length) * 100).toFixed(1) : '0',
     };
   }
+
+  // Marking the last task stops the scheduler from picking it up again; the rule stays for display
+  private async endRecurrenceSeries(task: Task, now: Date): Promise<undefined> {
+    await storage.tasks.updateTask(task.id, { nextOccurrenceCreatedAt: now });
+    return undefined;
+  }
+
+  private async copySubtasks(taskId: string, shiftMs: number, depth = 0): Promise<TaskTreeNode[]> {
+    if (depth >= MAX_COPIED_SUBTASK_DEPTH) return [];
+    const subtasks = await storage.tasks.getSubtasks(taskId);
+    return Promise.all(
+      subtasks
+        .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+        .map(async (subtask) => ({
+          ...copyTaskFields(subtask, shiftMs),
+          subtasks: await this.copySubtasks(subtask.id, shiftMs, depth + 1),
+        }))
+    );
+  }
+
+  private async withTags(tasks: Task[]): Promise<TaskWithTags[]> {
+    const tagsByTask = await storage.tags.getForTasks(tasks.map((task) => task.id));
+    return tasks.map((task) => ({ ...task, tags: tagsByTask.get(task.id) ?? [] }));
+  }
 }
 
 export const taskService = new TaskService();
@@ -0,0 +1,109 @@
+import { storage } from '../data/index.js';
+import type { TimelineRange, TimelineRow } from '../data/timeline.data.js';
+import {
+  TIMELINE_TYPES,
+  decodeTimelineCursor,
+  mergeTimelinePage,
+} from '../utils/timeline-cursor.js';
+import type { ContactTimelineQueryDto } from '../schemas/contact.schemas.js';
+import type { TimelineItem, TimelinePage } from '../types/service-contracts.js';
+import type { CalendarEvent, Email, Interaction, Task } from '../../shared/schema.js';
+
+const SUMMARY_LENGTH = 300;
+
+function truncate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH)}...` : text;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function fromInteraction(interaction: TimelineRow<Interaction>): TimelineItem {
+  return {
+    id: interaction.id,
+    type: 'interaction',
+    timestamp: interaction.timelineAt,
+    title: interaction.subject ?? interaction.type,
+    summary: truncate(interaction.content),
+    detail: interaction.type,
+  };
+}
+
+function fromEmail(email: TimelineRow<Email>): TimelineItem {
+  return {
+    id: email.id,
+    type: 'email',
+    timestamp: email.timelineAt,
+    title: email.subject ?? '(no subject)',
+    summary: truncate(email.snippet ?? email.bodyText),
+    detail: email.fromName ?? email.fromEmail,
+  };
+}
+
+function fromCalendarEvent(event: TimelineRow<CalendarEvent>): TimelineItem {
+  const extracted = (event.extractedData ?? {}) as Record<string, unknown>;
+  return {
+    id: event.id,
+    type: 'calendar_event',
+    timestamp: event.timelineAt,
+    title: event.summary ?? 'Calendar event',
+    summary: truncate(event.description),
+    detail: event.location ?? event.meetingType,
+    keyTopics: stringArray(extracted.keyTopics),
+    actionItems: stringArray(extracted.actionItems),
+  };
+}
+
+function fromTask(task: TimelineRow<Task>): TimelineItem {
+  return {
+    id: task.id,
+    type: 'task',
+    timestamp: task.timelineAt,
+    title: task.title,
+    summary: truncate(task.description),
+    detail: task.status,
+  };
+}
+
+export class TimelineService {
+  /**
+   * One page of everything that happened with a contact, newest first, merged from interactions,
+   * emails, calendar events and assigned tasks. Returns undefined if the contact does not belong
+   * to the user.
+   */
+  async getContactTimeline(
+    userId: string,
+    contactId: string,
+    query: ContactTimelineQueryDto
+  ): Promise<TimelinePage | undefined> {
+    const contact = await storage.contacts.getById(contactId);
+    if (contact?.userId !== userId) return undefined;
+
+    const cursor = query.cursor ? decodeTimelineCursor(query.cursor) : undefined;
+    const range: TimelineRange = { cursor, from: query.from, to: query.to, limit: query.limit };
+    const types = query.types ?? TIMELINE_TYPES;
+
+    const sources = await Promise.all([
+      types.includes('interaction')
+        ? storage.timeline.getInteractions(contactId, range).then((rows) => rows.map(fromInteraction))
+        : [],
+      types.includes('email')
+        ? storage.timeline.getEmails(userId, contactId, range).then((rows) => rows.map(fromEmail))
+        : [],
+      types.includes('calendar_event')
+        ? storage.timeline
+            .getCalendarEvents(userId, contactId, range)
+            .then((rows) => rows.map(fromCalendarEvent))
+        : [],
+      types.includes('task')
+        ? storage.timeline.getTasks(userId, contactId, range).then((rows) => rows.map(fromTask))
+        : [],
+    ]);
+
+    return mergeTimelinePage(sources, query.limit, cursor);
+  }
+}
+
+export const timelineService = new TimelineService();
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { storage } from '../data/index.js';
+import { aiService } from './ai.service.js';
+import {
+  createTranscriptionProvider,
+  type TranscriptionProvider,
+} from '../providers/transcription.provider.js';
+import { getErrorMessage, logError } from '../utils/error-handling.js';
+import type { VoiceNoteTaskDraft } from '../brains/voice-note.brain.js';
+import type { BulkAction } from '../types/service-contracts.js';
+import type { Contact, VoiceNote } from '../../shared/schema.js';
+
+export interface VoiceNoteUpload {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+// Kept outside uploads/, which is served statically; recordings are only sent through the API
+const uploadDir = path.resolve(process.env.VOICE_NOTES_DIR ?? 'storage/voice-notes');
+
+// Browsers record webm (Chrome, Firefox) or mp4 (Safari); the rest cover uploaded files
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+export const VOICE_NOTE_MIME_TYPES = Object.keys(AUDIO_EXTENSIONS);
+
+// "audio/webm;codecs=opus" is stored as "audio/webm"
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+function dueDateFrom(recordedAt: Date, task: VoiceNoteTaskDraft): string | undefined {
+  if (task.dueInDays === undefined) return undefined;
+  const dueDate = new Date(recordedAt);
+  dueDate.setDate(dueDate.getDate() + task.dueInDays);
+  return dueDate.toISOString();
+}
+
+export class VoiceNoteService {
+  constructor(private transcriber: TranscriptionProvider = createTranscriptionProvider()) {}
+
+  /**
+   * Store a recording for one of the user's contacts and start processing it in the
+   * background. Returns undefined if the contact does not belong to the user.
+   */
+  async upload(
+    userId: string,
+    contactId: string,
+    file: VoiceNoteUpload,
+    durationSeconds?: number
+  ): Promise<VoiceNote | undefined> {
+    const contact = await this.findOwnedContact(userId, contactId);
+    if (!contact) return undefined;
+
+    const mimeType = baseMimeType(file.mimetype);
+    const id = randomUUID();
+    const fileName = `${id}.${AUDIO_EXTENSIONS[mimeType] ?? 'webm'}`;
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+    await fs.promises.writeFile(path.join(uploadDir, fileName), file.buffer);
+
+    const note = await storage.contacts.createVoiceNote({
+      id,
+      contactId: contact.id,
+      // Served through the API after an ownership check
+      noteUrl: `/api/voice-notes/${id}/audio`,
+      fileName,
+      mimeType,
+      durationSeconds,
+      status: 'pending',
+    });
+
+    void this.process(userId, contact, note, file.buffer);
+    return note;
+  }
+
+  async getVoiceNotes(userId: string, contactId: string): Promise<VoiceNote[] | undefined> {
+    const contact = await this.findOwnedContact(userId, contactId);
+    if (!contact) return undefined;
+    return storage.contacts.getVoiceNotes(contact.id);
+  }
+
+  /**
+   * Returns undefined if the note does not exist or belongs to another user's contact.
+   */
+  async getVoiceNote(userId: string, noteId: string): Promise<VoiceNote | undefined> {
+    const note = await storage.contacts.getVoiceNoteById(noteId);
+    if (!note) return undefined;
+    const contact = await this.findOwnedContact(userId, note.contactId);
+    return contact ? note : undefined;
+  }
+
+  /**
+   * Absolute path of the recording, or undefined if the user cannot access it.
+   */
+  async getAudioPath(userId: string, noteId: string): Promise<string | undefined> {
+    const note = await this.getVoiceNote(userId, noteId);
+    return note?.fileName ? path.join(uploadDir, note.fileName) : undefined;
+  }
+
+  /**
+   * Process a failed note again from its stored recording.
+   */
+  async retry(userId: string, noteId: string): Promise<VoiceNote | undefined> {
+    const note = await this.getVoiceNote(userId, noteId);
+    if (!note?.fileName || note.status !== 'failed') return undefined;
+
+    const contact = await storage.contacts.getById(note.contactId);
+    const audio = await fs.promises.readFile(path.join(uploadDir, note.fileName));
+    const updated = await storage.contacts.updateVoiceNote(note.id, {
+      status: 'pending',
+      errorMessage: null,
+    });
+    void this.process(userId, contact!, updated, audio);
+    return updated;
+  }
+
+  async deleteVoiceNote(userId: string, noteId: string): Promise<boolean> {
+    const note = await this.getVoiceNote(userId, noteId);
+    if (!note) return false;
+
+    if (note.fileName) {
+      await fs.promises.rm(path.join(uploadDir, note.fileName), { force: true });
+    }
+    return storage.contacts.deleteVoiceNote(note.id);
+  }
+
+  /**
+   * Transcribe the recording, add the summary to the contact's timeline and suggest the
+   * follow-up tasks it mentions. Failures are recorded on the note so it can be retried.
+   */
+  private async process(
+    userId: string,
+    contact: Contact,
+    note: VoiceNote,
+    audio: Buffer
+  ): Promise<void> {
+    try {
+      let transcript = note.transcription;
+      if (!transcript) {
+        await storage.contacts.updateVoiceNote(note.id, { status: 'transcribing' });
+        transcript = await this.transcriber.transcribe({
+          audio,
+          fileName: note.fileName ?? `${note.id}.webm`,
+          mimeType: note.mimeType ?? 'audio/webm',
+        });
+        if (!transcript) {
+          throw new Error('No speech was found in the recording');
+        }
+      }
+      await storage.contacts.updateVoiceNote(note.id, { transcription: transcript, status: 'analyzing' });
+
+      const analysis = await aiService.analyzeVoiceNote(userId, contact.name, transcript);
+
+      // A retry after a later step failed reuses the timeline entry it already created
+      const interaction =
+        (await storage.interactions.findBySource(contact.id, 'voice_note', note.id)) ??
+        (await storage.createInteraction({
+          contactId: contact.id,
+          type: 'note',
+          subject: analysis.subject,
+          content: `${analysis.summary}\n\nTranscript:\n${transcript}`,
+          timestamp: note.createdAt,
+          source: 'voice_note',
+          sourceId: note.id,
+          sentiment: analysis.sentiment,
+        }));
+
+      if (analysis.tasks.length > 0) {
+        const suggestedAction: BulkAction = {
+          type: 'bulk_task_create',
+          contactIds: [contact.id],
+          tasks: analysis.tasks.map((task) => ({
+            title: task.title,
+            description: task.description,
+            priority: task.priority,
+            dueDate: dueDateFrom(note.createdAt, task),
+            contactIds: [contact.id],
+          })),
+          metadata: { source: 'voice_note', voiceNoteId: note.id },
+        };
+
+        await storage.createAiSuggestion({
+          userId,
+          type: 'task_creation',
+          title: `Follow up with ${contact.name} (${analysis.tasks.length} tasks from a voice note)`,
+          description: analysis.tasks.map((task) => task.title).join('; '),
+          suggestedAction,
+          sourceData: { source: 'voice_note', voiceNoteId: note.id, interactionId: interaction.id },
+          aiAnalysis: { reasoning: 'Follow-ups mentioned in a dictated voice note', summary: analysis.summary },
+          priority: analysis.tasks.some((task) => task.priority === 'urgent' || task.priority === 'high')
+            ? 'high'
+            : 'medium',
+        });
+      }
+
+      await storage.contacts.updateVoiceNote(note.id, {
+        status: 'processed',
+        interactionId: interaction.id,
+      });
+    } catch (error: unknown) {
+      logError('Voice note processing failed', error);
+      await storage.contacts.updateVoiceNote(note.id, {
+        status: 'failed',
+        errorMessage: getErrorMessage(error),
+      });
+    }
+  }
+
+  private async findOwnedContact(userId: string, contactId: string): Promise<Contact | undefined> {
+    const contact = await storage.contacts.getById(contactId);
+    return contact?.userId === userId ? contact : undefined;
+  }
+}
+
+export const voiceNoteService = new VoiceNoteService();
@@ -72,6 +72,7 @@ async function testSingleLLMFunction() {
       userId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12',
       name: 'Emma Rodriguez',
       email: 'emma.rodriguez@email.com',
+      emailAliases: null,
       phone: '555-1234',
       avatarUrl: null,
       lastContact: new Date('2025-01-30T10:00:00Z'),
@@ -179,6 +179,10 @@ export interface AttendeeData {
   name: string;
   email?: string;
   status?: string;
+  // Per-row details from attendance sheet exports
+  date?: string;
+  className?: string;
+  paid?: boolean;
 }
 
 /**
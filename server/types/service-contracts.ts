@@ -23,7 +23,7 @@ import type {
   InsertContact,
 } from '../../shared/schema.js';
 // CalendarEventAnalysis is now defined in this file
-import type { ContactData, UnknownObject } from './external-apis.js';
+import type { AttendeeData, ContactData, UnknownObject } from './external-apis.js';
 
 // ============================================================================
 // Storage Service Contracts
@@ -173,6 +173,26 @@ export interface CalendarEventAnalysis {
   [key: string]: unknown;
 }
 
+/**
+ * Email thread analysis result, stored on every email of the thread
+ */
+export interface EmailThreadAnalysis {
+  isRelevant: boolean;
+  relevanceReason: string;
+  threadSummary: string;
+  // 1 (very negative) to 5 (very positive), from the contact's side of the thread
+  sentiment: number;
+  requests: string[]; // What the contact asked for
+  commitments: string[]; // What the practitioner promised
+  importantDates: Array<{ date: string; description: string }>;
+  actionItems: string[];
+  confidence: number;
+  processedAt: string;
+  llmModel: string;
+  gmailThreadId: string;
+  [key: string]: unknown;
+}
+
 // ============================================================================
 // Metrics and Monitoring Contracts
 // ============================================================================
@@ -216,6 +236,21 @@ export interface ErrorContext {
  */
 export type LLMRequestPriority = 'high' | 'medium' | 'low';
 
+/**
+ * What happens to a request once a user's daily or monthly LLM budget is spent
+ */
+export type LLMBudgetPolicy = 'block' | 'downgrade' | 'queue';
+
+/**
+ * Pre-dispatch budget decision for a single LLM request
+ */
+export interface LLMBudgetDecision {
+  action: 'allow' | 'block' | 'downgrade' | 'queue';
+  model: string;
+  period?: 'daily' | 'monthly';
+  resetAt?: Date;
+}
+
 /**
  * Queued LLM request structure for concurrency control
  */
@@ -228,6 +263,7 @@ export interface QueuedRequest<T> {
   timestamp: number;
   userId: string;
   model: string;
+  timeout?: number;
 }
 
 /**
@@ -237,6 +273,8 @@ export interface LLMBatchOptions {
   batchSize?: number;
   delayBetweenBatches?: number;
   timeout?: number;
+  /** Hold requests until the budget resets when the user's policy is 'queue' */
+  deferOverBudget?: boolean;
 }
 
 /**
@@ -295,8 +333,15 @@ export interface TaskAnalysis {
  * Bulk action interface for batch operations
  */
 export interface BulkAction {
-  type: 'bulk_timeline_update' | 'bulk_photo_update' | 'bulk_contact_update';
+  type:
+    | 'bulk_timeline_update'
+    | 'bulk_photo_update'
+    | 'bulk_contact_update'
+    | 'bulk_task_create'
+    | 'bulk_contact_create';
   contactIds: string[];
+  // Contact groups whose members are added to contactIds when the action is executed
+  groupIds?: string[];
   eventData?: {
     className: string;
     date: string;
@@ -308,6 +353,19 @@ export interface BulkAction {
     source: string;
     [key: string]: unknown;
   }>;
+  tasks?: Array<{
+    title: string;
+    description?: string;
+    priority?: 'low' | 'medium' | 'high' | 'urgent';
+    dueDate?: string;
+    contactIds?: string[];
+  }>;
+  newContacts?: Array<{
+    name: string;
+    email: string;
+  }>;
+  // Field changes applied to every contact in contactIds
+  contactUpdates?: Pick<Partial<InsertContact>, 'lifecycleStage'>;
   data?: UnknownObject;
   metadata?: UnknownObject;
 }
@@ -359,6 +417,89 @@ export interface AttendanceAnalysis {
   analysis: string;
 }
 
+/**
+ * One class session from an attendance sheet, with attendees matched to contacts
+ */
+export interface AttendanceSessionPreview {
+  className: string;
+  date: string;
+  matched: Array<{ attendee: AttendeeData; contactId: string; contactName: string }>;
+  unmatched: AttendeeData[];
+}
+
+/**
+ * What importing an attendance sheet would do, shown before any suggestion is created
+ */
+export interface AttendancePreview {
+  headers: string[];
+  mapping: Record<string, string>;
+  sessions: AttendanceSessionPreview[];
+  // Rows left out because their status shows the client did not attend
+  excluded: AttendeeData[];
+}
+
+/**
+ * One row of a contact import file, with the duplicates found among existing contacts
+ */
+export interface ContactImportRowPreview {
+  row: number;
+  contact: { name?: string; email?: string; phone?: string; notes?: string };
+  errors: string[];
+  duplicates: Array<{ contactId: string; contactName: string; email: string; reason: string; score: number }>;
+  // Earlier row in the same file with the same email
+  duplicateOfRow?: number;
+  suggestedAction: 'skip' | 'merge' | 'create';
+}
+
+/**
+ * What importing a CSV, XLSX or vCard file of contacts would do, shown before anything is saved
+ */
+export interface ContactImportPreview {
+  format: 'csv' | 'xlsx' | 'vcard';
+  headers: string[];
+  mapping: Record<string, string>;
+  rows: ContactImportRowPreview[];
+}
+
+/**
+ * Progress of a contact import job, stored in the job's outputData
+ */
+export interface ContactImportProgress {
+  total: number;
+  processed: number;
+  created: number;
+  merged: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export type TimelineItemType = 'interaction' | 'email' | 'calendar_event' | 'task';
+
+/**
+ * One entry of a contact's timeline, whichever table it comes from
+ */
+export interface TimelineItem {
+  id: string;
+  type: TimelineItemType;
+  timestamp: Date;
+  title: string;
+  summary: string | null;
+  // e.g. the interaction type, the sender of an email or the status of a task
+  detail: string | null;
+  // AI-extracted insights of calendar events
+  keyTopics?: string[];
+  actionItems?: string[];
+}
+
+/**
+ * A page of a contact's timeline, newest first; pass nextCursor to get the next page
+ */
+export interface TimelinePage {
+  items: TimelineItem[];
+  nextCursor: string | null;
+}
+
 /**
  * Photo enrichment analysis result
  */
@@ -0,0 +1,200 @@
+/**
+ * Reads attendance sheets exported from booking systems (Mindbody, Momence, Acuity, ...)
+ * Columns are located through a mapping of field -> header, either saved on an import
+ * profile or detected from common header names.
+ */
+
+import { isValid, parse, format } from 'date-fns';
+import { detectColumns, normalizeHeader } from './spreadsheet-reader.js';
+import type { AttendeeData } from '../types/external-apis.js';
+import type { Contact } from '../../shared/schema.js';
+
+export const ATTENDANCE_FIELDS = [
+  'name',
+  'firstName',
+  'lastName',
+  'email',
+  'date',
+  'className',
+  'status',
+  'paid',
+] as const;
+
+export type AttendanceField = (typeof ATTENDANCE_FIELDS)[number];
+export type AttendanceColumnMapping = Partial<Record<AttendanceField, string>>;
+
+export interface AttendanceSheetLayout {
+  mapping?: AttendanceColumnMapping;
+  attendedStatuses?: string[] | null;
+  dateFormat?: string | null;
+}
+
+export interface ParsedAttendanceSheet {
+  headers: string[];
+  mapping: AttendanceColumnMapping;
+  attendees: AttendeeData[];
+  // Rows whose status shows the client did not attend, e.g. no-shows and late cancels
+  excluded: AttendeeData[];
+}
+
+export interface AttendeeMatch {
+  attendee: AttendeeData;
+  contact: Contact;
+}
+
+const HEADER_SYNONYMS: Record<AttendanceField, string[]> = {
+  name: ['name', 'client', 'client name', 'full name', 'customer', 'customer name', 'attendee', 'member', 'student'],
+  firstName: ['first name', 'firstname', 'first', 'given name'],
+  lastName: ['last name', 'lastname', 'last', 'surname', 'family name'],
+  email: ['email', 'email address', 'e mail', 'client email', 'customer email'],
+  date: ['date', 'class date', 'session date', 'visit date', 'start date', 'appointment date', 'start time'],
+  className: ['class', 'class name', 'service', 'service name', 'session', 'event', 'appointment type', 'activity'],
+  status: ['status', 'attendance', 'attendance status', 'check in status', 'visit status'],
+  paid: ['paid', 'payment status', 'payment', 'paid with', 'pricing option'],
+};
+
+// Used when a profile does not list its own attended statuses
+const DEFAULT_MISSED_STATUSES = ['no show', 'no-show', 'late cancel', 'late cancelled', 'cancelled', 'canceled', 'absent', 'waitlist'];
+
+const UNPAID_VALUES = ['no', 'n', 'false', '0', 'unpaid', 'not paid', 'due', 'outstanding'];
+
+// Title rows above the header are common in report exports; look this far down for it
+const HEADER_SEARCH_ROWS = 10;
+
+/**
+ * Map each field to the first header that matches one of its common names.
+ */
+export function detectColumnMapping(headers: string[]): AttendanceColumnMapping {
+  return detectColumns(headers, ATTENDANCE_FIELDS, HEADER_SYNONYMS);
+}
+
+function findHeaderRow(rows: string[][], mapping?: AttendanceColumnMapping): number {
+  const searchRows = rows.slice(0, HEADER_SEARCH_ROWS);
+  const expected = mapping ? Object.values(mapping).map(normalizeHeader) : [];
+
+  const index = searchRows.findIndex((row) => {
+    const headers = row.map(normalizeHeader);
+    if (expected.length > 0) {
+      return expected.every((header) => headers.includes(header));
+    }
+    return Object.keys(detectColumnMapping(row)).length >= 2;
+  });
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Normalize a date cell to yyyy-MM-dd, or undefined if it cannot be read.
+ */
+export function normalizeAttendanceDate(value: string, dateFormat?: string | null): string | undefined {
+  if (!value) return undefined;
+
+  if (dateFormat) {
+    const parsed = parse(value, dateFormat, new Date());
+    return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : undefined;
+  }
+
+  return /^(\d{4}-\d{2}-\d{2})/.exec(value)?.[1];
+}
+
+function parsePaid(value: string): boolean | undefined {
+  if (!value) return undefined;
+  return !UNPAID_VALUES.includes(value.toLowerCase());
+}
+
+function attended(status: string | undefined, attendedStatuses?: string[] | null): boolean {
+  if (!status) return true;
+  const normalized = status.toLowerCase();
+  if (attendedStatuses && attendedStatuses.length > 0) {
+    return attendedStatuses.some((candidate) => candidate.toLowerCase() === normalized);
+  }
+  return !DEFAULT_MISSED_STATUSES.includes(normalized);
+}
+
+/**
+ * Turn sheet rows into attendees using the layout's mapping, or detected columns without one.
+ * Sheets with no recognizable name column fall back to reading names from the first column.
+ */
+export function parseAttendanceRows(
+  rows: string[][],
+  layout: AttendanceSheetLayout = {}
+): ParsedAttendanceSheet {
+  const headerIndex = findHeaderRow(rows, layout.mapping);
+  const headers = rows[headerIndex] ?? [];
+  const mapping = layout.mapping ?? detectColumnMapping(headers);
+
+  const columnIndex = (field: AttendanceField): number => {
+    const header = mapping[field];
+    return header ? headers.map(normalizeHeader).indexOf(normalizeHeader(header)) : -1;
+  };
+  const columns = Object.fromEntries(
+    ATTENDANCE_FIELDS.map((field) => [field, columnIndex(field)])
+  ) as Record<AttendanceField, number>;
+  if (columns.name === -1 && columns.firstName === -1 && columns.email === -1) {
+    columns.name = 0;
+  }
+
+  const attendees: AttendeeData[] = [];
+  const excluded: AttendeeData[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = (field: AttendanceField): string => {
+      const index = columns[field];
+      return index === -1 ? '' : (row[index] ?? '').trim();
+    };
+
+    const email = cell('email').toLowerCase();
+    const name =
+      cell('name') || [cell('firstName'), cell('lastName')].filter(Boolean).join(' ') || email;
+    if (!name) continue;
+
+    const attendee: AttendeeData = {
+      name,
+      ...(email ? { email } : {}),
+      ...(cell('status') ? { status: cell('status') } : {}),
+      ...(cell('className') ? { className: cell('className') } : {}),
+    };
+    const date = normalizeAttendanceDate(cell('date'), layout.dateFormat);
+    if (date) attendee.date = date;
+    const paid = parsePaid(cell('paid'));
+    if (paid !== undefined) attendee.paid = paid;
+
+    (attended(attendee.status, layout.attendedStatuses) ? attendees : excluded).push(attendee);
+  }
+
+  return { headers, mapping, attendees, excluded };
+}
+
+/**
+ * Match attendees to contacts by email, then exact name, then a name that contains or is
+ * contained in the contact's. A name matching several contacts is left unmatched.
+ */
+export function matchAttendeesToContacts(
+  attendees: AttendeeData[],
+  contacts: Contact[]
+): { matched: AttendeeMatch[]; unmatched: AttendeeData[] } {
+  const matched: AttendeeMatch[] = [];
+  const unmatched: AttendeeData[] = [];
+
+  for (const attendee of attendees) {
+    const name = attendee.name.toLowerCase();
+    const candidates = [
+      attendee.email
+        ? contacts.filter((contact) => contact.email?.toLowerCase() === attendee.email)
+        : [],
+      contacts.filter((contact) => contact.name.toLowerCase() === name),
+      contacts.filter((contact) => {
+        const contactName = contact.name.toLowerCase();
+        return contactName.includes(name) || name.includes(contactName);
+      }),
+    ];
+
+    const contact = candidates.find((group) => group.length > 0);
+    if (contact?.length === 1) {
+      matched.push({ attendee, contact: contact[0] });
+    } else {
+      unmatched.push(attendee);
+    }
+  }
+
+  return { matched, unmatched };
+}
@@ -0,0 +1,108 @@
+/**
+ * Finds existing contacts that an imported contact probably duplicates
+ * Email and phone matches are treated as the same person; similar names only as a hint,
+ * since different clients can share a name.
+ */
+
+import type { Contact } from '../../shared/schema.js';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateCandidate {
+  contactId: string;
+  reason: DuplicateReason;
+  // 1 for email and phone matches, the name similarity otherwise
+  score: number;
+}
+
+export interface ContactIdentity {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+// Names at least this similar are reported as possible duplicates
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Compare the trailing digits so "+44 7700 900123" matches "07700 900123"
+const PHONE_DIGITS_COMPARED = 9;
+const MIN_PHONE_DIGITS = 7;
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email ?? '').trim().toLowerCase();
+}
+
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_DIGITS_COMPARED) : '';
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and sort the words so "Silva, Ana" equals "Ana Silva".
+ */
+export function normalizeName(name: string | null | undefined): string {
+  return (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two names between 0 and 1, ignoring word order, case and accents.
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Existing contacts the candidate may duplicate, strongest first.
+ */
+export function findDuplicateContacts(
+  candidate: ContactIdentity,
+  contacts: Contact[]
+): DuplicateCandidate[] {
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+  const duplicates: DuplicateCandidate[] = [];
+
+  for (const contact of contacts) {
+    if (email && normalizeEmail(contact.email) === email) {
+      duplicates.push({ contactId: contact.id, reason: 'email', score: 1 });
+    } else if (phone && normalizePhone(contact.phone) === phone) {
+      duplicates.push({ contactId: contact.id, reason: 'phone', score: 1 });
+    } else {
+      const score = nameSimilarity(candidate.name, contact.name);
+      if (score >= NAME_SIMILARITY_THRESHOLD) {
+        duplicates.push({ contactId: contact.id, reason: 'name', score });
+      }
+    }
+  }
+
+  const rank: Record<DuplicateReason, number> = { email: 0, phone: 1, name: 2 };
+  return duplicates.sort((a, b) => rank[a.reason] - rank[b.reason] || b.score - a.score);
+}
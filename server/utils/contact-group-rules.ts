@@ -0,0 +1,69 @@
+/**
+ * Evaluates the rules of rule-based contact groups against contacts
+ * e.g. "lifecycleStage = core_client AND lastContact more than 30 days ago"
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import type { GroupRuleCondition, GroupRules } from '../schemas/contact-group.schemas.js';
+import type { Contact, Tag } from '../../shared/schema.js';
+
+export type RuleContact = Contact & { tags?: Tag[] };
+
+function compareNumber(value: number | null, operator: string, expected: number): boolean {
+  if (value === null) return false;
+  if (operator === 'greaterThan') return value > expected;
+  if (operator === 'lessThan') return value < expected;
+  return value === expected;
+}
+
+/**
+ * A date that is missing, e.g. a contact that was never contacted, is treated as longer ago than
+ * any limit.
+ */
+export function matchesDaysAgo(
+  date: Date | string | null | undefined,
+  operator: 'olderThanDays' | 'withinDays',
+  days: number,
+  now: Date
+): boolean {
+  if (!date) return operator === 'olderThanDays';
+  const elapsed = differenceInCalendarDays(now, new Date(date));
+  return operator === 'olderThanDays' ? elapsed > days : elapsed <= days;
+}
+
+export function matchesCondition(contact: RuleContact, condition: GroupRuleCondition, now: Date): boolean {
+  switch (condition.field) {
+    case 'lifecycleStage':
+    case 'status':
+    case 'engagementTrend': {
+      const equal = contact[condition.field] === condition.value;
+      return condition.operator === 'equals' ? equal : !equal;
+    }
+    case 'sentiment':
+    case 'referralCount':
+      return compareNumber(contact[condition.field], condition.operator, condition.value);
+    case 'lastContact':
+    case 'createdAt':
+      return matchesDaysAgo(contact[condition.field], condition.operator, condition.value, now);
+    case 'tag': {
+      const hasTag = (contact.tags ?? []).some((tag) => tag.id === condition.value);
+      return condition.operator === 'has' ? hasTag : !hasTag;
+    }
+  }
+}
+
+export function matchesGroupRules(contact: RuleContact, rules: GroupRules, now = new Date()): boolean {
+  const results = rules.conditions.map((condition) => matchesCondition(contact, condition, now));
+  return rules.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * The contacts a rule-based group currently contains.
+ */
+export function filterContactsByRules<T extends RuleContact>(
+  contacts: T[],
+  rules: GroupRules,
+  now = new Date()
+): T[] {
+  return contacts.filter((contact) => matchesGroupRules(contact, rules, now));
+}
@@ -0,0 +1,58 @@
+/**
+ * Plain-text extraction for synced documents
+ * Supports the Drive file types we import: PDF, DOCX and TXT
+ */
+
+import mammoth from 'mammoth';
+import { extractText } from 'unpdf';
+
+export const DOCUMENT_MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+} as const;
+
+// Stored text is for search and AI context, not a full copy of the document
+const MAX_CONTENT_LENGTH = 100_000;
+
+export function isSupportedDocumentType(mimeType: string | null | undefined): boolean {
+  return Object.values(DOCUMENT_MIME_TYPES).some((type) => type === mimeType);
+}
+
+/**
+ * Extract text from a document. Returns null for unsupported types or unreadable files,
+ * so a corrupt file never fails the whole sync.
+ */
+export async function extractDocumentText(buffer: Buffer, mimeType: string): Promise<string | null> {
+  try {
+    let text: string;
+    switch (mimeType) {
+      case DOCUMENT_MIME_TYPES.pdf: {
+        const result = await extractText(new Uint8Array(buffer), { mergePages: true });
+        text = result.text;
+        break;
+      }
+      case DOCUMENT_MIME_TYPES.docx: {
+        const result = await mammoth.extractRawText({ buffer });
+        text = result.value;
+        break;
+      }
+      case DOCUMENT_MIME_TYPES.txt:
+        text = buffer.toString('utf8');
+        break;
+      default:
+        return null;
+    }
+
+    const normalized = text
+      // eslint-disable-next-line no-control-regex
+      .replace(/\u0000/g, '') // Postgres text columns reject NUL bytes
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return normalized ? normalized.slice(0, MAX_CONTENT_LENGTH) : null;
+  } catch (error) {
+    console.warn(`Failed to extract text from ${mimeType} document:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Matches synced Drive files to contacts
+ * Signals are tried strongest first; a signal that points at more than one contact is
+ * treated as no match, so ambiguous files go to the review queue instead of the wrong client.
+ */
+
+import type { Contact } from '../../shared/schema.js';
+
+export type DriveMatchMethod = 'permission' | 'filename' | 'content_email';
+
+export interface DriveFileMatchInput {
+  name: string;
+  permissionEmails: string[];
+  content: string | null;
+}
+
+export interface DriveFileMatch {
+  contactId: string;
+  method: DriveMatchMethod;
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// Short names such as "Jo" would match far too many filenames
+const MIN_NAME_LENGTH = 4;
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[_\-.()[\]]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function uniqueContact(matches: Contact[]): Contact | undefined {
+  const ids = new Set(matches.map((contact) => contact.id));
+  return ids.size === 1 ? matches[0] : undefined;
+}
+
+function matchByEmails(
+  emails: string[],
+  contacts: Contact[],
+  ownerEmail: string
+): Contact | undefined {
+  const candidates = new Set(
+    emails.map((email) => email.toLowerCase()).filter((email) => email !== ownerEmail.toLowerCase())
+  );
+  return uniqueContact(
+    contacts.filter((contact) => contact.email && candidates.has(contact.email.toLowerCase()))
+  );
+}
+
+function matchByFilename(name: string, contacts: Contact[]): Contact | undefined {
+  // Only the file name has an extension; "sarah.j" in a contact name is part of the name
+  const filename = ` ${normalize(name.replace(/\.[a-z0-9]+$/i, ''))} `;
+  return uniqueContact(
+    contacts.filter((contact) => {
+      const fullName = normalize(contact.name);
+      if (fullName.length >= MIN_NAME_LENGTH && filename.includes(` ${fullName} `)) {
+        return true;
+      }
+      // Files are often named after the client's email, e.g. "jane.doe@example.com intake.pdf"
+      const emailLocalPart = contact.email ? normalize(contact.email.split('@')[0]) : '';
+      return emailLocalPart.length >= MIN_NAME_LENGTH && filename.includes(` ${emailLocalPart} `);
+    })
+  );
+}
+
+/**
+ * Find the contact a Drive file belongs to, or null if it should be reviewed by hand.
+ * @param ownerEmail The practitioner's own address, which appears on every shared file
+ */
+export function matchDriveFileToContact(
+  file: DriveFileMatchInput,
+  contacts: Contact[],
+  ownerEmail: string
+): DriveFileMatch | null {
+  const byPermission = matchByEmails(file.permissionEmails, contacts, ownerEmail);
+  if (byPermission) return { contactId: byPermission.id, method: 'permission' };
+
+  const byFilename = matchByFilename(file.name, contacts);
+  if (byFilename) return { contactId: byFilename.id, method: 'filename' };
+
+  if (file.content) {
+    const byContent = matchByEmails(file.content.match(EMAIL_PATTERN) ?? [], contacts, ownerEmail);
+    if (byContent) return { contactId: byContent.id, method: 'content_email' };
+  }
+
+  return null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Matches the addresses on a synced email to contacts
+ * Addresses are compared in a normalized form, so case, plus-addressing and Gmail's ignored
+ * dots do not stop a match, and a contact is found by any of its alias addresses too.
+ */
+
+import type { Contact } from '../../shared/schema.js';
+
+export type EmailContactRole = 'from' | 'to' | 'cc';
+
+export interface EmailAddress {
+  email: string;
+  name: string | null;
+}
+
+export interface EmailParticipants {
+  fromEmail: string;
+  fromName?: string | null;
+  toEmails?: unknown;
+  ccEmails?: unknown;
+}
+
+export interface EmailContactLink {
+  contactId: string;
+  role: EmailContactRole;
+}
+
+export interface EmailContactMatch {
+  links: EmailContactLink[];
+  // The contact who sent the email, if they are known
+  senderContactId: string | null;
+  // A sender who is not a contact yet and looks like a person rather than a mailer
+  unknownSender: EmailAddress | null;
+}
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const AUTOMATED_LOCAL_PARTS =
+  /^(no-?reply|do-?not-?reply|notifications?|mailer-daemon|postmaster|bounces?|alerts?|newsletters?|updates|support|info|billing|accounts?|team|hello)$/;
+
+/**
+ * Lowercases the address, drops any +tag, and for Gmail addresses removes the dots Gmail ignores.
+ */
+export function normalizeEmailAddress(address: string): string {
+  const trimmed = address.trim().toLowerCase();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0) return trimmed;
+
+  let local = trimmed.slice(0, at);
+  let domain = trimmed.slice(at + 1);
+
+  const plus = local.indexOf('+');
+  if (plus > 0) local = local.slice(0, plus);
+
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return `${local}@${domain}`;
+}
+
+export function isAutomatedAddress(address: string): boolean {
+  const local = normalizeEmailAddress(address).split('@')[0] ?? '';
+  return AUTOMATED_LOCAL_PARTS.test(local);
+}
+
+/**
+ * Splits a header such as `"Silva, Ana" <ana@example.com>, bo@example.com` into addresses.
+ * Commas inside quoted display names do not separate entries.
+ */
+export function parseAddressList(header: string | null | undefined): EmailAddress[] {
+  if (!header) return [];
+
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    if (char === ',' && !quoted) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries.flatMap((entry) => {
+    const angle = entry.match(/<([^>]+)>/);
+    const email = (angle ? angle[1] : entry).trim();
+    if (!email.includes('@')) return [];
+
+    const name = angle ? entry.replace(/<[^>]+>/, '').replace(/"/g, '').trim() : '';
+    return [{ email, name: name || null }];
+  });
+}
+
+/**
+ * Normalized address to contact ID, built from each contact's email and alias addresses.
+ * When two contacts share an address the first one keeps it.
+ */
+export function buildContactAddressIndex(
+  contacts: Array<Pick<Contact, 'id' | 'email' | 'emailAliases'>>
+): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const contact of contacts) {
+    const aliases: unknown[] = Array.isArray(contact.emailAliases) ? contact.emailAliases : [];
+    for (const address of [contact.email, ...aliases]) {
+      if (typeof address !== 'string' || !address.includes('@')) continue;
+      const key = normalizeEmailAddress(address);
+      if (!index.has(key)) index.set(key, contact.id);
+    }
+  }
+  return index;
+}
+
+// Recipient lists are stored as address objects; plain strings are accepted as well
+function recipientAddresses(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry: unknown) => {
+    if (typeof entry === 'string') return [entry];
+    const email = (entry as { email?: unknown } | null)?.email;
+    return typeof email === 'string' ? [email] : [];
+  });
+}
+
+/**
+ * Finds every known contact on an email. The user's own addresses are never matched, and each
+ * contact is linked once, in the first role they appear in: sender, then to, then cc.
+ */
+export function matchEmailContacts(
+  email: EmailParticipants,
+  index: Map<string, string>,
+  ownAddresses: string[]
+): EmailContactMatch {
+  const own = new Set(ownAddresses.map(normalizeEmailAddress));
+  const linked = new Map<string, EmailContactRole>();
+
+  const roles: Array<[EmailContactRole, string[]]> = [
+    ['from', [email.fromEmail]],
+    ['to', recipientAddresses(email.toEmails)],
+    ['cc', recipientAddresses(email.ccEmails)],
+  ];
+
+  for (const [role, addresses] of roles) {
+    for (const address of addresses) {
+      const key = normalizeEmailAddress(address);
+      if (own.has(key)) continue;
+      const contactId = index.get(key);
+      if (contactId && !linked.has(contactId)) linked.set(contactId, role);
+    }
+  }
+
+  const senderKey = normalizeEmailAddress(email.fromEmail);
+  const sentByUser = own.has(senderKey);
+  const senderContactId = sentByUser ? null : (index.get(senderKey) ?? null);
+  const unknownSender =
+    !senderContactId && !sentByUser && senderKey.includes('@') && !isAutomatedAddress(senderKey)
+      ? { email: email.fromEmail.trim().toLowerCase(), name: email.fromName ?? null }
+      : null;
+
+  return {
+    links: [...linked].map(([contactId, role]) => ({ contactId, role })),
+    senderContactId,
+    unknownSender,
+  };
+}
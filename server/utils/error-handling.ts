@@ -34,3 +34,29 @@ export function createErrorResponse(message: string, error: unknown, includeDeta
   
   return response;
 }
+
+/**
+ * Thrown when a user's LLM budget is spent and their policy does not allow the request through
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly period: 'daily' | 'monthly',
+    public readonly resetAt: Date
+  ) {
+    super(`LLM ${period} budget exceeded. Requests resume at ${resetAt.toISOString()}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Creates the response body sent to clients when a budget blocks a request
+ */
+export function createBudgetExceededResponse(error: BudgetExceededError) {
+  return {
+    error: 'LLM budget exceeded',
+    code: 'BUDGET_EXCEEDED',
+    period: error.period,
+    resetAt: error.resetAt.toISOString(),
+    message: error.message,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for reading stored Gmail messages and building messages to hand back to Gmail
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  body: string;
+  // Message-ID of the message being replied to, so Gmail keeps the reply in its thread
+  inReplyTo?: string | null;
+}
+
+/**
+ * A header of a message stored in `emails.rawData` (the Gmail API message resource).
+ */
+export function rawHeader(rawData: unknown, name: string): string | null {
+  const headers = (rawData as { payload?: { headers?: unknown } } | null)?.payload?.headers;
+  if (!Array.isArray(headers)) return null;
+
+  const header = headers.find(
+    (entry: unknown) =>
+      typeof (entry as { name?: unknown }).name === 'string' &&
+      (entry as { name: string }).name.toLowerCase() === name.toLowerCase()
+  ) as { value?: unknown } | undefined;
+  return typeof header?.value === 'string' ? header.value : null;
+}
+
+export function replySubject(subject: string | null | undefined): string {
+  const trimmed = (subject ?? '').trim();
+  if (!trimmed) return 'Re:';
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+// RFC 2047 encoding for header values that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * A plain-text message, base64url encoded as the Gmail API expects in `message.raw`.
+ */
+export function buildRawEmail(email: OutgoingEmail): string {
+  // Header values must not carry line breaks into the message
+  const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+  const headers = [
+    `To: ${singleLine(email.to)}`,
+    `Subject: ${encodeHeader(singleLine(email.subject))}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+  ];
+  if (email.inReplyTo) {
+    headers.push(`In-Reply-To: ${singleLine(email.inReplyTo)}`, `References: ${singleLine(email.inReplyTo)}`);
+  }
+
+  const message = `${headers.join('\r\n')}\r\n\r\n${Buffer.from(email.body).toString('base64')}`;
+  return Buffer.from(message).toString('base64url');
+}
@@ -0,0 +1,51 @@
+/**
+ * Evaluates lifecycle rules against contacts
+ * e.g. "lifecycleStage = core_client AND lastSession more than 45 days ago → needs_reconnecting"
+ */
+
+import { lifecycleRuleMatchSchema, type LifecycleRuleCondition, type LifecycleRuleMatch } from '../schemas/lifecycle-rule.schemas.js';
+import { matchesCondition, matchesDaysAgo, type RuleContact } from './contact-group-rules.js';
+import type { LifecycleRule } from '../../shared/schema.js';
+
+// Interaction types that count as a session with the contact
+export const SESSION_INTERACTION_TYPES = ['meeting', 'class_attendance'];
+
+export type LifecycleContact = RuleContact & { lastSessionAt?: Date | null };
+
+function matchesLifecycleCondition(contact: LifecycleContact, condition: LifecycleRuleCondition, now: Date): boolean {
+  if (condition.field === 'lastSession') {
+    return matchesDaysAgo(contact.lastSessionAt, condition.operator, condition.value, now);
+  }
+  return matchesCondition(contact, condition, now);
+}
+
+export function matchesLifecycleRules(contact: LifecycleContact, rules: LifecycleRuleMatch, now = new Date()): boolean {
+  const results = rules.conditions.map((condition) => matchesLifecycleCondition(contact, condition, now));
+  return rules.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Stored rules are JSON; rules that no longer validate match nobody rather than everybody.
+ */
+export function parseLifecycleRules(rule: Pick<LifecycleRule, 'rules'>): LifecycleRuleMatch | undefined {
+  const result = lifecycleRuleMatchSchema.safeParse(rule.rules);
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * The rule that moves the contact to another stage, if any. Rules are tried in order and the
+ * first one that matches decides, so a contact already in the first matching rule's target
+ * stage stays there even if a later rule would move it.
+ */
+export function findStageChange<T extends Pick<LifecycleRule, 'rules' | 'targetStage'>>(
+  contact: LifecycleContact,
+  orderedRules: T[],
+  now = new Date()
+): T | undefined {
+  for (const rule of orderedRules) {
+    const rules = parseLifecycleRules(rule);
+    if (!rules || !matchesLifecycleRules(contact, rules, now)) continue;
+    return rule.targetStage === contact.lifecycleStage ? undefined : rule;
+  }
+  return undefined;
+}
@@ -5,10 +5,13 @@ import type {
   LLMRequestPriority,
   LLMBatchOptions 
 } from '../types/service-contracts.js';
+import { llmCostTracker } from './llm-cost-tracker.js';
+import { BudgetExceededError } from './error-handling.js';
 
 export class LLMConcurrencyController extends EventEmitter {
   private activeRequests = new Map<string, QueuedRequest<unknown>>();
   private requestQueue: QueuedRequest<unknown>[] = [];
+  private deferredRequests: Array<{ request: QueuedRequest<unknown>; releaseAt: number }> = [];
   private maxConcurrentRequests: number;
   private processingTimes: number[] = [];
   private stats: ConcurrencyStats = {
@@ -26,35 +29,56 @@ export class LLMConcurrencyController extends EventEmitter {
   }
 
   /**
-   * Execute LLM operation with concurrency control
+   * Execute LLM operation with concurrency control.
+   * The user's budget is checked before dispatch; the operation receives the model
+   * to use, which may be the free fallback under the 'downgrade' policy.
    */
   async execute<T>(
-    operation: () => Promise<T>,
+    operation: (model: string) => Promise<T>,
     options: {
       userId: string;
       model: string;
       priority?: LLMRequestPriority;
       timeout?: number;
+      deferOverBudget?: boolean;
     }
   ): Promise<T> {
+    const decision = await llmCostTracker.checkBudget(options.userId, options.model);
+    const overBudget = decision.period && decision.resetAt ? { period: decision.period, resetAt: decision.resetAt } : null;
+
+    if (
+      overBudget &&
+      (decision.action === 'block' || (decision.action === 'queue' && !options.deferOverBudget))
+    ) {
+      this.emit('budgetExceeded', { userId: options.userId, model: options.model, ...overBudget });
+      throw new BudgetExceededError(overBudget.period, overBudget.resetAt);
+    }
+
+    if (decision.action === 'downgrade') {
+      this.emit('budgetDowngraded', { userId: options.userId, from: options.model, to: decision.model });
+    }
+
     return new Promise<T>((resolve, reject) => {
       const request: QueuedRequest<T> = {
         id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        operation,
+        operation: () => operation(decision.model),
         resolve,
         reject,
         priority: options.priority ?? 'medium',
         timestamp: Date.now(),
         userId: options.userId,
-        model: options.model,
+        model: decision.model,
+        timeout: options.timeout,
       };
 
-      // Add timeout handling
-      if (options.timeout) {
-        setTimeout(() => {
-          this.removeFromQueue(request.id);
-          reject(new Error(`LLM request timeout after ${options.timeout}ms`));
-        }, options.timeout);
+      if (overBudget && decision.action === 'queue') {
+        // Timeout only starts once the request is released into the queue
+        this.deferredRequests.push({
+          request: request as QueuedRequest<unknown>,
+          releaseAt: overBudget.resetAt.getTime(),
+        });
+        this.emit('requestDeferred', { id: request.id, userId: request.userId, ...overBudget });
+        return;
       }
 
       this.addToQueue(request);
@@ -62,31 +86,40 @@ export class LLMConcurrencyController extends EventEmitter {
   }
 
   /**
-   * Execute multiple operations with controlled concurrency
+   * Execute multiple operations with controlled concurrency.
+   * Once a budget error is hit the remaining operations are not dispatched.
    */
   async executeBatch<T>(
     operations: Array<{
-      operation: () => Promise<T>;
+      operation: (model: string) => Promise<T>;
       userId: string;
       model: string;
       priority?: LLMRequestPriority;
     }>,
     options: LLMBatchOptions = {}
-  ): Promise<Array<{ success: boolean; result?: T; error?: string }>> {
-    const { batchSize = 10, delayBetweenBatches = 100 } = options;
-    const results: Array<{ success: boolean; result?: T; error?: string }> = [];
+  ): Promise<Array<{ success: boolean; result?: T; error?: string; budgetError?: BudgetExceededError }>> {
+    const { batchSize = 10, delayBetweenBatches = 100, timeout = 60000, deferOverBudget = false } = options;
+    const results: Array<{ success: boolean; result?: T; error?: string; budgetError?: BudgetExceededError }> = [];
+    let budgetError: BudgetExceededError | null = null;
 
     // Process in smaller batches to avoid overwhelming the system
     for (let i = 0; i < operations.length; i += batchSize) {
       const batch = operations.slice(i, i + batchSize);
-      
+
+      if (budgetError) {
+        const error = budgetError;
+        results.push(...batch.map(() => ({ success: false, error: error.message, budgetError: error })));
+        continue;
+      }
+
       // Execute batch with Promise.allSettled to handle failures gracefully
       const batchPromises = batch.map(op =>
         this.execute(op.operation, {
           userId: op.userId,
           model: op.model,
           priority: op.priority,
-          timeout: 60000, // 60 second timeout per operation
+          timeout, // Per operation
+          deferOverBudget,
         })
       );
 
@@ -96,6 +129,9 @@ export class LLMConcurrencyController extends EventEmitter {
       for (const result of batchResults) {
         if (result.status === 'fulfilled') {
           results.push({ success: true, result: result.value });
+        } else if (result.reason instanceof BudgetExceededError) {
+          budgetError = result.reason;
+          results.push({ success: false, error: result.reason.message, budgetError: result.reason });
         } else {
           results.push({ 
             success: false, 
@@ -118,6 +154,7 @@ export class LLMConcurrencyController extends EventEmitter {
    */
   getStats(): ConcurrencyStats & {
     queueDepth: number;
+    deferred: number;
     modelBreakdown: Record<string, number>;
     userBreakdown: Record<string, number>;
   } {
@@ -141,6 +178,7 @@ export class LLMConcurrencyController extends EventEmitter {
       active: this.activeRequests.size,
       queued: this.requestQueue.length,
       queueDepth: this.requestQueue.length,
+      deferred: this.deferredRequests.length,
       modelBreakdown,
       userBreakdown,
     };
@@ -181,6 +219,30 @@ export class LLMConcurrencyController extends EventEmitter {
 
     this.stats.queued = this.requestQueue.length;
     this.emit('requestQueued', { id: request.id, queueLength: this.requestQueue.length });
+
+    if (request.timeout) {
+      const { timeout } = request;
+      setTimeout(() => {
+        this.removeFromQueue(request.id);
+        request.reject(new Error(`LLM request timeout after ${timeout}ms`));
+      }, timeout);
+    }
+  }
+
+  /**
+   * Move deferred over-budget requests into the queue once their budget period has reset
+   */
+  private releaseDeferred(): void {
+    if (this.deferredRequests.length === 0) return;
+
+    const now = Date.now();
+    const due = this.deferredRequests.filter(entry => entry.releaseAt <= now);
+    if (due.length === 0) return;
+
+    this.deferredRequests = this.deferredRequests.filter(entry => entry.releaseAt > now);
+    for (const { request } of due) {
+      this.addToQueue(request);
+    }
   }
 
   private removeFromQueue(requestId: string): boolean {
@@ -194,6 +256,8 @@ export class LLMConcurrencyController extends EventEmitter {
   }
 
   private async processQueue(): Promise<void> {
+    this.releaseDeferred();
+
     while (this.activeRequests.size < this.maxConcurrentRequests && this.requestQueue.length > 0) {
       const request = this.requestQueue.shift();
       if (!request) break;
@@ -287,6 +351,9 @@ export class LLMConcurrencyController extends EventEmitter {
       this.requestQueue.forEach(request => {
         request.reject(new Error('System shutdown'));
       });
+      this.deferredRequests.forEach(({ request }) => {
+        request.reject(new Error('System shutdown'));
+      });
     }
   }
 }
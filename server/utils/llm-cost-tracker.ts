@@ -1,42 +1,40 @@
+import { storage } from '../data/index.js';
+import type { LlmSpendRollup } from '../data/llm-usage.data.js';
+import type { LlmUsage, LlmBudget, LlmCostAlert } from '../../shared/schema.js';
+import type { LLMBudgetDecision, LLMBudgetPolicy } from '../types/service-contracts.js';
+
 interface ModelPricing {
   inputTokenCost: number;  // Cost per 1000 input tokens
   outputTokenCost: number; // Cost per 1000 output tokens
   currency: 'USD';
 }
 
-interface UsageRecord {
-  userId: string;
-  model: string;
-  inputTokens: number;
-  outputTokens: number;
-  cost: number;
-  requestId: string;
-  timestamp: Date;
-  operation: string; // e.g., 'calendar_analysis', 'photo_enrichment', 'task_analysis'
-}
-
-interface CostAlert {
-  userId: string;
-  alertType: 'daily_limit' | 'monthly_limit' | 'unusual_usage';
-  threshold: number;
-  currentValue: number;
-  timestamp: Date;
-}
+type UsageRecord = LlmUsage;
+type CostAlert = LlmCostAlert;
+type BudgetLimits = Pick<LlmBudget, 'userId' | 'dailyLimit' | 'monthlyLimit' | 'alertThreshold'> & {
+  policy: LLMBudgetPolicy;
+};
 
-interface BudgetLimits {
-  dailyLimit: number;
-  monthlyLimit: number;
-  userId: string;
-  alertThreshold: number; // Percentage (e.g., 80 = alert at 80% of limit)
-}
+// Model that over-budget requests fall back to under the 'downgrade' policy
+export const FREE_FALLBACK_MODEL = 'meta-llama/llama-3.1-8b-instruct:free';
 
 export class LLMCostTracker {
   private readonly MODEL_PRICING: Record<string, ModelPricing> = {
-    'meta-llama/llama-3.1-8b-instruct:free': {
+    [FREE_FALLBACK_MODEL]: {
       inputTokenCost: 0, // Free model
       outputTokenCost: 0,
       currency: 'USD'
     },
+    'mistral-small-latest': {
+      inputTokenCost: 0.0001, // Per 1000 tokens - estimate
+      outputTokenCost: 0.0003,
+      currency: 'USD'
+    },
+    'gemini-2.0-flash-exp': {
+      inputTokenCost: 0.0001, // Per 1000 tokens - estimate
+      outputTokenCost: 0.0004,
+      currency: 'USD'
+    },
     'qwen/qwen3-235b-a22b-2507': {
       inputTokenCost: 0.15, // Per 1000 tokens - estimate
       outputTokenCost: 0.30,
@@ -49,10 +47,6 @@ export class LLMCostTracker {
     }
   };
 
-  private usageRecords: UsageRecord[] = [];
-  private budgetLimits: Map<string, BudgetLimits> = new Map();
-  private costAlerts: CostAlert[] = [];
-
   /**
    * Track LLM usage and calculate costs
    */
@@ -75,8 +69,14 @@ export class LLMCostTracker {
     const outputCost = (outputTokens / 1000) * pricing.outputTokenCost;
     const totalCost = inputCost + outputCost;
 
+    // Check budget limits before recording so the new cost is counted exactly once
+    const crossed = await this.checkBudgetLimits(userId, totalCost);
+    const withinBudget = crossed.length === 0;
+    // Only the first crossing in a period is stored and reported
+    const alerts = await storage.llmUsage.createAlerts(crossed);
+
     // Record usage
-    const usageRecord: UsageRecord = {
+    await storage.llmUsage.createUsage({
       userId,
       model,
       inputTokens,
@@ -85,18 +85,7 @@ export class LLMCostTracker {
       requestId: requestId ?? `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: new Date(),
       operation
-    };
-
-    this.usageRecords.push(usageRecord);
-
-    // Trim old records to prevent memory issues (keep last 10,000)
-    if (this.usageRecords.length > 10000) {
-      this.usageRecords = this.usageRecords.slice(-10000);
-    }
-
-    // Check budget limits and generate alerts
-    const alerts = await this.checkBudgetLimits(userId, totalCost);
-    const withinBudget = alerts.length === 0;
+    });
 
     return { cost: totalCost, withinBudget, alerts };
   }
@@ -104,17 +93,67 @@ export class LLMCostTracker {
   /**
    * Set budget limits for a user
    */
-  setBudgetLimits(userId: string, limits: Omit<BudgetLimits, 'userId'>): void {
-    this.budgetLimits.set(userId, { ...limits, userId });
+  async setBudgetLimits(
+    userId: string,
+    limits: Omit<BudgetLimits, 'userId' | 'policy'> & { policy?: LLMBudgetPolicy }
+  ): Promise<void> {
+    await storage.llmUsage.upsertBudget({ ...limits, userId });
+  }
+
+  /**
+   * Get budget limits for a user, if any have been set
+   */
+  async getBudgetLimits(userId: string): Promise<BudgetLimits | undefined> {
+    const budget = await storage.llmUsage.getBudget(userId);
+    if (!budget) return undefined;
+    return { ...budget, policy: this.toPolicy(budget.policy) };
+  }
+
+  /**
+   * Decide whether a request may be dispatched under the user's budget.
+   * A limit of 0 means no cap for that period; free models are always allowed.
+   */
+  async checkBudget(userId: string, model: string): Promise<LLMBudgetDecision> {
+    const budgetLimits = await this.getBudgetLimits(userId);
+    if (!budgetLimits || this.isFreeModel(model)) {
+      return { action: 'allow', model };
+    }
+
+    const now = new Date();
+    const [todayCost, monthlyCost] = await Promise.all([
+      this.getDailyCost(userId, now),
+      this.getMonthlyCost(userId, now),
+    ]);
+
+    let period: 'daily' | 'monthly';
+    let resetAt: Date;
+    if (budgetLimits.monthlyLimit > 0 && monthlyCost >= budgetLimits.monthlyLimit) {
+      period = 'monthly';
+      resetAt = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    } else if (budgetLimits.dailyLimit > 0 && todayCost >= budgetLimits.dailyLimit) {
+      period = 'daily';
+      resetAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    } else {
+      return { action: 'allow', model };
+    }
+
+    switch (budgetLimits.policy) {
+      case 'downgrade':
+        return { action: 'downgrade', model: FREE_FALLBACK_MODEL, period, resetAt };
+      case 'queue':
+        return { action: 'queue', model, period, resetAt };
+      default:
+        return { action: 'block', model, period, resetAt };
+    }
   }
 
   /**
    * Get cost statistics for a user
    */
-  getCostStats(
+  async getCostStats(
     userId: string,
     timeframe: 'day' | 'week' | 'month' | 'all' = 'month'
-  ): {
+  ): Promise<{
     totalCost: number;
     totalRequests: number;
     avgCostPerRequest: number;
@@ -122,7 +161,7 @@ export class LLMCostTracker {
     operationBreakdown: Record<string, { cost: number; requests: number }>;
     dailyTrend: Array<{ date: string; cost: number; requests: number }>;
     budgetUtilization?: { daily: number; monthly: number };
-  } {
+  }> {
     const now = new Date();
     let startDate: Date;
 
@@ -140,9 +179,7 @@ export class LLMCostTracker {
         startDate = new Date(0);
     }
 
-    const userRecords = this.usageRecords.filter(
-      record => record.userId === userId && record.timestamp >= startDate
-    );
+    const userRecords = await storage.llmUsage.getUsageByUserId(userId, startDate);
 
     // Calculate totals
     const totalCost = userRecords.reduce((sum, record) => sum + record.cost, 0);
@@ -188,10 +225,12 @@ export class LLMCostTracker {
 
     // Budget utilization
     let budgetUtilization: { daily: number; monthly: number } | undefined;
-    const budgetLimits = this.budgetLimits.get(userId);
+    const budgetLimits = await this.getBudgetLimits(userId);
     if (budgetLimits) {
-      const todayCost = this.getDailyCost(userId, now);
-      const monthlyCost = this.getMonthlyCost(userId, now);
+      const [todayCost, monthlyCost] = await Promise.all([
+        this.getDailyCost(userId, now),
+        this.getMonthlyCost(userId, now),
+      ]);
       
       budgetUtilization = {
         daily: budgetLimits.dailyLimit > 0 ? (todayCost / budgetLimits.dailyLimit) * 100 : 0,
@@ -213,17 +252,17 @@ export class LLMCostTracker {
   /**
    * Get cost-optimized model recommendation
    */
-  getModelRecommendation(
+  async getModelRecommendation(
     userId: string,
     operation: string,
     estimatedTokens: number
-  ): {
+  ): Promise<{
     recommendedModel: string;
     estimatedCost: number;
     reason: string;
     alternatives: Array<{ model: string; cost: number; reason: string }>;
-  } {
-    const userStats = this.getCostStats(userId, 'month');
+  }> {
+    const userStats = await this.getCostStats(userId, 'month');
     const alternatives: Array<{ model: string; cost: number; reason: string }> = [];
 
     // Calculate estimated costs for each model
@@ -274,14 +313,14 @@ export class LLMCostTracker {
   /**
    * Generate cost optimization report
    */
-  generateOptimizationReport(userId: string): {
+  async generateOptimizationReport(userId: string): Promise<{
     currentMonthSpend: number;
     projectedMonthSpend: number;
     potentialSavings: number;
     recommendations: string[];
     topCostDrivers: Array<{ operation: string; cost: number; percentage: number }>;
-  } {
-    const stats = this.getCostStats(userId, 'month');
+  }> {
+    const stats = await this.getCostStats(userId, 'month');
     const dailyAverage = stats.dailyTrend.reduce((sum, day) => sum + day.cost, 0) / 30;
     const projectedMonthSpend = dailyAverage * 30;
 
@@ -325,129 +364,128 @@ export class LLMCostTracker {
     };
   }
 
-  private async checkBudgetLimits(userId: string, newCost: number): Promise<CostAlert[]> {
-    const budgetLimits = this.budgetLimits.get(userId);
+  /**
+   * Get daily and monthly spend rollups broken down by model and operation
+   */
+  async getSpendRollups(userId: string): Promise<{
+    daily: LlmSpendRollup[];
+    monthly: LlmSpendRollup[];
+  }> {
+    const now = new Date();
+    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const twelveMonthsAgo = new Date(now.getFullYear() - 1, now.getMonth() + 1, 1);
+
+    const [daily, monthly] = await Promise.all([
+      storage.llmUsage.getSpendRollups(userId, 'day', thirtyDaysAgo),
+      storage.llmUsage.getSpendRollups(userId, 'month', twelveMonthsAgo),
+    ]);
+
+    return { daily, monthly };
+  }
+
+  private isFreeModel(model: string): boolean {
+    const pricing = this.MODEL_PRICING[model];
+    return pricing !== undefined && pricing.inputTokenCost === 0 && pricing.outputTokenCost === 0;
+  }
+
+  private toPolicy(value: string): LLMBudgetPolicy {
+    return value === 'downgrade' || value === 'queue' ? value : 'block';
+  }
+
+  // Alerts for every limit the user is at or over the alert threshold of, once newCost is added
+  private async checkBudgetLimits(
+    userId: string,
+    newCost: number
+  ): Promise<Array<Omit<CostAlert, 'id'>>> {
+    const budgetLimits = await this.getBudgetLimits(userId);
     if (!budgetLimits) return [];
 
-    const alerts: CostAlert[] = [];
+    const pendingAlerts: Array<Omit<CostAlert, 'id'>> = [];
     const now = new Date();
+    const thresholdShare = budgetLimits.alertThreshold / 100;
 
     // Check daily limit
-    const todayCost = this.getDailyCost(userId, now) + newCost;
-    if (todayCost >= budgetLimits.dailyLimit * (budgetLimits.alertThreshold / 100)) {
-      alerts.push({
+    const todayCost = (await this.getDailyCost(userId, now)) + newCost;
+    if (budgetLimits.dailyLimit > 0 && todayCost >= budgetLimits.dailyLimit * thresholdShare) {
+      pendingAlerts.push({
         userId,
         alertType: 'daily_limit',
         threshold: budgetLimits.dailyLimit,
         currentValue: todayCost,
+        periodStart: this.startOfDay(now),
         timestamp: now
       });
     }
 
     // Check monthly limit
-    const monthlyCost = this.getMonthlyCost(userId, now) + newCost;
-    if (monthlyCost >= budgetLimits.monthlyLimit * (budgetLimits.alertThreshold / 100)) {
-      alerts.push({
+    const monthlyCost = (await this.getMonthlyCost(userId, now)) + newCost;
+    if (budgetLimits.monthlyLimit > 0 && monthlyCost >= budgetLimits.monthlyLimit * thresholdShare) {
+      pendingAlerts.push({
         userId,
         alertType: 'monthly_limit',
         threshold: budgetLimits.monthlyLimit,
         currentValue: monthlyCost,
+        periodStart: this.startOfMonth(now),
         timestamp: now
       });
     }
 
-    // Store alerts
-    this.costAlerts.push(...alerts);
+    return pendingAlerts;
+  }
 
-    return alerts;
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
   }
 
-  private getDailyCost(userId: string, date: Date): number {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+  private startOfMonth(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+
+  private async getDailyCost(userId: string, date: Date): Promise<number> {
     const endOfDay = new Date(date);
     endOfDay.setHours(23, 59, 59, 999);
 
-    return this.usageRecords
-      .filter(record => 
-        record.userId === userId && 
-        record.timestamp >= startOfDay && 
-        record.timestamp <= endOfDay
-      )
-      .reduce((sum, record) => sum + record.cost, 0);
+    return storage.llmUsage.getCostBetween(userId, this.startOfDay(date), endOfDay);
   }
 
-  private getMonthlyCost(userId: string, date: Date): number {
-    const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  private async getMonthlyCost(userId: string, date: Date): Promise<number> {
     const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
 
-    return this.usageRecords
-      .filter(record => 
-        record.userId === userId && 
-        record.timestamp >= startOfMonth && 
-        record.timestamp <= endOfMonth
-      )
-      .reduce((sum, record) => sum + record.cost, 0);
+    return storage.llmUsage.getCostBetween(userId, this.startOfMonth(date), endOfMonth);
   }
 
   /**
    * Export usage data for analysis
    */
-  exportUsageData(userId: string, startDate?: Date, endDate?: Date): UsageRecord[] {
-    let records = this.usageRecords.filter(record => record.userId === userId);
-
-    if (startDate) {
-      records = records.filter(record => record.timestamp >= startDate);
-    }
-
-    if (endDate) {
-      records = records.filter(record => record.timestamp <= endDate);
-    }
-
-    return records;
+  async exportUsageData(userId: string, startDate?: Date, endDate?: Date): Promise<UsageRecord[]> {
+    return storage.llmUsage.getUsageByUserId(userId, startDate, endDate);
   }
 
   /**
    * Get system-wide cost statistics (admin function)
    */
-  getSystemStats(): {
+  async getSystemStats(): Promise<{
     totalUsers: number;
     totalCost: number;
     totalRequests: number;
     topUsers: Array<{ userId: string; cost: number; requests: number }>;
     topModels: Array<{ model: string; cost: number; requests: number }>;
-  } {
-    const userStats = new Map<string, { cost: number; requests: number }>();
-    const modelStats = new Map<string, { cost: number; requests: number }>();
-
-    for (const record of this.usageRecords) {
-      // User stats
-      if (!userStats.has(record.userId)) {
-        userStats.set(record.userId, { cost: 0, requests: 0 });
-      }
-      const userStat = userStats.get(record.userId)!;
-      userStat.cost += record.cost;
-      userStat.requests += 1;
-
-      // Model stats
-      if (!modelStats.has(record.model)) {
-        modelStats.set(record.model, { cost: 0, requests: 0 });
-      }
-      const modelStat = modelStats.get(record.model)!;
-      modelStat.cost += record.cost;
-      modelStat.requests += 1;
-    }
+  }> {
+    const [userTotals, modelTotals] = await Promise.all([
+      storage.llmUsage.getSpendTotalsByUser(),
+      storage.llmUsage.getSpendTotalsByModel(),
+    ]);
 
     return {
-      totalUsers: userStats.size,
-      totalCost: this.usageRecords.reduce((sum, record) => sum + record.cost, 0),
-      totalRequests: this.usageRecords.length,
-      topUsers: Array.from(userStats.entries())
-        .map(([userId, stats]) => ({ userId, ...stats }))
+      totalUsers: userTotals.length,
+      totalCost: userTotals.reduce((sum, total) => sum + total.cost, 0),
+      totalRequests: userTotals.reduce((sum, total) => sum + total.requests, 0),
+      topUsers: userTotals
+        .map(({ key, cost, requests }) => ({ userId: key, cost, requests }))
         .sort((a, b) => b.cost - a.cost)
         .slice(0, 10),
-      topModels: Array.from(modelStats.entries())
-        .map(([model, stats]) => ({ model, ...stats }))
+      topModels: modelTotals
+        .map(({ key, cost, requests }) => ({ model: key, cost, requests }))
         .sort((a, b) => b.cost - a.cost)
     };
   }
@@ -376,7 +376,7 @@ Only include URLs that you can reasonably infer from the provided information. U
       console.log(`Starting batch photo enrichment for ${consentedContacts.length} contacts`);
 
       // Get cost recommendation for this batch
-      const costRecommendation = llmCostTracker.getModelRecommendation(
+      const costRecommendation = await llmCostTracker.getModelRecommendation(
         userId,
         'photo_enrichment',
         consentedContacts.length * 200 // Estimate 200 tokens per contact for social media extraction
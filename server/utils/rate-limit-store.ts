@@ -0,0 +1,120 @@
+/**
+ * Pluggable storage for rate limit token buckets.
+ * The in-memory store is the default; the Postgres store lets limits survive
+ * restarts and be shared by multiple server instances.
+ */
+
+import { storage } from '../data/index.js';
+
+export interface TokenBucket {
+  tokens: number; // May be fractional while the bucket refills
+  updatedAt: number;
+}
+
+export interface BucketLimit {
+  capacity: number;
+  refillMs: number; // Time for an empty bucket to fill up again
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  bucket: TokenBucket;
+}
+
+export interface RateLimitStore {
+  /** Refill the bucket for the time elapsed and take one token from it if one is left */
+  take(key: string, limit: BucketLimit): Promise<TakeResult>;
+  /** Read a bucket without taking from it */
+  get(key: string): Promise<TokenBucket | undefined>;
+  reset(key: string): Promise<void>;
+  /** Drop buckets idle for longer than maxIdleMs; they would be full again anyway */
+  cleanup(maxIdleMs: number): Promise<void>;
+}
+
+/**
+ * Tokens in a bucket at `now`, refilled at capacity / refillMs per millisecond. A bucket that
+ * has never been used starts full.
+ */
+export function refillTokens(
+  bucket: TokenBucket | undefined,
+  limit: BucketLimit,
+  now: number
+): number {
+  if (!bucket) return limit.capacity;
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  return Math.min(limit.capacity, bucket.tokens + (elapsed * limit.capacity) / limit.refillMs);
+}
+
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  limit: BucketLimit,
+  now: number
+): TakeResult {
+  const tokens = refillTokens(bucket, limit, now);
+  const allowed = tokens >= 1;
+  return { allowed, bucket: { tokens: allowed ? tokens - 1 : tokens, updatedAt: now } };
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>();
+
+  async take(key: string, limit: BucketLimit): Promise<TakeResult> {
+    const result = takeToken(this.buckets.get(key), limit, Date.now());
+    this.buckets.set(key, result.bucket);
+    return { allowed: result.allowed, bucket: { ...result.bucket } };
+  }
+
+  async get(key: string): Promise<TokenBucket | undefined> {
+    const bucket = this.buckets.get(key);
+    return bucket ? { ...bucket } : undefined;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  async cleanup(maxIdleMs: number): Promise<void> {
+    const cutoff = Date.now() - maxIdleMs;
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.updatedAt < cutoff) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  async take(key: string, limit: BucketLimit): Promise<TakeResult> {
+    return storage.rateLimits.updateBucket(key, (stored) => {
+      const bucket = stored && { tokens: stored.tokens, updatedAt: stored.updatedAt.getTime() };
+      const result = takeToken(bucket, limit, Date.now());
+      return {
+        state: { tokens: result.bucket.tokens, updatedAt: new Date(result.bucket.updatedAt) },
+        result,
+      };
+    });
+  }
+
+  async get(key: string): Promise<TokenBucket | undefined> {
+    const bucket = await storage.rateLimits.getBucket(key);
+    return bucket ? { tokens: bucket.tokens, updatedAt: bucket.updatedAt.getTime() } : undefined;
+  }
+
+  async reset(key: string): Promise<void> {
+    await storage.rateLimits.deleteBucket(key);
+  }
+
+  async cleanup(maxIdleMs: number): Promise<void> {
+    await storage.rateLimits.deleteIdleBuckets(new Date(Date.now() - maxIdleMs));
+  }
+}
+
+/**
+ * Select the store from RATE_LIMIT_STORE ("memory" or "postgres")
+ */
+export function createRateLimitStore(type = process.env.RATE_LIMIT_STORE): RateLimitStore {
+  if (type === 'postgres') {
+    return new PostgresRateLimitStore();
+  }
+  return new MemoryRateLimitStore();
+}
@@ -1,14 +1,38 @@
+import {
+  createRateLimitStore,
+  refillTokens,
+  type BucketLimit,
+  type RateLimitStore,
+} from './rate-limit-store.js';
+
 interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
   modelType: 'free' | 'premium';
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+// A budget of maxRequests that refills evenly over windowMs
+export interface RateLimitWindow {
+  windowMs: number;
+  maxRequests: number;
 }
 
+export interface ConsumeResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // When the bucket is full again
+  retryTime: number; // When the next request will be allowed
+}
+
+// Buckets idle for longer than the longest window are full again and can be dropped
+const MAX_BUCKET_IDLE_MS = 60 * 60 * 1000;
+
+const toBucketLimit = (window: RateLimitWindow): BucketLimit => ({
+  capacity: window.maxRequests,
+  refillMs: window.windowMs,
+});
+
 export interface UsageStats {
   freeModelUsage: { count: number; resetTime: number | null };
   premiumModelUsage: { count: number; resetTime: number | null };
@@ -21,7 +45,7 @@ export interface ModelRecommendation {
 }
 
 export class RateLimiter {
-  private limits: Map<string, RateLimitEntry> = new Map();
+  private store: RateLimitStore;
   private config: Record<string, RateLimitConfig> = {
     'meta-llama/llama-3.1-8b-instruct:free': {
       windowMs: 60 * 1000, // 1 minute
@@ -35,6 +59,26 @@ export class RateLimiter {
     },
   };
 
+  constructor(store: RateLimitStore = createRateLimitStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Take one request from a token bucket and report whether it fits the budget. Shared by the
+   * per-model limits below (and so AdvancedRateLimiter) and the HTTP middleware in security.ts.
+   */
+  async consume(key: string, window: RateLimitWindow): Promise<ConsumeResult> {
+    const { allowed, bucket } = await this.store.take(key, toBucketLimit(window));
+    const msPerToken = window.windowMs / window.maxRequests;
+    return {
+      allowed,
+      limit: window.maxRequests,
+      remaining: Math.floor(bucket.tokens),
+      resetTime: bucket.updatedAt + Math.ceil((window.maxRequests - bucket.tokens) * msPerToken),
+      retryTime: bucket.updatedAt + Math.ceil(Math.max(0, 1 - bucket.tokens) * msPerToken),
+    };
+  }
+
   async checkLimit(
     userId: string,
     model: string
@@ -44,27 +88,9 @@ export class RateLimiter {
       return { allowed: true }; // No limit configured for this model
     }
 
-    const key = `${userId}:${model}`;
-    const now = Date.now();
-    const entry = this.limits.get(key);
-
-    // Clean up expired entries
-    if (entry && now > entry.resetTime) {
-      this.limits.delete(key);
-    }
-
-    const currentEntry = this.limits.get(key);
-
-    if (!currentEntry) {
-      // First request in window
-      this.limits.set(key, {
-        count: 1,
-        resetTime: now + config.windowMs,
-      });
-      return { allowed: true };
-    }
+    const result = await this.consume(`model:${userId}:${model}`, config);
 
-    if (currentEntry.count >= config.maxRequests) {
+    if (!result.allowed) {
       // Rate limit exceeded
       const suggestion =
         config.modelType === 'premium'
@@ -73,13 +99,11 @@ export class RateLimiter {
 
       return {
         allowed: false,
-        resetTime: currentEntry.resetTime,
+        resetTime: result.retryTime,
         suggestion,
       };
     }
 
-    // Increment count
-    currentEntry.count++;
     return { allowed: true };
   }
 
@@ -100,54 +124,64 @@ export class RateLimiter {
   }
 
   async getUsageStats(userId: string): Promise<UsageStats> {
-    const freeKey = `${userId}:meta-llama/llama-3.1-8b-instruct:free`;
-    const premiumKey = `${userId}:qwen/qwen3-235b-a22b-2507`;
+    const freeModel = 'meta-llama/llama-3.1-8b-instruct:free';
+    const premiumModel = 'qwen/qwen3-235b-a22b-2507';
 
-    const freeEntry = this.limits.get(freeKey);
-    const premiumEntry = this.limits.get(premiumKey);
+    const [freeUsage, premiumUsage] = await Promise.all([
+      this.getModelUsage(userId, freeModel),
+      this.getModelUsage(userId, premiumModel),
+    ]);
 
     const recommendations = [];
 
     // Generate recommendations based on usage
-    if (premiumEntry && premiumEntry.count > 40) {
+    if (premiumUsage.count > 40) {
       recommendations.push('Consider using free model for bulk operations to save costs');
     }
 
-    if (freeEntry && freeEntry.count > 15) {
+    if (freeUsage.count > 15) {
       recommendations.push('Free model usage is high - premium model offers better accuracy');
     }
 
-    if (!freeEntry && !premiumEntry) {
+    if (freeUsage.resetTime === null && premiumUsage.resetTime === null) {
       recommendations.push('Start with free model for testing, upgrade to premium for production');
     }
 
     return {
-      freeModelUsage: {
-        count: freeEntry?.count ?? 0,
-        resetTime: freeEntry?.resetTime ?? null,
-      },
-      premiumModelUsage: {
-        count: premiumEntry?.count ?? 0,
-        resetTime: premiumEntry?.resetTime ?? null,
-      },
+      freeModelUsage: freeUsage,
+      premiumModelUsage: premiumUsage,
       recommendations,
     };
   }
 
-  // Clean up expired entries periodically
-  cleanup(): void {
+  // Requests still counted against a model's bucket, and when it will be full again
+  private async getModelUsage(
+    userId: string,
+    model: string
+  ): Promise<{ count: number; resetTime: number | null }> {
+    const limit = toBucketLimit(this.config[model]);
     const now = Date.now();
-    for (const [key, entry] of this.limits.entries()) {
-      if (now > entry.resetTime) {
-        this.limits.delete(key);
-      }
+    const used = limit.capacity - refillTokens(await this.store.get(`model:${userId}:${model}`), limit, now);
+    if (used <= 0) {
+      return { count: 0, resetTime: null };
     }
+    return {
+      count: Math.ceil(used),
+      resetTime: now + Math.ceil((used * limit.refillMs) / limit.capacity),
+    };
+  }
+
+  // Clean up idle buckets periodically
+  async cleanup(): Promise<void> {
+    await this.store.cleanup(MAX_BUCKET_IDLE_MS);
   }
 }
 
 export const rateLimiter = new RateLimiter();
 
-// Clean up expired entries every 5 minutes
+// Clean up idle buckets every 5 minutes
 setInterval(() => {
-  rateLimiter.cleanup();
+  rateLimiter.cleanup().catch((error) => {
+    console.warn('Rate limit cleanup failed:', error);
+  });
 }, 5 * 60 * 1000);
@@ -0,0 +1,180 @@
+/**
+ * Recurrence rules for repeating tasks, a subset of RFC 5545 RRULE
+ * e.g. "FREQ=WEEKLY;BYDAY=MO" (every Monday) or "FREQ=MONTHLY;BYMONTHDAY=-1" (last day of the month)
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (weekly only),
+ * BYMONTHDAY (monthly only, -1 for the last day), COUNT and UNTIL.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  getDaysInMonth,
+  setDate,
+  startOfMonth,
+} from 'date-fns';
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+// Guards against rules that can never produce a date, e.g. BYMONTHDAY=31 every 12 months from June
+const MAX_STEPS = 500;
+
+function parseInteger(value: string, min: number, max: number): number | undefined {
+  if (!/^-?\d+$/.test(value)) return undefined;
+  const number = Number(value);
+  return number >= min && number <= max ? number : undefined;
+}
+
+function parseUntil(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". An "RRULE:" prefix is allowed.
+ * Returns undefined for rules using unsupported parts rather than ignoring them.
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | undefined {
+  if (!value) return undefined;
+
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, partValue, ...rest] = part.split('=');
+    if (!partValue || rest.length > 0 || parts.has(key.toUpperCase())) return undefined;
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = FREQUENCIES.find((f) => f === parts.get('FREQ'));
+  if (!freq) return undefined;
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = parseInteger(partValue, 1, 99);
+        if (interval === undefined) return undefined;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = partValue.split(',');
+        if (freq !== 'WEEKLY' || !days.every((day) => WEEKDAYS.includes(day as Weekday))) return undefined;
+        rule.byDay = [...new Set(days as Weekday[])];
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const day = parseInteger(partValue, -1, 31);
+        if (freq !== 'MONTHLY' || day === undefined || day === 0) return undefined;
+        rule.byMonthDay = day;
+        break;
+      }
+      case 'COUNT': {
+        const count = parseInteger(partValue, 1, 1000);
+        if (count === undefined || rule.until) return undefined;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(partValue);
+        if (!until || rule.count) return undefined;
+        rule.until = until;
+        break;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    rule.interval > 1 ? `INTERVAL=${rule.interval}` : undefined,
+    rule.byDay?.length ? `BYDAY=${rule.byDay.join(',')}` : undefined,
+    rule.byMonthDay ? `BYMONTHDAY=${rule.byMonthDay}` : undefined,
+    rule.count ? `COUNT=${rule.count}` : undefined,
+    rule.until ? `UNTIL=${formatUntil(rule.until)}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(';');
+}
+
+function monthDay(month: Date, byMonthDay: number, time: Date): Date {
+  const days = getDaysInMonth(month);
+  const day = byMonthDay === -1 ? days : Math.min(byMonthDay, days);
+  const date = setDate(month, day);
+  date.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return date;
+}
+
+function step(rule: RecurrenceRule, after: Date): Date | undefined {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(after, rule.interval);
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return addWeeks(after, rule.interval);
+      // The week of `after` is an active week; then every interval-th week after it
+      for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+        const candidate = addDays(after, offset);
+        const weeks = differenceInCalendarWeeks(candidate, after, { weekStartsOn: 1 });
+        if (weeks % rule.interval === 0 && rule.byDay.includes(WEEKDAYS[candidate.getDay()])) {
+          return candidate;
+        }
+      }
+      return undefined;
+    }
+    case 'MONTHLY': {
+      if (!rule.byMonthDay) return addMonths(after, rule.interval);
+      for (let months = 0; months <= 12 * rule.interval; months += rule.interval) {
+        const candidate = monthDay(addMonths(startOfMonth(after), months), rule.byMonthDay, after);
+        if (candidate > after) return candidate;
+      }
+      return undefined;
+    }
+    case 'YEARLY':
+      return addYears(after, rule.interval);
+  }
+}
+
+/**
+ * The first occurrence after `after` (exclusive) that is not before `notBefore`, keeping the
+ * time of day. Occurrences missed before `notBefore` are skipped. Returns undefined once the
+ * rule's UNTIL has passed; COUNT depends on the series and is left to the caller.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date, notBefore?: Date): Date | undefined {
+  let candidate = step(rule, after);
+  for (let steps = 0; candidate && notBefore && candidate < notBefore; steps++) {
+    if (steps >= MAX_STEPS) return undefined;
+    candidate = step(rule, candidate);
+  }
+  if (!candidate || (rule.until && candidate > rule.until)) return undefined;
+  return candidate;
+}
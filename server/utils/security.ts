@@ -4,6 +4,7 @@ import { body, param, validationResult, type ValidationChain } from 'express-val
 import type { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import path from 'path';
+import { rateLimiter } from './rate-limiter.js';
 
 // CSRF Token Management
 class CSRFTokenManager {
@@ -25,38 +26,95 @@ class CSRFTokenManager {
 
 export const csrfTokenManager = new CSRFTokenManager();
 
-// Rate Limiting Configurations - COMPLETELY DISABLED
-export const createRateLimit = (_windowMs: number, _max: number, _message?: string) => {
-  // COMPLETELY BYPASS ALL RATE LIMITING
-  return (req: Request, res: Response, next: NextFunction) => next();
+// Rate Limiting Configurations
+// Token buckets live in the shared RateLimiter store (memory by default, Postgres when
+// RATE_LIMIT_STORE=postgres), so limits hold across restarts and instances.
+const getRateLimitSubject = (req: Request): string => {
+  const user = req.user as { id?: unknown } | undefined;
+  if (typeof user?.id === 'string') {
+    return `user:${user.id}`;
+  }
+  return `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`;
 };
 
+export const createRateLimit = (
+  name: string,
+  windowMs: number,
+  max: number,
+  message = 'Too many requests, please try again later.'
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await rateLimiter.consume(`${name}:${getRateLimitSubject(req)}`, {
+        windowMs,
+        maxRequests: max,
+      });
+      const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', result.limit);
+      res.setHeader('RateLimit-Remaining', result.remaining);
+      res.setHeader('RateLimit-Reset', secondsUntil(result.resetTime));
+
+      if (!result.allowed) {
+        const retryAfter = secondsUntil(result.retryTime);
+        res.setHeader('Retry-After', retryAfter);
+        res.status(429).json({ error: message, retryAfter });
+        return;
+      }
+    } catch (error) {
+      // Fail open: an unavailable store must not take the API down with it
+      console.warn(`Rate limit store unavailable for ${name}:`, error);
+    }
+    next();
+  };
+};
+
+/**
+ * Read the Express 'trust proxy' setting from TRUST_PROXY: a hop count, "true", or a
+ * comma-separated list of proxy addresses. Unset, empty or "false" trusts no proxy.
+ */
+export function parseTrustProxy(value: string | undefined): boolean | number | string {
+  const setting = value?.trim() ?? '';
+  if (setting === '' || setting === 'false') return false;
+  if (setting === 'true') return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+}
+
 // Different rate limits for different endpoints - adjusted for development
 const isDevelopment = process.env.NODE_ENV === 'development';
 
+// Covers every /api request, including the client's polling, so it only stops runaway callers
 export const generalRateLimit = createRateLimit(
-  15 * 60 * 1000, 
-  isDevelopment ? 999999 : 100
-); // TEMPORARILY DISABLED - 999999 requests per 15 minutes in dev, 100 in prod
+  'general',
+  1 * 60 * 1000,
+  isDevelopment ? 999999 : 600
+); // 999999 requests per minute in dev, 600 in prod
 
 export const authRateLimit = createRateLimit(
+  'auth',
   15 * 60 * 1000, 
-  isDevelopment ? 50 : 5
+  isDevelopment ? 50 : 5,
+  'Too many login attempts, please try again later.'
 ); // 50 login attempts per 15 minutes in dev, 5 in prod
 
 export const apiRateLimit = createRateLimit(
+  'api',
   1 * 60 * 1000, 
   isDevelopment ? 300 : 60
 ); // 300 API requests per minute in dev, 60 in prod
 
 export const uploadRateLimit = createRateLimit(
+  'upload',
   15 * 60 * 1000, 
-  isDevelopment ? 50 : 10
+  isDevelopment ? 50 : 10,
+  'Too many uploads, please try again later.'
 ); // 50 uploads per 15 minutes in dev, 10 in prod
 
 export const aiRateLimit = createRateLimit(
+  'ai',
   1 * 60 * 1000, 
-  isDevelopment ? 100 : 20
+  isDevelopment ? 100 : 20,
+  'Too many AI requests, please try again later.'
 ); // 100 AI requests per minute in dev, 20 in prod
 
 // Extend session type
@@ -131,6 +189,58 @@ export const validateContactId: ValidationChain[] = [
   param('id').isUUID().withMessage('Invalid contact ID format')
 ];
 
+export const validateChatSessionId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid chat session ID format')
+];
+
+export const validateDocumentId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid document ID format')
+];
+
+export const validateAttendanceProfileId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid import profile ID format')
+];
+
+export const validateImportJobId: ValidationChain[] = [
+  param('jobId').isUUID().withMessage('Invalid import job ID format')
+];
+
+export const validateEmailProcessingJobId: ValidationChain[] = [
+  param('jobId').isUUID().withMessage('Invalid email processing job ID format')
+];
+
+export const validateVoiceNoteId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid voice note ID format')
+];
+
+export const validateContactGroupId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid group ID format')
+];
+
+export const validateLifecycleRuleId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid rule ID format')
+];
+
+export const validateReferralId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid referral ID format')
+];
+
+export const validateTagId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid tag ID format')
+];
+
+export const validateTaskTemplateId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid task template ID format')
+];
+
+export const validateTimeEntryId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid time entry ID format')
+];
+
+export const validateGoalId: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid goal ID format')
+];
+
 export const validateContactCreation: ValidationChain[] = [
   body('name')
     .trim()
@@ -160,18 +270,25 @@ export const validateInteractionCreation: ValidationChain[] = [
     .escape(), // Sanitize HTML
 ];
 
+// Subject and body go into a plain-text message, never into HTML, so they are not escaped
 export const validateEmailSend: ValidationChain[] = [
   body('to').isEmail().withMessage('Invalid recipient email').normalizeEmail(),
   body('subject')
     .trim()
     .isLength({ min: 1, max: 200 })
-    .withMessage('Subject must be 1-200 characters')
-    .escape(),
+    .withMessage('Subject must be 1-200 characters'),
   body('body')
     .trim()
     .isLength({ min: 1, max: 10000 })
-    .withMessage('Body must be 1-10000 characters')
-    .escape(),
+    .withMessage('Body must be 1-10000 characters'),
+];
+
+export const validateEmailThreadId: ValidationChain[] = [
+  param('threadId').matches(/^[A-Za-z0-9_-]{1,100}$/).withMessage('Invalid thread ID format')
+];
+
+export const validateGmailDraftId: ValidationChain[] = [
+  param('draftId').matches(/^[A-Za-z0-9_-]{1,100}$/).withMessage('Invalid draft ID format')
 ];
 
 // Validation Error Handler
@@ -0,0 +1,122 @@
+/**
+ * Reads uploaded CSV and XLSX files into rows of trimmed cell text
+ */
+
+import ExcelJS from 'exceljs';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Parse CSV text, detecting comma, semicolon or tab delimiters and honouring quoted fields.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+export function isXlsxFile(fileName: string, mimeType?: string): boolean {
+  return mimeType === XLSX_MIME_TYPE || fileName.toLowerCase().endsWith('.xlsx');
+}
+
+/**
+ * Read the rows of a CSV file or the first worksheet of an XLSX workbook as text.
+ */
+export async function readSheetRows(
+  data: Buffer,
+  fileName: string,
+  mimeType?: string
+): Promise<string[][]> {
+  if (!isXlsxFile(fileName, mimeType)) {
+    return parseCsv(data.toString('utf-8'));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      // Date cells would otherwise render in the spreadsheet's display format; ExcelJS reads them as UTC
+      cells[column - 1] =
+        cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text.trim();
+    });
+    const values = Array.from(cells, (cell) => cell ?? '');
+    if (values.some((cell) => cell !== '')) rows.push(values);
+  });
+  return rows;
+}
+
+export function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Map each field to the first unused header matching one of its synonyms. Synonyms are
+ * compared after normalizeHeader, so "E-mail" matches "e mail".
+ */
+export function detectColumns<F extends string>(
+  headers: string[],
+  fields: readonly F[],
+  synonyms: Record<F, string[]>
+): Partial<Record<F, string>> {
+  const mapping: Partial<Record<F, string>> = {};
+  const used = new Set<string>();
+
+  for (const field of fields) {
+    const header = headers.find(
+      (candidate) => !used.has(candidate) && synonyms[field].includes(normalizeHeader(candidate))
+    );
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
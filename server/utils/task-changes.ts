@@ -0,0 +1,68 @@
+// Fields whose changes are recorded in task activity metadata; ordering and AI output are left out
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'owner',
+  'projectId',
+  'parentTaskId',
+  'dueDate',
+  'completedAt',
+  'estimatedMinutes',
+  'actualMinutes',
+  'assignedContactIds',
+  'recurrenceRule',
+  'requiresApproval',
+  'approvedAt',
+  'rejectedAt',
+  'rejectionReason',
+] as const;
+
+export type TrackedTaskField = (typeof TRACKED_FIELDS)[number] | 'tagIds';
+
+// A task, an update to one or a new task's values
+type TaskFields = { [Field in (typeof TRACKED_FIELDS)[number]]?: unknown };
+
+export interface TaskFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type TaskChanges = Partial<Record<TrackedTaskField, TaskFieldChange>>;
+
+// Dates are stored as ISO strings so the diff reads the same in jsonb as in the API
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+/**
+ * The tracked fields that an update sets to a different value, as { field: { from, to } }.
+ * Fields missing from the update are unchanged; without a previous task every set field is new.
+ */
+export function diffTaskFields(
+  before: TaskFields | undefined,
+  updates: TaskFields
+): TaskChanges {
+  const changes: TaskChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    if (updates[field] === undefined) continue;
+    const from = normalize(before?.[field]);
+    const to = normalize(updates[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Tag changes in the same shape, comparing the task's tag ids regardless of order.
+ */
+export function diffTagIds(before: string[], after: string[]): TaskChanges {
+  const from = [...before].sort();
+  const to = [...after].sort();
+  return JSON.stringify(from) === JSON.stringify(to) ? {} : { tagIds: { from, to } };
+}
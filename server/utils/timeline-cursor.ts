@@ -0,0 +1,64 @@
+/**
+ * Cursor pagination over a contact timeline merged from several tables.
+ * Items are ordered newest first; ties on the timestamp are broken by source type, then by ID,
+ * so every item has a unique position and a cursor can point between any two items.
+ */
+
+import type { TimelineItem, TimelineItemType } from '../types/service-contracts.js';
+
+export const TIMELINE_TYPES: TimelineItemType[] = ['interaction', 'email', 'calendar_event', 'task'];
+
+export interface TimelineCursor {
+  timestamp: Date;
+  type: TimelineItemType;
+  id: string;
+}
+
+export function encodeTimelineCursor(item: Pick<TimelineItem, 'timestamp' | 'type' | 'id'>): string {
+  return Buffer.from(`${item.timestamp.toISOString()}|${item.type}|${item.id}`).toString('base64url');
+}
+
+/**
+ * Returns undefined for cursors that were not produced by encodeTimelineCursor.
+ */
+export function decodeTimelineCursor(cursor: string): TimelineCursor | undefined {
+  const [timestamp, type, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(timestamp);
+  if (!id || Number.isNaN(date.getTime()) || !TIMELINE_TYPES.includes(type as TimelineItemType)) {
+    return undefined;
+  }
+  return { timestamp: date, type: type as TimelineItemType, id };
+}
+
+/**
+ * Negative when a comes first on the timeline.
+ */
+export function compareTimelineItems(
+  a: Pick<TimelineItem, 'timestamp' | 'type' | 'id'>,
+  b: Pick<TimelineItem, 'timestamp' | 'type' | 'id'>
+): number {
+  const byTime = b.timestamp.getTime() - a.timestamp.getTime();
+  if (byTime !== 0) return byTime;
+  const byType = TIMELINE_TYPES.indexOf(a.type) - TIMELINE_TYPES.indexOf(b.type);
+  if (byType !== 0) return byType;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Merge items fetched from each source into one page. Each source must return its items after
+ * the cursor, newest first, and at least limit + 1 of them if it has that many.
+ */
+export function mergeTimelinePage(
+  sources: TimelineItem[][],
+  limit: number,
+  cursor?: TimelineCursor
+): { items: TimelineItem[]; nextCursor: string | null } {
+  const merged = sources
+    .flat()
+    .filter((item) => !cursor || compareTimelineItems(cursor, item) < 0)
+    .sort(compareTimelineItems);
+
+  const items = merged.slice(0, limit);
+  const nextCursor = merged.length > limit ? encodeTimelineCursor(items[items.length - 1]) : null;
+  return { items, nextCursor };
+}
@@ -0,0 +1,101 @@
+/**
+ * Minimal vCard (2.1, 3.0 and 4.0) reader for contact imports
+ * Only the properties that map onto contacts are read: FN, N, EMAIL, TEL and NOTE.
+ */
+
+export interface VCardContact {
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+interface VCardProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+// Continuation lines start with a space or tab (RFC 6350 section 3.2)
+function unfold(text: string): string[] {
+  return text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value
+    .replace(/=\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf-8');
+}
+
+function parseProperty(line: string): VCardProperty | null {
+  const separator = line.indexOf(':');
+  if (separator === -1) return null;
+
+  const [rawName, ...params] = line.slice(0, separator).split(';');
+  // Apple exports group related properties with prefixes such as "item1."
+  const name = rawName.replace(/^[^.]+\./, '').toUpperCase();
+  let value = line.slice(separator + 1);
+  if (params.some((param) => param.toUpperCase() === 'ENCODING=QUOTED-PRINTABLE')) {
+    value = decodeQuotedPrintable(value);
+  }
+  return { name, params: params.map((param) => param.toUpperCase()), value };
+}
+
+// A property marked preferred wins; otherwise the first one listed
+function preferred(properties: VCardProperty[], name: string): string | undefined {
+  const matches = properties.filter((property) => property.name === name && property.value.trim());
+  const pick =
+    matches.find((property) => property.params.some((param) => /PREF/.test(param))) ?? matches[0];
+  return pick ? unescapeValue(pick.value).trim() : undefined;
+}
+
+/**
+ * Parse every card in a .vcf file. Cards without a name or email are dropped.
+ */
+export function parseVCards(text: string): VCardContact[] {
+  const contacts: VCardContact[] = [];
+  let properties: VCardProperty[] | null = null;
+
+  for (const line of unfold(text.replace(/^\uFEFF/, ''))) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      properties = [];
+    } else if (upper === 'END:VCARD' && properties) {
+      const [lastName, firstName] = (properties.find((p) => p.name === 'N')?.value ?? '')
+        .split(';')
+        .map((part) => unescapeValue(part).trim());
+      const contact: VCardContact = {
+        name: preferred(properties, 'FN'),
+        firstName: firstName || undefined,
+        lastName: lastName || undefined,
+        email: preferred(properties, 'EMAIL'),
+        phone: preferred(properties, 'TEL')?.replace(/^tel:/i, ''),
+        notes: preferred(properties, 'NOTE'),
+      };
+      if (contact.name ?? contact.firstName ?? contact.lastName ?? contact.email) {
+        contacts.push(contact);
+      }
+      properties = null;
+    } else if (properties && line.trim()) {
+      const property = parseProperty(line);
+      if (property) properties.push(property);
+    }
+  }
+
+  return contacts;
+}
+
+export function isVCardFile(fileName: string, mimeType?: string): boolean {
+  return (
+    mimeType === 'text/vcard' ||
+    mimeType === 'text/x-vcard' ||
+    /\.(vcf|vcard)$/i.test(fileName)
+  );
+}
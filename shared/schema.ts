@@ -9,6 +9,8 @@ import {
   uuid,
   pgEnum,
   index,
+  uniqueIndex,
+  doublePrecision,
 } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
 import type { z } from 'zod';
@@ -51,6 +53,9 @@ export const users = pgTable('users', {
   allowProfilePictureScraping: boolean('allow_profile_picture_scraping').default(false),
   gdprConsentDate: timestamp('gdpr_consent_date'),
   gdprConsentVersion: text('gdpr_consent_version').default('1.0'),
+  // Drive folder polled for class attendance sheets
+  attendanceFolderId: text('attendance_folder_id'),
+  attendanceFolderName: text('attendance_folder_name'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -64,6 +69,7 @@ export const contacts = pgTable('contacts', {
     .notNull(),
   name: text('name').notNull(),
   email: text('email').notNull(),
+  emailAliases: jsonb('email_aliases'), // Other addresses the contact writes from
   phone: text('phone'),
   avatarUrl: text('avatar_url'),
   lastContact: timestamp('last_contact'),
@@ -121,20 +127,117 @@ export const goals = pgTable('goals', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
-export const documents = pgTable('documents', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  contactId: uuid('contact_id')
-    .references(() => contacts.id)
-    .notNull(),
-  name: text('name').notNull(),
-  type: text('type').notNull(), // pdf, docx, txt
-  content: text('content'), // extracted text content
-  driveId: text('drive_id'), // Google Drive file ID
-  url: text('url'),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+// Each recorded value of a goal, so progress can be shown over time
+export const goalProgressEntries = pgTable(
+  'goal_progress_entries',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    goalId: uuid('goal_id')
+      .references(() => goals.id)
+      .notNull(),
+    value: integer('value').notNull(),
+    note: text('note'),
+    recordedAt: timestamp('recorded_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    goalIdRecordedAtIdx: index('goal_progress_entries_goal_id_recorded_at_idx').on(
+      table.goalId,
+      table.recordedAt
+    ),
+  })
+);
+
+// One sentiment rating per scored interaction or email, so a contact's sentiment can be followed
+// over time. The contact's sentiment and engagementTrend are derived from these.
+export const sentimentScores = pgTable(
+  'sentiment_scores',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    contactId: uuid('contact_id')
+      .references(() => contacts.id)
+      .notNull(),
+    source: text('source').notNull(), // interaction, email
+    sourceId: uuid('source_id').notNull(), // interactions.id or emails.id
+    rating: integer('rating').notNull(), // 1-5
+    confidence: doublePrecision('confidence'),
+    recordedAt: timestamp('recorded_at').notNull(), // When the message was sent, not when it was scored
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    contactSourceIdx: uniqueIndex('sentiment_scores_contact_source_idx').on(
+      table.contactId,
+      table.source,
+      table.sourceId
+    ),
+    contactIdRecordedAtIdx: index('sentiment_scores_contact_id_recorded_at_idx').on(
+      table.contactId,
+      table.recordedAt
+    ),
+  })
+);
+
+// Who referred whom. contacts.referralCount is kept in sync with the referrals each contact made.
+export const referrals = pgTable(
+  'referrals',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    referrerId: uuid('referrer_id')
+      .references(() => contacts.id)
+      .notNull(),
+    referredId: uuid('referred_id')
+      .references(() => contacts.id)
+      .notNull(),
+    referredAt: timestamp('referred_at').defaultNow().notNull(),
+    source: text('source'), // word_of_mouth, social_media, event, other
+    rewardStatus: text('reward_status').default('none').notNull(), // none, pending, given
+    notes: text('notes'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    // A contact is referred by at most one other contact, so referrals form a tree
+    referredIdIdx: uniqueIndex('referrals_referred_id_idx').on(table.referredId),
+    referrerIdIdx: index('referrals_referrer_id_idx').on(table.referrerId),
+    userIdIdx: index('referrals_user_id_idx').on(table.userId),
+  })
+);
+
+export const documents = pgTable(
+  'documents',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    contactId: uuid('contact_id').references(() => contacts.id), // null while awaiting review
+    name: text('name').notNull(),
+    type: text('type').notNull(), // pdf, docx, txt
+    content: text('content'), // extracted text content
+    driveId: text('drive_id'), // Google Drive file ID
+    driveModifiedTime: timestamp('drive_modified_time'), // skips re-extracting unchanged files
+    url: text('url'),
+    matchMethod: text('match_method'), // "permission", "filename", "content_email", "manual"
+    reviewStatus: text('review_status').default('matched').notNull(), // "matched", "pending_review", "dismissed"
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userDriveIdx: uniqueIndex('documents_user_id_drive_id_idx').on(table.userId, table.driveId),
+    reviewStatusIdx: index('documents_review_status_idx').on(table.userId, table.reviewStatus),
+  })
+);
 
 export const syncStatus = pgTable('sync_status', {
   id: uuid('id')
@@ -147,6 +250,7 @@ export const syncStatus = pgTable('sync_status', {
   lastSync: timestamp('last_sync').defaultNow().notNull(),
   status: text('status').default('success'), // success, error, pending
   error: text('error'),
+  syncToken: text('sync_token'), // incremental sync cursor, e.g. the Drive changes page token
 });
 
 // Raw Google Calendar events storage
@@ -218,6 +322,29 @@ export const emails = pgTable(
     timestampIdx: index('emails_timestamp_idx').on(table.timestamp),
     processedIdx: index('emails_processed_idx').on(table.processed),
     contactIdIdx: index('emails_contact_id_idx').on(table.contactId),
+    userThreadIdx: index('emails_user_thread_idx').on(table.userId, table.gmailThreadId),
+  })
+);
+
+// Every known contact taking part in an email, as sender or recipient
+export const emailContacts = pgTable(
+  'email_contacts',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    emailId: uuid('email_id')
+      .references(() => emails.id)
+      .notNull(),
+    contactId: uuid('contact_id')
+      .references(() => contacts.id)
+      .notNull(),
+    role: text('role').notNull(), // from, to, cc
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    emailContactIdx: uniqueIndex('email_contacts_email_contact_idx').on(table.emailId, table.contactId),
+    contactIdIdx: index('email_contacts_contact_id_idx').on(table.contactId),
   })
 );
 
@@ -236,27 +363,102 @@ export const aiActions = pgTable('ai_actions', {
   reviewedAt: timestamp('reviewed_at'),
 });
 
-export const voiceNotes = pgTable('voice_notes', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  contactId: uuid('contact_id')
-    .references(() => contacts.id)
-    .notNull(),
-  noteUrl: text('note_url').notNull(),
-  transcription: text('transcription'),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-  updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+export const voiceNotes = pgTable(
+  'voice_notes',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    contactId: uuid('contact_id')
+      .references(() => contacts.id)
+      .notNull(),
+    noteUrl: text('note_url').notNull(),
+    transcription: text('transcription'),
+    fileName: text('file_name'), // Stored under VOICE_NOTES_DIR
+    mimeType: text('mime_type'),
+    durationSeconds: integer('duration_seconds'),
+    status: text('status').default('pending'), // "pending", "transcribing", "analyzing", "processed", "failed"
+    errorMessage: text('error_message'),
+    interactionId: uuid('interaction_id').references(() => interactions.id), // Timeline entry created from the transcript
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index('voice_notes_contact_id_idx').on(table.contactId),
+  })
+);
 
-export const contactGroups = pgTable('contact_groups', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  name: text('name').notNull().unique(),
-  description: text('description'),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+export const contactGroups = pgTable(
+  'contact_groups',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    name: text('name').notNull(),
+    description: text('description'),
+    groupType: text('group_type').default('static').notNull(), // "static" (hand-picked members) or "rule"
+    rules: jsonb('rules'), // { match: "all" | "any", conditions: [...] } for rule-based groups
+    color: text('color'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('contact_groups_user_id_idx').on(table.userId),
+    userNameIdx: uniqueIndex('contact_groups_user_name_idx').on(table.userId, table.name),
+  })
+);
+
+// Members of static groups; rule-based groups are evaluated against contacts when read
+export const contactGroupMembers = pgTable(
+  'contact_group_members',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    groupId: uuid('group_id')
+      .references(() => contactGroups.id)
+      .notNull(),
+    contactId: uuid('contact_id')
+      .references(() => contacts.id)
+      .notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    groupContactIdx: uniqueIndex('contact_group_members_group_contact_idx').on(
+      table.groupId,
+      table.contactId
+    ),
+    contactIdIdx: index('contact_group_members_contact_id_idx').on(table.contactId),
+  })
+);
+
+// Rules that move contacts to another lifecycle stage, evaluated nightly. The first active rule
+// (by priority) that matches a contact decides its stage.
+export const lifecycleRules = pgTable(
+  'lifecycle_rules',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    name: text('name').notNull(),
+    rules: jsonb('rules').notNull(), // { match: "all" | "any", conditions: [...] }, as for contact groups
+    targetStage: lifecycleStageEnum('target_stage').notNull(),
+    mode: text('mode').default('suggest').notNull(), // "suggest" (review as an AI suggestion) or "auto"
+    isActive: boolean('is_active').default(true).notNull(),
+    priority: integer('priority').default(0).notNull(), // Lower runs first
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('lifecycle_rules_user_id_idx').on(table.userId),
+  })
+);
 
 export const contactPhotos = pgTable('contact_photos', {
   id: uuid('id')
@@ -275,14 +477,25 @@ export const contactPhotos = pgTable('contact_photos', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
-export const tags = pgTable('tags', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  name: text('name').notNull().unique(),
-  color: text('color').default('#3b82f6'),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+// Each user has their own tag vocabulary, shared by their contacts and tasks
+export const tags = pgTable(
+  'tags',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    name: text('name').notNull(),
+    color: text('color').default('#3b82f6'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdNameIdx: uniqueIndex('tags_user_id_name_idx').on(table.userId, table.name),
+  })
+);
 
 export const contactTags = pgTable('contact_tags', {
   id: uuid('id')
@@ -297,6 +510,26 @@ export const contactTags = pgTable('contact_tags', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+export const taskTags = pgTable(
+  'task_tags',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    taskId: uuid('task_id')
+      .references(() => tasks.id)
+      .notNull(),
+    tagId: uuid('tag_id')
+      .references(() => tags.id)
+      .notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    taskIdTagIdIdx: uniqueIndex('task_tags_task_id_tag_id_idx').on(table.taskId, table.tagId),
+    tagIdIdx: index('task_tags_tag_id_idx').on(table.tagId),
+  })
+);
+
 // Processed Events - for deduplication and change tracking
 export const processedEvents = pgTable('processed_events', {
   id: uuid('id')
@@ -316,6 +549,33 @@ export const processedEvents = pgTable('processed_events', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Email threads already analyzed by the LLM, keyed by a hash of their messages
+export const processedEmailThreads = pgTable(
+  'processed_email_threads',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    gmailThreadId: text('gmail_thread_id').notNull(),
+    threadHash: text('thread_hash').notNull(), // SHA-256 hash of the thread's messages
+    processedAt: timestamp('processed_at').defaultNow().notNull(),
+    isRelevant: boolean('is_relevant').default(false).notNull(),
+    analysis: jsonb('analysis'), // Stored LLM analysis result
+    llmModel: text('llm_model'), // Which model was used
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userThreadIdx: uniqueIndex('processed_email_threads_user_thread_idx').on(
+      table.userId,
+      table.gmailThreadId
+    ),
+  })
+);
+
 // Projects - for organizing related tasks
 export const projects = pgTable('projects', {
   id: uuid('id')
@@ -353,7 +613,6 @@ export const tasks = pgTable(
     estimatedMinutes: integer('estimated_minutes'),
     actualMinutes: integer('actual_minutes'),
     assignedContactIds: jsonb('assigned_contact_ids'), // Array of contact UUIDs
-    tags: jsonb('tags'), // Array of tag strings
     // AI-specific fields
     isAiGenerated: boolean('is_ai_generated').default(false),
     aiPrompt: text('ai_prompt'), // Original prompt that generated this task
@@ -365,6 +624,10 @@ export const tasks = pgTable(
     // Parent task relationship for subtasks
     parentTaskId: uuid('parent_task_id'),
     orderIndex: integer('order_index').default(0),
+    // Recurrence
+    recurrenceRule: text('recurrence_rule'), // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO"
+    recurrenceSeriesId: uuid('recurrence_series_id'), // First task of the series; null on that task itself
+    nextOccurrenceCreatedAt: timestamp('next_occurrence_created_at'), // Set once the following instance exists or the series has ended
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
@@ -375,6 +638,63 @@ export const tasks = pgTable(
     ownerIdx: index('tasks_owner_idx').on(table.owner),
     dueDateIdx: index('tasks_due_date_idx').on(table.dueDate),
     parentTaskIdx: index('tasks_parent_task_idx').on(table.parentTaskId),
+    recurrenceSeriesIdx: index('tasks_recurrence_series_id_idx').on(table.recurrenceSeriesId),
+  })
+);
+
+// Task Templates - reusable tasks with their subtask trees, e.g. a weekly client check-in
+export const taskTemplates = pgTable(
+  'task_templates',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    name: text('name').notNull(), // Title of the task created from the template
+    description: text('description'),
+    priority: taskPriorityEnum('priority').default('medium'),
+    estimatedMinutes: integer('estimated_minutes'),
+    dueInDays: integer('due_in_days'), // Due date relative to when the template is used
+    recurrenceRule: text('recurrence_rule'),
+    subtasks: jsonb('subtasks').default([]).notNull(), // [{ title, description?, estimatedMinutes?, dueInDays?, subtasks? }]
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('task_templates_user_id_idx').on(table.userId),
+  })
+);
+
+// Task Time Entries - time spent on tasks from timers or entered by hand, rolled up into
+// tasks.actual_minutes
+export const taskTimeEntries = pgTable(
+  'task_time_entries',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    taskId: uuid('task_id')
+      .references(() => tasks.id)
+      .notNull(),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    source: text('source').default('timer').notNull(), // "timer" or "manual"
+    startedAt: timestamp('started_at').notNull(),
+    endedAt: timestamp('ended_at'), // Null while the timer is running
+    minutes: integer('minutes'), // Set when the timer stops, or when the entry is added by hand
+    note: text('note'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    taskIdIdx: index('task_time_entries_task_id_idx').on(table.taskId),
+    userStartedAtIdx: index('task_time_entries_user_id_started_at_idx').on(table.userId, table.startedAt),
+    // One running timer per user
+    runningTimerIdx: uniqueIndex('task_time_entries_running_timer_idx')
+      .on(table.userId)
+      .where(sql`${table.endedAt} is null`),
   })
 );
 
@@ -388,7 +708,7 @@ export const taskActivities = pgTable(
     taskId: uuid('task_id')
       .references(() => tasks.id)
       .notNull(),
-    actorType: text('actor_type').notNull(), // "user" or "ai_assistant"
+    actorType: text('actor_type').notNull(), // "user", "ai_assistant" or "system" (scheduled jobs)
     actorId: uuid('actor_id'), // user_id if user, null if AI
     actionType: text('action_type').notNull(), // "created", "updated", "completed", "ai_processed", etc.
     description: text('description'),
@@ -444,8 +764,8 @@ export const dataProcessingJobs = pgTable(
       .references(() => users.id)
       .notNull(),
     jobType: text('job_type').notNull(), // "attendance_csv", "photo_gdpr", "email_analysis", etc.
-    sourceType: text('source_type').notNull(), // "google_drive", "gmail", "manual_upload", etc.
-    sourceReference: text('source_reference'), // File path, email ID, etc.
+    sourceType: text('source_type').notNull(), // "google_drive", "local_folder", "gmail", "manual_upload", etc.
+    sourceReference: text('source_reference'), // File path, email ID, "<fileId>@<revision>", etc.
     status: text('status').default('pending'), // "pending", "processing", "completed", "failed"
     startedAt: timestamp('started_at'),
     completedAt: timestamp('completed_at'),
@@ -460,6 +780,157 @@ export const dataProcessingJobs = pgTable(
     userIdIdx: index('data_processing_jobs_user_id_idx').on(table.userId),
     statusIdx: index('data_processing_jobs_status_idx').on(table.status),
     jobTypeIdx: index('data_processing_jobs_job_type_idx').on(table.jobType),
+    // Watched attendance sheets are keyed by file ID and revision so each revision is processed once
+    sourceIdx: uniqueIndex('data_processing_jobs_source_idx')
+      .on(table.userId, table.jobType, table.sourceReference)
+      .where(sql`job_type = 'attendance_csv' AND source_type IN ('google_drive', 'local_folder')`),
+  })
+);
+
+// Attendance Import Profiles - saved column mappings for booking system exports
+export const attendanceImportProfiles = pgTable(
+  'attendance_import_profiles',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    name: text('name').notNull(), // e.g. "Mindbody class roster"
+    columnMapping: jsonb('column_mapping').notNull(), // { name, firstName, lastName, email, date, className, status, paid } -> header
+    attendedStatuses: jsonb('attended_statuses'), // status values that count as attended; null uses the defaults
+    dateFormat: text('date_format'), // date-fns pattern such as "dd/MM/yyyy"; null accepts ISO dates
+    isDefault: boolean('is_default').default(false).notNull(), // used for sheets from the watched Drive folder
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('attendance_import_profiles_user_id_idx').on(table.userId),
+  })
+);
+
+// LLM Usage - one row per tracked LLM request, for cost reporting
+export const llmUsage = pgTable(
+  'llm_usage',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    model: text('model').notNull(),
+    operation: text('operation').notNull(), // e.g. "calendar_analysis", "photo_enrichment", "task_analysis"
+    inputTokens: integer('input_tokens').notNull(),
+    outputTokens: integer('output_tokens').notNull(),
+    cost: doublePrecision('cost').notNull(), // USD
+    requestId: text('request_id').notNull(),
+    timestamp: timestamp('timestamp').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('llm_usage_user_id_idx').on(table.userId),
+    timestampIdx: index('llm_usage_timestamp_idx').on(table.timestamp),
+  })
+);
+
+// LLM Budgets - per-user spend limits
+export const llmBudgets = pgTable('llm_budgets', {
+  id: uuid('id')
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: uuid('user_id')
+    .references(() => users.id)
+    .notNull()
+    .unique(),
+  dailyLimit: doublePrecision('daily_limit').notNull(), // USD
+  monthlyLimit: doublePrecision('monthly_limit').notNull(), // USD
+  alertThreshold: integer('alert_threshold').default(80).notNull(), // Percentage of limit
+  policy: text('policy').default('block').notNull(), // block, downgrade, queue
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// LLM Cost Alerts - raised when spend crosses a budget threshold
+export const llmCostAlerts = pgTable(
+  'llm_cost_alerts',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    alertType: text('alert_type').notNull(), // "daily_limit", "monthly_limit", "unusual_usage"
+    threshold: doublePrecision('threshold').notNull(),
+    currentValue: doublePrecision('current_value').notNull(),
+    periodStart: timestamp('period_start').notNull(), // Start of the day or month the alert is for
+    timestamp: timestamp('timestamp').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('llm_cost_alerts_user_id_idx').on(table.userId),
+    // One alert per limit per period
+    periodIdx: uniqueIndex('llm_cost_alerts_period_idx').on(
+      table.userId,
+      table.alertType,
+      table.periodStart
+    ),
+  })
+);
+
+// Rate Limit Buckets - shared token buckets for API and model rate limiting
+export const rateLimitBuckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: text('key').primaryKey(), // e.g. "ai:user:<uuid>" or "api:ip:<address>"
+    tokens: doublePrecision('tokens').notNull(), // Tokens left as of updated_at
+    updatedAt: timestamp('updated_at').notNull(),
+  },
+  (table) => ({
+    updatedAtIdx: index('rate_limit_buckets_updated_at_idx').on(table.updatedAt),
+  })
+);
+
+// Chat Sessions - persisted AI assistant conversations
+export const chatSessions = pgTable(
+  'chat_sessions',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id)
+      .notNull(),
+    title: text('title').notNull(),
+    summary: text('summary'), // Rolling summary of turns that fell out of the history window
+    summarizedMessageCount: integer('summarized_message_count').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('chat_sessions_user_id_idx').on(table.userId),
+    updatedAtIdx: index('chat_sessions_updated_at_idx').on(table.updatedAt),
+  })
+);
+
+// Chat Messages - individual turns within a chat session
+export const chatMessages = pgTable(
+  'chat_messages',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    sessionId: uuid('session_id')
+      .references(() => chatSessions.id)
+      .notNull(),
+    role: text('role').notNull(), // "user" or "assistant"
+    content: text('content').notNull(),
+    tokenCount: integer('token_count').notNull(), // Estimated, used for history windowing
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionIdIdx: index('chat_messages_session_id_idx').on(table.sessionId),
+    createdAtIdx: index('chat_messages_created_at_idx').on(table.createdAt),
   })
 );
 
@@ -473,6 +944,17 @@ export const usersRelations = relations(users, ({ many }) => ({
   tasks: many(tasks),
   aiSuggestions: many(aiSuggestions),
   dataProcessingJobs: many(dataProcessingJobs),
+  llmUsage: many(llmUsage),
+  llmCostAlerts: many(llmCostAlerts),
+  chatSessions: many(chatSessions),
+  documents: many(documents),
+  attendanceImportProfiles: many(attendanceImportProfiles),
+  contactGroups: many(contactGroups),
+  lifecycleRules: many(lifecycleRules),
+  referrals: many(referrals),
+  tags: many(tags),
+  taskTemplates: many(taskTemplates),
+  taskTimeEntries: many(taskTimeEntries),
 }));
 
 export const contactsRelations = relations(contacts, ({ one, many }) => ({
@@ -487,6 +969,10 @@ export const contactsRelations = relations(contacts, ({ one, many }) => ({
   voiceNotes: many(voiceNotes),
   photos: many(contactPhotos),
   contactTags: many(contactTags),
+  groupMemberships: many(contactGroupMembers),
+  sentimentScores: many(sentimentScores),
+  referralsMade: many(referrals, { relationName: 'referrer' }),
+  referredBy: many(referrals, { relationName: 'referred' }),
 }));
 
 export const interactionsRelations = relations(interactions, ({ one }) => ({
@@ -496,14 +982,50 @@ export const interactionsRelations = relations(interactions, ({ one }) => ({
   }),
 }));
 
-export const goalsRelations = relations(goals, ({ one }) => ({
+export const goalsRelations = relations(goals, ({ one, many }) => ({
   contact: one(contacts, {
     fields: [goals.contactId],
     references: [contacts.id],
   }),
+  progressEntries: many(goalProgressEntries),
+}));
+
+export const goalProgressEntriesRelations = relations(goalProgressEntries, ({ one }) => ({
+  goal: one(goals, {
+    fields: [goalProgressEntries.goalId],
+    references: [goals.id],
+  }),
+}));
+
+export const sentimentScoresRelations = relations(sentimentScores, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [sentimentScores.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const referralsRelations = relations(referrals, ({ one }) => ({
+  user: one(users, {
+    fields: [referrals.userId],
+    references: [users.id],
+  }),
+  referrer: one(contacts, {
+    fields: [referrals.referrerId],
+    references: [contacts.id],
+    relationName: 'referrer',
+  }),
+  referred: one(contacts, {
+    fields: [referrals.referredId],
+    references: [contacts.id],
+    relationName: 'referred',
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
+  user: one(users, {
+    fields: [documents.userId],
+    references: [users.id],
+  }),
   contact: one(contacts, {
     fields: [documents.contactId],
     references: [contacts.id],
@@ -528,7 +1050,7 @@ export const calendarEventsRelations = relations(calendarEvents, ({ one }) => ({
   }),
 }));
 
-export const emailsRelations = relations(emails, ({ one }) => ({
+export const emailsRelations = relations(emails, ({ one, many }) => ({
   user: one(users, {
     fields: [emails.userId],
     references: [users.id],
@@ -537,6 +1059,18 @@ export const emailsRelations = relations(emails, ({ one }) => ({
     fields: [emails.contactId],
     references: [contacts.id],
   }),
+  participants: many(emailContacts),
+}));
+
+export const emailContactsRelations = relations(emailContacts, ({ one }) => ({
+  email: one(emails, {
+    fields: [emailContacts.emailId],
+    references: [emails.id],
+  }),
+  contact: one(contacts, {
+    fields: [emailContacts.contactId],
+    references: [contacts.id],
+  }),
 }));
 
 export const aiActionsRelations = relations(aiActions, ({ one }) => ({
@@ -551,6 +1085,10 @@ export const voiceNotesRelations = relations(voiceNotes, ({ one }) => ({
     fields: [voiceNotes.contactId],
     references: [contacts.id],
   }),
+  interaction: one(interactions, {
+    fields: [voiceNotes.interactionId],
+    references: [interactions.id],
+  }),
 }));
 
 export const contactPhotosRelations = relations(contactPhotos, ({ one }) => ({
@@ -560,8 +1098,39 @@ export const contactPhotosRelations = relations(contactPhotos, ({ one }) => ({
   }),
 }));
 
-export const tagsRelations = relations(tags, ({ many }) => ({
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
   contactTags: many(contactTags),
+  taskTags: many(taskTags),
+}));
+
+export const contactGroupsRelations = relations(contactGroups, ({ one, many }) => ({
+  user: one(users, {
+    fields: [contactGroups.userId],
+    references: [users.id],
+  }),
+  members: many(contactGroupMembers),
+}));
+
+export const lifecycleRulesRelations = relations(lifecycleRules, ({ one }) => ({
+  user: one(users, {
+    fields: [lifecycleRules.userId],
+    references: [users.id],
+  }),
+}));
+
+export const contactGroupMembersRelations = relations(contactGroupMembers, ({ one }) => ({
+  group: one(contactGroups, {
+    fields: [contactGroupMembers.groupId],
+    references: [contactGroups.id],
+  }),
+  contact: one(contacts, {
+    fields: [contactGroupMembers.contactId],
+    references: [contacts.id],
+  }),
 }));
 
 export const contactTagsRelations = relations(contactTags, ({ one }) => ({
@@ -575,6 +1144,17 @@ export const contactTagsRelations = relations(contactTags, ({ one }) => ({
   }),
 }));
 
+export const taskTagsRelations = relations(taskTags, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskTags.taskId],
+    references: [tasks.id],
+  }),
+  tag: one(tags, {
+    fields: [taskTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
 export const processedEventsRelations = relations(processedEvents, ({ one }) => ({
   calendarEvent: one(calendarEvents, {
     fields: [processedEvents.eventId],
@@ -582,6 +1162,13 @@ export const processedEventsRelations = relations(processedEvents, ({ one }) =>
   }),
 }));
 
+export const processedEmailThreadsRelations = relations(processedEmailThreads, ({ one }) => ({
+  user: one(users, {
+    fields: [processedEmailThreads.userId],
+    references: [users.id],
+  }),
+}));
+
 // Task management relations
 export const projectsRelations = relations(projects, ({ one, many }) => ({
   user: one(users, {
@@ -609,6 +1196,26 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     relationName: 'parentSubtask',
   }),
   activities: many(taskActivities),
+  taskTags: many(taskTags),
+  timeEntries: many(taskTimeEntries),
+}));
+
+export const taskTemplatesRelations = relations(taskTemplates, ({ one }) => ({
+  user: one(users, {
+    fields: [taskTemplates.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskTimeEntriesRelations = relations(taskTimeEntries, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskTimeEntries.taskId],
+    references: [tasks.id],
+  }),
+  user: one(users, {
+    fields: [taskTimeEntries.userId],
+    references: [users.id],
+  }),
 }));
 
 export const taskActivitiesRelations = relations(taskActivities, ({ one }) => ({
@@ -632,6 +1239,49 @@ export const dataProcessingJobsRelations = relations(dataProcessingJobs, ({ one
   }),
 }));
 
+export const llmUsageRelations = relations(llmUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [llmUsage.userId],
+    references: [users.id],
+  }),
+}));
+
+export const llmBudgetsRelations = relations(llmBudgets, ({ one }) => ({
+  user: one(users, {
+    fields: [llmBudgets.userId],
+    references: [users.id],
+  }),
+}));
+
+export const llmCostAlertsRelations = relations(llmCostAlerts, ({ one }) => ({
+  user: one(users, {
+    fields: [llmCostAlerts.userId],
+    references: [users.id],
+  }),
+}));
+
+export const chatSessionsRelations = relations(chatSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [chatSessions.userId],
+    references: [users.id],
+  }),
+  messages: many(chatMessages),
+}));
+
+export const attendanceImportProfilesRelations = relations(attendanceImportProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [attendanceImportProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  session: one(chatSessions, {
+    fields: [chatMessages.sessionId],
+    references: [chatSessions.id],
+  }),
+}));
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -656,9 +1306,26 @@ export const insertGoalSchema = createInsertSchema(goals).omit({
   updatedAt: true,
 });
 
+export const insertGoalProgressEntrySchema = createInsertSchema(goalProgressEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSentimentScoreSchema = createInsertSchema(sentimentScores).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReferralSchema = createInsertSchema(referrals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export const insertSyncStatusSchema = createInsertSchema(syncStatus).omit({
@@ -677,6 +1344,11 @@ export const insertEmailSchema = createInsertSchema(emails).omit({
   updatedAt: true,
 });
 
+export const insertEmailContactSchema = createInsertSchema(emailContacts).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Task management schemas
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
@@ -690,6 +1362,17 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   updatedAt: true,
 });
 
+export const insertTaskTemplateSchema = createInsertSchema(taskTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTaskTimeEntrySchema = createInsertSchema(taskTimeEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTaskActivitySchema = createInsertSchema(taskActivities).omit({
   id: true,
   createdAt: true,
@@ -716,6 +1399,12 @@ export type Interaction = typeof interactions.$inferSelect;
 export type InsertInteraction = z.infer<typeof insertInteractionSchema>;
 export type Goal = typeof goals.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type GoalProgressEntry = typeof goalProgressEntries.$inferSelect;
+export type InsertGoalProgressEntry = z.infer<typeof insertGoalProgressEntrySchema>;
+export type SentimentScore = typeof sentimentScores.$inferSelect;
+export type InsertSentimentScore = z.infer<typeof insertSentimentScoreSchema>;
+export type Referral = typeof referrals.$inferSelect;
+export type InsertReferral = z.infer<typeof insertReferralSchema>;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type SyncStatus = typeof syncStatus.$inferSelect;
@@ -724,12 +1413,18 @@ export type CalendarEvent = typeof calendarEvents.$inferSelect;
 export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
 export type Email = typeof emails.$inferSelect;
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
+export type EmailContact = typeof emailContacts.$inferSelect;
+export type InsertEmailContact = z.infer<typeof insertEmailContactSchema>;
 
 // Task management types
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+export type InsertTaskTemplate = z.infer<typeof insertTaskTemplateSchema>;
+export type TaskTimeEntry = typeof taskTimeEntries.$inferSelect;
+export type InsertTaskTimeEntry = z.infer<typeof insertTaskTimeEntrySchema>;
 export type TaskActivity = typeof taskActivities.$inferSelect;
 export type InsertTaskActivity = z.infer<typeof insertTaskActivitySchema>;
 export type AiSuggestion = typeof aiSuggestions.$inferSelect;
@@ -752,6 +1447,18 @@ export const insertVoiceNoteSchema = createInsertSchema(voiceNotes).omit({
 export const insertContactGroupSchema = createInsertSchema(contactGroups).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLifecycleRuleSchema = createInsertSchema(lifecycleRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertContactGroupMemberSchema = createInsertSchema(contactGroupMembers).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertContactPhotoSchema = createInsertSchema(contactPhotos).omit({
@@ -763,6 +1470,7 @@ export const insertContactPhotoSchema = createInsertSchema(contactPhotos).omit({
 export const insertTagSchema = createInsertSchema(tags).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export const insertContactTagSchema = createInsertSchema(contactTags).omit({
@@ -770,12 +1478,23 @@ export const insertContactTagSchema = createInsertSchema(contactTags).omit({
   createdAt: true,
 });
 
+export const insertTaskTagSchema = createInsertSchema(taskTags).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertProcessedEventSchema = createInsertSchema(processedEvents).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertProcessedEmailThreadSchema = createInsertSchema(processedEmailThreads).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type AiAction = typeof aiActions.$inferSelect;
 export type InsertAiAction = z.infer<typeof insertAiActionSchema>;
@@ -783,11 +1502,66 @@ export type VoiceNote = typeof voiceNotes.$inferSelect;
 export type InsertVoiceNote = z.infer<typeof insertVoiceNoteSchema>;
 export type ContactGroup = typeof contactGroups.$inferSelect;
 export type InsertContactGroup = z.infer<typeof insertContactGroupSchema>;
+export type LifecycleRule = typeof lifecycleRules.$inferSelect;
+export type InsertLifecycleRule = z.infer<typeof insertLifecycleRuleSchema>;
+export type ContactGroupMember = typeof contactGroupMembers.$inferSelect;
+export type InsertContactGroupMember = z.infer<typeof insertContactGroupMemberSchema>;
 export type ContactPhoto = typeof contactPhotos.$inferSelect;
 export type InsertContactPhoto = z.infer<typeof insertContactPhotoSchema>;
 export type Tag = typeof tags.$inferSelect;
 export type InsertTag = z.infer<typeof insertTagSchema>;
 export type ContactTag = typeof contactTags.$inferSelect;
 export type InsertContactTag = z.infer<typeof insertContactTagSchema>;
+export type TaskTag = typeof taskTags.$inferSelect;
+export type InsertTaskTag = z.infer<typeof insertTaskTagSchema>;
 export type ProcessedEvent = typeof processedEvents.$inferSelect;
 export type InsertProcessedEvent = z.infer<typeof insertProcessedEventSchema>;
+export type ProcessedEmailThread = typeof processedEmailThreads.$inferSelect;
+export type InsertProcessedEmailThread = z.infer<typeof insertProcessedEmailThreadSchema>;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+});
+
+export const insertLlmBudgetSchema = createInsertSchema(llmBudgets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLlmCostAlertSchema = createInsertSchema(llmCostAlerts).omit({
+  id: true,
+});
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmBudget = typeof llmBudgets.$inferSelect;
+export type InsertLlmBudget = z.infer<typeof insertLlmBudgetSchema>;
+export type LlmCostAlert = typeof llmCostAlerts.$inferSelect;
+export type InsertLlmCostAlert = z.infer<typeof insertLlmCostAlertSchema>;
+
+export const insertChatSessionSchema = createInsertSchema(chatSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ChatSession = typeof chatSessions.$inferSelect;
+export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+
+export const insertAttendanceImportProfileSchema = createInsertSchema(attendanceImportProfiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type AttendanceImportProfile = typeof attendanceImportProfiles.$inferSelect;
+export type InsertAttendanceImportProfile = z.infer<typeof insertAttendanceImportProfileSchema>;
@@ -131,21 +131,27 @@ export const TEST_TAGS = {
     id: 'tag-vip',
     name: 'VIP Client',
     color: '#FFD700',
-    createdAt: new Date('2024-01-01')
+    userId: TEST_USERS.WELLNESS_COACH.id,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
   } satisfies Tag,
 
   NEW_MEMBER: {
     id: 'tag-new',
     name: 'New Member',
     color: '#32CD32',
-    createdAt: new Date('2024-01-01')
+    userId: TEST_USERS.WELLNESS_COACH.id,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
   } satisfies Tag,
 
   NEEDS_FOLLOWUP: {
     id: 'tag-followup',
     name: 'Needs Follow-up',
     color: '#FF6347',
-    createdAt: new Date('2024-01-01')
+    userId: TEST_USERS.WELLNESS_COACH.id,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
   } satisfies Tag
 } as const;
 
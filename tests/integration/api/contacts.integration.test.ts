@@ -257,7 +257,7 @@ describe('Contact API Integration Tests', () => {
       ];
       
       const createdTags = await Promise.all(
-        tagData.map(tag => storage.contacts.createTag(tag))
+        tagData.map(tag => storage.tags.create({ ...tag, userId: testContext.user.id }))
       );
 
       const updateData = {
@@ -410,7 +410,8 @@ describe('Contact API Integration Tests', () => {
 
       it('should add existing tag to contacts', async () => {
         // Arrange
-        const tag = await storage.contacts.createTag({
+        const tag = await storage.tags.create({
+          userId: testContext.user.id,
           name: 'Existing Tag',
           color: '#32CD32'
         });
@@ -431,14 +432,15 @@ describe('Contact API Integration Tests', () => {
     describe('POST /api/contacts/bulk/remove-tag', () => {
       it('should remove tag from multiple contacts', async () => {
         // Arrange
-        const tag = await storage.contacts.createTag({
+        const tag = await storage.tags.create({
+          userId: testContext.user.id,
           name: 'Tag to Remove',
           color: '#FF0000'
         });
         const contactIds = testContext.contacts.map(c => c.id);
         
         // First add the tag to contacts
-        await contactService.addTagToContacts(contactIds, tag.id);
+        await contactService.addTagToContacts(testContext.user.id, contactIds, tag.id);
 
         // Act
         const response = await request
@@ -4,6 +4,8 @@
  */
 
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { OutgoingEmail } from '../../../server/utils/gmail-message.js';
+import type { User } from '../../../shared/schema.js';
 
 // Mock responses for consistent testing
 export const MOCK_RESPONSES = {
@@ -93,6 +95,32 @@ export const mockGeminiService = {
   generateJSON: jest.fn().mockResolvedValue(MOCK_RESPONSES.CONTACT_INSIGHTS)
 };
 
+// Scripted provider for multi-turn flows such as the chat tool loop.
+// Each call returns the next reply in order; the last reply repeats once the script runs out.
+// streamCompletion yields the same replies a few characters at a time.
+export function createScriptedProvider(replies: string[]) {
+  let call = 0;
+  const nextReply = () => replies[Math.min(call++, replies.length - 1)];
+  return {
+    generateCompletion: jest.fn(async (
+      _model: string,
+      _messages: ChatCompletionMessageParam[],
+      _isJson: boolean = false
+    ) => nextReply()),
+    streamCompletion: jest.fn(async function* (
+      _model: string,
+      _messages: ChatCompletionMessageParam[],
+      signal?: AbortSignal
+    ) {
+      const reply = nextReply();
+      for (let i = 0; i < reply.length; i += 8) {
+        if (signal?.aborted) throw new Error('Request was aborted');
+        yield reply.slice(i, i + 8);
+      }
+    })
+  };
+}
+
 // OpenRouter Mock (used in ai.service.ts)
 export const mockOpenRouter = {
   chat: {
@@ -185,6 +213,26 @@ export const mockGoogleApis = {
   }
 };
 
+// Gmail drafts stand-in (passed to EmailThreadService in place of GoogleService).
+// Drafts are kept in memory; saving with a draft id replaces that draft.
+export function createMockGmailDrafts() {
+  const drafts = new Map<string, { threadId: string; email: OutgoingEmail }>();
+  let nextId = 1;
+  return {
+    drafts,
+    saveGmailDraft: jest.fn(async (
+      _user: User,
+      threadId: string,
+      email: OutgoingEmail,
+      draftId?: string
+    ) => {
+      const id = draftId ?? `mock-draft-${nextId++}`;
+      drafts.set(id, { threadId, email });
+      return { id };
+    })
+  };
+}
+
 // Rate Limiter Mock
 export const mockRateLimiter = {
   checkRateLimit: jest.fn().mockResolvedValue({ allowed: true, resetTime: Date.now() + 3600000 }),
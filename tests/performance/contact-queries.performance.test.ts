@@ -152,6 +152,7 @@ describe('Contact Performance Tests', () => {
       // Act - Bulk add tag operation
       const startBulkAdd = performance.now();
       const result = await contactService.addTagToContacts(
+        testUserId,
         contactIds,
         '',
         'Bulk Performance Tag',
@@ -374,7 +375,7 @@ describe('Contact Performance Tests', () => {
         } else if (i % 4 === 1) {
           // Update operation
           const contact = contacts[i % contacts.length];
-          operations.push(contactService.updateContact(contact.id, { sentiment: 4 }, undefined));
+          operations.push(contactService.updateContact(testUserId, contact.id, { sentiment: 4 }, undefined));
         } else if (i % 4 === 2) {
           // Create operation
           operations.push(contactService.createContact(testUserId, {
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the ChatBrain tool-calling loop
+ * Uses a scripted provider so each model turn is deterministic
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ChatBrain, type ChatTool } from '../../../server/brains/chat.brain.js';
+import { createScriptedProvider } from '../../mocks/providers/ai-providers.mock.js';
+
+const MODEL = 'gemini-2.0-flash-exp';
+
+const toolCall = (tool: string, args: Record<string, unknown> = {}) =>
+  JSON.stringify({ type: 'tool_call', tool, arguments: args });
+const finalAnswer = (content: string) => JSON.stringify({ type: 'final', content });
+
+function createTool(name: string, result: unknown = { ok: true }): ChatTool & { execute: jest.Mock } {
+  return {
+    name,
+    description: `Test tool ${name}`,
+    parameters: { type: 'object', properties: {} },
+    execute: jest.fn(async () => result),
+  } as ChatTool & { execute: jest.Mock };
+}
+
+function lastMessage(provider: ReturnType<typeof createScriptedProvider>, call: number): string {
+  const messages = provider.generateCompletion.mock.calls[call][1] as ChatCompletionMessageParam[];
+  return messages[messages.length - 1].content as string;
+}
+
+describe('ChatBrain.executeWithTools', () => {
+  const brain = new ChatBrain();
+
+  it('runs a tool and feeds the result back before answering', async () => {
+    const searchContacts = createTool('search_contacts', { total: 1, contacts: [{ name: 'Sarah' }] });
+    const provider = createScriptedProvider([
+      toolCall('search_contacts', { lifecycleStage: 'core_client' }),
+      finalAnswer('Sarah is your only core client.'),
+    ]);
+
+    const result = await brain.executeWithTools(provider, MODEL, 'Who are my core clients?', [
+      searchContacts,
+    ]);
+
+    expect(result.content).toBe('Sarah is your only core client.');
+    expect(searchContacts.execute).toHaveBeenCalledWith({ lifecycleStage: 'core_client' });
+    expect(result.toolCalls).toEqual([
+      {
+        tool: 'search_contacts',
+        arguments: { lifecycleStage: 'core_client' },
+        result: { total: 1, contacts: [{ name: 'Sarah' }] },
+      },
+    ]);
+    expect(lastMessage(provider, 1)).toContain('TOOL_RESULT search_contacts');
+    expect(lastMessage(provider, 1)).toContain('Sarah');
+  });
+
+  it('describes the available tools in the system prompt', async () => {
+    const provider = createScriptedProvider([finalAnswer('Hello!')]);
+
+    await brain.executeWithTools(provider, MODEL, 'Hi', [createTool('list_tasks')]);
+
+    const messages = provider.generateCompletion.mock.calls[0][1] as ChatCompletionMessageParam[];
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('list_tasks');
+  });
+
+  it('reports unknown tools and tool failures back to the model', async () => {
+    const failing = createTool('list_tasks');
+    failing.execute.mockImplementation(async () => {
+      throw new Error('Invalid arguments - status: Invalid enum value');
+    });
+    const provider = createScriptedProvider([
+      toolCall('delete_everything'),
+      toolCall('list_tasks', { status: 'someday' }),
+      finalAnswer('I could not load your tasks.'),
+    ]);
+
+    const result = await brain.executeWithTools(provider, MODEL, 'Show my tasks', [failing]);
+
+    expect(result.content).toBe('I could not load your tasks.');
+    expect(result.toolCalls.map((call) => call.error)).toEqual([
+      'Unknown tool: delete_everything',
+      'Invalid arguments - status: Invalid enum value',
+    ]);
+    expect(lastMessage(provider, 1)).toContain('Unknown tool: delete_everything');
+  });
+
+  it('forces a final answer once the tool call limit is reached', async () => {
+    const tool = createTool('get_upcoming_events');
+    const provider = createScriptedProvider([
+      toolCall('get_upcoming_events'),
+      toolCall('get_upcoming_events'),
+      finalAnswer('You have a session tomorrow.'),
+    ]);
+
+    const result = await brain.executeWithTools(provider, MODEL, "What's next?", [tool], {
+      maxToolCalls: 1,
+    });
+
+    expect(tool.execute).toHaveBeenCalledTimes(1);
+    expect(result.content).toBe('You have a session tomorrow.');
+    expect(lastMessage(provider, 2)).toContain('Tool limit reached');
+  });
+
+  it('treats replies outside the protocol as the final answer', async () => {
+    const provider = createScriptedProvider(['You have three pending tasks.']);
+
+    const result = await brain.executeWithTools(provider, MODEL, 'How many tasks?', []);
+
+    expect(result.content).toBe('You have three pending tasks.');
+    expect(result.toolCalls).toHaveLength(0);
+  });
+
+  it('accepts JSON wrapped in a code fence', async () => {
+    const provider = createScriptedProvider(['```json\n' + finalAnswer('All caught up.') + '\n```']);
+
+    const result = await brain.executeWithTools(provider, MODEL, 'Anything due?', []);
+
+    expect(result.content).toBe('All caught up.');
+  });
+
+  it('returns an apology when the provider fails', async () => {
+    const provider = createScriptedProvider([]);
+    provider.generateCompletion.mockRejectedValue(new Error('Provider down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await brain.executeWithTools(provider, MODEL, 'Hello', []);
+
+    expect(result.content).toContain("couldn't generate a response");
+  });
+});
+
+describe('ChatBrain.streamWithTools', () => {
+  const brain = new ChatBrain();
+
+  it('streams a prose answer as it is generated', async () => {
+    const provider = createScriptedProvider(['You have two sessions booked for tomorrow.']);
+    const tokens: string[] = [];
+
+    const result = await brain.streamWithTools(provider, MODEL, "What's tomorrow?", [], {
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe('You have two sessions booked for tomorrow.');
+    expect(result.content).toBe('You have two sessions booked for tomorrow.');
+  });
+
+  it('does not stream tool calls to the client', async () => {
+    const tool = createTool('get_upcoming_events', [{ summary: 'Yoga with Sarah' }]);
+    const provider = createScriptedProvider([
+      toolCall('get_upcoming_events'),
+      'Your next session is Yoga with Sarah.',
+    ]);
+    const tokens: string[] = [];
+
+    const result = await brain.streamWithTools(provider, MODEL, "What's next?", [tool], {
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(tool.execute).toHaveBeenCalledTimes(1);
+    expect(tokens.join('')).toBe('Your next session is Yoga with Sarah.');
+    expect(result.toolCalls).toHaveLength(1);
+  });
+
+  it('returns the partial answer when aborted', async () => {
+    const controller = new AbortController();
+    const provider = createScriptedProvider(['This answer is going to be cut off part way through.']);
+    const tokens: string[] = [];
+
+    const result = await brain.streamWithTools(provider, MODEL, 'Tell me everything', [], {
+      signal: controller.signal,
+      onToken: (text) => {
+        tokens.push(text);
+        controller.abort();
+      },
+    });
+
+    expect(tokens).toHaveLength(1);
+    expect(result.content).toBe(tokens[0].trim());
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for extracting insights and action items from email threads
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { EmailExtractBrain } from '../../../server/brains/email-extract.brain.js';
+import { createScriptedProvider } from '../../mocks/providers/ai-providers.mock.js';
+import type { Email } from '../../../shared/schema.js';
+
+const MODEL = 'anthropic/claude-3.5-sonnet';
+
+const thread = [
+  {
+    id: 'email-1',
+    gmailThreadId: 'thread-1',
+    subject: 'Rescheduling Thursday',
+    fromEmail: 'ana@example.com',
+    fromName: 'Ana Silva',
+    bodyText: 'Could we move Thursday to Friday at 10?',
+    snippet: null,
+    timestamp: new Date('2025-03-03T09:00:00Z'),
+  },
+  {
+    id: 'email-2',
+    gmailThreadId: 'thread-1',
+    subject: 'Re: Rescheduling Thursday',
+    fromEmail: 'Coach@Example.com',
+    fromName: 'Coach',
+    bodyText: 'Friday works, I will send a new invite.',
+    snippet: null,
+    timestamp: new Date('2025-03-03T10:00:00Z'),
+  },
+] as Email[];
+
+const input = { thread, userEmail: 'coach@example.com', contactNames: ['Ana Silva'] };
+
+describe('EmailExtractBrain.execute', () => {
+  const brain = new EmailExtractBrain();
+
+  it('returns requests, commitments, dates and action items for the thread', async () => {
+    const provider = createScriptedProvider([
+      JSON.stringify({
+        isRelevant: true,
+        relevanceReason: 'Client rescheduling a session',
+        threadSummary: 'Ana asked to move her session to Friday.',
+        sentiment: 4,
+        requests: ['Move Thursday session to Friday 10:00'],
+        commitments: ['Send a new calendar invite'],
+        importantDates: [{ date: '2025-03-07', description: 'Rescheduled session' }, { date: 7 }],
+        actionItems: ['Send Ana the new invite'],
+        confidence: 0.9,
+      }),
+    ]);
+
+    const result = await brain.execute(provider, MODEL, input);
+
+    expect(result).toMatchObject({
+      isRelevant: true,
+      sentiment: 4,
+      requests: ['Move Thursday session to Friday 10:00'],
+      commitments: ['Send a new calendar invite'],
+      importantDates: [{ date: '2025-03-07', description: 'Rescheduled session' }],
+      actionItems: ['Send Ana the new invite'],
+      llmModel: MODEL,
+      gmailThreadId: 'thread-1',
+    });
+  });
+
+  it("labels the practitioner's own messages in the prompt", async () => {
+    const provider = createScriptedProvider(['{}']);
+
+    const result = await brain.execute(provider, MODEL, input);
+
+    const messages = provider.generateCompletion.mock.calls[0][1] as ChatCompletionMessageParam[];
+    expect(messages[1].content).toContain('--- PRACTITIONER,');
+    expect(result.sentiment).toBe(3);
+    expect(result.actionItems).toEqual([]);
+  });
+
+  it('throws when the model does not return JSON', async () => {
+    const provider = createScriptedProvider(['Sorry, I cannot help with that.']);
+
+    await expect(brain.execute(provider, MODEL, input)).rejects.toThrow('Failed to analyze the email thread');
+  });
+});
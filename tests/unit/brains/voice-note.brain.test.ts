@@ -0,0 +1,62 @@
+/**
+ * Unit tests for turning voice note transcripts into timeline entries and task drafts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { VoiceNoteBrain } from '../../../server/brains/voice-note.brain.js';
+import { createScriptedProvider } from '../../mocks/providers/ai-providers.mock.js';
+
+const MODEL = 'gemini-2.0-flash-exp';
+const input = {
+  contactName: 'Ana Silva',
+  transcript: 'Ana said her back pain is easing. I promised to send her the stretching sheet this week.',
+};
+
+describe('VoiceNoteBrain.execute', () => {
+  const brain = new VoiceNoteBrain();
+
+  it('returns the summary, sentiment and follow-up tasks', async () => {
+    const provider = createScriptedProvider([
+      JSON.stringify({
+        subject: 'Back pain easing',
+        summary: 'Ana reported her back pain is easing.',
+        sentiment: 4,
+        tasks: [{ title: 'Send Ana the stretching sheet', priority: 'high', dueInDays: 3 }],
+      }),
+    ]);
+
+    const result = await brain.execute(provider, MODEL, input);
+
+    expect(result).toEqual({
+      subject: 'Back pain easing',
+      summary: 'Ana reported her back pain is easing.',
+      sentiment: 4,
+      tasks: [{ title: 'Send Ana the stretching sheet', priority: 'high', dueInDays: 3 }],
+    });
+    expect(provider.generateCompletion).toHaveBeenCalledWith(MODEL, expect.any(Array), true);
+  });
+
+  it('drops malformed tasks and falls back to the transcript', async () => {
+    const provider = createScriptedProvider([
+      JSON.stringify({
+        sentiment: 9,
+        tasks: [{ title: '' }, { title: 'Book a review session', priority: 'someday', dueInDays: -2 }, 'call'],
+      }),
+    ]);
+
+    const result = await brain.execute(provider, MODEL, input);
+
+    expect(result.subject).toBe('Voice note about Ana Silva');
+    expect(result.summary).toBe(input.transcript);
+    expect(result.sentiment).toBe(5);
+    expect(result.tasks).toEqual([{ title: 'Book a review session', priority: 'medium' }]);
+  });
+
+  it('throws when the model does not return JSON', async () => {
+    const provider = createScriptedProvider(['Sorry, I cannot help with that.']);
+
+    await expect(brain.execute(provider, MODEL, input)).rejects.toThrow(
+      'Failed to analyze the voice note'
+    );
+  });
+});
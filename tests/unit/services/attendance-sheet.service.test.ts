@@ -0,0 +1,161 @@
+/**
+ * Unit tests for AttendanceSheetService
+ * Tests that each watched sheet revision is claimed once and processed, and how claims are stored
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { getTableConfig } from 'drizzle-orm/pg-core';
+import { AttendanceSheetService } from '../../../server/services/attendance-sheet.service.js';
+import { AiData } from '../../../server/data/ai.data.js';
+import { storage } from '../../../server/data/index.js';
+import { db } from '../../../server/db.js';
+import { taskAI } from '../../../server/brains/task-ai.js';
+import { attendanceImportService } from '../../../server/services/attendance-import.service.js';
+import { googleService } from '../../../server/providers/google.provider.js';
+import { readSheetRows } from '../../../server/utils/spreadsheet-reader.js';
+import { dataProcessingJobs } from '../../../shared/schema.js';
+import type { DataProcessingJob, User } from '../../../shared/schema.js';
+
+jest.mock('../../../server/db.js', () => ({ db: { insert: jest.fn() } }));
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/brains/task-ai.js');
+jest.mock('../../../server/services/attendance-import.service.js');
+jest.mock('../../../server/providers/google.provider.js');
+jest.mock('../../../server/utils/spreadsheet-reader.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockDb = db as jest.Mocked<typeof db>;
+const mockTaskAI = taskAI as jest.Mocked<typeof taskAI>;
+const mockImport = attendanceImportService as jest.Mocked<typeof attendanceImportService>;
+const mockGoogle = googleService as jest.Mocked<typeof googleService>;
+const mockReadSheetRows = readSheetRows as jest.MockedFunction<typeof readSheetRows>;
+
+const USER_ID = 'user-1';
+const ROWS = [['Name', 'Date'], ['Jane Doe', '2025-06-01']];
+
+const user = { id: USER_ID, attendanceFolderId: 'folder-1', attendanceFolderName: 'Classes' } as User;
+
+const sheet = (id: string, revision: string) => ({
+  id,
+  name: `${id}.csv`,
+  mimeType: 'text/csv',
+  revision,
+});
+
+const job = (id: string) => ({ id, userId: USER_ID }) as DataProcessingJob;
+
+describe('AttendanceSheetService', () => {
+  let service: AttendanceSheetService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AttendanceSheetService();
+    mockStorage.users.findById.mockResolvedValue(user);
+    mockImport.getDefaultLayout.mockResolvedValue({});
+    mockGoogle.downloadAttendanceSheet.mockResolvedValue(Buffer.from('csv'));
+    mockReadSheetRows.mockResolvedValue(ROWS);
+    mockTaskAI.processAttendanceSheet.mockResolvedValue([]);
+  });
+
+  describe('checkForNewSheets', () => {
+    it('claims each sheet by file ID and revision before processing it', async () => {
+      mockGoogle.listAttendanceSheets.mockResolvedValue([sheet('file-1', '7')]);
+      mockStorage.ai.claimJob.mockResolvedValue(job('job-1'));
+
+      expect(await service.checkForNewSheets(USER_ID)).toBe(1);
+
+      expect(mockStorage.ai.claimJob).toHaveBeenCalledWith({
+        userId: USER_ID,
+        jobType: 'attendance_csv',
+        sourceType: 'google_drive',
+        sourceReference: 'file-1@7',
+        status: 'pending',
+      });
+      expect(mockTaskAI.processAttendanceSheet).toHaveBeenCalledWith(USER_ID, ROWS, 'file-1.csv', {
+        jobId: 'job-1',
+        profileId: undefined,
+        layout: undefined,
+      });
+    });
+
+    it('skips revisions that have already been claimed without downloading them', async () => {
+      mockGoogle.listAttendanceSheets.mockResolvedValue([sheet('file-1', '7'), sheet('file-2', '3')]);
+      mockStorage.ai.claimJob.mockResolvedValueOnce(undefined).mockResolvedValueOnce(job('job-2'));
+
+      expect(await service.checkForNewSheets(USER_ID)).toBe(1);
+
+      expect(mockGoogle.downloadAttendanceSheet).toHaveBeenCalledTimes(1);
+      expect(mockGoogle.downloadAttendanceSheet).toHaveBeenCalledWith(user, sheet('file-2', '3'));
+    });
+
+    it('marks the job failed and carries on when a sheet cannot be processed', async () => {
+      mockGoogle.listAttendanceSheets.mockResolvedValue([sheet('file-1', '7'), sheet('file-2', '3')]);
+      mockStorage.ai.claimJob.mockResolvedValueOnce(job('job-1')).mockResolvedValueOnce(job('job-2'));
+      mockReadSheetRows.mockRejectedValueOnce(new Error('Unreadable sheet'));
+
+      expect(await service.checkForNewSheets(USER_ID)).toBe(1);
+
+      expect(mockStorage.ai.updateJob).toHaveBeenCalledWith(
+        'job-1',
+        expect.objectContaining({ status: 'failed', errorMessage: 'Unreadable sheet' })
+      );
+      expect(mockTaskAI.processAttendanceSheet).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing when no folder is being watched', async () => {
+      mockStorage.users.findById.mockResolvedValue({ ...user, attendanceFolderId: null });
+
+      expect(await service.checkForNewSheets(USER_ID)).toBe(0);
+      expect(mockGoogle.listAttendanceSheets).not.toHaveBeenCalled();
+      expect(mockStorage.ai.claimJob).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('AiData.claimJob', () => {
+  let onConflictDoNothing: jest.Mock;
+  let returning: jest.Mock;
+
+  beforeEach(() => {
+    returning = jest.fn();
+    onConflictDoNothing = jest.fn(() => ({ returning }));
+    mockDb.insert.mockReturnValue({
+      values: jest.fn(() => ({ onConflictDoNothing })),
+    } as unknown as ReturnType<typeof db.insert>);
+  });
+
+  const claim = () =>
+    new AiData().claimJob({
+      userId: USER_ID,
+      jobType: 'attendance_csv',
+      sourceType: 'google_drive',
+      sourceReference: 'file-1@7',
+      status: 'pending',
+    });
+
+  it('returns the new job when the revision has not been claimed', async () => {
+    returning.mockResolvedValue([job('job-1')] as never);
+
+    expect(await claim()).toEqual(job('job-1'));
+  });
+
+  it('returns undefined when the revision has already been claimed', async () => {
+    returning.mockResolvedValue([] as never);
+
+    expect(await claim()).toBeUndefined();
+  });
+
+  it('targets the partial unique index on watched attendance sheets', async () => {
+    returning.mockResolvedValue([] as never);
+    const sourceIndex = getTableConfig(dataProcessingJobs).indexes.find(
+      (index) => index.config.name === 'data_processing_jobs_source_idx'
+    );
+
+    await claim();
+
+    expect(onConflictDoNothing).toHaveBeenCalledWith({
+      target: [dataProcessingJobs.userId, dataProcessingJobs.jobType, dataProcessingJobs.sourceReference],
+      where: sourceIndex?.config.where,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for ChatService
+ * Tests history windowing, rolling summaries and how concurrent sends save them
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ChatService } from '../../../server/services/chat.service.js';
+import { aiService } from '../../../server/services/ai.service.js';
+import { storage } from '../../../server/data/index.js';
+import type { ChatSession, ChatMessage } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/services/ai.service.js');
+jest.mock('../../../server/services/chat-tools.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockAiService = aiService as jest.Mocked<typeof aiService>;
+
+const USER_ID = 'user-1';
+
+const session = (overrides: Partial<ChatSession> = {}): ChatSession => ({
+  id: 'session-1',
+  userId: USER_ID,
+  title: 'Chat',
+  summary: null,
+  summarizedMessageCount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+// Alternating user/assistant turns of the given token counts
+const messages = (tokenCounts: number[]): ChatMessage[] =>
+  tokenCounts.map((tokenCount, i) => ({
+    id: `message-${i}`,
+    sessionId: 'session-1',
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `turn ${i}`,
+    tokenCount,
+    createdAt: new Date(),
+  }));
+
+describe('ChatService', () => {
+  let service: ChatService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ChatService();
+    mockAiService.generateChatResponse.mockResolvedValue('Reply');
+    mockStorage.chat.createMessage.mockImplementation(
+      async (message) => ({ id: 'new', createdAt: new Date(), ...message }) as ChatMessage
+    );
+    mockStorage.chat.updateSession.mockImplementation(async () => session());
+  });
+
+  const sentConversation = () => mockAiService.generateChatResponse.mock.calls[0][3];
+
+  it('sends every turn when the history fits the token budget', async () => {
+    mockStorage.chat.getSessionById.mockResolvedValue(session());
+    mockStorage.chat.getMessagesBySessionId.mockResolvedValue(messages([500, 500, 500]));
+
+    await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' });
+
+    expect(sentConversation()?.history.map((turn) => turn.content)).toEqual([
+      'turn 0',
+      'turn 1',
+      'turn 2',
+    ]);
+    expect(mockAiService.summarizeChatHistory).not.toHaveBeenCalled();
+    expect(mockStorage.chat.updateSummary).not.toHaveBeenCalled();
+  });
+
+  it('summarizes the oldest turns that do not fit and keeps the newest verbatim', async () => {
+    mockStorage.chat.getSessionById.mockResolvedValue(session());
+    mockStorage.chat.getMessagesBySessionId.mockResolvedValue(messages([1000, 1000, 1000, 1000]));
+    mockAiService.summarizeChatHistory.mockResolvedValue('Earlier: turn 0');
+
+    await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' });
+
+    expect(mockAiService.summarizeChatHistory).toHaveBeenCalledWith(USER_ID, null, [
+      { role: 'user', content: 'turn 0' },
+    ]);
+    expect(sentConversation()).toEqual({
+      summary: 'Earlier: turn 0',
+      history: [
+        { role: 'assistant', content: 'turn 1' },
+        { role: 'user', content: 'turn 2' },
+        { role: 'assistant', content: 'turn 3' },
+      ],
+    });
+    expect(mockStorage.chat.updateSummary).toHaveBeenCalledWith('session-1', 0, {
+      summary: 'Earlier: turn 0',
+      summarizedMessageCount: 1,
+    });
+  });
+
+  it('only windows the turns not already folded into the summary', async () => {
+    mockStorage.chat.getSessionById.mockResolvedValue(
+      session({ summary: 'Earlier', summarizedMessageCount: 2 })
+    );
+    mockStorage.chat.getMessagesBySessionId.mockResolvedValue(messages([2000, 2000, 1000, 1000]));
+
+    await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' });
+
+    expect(sentConversation()).toEqual({
+      summary: 'Earlier',
+      history: [
+        { role: 'user', content: 'turn 2' },
+        { role: 'assistant', content: 'turn 3' },
+      ],
+    });
+    expect(mockAiService.summarizeChatHistory).not.toHaveBeenCalled();
+  });
+
+  it('leaves the summary untouched when summarizing fails', async () => {
+    mockStorage.chat.getSessionById.mockResolvedValue(session());
+    mockStorage.chat.getMessagesBySessionId.mockResolvedValue(messages([4000, 1000]));
+    mockAiService.summarizeChatHistory.mockResolvedValue(null);
+
+    await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' });
+
+    expect(sentConversation()).toEqual({
+      summary: null,
+      history: [{ role: 'assistant', content: 'turn 1' }],
+    });
+    expect(mockStorage.chat.updateSummary).not.toHaveBeenCalled();
+  });
+
+  it('saves the summary against the count it was built from', async () => {
+    // A concurrent send that summarized first makes this conditional write a no-op
+    mockStorage.chat.getSessionById.mockResolvedValue(session({ summarizedMessageCount: 4 }));
+    mockStorage.chat.getMessagesBySessionId.mockResolvedValue(
+      messages([100, 100, 100, 100, 3000, 1000])
+    );
+    mockAiService.summarizeChatHistory.mockResolvedValue('Summary');
+    mockStorage.chat.updateSummary.mockResolvedValue(false);
+
+    const result = await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' });
+
+    expect(mockStorage.chat.updateSummary).toHaveBeenCalledWith('session-1', 4, {
+      summary: 'Summary',
+      summarizedMessageCount: 5,
+    });
+    expect(result?.reply.content).toBe('Reply');
+  });
+
+  it('does not touch sessions owned by another user', async () => {
+    mockStorage.chat.getSessionById.mockResolvedValue(session({ userId: 'user-2' }));
+
+    expect(await service.sendMessage(USER_ID, 'Hello', { sessionId: 'session-1' })).toBeUndefined();
+    expect(mockAiService.generateChatResponse).not.toHaveBeenCalled();
+  });
+});
@@ -169,6 +169,8 @@ describe('ContactService', () => {
   });
 
   describe('updateContact', () => {
+    const userId = TEST_USERS.WELLNESS_COACH.id;
+
     it('should update contact and manage tags successfully', async () => {
       // Arrange
       const contactId = TEST_CONTACTS.ENGAGED_CLIENT.id;
@@ -187,17 +189,18 @@ describe('ContactService', () => {
       mockStorage.contacts.getById
         .mockResolvedValueOnce(currentContact as any) // First call for current tags
         .mockResolvedValueOnce(updatedContact as any); // Second call for final result
-      mockStorage.contacts.getAllTags.mockResolvedValue(existingTags as any);
-      mockStorage.contacts.createTag.mockResolvedValue(createdTag as any);
+      mockStorage.tags.getByUserId.mockResolvedValue(existingTags as any);
+      mockStorage.tags.create.mockResolvedValue(createdTag as any);
       mockStorage.contacts.addTag.mockResolvedValue({ contactId, tagId: TEST_TAGS.VIP_CLIENT.id } as any);
 
       // Act
-      const result = await contactService.updateContact(contactId, updates, newTags);
+      const result = await contactService.updateContact(userId, contactId, updates, newTags);
 
       // Assert
       expect(result).toEqual(updatedContact);
       expect(mockStorage.contacts.update).toHaveBeenCalledWith(contactId, updates);
-      expect(mockStorage.contacts.createTag).toHaveBeenCalledWith({
+      expect(mockStorage.tags.create).toHaveBeenCalledWith({
+        userId,
         name: 'New Tag',
         color: '#FF0000'
       });
@@ -214,13 +217,13 @@ describe('ContactService', () => {
       mockStorage.contacts.getById.mockResolvedValue(updatedContact as any);
 
       // Act
-      const result = await contactService.updateContact(contactId, updates, undefined);
+      const result = await contactService.updateContact(userId, contactId, updates, undefined);
 
       // Assert
       expect(result).toEqual(updatedContact);
       expect(mockStorage.contacts.update).toHaveBeenCalledWith(contactId, updates);
       // Should not attempt tag operations
-      expect(mockStorage.contacts.getAllTags).not.toHaveBeenCalled();
+      expect(mockStorage.tags.getByUserId).not.toHaveBeenCalled();
     });
 
     it('should throw error if updated contact not found', async () => {
@@ -233,7 +236,7 @@ describe('ContactService', () => {
 
       // Act & Assert
       await expect(
-        contactService.updateContact(contactId, updates, undefined)
+        contactService.updateContact(userId, contactId, updates, undefined)
       ).rejects.toThrow('Failed to retrieve updated contact');
     });
   });
@@ -366,21 +369,24 @@ describe('ContactService', () => {
   });
 
   describe('addTagToContacts', () => {
+    const userId = TEST_USERS.WELLNESS_COACH.id;
+
     it('should add existing tag to multiple contacts', async () => {
       // Arrange
       const contactIds = [TEST_CONTACTS.ENGAGED_CLIENT.id, TEST_CONTACTS.NEW_CLIENT.id];
       const tagId = TEST_TAGS.VIP_CLIENT.id;
       const mockContactTags = contactIds.map(contactId => ({ contactId, tagId }));
 
+      mockStorage.tags.getByUserId.mockResolvedValue([TEST_TAGS.VIP_CLIENT]);
       mockStorage.contacts.addTagToMultiple.mockResolvedValue(mockContactTags as any);
 
       // Act
-      const result = await contactService.addTagToContacts(contactIds, tagId);
+      const result = await contactService.addTagToContacts(userId, contactIds, tagId);
 
       // Assert
-      expect(result.success).toBe(true);
-      expect(result.tagId).toBe(tagId);
-      expect(result.contactTags).toEqual(mockContactTags);
+      expect(result?.success).toBe(true);
+      expect(result?.tagId).toBe(tagId);
+      expect(result?.contactTags).toEqual(mockContactTags);
       expect(mockStorage.contacts.addTagToMultiple).toHaveBeenCalledWith(contactIds, tagId);
     });
 
@@ -392,16 +398,18 @@ describe('ContactService', () => {
       const createdTag = { id: 'new-tag-id', name: tagName, color: tagColor };
       const mockContactTags = [{ contactId: contactIds[0], tagId: createdTag.id }];
 
-      mockStorage.contacts.createTag.mockResolvedValue(createdTag as any);
+      mockStorage.tags.getByUserId.mockResolvedValue([]);
+      mockStorage.tags.create.mockResolvedValue(createdTag as any);
       mockStorage.contacts.addTagToMultiple.mockResolvedValue(mockContactTags as any);
 
       // Act
-      const result = await contactService.addTagToContacts(contactIds, '', tagName, tagColor);
+      const result = await contactService.addTagToContacts(userId, contactIds, '', tagName, tagColor);
 
       // Assert
-      expect(result.success).toBe(true);
-      expect(result.tagId).toBe(createdTag.id);
-      expect(mockStorage.contacts.createTag).toHaveBeenCalledWith({
+      expect(result?.success).toBe(true);
+      expect(result?.tagId).toBe(createdTag.id);
+      expect(mockStorage.tags.create).toHaveBeenCalledWith({
+        userId,
         name: tagName,
         color: tagColor
       });
@@ -411,10 +419,11 @@ describe('ContactService', () => {
     it('should throw error when no tag ID or name provided', async () => {
       // Arrange
       const contactIds = [TEST_CONTACTS.ENGAGED_CLIENT.id];
+      mockStorage.tags.getByUserId.mockResolvedValue([]);
 
       // Act & Assert
       await expect(
-        contactService.addTagToContacts(contactIds, '', undefined)
+        contactService.addTagToContacts(userId, contactIds, '', undefined)
       ).rejects.toThrow('Tag ID or tag name is required');
     });
   });
@@ -451,6 +460,8 @@ describe('ContactService', () => {
   });
 
   describe('Edge Cases and Error Scenarios', () => {
+    const userId = TEST_USERS.WELLNESS_COACH.id;
+
     it('should handle concurrent tag operations', async () => {
       // This test ensures the service can handle simultaneous tag operations
       const contactId = TEST_CONTACTS.ENGAGED_CLIENT.id;
@@ -464,8 +475,8 @@ describe('ContactService', () => {
 
       // Act - simulate concurrent tag updates
       const [result1, result2] = await Promise.all([
-        contactService.updateContact(contactId, updates, tags1),
-        contactService.updateContact(contactId, updates, tags2)
+        contactService.updateContact(userId, contactId, updates, tags1),
+        contactService.updateContact(userId, contactId, updates, tags2)
       ]);
 
       // Assert - both operations should complete
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for EmailProcessingService
+ * Tests that thread analysis runs as a background job and reports its summary on the job
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  EmailProcessingService,
+  EMAIL_ANALYSIS_JOB_TYPE,
+} from '../../../server/services/email-processing.service.js';
+import { EmailBatchOrchestrationBrain } from '../../../server/brains/email-batch-orchestration.brain.js';
+import { storage } from '../../../server/data/index.js';
+import type { DataProcessingJob, Email, User } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/brains/email-batch-orchestration.brain.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const brainExecute = jest.mocked(EmailBatchOrchestrationBrain.prototype.execute);
+
+const USER_ID = 'user-1';
+const user = { id: USER_ID, email: 'coach@example.com' } as User;
+
+const job = (overrides: Partial<DataProcessingJob> = {}) =>
+  ({
+    id: 'job-1',
+    userId: USER_ID,
+    jobType: EMAIL_ANALYSIS_JOB_TYPE,
+    status: 'processing',
+    ...overrides,
+  }) as DataProcessingJob;
+
+const email = { id: 'email-1', gmailThreadId: 'thread-1' } as Email;
+
+// The analysis runs in the background after startProcessing() returns
+const flushProcessing = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('EmailProcessingService', () => {
+  let service: EmailProcessingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new EmailProcessingService();
+    mockStorage.ai.getJobsByUserId.mockResolvedValue([]);
+    mockStorage.createDataProcessingJob.mockResolvedValue(job());
+    mockStorage.emails.getUnprocessed.mockResolvedValue([email]);
+    mockStorage.emails.getThread.mockResolvedValue([email]);
+    mockStorage.contacts.getByUserId.mockResolvedValue([]);
+    brainExecute.mockResolvedValue({
+      successfulResults: [],
+      failedThreads: ['thread-1'],
+      unchangedThreads: 0,
+      totalProcessed: 0,
+      totalCost: 0,
+      budgetSkippedThreads: [],
+    });
+  });
+
+  it('returns a job and records the summary on it once the analysis finishes', async () => {
+    expect(await service.startProcessing(user, true)).toEqual(job());
+    await flushProcessing();
+
+    expect(brainExecute).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ useFreeModel: true, deferOverBudget: true })
+    );
+    expect(mockStorage.updateDataProcessingJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({
+        status: 'completed',
+        outputData: expect.objectContaining({ threads: 1, failed: 1 }),
+      })
+    );
+  });
+
+  it('returns the running job instead of analyzing the same emails twice', async () => {
+    mockStorage.ai.getJobsByUserId.mockResolvedValue([job({ id: 'job-0' })]);
+
+    expect((await service.startProcessing(user)).id).toBe('job-0');
+    expect(mockStorage.createDataProcessingJob).not.toHaveBeenCalled();
+    expect(brainExecute).not.toHaveBeenCalled();
+  });
+
+  it('marks the job failed when the analysis throws', async () => {
+    brainExecute.mockRejectedValue(new Error('OpenRouter unavailable'));
+
+    await service.startProcessing(user);
+    await flushProcessing();
+
+    expect(mockStorage.updateDataProcessingJob).toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({ status: 'failed', errorMessage: 'OpenRouter unavailable' })
+    );
+  });
+
+  it("does not return another user's job", async () => {
+    mockStorage.ai.getJobById.mockResolvedValue(job({ userId: 'user-2' }));
+
+    expect(await service.getProcessingJob(USER_ID, 'job-1')).toBeUndefined();
+  });
+});
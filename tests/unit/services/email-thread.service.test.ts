@@ -0,0 +1,174 @@
+/**
+ * Unit tests for EmailThreadService
+ * Tests thread grouping, ownership checks and AI reply drafts saved to Gmail
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EmailThreadService } from '../../../server/services/email-thread.service.js';
+import { storage } from '../../../server/data/index.js';
+import { aiService } from '../../../server/services/ai.service.js';
+import { createMockGmailDrafts } from '../../mocks/providers/ai-providers.mock.js';
+import { TEST_CONTACTS, TEST_USERS } from '../../fixtures/test-data.js';
+import type { Contact, Email, ProcessedEmailThread, Tag, User } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/services/ai.service.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockAiService = aiService as jest.Mocked<typeof aiService>;
+
+// The user fixture predates the token columns on User
+const user = TEST_USERS.WELLNESS_COACH as unknown as User;
+const contact = { ...TEST_CONTACTS.ENGAGED_CLIENT, tags: [] as Tag[] } as Contact & { tags: Tag[] };
+
+function email(overrides: Partial<Email>): Email {
+  return {
+    id: 'email-1',
+    userId: user.id,
+    gmailMessageId: 'message-1',
+    gmailThreadId: 'thread-1',
+    subject: 'Session on Thursday',
+    fromEmail: contact.email,
+    fromName: contact.name,
+    toEmails: [user.email],
+    ccEmails: null,
+    bodyText: 'Can we meet on Thursday?',
+    snippet: 'Can we meet on Thursday?',
+    timestamp: new Date('2025-03-03T09:00:00Z'),
+    isRead: true,
+    rawData: { payload: { headers: [{ name: 'Message-ID', value: '<message-1@mail.gmail.com>' }] } },
+    ...overrides,
+  } as Email;
+}
+
+const thread = [
+  email({}),
+  email({
+    id: 'email-2',
+    gmailMessageId: 'message-2',
+    subject: 'Re: Session on Thursday',
+    fromEmail: user.email,
+    fromName: user.name,
+    toEmails: [contact.email],
+    bodyText: 'Thursday at 10 works.',
+    timestamp: new Date('2025-03-03T10:00:00Z'),
+    rawData: { payload: { headers: [{ name: 'Message-ID', value: '<message-2@mail.gmail.com>' }] } },
+  }),
+];
+
+describe('EmailThreadService', () => {
+  let gmail: ReturnType<typeof createMockGmailDrafts>;
+  let service: EmailThreadService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    gmail = createMockGmailDrafts();
+    service = new EmailThreadService(gmail);
+
+    mockStorage.contacts.getById.mockResolvedValue(contact);
+    mockStorage.emails.isThreadParticipant.mockResolvedValue(true);
+    mockStorage.emails.getThread.mockResolvedValue(thread);
+    mockStorage.emails.findProcessedThread.mockResolvedValue(undefined);
+    mockStorage.interactions.getGoalsByContactId.mockResolvedValue([]);
+    mockAiService.draftEmailReply.mockResolvedValue({ body: 'Hi Sarah,\nSee you Thursday.' });
+  });
+
+  describe('getThreads', () => {
+    it('groups the contact emails by thread, newest activity first', async () => {
+      mockStorage.emails.getByParticipant.mockResolvedValue([
+        email({ id: 'email-3', gmailThreadId: 'thread-2', subject: 'Invoice', timestamp: new Date('2025-03-05'), isRead: false }),
+        email({ id: 'email-2', subject: 'Re: Session on Thursday', snippet: 'Latest', timestamp: new Date('2025-03-04') }),
+        email({ id: 'email-1', timestamp: new Date('2025-03-03') }),
+      ]);
+
+      const threads = await service.getThreads(user.id, contact.id);
+
+      expect(threads).toHaveLength(2);
+      expect(threads?.[0]).toMatchObject({ threadId: 'thread-2', unread: true, messageCount: 1 });
+      expect(threads?.[1]).toMatchObject({
+        threadId: 'thread-1',
+        subject: 'Session on Thursday',
+        snippet: 'Latest',
+        messageCount: 2,
+      });
+    });
+
+    it("returns undefined for another user's contact", async () => {
+      mockStorage.contacts.getById.mockResolvedValue({ ...contact, userId: 'someone-else' });
+
+      expect(await service.getThreads(user.id, contact.id)).toBeUndefined();
+      expect(mockStorage.emails.getByParticipant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getThread', () => {
+    it('includes the stored thread insights', async () => {
+      mockStorage.emails.findProcessedThread.mockResolvedValue({
+        analysis: { isRelevant: true, actionItems: ['Send invite'] },
+      } as ProcessedEmailThread);
+
+      const detail = await service.getThread(user.id, contact.id, 'thread-1');
+
+      expect(detail?.messages).toHaveLength(2);
+      expect(detail?.insights).toMatchObject({ actionItems: ['Send invite'] });
+    });
+
+    it('returns undefined when the contact is not part of the thread', async () => {
+      mockStorage.emails.isThreadParticipant.mockResolvedValue(false);
+
+      expect(await service.getThread(user.id, contact.id, 'thread-1')).toBeUndefined();
+    });
+  });
+
+  describe('draftReply', () => {
+    it('saves the AI draft as a Gmail draft replying to the last message', async () => {
+      const result = await service.draftReply(user, contact.id, 'thread-1');
+
+      expect(result).toEqual({
+        success: true,
+        draft: {
+          draftId: 'mock-draft-1',
+          threadId: 'thread-1',
+          to: contact.email,
+          subject: 'Re: Session on Thursday',
+          body: 'Hi Sarah,\nSee you Thursday.',
+        },
+      });
+      expect(gmail.saveGmailDraft).toHaveBeenCalledWith(
+        user,
+        'thread-1',
+        expect.objectContaining({ inReplyTo: '<message-2@mail.gmail.com>' })
+      );
+      expect(mockAiService.draftEmailReply).toHaveBeenCalledWith(
+        user.id,
+        expect.objectContaining({ contact, thread })
+      );
+    });
+
+    it('does not draft for a thread the contact is not part of', async () => {
+      mockStorage.emails.isThreadParticipant.mockResolvedValue(false);
+
+      const result = await service.draftReply(user, contact.id, 'thread-1');
+
+      expect(result).toEqual({ success: false, error: 'Thread not found', status: 404 });
+      expect(mockAiService.draftEmailReply).not.toHaveBeenCalled();
+      expect(gmail.saveGmailDraft).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateDraft', () => {
+    it('replaces the saved Gmail draft with the edited version', async () => {
+      await service.draftReply(user, contact.id, 'thread-1');
+
+      const result = await service.updateDraft(user, contact.id, 'thread-1', 'mock-draft-1', {
+        to: contact.email,
+        subject: 'Re: Session on Thursday',
+        body: 'Edited reply',
+      });
+
+      expect(result).toMatchObject({ success: true, draft: { draftId: 'mock-draft-1', body: 'Edited reply' } });
+      expect(gmail.drafts.size).toBe(1);
+      expect(gmail.drafts.get('mock-draft-1')?.email.body).toBe('Edited reply');
+    });
+  });
+});
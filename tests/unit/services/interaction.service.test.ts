@@ -0,0 +1,77 @@
+/**
+ * Unit tests for goal handling in InteractionService
+ * Covers ownership checks, progress history and automatic completion
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { InteractionService, resolveGoalStatus } from '../../../server/services/interaction.service.js';
+import { storage } from '../../../server/data/index.js';
+import type { Contact, Goal } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const contact = { id: 'contact-1', userId: 'user-1', name: 'Ana Silva' } as Contact;
+const goal = {
+  id: 'goal-1',
+  contactId: 'contact-1',
+  title: 'Attend weekly yoga',
+  targetValue: 10,
+  currentValue: 8,
+  unit: 'sessions',
+  status: 'active',
+} as Goal;
+
+describe('resolveGoalStatus', () => {
+  it('completes active goals once the target is reached', () => {
+    expect(resolveGoalStatus('active', 10, 10)).toBe('completed');
+    expect(resolveGoalStatus('active', 9, 10)).toBe('active');
+  });
+
+  it('leaves paused goals alone', () => {
+    expect(resolveGoalStatus('paused', 12, 10)).toBe('paused');
+  });
+});
+
+describe('InteractionService goals', () => {
+  let service: InteractionService;
+
+  beforeEach(() => {
+    service = new InteractionService();
+    jest.clearAllMocks();
+    mockStorage.interactions.getGoalById.mockResolvedValue(goal);
+    mockStorage.contacts.getById.mockResolvedValue({ ...contact, tags: [] });
+    mockStorage.interactions.updateGoal.mockImplementation(async (id, updates) => ({ ...goal, ...updates }) as Goal);
+  });
+
+  it('records progress in the history and completes the goal', async () => {
+    const result = await service.recordGoalProgress('user-1', 'goal-1', { value: 10, note: 'Great week' });
+
+    expect(result?.status).toBe('completed');
+    expect(mockStorage.interactions.updateGoal).toHaveBeenCalledWith(
+      'goal-1',
+      { currentValue: 10, status: 'completed' },
+      { value: 10, note: 'Great week' }
+    );
+  });
+
+  it('only adds a progress entry when the current value changes', async () => {
+    await service.updateGoal('user-1', 'goal-1', { title: 'Attend yoga twice a week' });
+
+    expect(mockStorage.interactions.updateGoal).toHaveBeenCalledWith(
+      'goal-1',
+      { title: 'Attend yoga twice a week', status: 'active' },
+      undefined
+    );
+  });
+
+  it("does not touch goals of another user's contacts", async () => {
+    mockStorage.contacts.getById.mockResolvedValue({ ...contact, userId: 'user-2', tags: [] });
+
+    expect(await service.recordGoalProgress('user-1', 'goal-1', { value: 10 })).toBeUndefined();
+    expect(await service.deleteGoal('user-1', 'goal-1')).toBe(false);
+    expect(mockStorage.interactions.updateGoal).not.toHaveBeenCalled();
+    expect(mockStorage.interactions.deleteGoal).not.toHaveBeenCalled();
+  });
+});
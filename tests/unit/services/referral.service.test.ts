@@ -0,0 +1,128 @@
+/**
+ * Unit tests for referral tracking
+ * Tests referral validation, the referral tree and ambassador stats
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ReferralService, contactRevenue } from '../../../server/services/referral.service.js';
+import { storage } from '../../../server/data/index.js';
+import type { Contact, Referral, Tag } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const USER_ID = 'user-1';
+
+const contact = (id: string, fields: Partial<Contact> = {}): Contact & { tags: Tag[] } =>
+  ({ id, userId: USER_ID, name: id, avatarUrl: null, lifecycleStage: null, tags: [] as Tag[], ...fields }) as Contact & {
+    tags: Tag[];
+  };
+
+const referral = (referrerId: string, referredId: string): Referral => ({
+  id: `${referrerId}-${referredId}`,
+  userId: USER_ID,
+  referrerId,
+  referredId,
+  referredAt: new Date('2025-06-01'),
+  source: 'word_of_mouth',
+  rewardStatus: 'none',
+  notes: null,
+  createdAt: new Date('2025-06-01'),
+  updatedAt: new Date('2025-06-01'),
+});
+
+describe('ReferralService', () => {
+  let service: ReferralService;
+  const contacts = [
+    contact('ana', { revenueData: { totalRevenue: 1200 } }),
+    contact('ben', { revenueData: { totalRevenue: 300 } }),
+    contact('cleo'),
+    contact('dev', { revenueData: { totalRevenue: 500 } }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReferralService();
+    mockStorage.contacts.getById.mockImplementation(async (id) => contacts.find((c) => c.id === id));
+    mockStorage.contacts.getByUserId.mockResolvedValue(contacts);
+    // ana referred ben, ben referred cleo
+    mockStorage.referrals.getByUserId.mockResolvedValue([referral('ana', 'ben'), referral('ben', 'cleo')]);
+  });
+
+  describe('recordReferral', () => {
+    it('records a referral between two of the user\'s contacts', async () => {
+      mockStorage.referrals.create.mockResolvedValue(referral('ana', 'dev'));
+
+      const result = await service.recordReferral(USER_ID, { referrerId: 'ana', referredId: 'dev', rewardStatus: 'none' });
+
+      expect(result.success).toBe(true);
+      expect(mockStorage.referrals.create).toHaveBeenCalledWith({
+        userId: USER_ID,
+        referrerId: 'ana',
+        referredId: 'dev',
+        rewardStatus: 'none',
+      });
+    });
+
+    it('rejects a contact who already has a referrer', async () => {
+      const result = await service.recordReferral(USER_ID, { referrerId: 'dev', referredId: 'ben', rewardStatus: 'none' });
+
+      expect(result).toMatchObject({ success: false, status: 409 });
+      expect(mockStorage.referrals.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a referral that would make a contact their own referrer', async () => {
+      const result = await service.recordReferral(USER_ID, { referrerId: 'cleo', referredId: 'ana', rewardStatus: 'none' });
+
+      expect(result).toMatchObject({ success: false, status: 400 });
+      expect(mockStorage.referrals.create).not.toHaveBeenCalled();
+    });
+
+    it('does not record referrals involving another user\'s contacts', async () => {
+      mockStorage.contacts.getById.mockImplementation(async (id) =>
+        id === 'eve' ? contact('eve', { userId: 'user-2' }) : contacts.find((c) => c.id === id)
+      );
+
+      const result = await service.recordReferral(USER_ID, { referrerId: 'eve', referredId: 'dev', rewardStatus: 'none' });
+
+      expect(result).toMatchObject({ success: false, status: 404 });
+    });
+  });
+
+  it('builds the tree of referrals below a contact and who referred them', async () => {
+    const tree = await service.getReferralTree(USER_ID, 'ben');
+
+    expect(tree?.referredBy?.contact.id).toBe('ana');
+    expect(tree?.referrals.map((node) => node.contact.id)).toEqual(['cleo']);
+
+    const root = await service.getReferralTree(USER_ID, 'ana');
+    expect(root?.referredBy).toBeNull();
+    expect(root?.referrals[0].referrals[0].contact.id).toBe('cleo');
+  });
+
+  it('ranks ambassadors by referrals and attributes the revenue of the contacts they referred', async () => {
+    mockStorage.referrals.getByUserId.mockResolvedValue([
+      referral('ana', 'ben'),
+      referral('dev', 'cleo'),
+      referral('dev', 'ana'),
+    ]);
+
+    const stats = await service.getAmbassadorStats(USER_ID);
+
+    expect(stats.totalReferrals).toBe(3);
+    expect(stats.attributedRevenue).toBe(1500);
+    expect(stats.topAmbassadors.map((a) => [a.id, a.referralCount, a.attributedRevenue])).toEqual([
+      ['dev', 2, 1200],
+      ['ana', 1, 300],
+    ]);
+  });
+});
+
+describe('contactRevenue', () => {
+  it('ignores missing or invalid revenue', () => {
+    expect(contactRevenue({ revenueData: null })).toBe(0);
+    expect(contactRevenue({ revenueData: { totalRevenue: 'n/a' } })).toBe(0);
+    expect(contactRevenue({ revenueData: { totalRevenue: '250' } })).toBe(250);
+  });
+});
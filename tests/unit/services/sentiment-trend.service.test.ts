@@ -0,0 +1,231 @@
+/**
+ * Unit tests for sentiment trend tracking
+ * Tests trend derivation from rating history, how messages are rated and check-in suggestions
+ * for core clients
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  SentimentTrendService,
+  SENTIMENT_DROP_SUGGESTION,
+  computeSentimentTrend,
+  sentimentDrop,
+} from '../../../server/services/sentiment-trend.service.js';
+import { storage } from '../../../server/data/index.js';
+import { mistralService } from '../../../server/providers/mistral.provider.js';
+import { llmCostTracker } from '../../../server/utils/llm-cost-tracker.js';
+import { BudgetExceededError } from '../../../server/utils/error-handling.js';
+import { TEST_CONTACTS } from '../../fixtures/test-data.js';
+import type { Contact, SentimentScore, Tag } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/providers/mistral.provider.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockMistral = mistralService as jest.Mocked<typeof mistralService>;
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rating(daysAgo: number, value: number, confidence: number | null = 0.8) {
+  return { rating: value, confidence, recordedAt: new Date(NOW.getTime() - daysAgo * DAY_MS) };
+}
+
+describe('computeSentimentTrend', () => {
+  it('returns null with fewer than three client ratings', () => {
+    expect(computeSentimentTrend([rating(10, 4), rating(5, 4), rating(2, 3, 0)], NOW)).toBeNull();
+  });
+
+  it('is improving when ratings rise over time', () => {
+    const trend = computeSentimentTrend([rating(80, 2), rating(50, 3), rating(20, 4), rating(5, 5)], NOW);
+
+    expect(trend).toMatchObject({ engagementTrend: 'improving', sentiment: 4 });
+    expect(trend?.slope).toBeGreaterThan(0);
+  });
+
+  it('is declining when ratings fall over time', () => {
+    const trend = computeSentimentTrend([rating(80, 5), rating(50, 4), rating(20, 3), rating(5, 2)], NOW);
+
+    expect(trend?.engagementTrend).toBe('declining');
+  });
+
+  it('is declining when a contact with flat ratings writes far less often', () => {
+    const trend = computeSentimentTrend(
+      [rating(85, 4), rating(80, 4), rating(70, 4), rating(60, 4), rating(50, 4), rating(40, 4), rating(10, 4)],
+      NOW
+    );
+
+    expect(trend).toMatchObject({ engagementTrend: 'declining', slope: 0 });
+    expect(trend?.frequencyRatio).toBeLessThanOrEqual(0.5);
+  });
+
+  it('is stable for flat ratings at a steady pace', () => {
+    const trend = computeSentimentTrend([rating(75, 4), rating(45, 4), rating(15, 4)], NOW);
+
+    expect(trend?.engagementTrend).toBe('stable');
+  });
+});
+
+describe('sentimentDrop', () => {
+  it('reports a sharp drop in the latest ratings', () => {
+    expect(sentimentDrop([rating(60, 5), rating(50, 4), rating(20, 2), rating(10, 2), rating(5, 3)])).toEqual({
+      before: 4.5,
+      after: 7 / 3,
+    });
+  });
+
+  it('ignores small dips and short histories', () => {
+    expect(sentimentDrop([rating(60, 4), rating(50, 4), rating(20, 3), rating(10, 3), rating(5, 4)])).toBeNull();
+    expect(sentimentDrop([rating(20, 5), rating(10, 1), rating(5, 1)])).toBeNull();
+  });
+});
+
+describe('SentimentTrendService.updateSentimentTrends', () => {
+  const contact = {
+    ...TEST_CONTACTS.ENGAGED_CLIENT,
+    lifecycleStage: 'core_client',
+    tags: [] as Tag[],
+  } as Contact & { tags: Tag[] };
+  let service: SentimentTrendService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SentimentTrendService();
+
+    mockStorage.contacts.getById.mockResolvedValue(contact);
+    mockStorage.sentiment.getUnscoredInteractions.mockResolvedValue([]);
+    mockStorage.sentiment.getUnscoredEmails.mockResolvedValue([
+      {
+        id: 'email-1',
+        contactId: contact.id,
+        subject: 'Cancelling',
+        bodyText: 'I am really unhappy with how the last sessions went.',
+        snippet: null,
+        timestamp: new Date(NOW.getTime() - DAY_MS),
+      },
+    ]);
+    mockStorage.ai.getSuggestionsByUserId.mockResolvedValue([]);
+    mockMistral.generateCompletion.mockResolvedValue('{"rating": 1, "confidence": 0.9}');
+  });
+
+  it('rates new emails, updates the contact trend and suggests a check-in after a sharp drop', async () => {
+    const history = [rating(80, 5), rating(60, 5), rating(40, 4), rating(10, 2), rating(1, 1, 0.9)] as SentimentScore[];
+    mockStorage.sentiment.getByContactId.mockResolvedValue(history);
+
+    const summary = await service.updateSentimentTrends(contact.userId, NOW);
+
+    expect(summary).toEqual({ scored: 1, contactsUpdated: 1, dropSuggestions: 1 });
+    expect(mockStorage.sentiment.createScores).toHaveBeenCalledWith([
+      expect.objectContaining({ contactId: contact.id, source: 'email', sourceId: 'email-1', rating: 1 }),
+    ]);
+    expect(mockStorage.contacts.update).toHaveBeenCalledWith(contact.id, {
+      sentiment: expect.any(Number),
+      engagementTrend: 'declining',
+    });
+    expect(mockStorage.ai.createSuggestion).toHaveBeenCalledWith(
+      expect.objectContaining({ type: SENTIMENT_DROP_SUGGESTION, priority: 'high' })
+    );
+  });
+
+  it('records what each rating cost against the user\'s budget', async () => {
+    mockStorage.sentiment.getByContactId.mockResolvedValue([]);
+
+    await service.updateSentimentTrends(contact.userId, NOW);
+
+    expect(mockStorage.llmUsage.createUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: contact.userId, model: 'mistral-small-latest', operation: 'sentiment' })
+    );
+  });
+
+  it('leaves messages unscored when the model cannot rate them', async () => {
+    mockStorage.sentiment.getUnscoredInteractions.mockResolvedValue([
+      {
+        id: 'interaction-1',
+        contactId: contact.id,
+        content: 'Session notes',
+        sentiment: null,
+        timestamp: new Date(NOW.getTime() - DAY_MS),
+      },
+    ]);
+    mockMistral.generateCompletion.mockRejectedValue(new Error('Service unavailable'));
+
+    const summary = await service.updateSentimentTrends(contact.userId, NOW);
+
+    expect(summary.scored).toBe(0);
+    expect(mockStorage.sentiment.createScores).toHaveBeenCalledWith([]);
+    expect(mockStorage.interactions.update).not.toHaveBeenCalled();
+  });
+
+  it('marks emails without text as scored without rating them', async () => {
+    mockStorage.sentiment.getUnscoredEmails.mockResolvedValue([
+      {
+        id: 'email-2',
+        contactId: contact.id,
+        subject: null,
+        bodyText: null,
+        snippet: null,
+        timestamp: new Date(NOW.getTime() - DAY_MS),
+      },
+    ]);
+    mockStorage.sentiment.getByContactId.mockResolvedValue([]);
+
+    await service.updateSentimentTrends(contact.userId, NOW);
+
+    expect(mockMistral.generateCompletion).not.toHaveBeenCalled();
+    expect(mockStorage.sentiment.createScores).toHaveBeenCalledWith([
+      expect.objectContaining({ sourceId: 'email-2', rating: 3, confidence: 0 }),
+    ]);
+  });
+
+  describe('once the budget is spent', () => {
+    let checkBudget: jest.SpiedFunction<typeof llmCostTracker.checkBudget>;
+
+    beforeEach(() => {
+      checkBudget = jest.spyOn(llmCostTracker, 'checkBudget').mockResolvedValue({
+        action: 'block',
+        model: 'mistral-small-latest',
+        period: 'daily',
+        resetAt: new Date(NOW.getTime() + DAY_MS),
+      });
+    });
+
+    afterEach(() => {
+      checkBudget.mockRestore();
+    });
+
+    it('saves the ratings it has and throws BudgetExceededError', async () => {
+      mockStorage.sentiment.getUnscoredInteractions.mockResolvedValue([
+        {
+          id: 'interaction-1',
+          contactId: contact.id,
+          content: 'Session notes',
+          sentiment: 4,
+          timestamp: new Date(NOW.getTime() - DAY_MS),
+        },
+      ]);
+      mockStorage.sentiment.getByContactId.mockResolvedValue([]);
+
+      await expect(service.updateSentimentTrends(contact.userId, NOW)).rejects.toBeInstanceOf(
+        BudgetExceededError
+      );
+      expect(mockMistral.generateCompletion).not.toHaveBeenCalled();
+      expect(mockStorage.sentiment.createScores).toHaveBeenCalledWith([
+        expect.objectContaining({ sourceId: 'interaction-1', rating: 4, confidence: null }),
+      ]);
+    });
+  });
+
+  it('does not repeat a check-in suggestion that is still pending', async () => {
+    mockStorage.sentiment.getByContactId.mockResolvedValue(
+      [rating(80, 5), rating(60, 5), rating(40, 4), rating(10, 2), rating(1, 1)] as SentimentScore[]
+    );
+    mockStorage.ai.getSuggestionsByUserId.mockResolvedValue([
+      { type: SENTIMENT_DROP_SUGGESTION, sourceData: { contactId: contact.id } },
+    ] as Awaited<ReturnType<typeof storage.ai.getSuggestionsByUserId>>);
+
+    const summary = await service.updateSentimentTrends(contact.userId, NOW);
+
+    expect(summary.dropSuggestions).toBe(0);
+    expect(mockStorage.ai.createSuggestion).not.toHaveBeenCalled();
+  });
+});
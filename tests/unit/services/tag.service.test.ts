@@ -0,0 +1,72 @@
+/**
+ * Unit tests for TagService
+ * Tests per-user tag names, ownership checks and merging
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TagService } from '../../../server/services/tag.service.js';
+import { storage } from '../../../server/data/index.js';
+import type { Tag } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const USER_ID = 'user-1';
+
+const tag = (id: string, name: string, userId = USER_ID): Tag => ({
+  id,
+  userId,
+  name,
+  color: '#3b82f6',
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+});
+
+describe('TagService', () => {
+  let service: TagService;
+  const userTags = [tag('tag-vip', 'VIP'), tag('tag-yoga', 'Yoga')];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TagService();
+    mockStorage.tags.getByUserId.mockResolvedValue(userTags);
+    mockStorage.tags.getById.mockImplementation(async (id) =>
+      id === 'tag-other' ? tag('tag-other', 'VIP', 'user-2') : userTags.find((t) => t.id === id)
+    );
+  });
+
+  it('rejects a tag name the user already has, ignoring case', async () => {
+    const result = await service.createTag(USER_ID, { name: ' vip ', color: '#ef4444' });
+
+    expect(result).toMatchObject({ success: false, status: 409 });
+    expect(mockStorage.tags.create).not.toHaveBeenCalled();
+  });
+
+  it('renames a tag unless another of the user\'s tags has the name', async () => {
+    mockStorage.tags.update.mockResolvedValue(tag('tag-vip', 'Inner Circle'));
+
+    expect(await service.updateTag(USER_ID, 'tag-vip', { name: 'Yoga' })).toMatchObject({ status: 409 });
+    expect(await service.updateTag(USER_ID, 'tag-vip', { name: 'Inner Circle' })).toMatchObject({ success: true });
+    expect(mockStorage.tags.update).toHaveBeenCalledWith('tag-vip', { name: 'Inner Circle' });
+  });
+
+  it('does not delete or merge another user\'s tags', async () => {
+    expect(await service.deleteTag(USER_ID, 'tag-other')).toBe(false);
+    expect(await service.mergeTags(USER_ID, 'tag-other', 'tag-vip')).toMatchObject({ success: false, status: 404 });
+    expect(mockStorage.tags.delete).not.toHaveBeenCalled();
+    expect(mockStorage.tags.merge).not.toHaveBeenCalled();
+  });
+
+  it('merges the source tag into the target', async () => {
+    const result = await service.mergeTags(USER_ID, 'tag-yoga', 'tag-vip');
+
+    expect(result).toMatchObject({ success: true, tag: { id: 'tag-vip' } });
+    expect(mockStorage.tags.merge).toHaveBeenCalledWith('tag-yoga', 'tag-vip');
+    expect(await service.mergeTags(USER_ID, 'tag-vip', 'tag-vip')).toMatchObject({ status: 400 });
+  });
+
+  it('drops tag IDs that are not the user\'s', async () => {
+    expect(await service.getOwnedTagIds(USER_ID, ['tag-vip', 'tag-other', 'tag-vip'])).toEqual(['tag-vip']);
+  });
+});
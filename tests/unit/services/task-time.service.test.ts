@@ -0,0 +1,168 @@
+/**
+ * Unit tests for TaskTimeService
+ * Tests timers, ownership checks and the estimate vs actual report
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TaskTimeService } from '../../../server/services/task-time.service.js';
+import { TaskTimeData } from '../../../server/data/task-time.data.js';
+import { storage } from '../../../server/data/index.js';
+import { db } from '../../../server/db.js';
+import type { Contact, Project, Tag, Task, TaskTimeEntry } from '../../../shared/schema.js';
+
+jest.mock('../../../server/db.js', () => ({ db: { insert: jest.fn() } }));
+jest.mock('../../../server/data/index.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockDb = db as jest.Mocked<typeof db>;
+
+const USER_ID = 'user-1';
+const NOW = new Date('2025-06-02T10:00:00Z');
+
+const task = (id: string, userId = USER_ID): Task =>
+  ({ id, userId, title: `Task ${id}`, actualMinutes: 0 }) as Task;
+
+const runningEntry = (taskId: string, startedAt: Date): TaskTimeEntry => ({
+  id: `entry-${taskId}`,
+  taskId,
+  userId: USER_ID,
+  source: 'timer',
+  startedAt,
+  endedAt: null,
+  minutes: null,
+  note: null,
+  createdAt: startedAt,
+});
+
+describe('TaskTimeService', () => {
+  let service: TaskTimeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TaskTimeService();
+    mockStorage.tasks.findTaskById.mockImplementation(async (id) =>
+      id === 'task-other' ? task(id, 'user-2') : task(id)
+    );
+    mockStorage.taskTime.startTimer.mockImplementation(
+      async (entry) => ({ ...runningEntry(entry.taskId, entry.startedAt) }) as TaskTimeEntry
+    );
+    mockStorage.taskTime.stopTimer.mockImplementation(async (id, endedAt, minutes) => ({
+      entry: { ...runningEntry('task-a', NOW), id, endedAt, minutes },
+      task: { ...task('task-a'), actualMinutes: minutes },
+    }));
+  });
+
+  it('does not start a timer on another user\'s task', async () => {
+    expect(await service.startTimer(USER_ID, 'task-other', NOW)).toMatchObject({ success: false, status: 404 });
+    expect(mockStorage.taskTime.startTimer).not.toHaveBeenCalled();
+  });
+
+  it('stops the timer running on another task before starting a new one', async () => {
+    mockStorage.taskTime.getRunning.mockResolvedValue(
+      runningEntry('task-a', new Date('2025-06-02T09:35:00Z'))
+    );
+
+    const result = await service.startTimer(USER_ID, 'task-b', NOW);
+
+    expect(result).toMatchObject({ success: true, entry: { taskId: 'task-b' } });
+    expect(mockStorage.taskTime.stopTimer).toHaveBeenCalledWith('entry-task-a', NOW, 25);
+    expect(mockStorage.tasks.createTaskActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId: 'task-a',
+        actionType: 'time_logged',
+        metadata: { changes: { actualMinutes: { from: 0, to: 25 } } },
+      })
+    );
+  });
+
+  it('reports a conflict when a concurrent request started a timer first', async () => {
+    mockStorage.taskTime.startTimer.mockResolvedValue(undefined);
+
+    expect(await service.startTimer(USER_ID, 'task-a', NOW)).toMatchObject({ success: false, status: 409 });
+  });
+
+  it('counts a stopped timer as at least one minute', async () => {
+    mockStorage.taskTime.getRunning.mockResolvedValue(
+      runningEntry('task-a', new Date('2025-06-02T09:59:50Z'))
+    );
+
+    await service.stopTimer(USER_ID, NOW);
+
+    expect(mockStorage.taskTime.stopTimer).toHaveBeenCalledWith('entry-task-a', NOW, 1);
+  });
+
+  it('splits a task\'s time between its contacts and compares it with the estimate', async () => {
+    mockStorage.taskTime.getTrackedTimeByTask.mockResolvedValue([
+      {
+        taskId: 'task-a',
+        projectId: 'project-1',
+        assignedContactIds: ['contact-1', 'contact-2'],
+        estimatedMinutes: 40,
+        trackedMinutes: 60,
+      },
+      {
+        taskId: 'task-b',
+        projectId: null,
+        assignedContactIds: ['contact-1'],
+        estimatedMinutes: null,
+        trackedMinutes: 15,
+      },
+    ]);
+    mockStorage.tasks.getProjectsByUserId.mockResolvedValue([
+      { id: 'project-1', name: 'Retreat' } as Project,
+    ]);
+    mockStorage.contacts.getByUserId.mockResolvedValue([
+      { id: 'contact-1', name: 'Alex', tags: [] as Tag[] } as Contact & { tags: Tag[] },
+      { id: 'contact-2', name: 'Sam', tags: [] as Tag[] } as Contact & { tags: Tag[] },
+    ]);
+
+    const report = await service.getEstimateReport(USER_ID);
+
+    expect(report.totals).toEqual({
+      taskCount: 2,
+      trackedMinutes: 75,
+      estimatedMinutes: 40,
+      actualMinutes: 60,
+      estimateRatio: 1.5,
+    });
+    expect(report.byProject.map((row) => [row.name, row.trackedMinutes])).toEqual([
+      ['Retreat', 60],
+      ['No project', 15],
+    ]);
+    expect(report.byContact).toEqual([
+      expect.objectContaining({ name: 'Alex', taskCount: 2, trackedMinutes: 45, estimateRatio: 1.5 }),
+      expect.objectContaining({ name: 'Sam', taskCount: 1, trackedMinutes: 30, estimatedMinutes: 20 }),
+    ]);
+  });
+});
+
+describe('TaskTimeData.startTimer', () => {
+  let returning: jest.Mock;
+
+  beforeEach(() => {
+    returning = jest.fn();
+    mockDb.insert.mockReturnValue({
+      values: jest.fn(() => ({ returning })),
+    } as unknown as ReturnType<typeof db.insert>);
+  });
+
+  const start = () =>
+    new TaskTimeData().startTimer({ taskId: 'task-a', userId: USER_ID, source: 'timer', startedAt: NOW });
+
+  it('returns undefined when the user already has a running timer', async () => {
+    returning.mockRejectedValue(
+      Object.assign(new Error('duplicate key value violates unique constraint'), {
+        code: '23505',
+        constraint: 'task_time_entries_running_timer_idx',
+      }) as never
+    );
+
+    expect(await start()).toBeUndefined();
+  });
+
+  it('rethrows other database errors', async () => {
+    returning.mockRejectedValue(Object.assign(new Error('connection lost'), { code: '08006' }) as never);
+
+    await expect(start()).rejects.toThrow('connection lost');
+  });
+});
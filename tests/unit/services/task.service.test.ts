@@ -0,0 +1,162 @@
+/**
+ * Unit tests for TaskService
+ * Tests activity logging for updates and moves on the board, and ownership checks
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TaskService } from '../../../server/services/task.service.js';
+import { storage } from '../../../server/data/index.js';
+import type { Task } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/brains/task-ai.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const USER_ID = 'user-1';
+const NOW = new Date('2025-06-02T09:00:00Z');
+
+const task = (id: string, status: Task['status'], orderIndex = 0): Task =>
+  ({
+    id,
+    userId: USER_ID,
+    title: `Task ${id}`,
+    status,
+    priority: 'medium',
+    orderIndex,
+    recurrenceRule: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  }) as Task;
+
+describe('TaskService.reorderTasks', () => {
+  let service: TaskService;
+  const userTasks = [task('task-a', 'pending', 0), task('task-b', 'completed', 1)];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TaskService();
+    mockStorage.tasks.getTasksByIds.mockImplementation(async (_userId, ids) =>
+      userTasks.filter((t) => ids.includes(t.id))
+    );
+    mockStorage.tasks.reorderTasks.mockResolvedValue([]);
+  });
+
+  it('rejects moves that include another user\'s task', async () => {
+    const result = await service.reorderTasks(USER_ID, [
+      { id: 'task-a', orderIndex: 1 },
+      { id: 'task-other', orderIndex: 0 },
+    ]);
+
+    expect(result).toMatchObject({ success: false, status: 404 });
+    expect(mockStorage.tasks.reorderTasks).not.toHaveBeenCalled();
+  });
+
+  it('logs an activity for each status change and sets the completion time', async () => {
+    await service.reorderTasks(
+      USER_ID,
+      [
+        { id: 'task-a', orderIndex: 0, status: 'completed' },
+        { id: 'task-b', orderIndex: 1, status: 'in_progress' },
+      ],
+      NOW
+    );
+
+    const [, placements, activities] = mockStorage.tasks.reorderTasks.mock.calls[0];
+    expect(placements).toEqual([
+      { id: 'task-a', orderIndex: 0, status: 'completed', completedAt: NOW },
+      { id: 'task-b', orderIndex: 1, status: 'in_progress', completedAt: null },
+    ]);
+    expect(activities).toHaveLength(2);
+    expect(activities[0]).toMatchObject({
+      taskId: 'task-a',
+      actionType: 'status_changed',
+      metadata: { changes: { status: { from: 'pending', to: 'completed' } }, source: 'board' },
+    });
+  });
+
+  it('only reorders when the status stays the same', async () => {
+    await service.reorderTasks(USER_ID, [{ id: 'task-a', orderIndex: 3, status: 'pending' }]);
+
+    const [, placements, activities] = mockStorage.tasks.reorderTasks.mock.calls[0];
+    expect(placements).toEqual([{ id: 'task-a', orderIndex: 3, status: undefined }]);
+    expect(activities).toEqual([]);
+  });
+});
+
+describe('TaskService.updateTask', () => {
+  let service: TaskService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TaskService();
+    mockStorage.tasks.findTaskById.mockResolvedValue(task('task-a', 'pending'));
+    mockStorage.tasks.updateTask.mockImplementation(
+      async (id, updates) => ({ ...task(id, 'pending'), ...updates }) as Task
+    );
+  });
+
+  it('does not update another user\'s task', async () => {
+    expect(await service.updateTask('user-2', 'task-a', { title: 'Mine now' })).toBeUndefined();
+    expect(mockStorage.tasks.updateTask).not.toHaveBeenCalled();
+  });
+
+  it('logs the status change apart from the other fields it changed', async () => {
+    await service.updateTask(USER_ID, 'task-a', {
+      status: 'in_progress',
+      title: 'Task task-a',
+      priority: 'high',
+    });
+
+    const activities = mockStorage.tasks.createTaskActivity.mock.calls.map(([activity]) => activity);
+    expect(activities).toEqual([
+      expect.objectContaining({
+        actionType: 'status_changed',
+        metadata: { changes: { status: { from: 'pending', to: 'in_progress' } } },
+      }),
+      expect.objectContaining({
+        actionType: 'updated',
+        description: 'Updated priority',
+        metadata: { changes: { priority: { from: 'medium', to: 'high' } } },
+      }),
+    ]);
+  });
+
+  it('logs nothing when no field changes', async () => {
+    await service.updateTask(USER_ID, 'task-a', { title: 'Task task-a', status: 'pending' });
+
+    expect(mockStorage.tasks.createTaskActivity).not.toHaveBeenCalled();
+  });
+});
+
+describe('TaskService.createNextOccurrence', () => {
+  let service: TaskService;
+
+  const recurring = (recurrenceRule: string): Task =>
+    ({ ...task('task-a', 'completed'), recurrenceRule, dueDate: new Date('2025-05-26') }) as Task;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TaskService();
+  });
+
+  it('marks the last task once the series has produced COUNT tasks', async () => {
+    mockStorage.tasks.countRecurrenceSeries.mockResolvedValue(3);
+
+    expect(
+      await service.createNextOccurrence(recurring('FREQ=WEEKLY;COUNT=3'), { type: 'system' }, NOW)
+    ).toBeUndefined();
+
+    expect(mockStorage.tasks.createNextOccurrence).not.toHaveBeenCalled();
+    expect(mockStorage.tasks.updateTask).toHaveBeenCalledWith('task-a', { nextOccurrenceCreatedAt: NOW });
+  });
+
+  it('marks the last task once the next date would be after UNTIL', async () => {
+    expect(
+      await service.createNextOccurrence(recurring('FREQ=WEEKLY;UNTIL=20250601'), { type: 'system' }, NOW)
+    ).toBeUndefined();
+
+    expect(mockStorage.tasks.createNextOccurrence).not.toHaveBeenCalled();
+    expect(mockStorage.tasks.updateTask).toHaveBeenCalledWith('task-a', { nextOccurrenceCreatedAt: NOW });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for VoiceNoteService
+ * Tests transcription provider selection and that retrying a failed note is safe
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import { VoiceNoteService } from '../../../server/services/voice-note.service.js';
+import { aiService } from '../../../server/services/ai.service.js';
+import {
+  createTranscriptionProvider,
+  LocalTranscriptionProvider,
+  OpenAITranscriptionProvider,
+  type TranscriptionProvider,
+} from '../../../server/providers/transcription.provider.js';
+import { storage } from '../../../server/data/index.js';
+import type { Contact, Interaction, Tag, VoiceNote } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+jest.mock('../../../server/services/ai.service.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockAiService = aiService as jest.Mocked<typeof aiService>;
+
+const USER_ID = 'user-1';
+
+const contact = { id: 'contact-1', userId: USER_ID, name: 'Jane Doe', tags: [] as Tag[] } as Contact & {
+  tags: Tag[];
+};
+
+const note = (overrides: Partial<VoiceNote> = {}): VoiceNote => ({
+  id: 'note-1',
+  contactId: contact.id,
+  noteUrl: '/api/voice-notes/note-1/audio',
+  transcription: 'Jane wants to move her sessions to Tuesdays',
+  fileName: 'note-1.webm',
+  mimeType: 'audio/webm',
+  durationSeconds: 12,
+  status: 'failed',
+  errorMessage: 'Suggestion could not be saved',
+  interactionId: null,
+  createdAt: new Date('2025-06-01T10:00:00Z'),
+  updatedAt: new Date('2025-06-01T10:00:00Z'),
+  ...overrides,
+});
+
+// process() runs in the background after retry() returns
+const flushProcessing = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('createTranscriptionProvider', () => {
+  const originalKey = process.env.OPENAI_API_KEY;
+
+  afterEach(() => {
+    if (originalKey === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = originalKey;
+  });
+
+  it('uses OpenAI unless the local provider is chosen', () => {
+    expect(createTranscriptionProvider(undefined)).toBeInstanceOf(OpenAITranscriptionProvider);
+    expect(createTranscriptionProvider('local')).toBeInstanceOf(LocalTranscriptionProvider);
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => createTranscriptionProvider('whisper')).toThrow('Unknown TRANSCRIPTION_PROVIDER');
+  });
+
+  it('fails to transcribe, rather than inventing a transcript, without an OpenAI key', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    await expect(
+      createTranscriptionProvider('openai').transcribe({
+        audio: Buffer.from('audio'),
+        fileName: 'note.webm',
+        mimeType: 'audio/webm',
+      })
+    ).rejects.toThrow('OPENAI_API_KEY is not set');
+  });
+});
+
+describe('VoiceNoteService', () => {
+  let service: VoiceNoteService;
+  let transcriber: jest.Mocked<TranscriptionProvider>;
+  let readFile: jest.SpiedFunction<typeof fs.promises.readFile>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transcriber = { name: 'test', transcribe: jest.fn() };
+    service = new VoiceNoteService(transcriber);
+    readFile = jest.spyOn(fs.promises, 'readFile').mockResolvedValue(Buffer.from('audio'));
+    mockStorage.contacts.getById.mockResolvedValue(contact);
+    mockStorage.contacts.updateVoiceNote.mockImplementation(async (id, updates) =>
+      note({ id, ...updates } as Partial<VoiceNote>)
+    );
+    mockAiService.analyzeVoiceNote.mockResolvedValue({
+      subject: 'Schedule change',
+      summary: 'Jane wants Tuesday sessions',
+      sentiment: 4,
+      tasks: [{ title: 'Move Jane to Tuesdays', priority: 'medium' }],
+    });
+  });
+
+  afterEach(() => {
+    readFile.mockRestore();
+  });
+
+  it('reuses the timeline entry from an earlier attempt when retrying', async () => {
+    mockStorage.contacts.getVoiceNoteById.mockResolvedValue(note());
+    mockStorage.interactions.findBySource.mockResolvedValue({ id: 'interaction-1' } as Interaction);
+
+    await service.retry(USER_ID, 'note-1');
+    await flushProcessing();
+
+    expect(mockStorage.interactions.findBySource).toHaveBeenCalledWith(contact.id, 'voice_note', 'note-1');
+    expect(mockStorage.createInteraction).not.toHaveBeenCalled();
+    expect(transcriber.transcribe).not.toHaveBeenCalled();
+    expect(mockStorage.contacts.updateVoiceNote).toHaveBeenLastCalledWith('note-1', {
+      status: 'processed',
+      interactionId: 'interaction-1',
+    });
+  });
+
+  it('creates the timeline entry when no earlier attempt got that far', async () => {
+    mockStorage.contacts.getVoiceNoteById.mockResolvedValue(note({ transcription: null }));
+    mockStorage.interactions.findBySource.mockResolvedValue(undefined);
+    mockStorage.createInteraction.mockResolvedValue({ id: 'interaction-2' } as Interaction);
+    transcriber.transcribe.mockResolvedValue('Jane wants to move her sessions to Tuesdays');
+
+    await service.retry(USER_ID, 'note-1');
+    await flushProcessing();
+
+    expect(mockStorage.createInteraction).toHaveBeenCalledWith(
+      expect.objectContaining({ contactId: contact.id, source: 'voice_note', sourceId: 'note-1' })
+    );
+    expect(mockStorage.contacts.updateVoiceNote).toHaveBeenLastCalledWith('note-1', {
+      status: 'processed',
+      interactionId: 'interaction-2',
+    });
+  });
+
+  it('only retries notes that failed', async () => {
+    mockStorage.contacts.getVoiceNoteById.mockResolvedValue(note({ status: 'processed' }));
+
+    expect(await service.retry(USER_ID, 'note-1')).toBeUndefined();
+    expect(mockStorage.contacts.updateVoiceNote).not.toHaveBeenCalled();
+  });
+});
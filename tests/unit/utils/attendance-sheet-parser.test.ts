@@ -0,0 +1,104 @@
+/**
+ * Unit tests for reading booking system attendance exports
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  detectColumnMapping,
+  matchAttendeesToContacts,
+  normalizeAttendanceDate,
+  parseAttendanceRows,
+} from '../../../server/utils/attendance-sheet-parser.js';
+import type { Contact } from '../../../shared/schema.js';
+
+const contact = (id: string, name: string, email: string | null): Contact =>
+  ({ id, userId: 'user-1', name, email }) as Contact;
+
+describe('detectColumnMapping', () => {
+  it('recognizes common booking system headers', () => {
+    expect(
+      detectColumnMapping(['First Name', 'Last Name', 'E-mail', 'Class Date', 'Service Name', 'Status'])
+    ).toEqual({
+      firstName: 'First Name',
+      lastName: 'Last Name',
+      email: 'E-mail',
+      date: 'Class Date',
+      className: 'Service Name',
+      status: 'Status',
+    });
+  });
+});
+
+describe('parseAttendanceRows', () => {
+  it('skips title rows above the header and leaves out no-shows', () => {
+    const sheet = parseAttendanceRows([
+      ['Class Roster Report'],
+      ['Client Name', 'Email', 'Status'],
+      ['Ana Silva', 'ANA@example.com', 'Signed in'],
+      ['Ben Ode', '', 'No Show'],
+    ]);
+
+    expect(sheet.attendees).toEqual([{ name: 'Ana Silva', email: 'ana@example.com', status: 'Signed in' }]);
+    expect(sheet.excluded).toEqual([{ name: 'Ben Ode', status: 'No Show' }]);
+  });
+
+  it('uses a saved mapping, date format and attended statuses', () => {
+    const sheet = parseAttendanceRows(
+      [
+        ['Member', 'Visit', 'Type', 'Check-in', 'Payment'],
+        ['Ana Silva', '26/08/2025', 'Vinyasa', 'Attended', 'Unpaid'],
+        ['Ben Ode', '26/08/2025', 'Vinyasa', 'Booked', '10 class pack'],
+      ],
+      {
+        mapping: { name: 'Member', date: 'Visit', className: 'Type', status: 'Check-in', paid: 'Payment' },
+        attendedStatuses: ['attended'],
+        dateFormat: 'dd/MM/yyyy',
+      }
+    );
+
+    expect(sheet.attendees).toEqual([
+      { name: 'Ana Silva', status: 'Attended', className: 'Vinyasa', date: '2025-08-26', paid: false },
+    ]);
+    expect(sheet.excluded).toHaveLength(1);
+  });
+
+  it('falls back to the first column when no name column is recognized', () => {
+    const sheet = parseAttendanceRows([['Attendees'], ['Ana Silva'], ['Ben Ode']]);
+
+    expect(sheet.attendees.map((attendee) => attendee.name)).toEqual(['Ana Silva', 'Ben Ode']);
+  });
+});
+
+describe('normalizeAttendanceDate', () => {
+  it('only reads ISO dates without a format', () => {
+    expect(normalizeAttendanceDate('2025-08-26T09:00:00')).toBe('2025-08-26');
+    expect(normalizeAttendanceDate('08/26/2025')).toBeUndefined();
+  });
+});
+
+describe('matchAttendeesToContacts', () => {
+  const contacts = [
+    contact('ana', 'Ana Silva', 'ana@example.com'),
+    contact('sam-1', 'Sam Lee', 'sam.lee@example.com'),
+    contact('sam-2', 'Sam Leeson', null),
+  ];
+
+  it('matches by email before name', () => {
+    const { matched } = matchAttendeesToContacts(
+      [{ name: 'A. Silva', email: 'ana@example.com' }],
+      contacts
+    );
+
+    expect(matched.map((match) => match.contact.id)).toEqual(['ana']);
+  });
+
+  it('prefers an exact name over partial matches and leaves ambiguous names unmatched', () => {
+    const { matched, unmatched } = matchAttendeesToContacts(
+      [{ name: 'Sam Lee' }, { name: 'Sam' }],
+      contacts
+    );
+
+    expect(matched.map((match) => match.contact.id)).toEqual(['sam-1']);
+    expect(unmatched).toEqual([{ name: 'Sam' }]);
+  });
+});
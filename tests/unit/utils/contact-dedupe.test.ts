@@ -0,0 +1,61 @@
+/**
+ * Unit tests for finding duplicate contacts during imports
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  findDuplicateContacts,
+  nameSimilarity,
+  normalizePhone,
+} from '../../../server/utils/contact-dedupe.js';
+import type { Contact } from '../../../shared/schema.js';
+
+const contact = (id: string, name: string, email: string, phone: string | null = null): Contact =>
+  ({ id, userId: 'user-1', name, email, phone }) as Contact;
+
+describe('normalizePhone', () => {
+  it('compares the trailing digits so country codes do not matter', () => {
+    expect(normalizePhone('+44 7700 900123')).toBe(normalizePhone('07700 900123'));
+    expect(normalizePhone('12-34')).toBe('');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order, case and accents', () => {
+    expect(nameSimilarity('Silva, Ana', 'ana silva')).toBe(1);
+    expect(nameSimilarity('José Núñez', 'Jose Nunez')).toBe(1);
+    expect(nameSimilarity('Ana Silva', 'Ben Ode')).toBeLessThan(0.5);
+  });
+});
+
+describe('findDuplicateContacts', () => {
+  const contacts = [
+    contact('ana', 'Ana Silva', 'ana@example.com'),
+    contact('ben', 'Ben Ode', 'ben@example.com', '07700 900123'),
+    contact('anna', 'Anna Silva', 'anna@example.com'),
+  ];
+
+  it('matches by email regardless of case', () => {
+    expect(findDuplicateContacts({ name: 'A. Silva', email: 'ANA@example.com' }, contacts)).toEqual([
+      { contactId: 'ana', reason: 'email', score: 1 },
+    ]);
+  });
+
+  it('matches by phone when the email differs', () => {
+    const duplicates = findDuplicateContacts(
+      { name: 'Benjamin', email: 'benjamin@work.example', phone: '+44 7700 900123' },
+      contacts
+    );
+
+    expect(duplicates).toEqual([{ contactId: 'ben', reason: 'phone', score: 1 }]);
+  });
+
+  it('reports similar names after exact matches', () => {
+    const duplicates = findDuplicateContacts({ name: 'Ana Silva', email: 'anna@example.com' }, contacts);
+
+    expect(duplicates.map((duplicate) => [duplicate.contactId, duplicate.reason])).toEqual([
+      ['anna', 'email'],
+      ['ana', 'name'],
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for evaluating the rules of rule-based contact groups
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { filterContactsByRules, matchesGroupRules } from '../../../server/utils/contact-group-rules.js';
+import type { GroupRules } from '../../../server/schemas/contact-group.schemas.js';
+import type { Contact, Tag } from '../../../shared/schema.js';
+
+const now = new Date('2025-06-30T12:00:00Z');
+
+const contact = (id: string, fields: Partial<Contact> = {}, tags: Tag[] = []): Contact & { tags: Tag[] } =>
+  ({ id, userId: 'user-1', name: id, createdAt: now, ...fields, tags }) as Contact & { tags: Tag[] };
+
+const coreClientsToReconnect: GroupRules = {
+  match: 'all',
+  conditions: [
+    { field: 'lifecycleStage', operator: 'equals', value: 'core_client' },
+    { field: 'lastContact', operator: 'olderThanDays', value: 30 },
+  ],
+};
+
+describe('matchesGroupRules', () => {
+  it('requires every condition when matching all', () => {
+    expect(
+      matchesGroupRules(
+        contact('ana', { lifecycleStage: 'core_client', lastContact: new Date('2025-05-01') }),
+        coreClientsToReconnect,
+        now
+      )
+    ).toBe(true);
+    expect(
+      matchesGroupRules(
+        contact('ben', { lifecycleStage: 'core_client', lastContact: new Date('2025-06-20') }),
+        coreClientsToReconnect,
+        now
+      )
+    ).toBe(false);
+  });
+
+  it('treats a contact that was never contacted as contacted long ago', () => {
+    const olderThan: GroupRules = {
+      match: 'all',
+      conditions: [{ field: 'lastContact', operator: 'olderThanDays', value: 30 }],
+    };
+    const within: GroupRules = {
+      match: 'all',
+      conditions: [{ field: 'lastContact', operator: 'withinDays', value: 30 }],
+    };
+    expect(matchesGroupRules(contact('cleo'), olderThan, now)).toBe(true);
+    expect(matchesGroupRules(contact('cleo'), within, now)).toBe(false);
+  });
+
+  it('needs only one condition when matching any', () => {
+    const rules: GroupRules = {
+      match: 'any',
+      conditions: [
+        { field: 'engagementTrend', operator: 'equals', value: 'declining' },
+        { field: 'referralCount', operator: 'greaterThan', value: 2 },
+      ],
+    };
+    expect(matchesGroupRules(contact('dan', { referralCount: 3 }), rules, now)).toBe(true);
+    expect(matchesGroupRules(contact('eve', { engagementTrend: 'stable', referralCount: 1 }), rules, now)).toBe(false);
+  });
+
+  it('matches contacts by tag', () => {
+    const tag = { id: '5b1c2a58-3d6f-4e8a-9b7c-1d2e3f4a5b6c', name: 'Yoga', color: '#3b82f6' } as Tag;
+    const rules: GroupRules = {
+      match: 'all',
+      conditions: [{ field: 'tag', operator: 'has', value: tag.id }],
+    };
+    expect(matchesGroupRules(contact('fay', {}, [tag]), rules, now)).toBe(true);
+    expect(matchesGroupRules(contact('gus'), rules, now)).toBe(false);
+  });
+});
+
+describe('filterContactsByRules', () => {
+  it('returns the contacts a group currently contains', () => {
+    const contacts = [
+      contact('ana', { lifecycleStage: 'core_client', lastContact: new Date('2025-04-01') }),
+      contact('ben', { lifecycleStage: 'new_client', lastContact: new Date('2025-04-01') }),
+      contact('cleo', { lifecycleStage: 'core_client' }),
+    ];
+    expect(filterContactsByRules(contacts, coreClientsToReconnect, now).map((c) => c.id)).toEqual([
+      'ana',
+      'cleo',
+    ]);
+  });
+});
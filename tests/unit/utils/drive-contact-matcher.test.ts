@@ -0,0 +1,78 @@
+/**
+ * Unit tests for matching synced Drive files to contacts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { matchDriveFileToContact } from '../../../server/utils/drive-contact-matcher.js';
+import type { Contact } from '../../../shared/schema.js';
+
+const OWNER_EMAIL = 'practitioner@example.com';
+
+const contact = (id: string, name: string, email: string | null): Contact =>
+  ({ id, userId: 'user-1', name, email }) as Contact;
+
+const CONTACTS = [
+  contact('sarah', 'Sarah Johnson', 'sarah.j@example.com'),
+  contact('mike', 'Mike Chen', 'mike@example.com'),
+  contact('sarah-2', 'Sarah Miller', 'smiller@example.com'),
+];
+
+describe('matchDriveFileToContact', () => {
+  it('prefers a contact the file is shared with', () => {
+    const match = matchDriveFileToContact(
+      { name: 'Mike Chen notes.pdf', permissionEmails: [OWNER_EMAIL, 'SARAH.J@example.com'], content: null },
+      CONTACTS,
+      OWNER_EMAIL
+    );
+
+    expect(match).toEqual({ contactId: 'sarah', method: 'permission' });
+  });
+
+  it('matches a full name in the filename regardless of separators', () => {
+    const match = matchDriveFileToContact(
+      { name: 'intake_form-mike_chen.docx', permissionEmails: [OWNER_EMAIL], content: null },
+      CONTACTS,
+      OWNER_EMAIL
+    );
+
+    expect(match).toEqual({ contactId: 'mike', method: 'filename' });
+  });
+
+  it('does not match on a first name shared by several contacts', () => {
+    const match = matchDriveFileToContact(
+      { name: 'Sarah session plan.txt', permissionEmails: [], content: null },
+      CONTACTS,
+      OWNER_EMAIL
+    );
+
+    expect(match).toBeNull();
+  });
+
+  it('falls back to email addresses found in the document text', () => {
+    const match = matchDriveFileToContact(
+      {
+        name: 'Welcome pack.pdf',
+        permissionEmails: [],
+        content: `Prepared by ${OWNER_EMAIL} for smiller@example.com`,
+      },
+      CONTACTS,
+      OWNER_EMAIL
+    );
+
+    expect(match).toEqual({ contactId: 'sarah-2', method: 'content_email' });
+  });
+
+  it('sends files mentioning several contacts to review', () => {
+    const match = matchDriveFileToContact(
+      {
+        name: 'Group class roster.pdf',
+        permissionEmails: [],
+        content: 'Attendees: mike@example.com, smiller@example.com',
+      },
+      CONTACTS,
+      OWNER_EMAIL
+    );
+
+    expect(match).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for email contact matching
+ * Covers address normalization, header parsing and matching senders and recipients to contacts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildContactAddressIndex,
+  isAutomatedAddress,
+  matchEmailContacts,
+  normalizeEmailAddress,
+  parseAddressList,
+} from '../../../server/utils/email-contact-matcher.js';
+
+const index = buildContactAddressIndex([
+  { id: 'ana', email: 'ana.silva@gmail.com', emailAliases: ['ana@studio.example'] },
+  { id: 'bo', email: 'Bo@Example.com', emailAliases: null },
+]);
+
+describe('normalizeEmailAddress', () => {
+  it('ignores case and plus tags', () => {
+    expect(normalizeEmailAddress(' Bo+Yoga@Example.COM ')).toBe('bo@example.com');
+  });
+
+  it('ignores dots in Gmail addresses only', () => {
+    expect(normalizeEmailAddress('Ana.Silva@googlemail.com')).toBe('anasilva@gmail.com');
+    expect(normalizeEmailAddress('ana.silva@example.com')).toBe('ana.silva@example.com');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('keeps commas inside quoted names', () => {
+    expect(parseAddressList('"Silva, Ana" <ana@studio.example>, bo@example.com')).toEqual([
+      { email: 'ana@studio.example', name: 'Silva, Ana' },
+      { email: 'bo@example.com', name: null },
+    ]);
+  });
+
+  it('skips entries without an address', () => {
+    expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+  });
+});
+
+describe('matchEmailContacts', () => {
+  it('links every known contact once, by alias too', () => {
+    const match = matchEmailContacts(
+      {
+        fromEmail: 'ANA@studio.example',
+        toEmails: [{ email: 'me@example.com' }, { email: 'bo+newsletter@example.com' }],
+        ccEmails: [{ email: 'anasilva@gmail.com' }],
+      },
+      index,
+      ['me@example.com']
+    );
+
+    expect(match.links).toEqual([
+      { contactId: 'ana', role: 'from' },
+      { contactId: 'bo', role: 'to' },
+    ]);
+    expect(match.senderContactId).toBe('ana');
+    expect(match.unknownSender).toBeNull();
+  });
+
+  it('reports unknown people but not mailers or the user', () => {
+    const unknown = matchEmailContacts(
+      { fromEmail: 'Cleo@Example.com', fromName: 'Cleo', toEmails: [{ email: 'me@example.com' }] },
+      index,
+      ['me@example.com']
+    );
+    expect(unknown.unknownSender).toEqual({ email: 'cleo@example.com', name: 'Cleo' });
+
+    expect(isAutomatedAddress('no-reply@example.com')).toBe(true);
+    expect(matchEmailContacts({ fromEmail: 'noreply@example.com' }, index, []).unknownSender).toBeNull();
+    expect(matchEmailContacts({ fromEmail: 'me+x@example.com' }, index, ['me@example.com']).unknownSender).toBeNull();
+  });
+});
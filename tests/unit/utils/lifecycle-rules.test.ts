@@ -0,0 +1,72 @@
+/**
+ * Unit tests for evaluating lifecycle-stage rules
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findStageChange, matchesLifecycleRules, type LifecycleContact } from '../../../server/utils/lifecycle-rules.js';
+import type { LifecycleRuleMatch } from '../../../server/schemas/lifecycle-rule.schemas.js';
+import type { Contact, LifecycleRule, Tag } from '../../../shared/schema.js';
+
+const now = new Date('2025-06-30T12:00:00Z');
+
+const contact = (id: string, fields: Partial<LifecycleContact> = {}): LifecycleContact =>
+  ({ id, userId: 'user-1', name: id, createdAt: now, tags: [] as Tag[], ...fields }) as Contact & LifecycleContact;
+
+const noRecentSession: LifecycleRuleMatch = {
+  match: 'all',
+  conditions: [
+    { field: 'lifecycleStage', operator: 'equals', value: 'core_client' },
+    { field: 'lastSession', operator: 'olderThanDays', value: 45 },
+  ],
+};
+
+const rule = (id: string, rules: unknown, targetStage: LifecycleRule['targetStage']) => ({ id, rules, targetStage });
+
+describe('matchesLifecycleRules', () => {
+  it('compares the last session against the number of days', () => {
+    expect(
+      matchesLifecycleRules(
+        contact('ana', { lifecycleStage: 'core_client', lastSessionAt: new Date('2025-05-01') }),
+        noRecentSession,
+        now
+      )
+    ).toBe(true);
+    expect(
+      matchesLifecycleRules(
+        contact('ben', { lifecycleStage: 'core_client', lastSessionAt: new Date('2025-06-25') }),
+        noRecentSession,
+        now
+      )
+    ).toBe(false);
+  });
+
+  it('treats a contact without sessions as having had one long ago', () => {
+    expect(matchesLifecycleRules(contact('cleo', { lifecycleStage: 'core_client' }), noRecentSession, now)).toBe(true);
+  });
+});
+
+describe('findStageChange', () => {
+  const ambassador = rule(
+    'ambassador',
+    { match: 'all', conditions: [{ field: 'referralCount', operator: 'greaterThan', value: 1 }] },
+    'ambassador'
+  );
+  const reconnect = rule('reconnect', noRecentSession, 'needs_reconnecting');
+
+  it('lets the first matching rule decide', () => {
+    const dana = contact('dana', { lifecycleStage: 'core_client', referralCount: 3 });
+    expect(findStageChange(dana, [ambassador, reconnect], now)?.id).toBe('ambassador');
+    expect(findStageChange(dana, [reconnect, ambassador], now)?.id).toBe('reconnect');
+  });
+
+  it('makes no change when the contact is already in the first matching stage', () => {
+    const eli = contact('eli', { lifecycleStage: 'ambassador', referralCount: 2 });
+    expect(findStageChange(eli, [ambassador, reconnect], now)).toBeUndefined();
+  });
+
+  it('skips rules whose stored conditions are no longer valid', () => {
+    const broken = rule('broken', { match: 'all', conditions: [{ field: 'unknown' }] }, 'inactive');
+    const fay = contact('fay', { lifecycleStage: 'core_client' });
+    expect(findStageChange(fay, [broken, reconnect], now)?.id).toBe('reconnect');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for LLMConcurrencyController
+ * Tests that the user's budget policy is applied before a request is dispatched
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { LLMConcurrencyController } from '../../../server/utils/llm-concurrency-controller.js';
+import { llmCostTracker, FREE_FALLBACK_MODEL } from '../../../server/utils/llm-cost-tracker.js';
+import { BudgetExceededError } from '../../../server/utils/error-handling.js';
+
+jest.mock('../../../server/data/index.js');
+
+const USER_ID = 'user-1';
+const PREMIUM_MODEL = 'qwen/qwen3-235b-a22b-2507';
+const RESET_AT = new Date('2025-06-03T00:00:00Z');
+
+describe('LLMConcurrencyController budget policies', () => {
+  let controller: LLMConcurrencyController;
+  let checkBudget: jest.SpiedFunction<typeof llmCostTracker.checkBudget>;
+
+  // Run the request through the controller's queue, which is polled on a timer
+  const run = async <T>(promise: Promise<T>): Promise<T> => {
+    const settled = promise.then(
+      (value) => ({ value }),
+      (error: unknown) => ({ error })
+    );
+    await jest.advanceTimersByTimeAsync(200);
+    const result = await settled;
+    if ('error' in result) throw result.error;
+    return result.value;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    controller = new LLMConcurrencyController(2);
+    checkBudget = jest.spyOn(llmCostTracker, 'checkBudget');
+  });
+
+  afterEach(() => {
+    checkBudget.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('dispatches with the requested model when the user is within budget', async () => {
+    checkBudget.mockResolvedValue({ action: 'allow', model: PREMIUM_MODEL });
+    const operation = jest.fn(async (model: string) => `done with ${model}`);
+
+    const result = await run(controller.execute(operation, { userId: USER_ID, model: PREMIUM_MODEL }));
+
+    expect(result).toBe(`done with ${PREMIUM_MODEL}`);
+    expect(checkBudget).toHaveBeenCalledWith(USER_ID, PREMIUM_MODEL);
+  });
+
+  it('rejects with BudgetExceededError and never dispatches under the block policy', async () => {
+    checkBudget.mockResolvedValue({
+      action: 'block',
+      model: PREMIUM_MODEL,
+      period: 'daily',
+      resetAt: RESET_AT,
+    });
+    const operation = jest.fn(async () => 'done');
+    const budgetExceeded = jest.fn();
+    controller.on('budgetExceeded', budgetExceeded);
+
+    await expect(
+      run(controller.execute(operation, { userId: USER_ID, model: PREMIUM_MODEL }))
+    ).rejects.toMatchObject({ name: 'BudgetExceededError', period: 'daily', resetAt: RESET_AT });
+    expect(operation).not.toHaveBeenCalled();
+    expect(budgetExceeded).toHaveBeenCalledWith(expect.objectContaining({ userId: USER_ID }));
+  });
+
+  it('runs the operation with the free model under the downgrade policy', async () => {
+    checkBudget.mockResolvedValue({
+      action: 'downgrade',
+      model: FREE_FALLBACK_MODEL,
+      period: 'monthly',
+      resetAt: RESET_AT,
+    });
+    const operation = jest.fn(async (model: string) => model);
+    const budgetDowngraded = jest.fn();
+    controller.on('budgetDowngraded', budgetDowngraded);
+
+    const model = await run(controller.execute(operation, { userId: USER_ID, model: PREMIUM_MODEL }));
+
+    expect(model).toBe(FREE_FALLBACK_MODEL);
+    expect(budgetDowngraded).toHaveBeenCalledWith({
+      userId: USER_ID,
+      from: PREMIUM_MODEL,
+      to: FREE_FALLBACK_MODEL,
+    });
+  });
+
+  it('stops dispatching the rest of a batch once the budget is spent', async () => {
+    checkBudget
+      .mockResolvedValueOnce({ action: 'allow', model: PREMIUM_MODEL })
+      .mockResolvedValue({ action: 'block', model: PREMIUM_MODEL, period: 'daily', resetAt: RESET_AT });
+    const operation = jest.fn(async () => 'done');
+    const operations = Array.from({ length: 3 }, () => ({
+      operation,
+      userId: USER_ID,
+      model: PREMIUM_MODEL,
+    }));
+
+    const results = await run(
+      controller.executeBatch(operations, { batchSize: 2, delayBetweenBatches: 0 })
+    );
+
+    expect(results.map((result) => result.success)).toEqual([true, false, false]);
+    expect(results[2].budgetError).toBeInstanceOf(BudgetExceededError);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(checkBudget).toHaveBeenCalledTimes(2);
+  });
+
+  describe('queue policy', () => {
+    const queued = () => ({
+      action: 'queue' as const,
+      model: PREMIUM_MODEL,
+      period: 'daily' as const,
+      resetAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    it('rejects interactive requests with BudgetExceededError', async () => {
+      checkBudget.mockResolvedValue(queued());
+      const operation = jest.fn(async () => 'done');
+
+      await expect(
+        run(controller.execute(operation, { userId: USER_ID, model: PREMIUM_MODEL }))
+      ).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('holds deferrable requests until the budget resets, then dispatches them', async () => {
+      checkBudget.mockResolvedValue(queued());
+      const operation = jest.fn(async (model: string) => `done with ${model}`);
+      const requestDeferred = jest.fn();
+      controller.on('requestDeferred', requestDeferred);
+
+      const settled = jest.fn();
+      const pending = controller
+        .execute(operation, { userId: USER_ID, model: PREMIUM_MODEL, deferOverBudget: true })
+        .then(settled);
+
+      await jest.advanceTimersByTimeAsync(59 * 60 * 1000);
+      expect(operation).not.toHaveBeenCalled();
+      expect(settled).not.toHaveBeenCalled();
+      expect(controller.getStats().deferred).toBe(1);
+      expect(requestDeferred).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: USER_ID, period: 'daily' })
+      );
+
+      await jest.advanceTimersByTimeAsync(60 * 1000 + 200);
+      await pending;
+      expect(settled).toHaveBeenCalledWith(`done with ${PREMIUM_MODEL}`);
+      expect(controller.getStats().deferred).toBe(0);
+    });
+
+    it('defers the whole batch when the batch allows it', async () => {
+      checkBudget.mockResolvedValue(queued());
+      const operation = jest.fn(async () => 'done');
+      const operations = Array.from({ length: 2 }, () => ({
+        operation,
+        userId: USER_ID,
+        model: PREMIUM_MODEL,
+      }));
+
+      const batch = controller.executeBatch(operations, {
+        batchSize: 5,
+        delayBetweenBatches: 0,
+        deferOverBudget: true,
+      });
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000 + 200);
+
+      expect((await batch).map((result) => result.success)).toEqual([true, true]);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+  });
+});
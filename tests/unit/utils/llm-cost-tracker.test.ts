@@ -0,0 +1,163 @@
+/**
+ * Unit tests for LLMCostTracker
+ * Tests cost calculation, budget alerts, budget policies and the usage export
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { LLMCostTracker, FREE_FALLBACK_MODEL } from '../../../server/utils/llm-cost-tracker.js';
+import { usageExportQuerySchema } from '../../../server/schemas/ai.schemas.js';
+import { storage } from '../../../server/data/index.js';
+import type { LlmBudget, LlmCostAlert, LlmUsage } from '../../../shared/schema.js';
+
+jest.mock('../../../server/data/index.js');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const USER_ID = 'user-1';
+const PREMIUM_MODEL = 'qwen/qwen3-235b-a22b-2507';
+
+const budget = (overrides: Partial<LlmBudget> = {}): LlmBudget => ({
+  id: 'budget-1',
+  userId: USER_ID,
+  dailyLimit: 1,
+  monthlyLimit: 0,
+  alertThreshold: 80,
+  policy: 'block',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('LLMCostTracker', () => {
+  let tracker: LLMCostTracker;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tracker = new LLMCostTracker();
+    mockStorage.llmUsage.getCostBetween.mockResolvedValue(0);
+    mockStorage.llmUsage.createAlerts.mockImplementation(async (alerts) =>
+      alerts.map((alert, i) => ({ id: `alert-${i}`, timestamp: new Date(), ...alert }) as LlmCostAlert)
+    );
+  });
+
+  describe('trackUsage', () => {
+    it('prices input and output tokens per thousand and records the usage', async () => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(undefined);
+
+      const result = await tracker.trackUsage(USER_ID, PREMIUM_MODEL, 2000, 1000, 'chat', 'req-1');
+
+      expect(result).toEqual({ cost: 0.6, withinBudget: true, alerts: [] });
+      expect(mockStorage.llmUsage.createUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: USER_ID, model: PREMIUM_MODEL, cost: 0.6, requestId: 'req-1' })
+      );
+    });
+
+    it('does not record usage for models without pricing', async () => {
+      const result = await tracker.trackUsage(USER_ID, 'unknown/model', 1000, 1000, 'chat');
+
+      expect(result).toEqual({ cost: 0, withinBudget: true, alerts: [] });
+      expect(mockStorage.llmUsage.createUsage).not.toHaveBeenCalled();
+    });
+
+    it('raises a daily alert for the current day once spend reaches the threshold', async () => {
+      const now = new Date();
+      mockStorage.llmUsage.getBudget.mockResolvedValue(budget({ dailyLimit: 1 }));
+      mockStorage.llmUsage.getCostBetween.mockResolvedValue(0.5);
+
+      const result = await tracker.trackUsage(USER_ID, PREMIUM_MODEL, 2000, 1000, 'chat');
+
+      expect(result.withinBudget).toBe(false);
+      expect(mockStorage.llmUsage.createAlerts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          alertType: 'daily_limit',
+          threshold: 1,
+          currentValue: 1.1,
+          periodStart: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+        }),
+      ]);
+    });
+
+    it('reports no alerts, but still over budget, when the period was already alerted on', async () => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(budget({ dailyLimit: 1 }));
+      mockStorage.llmUsage.getCostBetween.mockResolvedValue(0.9);
+      mockStorage.llmUsage.createAlerts.mockResolvedValue([]);
+
+      const result = await tracker.trackUsage(USER_ID, PREMIUM_MODEL, 1000, 1000, 'chat');
+
+      expect(result).toMatchObject({ withinBudget: false, alerts: [] });
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('allows requests when the user has no budget', async () => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(undefined);
+
+      expect(await tracker.checkBudget(USER_ID, PREMIUM_MODEL)).toEqual({
+        action: 'allow',
+        model: PREMIUM_MODEL,
+      });
+    });
+
+    it('always allows free models', async () => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(budget());
+      mockStorage.llmUsage.getCostBetween.mockResolvedValue(5);
+
+      expect((await tracker.checkBudget(USER_ID, FREE_FALLBACK_MODEL)).action).toBe('allow');
+    });
+
+    it.each([
+      ['block', { action: 'block', model: PREMIUM_MODEL }],
+      ['downgrade', { action: 'downgrade', model: FREE_FALLBACK_MODEL }],
+      ['queue', { action: 'queue', model: PREMIUM_MODEL }],
+    ])('applies the %s policy once the daily limit is spent', async (policy, expected) => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(budget({ policy }));
+      mockStorage.llmUsage.getCostBetween.mockResolvedValue(1);
+
+      expect(await tracker.checkBudget(USER_ID, PREMIUM_MODEL)).toMatchObject({
+        ...expected,
+        period: 'daily',
+      });
+    });
+
+    it('treats a limit of 0 as uncapped', async () => {
+      mockStorage.llmUsage.getBudget.mockResolvedValue(budget({ dailyLimit: 0, monthlyLimit: 0 }));
+      mockStorage.llmUsage.getCostBetween.mockResolvedValue(100);
+
+      expect((await tracker.checkBudget(USER_ID, PREMIUM_MODEL)).action).toBe('allow');
+    });
+  });
+
+  describe('exportUsageData', () => {
+    it('returns the user\'s usage records within the requested dates', async () => {
+      const records = [{ id: 'usage-1', userId: USER_ID } as LlmUsage];
+      mockStorage.llmUsage.getUsageByUserId.mockResolvedValue(records);
+      const startDate = new Date('2025-06-01');
+      const endDate = new Date('2025-06-30');
+
+      expect(await tracker.exportUsageData(USER_ID, startDate, endDate)).toBe(records);
+      expect(mockStorage.llmUsage.getUsageByUserId).toHaveBeenCalledWith(USER_ID, startDate, endDate);
+    });
+  });
+});
+
+describe('usageExportQuerySchema', () => {
+  it('parses optional start and end dates', () => {
+    const result = usageExportQuerySchema.safeParse({ startDate: '2025-06-01', endDate: '2025-06-30' });
+
+    expect(result.success && result.data).toEqual({
+      startDate: new Date('2025-06-01'),
+      endDate: new Date('2025-06-30'),
+    });
+    expect(usageExportQuerySchema.safeParse({}).success).toBe(true);
+  });
+
+  it('rejects dates that cannot be parsed', () => {
+    expect(usageExportQuerySchema.safeParse({ startDate: 'last tuesday' }).success).toBe(false);
+  });
+
+  it('rejects a start date after the end date', () => {
+    const result = usageExportQuerySchema.safeParse({ startDate: '2025-07-01', endDate: '2025-06-01' });
+
+    expect(result.success).toBe(false);
+  });
+});
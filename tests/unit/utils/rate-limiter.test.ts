@@ -0,0 +1,200 @@
+/**
+ * Unit tests for RateLimiter and the HTTP rate limit middleware
+ * Uses the in-memory store so no database is required
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Request, Response, NextFunction } from 'express';
+import { RateLimiter } from '../../../server/utils/rate-limiter.js';
+import { MemoryRateLimitStore } from '../../../server/utils/rate-limit-store.js';
+import {
+  createRateLimit,
+  generalRateLimit,
+  apiRateLimit,
+  parseTrustProxy,
+} from '../../../server/utils/security.js';
+
+jest.mock('../../../server/data/index.js');
+
+const createMockResponse = () => {
+  const res = {
+    headers: {} as Record<string, unknown>,
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader(name: string, value: unknown) {
+      this.headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  return res;
+};
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter(new MemoryRateLimitStore());
+  });
+
+  it('should allow requests up to the window budget and reject the next one', async () => {
+    const window = { windowMs: 60000, maxRequests: 2 };
+
+    const first = await limiter.consume('test:key', window);
+    const second = await limiter.consume('test:key', window);
+    const third = await limiter.consume('test:key', window);
+
+    expect(first).toMatchObject({ allowed: true, remaining: 1, limit: 2 });
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+    expect(third).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('should track keys independently', async () => {
+    const window = { windowMs: 60000, maxRequests: 1 };
+
+    await limiter.consume('a', window);
+    const other = await limiter.consume('b', window);
+
+    expect(other.allowed).toBe(true);
+  });
+
+  it('should refill the bucket once the window has passed', async () => {
+    const window = { windowMs: 1, maxRequests: 1 };
+
+    await limiter.consume('expiring', window);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const result = await limiter.consume('expiring', window);
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should refill tokens gradually over the window', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const window = { windowMs: 60000, maxRequests: 4 };
+    try {
+      for (let i = 0; i < 4; i++) {
+        await limiter.consume('gradual', window);
+      }
+      const limited = await limiter.consume('gradual', window);
+      expect(limited).toMatchObject({ allowed: false, retryTime: 1_015_000, resetTime: 1_060_000 });
+
+      // A quarter of the window brings back one of the four tokens
+      now.mockReturnValue(1_015_000);
+      expect(await limiter.consume('gradual', window)).toMatchObject({ allowed: true, remaining: 0 });
+      expect((await limiter.consume('gradual', window)).allowed).toBe(false);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should apply per-model limits through checkLimit', async () => {
+    const model = 'meta-llama/llama-3.1-8b-instruct:free';
+    for (let i = 0; i < 20; i++) {
+      await limiter.checkLimit('user-1', model);
+    }
+
+    const result = await limiter.checkLimit('user-1', model);
+
+    expect(result.allowed).toBe(false);
+    expect(result.suggestion).toBeDefined();
+  });
+});
+
+describe('createRateLimit middleware', () => {
+  it('should set RateLimit headers and return 429 with Retry-After when exhausted', async () => {
+    const middleware = createRateLimit(`test-${Date.now()}`, 60000, 1, 'Slow down');
+    const req = { ip: '203.0.113.7', socket: {} } as unknown as Request;
+    const next = jest.fn() as unknown as NextFunction;
+
+    const okRes = createMockResponse();
+    await middleware(req, okRes as unknown as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(okRes.headers['RateLimit-Limit']).toBe(1);
+    expect(okRes.headers['RateLimit-Remaining']).toBe(0);
+
+    const limitedRes = createMockResponse();
+    await middleware(req, limitedRes as unknown as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(limitedRes.statusCode).toBe(429);
+    expect(limitedRes.headers['Retry-After']).toBeDefined();
+    expect(limitedRes.body).toMatchObject({ error: 'Slow down' });
+  });
+
+  it('should budget authenticated users separately from their IP address', async () => {
+    const middleware = createRateLimit(`test-user-${Date.now()}`, 60000, 1);
+    const next = jest.fn() as unknown as NextFunction;
+    const anonymous = { ip: '203.0.113.8', socket: {} } as unknown as Request;
+    const signedIn = { ip: '203.0.113.8', socket: {}, user: { id: 'user-1' } } as unknown as Request;
+
+    await middleware(anonymous, createMockResponse() as unknown as Response, next);
+    await middleware(signedIn, createMockResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('API rate limits for a polling client', () => {
+  it('should keep a page load and a two-minute import poll under the general and API limits', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(2_000_000);
+    const req = { ip: '203.0.113.9', socket: {}, user: { id: `poller-${Date.now()}` } } as unknown as Request;
+    const limited: number[] = [];
+
+    // Every /api request passes the general limit, then the route's own limit
+    const request = async (at: number) => {
+      now.mockReturnValue(2_000_000 + at);
+      let passed = false;
+      const next = (() => {
+        passed = true;
+      }) as NextFunction;
+      for (const middleware of [generalRateLimit, apiRateLimit]) {
+        passed = false;
+        await middleware(req, createMockResponse() as unknown as Response, next);
+        if (!passed) {
+          limited.push(at);
+          return;
+        }
+      }
+    };
+
+    try {
+      // Opening a page fires its queries together
+      for (let i = 0; i < 25; i++) {
+        await request(0);
+      }
+      for (let second = 1; second <= 120; second++) {
+        // ContactImportWizard polls the job every second
+        await request(second * 1000);
+        // Sidebar and AppLayout refresh every minute
+        if (second % 60 === 0) {
+          await request(second * 1000);
+          await request(second * 1000);
+        }
+      }
+    } finally {
+      now.mockRestore();
+    }
+
+    expect(limited).toEqual([]);
+  });
+});
+
+describe('parseTrustProxy', () => {
+  it('should trust no proxy unless one is configured', () => {
+    expect(parseTrustProxy(undefined)).toBe(false);
+    expect(parseTrustProxy('')).toBe(false);
+    expect(parseTrustProxy('false')).toBe(false);
+  });
+
+  it('should accept a hop count, true or proxy addresses', () => {
+    expect(parseTrustProxy('1')).toBe(1);
+    expect(parseTrustProxy('true')).toBe(true);
+    expect(parseTrustProxy('10.0.0.1, 10.0.0.2')).toBe('10.0.0.1, 10.0.0.2');
+  });
+});
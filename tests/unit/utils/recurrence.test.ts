@@ -0,0 +1,62 @@
+/**
+ * Unit tests for task recurrence rules
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from '../../../server/utils/recurrence.js';
+
+// Local times, so the expected weekdays hold in any timezone
+const at = (date: string) => new Date(`${date}T09:00:00`);
+
+const next = (rule: string, after: string, notBefore?: string) =>
+  nextOccurrence(parseRecurrenceRule(rule) as RecurrenceRule, at(after), notBefore ? at(notBefore) : undefined);
+
+describe('parseRecurrenceRule', () => {
+  it('parses supported parts and an RRULE: prefix', () => {
+    expect(parseRecurrenceRule('RRULE:freq=weekly;interval=2;byday=MO,TH')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: ['MO', 'TH'],
+    });
+    expect(formatRecurrenceRule(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=12') as RecurrenceRule)).toBe(
+      'FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=12'
+    );
+  });
+
+  it('rejects unsupported or contradictory rules', () => {
+    expect(parseRecurrenceRule('FREQ=HOURLY')).toBeUndefined();
+    expect(parseRecurrenceRule('FREQ=DAILY;BYDAY=MO')).toBeUndefined();
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toBeUndefined();
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toBeUndefined();
+    expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toBeUndefined();
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps to the next selected weekday in every interval-th week', () => {
+    // 2025-06-02 is a Monday
+    expect(next('FREQ=WEEKLY;BYDAY=MO', '2025-06-02')).toEqual(at('2025-06-09'));
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-06-02')).toEqual(at('2025-06-05'));
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-06-05')).toEqual(at('2025-06-16'));
+  });
+
+  it('uses the last day of shorter months', () => {
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31')).toEqual(at('2025-02-28'));
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2025-03-31')).toEqual(at('2025-04-30'));
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=15', '2025-01-10')).toEqual(at('2025-01-15'));
+  });
+
+  it('skips occurrences that are already past', () => {
+    expect(next('FREQ=WEEKLY;BYDAY=MO', '2025-05-05', '2025-06-04')).toEqual(at('2025-06-09'));
+  });
+
+  it('ends after UNTIL', () => {
+    expect(next('FREQ=DAILY;UNTIL=20250603', '2025-06-02')).toEqual(at('2025-06-03'));
+    expect(next('FREQ=DAILY;UNTIL=20250603', '2025-06-03')).toBeUndefined();
+  });
+});
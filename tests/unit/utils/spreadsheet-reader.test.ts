@@ -0,0 +1,25 @@
+/**
+ * Unit tests for reading uploaded CSV files
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv } from '../../../server/utils/spreadsheet-reader.js';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('Name,Notes\r\n"Chen, Mike","Said ""hi"""\r\n\r\nAna,\r\n');
+
+    expect(rows).toEqual([
+      ['Name', 'Notes'],
+      ['Chen, Mike', 'Said "hi"'],
+      ['Ana', ''],
+    ]);
+  });
+
+  it('detects semicolon delimited exports and strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFName;Email\nAna;ana@example.com')).toEqual([
+      ['Name', 'Email'],
+      ['Ana', 'ana@example.com'],
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for task activity diffs
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffTagIds, diffTaskFields } from '../../../server/utils/task-changes.js';
+
+describe('diffTaskFields', () => {
+  it('records only the tracked fields that change', () => {
+    const before = { title: 'Call Sam', status: 'pending', dueDate: null };
+    const update = { title: 'Call Sam', status: 'completed', orderIndex: 5, aiAnalysis: {} };
+
+    expect(diffTaskFields(before, { ...update, dueDate: new Date('2025-06-02T09:00:00Z') })).toEqual({
+      status: { from: 'pending', to: 'completed' },
+      dueDate: { from: null, to: '2025-06-02T09:00:00.000Z' },
+    });
+  });
+
+  it('treats empty values as unset and compares arrays by value', () => {
+    expect(diffTaskFields({ description: null }, { description: '' })).toEqual({});
+    expect(
+      diffTaskFields({ assignedContactIds: ['c-1'] }, { assignedContactIds: ['c-1'] })
+    ).toEqual({});
+  });
+
+  it('lists every set field of a new task', () => {
+    expect(diffTaskFields(undefined, { title: 'New', description: null, priority: 'high' })).toEqual({
+      title: { from: null, to: 'New' },
+      priority: { from: null, to: 'high' },
+    });
+  });
+});
+
+describe('diffTagIds', () => {
+  it('ignores the order of tag ids', () => {
+    expect(diffTagIds(['b', 'a'], ['a', 'b'])).toEqual({});
+    expect(diffTagIds(['a'], ['a', 'b'])).toEqual({ tagIds: { from: ['a'], to: ['a', 'b'] } });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for paging through a contact timeline merged from several sources
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  decodeTimelineCursor,
+  encodeTimelineCursor,
+  mergeTimelinePage,
+} from '../../../server/utils/timeline-cursor.js';
+import type { TimelineItem, TimelineItemType } from '../../../server/types/service-contracts.js';
+
+const item = (type: TimelineItemType, id: string, timestamp: string): TimelineItem => ({
+  id,
+  type,
+  timestamp: new Date(timestamp),
+  title: id,
+  summary: null,
+  detail: null,
+});
+
+describe('timeline cursors', () => {
+  it('round-trips the position of an item', () => {
+    const cursor = encodeTimelineCursor(item('email', 'email-1', '2025-06-01T10:00:00.000Z'));
+    expect(decodeTimelineCursor(cursor)).toEqual({
+      timestamp: new Date('2025-06-01T10:00:00.000Z'),
+      type: 'email',
+      id: 'email-1',
+    });
+  });
+
+  it('rejects cursors it did not produce', () => {
+    expect(decodeTimelineCursor('not-a-cursor')).toBeUndefined();
+    expect(decodeTimelineCursor(Buffer.from('2025-06-01|unknown|x').toString('base64url'))).toBeUndefined();
+  });
+});
+
+describe('mergeTimelinePage', () => {
+  const interactions = [item('interaction', 'note-1', '2025-06-03T09:00:00Z')];
+  const emails = [
+    item('email', 'email-2', '2025-06-04T09:00:00Z'),
+    item('email', 'email-1', '2025-06-03T09:00:00Z'),
+  ];
+  const tasks = [item('task', 'task-1', '2025-06-01T09:00:00Z')];
+
+  it('orders items from all sources newest first, breaking ties by source', () => {
+    const page = mergeTimelinePage([interactions, emails, [], tasks], 10);
+    expect(page.items.map((entry) => entry.id)).toEqual(['email-2', 'note-1', 'email-1', 'task-1']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('continues after the cursor without repeating or skipping items', () => {
+    const first = mergeTimelinePage([interactions, emails, [], tasks], 2);
+    expect(first.items.map((entry) => entry.id)).toEqual(['email-2', 'note-1']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const cursor = decodeTimelineCursor(first.nextCursor ?? '');
+    const second = mergeTimelinePage([interactions, emails, [], tasks], 2, cursor);
+    expect(second.items.map((entry) => entry.id)).toEqual(['email-1', 'task-1']);
+    expect(second.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for reading vCard contact exports
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isVCardFile, parseVCards } from '../../../server/utils/vcard-parser.js';
+
+describe('parseVCards', () => {
+  it('reads names, preferred email and phone, and folded notes', () => {
+    const contacts = parseVCards(
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Silva;Ana;;;',
+        'FN:Ana Silva',
+        'EMAIL;TYPE=WORK:ana@work.example',
+        'item1.EMAIL;TYPE=HOME,PREF:ana@example.com',
+        'TEL;TYPE=CELL:+44 7700 900123',
+        'NOTE:Prefers morning classes\\, mostly',
+        '  yin.',
+        'END:VCARD',
+      ].join('\r\n')
+    );
+
+    expect(contacts).toEqual([
+      {
+        name: 'Ana Silva',
+        firstName: 'Ana',
+        lastName: 'Silva',
+        email: 'ana@example.com',
+        phone: '+44 7700 900123',
+        notes: 'Prefers morning classes, mostly yin.',
+      },
+    ]);
+  });
+
+  it('decodes quoted-printable values and drops cards without a name or email', () => {
+    const contacts = parseVCards(
+      [
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Jos=C3=A9 N=C3=BA=C3=B1ez',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'TEL:0123456789',
+        'END:VCARD',
+      ].join('\n')
+    );
+
+    expect(contacts.map((contact) => contact.name)).toEqual(['José Núñez']);
+  });
+});
+
+describe('isVCardFile', () => {
+  it('recognizes vCard extensions and MIME types', () => {
+    expect(isVCardFile('contacts.VCF')).toBe(true);
+    expect(isVCardFile('export', 'text/x-vcard')).toBe(true);
+    expect(isVCardFile('contacts.csv', 'text/csv')).toBe(false);
+  });
+});